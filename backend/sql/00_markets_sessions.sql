@@ -0,0 +1,41 @@
+-- Base tables: prediction markets and the betting sessions that trade on them
+create table public.sessions (
+  session_id text not null,
+  user_address text not null,
+  status text not null default 'OPEN'::text,
+  initial_collateral text not null default '0'::text,  -- USDC base units
+  current_balance text not null default '0'::text,
+  latest_signature text not null,
+  nonce integer not null default 0,
+  created_at timestamp with time zone null default now(),
+  updated_at timestamp with time zone null default now(),
+  constraint sessions_pkey primary key (session_id),
+  constraint sessions_status_check check ((status = any (array['OPEN'::text, 'CLOSING'::text, 'CLOSED'::text])))
+) TABLESPACE pg_default;
+
+create index IF not exists idx_sessions_user on public.sessions using btree (user_address, created_at desc) TABLESPACE pg_default;
+
+create table public.markets (
+  market_id text not null,
+  title text not null,
+  description text null,
+  category text null default 'general'::text,
+  expires_at timestamp with time zone not null,
+  yes_reserves text not null,
+  no_reserves text not null,
+  k_invariant text not null,
+  status text not null default 'ACTIVE'::text,
+  resolution_value text null,
+  resolution_type text null default 'manual'::text,
+  oracle_config jsonb null,
+  resolver_address text null,
+  resolved_at timestamp with time zone null,
+  resolved_by text null,
+  created_at timestamp with time zone null default now(),
+  constraint markets_pkey primary key (market_id),
+  constraint markets_status_check check ((status = any (array['ACTIVE'::text, 'RESOLVED'::text, 'CANCELLED'::text]))),
+  constraint markets_resolution_value_check check ((resolution_value = any (array['YES'::text, 'NO'::text]))),
+  constraint markets_resolution_type_check check ((resolution_type = any (array['manual'::text, 'oracle'::text])))
+) TABLESPACE pg_default;
+
+create index IF not exists idx_markets_status on public.markets using btree (status, expires_at) TABLESPACE pg_default;
@@ -0,0 +1,17 @@
+-- Categorical markets: N mutually exclusive outcomes priced by one pool
+alter table public.markets
+  add column if not exists market_type text not null default 'BINARY',
+  add column if not exists outcomes text[] not null default array['YES'::text, 'NO'::text],
+  add column if not exists outcome_reserves text[] null,   -- per-outcome reserves (categorical only)
+  add column if not exists total_collateral text null;     -- USDC backing the pool (categorical only)
+
+alter table public.markets
+  drop constraint if exists markets_market_type_check,
+  add constraint markets_market_type_check check ((market_type = any (array['BINARY'::text, 'CATEGORICAL'::text])));
+
+-- Resolution value is now any outcome label
+alter table public.markets drop constraint if exists markets_resolution_value_check;
+
+-- Positions and trades reference outcomes by label
+alter table public.positions drop constraint if exists positions_outcome_check;
+alter table public.trades drop constraint if exists trades_outcome_check;
@@ -0,0 +1,8 @@
+-- Pricing engines: each market is priced by CPMM (x*y=k) or LMSR
+alter table public.markets
+  add column if not exists pricing_engine text not null default 'CPMM',
+  add column if not exists liquidity_parameter text null;  -- LMSR liquidity parameter b (LMSR only)
+
+alter table public.markets
+  drop constraint if exists markets_pricing_engine_check,
+  add constraint markets_pricing_engine_check check ((pricing_engine = any (array['CPMM'::text, 'LMSR'::text])));
@@ -0,0 +1,14 @@
+-- Scalar markets: LONG/SHORT tokens over a numeric range [scalar_low, scalar_high]
+alter table public.markets
+  add column if not exists scalar_low double precision null,
+  add column if not exists scalar_high double precision null;
+
+alter table public.markets
+  drop constraint if exists markets_market_type_check,
+  add constraint markets_market_type_check check ((market_type = any (array['BINARY'::text, 'CATEGORICAL'::text, 'SCALAR'::text])));
+
+alter table public.markets
+  drop constraint if exists markets_scalar_range_check,
+  add constraint markets_scalar_range_check check (
+    market_type <> 'SCALAR' or (scalar_low is not null and scalar_high is not null and scalar_high > scalar_low)
+  );
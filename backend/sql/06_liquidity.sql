@@ -0,0 +1,29 @@
+-- Liquidity providers: LP shares are a pro-rata claim on a market's pool reserves
+alter table public.markets
+  add column if not exists lp_total_shares text not null default '0';  -- LP shares outstanding
+
+-- Existing markets were seeded without a funding provider: their seed LP
+-- shares (one per unit of the deepest reserve) are held by the protocol
+update public.markets
+set lp_total_shares = (
+  case
+    when market_type = 'CATEGORICAL' then (select max(r::numeric) from unnest(outcome_reserves) as r)
+    else greatest(yes_reserves::numeric, no_reserves::numeric)
+  end
+)::text
+where lp_total_shares = '0';
+
+create table public.liquidity_positions (
+  id uuid not null default gen_random_uuid (),
+  user_id text not null,
+  market_id text not null,
+  lp_shares text not null default '0'::text,
+  cost_basis text not null default '0'::text,  -- USDC paid for the LP shares held
+  created_at timestamp with time zone null default now(),
+  constraint liquidity_positions_pkey primary key (id),
+  constraint liquidity_positions_user_id_market_id_key unique (user_id, market_id),
+  constraint liquidity_positions_market_id_fkey foreign KEY (market_id) references markets (market_id),
+  constraint liquidity_positions_user_id_fkey foreign KEY (user_id) references sessions (session_id)
+) TABLESPACE pg_default;
+
+create index IF not exists idx_liquidity_positions_market on public.liquidity_positions using btree (market_id) TABLESPACE pg_default;
@@ -0,0 +1,30 @@
+-- Trade fees: every buy and sell pays fee_bps of its notional, split between
+-- the pool's LPs, the market creator and the protocol treasury
+alter table public.markets
+  add column if not exists creator_id text null,                                -- session that funded the seed liquidity
+  add column if not exists fee_bps integer not null default 0,                  -- existing markets stay fee-free
+  add column if not exists lp_fee_share_bps integer not null default 7000,      -- basis points of each fee
+  add column if not exists creator_fee_share_bps integer not null default 1000,
+  add column if not exists protocol_fee_share_bps integer not null default 2000,
+  add column if not exists lp_fees_accrued text not null default '0',           -- USDC base units, kept in the pool
+  add column if not exists creator_fees_accrued text not null default '0',      -- owed to the creator, paid at resolution
+  add column if not exists protocol_fees_accrued text not null default '0';     -- protocol treasury
+
+alter table public.markets
+  drop constraint if exists markets_creator_id_fkey,
+  add constraint markets_creator_id_fkey foreign KEY (creator_id) references sessions (session_id);
+
+alter table public.markets
+  drop constraint if exists markets_fee_bps_check,
+  add constraint markets_fee_bps_check check (fee_bps >= 0 and fee_bps <= 1000);
+
+alter table public.markets
+  drop constraint if exists markets_fee_split_check,
+  add constraint markets_fee_split_check check (
+    lp_fee_share_bps >= 0 and creator_fee_share_bps >= 0 and protocol_fee_share_bps >= 0
+    and lp_fee_share_bps + creator_fee_share_bps + protocol_fee_share_bps = 10000
+  );
+
+-- Fee paid on each trade (USDC base units)
+alter table public.trades
+  add column if not exists fee text not null default '0';
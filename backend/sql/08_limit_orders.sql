@@ -0,0 +1,32 @@
+-- Limit orders: buy orders that rest against the AMM and fill whenever the
+-- outcome's price is below the order's limit. The order's USDC is escrowed
+-- from the session balance when it is placed.
+create table public.limit_orders (
+  id uuid not null default gen_random_uuid (),
+  user_id text not null,
+  market_id text not null,
+  outcome text not null,
+  limit_price numeric not null,                      -- highest price (0-1) the order buys at
+  usdc_amount text not null,                         -- USDC escrowed when the order was placed
+  usdc_remaining text not null,                      -- escrow not yet spent (refunded on cancel / expiry)
+  shares_filled text not null default '0'::text,
+  time_in_force text not null default 'GTC'::text,
+  expires_at timestamp with time zone null,          -- GTT orders only
+  status text not null default 'OPEN'::text,
+  created_at timestamp with time zone null default now(),
+  updated_at timestamp with time zone null default now(),
+  constraint limit_orders_pkey primary key (id),
+  constraint limit_orders_market_id_fkey foreign KEY (market_id) references markets (market_id),
+  constraint limit_orders_user_id_fkey foreign KEY (user_id) references sessions (session_id),
+  constraint limit_orders_limit_price_check check (limit_price > 0 and limit_price < 1),
+  constraint limit_orders_time_in_force_check check (
+    (time_in_force = 'GTC' and expires_at is null)
+    or (time_in_force = 'GTT' and expires_at is not null)
+  ),
+  constraint limit_orders_status_check check (status in ('OPEN', 'FILLED', 'CANCELLED', 'EXPIRED'))
+) TABLESPACE pg_default;
+
+create index IF not exists idx_limit_orders_open on public.limit_orders using btree (market_id, limit_price desc, created_at) TABLESPACE pg_default
+where status = 'OPEN';
+
+create index IF not exists idx_limit_orders_user on public.limit_orders using btree (user_id, created_at desc) TABLESPACE pg_default;
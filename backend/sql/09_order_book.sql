@@ -0,0 +1,15 @@
+-- Order book: limit orders get a side. Bids (BUY) escrow USDC as before;
+-- asks (SELL) escrow outcome shares taken out of the seller's position.
+-- Incoming market orders are split between the book and the pool.
+alter table public.limit_orders
+  add column if not exists side text not null default 'BUY'::text,
+  add column if not exists shares_amount text not null default '0'::text,     -- asks: shares escrowed when placed
+  add column if not exists shares_remaining text not null default '0'::text,  -- asks: shares not yet sold (returned on cancel / expiry)
+  add column if not exists usdc_filled text not null default '0'::text;       -- asks: USDC received so far
+
+alter table public.limit_orders
+  drop constraint if exists limit_orders_side_check,
+  add constraint limit_orders_side_check check (side in ('BUY', 'SELL'));
+
+create index IF not exists idx_limit_orders_book on public.limit_orders using btree (market_id, outcome, side, limit_price, created_at) TABLESPACE pg_default
+where status = 'OPEN';
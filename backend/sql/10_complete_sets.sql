@@ -0,0 +1,5 @@
+-- Complete sets: splitting USDC into one share of every outcome and merging
+-- them back are recorded as their own trade types, one row per outcome
+alter table public.trades drop constraint if exists trades_trade_type_check;
+alter table public.trades add constraint trades_trade_type_check
+  check (trade_type = any (array['BUY'::text, 'SELL'::text, 'CLAIM'::text, 'SPLIT'::text, 'MERGE'::text]));
@@ -0,0 +1,103 @@
+-- Atomic trades: every write a trade makes (reserves, fees, balances,
+-- positions, limit orders, trade records) commits in one transaction, and
+-- only if the market is still at the version the trade was computed from.
+-- A trade that loses the race writes nothing and is retried by the backend.
+alter table public.markets
+  add column if not exists version bigint not null default 0;  -- bumped by every committed trade
+
+create or replace function public.commit_market_trade(
+  p_market_id text,
+  p_expected_version bigint,
+  p_market jsonb,              -- market columns to set (reserves, k, collateral, LP shares)
+  p_fees jsonb,                -- fee accruals to add: { lp, creator, protocol }
+  p_balances jsonb,            -- session balance changes: [{ session_id, delta }]
+  p_positions jsonb,           -- positions to write: [{ user_id, outcome, shares, average_entry_price }]
+  p_liquidity_positions jsonb, -- LP positions to write: [{ user_id, lp_shares, cost_basis }]
+  p_limit_orders jsonb,        -- limit order rows to insert or update
+  p_trades jsonb               -- trades to record
+) returns boolean
+language plpgsql
+as $$
+declare
+  v_balance record;
+  v_new_balance numeric;
+begin
+  update public.markets m set
+    yes_reserves = coalesce(p_market->>'yes_reserves', m.yes_reserves),
+    no_reserves = coalesce(p_market->>'no_reserves', m.no_reserves),
+    outcome_reserves = coalesce(
+      (select array_agg(r.value order by r.ordinality)
+       from jsonb_array_elements_text(p_market->'outcome_reserves') with ordinality as r(value, ordinality)),
+      m.outcome_reserves
+    ),
+    k_invariant = coalesce(p_market->>'k_invariant', m.k_invariant),
+    total_collateral = coalesce(p_market->>'total_collateral', m.total_collateral),
+    lp_total_shares = coalesce(p_market->>'lp_total_shares', m.lp_total_shares),
+    liquidity_parameter = case when p_market ? 'liquidity_parameter' then p_market->>'liquidity_parameter' else m.liquidity_parameter end,
+    lp_fees_accrued = (m.lp_fees_accrued::numeric + coalesce((p_fees->>'lp')::numeric, 0))::text,
+    creator_fees_accrued = (m.creator_fees_accrued::numeric + coalesce((p_fees->>'creator')::numeric, 0))::text,
+    protocol_fees_accrued = (m.protocol_fees_accrued::numeric + coalesce((p_fees->>'protocol')::numeric, 0))::text,
+    version = m.version + 1
+  where m.market_id = p_market_id and m.version = p_expected_version;
+
+  -- Another trade committed first: write nothing
+  if not found then
+    return false;
+  end if;
+
+  for v_balance in
+    select b.session_id, b.delta from jsonb_to_recordset(p_balances) as b(session_id text, delta numeric)
+  loop
+    update public.sessions s set
+      current_balance = (s.current_balance::numeric + v_balance.delta)::text,
+      nonce = s.nonce + 1
+    where s.session_id = v_balance.session_id
+    returning s.current_balance::numeric into v_new_balance;
+
+    if not found then
+      raise exception 'Session % not found', v_balance.session_id;
+    end if;
+    if v_new_balance < 0 then
+      raise exception 'Insufficient session balance for %', v_balance.session_id;
+    end if;
+  end loop;
+
+  insert into public.positions (user_id, market_id, outcome, shares, average_entry_price)
+  select p.user_id, p_market_id, p.outcome, p.shares, p.average_entry_price
+  from jsonb_to_recordset(p_positions) as p(user_id text, outcome text, shares text, average_entry_price numeric)
+  on conflict (user_id, market_id, outcome) do update set
+    shares = excluded.shares,
+    average_entry_price = excluded.average_entry_price;
+
+  insert into public.liquidity_positions (user_id, market_id, lp_shares, cost_basis)
+  select l.user_id, p_market_id, l.lp_shares, l.cost_basis
+  from jsonb_to_recordset(p_liquidity_positions) as l(user_id text, lp_shares text, cost_basis text)
+  on conflict (user_id, market_id) do update set
+    lp_shares = excluded.lp_shares,
+    cost_basis = excluded.cost_basis;
+
+  insert into public.limit_orders
+  select * from jsonb_populate_recordset(null::public.limit_orders, p_limit_orders)
+  on conflict (id) do update set
+    usdc_remaining = excluded.usdc_remaining,
+    shares_filled = excluded.shares_filled,
+    shares_remaining = excluded.shares_remaining,
+    usdc_filled = excluded.usdc_filled,
+    status = excluded.status,
+    updated_at = excluded.updated_at;
+
+  insert into public.trades (
+    session_id, user_address, market_id, trade_type, outcome, shares,
+    price, cost_basis, realized_pnl, fee, market_title
+  )
+  select
+    t.session_id, t.user_address, p_market_id, t.trade_type, t.outcome, t.shares,
+    t.price, t.cost_basis, t.realized_pnl, t.fee, t.market_title
+  from jsonb_to_recordset(p_trades) as t(
+    session_id text, user_address text, trade_type text, outcome text, shares text,
+    price numeric, cost_basis text, realized_pnl text, fee text, market_title text
+  );
+
+  return true;
+end;
+$$;
@@ -0,0 +1,5 @@
+-- Yellow sessions: the key trades are signed with, and the session's yield settings
+alter table public.sessions
+  add column if not exists session_key text null,                 -- address registered by /channel/register
+  add column if not exists rwa_rate_bps integer null,             -- RWA yield rate in basis points
+  add column if not exists safe_mode_enabled boolean null;        -- only bet accrued yield, never principal
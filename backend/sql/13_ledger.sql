@@ -0,0 +1,197 @@
+-- Double-entry ledger: every USDC movement is a journal entry whose lines
+-- sum to zero. Entries are append-only, and session balances only change by
+-- posting one, so sessions.current_balance is always the sum of the
+-- session's SESSION lines.
+create table public.ledger_entries (
+  id bigint generated always as identity,
+  entry_type text not null,   -- BET, SELL, PAYOUT, DEPOSIT, ... (see LedgerEntryType)
+  market_id text null,
+  memo text null,
+  created_at timestamp with time zone not null default now(),
+  constraint ledger_entries_pkey primary key (id)
+) TABLESPACE pg_default;
+
+create table public.ledger_lines (
+  id bigint generated always as identity,
+  entry_id bigint not null,
+  account_type text not null,
+  account_id text not null default ''::text,  -- session / market id, '' for TREASURY and EXTERNAL
+  amount text not null,                       -- USDC base units, positive increases the account
+  constraint ledger_lines_pkey primary key (id),
+  constraint ledger_lines_entry_id_fkey foreign KEY (entry_id) references ledger_entries (id),
+  constraint ledger_lines_account_type_check check ((account_type = any (array[
+    'SESSION'::text, 'MARKET'::text, 'ESCROW'::text, 'CREATOR_FEES'::text, 'TREASURY'::text, 'EXTERNAL'::text
+  ]))),
+  constraint ledger_lines_amount_check check (amount ~ '^-?[0-9]+$')
+) TABLESPACE pg_default;
+
+create index IF not exists idx_ledger_lines_account on public.ledger_lines using btree (account_type, account_id, id) TABLESPACE pg_default;
+create index IF not exists idx_ledger_lines_entry on public.ledger_lines using btree (entry_id) TABLESPACE pg_default;
+
+create or replace function public.ledger_append_only() returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'The ledger is append-only';
+end;
+$$;
+
+create trigger ledger_entries_append_only before update or delete on public.ledger_entries
+  for each row execute function public.ledger_append_only();
+create trigger ledger_lines_append_only before update or delete on public.ledger_lines
+  for each row execute function public.ledger_append_only();
+
+-- Post one entry: { entry_type, market_id, memo, lines: [{ account_type, account_id, amount }] }
+-- SESSION lines are applied to the session balances (bumping their nonce);
+-- an unbalanced entry, a missing session or a negative balance raises
+create or replace function public.post_ledger_entry(p_entry jsonb) returns public.ledger_entries
+language plpgsql
+as $$
+declare
+  v_entry public.ledger_entries;
+  v_session record;
+  v_new_balance numeric;
+begin
+  if jsonb_array_length(coalesce(p_entry->'lines', '[]'::jsonb)) = 0 then
+    raise exception 'Ledger entry % has no lines', p_entry->>'entry_type';
+  end if;
+  if (select sum((l->>'amount')::numeric) from jsonb_array_elements(p_entry->'lines') as l) <> 0 then
+    raise exception 'Ledger entry % does not balance', p_entry->>'entry_type';
+  end if;
+
+  insert into public.ledger_entries (entry_type, market_id, memo)
+  values (p_entry->>'entry_type', p_entry->>'market_id', p_entry->>'memo')
+  returning * into v_entry;
+
+  insert into public.ledger_lines (entry_id, account_type, account_id, amount)
+  select v_entry.id, l.account_type, l.account_id, l.amount
+  from jsonb_to_recordset(p_entry->'lines') as l(account_type text, account_id text, amount text);
+
+  for v_session in
+    select l.account_id as session_id, sum(l.amount::numeric) as delta
+    from jsonb_to_recordset(p_entry->'lines') as l(account_type text, account_id text, amount text)
+    where l.account_type = 'SESSION'
+    group by l.account_id
+  loop
+    update public.sessions s set
+      current_balance = (s.current_balance::numeric + v_session.delta)::text,
+      nonce = s.nonce + 1,
+      updated_at = now()
+    where s.session_id = v_session.session_id
+    returning s.current_balance::numeric into v_new_balance;
+
+    if not found then
+      raise exception 'Session % not found', v_session.session_id;
+    end if;
+    if v_new_balance < 0 then
+      raise exception 'Insufficient session balance for %', v_session.session_id;
+    end if;
+  end loop;
+
+  return v_entry;
+end;
+$$;
+
+-- Balances that predate the ledger become opening entries
+do $$
+declare
+  v_session record;
+  v_entry_id bigint;
+begin
+  for v_session in
+    select session_id, current_balance from public.sessions where current_balance::numeric <> 0
+  loop
+    insert into public.ledger_entries (entry_type, memo)
+    values ('OPENING_BALANCE', 'Balance before the ledger')
+    returning id into v_entry_id;
+
+    insert into public.ledger_lines (entry_id, account_type, account_id, amount) values
+      (v_entry_id, 'SESSION', v_session.session_id, v_session.current_balance),
+      (v_entry_id, 'EXTERNAL', '', (-(v_session.current_balance::numeric))::text);
+  end loop;
+end;
+$$;
+
+-- Trades post their USDC movements as one entry instead of raw balance deltas
+drop function if exists public.commit_market_trade(text, bigint, jsonb, jsonb, jsonb, jsonb, jsonb, jsonb, jsonb);
+
+create or replace function public.commit_market_trade(
+  p_market_id text,
+  p_expected_version bigint,
+  p_market jsonb,              -- market columns to set (reserves, k, collateral, LP shares)
+  p_fees jsonb,                -- fee accruals to add: { lp, creator, protocol }
+  p_entry jsonb,               -- ledger entry for the trade's USDC movements (null if none)
+  p_positions jsonb,           -- positions to write: [{ user_id, outcome, shares, average_entry_price }]
+  p_liquidity_positions jsonb, -- LP positions to write: [{ user_id, lp_shares, cost_basis }]
+  p_limit_orders jsonb,        -- limit order rows to insert or update
+  p_trades jsonb               -- trades to record
+) returns boolean
+language plpgsql
+as $$
+begin
+  update public.markets m set
+    yes_reserves = coalesce(p_market->>'yes_reserves', m.yes_reserves),
+    no_reserves = coalesce(p_market->>'no_reserves', m.no_reserves),
+    outcome_reserves = coalesce(
+      (select array_agg(r.value order by r.ordinality)
+       from jsonb_array_elements_text(p_market->'outcome_reserves') with ordinality as r(value, ordinality)),
+      m.outcome_reserves
+    ),
+    k_invariant = coalesce(p_market->>'k_invariant', m.k_invariant),
+    total_collateral = coalesce(p_market->>'total_collateral', m.total_collateral),
+    lp_total_shares = coalesce(p_market->>'lp_total_shares', m.lp_total_shares),
+    liquidity_parameter = case when p_market ? 'liquidity_parameter' then p_market->>'liquidity_parameter' else m.liquidity_parameter end,
+    lp_fees_accrued = (m.lp_fees_accrued::numeric + coalesce((p_fees->>'lp')::numeric, 0))::text,
+    creator_fees_accrued = (m.creator_fees_accrued::numeric + coalesce((p_fees->>'creator')::numeric, 0))::text,
+    protocol_fees_accrued = (m.protocol_fees_accrued::numeric + coalesce((p_fees->>'protocol')::numeric, 0))::text,
+    version = m.version + 1
+  where m.market_id = p_market_id and m.version = p_expected_version;
+
+  -- Another trade committed first: write nothing
+  if not found then
+    return false;
+  end if;
+
+  if p_entry is not null and jsonb_typeof(p_entry) = 'object' then
+    perform public.post_ledger_entry(p_entry);
+  end if;
+
+  insert into public.positions (user_id, market_id, outcome, shares, average_entry_price)
+  select p.user_id, p_market_id, p.outcome, p.shares, p.average_entry_price
+  from jsonb_to_recordset(p_positions) as p(user_id text, outcome text, shares text, average_entry_price numeric)
+  on conflict (user_id, market_id, outcome) do update set
+    shares = excluded.shares,
+    average_entry_price = excluded.average_entry_price;
+
+  insert into public.liquidity_positions (user_id, market_id, lp_shares, cost_basis)
+  select l.user_id, p_market_id, l.lp_shares, l.cost_basis
+  from jsonb_to_recordset(p_liquidity_positions) as l(user_id text, lp_shares text, cost_basis text)
+  on conflict (user_id, market_id) do update set
+    lp_shares = excluded.lp_shares,
+    cost_basis = excluded.cost_basis;
+
+  insert into public.limit_orders
+  select * from jsonb_populate_recordset(null::public.limit_orders, p_limit_orders)
+  on conflict (id) do update set
+    usdc_remaining = excluded.usdc_remaining,
+    shares_filled = excluded.shares_filled,
+    shares_remaining = excluded.shares_remaining,
+    usdc_filled = excluded.usdc_filled,
+    status = excluded.status,
+    updated_at = excluded.updated_at;
+
+  insert into public.trades (
+    session_id, user_address, market_id, trade_type, outcome, shares,
+    price, cost_basis, realized_pnl, fee, market_title
+  )
+  select
+    t.session_id, t.user_address, p_market_id, t.trade_type, t.outcome, t.shares,
+    t.price, t.cost_basis, t.realized_pnl, t.fee, t.market_title
+  from jsonb_to_recordset(p_trades) as t(
+    session_id text, user_address text, trade_type text, outcome text, shares text,
+    price numeric, cost_basis text, realized_pnl text, fee text, market_title text
+  );
+
+  return true;
+end;
+$$;
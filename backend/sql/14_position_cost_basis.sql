@@ -0,0 +1,108 @@
+-- Exact position cost basis: positions carry the USDC paid for the shares
+-- they hold (base units) instead of deriving it from the rounded
+-- average_entry_price, which is kept for display. Asks carry the cost basis
+-- of their escrowed shares until they sell or return to the position.
+alter table public.positions
+  add column if not exists cost_basis text not null default '0'::text;  -- USDC paid for the shares held
+
+alter table public.limit_orders
+  add column if not exists cost_basis_remaining text not null default '0'::text;  -- asks: cost basis of the shares not yet sold
+
+-- Existing positions and asks start from their average entry price
+update public.positions
+set cost_basis = round(shares::numeric * average_entry_price)::text
+where shares::numeric > 0;
+
+update public.limit_orders o
+set cost_basis_remaining = round(o.shares_remaining::numeric * p.average_entry_price)::text
+from public.positions p
+where o.side = 'SELL' and o.status = 'OPEN' and o.shares_remaining::numeric > 0
+  and p.user_id = o.user_id and p.market_id = o.market_id and p.outcome = o.outcome;
+
+alter table public.positions
+  drop constraint if exists positions_cost_basis_check,
+  add constraint positions_cost_basis_check check (cost_basis ~ '^[0-9]+$');
+
+-- Trades write the cost basis of positions and asks
+create or replace function public.commit_market_trade(
+  p_market_id text,
+  p_expected_version bigint,
+  p_market jsonb,              -- market columns to set (reserves, k, collateral, LP shares)
+  p_fees jsonb,                -- fee accruals to add: { lp, creator, protocol }
+  p_entry jsonb,               -- ledger entry for the trade's USDC movements (null if none)
+  p_positions jsonb,           -- positions to write: [{ user_id, outcome, shares, cost_basis, average_entry_price }]
+  p_liquidity_positions jsonb, -- LP positions to write: [{ user_id, lp_shares, cost_basis }]
+  p_limit_orders jsonb,        -- limit order rows to insert or update
+  p_trades jsonb               -- trades to record
+) returns boolean
+language plpgsql
+as $$
+begin
+  update public.markets m set
+    yes_reserves = coalesce(p_market->>'yes_reserves', m.yes_reserves),
+    no_reserves = coalesce(p_market->>'no_reserves', m.no_reserves),
+    outcome_reserves = coalesce(
+      (select array_agg(r.value order by r.ordinality)
+       from jsonb_array_elements_text(p_market->'outcome_reserves') with ordinality as r(value, ordinality)),
+      m.outcome_reserves
+    ),
+    k_invariant = coalesce(p_market->>'k_invariant', m.k_invariant),
+    total_collateral = coalesce(p_market->>'total_collateral', m.total_collateral),
+    lp_total_shares = coalesce(p_market->>'lp_total_shares', m.lp_total_shares),
+    liquidity_parameter = case when p_market ? 'liquidity_parameter' then p_market->>'liquidity_parameter' else m.liquidity_parameter end,
+    lp_fees_accrued = (m.lp_fees_accrued::numeric + coalesce((p_fees->>'lp')::numeric, 0))::text,
+    creator_fees_accrued = (m.creator_fees_accrued::numeric + coalesce((p_fees->>'creator')::numeric, 0))::text,
+    protocol_fees_accrued = (m.protocol_fees_accrued::numeric + coalesce((p_fees->>'protocol')::numeric, 0))::text,
+    version = m.version + 1
+  where m.market_id = p_market_id and m.version = p_expected_version;
+
+  -- Another trade committed first: write nothing
+  if not found then
+    return false;
+  end if;
+
+  if p_entry is not null and jsonb_typeof(p_entry) = 'object' then
+    perform public.post_ledger_entry(p_entry);
+  end if;
+
+  insert into public.positions (user_id, market_id, outcome, shares, cost_basis, average_entry_price)
+  select p.user_id, p_market_id, p.outcome, p.shares, p.cost_basis, p.average_entry_price
+  from jsonb_to_recordset(p_positions) as p(user_id text, outcome text, shares text, cost_basis text, average_entry_price numeric)
+  on conflict (user_id, market_id, outcome) do update set
+    shares = excluded.shares,
+    cost_basis = excluded.cost_basis,
+    average_entry_price = excluded.average_entry_price;
+
+  insert into public.liquidity_positions (user_id, market_id, lp_shares, cost_basis)
+  select l.user_id, p_market_id, l.lp_shares, l.cost_basis
+  from jsonb_to_recordset(p_liquidity_positions) as l(user_id text, lp_shares text, cost_basis text)
+  on conflict (user_id, market_id) do update set
+    lp_shares = excluded.lp_shares,
+    cost_basis = excluded.cost_basis;
+
+  insert into public.limit_orders
+  select * from jsonb_populate_recordset(null::public.limit_orders, p_limit_orders)
+  on conflict (id) do update set
+    usdc_remaining = excluded.usdc_remaining,
+    shares_filled = excluded.shares_filled,
+    shares_remaining = excluded.shares_remaining,
+    usdc_filled = excluded.usdc_filled,
+    cost_basis_remaining = excluded.cost_basis_remaining,
+    status = excluded.status,
+    updated_at = excluded.updated_at;
+
+  insert into public.trades (
+    session_id, user_address, market_id, trade_type, outcome, shares,
+    price, cost_basis, realized_pnl, fee, market_title
+  )
+  select
+    t.session_id, t.user_address, p_market_id, t.trade_type, t.outcome, t.shares,
+    t.price, t.cost_basis, t.realized_pnl, t.fee, t.market_title
+  from jsonb_to_recordset(p_trades) as t(
+    session_id text, user_address text, trade_type text, outcome text, shares text,
+    price numeric, cost_basis text, realized_pnl text, fee text, market_title text
+  );
+
+  return true;
+end;
+$$;
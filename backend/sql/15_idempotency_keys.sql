@@ -0,0 +1,44 @@
+-- Idempotency keys: a state-changing request sent with an Idempotency-Key
+-- header (or a signed intent nonce) is recorded here, so a client retry of
+-- the same request replays the stored response instead of running it twice
+create table public.idempotency_keys (
+  key text not null,                    -- endpoint and client key, e.g. 'POST /api/amm/bet:<key>'
+  request_hash text not null,           -- sha256 of the request body
+  status text not null default 'PENDING'::text,
+  response_status integer null,
+  response_body jsonb null,
+  created_at timestamp with time zone not null default now(),
+  completed_at timestamp with time zone null,
+  constraint idempotency_keys_pkey primary key (key),
+  constraint idempotency_keys_status_check check ((status = any (array['PENDING'::text, 'COMPLETED'::text])))
+) TABLESPACE pg_default;
+
+create index IF not exists idx_idempotency_keys_created_at on public.idempotency_keys using btree (created_at) TABLESPACE pg_default;
+
+-- Claim a key for a request about to run: returns no row when the caller
+-- now holds it, otherwise the existing record. A PENDING claim for the same
+-- request older than p_pending_timeout_ms is taken over (its request died).
+create or replace function public.claim_idempotency_key(
+  p_key text,
+  p_request_hash text,
+  p_pending_timeout_ms integer
+) returns setof public.idempotency_keys
+language plpgsql
+as $$
+begin
+  insert into public.idempotency_keys (key, request_hash)
+  values (p_key, p_request_hash)
+  on conflict (key) do nothing;
+  if found then return; end if;
+
+  update public.idempotency_keys
+  set created_at = now()
+  where key = p_key
+    and status = 'PENDING'
+    and request_hash = p_request_hash
+    and created_at < now() - make_interval(secs => p_pending_timeout_ms / 1000.0);
+  if found then return; end if;
+
+  return query select * from public.idempotency_keys where key = p_key;
+end;
+$$;
@@ -0,0 +1,59 @@
+-- Solvency reconciliation: each run of the reconciliation job and the
+-- discrepancies it found (see amm/reconciliation.ts)
+create table public.reconciliation_runs (
+  id bigint generated always as identity,
+  started_at timestamp with time zone not null,
+  finished_at timestamp with time zone not null,
+  markets_checked integer not null,
+  sessions_checked integer not null,
+  discrepancy_count integer not null,
+  totals jsonb not null,          -- collateral, worst-case payout, session balances, ... (base units)
+  constraint reconciliation_runs_pkey primary key (id)
+) TABLESPACE pg_default;
+
+create table public.reconciliation_discrepancies (
+  id bigint generated always as identity,
+  run_id bigint not null,
+  kind text not null,
+  subject_id text not null,       -- market or session id
+  expected text not null,
+  actual text not null,
+  details jsonb null,
+  constraint reconciliation_discrepancies_pkey primary key (id),
+  constraint reconciliation_discrepancies_run_id_fkey foreign KEY (run_id) references reconciliation_runs (id) on delete cascade,
+  constraint reconciliation_discrepancies_kind_check check ((kind = any (array[
+    'MARKET_UNDERCOLLATERALIZED'::text, 'SESSION_LEDGER_MISMATCH'::text, 'SESSION_FUNDS_MISMATCH'::text
+  ])))
+) TABLESPACE pg_default;
+
+create index IF not exists idx_reconciliation_discrepancies_run on public.reconciliation_discrepancies using btree (run_id) TABLESPACE pg_default;
+
+-- Record a run with its discrepancies in one transaction
+-- p_run: { started_at, finished_at, markets_checked, sessions_checked, totals }
+-- p_discrepancies: [{ kind, subject_id, expected, actual, details }]
+create or replace function public.record_reconciliation(p_run jsonb, p_discrepancies jsonb)
+returns public.reconciliation_runs
+language plpgsql
+as $$
+declare
+  v_run public.reconciliation_runs;
+begin
+  insert into public.reconciliation_runs (
+    started_at, finished_at, markets_checked, sessions_checked, discrepancy_count, totals
+  ) values (
+    (p_run->>'started_at')::timestamptz,
+    (p_run->>'finished_at')::timestamptz,
+    (p_run->>'markets_checked')::integer,
+    (p_run->>'sessions_checked')::integer,
+    jsonb_array_length(coalesce(p_discrepancies, '[]'::jsonb)),
+    p_run->'totals'
+  )
+  returning * into v_run;
+
+  insert into public.reconciliation_discrepancies (run_id, kind, subject_id, expected, actual, details)
+  select v_run.id, d->>'kind', d->>'subject_id', d->>'expected', d->>'actual', d->'details'
+  from jsonb_array_elements(coalesce(p_discrepancies, '[]'::jsonb)) as d;
+
+  return v_run;
+end;
+$$;
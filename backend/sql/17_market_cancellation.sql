@@ -0,0 +1,16 @@
+-- Market cancellation: a cancelled market refunds its holders instead of
+-- resolving. Each market chooses how (see src/amm/refunds.ts): the net cost
+-- basis of every position and LP deposit, or its value at the last prices.
+-- resolved_at / resolved_by record the cancellation like a resolution.
+alter table public.markets
+  add column if not exists refund_mode text not null default 'COST_BASIS'::text;
+
+alter table public.markets
+  drop constraint if exists markets_refund_mode_check,
+  add constraint markets_refund_mode_check
+    check ((refund_mode = any (array['COST_BASIS'::text, 'FAIR_PRICE'::text])));
+
+-- Refunds are recorded as REFUND trades
+alter table public.trades drop constraint if exists trades_trade_type_check;
+alter table public.trades add constraint trades_trade_type_check
+  check (trade_type = any (array['BUY'::text, 'SELL'::text, 'CLAIM'::text, 'SPLIT'::text, 'MERGE'::text, 'REFUND'::text]));
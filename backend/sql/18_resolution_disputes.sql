@@ -0,0 +1,35 @@
+-- Resolution disputes: a market with a dispute window resolves in two steps.
+-- Its resolver proposes the outcome (PROPOSED, trading halted); anyone can
+-- dispute it until dispute_ends_at by posting the market's dispute bond
+-- (DISPUTED, left to an admin decision). Payouts only happen once the market
+-- is RESOLVED: after an undisputed window, or by the admin's decision.
+-- A window of 0 resolves immediately, as before.
+alter table public.markets
+  add column if not exists dispute_window_seconds integer not null default 0,
+  add column if not exists dispute_bond text not null default '0'::text,  -- USDC base units
+  add column if not exists proposed_value text null,
+  add column if not exists proposed_by text null,
+  add column if not exists proposed_at timestamp with time zone null,
+  add column if not exists dispute_ends_at timestamp with time zone null,
+  add column if not exists disputed_by text null,                          -- session that posted the bond
+  add column if not exists disputed_at timestamp with time zone null,
+  add column if not exists dispute_reason text null;
+
+alter table public.markets
+  drop constraint if exists markets_dispute_window_check,
+  add constraint markets_dispute_window_check check (dispute_window_seconds >= 0),
+  drop constraint if exists markets_dispute_bond_check,
+  add constraint markets_dispute_bond_check check (dispute_bond ~ '^[0-9]+$');
+
+alter table public.markets drop constraint if exists markets_status_check;
+alter table public.markets add constraint markets_status_check
+  check ((status = any (array['ACTIVE'::text, 'PROPOSED'::text, 'DISPUTED'::text, 'RESOLVED'::text, 'CANCELLED'::text])));
+
+create index IF not exists idx_markets_status_dispute_ends_at on public.markets using btree (status, dispute_ends_at) TABLESPACE pg_default;
+
+-- Bonds are held per market in a DISPUTE_BONDS account until the decision
+alter table public.ledger_lines drop constraint if exists ledger_lines_account_type_check;
+alter table public.ledger_lines add constraint ledger_lines_account_type_check
+  check ((account_type = any (array[
+    'SESSION'::text, 'MARKET'::text, 'ESCROW'::text, 'CREATOR_FEES'::text, 'DISPUTE_BONDS'::text, 'TREASURY'::text, 'EXTERNAL'::text
+  ])));
@@ -0,0 +1,6 @@
+-- Oracle resolutions: the price an oracle market was resolved (or proposed)
+-- against, where it came from and when it was observed
+alter table public.markets
+  add column if not exists oracle_price double precision null,
+  add column if not exists oracle_source text null,
+  add column if not exists oracle_observed_at timestamp with time zone null;
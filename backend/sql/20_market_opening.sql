@@ -0,0 +1,8 @@
+-- Scheduled listings: a market trades from opens_at (its creation when null)
+-- until expires_at, after which it is closed awaiting resolution
+alter table public.markets
+  add column if not exists opens_at timestamp with time zone null;
+
+alter table public.markets
+  drop constraint if exists markets_opens_at_check,
+  add constraint markets_opens_at_check check (opens_at is null or opens_at < expires_at);
@@ -0,0 +1,4 @@
+-- Oracle evidence: every source's answer an oracle resolution price was
+-- aggregated from (price, confidence, publish time and whether it counted)
+alter table public.markets
+  add column if not exists oracle_evidence jsonb null;
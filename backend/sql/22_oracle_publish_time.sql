@@ -0,0 +1,4 @@
+-- Oracle resolutions use the price as of expiry: record when the price an
+-- oracle market was resolved against was published
+alter table public.markets
+  add column if not exists oracle_published_at timestamp with time zone null;
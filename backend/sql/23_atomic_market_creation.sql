@@ -0,0 +1,45 @@
+-- Market creation: insert a market together with its seed liquidity (the
+-- creator's deposit, LP position and trade record) in one transaction, so a
+-- creator who can't fund the market leaves no market behind
+create or replace function public.create_market(
+  p_market jsonb,              -- market columns to insert; columns left out take their defaults
+  p_entry jsonb,               -- ledger entry for the creator's deposit
+  p_liquidity_positions jsonb, -- LP positions to write: [{ user_id, lp_shares, cost_basis }]
+  p_trades jsonb               -- trades to record
+) returns public.markets
+language plpgsql
+as $$
+declare
+  v_columns text;
+  v_market public.markets;
+begin
+  select string_agg(quote_ident(k), ', ') into v_columns
+  from jsonb_object_keys(p_market) as k;
+
+  execute format(
+    'insert into public.markets (%1$s) select %1$s from jsonb_populate_record(null::public.markets, $1) returning *',
+    v_columns
+  ) using p_market into v_market;
+
+  -- Raises on an insufficient balance, rolling the market back
+  perform public.post_ledger_entry(p_entry);
+
+  insert into public.liquidity_positions (user_id, market_id, lp_shares, cost_basis)
+  select l.user_id, v_market.market_id, l.lp_shares, l.cost_basis
+  from jsonb_to_recordset(p_liquidity_positions) as l(user_id text, lp_shares text, cost_basis text);
+
+  insert into public.trades (
+    session_id, user_address, market_id, trade_type, outcome, shares,
+    price, cost_basis, realized_pnl, fee, market_title
+  )
+  select
+    t.session_id, t.user_address, v_market.market_id, t.trade_type, t.outcome, t.shares,
+    t.price, t.cost_basis, t.realized_pnl, t.fee, t.market_title
+  from jsonb_to_recordset(p_trades) as t(
+    session_id text, user_address text, trade_type text, outcome text, shares text,
+    price numeric, cost_basis text, realized_pnl text, fee text, market_title text
+  );
+
+  return v_market;
+end;
+$$;
@@ -0,0 +1,8 @@
+-- Yellow sessions bet straight from their collateral in the SessionEscrow
+-- contract: record those draws per session in a SESSION_ESCROW account
+alter table public.ledger_lines drop constraint if exists ledger_lines_account_type_check;
+alter table public.ledger_lines add constraint ledger_lines_account_type_check
+  check ((account_type = any (array[
+    'SESSION'::text, 'SESSION_ESCROW'::text, 'MARKET'::text, 'ESCROW'::text, 'CREATOR_FEES'::text,
+    'DISPUTE_BONDS'::text, 'TREASURY'::text, 'EXTERNAL'::text
+  ])));
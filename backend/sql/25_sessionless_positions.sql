@@ -0,0 +1,5 @@
+-- Wallets without a session trade straight from outside the system (the
+-- EXTERNAL ledger account), so their positions and trades are keyed by a
+-- user id with no sessions row behind it
+alter table public.positions drop constraint if exists positions_user_id_fkey;
+alter table public.trades drop constraint if exists trades_session_id_fkey;
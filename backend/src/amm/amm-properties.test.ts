@@ -0,0 +1,595 @@
+/**
+ * AMM Property Tests - Fixed-Point Math Invariants
+ *
+ * Drives randomized (but seeded, so reproducible) trade sequences through
+ * the binary pool and checks, after every step:
+ * - k never decreases and the reserves product never drops below k
+ * - collateral always covers the worst-case payout
+ * - sellPosition pays out exactly the largest amount the invariant allows
+ * - calculateAmountForTargetPrice reaches the target within its error bound
+ * - liquidity deposits/withdrawals keep prices, backing and LP share value
+ * - trade fees add up and every USDC paid in is either in the pool or owed
+ * - limit order fills never buy above the limit or spend more than the escrow
+ * - position cost basis is never created or lost across buys and partial sells
+ * - cancellation refunds never pay out more than the market holds
+ *
+ * Reserves go far past 2^53 base units so any Number round-trip would show.
+ */
+
+import { describe, it, beforeEach } from 'vitest';
+import {
+    PoolState,
+    CategoricalPoolState,
+    Outcome,
+    ONE_USDC,
+    createPool,
+    getPrices,
+    calculateSwap,
+    calculateAmountForTargetPrice,
+    placeBet,
+    sellPosition,
+    isqrt,
+    ceilSqrt,
+    ceilDiv,
+    cpmmEngine,
+    lmsrEngine,
+    initialLpShares,
+    addLiquidity,
+    removeLiquidity,
+    FeeConfig,
+    MAX_TRADE_FEE_BPS,
+    placeBetWithFee,
+    sellPositionWithFee,
+    fillLimitOrder,
+    BookOrder,
+    routeBuy,
+    routeSell,
+    splitPosition,
+    mergePositions,
+    CostedPosition,
+    addShares,
+    releaseShares,
+    liquidityPoolValue,
+    costBasisRefunds,
+    fairPricePayouts,
+    PAYOUT_PRECISION
+} from './index';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+const SEED = 0x5eed;
+const SEQUENCES = 50;
+const STEPS_PER_SEQUENCE = 30;
+
+/** mulberry32: small deterministic PRNG */
+function createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+let random = createRandom(SEED);
+
+/** Random bigint in [min, max] */
+function randomBigInt(min: bigint, max: bigint): bigint {
+    const span = max - min + 1n;
+    let value = 0n;
+    for (let i = 0; i < 4; i++) {
+        value = (value << 32n) | BigInt(Math.floor(random() * 4294967296));
+    }
+    return min + (value % span);
+}
+
+function check(condition: boolean, message: string): void {
+    if (!condition) {
+        throw new Error(`Property violated: ${message}`);
+    }
+}
+
+function randomOutcome(): Outcome {
+    return random() < 0.5 ? Outcome.YES : Outcome.NO;
+}
+
+// Every property replays the same sequence, whatever runs before it
+beforeEach(() => {
+    random = createRandom(SEED);
+});
+
+describe('AMM properties', () => {
+    it('isqrt / ceilSqrt are exact', () => {
+        for (let i = 0; i < 500; i++) {
+            const n = randomBigInt(0n, 1n << BigInt(1 + Math.floor(random() * 200)));
+            const root = isqrt(n);
+            check(root * root <= n && (root + 1n) * (root + 1n) > n, `isqrt(${n}) = ${root}`);
+
+            const up = ceilSqrt(n);
+            check(up * up >= n && (up === 0n || (up - 1n) * (up - 1n) < n), `ceilSqrt(${n}) = ${up}`);
+        }
+    });
+
+    it('k never decreases, collateral covers payouts', () => {
+        for (let seq = 0; seq < SEQUENCES; seq++) {
+            // Seed liquidity from $1 to ~$10B (well past 2^53 base units)
+            const initialLiquidity = randomBigInt(ONE_USDC, 10_000_000_000n * ONE_USDC);
+            let pool: PoolState = createPool({
+                marketId: `property-${seq}`,
+                initialLiquidity,
+                virtualLiquidity: randomBigInt(0n, initialLiquidity)
+            });
+
+            // Independent ledger of what users hold and what was paid in/out
+            let collateral = initialLiquidity; // one YES + NO pair per seed USDC
+            const userShares = { [Outcome.YES]: 0n, [Outcome.NO]: 0n };
+
+            for (let step = 0; step < STEPS_PER_SEQUENCE; step++) {
+                const kBefore = pool.k;
+                const outcome = randomOutcome();
+                const held = userShares[outcome];
+
+                if (held > 0n && random() < 0.4) {
+                    // Sell some or all of a position
+                    const shares = random() < 0.3 ? held : randomBigInt(1n, held);
+                    let result: ReturnType<typeof sellPosition>;
+                    try {
+                        result = sellPosition(pool, shares, outcome);
+                    } catch {
+                        continue; // Dust sells are allowed to be rejected
+                    }
+
+                    // Maximality: one more base unit would break the invariant
+                    const reservesHeld = outcome === Outcome.YES ? pool.yesReserves : pool.noReserves;
+                    const reservesOther = outcome === Outcome.YES ? pool.noReserves : pool.yesReserves;
+                    const next = result.usdcOut + 1n;
+                    const capped = next > shares || next >= reservesOther;
+                    check(
+                        capped || (reservesHeld + shares - next) * (reservesOther - next) < pool.k,
+                        `sell of ${shares} paid ${result.usdcOut}, but ${next} also keeps k`
+                    );
+
+                    userShares[outcome] -= shares;
+                    collateral -= result.usdcOut;
+                    pool = result.newPoolState;
+                } else {
+                    // Bet between $0.000001 and 5x the pool's depth
+                    const amount = randomBigInt(1n, initialLiquidity * 5n);
+                    let result: ReturnType<typeof placeBet>;
+                    try {
+                        result = placeBet(pool, amount, outcome);
+                    } catch {
+                        continue; // Price cap / liquidity rejections are fine
+                    }
+
+                    userShares[outcome] += result.totalShares;
+                    collateral += amount;
+                    pool = result.newPoolState;
+                }
+
+                check(pool.k >= kBefore, `k decreased from ${kBefore} to ${pool.k}`);
+                check(pool.yesReserves * pool.noReserves >= pool.k, `reserves product below k (${pool.marketId})`);
+                check(pool.yesReserves > 0n && pool.noReserves > 0n, 'a reserve was drained');
+
+                const worstCasePayout = userShares[Outcome.YES] > userShares[Outcome.NO]
+                    ? userShares[Outcome.YES]
+                    : userShares[Outcome.NO];
+                check(collateral >= worstCasePayout, `collateral ${collateral} < worst-case payout ${worstCasePayout}`);
+                check(pool.totalCollateral >= worstCasePayout, `totalCollateral ${pool.totalCollateral} < worst-case payout ${worstCasePayout}`);
+
+                // Every pair is fully backed: USDC in the pool = pairs outstanding
+                check(collateral === userShares[Outcome.YES] + pool.yesReserves, 'YES shares not fully backed');
+                check(collateral === userShares[Outcome.NO] + pool.noReserves, 'NO shares not fully backed');
+            }
+        }
+    });
+
+    it('calculateAmountForTargetPrice reaches the target', () => {
+        for (let i = 0; i < 300; i++) {
+            const initialLiquidity = randomBigInt(ONE_USDC, 10_000_000_000n * ONE_USDC);
+            let pool: PoolState = createPool({
+                marketId: `target-${i}`,
+                initialLiquidity,
+                virtualLiquidity: randomBigInt(0n, initialLiquidity)
+            });
+
+            // Start from a random skew
+            try {
+                pool = placeBet(pool, randomBigInt(1n, initialLiquidity), randomOutcome()).newPoolState;
+            } catch {
+                // Keep the 50/50 pool
+            }
+
+            const outcome = randomOutcome();
+            const targetPrice = 0.02 + random() * 0.96;
+            const amount = calculateAmountForTargetPrice(pool, targetPrice, outcome);
+            const priceOf = (state: PoolState) =>
+                outcome === Outcome.YES ? getPrices(state).yesPrice : getPrices(state).noPrice;
+
+            if (amount === 0n) {
+                check(priceOf(pool) >= targetPrice - 1e-9, `returned 0 below target ${targetPrice}`);
+                continue;
+            }
+
+            // Selling the opposite side moves our outcome's price up
+            const sellSide = outcome === Outcome.YES ? Outcome.NO : Outcome.YES;
+            const after = calculateSwap(pool, amount, sellSide).newPoolState;
+            check(priceOf(after) >= targetPrice - 1e-9, `${amount} reached ${priceOf(after)}, target ${targetPrice}`);
+
+            // Error bound: a few base units over the smallest sufficient amount
+            if (amount > 3n) {
+                const sold = (outcome === Outcome.YES ? pool.noReserves : pool.yesReserves) + amount - 3n;
+                const bought = ceilDiv(pool.k, sold);
+                const v = pool.virtualLiquidity;
+                const price = Number(sold + v) / Number(sold + bought + 2n * v);
+                check(price < targetPrice + 1e-9, `${amount - 3n} already reaches target ${targetPrice}`);
+            }
+        }
+    });
+
+    it('LP deposits and withdrawals keep prices and backing', () => {
+        for (let seq = 0; seq < SEQUENCES; seq++) {
+            const engine = random() < 0.5 ? cpmmEngine : lmsrEngine;
+            const outcomes = ['A', 'B', 'C', 'D'].slice(0, 2 + Math.floor(random() * 3));
+            const initialLiquidity = randomBigInt(1_000n * ONE_USDC, 10_000_000n * ONE_USDC);
+
+            let pool: CategoricalPoolState = engine.createPool(`lp-${seq}`, outcomes, initialLiquidity);
+            let totalLpShares = initialLpShares(pool);
+            const userShares = outcomes.map(() => 0n);
+
+            for (let step = 0; step < STEPS_PER_SEQUENCE; step++) {
+                const roll = random();
+                const before = pool;
+                const sharesBefore = totalLpShares;
+
+                if (roll < 0.4) {
+                    // Trade to move prices around
+                    const index = Math.floor(random() * outcomes.length);
+                    try {
+                        const result = engine.placeBet(pool, index, randomBigInt(1n, initialLiquidity / 2n));
+                        userShares[index] += result.totalShares;
+                        pool = result.newPoolState;
+                    } catch {
+                        // Price cap rejections are fine
+                    }
+                    continue;
+                }
+
+                if (roll < 0.7) {
+                    const result = addLiquidity(pool, totalLpShares, randomBigInt(ONE_USDC, initialLiquidity));
+                    result.returnedShares.forEach((shares, i) => { userShares[i] += shares; });
+                    pool = result.newPoolState;
+                    totalLpShares = result.newTotalLpShares;
+                } else {
+                    let result: ReturnType<typeof removeLiquidity>;
+                    try {
+                        result = removeLiquidity(pool, totalLpShares, randomBigInt(1n, totalLpShares - 1n));
+                    } catch {
+                        continue; // Dust withdrawals are allowed to be rejected
+                    }
+                    result.returnedShares.forEach((shares, i) => { userShares[i] += shares; });
+                    pool = result.newPoolState;
+                    totalLpShares = result.newTotalLpShares;
+                }
+
+                // Prices only move by rounding
+                const pricesBefore = engine.getPrices(before);
+                const pricesAfter = engine.getPrices(pool);
+                pricesAfter.forEach((price, i) => {
+                    check(Math.abs(price - pricesBefore[i]) < 1e-4, `${engine.type} price moved ${pricesBefore[i]} -> ${price}`);
+                });
+
+                // Every LP share is backed by at least as much of every reserve as before
+                pool.reserves.forEach((r, i) => {
+                    check(r * sharesBefore >= before.reserves[i] * totalLpShares, `LP shares diluted on ${outcomes[i]}`);
+                });
+
+                // Collateral = complete sets outstanding, for every outcome
+                pool.reserves.forEach((r, i) => {
+                    check(pool.totalCollateral === userShares[i] + r, `${outcomes[i]} shares not fully backed`);
+                });
+            }
+        }
+    });
+
+    it('trade fees are fully accounted for', () => {
+        for (let seq = 0; seq < SEQUENCES; seq++) {
+            const engine = random() < 0.5 ? cpmmEngine : lmsrEngine;
+            const outcomes = ['A', 'B', 'C'].slice(0, 2 + Math.floor(random() * 2));
+            const initialLiquidity = randomBigInt(1_000n * ONE_USDC, 10_000_000n * ONE_USDC);
+
+            const creatorShareBps = Math.floor(random() * 5_000);
+            const protocolShareBps = Math.floor(random() * (10_000 - creatorShareBps));
+            const config: FeeConfig = {
+                feeBps: Math.floor(random() * (MAX_TRADE_FEE_BPS + 1)),
+                lpShareBps: 10_000 - creatorShareBps - protocolShareBps,
+                creatorShareBps,
+                protocolShareBps
+            };
+
+            let pool: CategoricalPoolState = engine.createPool(`fee-${seq}`, outcomes, initialLiquidity);
+            const userShares = outcomes.map(() => 0n);
+            let paidIn = initialLiquidity;
+            let owed = 0n; // creator + protocol fees held outside the pool
+
+            for (let step = 0; step < STEPS_PER_SEQUENCE; step++) {
+                const index = Math.floor(random() * outcomes.length);
+                const held = userShares[index];
+
+                try {
+                    if (held > 0n && random() < 0.4) {
+                        const shares = randomBigInt(1n, held);
+                        const result = sellPositionWithFee(engine, pool, index, shares, config);
+                        const gross = result.usdcOut + result.fee.total;
+                        check(result.fee.total * 10_000n >= gross * BigInt(config.feeBps), 'sell fee below feeBps');
+                        check(result.fee.lp + result.fee.creator + result.fee.protocol === result.fee.total, 'sell fee split does not add up');
+
+                        userShares[index] -= shares;
+                        paidIn -= result.usdcOut;
+                        owed += result.fee.creator + result.fee.protocol;
+                        pool = result.newPoolState;
+                    } else {
+                        const amount = randomBigInt(ONE_USDC, initialLiquidity);
+                        const result = placeBetWithFee(engine, pool, index, amount, config);
+                        check(result.usdcIn === amount, 'buy charged more than the amount spent');
+                        check(result.fee.total * 10_000n >= amount * BigInt(config.feeBps), 'buy fee below feeBps');
+                        check(result.fee.lp + result.fee.creator + result.fee.protocol === result.fee.total, 'buy fee split does not add up');
+
+                        userShares[index] += result.totalShares;
+                        paidIn += amount;
+                        owed += result.fee.creator + result.fee.protocol;
+                        pool = result.newPoolState;
+                    }
+                } catch {
+                    continue; // Price cap / dust rejections are fine
+                }
+
+                // Every USDC paid in is either backing the pool's sets or owed as fees
+                check(pool.totalCollateral + owed === paidIn, `collateral ${pool.totalCollateral} + owed ${owed} != paid in ${paidIn}`);
+                pool.reserves.forEach((r, i) => {
+                    check(pool.totalCollateral === userShares[i] + r, `${outcomes[i]} shares not fully backed`);
+                });
+            }
+        }
+    });
+
+    it('limit orders fill up to their limit and escrow', () => {
+        const LIMIT_STEPS = 20;
+
+        for (let seq = 0; seq < SEQUENCES; seq++) {
+            const engine = random() < 0.5 ? cpmmEngine : lmsrEngine;
+            const outcomes = ['A', 'B', 'C'].slice(0, 2 + Math.floor(random() * 2));
+            const initialLiquidity = randomBigInt(1_000n * ONE_USDC, 10_000_000n * ONE_USDC);
+            const config: FeeConfig = {
+                feeBps: Math.floor(random() * (MAX_TRADE_FEE_BPS + 1)),
+                lpShareBps: 7_000,
+                creatorShareBps: 1_000,
+                protocolShareBps: 2_000
+            };
+
+            let pool: CategoricalPoolState = engine.createPool(`limit-${seq}`, outcomes, initialLiquidity);
+            const displayed = (state: CategoricalPoolState, i: number): number => engine.getPrices(state)[i];
+
+            for (let step = 0; step < LIMIT_STEPS; step++) {
+                const index = Math.floor(random() * outcomes.length);
+
+                // Move the pool with a market buy on some outcome
+                try {
+                    const other = Math.floor(random() * outcomes.length);
+                    pool = placeBetWithFee(engine, pool, other, randomBigInt(ONE_USDC, initialLiquidity / 2n), config).newPoolState;
+                } catch {
+                    // Price cap rejections are fine
+                }
+
+                const limitPrice = 0.02 + random() * 0.96;
+                const escrow = randomBigInt(ONE_USDC, initialLiquidity);
+                const before = displayed(pool, index);
+
+                let result;
+                try {
+                    result = fillLimitOrder(engine, pool, index, limitPrice, escrow, config);
+                } catch {
+                    continue; // Target search past the price cap
+                }
+
+                if (before >= limitPrice) {
+                    check(result === null, `order at ${limitPrice} filled with price already ${before}`);
+                    continue;
+                }
+                if (!result) continue;
+
+                const after = displayed(result.newPoolState, index);
+                check(after <= limitPrice, `fill moved price to ${after}, above limit ${limitPrice}`);
+                check(result.usdcIn <= escrow, `fill spent ${result.usdcIn}, escrow ${escrow}`);
+                check(result.totalShares > 0n, 'fill bought no shares');
+
+                // A fill that stops short of the escrow must have reached the limit
+                if (result.usdcIn < escrow) {
+                    check(limitPrice - after < 1e-3, `partial fill stopped at ${after}, limit ${limitPrice}`);
+                }
+
+                pool = result.newPoolState;
+            }
+        }
+    });
+
+    it('routing through the book never does worse than the pool', () => {
+        // Routing follows the pool's marginal price, so allow a hair of rounding
+        const ROUTE_TOLERANCE = 1e-6;
+
+        for (let seq = 0; seq < SEQUENCES; seq++) {
+            const engine = random() < 0.5 ? cpmmEngine : lmsrEngine;
+            const outcomes = ['A', 'B', 'C'].slice(0, 2 + Math.floor(random() * 2));
+            const initialLiquidity = randomBigInt(1_000n * ONE_USDC, 1_000_000n * ONE_USDC);
+            const pool: CategoricalPoolState = engine.createPool(`route-${seq}`, outcomes, initialLiquidity);
+            const index = Math.floor(random() * outcomes.length);
+            const price = engine.getPrices(pool)[index];
+
+            // Resting orders around the pool's price, best first
+            const randomBook = (): BookOrder[] =>
+                Array.from({ length: 1 + Math.floor(random() * 5) }, (_, i) => ({
+                    orderId: `order-${i}`,
+                    price: Math.min(0.98, Math.max(0.02, price + (random() - 0.5) * 0.2)),
+                    shares: randomBigInt(ONE_USDC, initialLiquidity / 10n)
+                }));
+            const asks = randomBook().sort((a, b) => a.price - b.price);
+            const bids = randomBook().sort((a, b) => b.price - a.price);
+
+            // Buys: the whole budget is spent, asks fill at their own price
+            const budget = randomBigInt(ONE_USDC, initialLiquidity / 4n);
+            let poolOnly;
+            try {
+                poolOnly = engine.placeBet(pool, index, budget);
+            } catch {
+                continue; // Price cap rejections are fine
+            }
+            const buy = routeBuy(engine, pool, index, { mode: 'SPEND', usdcAmount: budget }, asks);
+
+            check(buy.usdc === budget, `routed buy spent ${buy.usdc}, budget ${budget}`);
+            check(
+                Number(buy.shares) >= Number(poolOnly.totalShares) * (1 - ROUTE_TOLERANCE),
+                `routed buy got ${buy.shares} shares, pool alone ${poolOnly.totalShares}`
+            );
+            for (const fill of buy.fills.filter(f => f.venue === 'BOOK')) {
+                const ask = asks.find(a => a.orderId === fill.orderId)!;
+                check(fill.price === ask.price, `ask ${ask.orderId} filled at ${fill.price}, not ${ask.price}`);
+                check(fill.shares <= ask.shares, `ask ${ask.orderId} overfilled`);
+            }
+
+            // Sells: every share is sold, for at least what the pool alone pays
+            const shares = buy.shares;
+            const sell = routeSell(engine, pool, index, shares, bids);
+            const poolSale = engine.sellPosition(pool, index, shares);
+
+            check(sell.shares === shares, `routed sell sold ${sell.shares} of ${shares}`);
+            check(
+                Number(sell.usdc) >= Number(poolSale.usdcOut) * (1 - ROUTE_TOLERANCE),
+                `routed sell got ${sell.usdc}, pool alone ${poolSale.usdcOut}`
+            );
+            for (const fill of sell.fills.filter(f => f.venue === 'BOOK')) {
+                const bid = bids.find(b => b.orderId === fill.orderId)!;
+                check(fill.price === bid.price, `bid ${bid.orderId} filled at ${fill.price}, not ${bid.price}`);
+                check(fill.shares <= bid.shares, `bid ${bid.orderId} overfilled`);
+            }
+        }
+    });
+
+    it('splits and merges trade at par without moving prices', () => {
+        for (let seq = 0; seq < SEQUENCES; seq++) {
+            const engine = random() < 0.5 ? cpmmEngine : lmsrEngine;
+            const outcomes = ['A', 'B', 'C'].slice(0, 2 + Math.floor(random() * 2));
+            let pool: CategoricalPoolState = engine.createPool(`sets-${seq}`, outcomes, randomBigInt(1_000n * ONE_USDC, 1_000_000n * ONE_USDC));
+            const userShares = outcomes.map(() => 0n);
+
+            for (let step = 0; step < STEPS_PER_SEQUENCE; step++) {
+                const pricesBefore = engine.getPrices(pool);
+                const setsHeld = userShares.reduce((min, shares) => (shares < min ? shares : min));
+
+                if (setsHeld > 0n && random() < 0.5) {
+                    const sets = randomBigInt(1n, setsHeld);
+                    const result = mergePositions(pool, sets);
+                    check(result.usdcOut === sets, `merged ${sets} sets for ${result.usdcOut}`);
+                    userShares.forEach((_, i) => (userShares[i] -= sets));
+                    pool = result.newPoolState;
+                } else {
+                    const usdc = randomBigInt(1n, 10_000n * ONE_USDC);
+                    const result = splitPosition(pool, usdc);
+                    check(result.shares === usdc, `split ${usdc} into ${result.shares} sets`);
+                    userShares.forEach((_, i) => (userShares[i] += result.shares));
+                    pool = result.newPoolState;
+                }
+
+                check(
+                    engine.getPrices(pool).every((price, i) => price === pricesBefore[i]),
+                    `${engine.type} prices moved on a split or merge`
+                );
+                pool.reserves.forEach((r, i) => {
+                    check(pool.totalCollateral === userShares[i] + r, `${outcomes[i]} shares not fully backed`);
+                });
+            }
+        }
+    });
+
+    it('cost basis is conserved across buys and partial sells', () => {
+        for (let seq = 0; seq < SEQUENCES; seq++) {
+            let position: CostedPosition | null = null;
+            let paid = 0n;
+            let released = 0n;
+
+            for (let step = 0; step < STEPS_PER_SEQUENCE; step++) {
+                const held: CostedPosition = position ?? { shares: 0n, costBasis: 0n };
+
+                if (held.shares > 0n && random() < 0.5) {
+                    // Sell everything now and then so the last-share rule gets exercised
+                    const shares = random() < 0.1 ? held.shares : randomBigInt(1n, held.shares);
+                    const { remaining, releasedCost } = releaseShares(held, shares);
+                    check(releasedCost >= 0n && releasedCost <= held.costBasis, `released ${releasedCost} of ${held.costBasis}`);
+                    check(
+                        releasedCost * held.shares <= held.costBasis * shares,
+                        `released more than the pro-rata cost (${releasedCost} for ${shares}/${held.shares})`
+                    );
+                    if (remaining.shares === 0n) check(remaining.costBasis === 0n, `empty position kept cost ${remaining.costBasis}`);
+                    released += releasedCost;
+                    position = remaining;
+                } else {
+                    const shares = randomBigInt(1n, 1_000_000n * ONE_USDC);
+                    const cost = randomBigInt(0n, 1_000_000n * ONE_USDC);
+                    position = addShares(position, shares, cost);
+                    paid += cost;
+                }
+
+                check(paid === released + position.costBasis, `cost basis leaked: paid ${paid}, released ${released}, held ${position.costBasis}`);
+            }
+        }
+    });
+
+    it('cancellation refunds never exceed what the market holds', () => {
+        for (let seq = 0; seq < SEQUENCES; seq++) {
+            // COST_BASIS: in full when covered, otherwise the same fraction for everyone
+            const claims = Array.from({ length: 1 + Math.floor(random() * 10) }, () => randomBigInt(0n, 100_000n * ONE_USDC));
+            const totalClaims = claims.reduce((sum, claim) => sum + claim, 0n);
+            const available = randomBigInt(0n, 2n * totalClaims + 1n);
+            const { refunds, surplus } = costBasisRefunds(claims, available);
+            const refunded = refunds.reduce((sum, refund) => sum + refund, 0n);
+
+            check(surplus >= 0n && refunded + surplus === available, `refunded ${refunded} + surplus ${surplus} != ${available}`);
+            if (available >= totalClaims) {
+                check(refunds.every((refund, i) => refund === claims[i]), 'covered claims were not refunded in full');
+            } else {
+                refunds.forEach((refund, i) => {
+                    check(refund * totalClaims <= claims[i] * available, `refund ${refund} above its pro-rata share of ${claims[i]}`);
+                });
+                check(surplus < BigInt(claims.length), `pro-rata refunds left ${surplus} behind`);
+            }
+
+            // FAIR_PRICE: every share at its price plus the LPs' reserves fit in the collateral
+            const engine = random() < 0.5 ? cpmmEngine : lmsrEngine;
+            const outcomes = ['A', 'B', 'C', 'D'].slice(0, 2 + Math.floor(random() * 3));
+            let pool: CategoricalPoolState = engine.createPool(`refunds-${seq}`, outcomes, randomBigInt(1_000n * ONE_USDC, 1_000_000n * ONE_USDC));
+            const held = outcomes.map(() => 0n);
+
+            for (let step = 0; step < 10; step++) {
+                const i = Math.floor(random() * outcomes.length);
+                try {
+                    const result = engine.placeBet(pool, i, randomBigInt(ONE_USDC, 10_000n * ONE_USDC));
+                    held[i] += result.totalShares;
+                    pool = result.newPoolState;
+                } catch {
+                    // Bets past the price cap are refused; the pool is unchanged
+                }
+            }
+
+            const payouts = fairPricePayouts(outcomes, engine.getPrices(pool));
+            const holderRefunds = held.reduce((sum, shares, i) => sum + (shares * payouts[outcomes[i]]) / PAYOUT_PRECISION, 0n);
+            const lpRefund = liquidityPoolValue(pool, payouts);
+            check(
+                holderRefunds + lpRefund <= pool.totalCollateral,
+                `${engine.type} fair-price refunds ${holderRefunds} + ${lpRefund} exceed collateral ${pool.totalCollateral}`
+            );
+        }
+    });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { Wallet } from 'ethers';
+import { ONE_USDC } from './index';
+import { createMarketDB, placeBetDB, cancelMarketDB, getActiveMarketsDB } from './db-pool-manager';
+import { ammRouter } from './router';
+import * as db from '../db/amm-repository';
+import { MemoryStore } from '../db/memory-store';
+import { buildStatement } from '../db/ledger';
+import { runReconciliationDB } from './reconciliation';
+
+const MARKET = 'cancellation';
+const CREATOR = 'cancellation-creator';
+const BETTORS = Array.from({ length: 20 }, (_, i) => `cancellation-bettor-${i}`);
+const OUTCOMES = ['RED', 'GREEN', 'BLUE'];
+const INITIAL_LIQUIDITY = 10_000n * ONE_USDC;
+const BETTOR_FUNDS = 1_000n * ONE_USDC;
+
+const resolver = Wallet.createRandom();
+
+beforeEach(async () => {
+    db.setStore(new MemoryStore());
+    await db.createSession(CREATOR, CREATOR, INITIAL_LIQUIDITY, 'cancellation-test');
+    for (const bettor of BETTORS) await db.createSession(bettor, bettor, BETTOR_FUNDS, 'cancellation-test');
+    await createMarketDB({
+        marketId: MARKET,
+        title: 'Cancellation test',
+        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+        initialLiquidity: INITIAL_LIQUIDITY,
+        creatorId: CREATOR,
+        outcomes: OUTCOMES,
+        resolverAddress: resolver.address
+    });
+
+    // Holders for the cancellation to refund
+    await Promise.all(BETTORS.map((bettor, b) =>
+        placeBetDB(MARKET, bettor, { mode: 'SPEND', usdcAmount: BigInt(1 + b) * ONE_USDC }, b % OUTCOMES.length)
+    ));
+});
+
+describe('cancelMarketDB', () => {
+    it('refunds every holder once, halts trading and refuses bets racing it', async () => {
+        const heldBefore = await db.getMarketPositions(MARKET);
+        const collateralBefore = buildStatement(await db.getAccountLedger('MARKET', MARKET)).balance;
+
+        // Bets racing the cancellation either commit before it (and get refunded) or are refused
+        const [cancellation, ...racing] = await Promise.allSettled([
+            cancelMarketDB(MARKET),
+            ...BETTORS.slice(0, 5).map(bettor =>
+                placeBetDB(MARKET, bettor, { mode: 'SPEND', usdcAmount: ONE_USDC }, OUTCOMES[1])
+            )
+        ]);
+        expect(cancellation.status).toBe('fulfilled');
+        const result = (cancellation as PromiseFulfilledResult<Awaited<ReturnType<typeof cancelMarketDB>>>).value;
+        expect(result.refundMode).toBe('COST_BASIS');
+
+        expect((await db.getMarket(MARKET))!.status).toBe('CANCELLED');
+        expect((await getActiveMarketsDB()).some(market => market.marketId === MARKET)).toBe(false);
+
+        const leftOver = (await db.getMarketPositions(MARKET)).filter(pos => BigInt(pos.shares) > 0n);
+        expect(leftOver).toEqual([]);
+        const holders = heldBefore.filter(pos => BigInt(pos.shares) > 0n).length;
+        expect(result.refunds.length).toBeGreaterThanOrEqual(holders);
+
+        // At most rounding dust stays behind
+        const collateralAfter = buildStatement(await db.getAccountLedger('MARKET', MARKET)).balance;
+        expect(collateralAfter >= 0n && collateralAfter < BigInt(result.refunds.length)).toBe(true);
+        const racedIn = BigInt(racing.filter(r => r.status === 'fulfilled').length) * ONE_USDC;
+        expect(BigInt(result.totalRefunded) <= collateralBefore + racedIn).toBe(true);
+
+        await expect(placeBetDB(MARKET, BETTORS[0], { mode: 'SPEND', usdcAmount: ONE_USDC }, OUTCOMES[0])).rejects.toThrow();
+
+        expect((await runReconciliationDB()).discrepancies).toEqual([]);
+    });
+});
+
+describe('POST /cancel', () => {
+    let server: Server;
+    let url: string;
+    const adminKey = process.env.ADMIN_API_KEY;
+
+    const message = (refundMode?: string) => `Cancel market ${MARKET} (refund mode: ${refundMode ?? 'default'})`;
+
+    function post(payload: object, headers: Record<string, string> = {}): Promise<Response> {
+        return fetch(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...headers },
+            body: JSON.stringify({ marketId: MARKET, ...payload })
+        });
+    }
+
+    beforeEach(async () => {
+        process.env.ADMIN_API_KEY = 'cancellation-admin-key';
+        const app = express();
+        app.use(express.json());
+        app.use('/api/amm', ammRouter);
+        server = app.listen(0);
+        await new Promise(resolve => server.once('listening', resolve));
+        url = `http://localhost:${(server.address() as AddressInfo).port}/api/amm/cancel`;
+    });
+
+    afterEach(() => {
+        server.close();
+        if (adminKey === undefined) delete process.env.ADMIN_API_KEY;
+        else process.env.ADMIN_API_KEY = adminKey;
+    });
+
+    it('refuses a caller naming the resolver without its signature', async () => {
+        const response = await post({ cancelledBy: resolver.address });
+        expect(response.status).toBe(401);
+        expect((await db.getMarket(MARKET))!.status).toBe('ACTIVE');
+    });
+
+    it('refuses a signature by anyone but the resolver', async () => {
+        const signature = await Wallet.createRandom().signMessage(message());
+        const response = await post({ signature, cancelledBy: resolver.address });
+        expect(response.status).toBe(401);
+        expect((await db.getMarket(MARKET))!.status).toBe('ACTIVE');
+    });
+
+    it('refuses a resolver signature for another refund mode', async () => {
+        const signature = await resolver.signMessage(message());
+        const response = await post({ signature, refundMode: 'FAIR_PRICE' });
+        expect(response.status).toBe(401);
+    });
+
+    it('cancels with the resolver signature', async () => {
+        const signature = await resolver.signMessage(message('FAIR_PRICE'));
+        const response = await post({ signature, refundMode: 'FAIR_PRICE' });
+        expect(response.status).toBe(200);
+        expect((await response.json()).refundMode).toBe('FAIR_PRICE');
+        expect((await db.getMarket(MARKET))!.status).toBe('CANCELLED');
+    });
+
+    it('cancels with the admin key', async () => {
+        const response = await post({}, { 'x-admin-key': 'cancellation-admin-key' });
+        expect(response.status).toBe(200);
+    });
+
+    it('accepts no admin key when ADMIN_API_KEY is not set', async () => {
+        delete process.env.ADMIN_API_KEY;
+        const response = await post({}, { 'x-admin-key': '' });
+        expect(response.status).toBe(401);
+        expect((await db.getMarket(MARKET))!.status).toBe('ACTIVE');
+    });
+});
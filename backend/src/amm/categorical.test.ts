@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { createCategoricalPool, findOutcomeIndex, validateOutcomeLabels } from './categorical';
+import { createLmsrPool } from './lmsr';
+
+describe('outcome labels', () => {
+    it('are stored trimmed and found by label', () => {
+        for (const pool of [createCategoricalPool('m', [' A', 'B ', 'C'], 1_000n), createLmsrPool('m', [' A', 'B ', 'C'], 1_000_000n)]) {
+            expect(pool.outcomes).toEqual(['A', 'B', 'C']);
+            expect(findOutcomeIndex(pool.outcomes, 'a')).toBe(0);
+            expect(findOutcomeIndex(pool.outcomes, ' b ')).toBe(1);
+        }
+    });
+
+    it('must be unique ignoring case and surrounding spaces, as they are looked up', () => {
+        expect(() => validateOutcomeLabels(['Yes', 'yes'])).toThrow('unique');
+        expect(() => validateOutcomeLabels(['Yes', ' YES '])).toThrow('unique');
+        expect(() => createCategoricalPool('m', ['Yes', 'yes', 'No'], 1_000n)).toThrow('unique');
+    });
+
+    it('must not be empty', () => {
+        expect(() => validateOutcomeLabels(['A', '  '])).toThrow('empty');
+    });
+
+    it('must not be numbers, which the API reads as indices', () => {
+        expect(() => validateOutcomeLabels(['2', '3', '4'])).toThrow('numbers');
+        expect(() => validateOutcomeLabels(['Under 2', ' 3 '])).toThrow('numbers');
+        expect(() => validateOutcomeLabels(['Under 2', '3+'])).not.toThrow();
+    });
+});
@@ -0,0 +1,308 @@
+/**
+ * Categorical AMM Pool - N-Outcome Constant Product Logic
+ *
+ * Generalises the binary pool to markets with N mutually exclusive outcomes
+ * ("Which team wins the league?"):
+ * 1. Collateralization: 1 USDC = 1 share of EVERY outcome
+ * 2. Trading: r0 * r1 * ... * rN = k (constant product)
+ *
+ * Prices: Price_i = (1 / r_i) / Σ(1 / r_j), so all legs always sum to 1.
+ * For N = 2 this reduces exactly to the binary formula in pool.ts.
+ *
+ * All reserve math stays in bigint; rounding always favours the pool.
+ */
+
+import {
+    CategoricalPoolState,
+    CategoricalBetResult,
+    PRICE_CAP,
+    MIN_OUTCOMES,
+    MAX_OUTCOMES
+} from './types';
+import { ceilDiv } from './math';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// POOL CREATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Creates a new categorical pool with equal reserves for every outcome
+ *
+ * Initial state: 1/N probability for each outcome
+ *
+ * @param marketId Market identifier
+ * @param labels Outcome labels (unique ignoring case, 2 to MAX_OUTCOMES entries; stored trimmed)
+ * @param initialLiquidity Initial reserves for each outcome
+ * @param virtualLiquidity Virtual liquidity offset used for pricing
+ * @returns Initial pool state
+ */
+export function createCategoricalPool(
+    marketId: string,
+    labels: string[],
+    initialLiquidity: bigint,
+    virtualLiquidity: bigint = 0n
+): CategoricalPoolState {
+    const outcomes = normalizeOutcomeLabels(labels);
+
+    if (initialLiquidity <= 0n) {
+        throw new Error('Initial liquidity must be positive');
+    }
+
+    const reserves = outcomes.map(() => initialLiquidity);
+
+    return {
+        marketId,
+        outcomes,
+        reserves,
+        k: product(reserves),
+        virtualLiquidity,
+        // One full set of shares per USDC
+        totalCollateral: initialLiquidity,
+        createdAt: Date.now(),
+        updatedAt: Date.now()
+    };
+}
+
+/**
+ * Validate a list of outcome labels for a categorical market. Labels are
+ * compared the way findOutcomeIndex looks them up: trimmed and ignoring case.
+ * All-digit labels are refused, since the API reads those as outcome indices.
+ */
+export function validateOutcomeLabels(outcomes: string[]): void {
+    if (outcomes.length < MIN_OUTCOMES || outcomes.length > MAX_OUTCOMES) {
+        throw new Error(`Categorical markets need between ${MIN_OUTCOMES} and ${MAX_OUTCOMES} outcomes`);
+    }
+
+    const normalized = outcomes.map(o => o.trim());
+    if (normalized.some(o => o.length === 0)) {
+        throw new Error('Outcome labels must not be empty');
+    }
+    if (new Set(normalized.map(o => o.toLowerCase())).size !== normalized.length) {
+        throw new Error('Outcome labels must be unique (ignoring case)');
+    }
+    if (normalized.some(o => /^\d+$/.test(o))) {
+        throw new Error('Outcome labels must not be numbers (they would read as outcome indices)');
+    }
+}
+
+/**
+ * Validate outcome labels and return them trimmed, as a pool stores them
+ */
+export function normalizeOutcomeLabels(outcomes: string[]): string[] {
+    validateOutcomeLabels(outcomes);
+    return outcomes.map(o => o.trim());
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PRICE CALCULATIONS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Calculate implied prices for every outcome
+ *
+ * Formula: Price_i = (1 / r_i) / Σ(1 / r_j)
+ * Scarcer outcomes (lower reserves) are more expensive.
+ *
+ * @param pool Current pool state
+ * @returns Prices (0-1) index-aligned with pool.outcomes; they sum to 1
+ */
+export function getCategoricalPrices(pool: CategoricalPoolState): number[] {
+    const inverse = pool.reserves.map(r => 1 / Number(r + pool.virtualLiquidity));
+    const total = inverse.reduce((sum, v) => sum + v, 0);
+    return inverse.map(v => v / total);
+}
+
+/**
+ * Validate that no outcome price exceeds the price cap
+ */
+export function validateCategoricalPriceCap(pool: CategoricalPoolState): boolean {
+    return getCategoricalPrices(pool).every(p => p <= PRICE_CAP);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MINT & SWAP (Buying an outcome)
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Execute a "Mint & Swap" bet on one outcome
+ *
+ * 1. Virtual Mint: usdcAmount → usdcAmount shares of every outcome
+ * 2. Virtual Swap: every unwanted leg is sold into the pool, the pool pays
+ *    out the chosen outcome until the product of reserves is back to k
+ *
+ * @param pool Current pool state
+ * @param outcomeIndex Index of the outcome to buy
+ * @param usdcAmount Amount of USDC to bet (base units)
+ * @returns Bet result with shares received and updated pool state
+ */
+export function placeCategoricalBet(
+    pool: CategoricalPoolState,
+    outcomeIndex: number,
+    usdcAmount: bigint
+): CategoricalBetResult {
+    assertOutcomeIndex(pool, outcomeIndex);
+    if (usdcAmount <= 0n) {
+        throw new Error('Bet amount must be positive');
+    }
+
+    const mintedShares = usdcAmount;
+
+    // All other reserves absorb the sold legs
+    const newReserves = pool.reserves.map(r => r + usdcAmount);
+    const othersProduct = product(newReserves.filter((_, i) => i !== outcomeIndex));
+
+    // Chosen reserve shrinks so the invariant holds (rounded up: favours the pool)
+    const targetReserve = ceilDiv(pool.k, othersProduct);
+    const swappedShares = pool.reserves[outcomeIndex] - targetReserve;
+
+    if (swappedShares <= 0n) {
+        throw new Error('Insufficient liquidity for this bet');
+    }
+
+    newReserves[outcomeIndex] = targetReserve;
+
+    const newPoolState: CategoricalPoolState = {
+        ...pool,
+        reserves: newReserves,
+        totalCollateral: pool.totalCollateral + usdcAmount,
+        updatedAt: Date.now()
+    };
+
+    if (!validateCategoricalPriceCap(newPoolState)) {
+        throw new Error(`Bet would push ${pool.outcomes[outcomeIndex]} price above ${PRICE_CAP * 100}% cap`);
+    }
+
+    const totalShares = mintedShares + swappedShares;
+
+    return {
+        usdcIn: usdcAmount,
+        outcomeIndex,
+        mintedShares,
+        swappedShares,
+        totalShares,
+        effectivePrice: Number(usdcAmount) / Number(totalShares),
+        newProbability: getCategoricalPrices(newPoolState)[outcomeIndex] * 100,
+        newPoolState
+    };
+}
+
+/**
+ * Calculate the expected shares for a categorical bet without executing it
+ *
+ * @returns Expected shares and effective price (or null if bet not allowed)
+ */
+export function quoteCategoricalBet(
+    pool: CategoricalPoolState,
+    outcomeIndex: number,
+    usdcAmount: bigint
+): { expectedShares: bigint; effectivePrice: number; priceImpact: number } | null {
+    try {
+        const result = placeCategoricalBet(pool, outcomeIndex, usdcAmount);
+        const before = getCategoricalPrices(pool)[outcomeIndex] * 100;
+
+        return {
+            expectedShares: result.totalShares,
+            effectivePrice: result.effectivePrice,
+            priceImpact: Math.abs(result.newProbability - before)
+        };
+    } catch {
+        return null;
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SELLING / EXIT LOGIC
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Sell shares of one outcome back to USDC
+ *
+ * Logic: "Swap & Burn" generalised to N legs.
+ * The user hands S shares of outcome i to the pool. The pool then burns U
+ * complete sets (one share of every outcome) and pays out U USDC. U is the
+ * largest amount for which:
+ *
+ *   (r_i + S - U) * Π_{j≠i}(r_j - U) >= k
+ *
+ * The left side is strictly decreasing in U, so we binary-search it in
+ * bigint; the floor keeps the pool whole.
+ *
+ * @param pool Current pool state
+ * @param outcomeIndex Index of the outcome being sold
+ * @param sharesAmount Amount of shares to sell
+ * @returns Resulting USDC and new pool state
+ */
+export function sellCategoricalPosition(
+    pool: CategoricalPoolState,
+    outcomeIndex: number,
+    sharesAmount: bigint
+): { usdcOut: bigint; newPoolState: CategoricalPoolState; priceImpact: number } {
+    assertOutcomeIndex(pool, outcomeIndex);
+    if (sharesAmount <= 0n) throw new Error('Shares amount must be positive');
+
+    const reservesAfter = (usdcOut: bigint): bigint[] =>
+        pool.reserves.map((r, i) => (i === outcomeIndex ? r + sharesAmount - usdcOut : r - usdcOut));
+
+    // Upper bound: can't pay out more than the shares sold or drain any leg
+    let high = sharesAmount;
+    for (let i = 0; i < pool.reserves.length; i++) {
+        if (i !== outcomeIndex && pool.reserves[i] - 1n < high) {
+            high = pool.reserves[i] - 1n;
+        }
+    }
+
+    let low = 0n;
+    while (low < high) {
+        const mid = (low + high + 1n) / 2n;
+        if (product(reservesAfter(mid)) >= pool.k) {
+            low = mid;
+        } else {
+            high = mid - 1n;
+        }
+    }
+
+    const usdcOut = low;
+    if (usdcOut <= 0n) {
+        throw new Error('Sell amount too small');
+    }
+
+    const newPoolState: CategoricalPoolState = {
+        ...pool,
+        reserves: reservesAfter(usdcOut),
+        totalCollateral: pool.totalCollateral - usdcOut,
+        updatedAt: Date.now()
+    };
+
+    const before = getCategoricalPrices(pool)[outcomeIndex] * 100;
+    const after = getCategoricalPrices(newPoolState)[outcomeIndex] * 100;
+
+    return {
+        usdcOut,
+        newPoolState,
+        priceImpact: Math.abs(after - before)
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// UTILITY FUNCTIONS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Find the index of an outcome by label (case-insensitive)
+ *
+ * @returns Index in pool.outcomes, or -1 if unknown
+ */
+export function findOutcomeIndex(outcomes: string[], label: string): number {
+    const wanted = label.trim().toLowerCase();
+    return outcomes.findIndex(o => o.toLowerCase() === wanted);
+}
+
+function assertOutcomeIndex(pool: CategoricalPoolState, outcomeIndex: number): void {
+    if (!Number.isInteger(outcomeIndex) || outcomeIndex < 0 || outcomeIndex >= pool.outcomes.length) {
+        throw new Error(`Invalid outcome index ${outcomeIndex} for market ${pool.marketId}`);
+    }
+}
+
+function product(values: bigint[]): bigint {
+    return values.reduce((acc, v) => acc * v, 1n);
+}
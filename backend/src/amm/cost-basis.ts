@@ -0,0 +1,91 @@
+/**
+ * Cost Basis - Exact average-cost accounting for positions
+ *
+ * A position carries the USDC it cost (base units) alongside its shares:
+ * - Buying adds the shares and everything paid for them, fee included
+ * - Selling, merging, escrowing in an ask or settling shares releases the
+ *   same fraction of the cost as the fraction of shares given up (rounded
+ *   down); giving up the last share releases whatever cost is left
+ *
+ * Cost is never created or lost, so the realized PnL booked over a
+ * position's life adds up to exactly what it returned minus what it cost.
+ * The average entry price is derived from the two and only used for display.
+ */
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface CostedPosition {
+    shares: bigint;
+    /** USDC paid for the shares held (base units) */
+    costBasis: bigint;
+}
+
+export interface MarkedPosition extends CostedPosition {
+    /** Price (0-1) the shares are marked at */
+    markPrice: number;
+    /** Shares at the mark price (base units, rounded down) */
+    marketValue: bigint;
+    unrealizedPnl: bigint;
+}
+
+export const EMPTY_POSITION: CostedPosition = { shares: 0n, costBasis: 0n };
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ACCOUNTING
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * A position after buying `shares` for `cost`
+ */
+export function addShares(position: CostedPosition | null, shares: bigint, cost: bigint): CostedPosition {
+    if (shares < 0n || cost < 0n) throw new Error('Shares and cost must not be negative');
+
+    const held = position ?? EMPTY_POSITION;
+    return { shares: held.shares + shares, costBasis: held.costBasis + cost };
+}
+
+/**
+ * Give up `shares` of a position
+ * @returns The rest of the position and the cost of the shares given up
+ */
+export function releaseShares(
+    position: CostedPosition | null,
+    shares: bigint
+): { remaining: CostedPosition; releasedCost: bigint } {
+    const held = position ?? EMPTY_POSITION;
+    if (shares < 0n) throw new Error('Shares must not be negative');
+    if (shares > held.shares) {
+        throw new Error(`Insufficient shares. Held: ${held.shares}, Releasing: ${shares}`);
+    }
+
+    const releasedCost = shares === held.shares
+        ? held.costBasis
+        : (held.costBasis * shares) / held.shares;
+
+    return {
+        remaining: { shares: held.shares - shares, costBasis: held.costBasis - releasedCost },
+        releasedCost
+    };
+}
+
+/**
+ * Average USDC paid per share (0 for an empty position)
+ */
+export function averageEntryPrice(position: CostedPosition): number {
+    return position.shares > 0n ? Number(position.costBasis) / Number(position.shares) : 0;
+}
+
+/**
+ * Value a position at a price and compare it with what it cost
+ */
+export function markPosition(position: CostedPosition, markPrice: number): MarkedPosition {
+    const marketValue = BigInt(Math.floor(Number(position.shares) * markPrice));
+    return {
+        ...position,
+        markPrice,
+        marketValue,
+        unrealizedPnl: marketValue - position.costBasis
+    };
+}
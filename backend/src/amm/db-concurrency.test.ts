@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ONE_USDC } from './index';
+import { createMarketDB, placeBetDB } from './db-pool-manager';
+import * as db from '../db/amm-repository';
+import { MemoryStore } from '../db/memory-store';
+import { MarketTransaction, runMarketTransaction } from '../db/market-transaction';
+
+const MARKET = 'concurrency';
+const CREATOR = 'concurrency-creator';
+const BETTORS = Array.from({ length: 10 }, (_, i) => `concurrency-bettor-${i}`);
+const BETS_PER_BETTOR = 15;
+const OUTCOMES = ['RED', 'GREEN', 'BLUE'];
+const INITIAL_LIQUIDITY = 10_000n * ONE_USDC;
+const BETTOR_FUNDS = 1_000n * ONE_USDC;
+
+beforeEach(async () => {
+    db.setStore(new MemoryStore());
+    await db.createSession(CREATOR, CREATOR, INITIAL_LIQUIDITY, 'concurrency-test');
+    for (const bettor of BETTORS) await db.createSession(bettor, bettor, BETTOR_FUNDS, 'concurrency-test');
+    await createMarketDB({
+        marketId: MARKET,
+        title: 'Concurrency test',
+        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+        initialLiquidity: INITIAL_LIQUIDITY,
+        creatorId: CREATOR,
+        outcomes: OUTCOMES
+    });
+});
+
+describe('parallel bets', () => {
+    it('commit all-or-nothing and keep reserves, k and collateral consistent', async () => {
+        const before = (await db.getMarket(MARKET))!;
+        const poolBefore = db.marketRowToEnginePoolState(before);
+
+        const bets = BETTORS.flatMap((bettor, b) =>
+            Array.from({ length: BETS_PER_BETTOR }, (_, i) => {
+                const usdcAmount = BigInt(1 + ((b * 7 + i * 13) % 50)) * ONE_USDC;
+                return placeBetDB(MARKET, bettor, { mode: 'SPEND', usdcAmount }, (b + i) % OUTCOMES.length);
+            })
+        );
+        const results = await Promise.allSettled(bets);
+        expect(results.filter(result => result.status === 'rejected')).toEqual([]);
+
+        // Every debit is matched by a trade and a position's cost basis
+        let debited = 0n;
+        let buyTrades = 0;
+        for (const bettor of BETTORS) {
+            const spent = BETTOR_FUNDS - BigInt((await db.getSession(bettor))!.current_balance);
+            const trades = (await db.getTradesBySession(bettor)).filter(trade => trade.trade_type === 'BUY');
+            expect(trades.reduce((sum, trade) => sum + BigInt(trade.cost_basis), 0n)).toBe(spent);
+            const positions = await db.getUserMarketPositions(bettor, MARKET);
+            expect(positions.reduce((sum, pos) => sum + BigInt(pos.cost_basis), 0n)).toBe(spent);
+            debited += spent;
+            buyTrades += trades.length;
+        }
+        expect(buyTrades).toBe(bets.length);
+
+        const after = (await db.getMarket(MARKET))!;
+        const pool = db.marketRowToEnginePoolState(after);
+        const positions = await db.getMarketPositions(MARKET);
+        pool.outcomes.forEach((outcome, i) => {
+            const held = positions.filter(pos => pos.outcome === outcome).reduce((sum, pos) => sum + BigInt(pos.shares), 0n);
+            expect(held + pool.reserves[i]).toBe(pool.totalCollateral);
+        });
+
+        expect(pool.k >= poolBefore.k).toBe(true);
+        expect(pool.reserves.reduce((product, r) => product * r, 1n) >= pool.k).toBe(true);
+
+        // Every USDC debited is in the pool or owed as fees
+        const feesOwed = BigInt(after.creator_fees_accrued) + BigInt(after.protocol_fees_accrued);
+        expect(pool.totalCollateral - poolBefore.totalCollateral + feesOwed).toBe(debited);
+        expect(after.version).toBeGreaterThanOrEqual(before.version + bets.length);
+    });
+});
+
+describe('MarketTransaction', () => {
+    it('refuses a trade computed from a stale market version', async () => {
+        const row = (await db.getMarket(MARKET))!;
+        const pool = db.marketRowToEnginePoolState(row);
+        const first = new MarketTransaction(row, 'BET');
+        const second = new MarketTransaction(row, 'BET');
+        first.setPoolState(pool);
+        second.setPoolState(pool);
+
+        expect(await first.commit()).toBe(true);
+        expect(await second.commit()).toBe(false);
+    });
+
+    it('retries a trade from a fresh read when another process commits first', async () => {
+        const versionBefore = (await db.getMarket(MARKET))!.version;
+        let attempts = 0;
+
+        const committedOn = await runMarketTransaction(MARKET, 'BET', async tx => {
+            attempts++;
+            // Another process commits between this attempt's read and its commit
+            if (attempts === 1) {
+                const other = new MarketTransaction(tx.market, 'BET');
+                other.setPoolState(db.marketRowToEnginePoolState(tx.market));
+                expect(await other.commit()).toBe(true);
+            }
+            tx.setPoolState(db.marketRowToEnginePoolState(tx.market));
+            return attempts;
+        });
+
+        expect(committedOn).toBe(2);
+        expect((await db.getMarket(MARKET))!.version).toBe(versionBefore + 2);
+    });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ONE_USDC } from './index';
+import { createMarketDB, placeBetDB, quoteBetDB, getMarketDB, resolveMarketDB, claimWinningsDB } from './db-pool-manager';
+import * as db from '../db/amm-repository';
+import { MemoryStore } from '../db/memory-store';
+import { buildStatement } from '../db/ledger';
+import { runReconciliationDB } from './reconciliation';
+
+const CREATOR = 'pool-creator';
+const BETTOR = 'pool-bettor';
+
+beforeEach(async () => {
+    db.setStore(new MemoryStore());
+    await db.createSession(CREATOR, CREATOR, 10_000n * ONE_USDC, 'pool-test');
+    await db.createSession(BETTOR, BETTOR, 10_000n * ONE_USDC, 'pool-test');
+});
+
+describe('createMarketDB', () => {
+    const create = (marketId: string) => createMarketDB({
+        marketId,
+        title: 'Funding test',
+        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+        initialLiquidity: 6_000n * ONE_USDC,
+        creatorId: CREATOR
+    });
+
+    it('leaves no market behind when the creator cannot fund it', async () => {
+        // Both pass the balance check up front; only one can be funded
+        const created = await Promise.allSettled([create('funded-0'), create('funded-1')]);
+        expect(created.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+
+        const markets = await db.getAllMarkets();
+        expect(markets).toHaveLength(1);
+        expect(BigInt((await db.getSession(CREATOR))!.current_balance)).toBe(4_000n * ONE_USDC);
+        expect(await db.getTradesBySession(CREATOR)).toHaveLength(1);
+        expect(await db.getLiquidityPosition(CREATOR, markets[0].market_id)).not.toBeNull();
+    });
+});
+
+describe('target-price orders', () => {
+    it('move the displayed price to the target', async () => {
+        await createMarketDB({
+            marketId: 'target',
+            title: 'Target test',
+            expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+            initialLiquidity: 1_000n * ONE_USDC,
+            creatorId: CREATOR,
+            feeBps: 0
+        });
+        const order = { mode: 'TARGET' as const, targetPrice: 0.6 };
+
+        // Binary pools price with a virtual liquidity offset
+        expect(db.marketRowToEnginePoolState((await db.getMarket('target'))!).virtualLiquidity > 0n).toBe(true);
+
+        const quote = (await quoteBetDB('target', order, 'YES'))!;
+        expect(quote.priceImpact).toBeCloseTo(10, 4);
+
+        await placeBetDB('target', BETTOR, order, 'YES');
+        const market = (await getMarketDB('target'))!;
+        expect(market.prices.yesPrice).toBeCloseTo(0.6, 6);
+    });
+
+    it('move the price to the target again after earlier trades', async () => {
+        await createMarketDB({
+            marketId: 'target',
+            title: 'Target test',
+            expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+            initialLiquidity: 1_000n * ONE_USDC,
+            creatorId: CREATOR,
+            feeBps: 0
+        });
+        await placeBetDB('target', BETTOR, { mode: 'SPEND', usdcAmount: 200n * ONE_USDC }, 'NO');
+
+        await placeBetDB('target', BETTOR, { mode: 'TARGET', targetPrice: 0.55 }, 'YES');
+        expect((await getMarketDB('target'))!.prices.yesPrice).toBeCloseTo(0.55, 6);
+    });
+});
+
+describe('resolution payouts', () => {
+    const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+    beforeEach(() => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('pay a user without a session out externally', async () => {
+        const wallet = 'pool-wallet-without-session';
+        await createMarketDB({
+            marketId: 'payout',
+            title: 'Payout test',
+            expiresAt,
+            initialLiquidity: 1_000n * ONE_USDC,
+            creatorId: CREATOR
+        });
+        await placeBetDB('payout', wallet, { mode: 'SPEND', usdcAmount: 10n * ONE_USDC }, 'YES');
+        const shares = BigInt((await db.getPosition(wallet, 'payout', 'YES'))!.shares);
+        const paidOut = async () => buildStatement(await db.getAccountLedger('EXTERNAL', '')).balance;
+        const paidOutBefore = await paidOut();
+
+        vi.setSystemTime(expiresAt);
+        await resolveMarketDB('payout', 'YES');
+
+        expect(await paidOut() - paidOutBefore).toBe(shares);
+        expect((await db.getPosition(wallet, 'payout', 'YES'))!.shares).toBe('0');
+        await expect(claimWinningsDB('payout', wallet)).rejects.toThrow('No positions to claim');
+        expect((await runReconciliationDB()).discrepancies).toEqual([]);
+    });
+});
@@ -2,10 +2,81 @@
  * Database-Backed Pool Manager - Uses Supabase for persistent storage
  */
 
-import { PoolState, PoolConfig, BetResult, Outcome } from './types';
-import { createPool, getPrices } from './pool';
-import { placeBet, quoteBet, sellPosition } from './mint-swap';
+import { Outcome, OutcomeRef, MarketType, PricingEngineType, BetOrder, CategoricalPoolState } from './types';
+import { findOutcomeIndex } from './categorical';
+import { PricingEngine, getPricingEngine } from './pricing-engine';
+import { splitPosition, mergePositions } from './mint-swap';
+import { TradeLimits, checkDeadline, checkBuyLimits, checkSellLimits } from './slippage';
+import {
+    initialLpShares,
+    addLiquidity,
+    removeLiquidity,
+    liquidityPoolValue,
+    liquidityPayout
+} from './liquidity';
+import {
+    FeeConfig,
+    FeeBreakdown,
+    FeeBetResult,
+    DEFAULT_TRADE_FEE_BPS,
+    DEFAULT_FEE_SPLIT,
+    validateFeeConfig,
+    calculateFee,
+    splitFee,
+    grossForNet,
+    placeBetWithFee,
+    chargeBuyFee,
+    sellPositionWithFee
+} from './fees';
+import { LimitOrderInput, LimitOrderStatus, OrderSide, validateLimitOrder, fillLimitOrder } from './limit-orders';
+import { PriceEvidence } from './oracle-aggregator';
+import {
+    BookOrder,
+    RouteFill,
+    RoutedBuy,
+    RoutedSell,
+    sharesForUsdc,
+    routeBuy,
+    routeSell,
+    routeBuyWithFee,
+    routeSellWithFee,
+    applyRoutedBuyFee,
+    applyRoutedSellFee,
+    poolOnlyBuy,
+    poolOnlySell
+} from './order-book';
+import { CostedPosition, releaseShares, averageEntryPrice, markPosition } from './cost-basis';
+import { RefundMode, DEFAULT_REFUND_MODE, costBasisRefunds, fairPricePayouts } from './refunds';
+import { TradingPhase, tradingPhase, checkTradingOpen, validateTradingWindow } from './trading-hours';
+import {
+    BondOutcome,
+    DEFAULT_DISPUTE_BOND,
+    validateDisputeConfig,
+    disputeDeadline,
+    isDisputeWindowOpen,
+    bondOutcome
+} from './disputes';
+import {
+    ScalarRange,
+    SCALAR_OUTCOMES,
+    PAYOUT_PRECISION,
+    validateScalarRange,
+    parseScalarValue,
+    scalarOutcomePayouts
+} from './scalar';
 import * as db from '../db/amm-repository';
+import { MarketTransaction, runMarketTransaction } from '../db/market-transaction';
+import {
+    LedgerAccount,
+    TREASURY_ACCOUNT,
+    EXTERNAL_ACCOUNT,
+    sessionAccount,
+    marketAccount,
+    creatorFeesAccount,
+    disputeBondsAccount,
+    transferEntry,
+    buildStatement
+} from '../db/ledger';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // DATABASE-BACKED POOL MANAGER
@@ -16,11 +87,29 @@ export interface CreateMarketInput {
     title: string;
     description?: string;
     category?: string;
+    /** When trading opens (omit to open immediately) */
+    opensAt?: Date;
     expiresAt: Date;
     initialLiquidity: bigint;
+    /** Session that funds the seed liquidity and receives its LP shares */
+    creatorId: string;
+    /** Outcome labels for categorical markets (omit for a YES/NO market) */
+    outcomes?: string[];
+    /** Range for a scalar LONG/SHORT market (omit for a YES/NO market) */
+    scalarRange?: ScalarRange;
+    /** Pricing curve for the market (defaults to CPMM) */
+    pricingEngine?: PricingEngineType;
+    /** Trade fee in basis points (defaults to DEFAULT_TRADE_FEE_BPS) */
+    feeBps?: number;
     resolutionType?: 'manual' | 'oracle';
     oracleConfig?: Record<string, unknown>;
     resolverAddress?: string;
+    /** How holders are refunded if the market is cancelled (defaults to COST_BASIS) */
+    refundMode?: RefundMode;
+    /** Seconds a proposed resolution can be disputed (defaults to 0: resolutions are final immediately) */
+    disputeWindowSeconds?: number;
+    /** USDC a disputer posts (defaults to DEFAULT_DISPUTE_BOND) */
+    disputeBond?: bigint;
 }
 
 export interface MarketWithMetadata {
@@ -28,116 +117,469 @@ export interface MarketWithMetadata {
     title: string;
     description: string | null;
     category: string;
+    /** When trading opens (null: it opened at creation) */
+    opensAt: string | null;
     expiresAt: string;
-    status: 'ACTIVE' | 'RESOLVED' | 'CANCELLED';
-    resolutionValue: 'YES' | 'NO' | null;
+    /** SCHEDULED before opensAt, CLOSED from expiry on (awaiting resolution) */
+    tradingPhase: TradingPhase;
+    /** PROPOSED / DISPUTED: a resolution awaits its dispute window or an admin decision */
+    status: 'ACTIVE' | 'PROPOSED' | 'DISPUTED' | 'RESOLVED' | 'CANCELLED';
+    /** How holders are refunded if the market is cancelled */
+    refundMode: RefundMode;
+    /** Seconds a proposed resolution can be disputed (0: resolutions are final immediately) */
+    disputeWindowSeconds: number;
+    /** USDC a disputer posts (base units) */
+    disputeBond: string;
+    /** Resolution the resolver proposed, and until when it can be disputed */
+    proposedValue: string | null;
+    proposedBy: string | null;
+    disputeEndsAt: string | null;
+    /** Session that disputed the proposal, and why */
+    disputedBy: string | null;
+    disputeReason: string | null;
+    marketType: MarketType;
+    pricingEngine: PricingEngineType;
+    /** Outcome labels, index-aligned with prices.outcomePrices */
+    outcomes: string[];
+    /** Range of a scalar market (null otherwise) */
+    scalarRange: ScalarRange | null;
+    /** Winning outcome label, or the observed value for scalar markets */
+    resolutionValue: string | null;
     resolutionType: 'manual' | 'oracle' | null;
     oracleConfig: Record<string, unknown> | null;
+    /** Price an oracle market was resolved against, its sources, when it was published and observed */
+    oraclePrice: number | null;
+    oracleSource: string | null;
+    oraclePublishedAt: string | null;
+    oracleObservedAt: string | null;
+    /** Every source's answer the price was aggregated from */
+    oracleEvidence: PriceEvidence | null;
     resolverAddress: string | null;
     yesReserves: string;
     noReserves: string;
+    outcomeReserves: string[] | null;
     kInvariant: string;
+    /** LP shares outstanding over the pool's reserves */
+    lpTotalShares: string;
+    /** Trade fee in basis points, charged on buys and sells */
+    feeBps: number;
     createdAt: string;
     prices: {
+        /** Binary: YES price. Categorical: price of the first outcome */
         yesPrice: number;
+        /** Binary: NO price. Categorical: 1 - price of the first outcome */
         noPrice: number;
         yesProbability: number;
         noProbability: number;
+        /** Price of every outcome (sums to 1) */
+        outcomePrices: number[];
     };
 }
 
+type NewPrices = { yesPrice: number; noPrice: number; outcomePrices: number[] };
+
+/** Fee breakdown as returned by the API (USDC base units) */
+type FeeSummary = { total: string; lp: string; creator: string; protocol: string };
+
+/** One fill of a routed order as returned by the API (base units) */
+type RouteFillSummary = { venue: RouteFill['venue']; orderId: string | null; shares: string; usdc: string; price: number };
+
+/** Limit order as returned by the API (USDC and share amounts in base units) */
+export interface LimitOrderSummary {
+    orderId: string;
+    marketId: string;
+    userId: string;
+    outcome: string;
+    side: OrderSide;
+    limitPrice: number;
+    /** Bids: USDC escrowed, unspent and shares bought */
+    usdcAmount: string;
+    usdcRemaining: string;
+    sharesFilled: string;
+    /** Asks: shares escrowed, unsold and USDC received */
+    sharesAmount: string;
+    sharesRemaining: string;
+    usdcFilled: string;
+    timeInForce: db.LimitOrderRow['time_in_force'];
+    expiresAt: string | null;
+    status: LimitOrderStatus;
+    createdAt: string;
+}
+
 /**
- * Create a new prediction market in the database
+ * An open position marked to its pool's current price (base units).
+ * Shares escrowed in the user's open asks still count as held.
  */
-export async function createMarketDB(input: CreateMarketInput): Promise<MarketWithMetadata> {
-    // Calculate initial reserves (equal for 50/50 odds)
-    const initialReserves = input.initialLiquidity;
-    const kInvariant = initialReserves * initialReserves;
+export interface PortfolioPosition {
+    marketId: string;
+    marketTitle: string;
+    outcome: string;
+    shares: string;
+    /** Part of `shares` escrowed in open asks */
+    sharesInOrders: string;
+    costBasis: string;
+    averageEntryPrice: number;
+    markPrice: number;
+    marketValue: string;
+    unrealizedPnl: string;
+}
 
-    // Insert into database
-    const row = await db.createMarket({
-        marketId: input.marketId,
-        title: input.title,
-        description: input.description,
-        category: input.category,
-        expiresAt: input.expiresAt,
-        yesReserves: initialReserves,
-        noReserves: initialReserves,
-        kInvariant,
-        resolutionType: input.resolutionType,
-        oracleConfig: input.oracleConfig,
-        resolverAddress: input.resolverAddress
-    });
+/** How often undisputed proposals are checked for a closed dispute window */
+export const DEFAULT_FINALIZATION_INTERVAL_MS = 60 * 1000;
+
+/** Outcome recorded on trades that deposit, withdraw or settle LP shares */
+const LP_TRADE_OUTCOME = 'LP';
+
+/**
+ * Matching passes after a trade. A fill on one outcome lowers the others'
+ * prices, which can make their orders fillable in the next pass.
+ */
+const MAX_MATCH_PASSES = 5;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Outcome labels of a market row (binary markets are always YES/NO,
+ * scalar markets LONG/SHORT)
+ */
+function marketOutcomeLabels(row: db.MarketRow): string[] {
+    if (db.isCategoricalMarketRow(row) && row.outcomes) return row.outcomes;
+    if (db.isScalarMarketRow(row)) return SCALAR_OUTCOMES;
+    return [Outcome.YES, Outcome.NO];
+}
 
-    console.log(`[PoolManager-DB] Created market: ${input.marketId} - ${input.title}`);
+function marketScalarRange(row: db.MarketRow): ScalarRange | null {
+    if (!db.isScalarMarketRow(row) || row.scalar_low === null || row.scalar_high === null) return null;
+    return { low: Number(row.scalar_low), high: Number(row.scalar_high) };
+}
+
+/**
+ * Resolve an API outcome reference (index or label) to the market's label
+ */
+export function resolveOutcomeLabel(row: db.MarketRow, outcome: OutcomeRef): string {
+    const labels = marketOutcomeLabels(row);
+
+    if (typeof outcome === 'number' || /^\d+$/.test(outcome)) {
+        const index = Number(outcome);
+        if (index >= labels.length) {
+            throw new Error(`Invalid outcome ${outcome} for market ${row.market_id}`);
+        }
+        return labels[index];
+    }
+
+    const index = findOutcomeIndex(labels, outcome);
+    if (index < 0) throw new Error(`Unknown outcome "${outcome}" for market ${row.market_id}`);
+    return labels[index];
+}
+
+function marketEngine(row: db.MarketRow): PricingEngine {
+    return getPricingEngine(row.pricing_engine);
+}
+
+/**
+ * Displayed prices are the engine's prices, the ones trades are solved against
+ */
+function poolPrices(engine: PricingEngine, pool: CategoricalPoolState): NewPrices {
+    const outcomePrices = engine.getPrices(pool);
+    return { yesPrice: outcomePrices[0], noPrice: 1 - outcomePrices[0], outcomePrices };
+}
+
+/**
+ * Execute a buy order against a pool, fee included (no database changes)
+ * A spend order's fee comes out of the amount; share and target orders pay
+ * it on top of what the pool needs. Spend and share orders are split with
+ * the asks on the book when there are any; target orders only move the pool.
+ */
+function executeOrder(
+    engine: PricingEngine,
+    pool: CategoricalPoolState,
+    outcomeIndex: number,
+    order: BetOrder,
+    feeConfig: FeeConfig,
+    asks: BookOrder[] = []
+): RoutedBuy {
+    if (asks.length > 0 && order.mode !== 'TARGET') {
+        return routeBuyWithFee(engine, pool, outcomeIndex, order, asks, feeConfig);
+    }
+
+    switch (order.mode) {
+        case 'SPEND':
+            return poolOnlyBuy(placeBetWithFee(engine, pool, outcomeIndex, order.usdcAmount, feeConfig));
+        case 'SHARES':
+            return poolOnlyBuy(chargeBuyFee(engine.buyShares(pool, outcomeIndex, order.shares), feeConfig));
+        case 'TARGET': {
+            const usdcAmount = engine.amountForTargetPrice(pool, outcomeIndex, order.targetPrice);
+            if (usdcAmount === 0n) {
+                throw new Error(`${pool.outcomes[outcomeIndex]} price is already at or above ${order.targetPrice}`);
+            }
+            return poolOnlyBuy(chargeBuyFee(engine.placeBet(pool, outcomeIndex, usdcAmount), feeConfig));
+        }
+    }
+}
 
-    // Calculate prices
-    const yesReserves = BigInt(row.yes_reserves);
-    const noReserves = BigInt(row.no_reserves);
-    const totalReserves = yesReserves + noReserves;
-    const yesPrice = totalReserves > 0n ? Number(noReserves) / Number(totalReserves) : 0.5;
-    const noPrice = 1 - yesPrice;
+function toFeeSummary(fee: FeeBreakdown): FeeSummary {
+    return {
+        total: fee.total.toString(),
+        lp: fee.lp.toString(),
+        creator: fee.creator.toString(),
+        protocol: fee.protocol.toString()
+    };
+}
+
+function toRouteSummary(fills: RouteFill[]): RouteFillSummary[] {
+    return fills.map(fill => ({
+        venue: fill.venue,
+        orderId: fill.orderId,
+        shares: fill.shares.toString(),
+        usdc: fill.usdc.toString(),
+        price: fill.price
+    }));
+}
+
+function toMarketWithMetadata(row: db.MarketRow): MarketWithMetadata {
+    const { yesPrice, noPrice, outcomePrices } = poolPrices(marketEngine(row), db.marketRowToEnginePoolState(row));
 
     return {
         marketId: row.market_id,
         title: row.title,
         description: row.description,
-        category: input.category || 'general',
+        category: row.category || 'general',
+        opensAt: row.opens_at ?? null,
         expiresAt: row.expires_at,
+        tradingPhase: tradingPhase(row),
         status: row.status,
+        refundMode: row.refund_mode ?? DEFAULT_REFUND_MODE,
+        disputeWindowSeconds: row.dispute_window_seconds ?? 0,
+        disputeBond: row.dispute_bond ?? '0',
+        proposedValue: row.proposed_value ?? null,
+        proposedBy: row.proposed_by ?? null,
+        disputeEndsAt: row.dispute_ends_at ?? null,
+        disputedBy: row.disputed_by ?? null,
+        disputeReason: row.dispute_reason ?? null,
+        marketType: row.market_type ?? 'BINARY',
+        pricingEngine: row.pricing_engine ?? 'CPMM',
+        outcomes: marketOutcomeLabels(row),
+        scalarRange: marketScalarRange(row),
         resolutionValue: row.resolution_value,
         resolutionType: row.resolution_type,
         oracleConfig: row.oracle_config as Record<string, unknown>,
+        oraclePrice: row.oracle_price ?? null,
+        oracleSource: row.oracle_source ?? null,
+        oraclePublishedAt: row.oracle_published_at ?? null,
+        oracleObservedAt: row.oracle_observed_at ?? null,
+        oracleEvidence: row.oracle_evidence ?? null,
         resolverAddress: row.resolver_address,
         yesReserves: row.yes_reserves,
         noReserves: row.no_reserves,
+        outcomeReserves: row.outcome_reserves,
         kInvariant: row.k_invariant,
+        lpTotalShares: row.lp_total_shares,
+        feeBps: row.fee_bps ?? 0,
         createdAt: row.created_at,
         prices: {
             yesPrice,
             noPrice,
             yesProbability: Math.round(yesPrice * 100),
-            noProbability: Math.round(noPrice * 100)
+            noProbability: Math.round(noPrice * 100),
+            outcomePrices
         }
     };
 }
+/**
+ * Pay a session out of one of a market's ledger accounts (users without a
+ * session, who traded from outside the system, are paid out externally)
+ */
+async function creditSession(
+    userId: string,
+    amount: bigint,
+    entryType: db.LedgerEntryType,
+    from: LedgerAccount,
+    marketId: string
+): Promise<void> {
+    const session = await db.getSession(userId);
+    await db.postLedgerEntry(transferEntry(
+        entryType, from, session ? sessionAccount(userId) : EXTERNAL_ACCOUNT, amount, { marketId }
+    ));
+    if (!session) {
+        console.log(`[PoolManager-DB] Paid ${userId} out externally (${entryType} ${amount})`);
+        return;
+    }
+    console.log(`[PoolManager-DB] Session balance updated: ${session.current_balance} -> ${BigInt(session.current_balance) + amount} (${entryType} ${amount})`);
+}
 
 /**
- * Get all active markets from the database
+ * Add outcome shares handed back by a liquidity deposit or withdrawal to the
+ * user's positions, at a cost basis of their value at the current prices
+ *
+ * @returns Value of the shares at the current prices (USDC base units)
  */
-export async function getActiveMarketsDB(): Promise<MarketWithMetadata[]> {
-    const rows = await db.getActiveMarkets();
+async function creditReturnedShares(
+    tx: MarketTransaction,
+    userId: string,
+    outcomes: string[],
+    returnedShares: bigint[],
+    prices: number[]
+): Promise<bigint> {
+    let value = 0n;
+
+    for (let i = 0; i < outcomes.length; i++) {
+        const shares = returnedShares[i];
+        if (shares <= 0n) continue;
+
+        const sharesValue = BigInt(Math.floor(Number(shares) * prices[i]));
+        await tx.addToPosition(userId, outcomes[i], shares, sharesValue);
+        value += sharesValue;
+    }
 
-    return rows.map(row => {
-        const yesReserves = BigInt(row.yes_reserves);
-        const noReserves = BigInt(row.no_reserves);
-        const totalReserves = yesReserves + noReserves;
-        const yesPrice = totalReserves > 0n ? Number(noReserves) / Number(totalReserves) : 0.5;
-        const noPrice = 1 - yesPrice;
+    return value;
+}
 
-        return {
+/**
+ * Trade record of a liquidity deposit (BUY), withdrawal (SELL), settlement
+ * (CLAIM) or cancellation refund (REFUND)
+ */
+function liquidityTrade(
+    userId: string,
+    tradeType: db.TradeType,
+    lpShares: bigint,
+    usdcAmount: bigint,
+    realizedPnl: bigint
+): Omit<db.InsertTradeInput, 'userAddress' | 'marketId' | 'marketTitle'> {
+    return {
+        sessionId: userId,
+        tradeType,
+        outcome: LP_TRADE_OUTCOME,
+        shares: lpShares,
+        price: lpShares > 0n ? Number(usdcAmount) / Number(lpShares) : 0,
+        costBasis: usdcAmount,
+        realizedPnl
+    };
+}
+
+/**
+ * Record a liquidity trade made outside a market transaction (resolution
+ * and cancellation)
+ */
+async function recordLiquidityTrade(
+    userId: string,
+    row: db.MarketRow,
+    tradeType: db.TradeType,
+    lpShares: bigint,
+    usdcAmount: bigint,
+    realizedPnl: bigint
+): Promise<void> {
+    try {
+        const userAddress = await db.getSessionUserAddress(userId);
+        await db.insertTrade({
+            ...liquidityTrade(userId, tradeType, lpShares, usdcAmount, realizedPnl),
+            userAddress: userAddress || userId,
             marketId: row.market_id,
-            title: row.title,
-            description: row.description,
-            category: row.category || 'general',
-            expiresAt: row.expires_at,
-            status: row.status,
-            resolutionValue: row.resolution_value,
-            resolutionType: row.resolution_type,
-            oracleConfig: row.oracle_config as Record<string, unknown>,
-            resolverAddress: row.resolver_address,
-            yesReserves: row.yes_reserves,
-            noReserves: row.no_reserves,
-            kInvariant: row.k_invariant,
-            createdAt: row.created_at,
-            prices: {
-                yesPrice,
-                noPrice,
-                yesProbability: Math.round(yesPrice * 100),
-                noProbability: Math.round(noPrice * 100)
-            }
-        };
+            marketTitle: row.title
+        });
+    } catch (tradeErr) {
+        console.warn(`[PoolManager-DB] Failed to record liquidity trade for ${userId}: ${tradeErr}`);
+    }
+}
+
+/**
+ * Create a new prediction market in the database
+ * The seed liquidity is debited from the creator's session, which receives
+ * the pool's initial LP shares.
+ */
+export async function createMarketDB(input: CreateMarketInput): Promise<MarketWithMetadata> {
+    const engine = getPricingEngine(input.pricingEngine);
+
+    // Categorical markets: one pool over N outcomes with equal reserves (1/N odds)
+    const categorical = !!input.outcomes && input.outcomes.length > 0;
+
+    // Scalar markets: a LONG/SHORT pool that pays out along the range
+    const scalar = !!input.scalarRange;
+    if (scalar && categorical) {
+        throw new Error('A market cannot be both categorical and scalar');
+    }
+    if (input.scalarRange) validateScalarRange(input.scalarRange);
+
+    const outcomes = categorical ? input.outcomes! : scalar ? SCALAR_OUTCOMES : [Outcome.YES, Outcome.NO];
+    const pool = engine.createPool(input.marketId, outcomes, input.initialLiquidity);
+    const lpShares = initialLpShares(pool);
+
+    const feeConfig: FeeConfig = { feeBps: input.feeBps ?? DEFAULT_TRADE_FEE_BPS, ...DEFAULT_FEE_SPLIT };
+    validateFeeConfig(feeConfig);
+
+    const disputeWindowSeconds = input.disputeWindowSeconds ?? 0;
+    const disputeBond = input.disputeBond ?? DEFAULT_DISPUTE_BOND;
+    validateDisputeConfig(disputeWindowSeconds, disputeBond);
+    validateTradingWindow(input.opensAt, input.expiresAt);
+
+    // The creator funds the seed liquidity (the store re-checks the balance as it debits it)
+    const session = await db.getSession(input.creatorId);
+    if (!session) throw new Error(`Creator session ${input.creatorId} not found`);
+    if (BigInt(session.current_balance) < input.initialLiquidity) {
+        throw new Error(`Insufficient session balance. Available: ${session.current_balance}, Required: ${input.initialLiquidity}`);
+    }
+    const seedTrade = liquidityTrade(input.creatorId, 'BUY', lpShares, input.initialLiquidity, 0n);
+
+    // Insert the market and its funding in one transaction
+    const row = await db.createMarket({
+        marketId: input.marketId,
+        title: input.title,
+        description: input.description,
+        category: input.category,
+        opensAt: input.opensAt,
+        expiresAt: input.expiresAt,
+        yesReserves: categorical ? 0n : pool.reserves[0],
+        noReserves: categorical ? 0n : pool.reserves[1],
+        kInvariant: pool.k,
+        marketType: categorical ? 'CATEGORICAL' : scalar ? 'SCALAR' : 'BINARY',
+        outcomes: pool.outcomes,
+        outcomeReserves: categorical ? pool.reserves : undefined,
+        totalCollateral: categorical ? pool.totalCollateral : undefined,
+        scalarLow: input.scalarRange?.low,
+        scalarHigh: input.scalarRange?.high,
+        pricingEngine: engine.type,
+        liquidityParameter: pool.liquidityParameter,
+        lpTotalShares: lpShares,
+        creatorId: input.creatorId,
+        feeConfig,
+        resolutionType: input.resolutionType,
+        oracleConfig: input.oracleConfig,
+        resolverAddress: input.resolverAddress,
+        refundMode: input.refundMode,
+        disputeWindowSeconds,
+        disputeBond,
+        funding: {
+            entry: transferEntry(
+                'MARKET_CREATE', sessionAccount(input.creatorId), marketAccount(input.marketId), input.initialLiquidity, { marketId: input.marketId }
+            ),
+            liquidityPositions: [{ user_id: input.creatorId, lp_shares: lpShares.toString(), cost_basis: input.initialLiquidity.toString() }],
+            trades: [{
+                session_id: seedTrade.sessionId,
+                user_address: session.user_address || input.creatorId,
+                trade_type: seedTrade.tradeType,
+                outcome: seedTrade.outcome,
+                shares: seedTrade.shares.toString(),
+                price: seedTrade.price,
+                cost_basis: seedTrade.costBasis.toString(),
+                realized_pnl: seedTrade.realizedPnl.toString(),
+                fee: '0',
+                market_title: input.title
+            }]
+        }
     });
+
+    console.log(`[PoolManager-DB] Created ${engine.type} market: ${input.marketId} - ${input.title} (${pool.outcomes.length} outcomes)`);
+
+    return toMarketWithMetadata(row);
+}
+
+/**
+ * Get all active markets from the database
+ */
+export async function getActiveMarketsDB(): Promise<MarketWithMetadata[]> {
+    const rows = await db.getActiveMarkets();
+    return rows.map(toMarketWithMetadata);
 }
 
 /**
@@ -145,37 +587,7 @@ export async function getActiveMarketsDB(): Promise<MarketWithMetadata[]> {
  */
 export async function getMarketsByResolverDB(resolverAddress: string): Promise<MarketWithMetadata[]> {
     const rows = await db.getMarketsByResolver(resolverAddress);
-
-    return rows.map(row => {
-        const yesReserves = BigInt(row.yes_reserves);
-        const noReserves = BigInt(row.no_reserves);
-        const totalReserves = yesReserves + noReserves;
-        const yesPrice = totalReserves > 0n ? Number(noReserves) / Number(totalReserves) : 0.5;
-        const noPrice = 1 - yesPrice;
-
-        return {
-            marketId: row.market_id,
-            title: row.title,
-            description: row.description,
-            category: row.category || 'general',
-            expiresAt: row.expires_at,
-            status: row.status,
-            resolutionValue: row.resolution_value,
-            resolutionType: row.resolution_type,
-            oracleConfig: row.oracle_config as Record<string, unknown>,
-            resolverAddress: row.resolver_address,
-            yesReserves: row.yes_reserves,
-            noReserves: row.no_reserves,
-            kInvariant: row.k_invariant,
-            createdAt: row.created_at,
-            prices: {
-                yesPrice,
-                noPrice,
-                yesProbability: Math.round(yesPrice * 100),
-                noProbability: Math.round(noPrice * 100)
-            }
-        };
-    });
+    return rows.map(toMarketWithMetadata);
 }
 
 /**
@@ -184,340 +596,1194 @@ export async function getMarketsByResolverDB(resolverAddress: string): Promise<M
 export async function getMarketDB(marketId: string): Promise<MarketWithMetadata | null> {
     const row = await db.getMarket(marketId);
     if (!row) return null;
-
-    const yesReserves = BigInt(row.yes_reserves);
-    const noReserves = BigInt(row.no_reserves);
-    const totalReserves = yesReserves + noReserves;
-    const yesPrice = totalReserves > 0n ? Number(noReserves) / Number(totalReserves) : 0.5;
-    const noPrice = 1 - yesPrice;
-
-    return {
-        marketId: row.market_id,
-        title: row.title,
-        description: row.description,
-        category: row.category || 'general',
-        expiresAt: row.expires_at,
-        status: row.status,
-        resolutionValue: row.resolution_value,
-        resolutionType: row.resolution_type,
-        oracleConfig: row.oracle_config as Record<string, unknown>,
-        resolverAddress: row.resolver_address,
-        yesReserves: row.yes_reserves,
-        noReserves: row.no_reserves,
-        kInvariant: row.k_invariant,
-        createdAt: row.created_at,
-        prices: {
-            yesPrice,
-            noPrice,
-            yesProbability: Math.round(yesPrice * 100),
-            noProbability: Math.round(noPrice * 100)
-        }
-    };
+    return toMarketWithMetadata(row);
 }
 
 /**
  * Place a bet on a market (updates database)
+ * Spend and share orders are routed between the asks on the order book and
+ * the pool, whichever is cheaper (see order-book.ts).
  * @param userId - The session ID (from activeSessionId) or wallet address
+ * @param order - USDC to spend, exact shares to buy, or a target price
+ * @param outcome - Outcome index (0 = YES, 1 = NO for binary markets) or label
+ * @param limits - Slippage limits and deadline; breaching one throws a SlippageError
  * Note: When using sessions, userId should be the session_id for proper balance tracking
  */
 export async function placeBetDB(
     marketId: string,
     userId: string,
-    usdcAmount: bigint,
-    outcome: Outcome
+    order: BetOrder,
+    outcome: OutcomeRef,
+    limits: TradeLimits = {}
 ): Promise<{
     success: boolean;
     shares: string;
+    cost: string;
+    fee: FeeSummary;
     effectivePrice: number;
-    newPrices: { yesPrice: number; noPrice: number };
+    newPrices: NewPrices;
+    route: RouteFillSummary[];
 }> {
-    // Get current market state
-    const row = await db.getMarket(marketId);
-    if (!row) throw new Error(`Market ${marketId} not found`);
-    if (row.status !== 'ACTIVE') throw new Error(`Market ${marketId} is not active`);
-
-    // Check if userId is a session and has sufficient balance
-    const session = await db.getSession(userId);
-    if (session) {
-        const currentBalance = BigInt(session.current_balance);
-        if (currentBalance < usdcAmount) {
-            throw new Error(`Insufficient session balance. Available: ${currentBalance}, Required: ${usdcAmount}`);
-        }
-    }
-
-    // Convert to pool state for AMM calculations
-    const pool: PoolState = db.marketRowToPoolState(row);
-
-    // Execute bet using AMM
-    const result = placeBet(pool, usdcAmount, outcome);
-
-    // Update market reserves in database
-    await db.updateMarketReserves(
-        marketId,
-        result.newPoolState.yesReserves,
-        result.newPoolState.noReserves,
-        result.newPoolState.k
-    );
-
-    // Update user position in database
-    const existingPos = await db.getPosition(userId, marketId, outcome);
-    const currentShares = existingPos ? BigInt(existingPos.shares) : 0n;
-    const newShares = currentShares + result.totalShares;
-
-    await db.upsertPosition(userId, marketId, outcome, newShares, result.effectivePrice);
-
-    // Deduct from session balance if this is a session-based bet
-    if (session) {
-        const newBalance = BigInt(session.current_balance) - usdcAmount;
-        const newNonce = session.nonce + 1;
-        await db.updateSessionBalance(session.session_id, newBalance, session.latest_signature, newNonce);
-        console.log(`[PoolManager-DB] Session balance updated: ${session.current_balance} -> ${newBalance} (deducted ${usdcAmount})`);
-    }
-
-    // Calculate new prices
-    const newYesReserves = result.newPoolState.yesReserves;
-    const newNoReserves = result.newPoolState.noReserves;
-    const totalReserves = newYesReserves + newNoReserves;
-    const yesPrice = Number(newNoReserves) / Number(totalReserves);
-    const noPrice = 1 - yesPrice;
-
-    console.log(`[PoolManager-DB] Bet placed: ${userId} bet ${usdcAmount} on ${outcome} in ${marketId}`);
-
-    // Record trade for PnL tracking
-    try {
-        const userAddress = await db.getSessionUserAddress(userId);
-        await db.insertTrade({
+    checkDeadline(limits);
+
+    const trade = await runMarketTransaction(marketId, 'BET', async tx => {
+        const row = tx.market;
+        checkTradingOpen(row);
+
+        const outcomeLabel = resolveOutcomeLabel(row, outcome);
+
+        // Execute bet using the market's pricing engine and the asks on the book
+        const engine = marketEngine(row);
+        const pool = db.marketRowToEnginePoolState(row);
+        const asks = order.mode === 'TARGET' ? emptyBook() : await loadBook(marketId, outcomeLabel, 'SELL', userId);
+        const result = executeOrder(
+            engine,
+            pool,
+            pool.outcomes.indexOf(outcomeLabel),
+            order,
+            db.marketRowToFeeConfig(row),
+            asks.orders
+        );
+        const usdcAmount = result.usdcIn;
+
+        // Reject before anything is written if the pool moved past the trader's limits
+        checkBuyLimits(limits, usdcAmount, result.totalShares);
+
+        // Deduct from the session balance; users without a session pay from outside
+        if (await tx.getSession(userId)) await tx.debit(userId, usdcAmount);
+        else tx.transferExternal(usdcAmount);
+
+        // Update market reserves and pay the makers of any asks filled
+        tx.setPoolState(result.newPoolState);
+        tx.accrueFees(result.fee);
+        await settleBookFills(tx, result.fills, asks.rows);
+
+        // Update user position (the shares cost everything paid, fee included)
+        await tx.addToPosition(userId, outcomeLabel, result.totalShares, usdcAmount);
+
+        // Record trade for PnL tracking
+        await tx.recordTrade({
             sessionId: userId,
-            userAddress: userAddress || userId,
-            marketId,
             tradeType: 'BUY',
-            outcome,
+            outcome: outcomeLabel,
             shares: result.totalShares,
             price: result.effectivePrice,
             costBasis: usdcAmount,
             realizedPnl: 0n,
-            marketTitle: row.title
+            fee: result.fee.total
         });
-    } catch (tradeErr) {
-        console.warn(`[PoolManager-DB] Failed to record trade: ${tradeErr}`);
-    }
+
+        return { result, outcomeLabel, newPrices: poolPrices(engine, result.newPoolState) };
+    });
+
+    const { result, outcomeLabel, newPrices } = trade;
+    console.log(`[PoolManager-DB] Bet placed: ${userId} bet ${result.usdcIn} on ${outcomeLabel} in ${marketId}`);
+
+    await matchAfterTrade(marketId);
 
     return {
         success: true,
         shares: result.totalShares.toString(),
+        cost: result.usdcIn.toString(),
+        fee: toFeeSummary(result.fee),
         effectivePrice: result.effectivePrice,
-        newPrices: { yesPrice, noPrice }
+        newPrices,
+        route: toRouteSummary(result.fills)
     };
 }
 
 /**
  * Quote a bet (no database changes)
+ * `route` lists where the order would fill: asks on the book and the pool.
  */
 export async function quoteBetDB(
     marketId: string,
-    usdcAmount: bigint,
-    outcome: Outcome
-): Promise<{ shares: string; effectivePrice: number; priceImpact: number } | null> {
+    order: BetOrder,
+    outcome: OutcomeRef
+): Promise<{
+    shares: string;
+    cost: string;
+    fee: FeeSummary;
+    effectivePrice: number;
+    priceImpact: number;
+    route: RouteFillSummary[];
+} | null> {
     const row = await db.getMarket(marketId);
-    if (!row || row.status !== 'ACTIVE') return null;
+    if (!row || tradingPhase(row) !== 'OPEN') return null;
+
+    const outcomeLabel = resolveOutcomeLabel(row, outcome);
+
+    const engine = marketEngine(row);
+    const pool = db.marketRowToEnginePoolState(row);
+    const outcomeIndex = pool.outcomes.indexOf(outcomeLabel);
+    const feeConfig = db.marketRowToFeeConfig(row);
+    const asks = order.mode === 'TARGET' ? emptyBook() : await loadBook(marketId, outcomeLabel, 'SELL');
+
+    if (order.mode === 'SPEND' && asks.orders.length === 0) {
+        // The fee comes out of the amount before it reaches the pool
+        const fee = calculateFee(order.usdcAmount, feeConfig);
+        if (fee.total >= order.usdcAmount) return null;
 
-    const pool: PoolState = db.marketRowToPoolState(row);
+        const net = order.usdcAmount - fee.total;
+        const quote = engine.quoteBet(pool, outcomeIndex, net);
+        if (!quote) return null;
+
+        return {
+            shares: quote.expectedShares.toString(),
+            cost: order.usdcAmount.toString(),
+            fee: toFeeSummary(fee),
+            effectivePrice: Number(order.usdcAmount) / Number(quote.expectedShares),
+            priceImpact: quote.priceImpact,
+            route: [{
+                venue: 'AMM',
+                orderId: null,
+                shares: quote.expectedShares.toString(),
+                usdc: net.toString(),
+                price: Number(net) / Number(quote.expectedShares)
+            }]
+        };
+    }
 
-    const quote = quoteBet(pool, usdcAmount, outcome);
-    if (!quote) return null;
+    // Routed spend orders are quoted like bets; share and target orders
+    // surface why they can't be filled
+    let result: RoutedBuy;
+    try {
+        result = executeOrder(engine, pool, outcomeIndex, order, feeConfig, asks.orders);
+    } catch (err) {
+        if (order.mode === 'SPEND') return null;
+        throw err;
+    }
+    const before = poolPrices(engine, pool).outcomePrices[outcomeIndex] * 100;
+    const after = poolPrices(engine, result.newPoolState).outcomePrices[outcomeIndex] * 100;
 
     return {
-        shares: quote.expectedShares.toString(),
-        effectivePrice: quote.effectivePrice,
-        priceImpact: quote.priceImpact
+        shares: result.totalShares.toString(),
+        cost: result.usdcIn.toString(),
+        fee: toFeeSummary(result.fee),
+        effectivePrice: result.effectivePrice,
+        priceImpact: Math.abs(after - before),
+        route: toRouteSummary(result.fills)
     };
 }
 
 /**
  * Get user position in a market
+ * `shares` and `costBases` map every outcome label to the shares held and
+ * what they cost (binary markets also report yesShares / noShares);
+ * `costBasis` is the total over all outcomes
  */
 export async function getPositionDB(
     marketId: string,
     userId: string
-): Promise<{ yesShares: string; noShares: string; costBasis: string } | null> {
-    const yesPos = await db.getPosition(userId, marketId, Outcome.YES);
-    const noPos = await db.getPosition(userId, marketId, Outcome.NO);
-
-    if (!yesPos && !noPos) return null;
+): Promise<{
+    yesShares: string;
+    noShares: string;
+    shares: Record<string, string>;
+    costBases: Record<string, string>;
+    costBasis: string;
+} | null> {
+    const rows = await db.getUserMarketPositions(userId, marketId);
+    if (rows.length === 0) return null;
+
+    const shares: Record<string, string> = {};
+    const costBases: Record<string, string> = {};
+    let costBasis = 0n;
+    for (const pos of rows) {
+        shares[pos.outcome] = pos.shares;
+        costBases[pos.outcome] = pos.cost_basis;
+        costBasis += BigInt(pos.cost_basis);
+    }
 
     return {
-        yesShares: yesPos?.shares || '0',
-        noShares: noPos?.shares || '0',
-        costBasis: '0' // TODO: Track cost basis in positions table
+        yesShares: shares[Outcome.YES] || '0',
+        noShares: shares[Outcome.NO] || '0',
+        shares,
+        costBases,
+        costBasis: costBasis.toString()
     };
 }
 
 /**
- * Sell position (updates database)
+ * Every open position of a user in an unsettled market, marked to the
+ * pool's current (or last) price, with portfolio totals
+ * Unrealized PnL = shares at the pool price - cost basis. Realized PnL is
+ * the total booked on the user's trades so far.
  */
-export async function sellPositionDB(
-    marketId: string,
-    userId: string,
-    sharesAmount: bigint,
-    outcome: Outcome
-): Promise<{ usdcOut: string; priceImpact: number; newPrices: { yesPrice: number; noPrice: number } }> {
-    // Get current market state
-    const row = await db.getMarket(marketId);
-    if (!row) throw new Error(`Market ${marketId} not found`);
-    if (row.status !== 'ACTIVE') throw new Error(`Market ${marketId} is not active`);
+export async function getPortfolioDB(userId: string): Promise<{
+    positions: PortfolioPosition[];
+    totals: { costBasis: string; marketValue: string; unrealizedPnl: string; realizedPnl: string };
+}> {
+    // Shares escrowed in open asks are still the user's until they sell
+    const held = new Map<string, { marketId: string; outcome: string; position: CostedPosition; inOrders: bigint }>();
+    const hold = (marketId: string, outcome: string, shares: bigint, costBasis: bigint, inOrders: bigint) => {
+        const key = `${marketId}\u0000${outcome}`;
+        const entry = held.get(key) ?? { marketId, outcome, position: { shares: 0n, costBasis: 0n }, inOrders: 0n };
+        entry.position = { shares: entry.position.shares + shares, costBasis: entry.position.costBasis + costBasis };
+        entry.inOrders += inOrders;
+        held.set(key, entry);
+    };
 
-    // Check user has enough shares
-    const existingPos = await db.getPosition(userId, marketId, outcome);
-    if (!existingPos) throw new Error('User has no position to sell');
-    const currentShares = BigInt(existingPos.shares);
-    if (currentShares < sharesAmount) {
-        throw new Error(`Insufficient shares. Held: ${currentShares}, Selling: ${sharesAmount}`);
+    for (const pos of await db.getUserActivePositions(userId)) {
+        hold(pos.market_id, pos.outcome, BigInt(pos.shares), BigInt(pos.cost_basis), 0n);
     }
-
-    // Convert to pool state
-    const pool: PoolState = db.marketRowToPoolState(row);
-
-    // Execute sell using AMM
-    const result = sellPosition(pool, sharesAmount, outcome);
-
-    // Update market reserves
-    await db.updateMarketReserves(
-        marketId,
-        result.newPoolState.yesReserves,
-        result.newPoolState.noReserves,
-        result.newPoolState.k
-    );
-
-    // Update user position
-    const newShares = currentShares - sharesAmount;
-    await db.upsertPosition(userId, marketId, outcome, newShares, existingPos.average_entry_price);
-
-    // Credit session balance if this is a session-based sell
-    const session = await db.getSession(userId);
-    if (session) {
-        const newBalance = BigInt(session.current_balance) + result.usdcOut;
-        const newNonce = session.nonce + 1;
-        await db.updateSessionBalance(session.session_id, newBalance, session.latest_signature, newNonce);
-        console.log(`[PoolManager-DB] Session balance updated: ${session.current_balance} -> ${newBalance} (added ${result.usdcOut})`);
+    for (const order of await db.getUserLimitOrders(userId, 'OPEN')) {
+        if (order.side !== 'SELL') continue;
+        const escrowed = BigInt(order.shares_remaining);
+        hold(order.market_id, order.outcome, escrowed, BigInt(order.cost_basis_remaining), escrowed);
     }
 
-    // Calculate new prices
-    const newYesReserves = result.newPoolState.yesReserves;
-    const newNoReserves = result.newPoolState.noReserves;
-    const totalReserves = newYesReserves + newNoReserves;
-    const yesPrice = Number(newNoReserves) / Number(totalReserves);
-    const noPrice = 1 - yesPrice;
+    const markets = new Map<string, { row: db.MarketRow; prices: number[] } | null>();
+    const positions: PortfolioPosition[] = [];
+    const totals = { costBasis: 0n, marketValue: 0n, unrealizedPnl: 0n, realizedPnl: 0n };
 
-    console.log(`[PoolManager-DB] Sold: ${userId} sold ${sharesAmount} ${outcome} shares in ${marketId}`);
+    for (const { marketId, outcome, position, inOrders } of held.values()) {
+        if (!markets.has(marketId)) {
+            const row = await db.getMarket(marketId);
+            markets.set(marketId, row && db.UNSETTLED_MARKET_STATUSES.includes(row.status)
+                ? { row, prices: poolPrices(marketEngine(row), db.marketRowToEnginePoolState(row)).outcomePrices }
+                : null);
+        }
+        const market = markets.get(marketId);
+        if (!market || position.shares <= 0n) continue;
 
-    // Record trade for PnL tracking
-    // Realized PnL = USDC received - (shares sold * average entry price)
-    try {
-        const costBasisForSold = BigInt(Math.round(Number(sharesAmount) * existingPos.average_entry_price));
-        const realizedPnl = result.usdcOut - costBasisForSold;
-        const userAddress = await db.getSessionUserAddress(userId);
-        await db.insertTrade({
-            sessionId: userId,
-            userAddress: userAddress || userId,
+        const marked = markPosition(position, market.prices[marketOutcomeLabels(market.row).indexOf(outcome)] ?? 0);
+        totals.costBasis += marked.costBasis;
+        totals.marketValue += marked.marketValue;
+        totals.unrealizedPnl += marked.unrealizedPnl;
+
+        positions.push({
             marketId,
-            tradeType: 'SELL',
+            marketTitle: market.row.title,
             outcome,
-            shares: sharesAmount,
-            price: Number(result.usdcOut) / Number(sharesAmount),
-            costBasis: result.usdcOut,
-            realizedPnl,
-            marketTitle: row.title
+            shares: marked.shares.toString(),
+            sharesInOrders: inOrders.toString(),
+            costBasis: marked.costBasis.toString(),
+            averageEntryPrice: averageEntryPrice(marked),
+            markPrice: marked.markPrice,
+            marketValue: marked.marketValue.toString(),
+            unrealizedPnl: marked.unrealizedPnl.toString()
         });
-    } catch (tradeErr) {
-        console.warn(`[PoolManager-DB] Failed to record sell trade: ${tradeErr}`);
+    }
+
+    for (const trade of await db.getTradesBySession(userId)) {
+        totals.realizedPnl += BigInt(trade.realized_pnl);
     }
 
     return {
-        usdcOut: result.usdcOut.toString(),
-        priceImpact: result.priceImpact,
-        newPrices: { yesPrice, noPrice }
+        positions,
+        totals: {
+            costBasis: totals.costBasis.toString(),
+            marketValue: totals.marketValue.toString(),
+            unrealizedPnl: totals.unrealizedPnl.toString(),
+            realizedPnl: totals.realizedPnl.toString()
+        }
     };
 }
 
 /**
- * Resolve a market and auto-settle all positions for all users.
- * Winning shares = $1 each, losing shares = $0.
- * PnL is calculated and session balances are updated for every holder.
+ * Sell position (updates database)
+ * The sale is routed between the bids on the order book and the pool,
+ * whichever pays more (see order-book.ts).
+ * @param limits - Minimum payout and deadline; breaching one throws a SlippageError
  */
-export async function resolveMarketDB(
+export async function sellPositionDB(
     marketId: string,
-    winner: Outcome,
-    resolvedBy?: string
-): Promise<void> {
+    userId: string,
+    sharesAmount: bigint,
+    outcome: OutcomeRef,
+    limits: TradeLimits = {}
+): Promise<{ usdcOut: string; fee: FeeSummary; priceImpact: number; newPrices: NewPrices; route: RouteFillSummary[] }> {
+    checkDeadline(limits);
+
+    const trade = await runMarketTransaction(marketId, 'SELL', async tx => {
+        const row = tx.market;
+        checkTradingOpen(row);
+
+        const outcomeLabel = resolveOutcomeLabel(row, outcome);
+
+        // Check user has enough shares
+        const existingPos = await tx.getPosition(userId, outcomeLabel);
+        if (!existingPos) throw new Error('User has no position to sell');
+        if (existingPos.shares < sharesAmount) {
+            throw new Error(`Insufficient shares. Held: ${existingPos.shares}, Selling: ${sharesAmount}`);
+        }
+
+        // Execute sell using the market's pricing engine and the bids on the book
+        const engine = marketEngine(row);
+        const pool = db.marketRowToEnginePoolState(row);
+        const outcomeIndex = pool.outcomes.indexOf(outcomeLabel);
+        const feeConfig = db.marketRowToFeeConfig(row);
+        const bids = await loadBook(marketId, outcomeLabel, 'BUY', userId);
+        const result: RoutedSell = bids.orders.length > 0
+            ? routeSellWithFee(engine, pool, outcomeIndex, sharesAmount, bids.orders, feeConfig)
+            : poolOnlySell(sellPositionWithFee(engine, pool, outcomeIndex, sharesAmount, feeConfig), sharesAmount);
+
+        checkSellLimits(limits, result.usdcOut);
+
+        // Update market reserves and hand the makers of any bids filled their shares
+        tx.setPoolState(result.newPoolState);
+        tx.accrueFees(result.fee);
+        await settleBookFills(tx, result.fills, bids.rows);
+
+        // Update user position and credit the session; users without a session are paid outside it
+        const costBasisForSold = await tx.takeFromPosition(userId, outcomeLabel, sharesAmount);
+        if (await tx.getSession(userId)) await tx.credit(userId, result.usdcOut);
+        else tx.transferExternal(-result.usdcOut);
+
+        // Record trade for PnL tracking
+        // Realized PnL = USDC received - cost basis of the shares sold
+        await tx.recordTrade({
+            sessionId: userId,
+            tradeType: 'SELL',
+            outcome: outcomeLabel,
+            shares: sharesAmount,
+            price: Number(result.usdcOut) / Number(sharesAmount),
+            costBasis: result.usdcOut,
+            realizedPnl: result.usdcOut - costBasisForSold,
+            fee: result.fee.total
+        });
+
+        return { result, outcomeLabel, newPrices: poolPrices(engine, result.newPoolState) };
+    });
+
+    const { result, outcomeLabel, newPrices } = trade;
+    console.log(`[PoolManager-DB] Sold: ${userId} sold ${sharesAmount} ${outcomeLabel} shares in ${marketId}`);
+
+    await matchAfterTrade(marketId);
+
+    return {
+        usdcOut: result.usdcOut.toString(),
+        fee: toFeeSummary(result.fee),
+        priceImpact: result.priceImpact,
+        newPrices,
+        route: toRouteSummary(result.fills)
+    };
+}
+
+/**
+ * Deposit USDC into a market's pool for LP shares (updates database)
+ * The deposit is debited from the user's session. Prices don't move: the
+ * outcome shares the pool doesn't keep are added to the user's positions.
+ */
+export async function addLiquidityDB(
+    marketId: string,
+    userId: string,
+    usdcAmount: bigint
+): Promise<{ lpShares: string; totalLpShares: string; returnedShares: Record<string, string> }> {
+    const { pool, result } = await runMarketTransaction(marketId, 'ADD_LIQUIDITY', async tx => {
+        const row = tx.market;
+        checkTradingOpen(row);
+
+        const engine = marketEngine(row);
+        const pool = db.marketRowToEnginePoolState(row);
+        const result = addLiquidity(pool, BigInt(row.lp_total_shares), usdcAmount);
+
+        await tx.debit(userId, usdcAmount);
+        tx.setLiquidityState(result.newPoolState, result.newTotalLpShares);
+
+        // The LP shares cost the deposit less what the returned outcome shares are worth
+        const { outcomePrices } = poolPrices(engine, pool);
+        const returnedValue = await creditReturnedShares(tx, userId, pool.outcomes, result.returnedShares, outcomePrices);
+        const cost = usdcAmount - returnedValue;
+
+        const existing = await tx.getLiquidityPosition(userId);
+        const heldShares = existing?.lpShares ?? 0n;
+        const heldCost = existing?.costBasis ?? 0n;
+        tx.setLiquidityPosition(userId, heldShares + result.lpShares, heldCost + cost);
+
+        await tx.recordTrade(liquidityTrade(userId, 'BUY', result.lpShares, cost, 0n));
+
+        return { pool, result };
+    });
+
+    console.log(`[PoolManager-DB] Liquidity added: ${userId} deposited ${usdcAmount} in ${marketId} for ${result.lpShares} LP shares`);
+
+    return {
+        lpShares: result.lpShares.toString(),
+        totalLpShares: result.newTotalLpShares.toString(),
+        returnedShares: sharesByOutcome(pool.outcomes, result.returnedShares)
+    };
+}
+
+/**
+ * Burn LP shares for USDC and outcome shares (updates database)
+ * The complete sets withdrawn are credited to the user's session; the rest of
+ * their slice of the reserves is added to their positions.
+ */
+export async function removeLiquidityDB(
+    marketId: string,
+    userId: string,
+    lpShares: bigint
+): Promise<{ usdcOut: string; totalLpShares: string; returnedShares: Record<string, string>; realizedPnl: string }> {
+    const { pool, result, realizedPnl } = await runMarketTransaction(marketId, 'REMOVE_LIQUIDITY', async tx => {
+        const row = tx.market;
+        checkTradingOpen(row);
+
+        const existing = await tx.getLiquidityPosition(userId);
+        const heldShares = existing?.lpShares ?? 0n;
+        if (heldShares < lpShares) {
+            throw new Error(`Insufficient LP shares. Held: ${heldShares}, Removing: ${lpShares}`);
+        }
+
+        const engine = marketEngine(row);
+        const pool = db.marketRowToEnginePoolState(row);
+        const result = removeLiquidity(pool, BigInt(row.lp_total_shares), lpShares);
+
+        tx.setLiquidityState(result.newPoolState, result.newTotalLpShares);
+
+        // Release the cost basis of the burned shares pro rata
+        const heldCost = existing!.costBasis;
+        const releasedCost = (heldCost * lpShares) / heldShares;
+        tx.setLiquidityPosition(userId, heldShares - lpShares, heldCost - releasedCost);
+
+        const { outcomePrices } = poolPrices(engine, pool);
+        const returnedValue = await creditReturnedShares(tx, userId, pool.outcomes, result.returnedShares, outcomePrices);
+        await tx.credit(userId, result.usdcOut);
+
+        // Realized PnL = USDC out + value of the returned shares - cost basis released
+        const realizedPnl = result.usdcOut + returnedValue - releasedCost;
+        await tx.recordTrade(liquidityTrade(userId, 'SELL', lpShares, result.usdcOut, realizedPnl));
+
+        return { pool, result, realizedPnl };
+    });
+
+    console.log(`[PoolManager-DB] Liquidity removed: ${userId} burned ${lpShares} LP shares in ${marketId} for ${result.usdcOut}`);
+
+    return {
+        usdcOut: result.usdcOut.toString(),
+        totalLpShares: result.newTotalLpShares.toString(),
+        returnedShares: sharesByOutcome(pool.outcomes, result.returnedShares),
+        realizedPnl: realizedPnl.toString()
+    };
+}
+
+/**
+ * Get a user's LP position in a market
+ */
+export async function getLiquidityPositionDB(
+    marketId: string,
+    userId: string
+): Promise<{ lpShares: string; costBasis: string; totalLpShares: string; poolShare: number } | null> {
+    const row = await db.getMarket(marketId);
+    if (!row) return null;
+
+    const position = await db.getLiquidityPosition(userId, marketId);
+    if (!position) return null;
+
+    const totalLpShares = BigInt(row.lp_total_shares);
+
+    return {
+        lpShares: position.lp_shares,
+        costBasis: position.cost_basis,
+        totalLpShares: row.lp_total_shares,
+        poolShare: totalLpShares > 0n ? Number(BigInt(position.lp_shares)) / Number(totalLpShares) : 0
+    };
+}
+
+function sharesByOutcome(outcomes: string[], shares: bigint[]): Record<string, string> {
+    const result: Record<string, string> = {};
+    outcomes.forEach((label, i) => {
+        result[label] = shares[i].toString();
+    });
+    return result;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// COMPLETE SETS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Split an amount of USDC across a market's outcomes at the current prices
+ * (the last outcome takes the rounding remainder so the parts sum to amount)
+ */
+function allocateByPrice(amount: bigint, prices: number[]): bigint[] {
+    const parts = prices.map(price => BigInt(Math.floor(Number(amount) * price)));
+    parts[parts.length - 1] = amount - parts.slice(0, -1).reduce((sum, part) => sum + part, 0n);
+    return parts;
+}
+
+/**
+ * Record one leg of a split or merge for PnL tracking
+ */
+async function recordCompleteSetTrade(
+    tx: MarketTransaction,
+    userId: string,
+    tradeType: 'SPLIT' | 'MERGE',
+    outcome: string,
+    shares: bigint,
+    usdcAmount: bigint,
+    realizedPnl: bigint
+): Promise<void> {
+    await tx.recordTrade({
+        sessionId: userId,
+        tradeType,
+        outcome,
+        shares,
+        price: Number(usdcAmount) / Number(shares),
+        costBasis: usdcAmount,
+        realizedPnl
+    });
+}
+
+/**
+ * Split USDC into complete sets (updates database)
+ * The amount is debited from the user's session and the user receives that
+ * many shares of every outcome. Prices don't move and no fee is charged;
+ * each outcome's shares enter the position at its current price.
+ */
+export async function splitPositionDB(
+    marketId: string,
+    userId: string,
+    usdcAmount: bigint
+): Promise<{ shares: string; outcomes: string[]; cost: string }> {
+    const { outcomes, shares } = await runMarketTransaction(marketId, 'SPLIT', async tx => {
+        const row = tx.market;
+        checkTradingOpen(row);
+
+        const engine = marketEngine(row);
+        const pool = db.marketRowToEnginePoolState(row);
+        const result = splitPosition(pool, usdcAmount);
+        const costs = allocateByPrice(usdcAmount, poolPrices(engine, pool).outcomePrices);
+
+        await tx.debit(userId, usdcAmount);
+        tx.setPoolState(result.newPoolState);
+
+        for (let i = 0; i < pool.outcomes.length; i++) {
+            const outcome = pool.outcomes[i];
+            await tx.addToPosition(userId, outcome, result.shares, costs[i]);
+            await recordCompleteSetTrade(tx, userId, 'SPLIT', outcome, result.shares, costs[i], 0n);
+        }
+
+        return { outcomes: pool.outcomes, shares: result.shares };
+    });
+
+    console.log(`[PoolManager-DB] Split: ${userId} split ${usdcAmount} into ${shares} shares of each outcome in ${marketId}`);
+
+    return { shares: shares.toString(), outcomes, cost: usdcAmount.toString() };
+}
+
+/**
+ * Merge complete sets back into USDC (updates database)
+ * The user gives up that many shares of every outcome and the session is
+ * credited 1 USDC per set, with no fee or slippage. Realized PnL is booked
+ * per outcome against the position's average entry price.
+ */
+export async function mergePositionsDB(
+    marketId: string,
+    userId: string,
+    sets: bigint
+): Promise<{ usdcOut: string; outcomes: string[]; realizedPnl: string }> {
+    const { outcomes, usdcOut, realizedPnl } = await runMarketTransaction(marketId, 'MERGE', async tx => {
+        const row = tx.market;
+        checkTradingOpen(row);
+
+        const engine = marketEngine(row);
+        const pool = db.marketRowToEnginePoolState(row);
+
+        // Every outcome must hold the full amount before anything is staged
+        for (const outcome of pool.outcomes) {
+            const held = (await tx.getPosition(userId, outcome))?.shares ?? 0n;
+            if (held < sets) {
+                throw new Error(`Insufficient ${outcome} shares. Held: ${held}, Merging: ${sets}`);
+            }
+        }
+
+        const result = mergePositions(pool, sets);
+        const proceeds = allocateByPrice(result.usdcOut, poolPrices(engine, pool).outcomePrices);
+
+        tx.setPoolState(result.newPoolState);
+
+        let realizedPnl = 0n;
+        for (let i = 0; i < pool.outcomes.length; i++) {
+            const releasedCost = await tx.takeFromPosition(userId, pool.outcomes[i], sets);
+
+            const legPnl = proceeds[i] - releasedCost;
+            realizedPnl += legPnl;
+            await recordCompleteSetTrade(tx, userId, 'MERGE', pool.outcomes[i], sets, proceeds[i], legPnl);
+        }
+
+        if (await tx.getSession(userId)) await tx.credit(userId, result.usdcOut);
+        else tx.transferExternal(-result.usdcOut);
+
+        return { outcomes: pool.outcomes, usdcOut: result.usdcOut, realizedPnl };
+    });
+
+    console.log(`[PoolManager-DB] Merge: ${userId} merged ${sets} complete sets for ${usdcOut} in ${marketId}`);
+
+    return { usdcOut: usdcOut.toString(), outcomes, realizedPnl: realizedPnl.toString() };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// LIMIT ORDERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+function toLimitOrderSummary(order: db.LimitOrderRow): LimitOrderSummary {
+    return {
+        orderId: order.id,
+        marketId: order.market_id,
+        userId: order.user_id,
+        outcome: order.outcome,
+        side: order.side,
+        limitPrice: Number(order.limit_price),
+        usdcAmount: order.usdc_amount,
+        usdcRemaining: order.usdc_remaining,
+        sharesFilled: order.shares_filled,
+        sharesAmount: order.shares_amount,
+        sharesRemaining: order.shares_remaining,
+        usdcFilled: order.usdc_filled,
+        timeInForce: order.time_in_force,
+        expiresAt: order.expires_at,
+        status: order.status,
+        createdAt: order.created_at
+    };
+}
+
+function isLimitOrderExpired(order: db.LimitOrderRow, now: number = Date.now()): boolean {
+    return order.time_in_force === 'GTT' && !!order.expires_at && new Date(order.expires_at).getTime() <= now;
+}
+
+/**
+ * Close an open order and refund its unspent escrow: USDC to the session
+ * of a bid, unsold shares to the position of an ask
+ * @returns The closed order, or null if it was no longer open
+ */
+async function closeLimitOrder(order: db.LimitOrderRow, status: 'CANCELLED' | 'EXPIRED'): Promise<db.LimitOrderRow | null> {
+    return runMarketTransaction(order.market_id, 'ORDER_CLOSE', async tx => {
+        // Re-read inside the transaction so the escrow can never be returned twice
+        const current = await db.getLimitOrder(order.id);
+        if (!current || current.status !== 'OPEN') return null;
+
+        if (current.side === 'SELL') {
+            const unsold = BigInt(current.shares_remaining);
+            const closed = tx.updateLimitOrder(current, { shares_remaining: '0', cost_basis_remaining: '0', status });
+            if (unsold > 0n) {
+                await tx.addToPosition(current.user_id, current.outcome, unsold, BigInt(current.cost_basis_remaining));
+            }
+
+            console.log(`[PoolManager-DB] Limit order ${current.id} ${status.toLowerCase()}: returned ${unsold} ${current.outcome} shares to ${current.user_id}`);
+            return closed;
+        }
+
+        const refund = BigInt(current.usdc_remaining);
+        const closed = tx.updateLimitOrder(current, { usdc_remaining: '0', status });
+        if (refund > 0n) await tx.credit(current.user_id, refund);
+
+        console.log(`[PoolManager-DB] Limit order ${current.id} ${status.toLowerCase()}: refunded ${refund} to ${current.user_id}`);
+        return closed;
+    });
+}
+
+/** One side of an outcome's book as the router sees it, with the rows behind it */
+type LoadedBook = { orders: BookOrder[]; rows: Map<string, db.LimitOrderRow> };
+
+function emptyBook(): LoadedBook {
+    return { orders: [], rows: new Map() };
+}
+
+/**
+ * Load one side of an outcome's order book for routing, best price first
+ * The taker's own orders (no self-trades) and expired orders are left out.
+ *
+ * @param takerId User the book is routed for
+ * @param limitPrice Only orders at this price or better for the taker
+ */
+async function loadBook(
+    marketId: string,
+    outcome: string,
+    side: OrderSide,
+    takerId?: string,
+    limitPrice?: number
+): Promise<LoadedBook> {
+    const book = emptyBook();
+
+    for (const order of await db.getBookOrders(marketId, outcome, side)) {
+        if (order.user_id === takerId || isLimitOrderExpired(order)) continue;
+
+        const price = Number(order.limit_price);
+        if (limitPrice !== undefined && (side === 'SELL' ? price > limitPrice : price < limitPrice)) continue;
+
+        // A bid can take as many shares as its escrow pays for at its price
+        const shares = side === 'SELL'
+            ? BigInt(order.shares_remaining)
+            : sharesForUsdc(BigInt(order.usdc_remaining), price);
+        if (shares <= 0n) continue;
+
+        book.orders.push({ orderId: order.id, price, shares });
+        book.rows.set(order.id, order);
+    }
+
+    return book;
+}
+
+/**
+ * Settle the book fills of a routed trade with their makers
+ * Asks filled are paid into the seller's session; bids filled get their
+ * shares. Makers pay no fee.
+ */
+async function settleBookFills(tx: MarketTransaction, fills: RouteFill[], orders: Map<string, db.LimitOrderRow>): Promise<void> {
+    for (const fill of fills) {
+        if (fill.venue !== 'BOOK' || !fill.orderId) continue;
+        const row = orders.get(fill.orderId);
+        if (!row) continue;
+        const order = tx.getLimitOrder(row);
+
+        if (order.side === 'SELL') {
+            await fillAsk(tx, order, fill.shares, fill.usdc, 0n);
+        } else {
+            const usdcRemaining = BigInt(order.usdc_remaining) - fill.usdc;
+            tx.updateLimitOrder(order, {
+                usdc_remaining: usdcRemaining.toString(),
+                shares_filled: (BigInt(order.shares_filled) + fill.shares).toString(),
+                status: usdcRemaining > 0n ? 'OPEN' : 'FILLED'
+            });
+            await recordLimitOrderBuy(tx, order, fill.shares, fill.usdc, 0n);
+        }
+    }
+}
+
+/**
+ * Place a limit order on an outcome
+ * - Bids buy at or below limitPrice. The USDC (fee included) is escrowed from
+ *   the user's session; asks at or below the limit fill first, then the pool
+ *   fills whatever it can, and the rest rests on the market.
+ * - Asks sell at or above limitPrice. The shares are escrowed from the user's
+ *   position; bids at or above the limit fill first and the rest rests on the
+ *   book until a buyer takes it.
+ */
+export async function placeLimitOrderDB(
+    marketId: string,
+    userId: string,
+    outcome: OutcomeRef,
+    input: LimitOrderInput
+): Promise<LimitOrderSummary> {
+    validateLimitOrder(input);
+
+    const order = await runMarketTransaction(marketId, 'LIMIT_ORDER', async tx => {
+        const row = tx.market;
+        checkTradingOpen(row);
+
+        const outcomeLabel = resolveOutcomeLabel(row, outcome);
+
+        const engine = marketEngine(row);
+        const pool = db.marketRowToEnginePoolState(row);
+        const outcomeIndex = pool.outcomes.indexOf(outcomeLabel);
+        const feeConfig = db.marketRowToFeeConfig(row);
+
+        // Orders on the other side of the book that cross the limit
+        const crossing = await loadBook(marketId, outcomeLabel, input.side === 'BUY' ? 'SELL' : 'BUY', userId, input.limitPrice);
+
+        // Asks carry the cost basis of their escrowed shares
+        let escrowedCost = 0n;
+        if (input.side === 'BUY') {
+            await tx.debit(userId, input.amount);
+        } else {
+            const held = (await tx.getPosition(userId, outcomeLabel))?.shares ?? 0n;
+            if (held < input.amount) {
+                throw new Error(`Insufficient shares. Held: ${held}, Selling: ${input.amount}`);
+            }
+            escrowedCost = await tx.takeFromPosition(userId, outcomeLabel, input.amount);
+        }
+
+        const order = tx.insertLimitOrder({
+            userId,
+            outcome: outcomeLabel,
+            side: input.side,
+            limitPrice: input.limitPrice,
+            amount: input.amount,
+            costBasis: escrowedCost,
+            timeInForce: input.timeInForce,
+            expiresAt: input.expiresAt
+        });
+
+        // Take the crossing orders at their own prices, this order paying the fee
+        if (crossing.orders.length > 0) {
+            if (input.side === 'BUY') {
+                const net = input.amount - calculateFee(input.amount, feeConfig).total;
+                const routed = routeBuy(engine, pool, outcomeIndex, { mode: 'SPEND', usdcAmount: net }, crossing.orders, false);
+
+                if (routed.shares > 0n) {
+                    const result = applyRoutedBuyFee(routed, splitFee(grossForNet(routed.usdc, feeConfig.feeBps) - routed.usdc, feeConfig));
+                    tx.setPoolState(result.newPoolState);
+                    tx.accrueFees(result.fee);
+                    await settleBookFills(tx, result.fills, crossing.rows);
+
+                    const usdcRemaining = input.amount - result.usdcIn;
+                    tx.updateLimitOrder(order, {
+                        usdc_remaining: usdcRemaining.toString(),
+                        shares_filled: result.totalShares.toString(),
+                        status: usdcRemaining > 0n ? 'OPEN' : 'FILLED'
+                    });
+                    await recordLimitOrderBuy(tx, order, result.totalShares, result.usdcIn, result.fee.total);
+                }
+            } else {
+                const routed = routeSell(engine, pool, outcomeIndex, input.amount, crossing.orders, false);
+
+                if (routed.shares > 0n) {
+                    const result = applyRoutedSellFee(engine, pool, outcomeIndex, routed, feeConfig);
+                    tx.setPoolState(result.newPoolState);
+                    tx.accrueFees(result.fee);
+                    await settleBookFills(tx, result.fills, crossing.rows);
+                    await fillAsk(tx, order, routed.shares, result.usdcOut, result.fee.total);
+                }
+            }
+        }
+
+        return tx.getLimitOrder(order);
+    });
+
+    const verb = input.side === 'BUY' ? 'buys' : 'sells';
+    console.log(`[PoolManager-DB] Limit order ${order.id}: ${userId} ${verb} ${input.amount} ${order.outcome} at ${input.limitPrice} in ${marketId}`);
+
+    await matchAfterTrade(marketId);
+
+    return toLimitOrderSummary((await db.getLimitOrder(order.id)) ?? order);
+}
+
+/**
+ * Cancel an open limit order and refund its unspent escrow
+ */
+export async function cancelLimitOrderDB(orderId: string, userId: string): Promise<LimitOrderSummary> {
+    const order = await db.getLimitOrder(orderId);
+    if (!order) throw new Error(`Limit order ${orderId} not found`);
+    if (order.user_id !== userId) throw new Error(`Limit order ${orderId} does not belong to ${userId}`);
+    if (order.status !== 'OPEN') throw new Error(`Limit order ${orderId} is already ${order.status.toLowerCase()}`);
+
+    const closed = await closeLimitOrder(order, 'CANCELLED');
+    if (!closed) {
+        const current = (await db.getLimitOrder(orderId)) ?? order;
+        throw new Error(`Limit order ${orderId} is already ${current.status.toLowerCase()}`);
+    }
+    return toLimitOrderSummary(closed);
+}
+
+/**
+ * Get a user's limit orders, newest first
+ * GTT orders past their expiry are expired (and refunded) first.
+ */
+export async function getUserLimitOrdersDB(userId: string, status?: LimitOrderStatus): Promise<LimitOrderSummary[]> {
+    const orders = await db.getUserLimitOrders(userId);
+
+    for (let i = 0; i < orders.length; i++) {
+        if (orders[i].status === 'OPEN' && isLimitOrderExpired(orders[i])) {
+            orders[i] = (await closeLimitOrder(orders[i], 'EXPIRED')) ?? orders[i];
+        }
+    }
+
+    return orders
+        .filter(order => !status || order.status === status)
+        .map(toLimitOrderSummary);
+}
+
+/**
+ * Get a market's order book: resting bids and asks of every outcome,
+ * aggregated by price (best first). Expired orders are left out.
+ */
+export async function getOrderBookDB(marketId: string): Promise<{
+    outcome: string;
+    bids: { price: number; shares: string; orders: number }[];
+    asks: { price: number; shares: string; orders: number }[];
+}[] | null> {
+    const row = await db.getMarket(marketId);
+    if (!row) return null;
+
+    const outcomes = marketOutcomeLabels(row);
+    const levels = outcomes.map(() => ({
+        bids: new Map<number, { shares: bigint; orders: number }>(),
+        asks: new Map<number, { shares: bigint; orders: number }>()
+    }));
+
+    for (const order of await db.getOpenLimitOrders(marketId)) {
+        const index = outcomes.indexOf(order.outcome);
+        if (index < 0 || isLimitOrderExpired(order)) continue;
+
+        const price = Number(order.limit_price);
+        const shares = order.side === 'SELL'
+            ? BigInt(order.shares_remaining)
+            : sharesForUsdc(BigInt(order.usdc_remaining), price);
+        if (shares <= 0n) continue;
+
+        const side = order.side === 'SELL' ? levels[index].asks : levels[index].bids;
+        const level = side.get(price) ?? { shares: 0n, orders: 0 };
+        side.set(price, { shares: level.shares + shares, orders: level.orders + 1 });
+    }
+
+    const toLevels = (side: Map<number, { shares: bigint; orders: number }>, descending: boolean) =>
+        [...side.entries()]
+            .sort(([a], [b]) => (descending ? b - a : a - b))
+            .map(([price, level]) => ({ price, shares: level.shares.toString(), orders: level.orders }));
+
+    return outcomes.map((outcome, i) => ({
+        outcome,
+        bids: toLevels(levels[i].bids, true),
+        asks: toLevels(levels[i].asks, false)
+    }));
+}
+
+/**
+ * Fill every open bid on a market whose limit is above the pool's current
+ * price, best limit first. Expired GTT orders are closed and refunded.
+ * Asks never trade with the pool.
+ *
+ * @returns Number of fills
+ */
+export async function matchLimitOrdersDB(marketId: string): Promise<number> {
+    let fills = 0;
+
+    for (let pass = 0; pass < MAX_MATCH_PASSES; pass++) {
+        const row = await db.getMarket(marketId);
+        if (!row || tradingPhase(row) !== 'OPEN') return fills;
+
+        let filledThisPass = false;
+
+        for (const order of await db.getOpenLimitOrders(marketId, 'BUY')) {
+            if (isLimitOrderExpired(order)) {
+                await closeLimitOrder(order, 'EXPIRED');
+                continue;
+            }
+
+            if (await fillBidFromPool(marketId, order.id)) {
+                fills++;
+                filledThisPass = true;
+            }
+        }
+
+        if (!filledThisPass) break;
+    }
+
+    return fills;
+}
+
+/**
+ * Fill a bid against the pool's latest state if its limit is above the
+ * pool's price: pool state, fees, the order, the user's position and the
+ * trade record are written together
+ *
+ * @returns Whether the bid filled
+ */
+async function fillBidFromPool(marketId: string, orderId: string): Promise<boolean> {
+    return runMarketTransaction(marketId, 'ORDER_FILL', async tx => {
+        const row = tx.market;
+        const order = await db.getLimitOrder(orderId);
+        if (tradingPhase(row) !== 'OPEN' || !order || order.status !== 'OPEN' || isLimitOrderExpired(order)) return false;
+
+        const pool = db.marketRowToEnginePoolState(row);
+        const result: FeeBetResult | null = fillLimitOrder(
+            marketEngine(row),
+            pool,
+            pool.outcomes.indexOf(order.outcome),
+            Number(order.limit_price),
+            BigInt(order.usdc_remaining),
+            db.marketRowToFeeConfig(row)
+        );
+        if (!result) return false;
+
+        tx.setPoolState(result.newPoolState);
+        tx.accrueFees(result.fee);
+
+        const usdcRemaining = BigInt(order.usdc_remaining) - result.usdcIn;
+        tx.updateLimitOrder(order, {
+            usdc_remaining: usdcRemaining.toString(),
+            shares_filled: (BigInt(order.shares_filled) + result.totalShares).toString(),
+            status: usdcRemaining > 0n ? 'OPEN' : 'FILLED'
+        });
+
+        await recordLimitOrderBuy(tx, order, result.totalShares, result.usdcIn, result.fee.total);
+        return true;
+    });
+}
+
+/**
+ * Credit the shares a bid bought to its owner's position, at a cost basis
+ * of the USDC spent, and record the trade
+ */
+async function recordLimitOrderBuy(
+    tx: MarketTransaction,
+    order: db.LimitOrderRow,
+    shares: bigint,
+    usdcIn: bigint,
+    fee: bigint
+): Promise<void> {
+    await tx.addToPosition(order.user_id, order.outcome, shares, usdcIn);
+
+    console.log(`[PoolManager-DB] Limit order ${order.id} filled: bought ${shares} ${order.outcome} shares for ${usdcIn} in ${tx.marketId}`);
+
+    await tx.recordTrade({
+        sessionId: order.user_id,
+        tradeType: 'BUY',
+        outcome: order.outcome,
+        shares,
+        price: Number(usdcIn) / Number(shares),
+        costBasis: usdcIn,
+        realizedPnl: 0n,
+        fee
+    });
+}
+
+/**
+ * Sell shares out of an ask's escrow: update the order, pay its owner and
+ * record the trade
+ * Realized PnL = USDC received - cost basis of the escrowed shares sold
+ */
+async function fillAsk(
+    tx: MarketTransaction,
+    order: db.LimitOrderRow,
+    shares: bigint,
+    usdcOut: bigint,
+    fee: bigint
+): Promise<void> {
+    const current = tx.getLimitOrder(order);
+    const escrow = { shares: BigInt(current.shares_remaining), costBasis: BigInt(current.cost_basis_remaining) };
+    const { remaining, releasedCost: costBasisForSold } = releaseShares(escrow, shares);
+
+    tx.updateLimitOrder(current, {
+        shares_remaining: remaining.shares.toString(),
+        cost_basis_remaining: remaining.costBasis.toString(),
+        usdc_filled: (BigInt(current.usdc_filled) + usdcOut).toString(),
+        status: remaining.shares > 0n ? 'OPEN' : 'FILLED'
+    });
+    await tx.credit(order.user_id, usdcOut);
+
+    console.log(`[PoolManager-DB] Limit order ${order.id} filled: sold ${shares} ${order.outcome} shares for ${usdcOut} in ${tx.marketId}`);
+
+    await tx.recordTrade({
+        sessionId: order.user_id,
+        tradeType: 'SELL',
+        outcome: order.outcome,
+        shares,
+        price: Number(usdcOut) / Number(shares),
+        costBasis: usdcOut,
+        realizedPnl: usdcOut - costBasisForSold,
+        fee
+    });
+}
+
+/**
+ * Match resting bids against the pool after a trade moved it; a matching
+ * failure never fails the trade that triggered it
+ */
+async function matchAfterTrade(marketId: string): Promise<void> {
+    try {
+        await matchLimitOrdersDB(marketId);
+    } catch (matchErr) {
+        console.error(`[PoolManager-DB] Limit order matching failed for market ${marketId}:`, matchErr);
+    }
+}
+
+/** Where a resolution stands: final (RESOLVED) or open to disputes (PROPOSED) */
+export interface ResolutionResult {
+    marketId: string;
+    status: 'PROPOSED' | 'RESOLVED';
+    resolutionValue: string;
+    /** When the proposal can no longer be disputed (PROPOSED only) */
+    disputeEndsAt: string | null;
+}
+
+/**
+ * Resolve a market and auto-settle all positions for all users.
+ * Binary / categorical: winning shares = $1 each, every other outcome = $0.
+ * Scalar: LONG pays (value - low) / (high - low) per share, SHORT the rest.
+ * PnL is calculated and session balances are updated for every holder.
+ *
+ * A market with a dispute window is only proposed to resolve this way:
+ * trading halts, and nothing is paid out until the resolution is final
+ * (see finalizeResolutionDB and decideDisputeDB).
+ *
+ * @param winner Winning outcome (index or label), or the observed value for scalar markets
+ */
+export async function resolveMarketDB(
+    marketId: string,
+    winner: OutcomeRef,
+    resolvedBy?: string
+): Promise<ResolutionResult> {
     const row = await db.getMarket(marketId);
     if (!row) throw new Error('Market not found');
     if (row.status !== 'ACTIVE') throw new Error('Market is not active');
 
+    const resolutionValue = resolutionValueOf(row, winner);
+
+    if ((row.dispute_window_seconds ?? 0) > 0) {
+        // 1. Propose the resolution, halting trading until it is final
+        const deadline = disputeDeadline(new Date(), row.dispute_window_seconds);
+        const proposed = await db.proposeResolution(marketId, resolutionValue, resolvedBy, deadline);
+        console.log(`[PoolManager-DB] Proposed resolution: ${marketId} - ${resolutionValue} (disputable until ${proposed.dispute_ends_at})`);
+
+        // 2. Refund the escrow of every limit order still open
+        await closeOpenLimitOrders(marketId);
+
+        return { marketId, status: 'PROPOSED', resolutionValue, disputeEndsAt: proposed.dispute_ends_at };
+    }
+
     // 1. Update market status to RESOLVED
-    await db.resolveMarket(marketId, winner, resolvedBy);
-    console.log(`[PoolManager-DB] Resolved market: ${marketId} - Winner: ${winner}`);
+    await db.resolveMarket(marketId, resolutionValue, resolvedBy);
+    console.log(`[PoolManager-DB] Resolved market: ${marketId} - Winner: ${resolutionValue}`);
+
+    await settleResolvedMarket(row, resolutionValue);
+    return { marketId, status: 'RESOLVED', resolutionValue, disputeEndsAt: null };
+}
+
+/**
+ * Resolution value of a winner: its outcome label, or the observed value
+ * for scalar markets
+ */
+function resolutionValueOf(row: db.MarketRow, winner: OutcomeRef): string {
+    return db.isScalarMarketRow(row)
+        ? String(parseScalarValue(winner))
+        : resolveOutcomeLabel(row, winner);
+}
+
+/**
+ * Refund the escrow of every limit order still open on a market that
+ * stopped trading
+ */
+async function closeOpenLimitOrders(marketId: string): Promise<void> {
+    try {
+        for (const order of await db.getOpenLimitOrders(marketId)) {
+            await closeLimitOrder(order, 'CANCELLED');
+        }
+    } catch (orderErr) {
+        console.error(`[PoolManager-DB] Limit order refunds failed for market ${marketId}:`, orderErr);
+    }
+}
+
+/**
+ * Pay out a market whose resolution is final: every position, every LP and
+ * the creator's share of the fees
+ */
+async function settleResolvedMarket(row: db.MarketRow, resolutionValue: string): Promise<void> {
+    const marketId = row.market_id;
+    const payouts = resolutionPayouts(row, resolutionValue);
 
-    // 2. Auto-settle all positions for all users
-    const losingOutcome = winner === Outcome.YES ? Outcome.NO : Outcome.YES;
+    // 2. Refund the escrow of every limit order still open
+    await closeOpenLimitOrders(marketId);
 
+    // 3. Auto-settle all positions for all users
     try {
         const allPositions = await db.getMarketPositions(marketId);
         console.log(`[PoolManager-DB] Auto-settling ${allPositions.length} positions for market ${marketId}`);
 
-        // Group positions by user_id (sessionId)
-        const userPositions = new Map<string, { win: typeof allPositions[0] | null; lose: typeof allPositions[0] | null }>();
+        // Group open positions by user_id (sessionId)
+        const userPositions = new Map<string, db.PositionRow[]>();
         for (const pos of allPositions) {
-            const shares = BigInt(pos.shares);
-            if (shares <= 0n) continue;
+            if (BigInt(pos.shares) <= 0n) continue;
 
-            const userId = pos.user_id;
-            if (!userPositions.has(userId)) {
-                userPositions.set(userId, { win: null, lose: null });
-            }
-            const entry = userPositions.get(userId)!;
-            const outcomeEnum = pos.outcome === 'YES' ? Outcome.YES : Outcome.NO;
-            if (outcomeEnum === winner) {
-                entry.win = pos;
-            } else {
-                entry.lose = pos;
-            }
+            const entry = userPositions.get(pos.user_id) ?? [];
+            entry.push(pos);
+            userPositions.set(pos.user_id, entry);
         }
 
         // Settle each user
         for (const [userId, positions] of userPositions) {
-            const winShares = positions.win ? BigInt(positions.win.shares) : 0n;
-            const loseShares = positions.lose ? BigInt(positions.lose.shares) : 0n;
-
-            // Payout = winning shares * $1 each
-            const payout = winShares;
-
-            // PnL calculation
-            const winCostBasis = positions.win
-                ? BigInt(Math.round(Number(winShares) * positions.win.average_entry_price))
-                : 0n;
-            const loseCostBasis = positions.lose
-                ? BigInt(Math.round(Number(loseShares) * positions.lose.average_entry_price))
-                : 0n;
-            const realizedPnl = payout - winCostBasis - loseCostBasis;
-
-            // Zero out both positions
-            if (positions.win && winShares > 0n) {
-                await db.upsertPosition(userId, marketId, winner, 0n, positions.win.average_entry_price);
-            }
-            if (positions.lose && loseShares > 0n) {
-                await db.upsertPosition(userId, marketId, losingOutcome, 0n, positions.lose.average_entry_price);
+            const { payout, settledShares, realizedPnl } = settlePositions(positions, payouts);
+
+            // Zero out every outcome position
+            for (const pos of positions) {
+                await db.upsertPosition(userId, marketId, pos.outcome, 0n, 0n);
             }
 
             // Credit payout to session balance
             if (payout > 0n) {
                 try {
-                    const session = await db.getSession(userId);
-                    if (session) {
-                        const currentBalance = BigInt(session.current_balance);
-                        const newBalance = currentBalance + payout;
-                        const newNonce = session.nonce + 1;
-                        await db.updateSessionBalance(session.session_id, newBalance, session.latest_signature, newNonce);
-                    }
+                    await creditSession(userId, payout, 'PAYOUT', marketAccount(marketId), marketId);
                 } catch (balErr) {
                     console.warn(`[PoolManager-DB] Failed to credit payout for ${userId}: ${balErr}`);
                 }
@@ -531,9 +1797,9 @@ export async function resolveMarketDB(
                     userAddress: userAddress || userId,
                     marketId,
                     tradeType: 'CLAIM',
-                    outcome: winner,
-                    shares: winShares + loseShares,
-                    price: winShares > 0n ? 1.0 : 0,
+                    outcome: resolutionValue,
+                    shares: settledShares,
+                    price: claimPrice(row, payout, settledShares),
                     costBasis: payout,
                     realizedPnl,
                     marketTitle: row.title
@@ -547,50 +1813,555 @@ export async function resolveMarketDB(
     } catch (settleErr) {
         console.error(`[PoolManager-DB] Auto-settlement failed for market ${marketId}:`, settleErr);
     }
+
+    // 4. Pay liquidity providers their share of what the pool is left holding
+    try {
+        await settleLiquidityProviders(row, payouts);
+    } catch (settleErr) {
+        console.error(`[PoolManager-DB] LP settlement failed for market ${marketId}:`, settleErr);
+    }
+
+    // 5. Pay the creator their share of the trade fees
+    await payCreatorFees(row);
 }
 
 /**
- * Get markets pending resolution
+ * Pay the creator of a settled market the trade fees it accrued for them
  */
-export async function getMarketsToResolveDB(): Promise<MarketWithMetadata[]> {
-    const rows = await db.getMarketsToResolve();
+async function payCreatorFees(row: db.MarketRow): Promise<void> {
+    const marketId = row.market_id;
+    const creatorFees = BigInt(row.creator_fees_accrued ?? '0');
+    if (!row.creator_id || creatorFees <= 0n) return;
+
+    try {
+        await creditSession(row.creator_id, creatorFees, 'CREATOR_PAYOUT', creatorFeesAccount(marketId), marketId);
+        console.log(`[PoolManager-DB] Paid ${creatorFees} creator fees to ${row.creator_id} for market ${marketId}`);
+    } catch (feeErr) {
+        console.warn(`[PoolManager-DB] Failed to pay creator fees for market ${marketId}: ${feeErr}`);
+    }
+}
+
+/**
+ * Pay every LP of a resolved market their pro-rata share of the pool's
+ * reserves, valued at the resolution payouts. Seed LP shares without an
+ * owner (markets created before LP accounting) stay with the protocol.
+ */
+async function settleLiquidityProviders(row: db.MarketRow, payouts: Record<string, bigint>): Promise<void> {
+    const marketId = row.market_id;
+    const poolValue = liquidityPoolValue(db.marketRowToEnginePoolState(row), payouts);
+    const totalLpShares = BigInt(row.lp_total_shares);
+
+    const providers = (await db.getMarketLiquidityPositions(marketId))
+        .filter(pos => BigInt(pos.lp_shares) > 0n);
+    console.log(`[PoolManager-DB] Settling ${providers.length} LP positions for market ${marketId} (pool value ${poolValue})`);
+
+    for (const pos of providers) {
+        const lpShares = BigInt(pos.lp_shares);
+        const payout = liquidityPayout(poolValue, totalLpShares, lpShares);
+        const realizedPnl = payout - BigInt(pos.cost_basis);
+
+        await db.upsertLiquidityPosition(pos.user_id, marketId, 0n, 0n);
+
+        if (payout > 0n) {
+            try {
+                await creditSession(pos.user_id, payout, 'LP_PAYOUT', marketAccount(marketId), marketId);
+            } catch (balErr) {
+                console.warn(`[PoolManager-DB] Failed to credit LP payout for ${pos.user_id}: ${balErr}`);
+            }
+        }
+
+        await recordLiquidityTrade(pos.user_id, row, 'CLAIM', lpShares, payout, realizedPnl);
+
+        console.log(`[PoolManager-DB] Settled LP ${pos.user_id}: payout=${payout}, PnL=${realizedPnl}`);
+    }
+}
+
+/**
+ * Payout per share of every outcome in a resolved market, in
+ * PAYOUT_PRECISION units (PAYOUT_PRECISION = $1 per share)
+ */
+function resolutionPayouts(row: db.MarketRow, resolutionValue: string): Record<string, bigint> {
+    const range = marketScalarRange(row);
+    if (range) {
+        return scalarOutcomePayouts(parseScalarValue(resolutionValue), range);
+    }
+
+    const payouts: Record<string, bigint> = {};
+    for (const label of marketOutcomeLabels(row)) {
+        payouts[label] = label === resolutionValue ? PAYOUT_PRECISION : 0n;
+    }
+    return payouts;
+}
+
+/**
+ * Average price per share recorded on a CLAIM trade
+ */
+function claimPrice(row: db.MarketRow, payout: bigint, settledShares: bigint): number {
+    if (db.isScalarMarketRow(row)) {
+        return settledShares > 0n ? Number(payout) / Number(settledShares) : 0;
+    }
+    return payout > 0n ? 1.0 : 0;
+}
+
+/**
+ * Payout and realized PnL for one user's positions in a resolved market
+ * Payout = shares * per-share payout of their outcome (rounded down).
+ * PnL = payout - cost basis of every position.
+ */
+function settlePositions(
+    positions: db.PositionRow[],
+    payouts: Record<string, bigint>
+): { payout: bigint; settledShares: bigint; realizedPnl: bigint } {
+    let payout = 0n;
+    let settledShares = 0n;
+    let costBasis = 0n;
+
+    for (const pos of positions) {
+        const shares = BigInt(pos.shares);
+        payout += (shares * (payouts[pos.outcome] ?? 0n)) / PAYOUT_PRECISION;
+        settledShares += shares;
+        costBasis += BigInt(pos.cost_basis);
+    }
+
+    return { payout, settledShares, realizedPnl: payout - costBasis };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DISPUTES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** A dispute posted against a proposed resolution (bond in base units) */
+export interface ResolutionDispute {
+    marketId: string;
+    proposedValue: string;
+    disputedBy: string;
+    bond: string;
+}
+
+/** A disputed resolution decided by an admin */
+export interface DisputeDecision extends ResolutionResult {
+    proposedValue: string;
+    disputedBy: string;
+    bond: string;
+    bondOutcome: BondOutcome;
+}
+
+/**
+ * Dispute a market's proposed resolution while its window is open. The
+ * market's bond moves from the disputer's session into the market's
+ * DISPUTE_BONDS account, and the outcome is left to an admin decision.
+ */
+export async function disputeResolutionDB(
+    marketId: string,
+    userId: string,
+    reason?: string
+): Promise<ResolutionDispute> {
+    const row = await db.getMarket(marketId);
+    if (!row) throw new Error('Market not found');
+    if (row.status !== 'PROPOSED' || !row.proposed_value) throw new Error('Market has no proposed resolution to dispute');
+    if (!isDisputeWindowOpen(row.dispute_ends_at)) throw new Error('Dispute window has closed');
+
+    const session = await db.getSession(userId);
+    if (!session) throw new Error(`Session ${userId} not found`);
+
+    // 1. Post the bond (the ledger refuses it if the balance falls short)
+    const bond = BigInt(row.dispute_bond ?? '0');
+    if (bond > 0n) {
+        await db.postLedgerEntry(transferEntry(
+            'DISPUTE_BOND', sessionAccount(userId), disputeBondsAccount(marketId), bond, { marketId }
+        ));
+    }
+
+    // 2. Escalate the market, returning the bond if the window closed (or another dispute won) meanwhile
+    try {
+        await db.disputeResolution(marketId, userId, reason);
+    } catch (disputeErr) {
+        if (bond > 0n) {
+            await db.postLedgerEntry(transferEntry(
+                'BOND_RETURN', disputeBondsAccount(marketId), sessionAccount(userId), bond, { marketId }
+            ));
+        }
+        throw disputeErr;
+    }
+    console.log(`[PoolManager-DB] Disputed resolution of ${marketId} (${row.proposed_value}) by ${userId}, bond ${bond}`);
+
+    return { marketId, proposedValue: row.proposed_value, disputedBy: userId, bond: bond.toString() };
+}
+
+/**
+ * Make an undisputed proposal final once its dispute window has closed,
+ * and pay the market out. Anyone may finalize.
+ */
+export async function finalizeResolutionDB(marketId: string): Promise<ResolutionResult> {
+    const existing = await db.getMarket(marketId);
+    if (!existing) throw new Error('Market not found');
+    if (existing.status !== 'PROPOSED' || !existing.proposed_value) throw new Error('Market has no proposed resolution to finalize');
+    if (isDisputeWindowOpen(existing.dispute_ends_at)) {
+        throw new Error(`Dispute window is open until ${existing.dispute_ends_at}`);
+    }
+
+    const resolutionValue = existing.proposed_value;
+    const row = await db.finalizeResolution(marketId, 'PROPOSED', resolutionValue, existing.proposed_by ?? 'system');
+    console.log(`[PoolManager-DB] Finalized resolution: ${marketId} - Winner: ${resolutionValue}`);
+
+    await settleResolvedMarket(row, resolutionValue);
+    return { marketId, status: 'RESOLVED', resolutionValue, disputeEndsAt: null };
+}
+
+/**
+ * Decide a disputed resolution and pay the market out. The disputer's bond
+ * is returned if the decision overturns the proposal, and slashed to the
+ * treasury if it upholds it.
+ *
+ * @param winner Winning outcome (index or label), or the observed value for scalar markets
+ */
+export async function decideDisputeDB(
+    marketId: string,
+    winner: OutcomeRef,
+    decidedBy: string = 'admin'
+): Promise<DisputeDecision> {
+    const existing = await db.getMarket(marketId);
+    if (!existing) throw new Error('Market not found');
+    if (existing.status !== 'DISPUTED' || !existing.proposed_value || !existing.disputed_by) {
+        throw new Error('Market has no disputed resolution to decide');
+    }
+
+    const resolutionValue = resolutionValueOf(existing, winner);
+    const row = await db.finalizeResolution(marketId, 'DISPUTED', resolutionValue, decidedBy);
+    console.log(`[PoolManager-DB] Decided dispute of ${marketId}: ${existing.proposed_value} -> ${resolutionValue}`);
+
+    // Return or slash the bond
+    const disputedBy = existing.disputed_by;
+    const bond = BigInt(existing.dispute_bond ?? '0');
+    const outcome = bondOutcome(existing.proposed_value, resolutionValue);
+    if (bond > 0n) {
+        try {
+            if (outcome === 'RETURNED') {
+                await creditSession(disputedBy, bond, 'BOND_RETURN', disputeBondsAccount(marketId), marketId);
+            } else {
+                await db.postLedgerEntry(transferEntry('BOND_SLASH', disputeBondsAccount(marketId), TREASURY_ACCOUNT, bond, { marketId }));
+            }
+        } catch (bondErr) {
+            console.warn(`[PoolManager-DB] Failed to settle the dispute bond of ${disputedBy}: ${bondErr}`);
+        }
+    }
+
+    await settleResolvedMarket(row, resolutionValue);
+
+    return {
+        marketId,
+        status: 'RESOLVED',
+        resolutionValue,
+        disputeEndsAt: null,
+        proposedValue: existing.proposed_value,
+        disputedBy,
+        bond: bond.toString(),
+        bondOutcome: outcome
+    };
+}
+
+/**
+ * Proposed and disputed resolutions not yet final, newest first
+ */
+export async function getProposedResolutionsDB(): Promise<MarketWithMetadata[]> {
+    const rows = await db.getAllMarkets();
+    return rows
+        .filter(row => row.status === 'PROPOSED' || row.status === 'DISPUTED')
+        .map(toMarketWithMetadata);
+}
+
+/**
+ * Finalize every undisputed proposal whose dispute window has closed
+ * @returns Number of markets finalized
+ */
+export async function finalizeDueResolutionsDB(): Promise<number> {
+    const due = (await db.getAllMarkets())
+        .filter(row => row.status === 'PROPOSED' && !isDisputeWindowOpen(row.dispute_ends_at));
+
+    let finalized = 0;
+    for (const row of due) {
+        try {
+            await finalizeResolutionDB(row.market_id);
+            finalized++;
+        } catch (finalizeErr) {
+            console.error(`[PoolManager-DB] Finalizing ${row.market_id} failed:`, finalizeErr);
+        }
+    }
+    return finalized;
+}
+
+/**
+ * Finalize due resolutions every `intervalMs` (a pass still in progress is
+ * never overlapped)
+ * @returns Stops the job
+ */
+export function startFinalizationJob(intervalMs: number = DEFAULT_FINALIZATION_INTERVAL_MS): () => void {
+    let running = false;
+
+    const timer = setInterval(async () => {
+        if (running) return;
+        running = true;
+        try {
+            await finalizeDueResolutionsDB();
+        } catch (err) {
+            console.error('[PoolManager-DB] Finalization pass failed:', err);
+        } finally {
+            running = false;
+        }
+    }, intervalMs);
+
+    return () => clearInterval(timer);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CANCELLATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** One holding refunded by a cancellation (amounts in base units) */
+export interface CancellationRefund {
+    userId: string;
+    /** Outcome of the position refunded, or 'LP' for LP shares */
+    outcome: string;
+    shares: string;
+    refund: string;
+    realizedPnl: string;
+}
+
+export interface MarketCancellation {
+    marketId: string;
+    refundMode: RefundMode;
+    /** USDC refunded to holders, creator fees excluded (base units) */
+    totalRefunded: string;
+    refunds: CancellationRefund[];
+}
+
+/** A holding to refund: a position, or LP shares when `lp` is set */
+type PlannedRefund = { userId: string; outcome: string; lp: boolean; shares: bigint; costBasis: bigint; refund: bigint };
+
+/**
+ * Cancel a market (e.g. its event was postponed) and refund every holder
+ * by the market's refund mode, or `options.refundMode` when given. Trading
+ * halts, open orders return their escrow, every position and LP position is
+ * closed with a REFUND trade and its refund is credited to the holder's
+ * session. The creator is still paid the trade fees accrued for them.
+ */
+export async function cancelMarketDB(
+    marketId: string,
+    options: { refundMode?: RefundMode; cancelledBy?: string } = {}
+): Promise<MarketCancellation> {
+    const existing = await db.getMarket(marketId);
+    if (!existing) throw new Error('Market not found');
+    if (existing.status !== 'ACTIVE') throw new Error('Market is not active');
+
+    const refundMode = options.refundMode ?? existing.refund_mode ?? DEFAULT_REFUND_MODE;
+
+    // 1. Halt trading: the version bump fails every trade still in flight
+    const row = await db.cancelMarket(marketId, refundMode, options.cancelledBy);
+    console.log(`[PoolManager-DB] Cancelled market: ${marketId} - refunding by ${refundMode}`);
 
-    return rows.map(row => {
-        const yesReserves = BigInt(row.yes_reserves);
-        const noReserves = BigInt(row.no_reserves);
-        const totalReserves = yesReserves + noReserves;
-        const yesPrice = totalReserves > 0n ? Number(noReserves) / Number(totalReserves) : 0.5;
-        const noPrice = 1 - yesPrice;
+    // 2. Refund the escrow of every limit order still open (asks return their shares to positions)
+    await closeOpenLimitOrders(marketId);
+
+    // 3. Refund every position and LP position
+    const refunds: CancellationRefund[] = [];
+    let totalRefunded = 0n;
+    try {
+        const plan = refundMode === 'FAIR_PRICE'
+            ? await planFairPriceRefunds(row)
+            : await planCostBasisRefunds(row);
+        console.log(`[PoolManager-DB] Refunding ${plan.length} holdings for market ${marketId}`);
+
+        for (const planned of plan) {
+            const realizedPnl = await refundHolding(row, planned);
+            refunds.push({
+                userId: planned.userId,
+                outcome: planned.outcome,
+                shares: planned.shares.toString(),
+                refund: planned.refund.toString(),
+                realizedPnl: realizedPnl.toString()
+            });
+            totalRefunded += planned.refund;
+        }
+    } catch (refundErr) {
+        console.error(`[PoolManager-DB] Refunds failed for market ${marketId}:`, refundErr);
+    }
+
+    // 4. Pay the creator their share of the trade fees
+    await payCreatorFees(row);
+
+    return { marketId, refundMode, totalRefunded: totalRefunded.toString(), refunds };
+}
+
+/**
+ * Positions and LP positions of a market that still hold something
+ */
+async function refundableHoldings(marketId: string): Promise<{
+    positions: db.PositionRow[];
+    providers: db.LiquidityPositionRow[];
+}> {
+    const positions = (await db.getMarketPositions(marketId)).filter(pos => BigInt(pos.shares) > 0n);
+    const providers = (await db.getMarketLiquidityPositions(marketId)).filter(pos => BigInt(pos.lp_shares) > 0n);
+    return { positions, providers };
+}
+
+/**
+ * COST_BASIS: refund what every holding cost out of the USDC the market
+ * holds (pro rata if it falls short); any surplus goes to the LPs
+ */
+async function planCostBasisRefunds(row: db.MarketRow): Promise<PlannedRefund[]> {
+    const { positions, providers } = await refundableHoldings(row.market_id);
+    const available = buildStatement(await db.getAccountLedger('MARKET', row.market_id)).balance;
+
+    const plan: PlannedRefund[] = [
+        ...positions.map(pos => ({
+            userId: pos.user_id, outcome: pos.outcome, lp: false, shares: BigInt(pos.shares), costBasis: BigInt(pos.cost_basis), refund: 0n
+        })),
+        ...providers.map(pos => ({
+            userId: pos.user_id, outcome: LP_TRADE_OUTCOME, lp: true, shares: BigInt(pos.lp_shares), costBasis: BigInt(pos.cost_basis), refund: 0n
+        }))
+    ];
+
+    const { refunds, surplus } = costBasisRefunds(plan.map(planned => planned.costBasis), available);
+    const totalLpShares = BigInt(row.lp_total_shares);
+    plan.forEach((planned, i) => {
+        planned.refund = refunds[i] + (planned.lp ? liquidityPayout(surplus, totalLpShares, planned.shares) : 0n);
+    });
+    return plan;
+}
+
+/**
+ * FAIR_PRICE: pay every share at the market's last price, and every LP
+ * their share of the pool's reserves at the same prices
+ */
+async function planFairPriceRefunds(row: db.MarketRow): Promise<PlannedRefund[]> {
+    const { positions, providers } = await refundableHoldings(row.market_id);
+    const pool = db.marketRowToEnginePoolState(row);
+    const payouts = fairPricePayouts(pool.outcomes, poolPrices(marketEngine(row), pool).outcomePrices);
+    const poolValue = liquidityPoolValue(pool, payouts);
+    const totalLpShares = BigInt(row.lp_total_shares);
+
+    return [
+        ...positions.map(pos => {
+            const shares = BigInt(pos.shares);
+            return {
+                userId: pos.user_id, outcome: pos.outcome, lp: false, shares, costBasis: BigInt(pos.cost_basis),
+                refund: (shares * (payouts[pos.outcome] ?? 0n)) / PAYOUT_PRECISION
+            };
+        }),
+        ...providers.map(pos => {
+            const lpShares = BigInt(pos.lp_shares);
+            return {
+                userId: pos.user_id, outcome: LP_TRADE_OUTCOME, lp: true, shares: lpShares, costBasis: BigInt(pos.cost_basis),
+                refund: liquidityPayout(poolValue, totalLpShares, lpShares)
+            };
+        })
+    ];
+}
+
+/**
+ * Close one holding of a cancelled market, credit its refund and record
+ * the REFUND trade
+ * @returns Realized PnL of the holding
+ */
+async function refundHolding(row: db.MarketRow, planned: PlannedRefund): Promise<bigint> {
+    const marketId = row.market_id;
+    const realizedPnl = planned.refund - planned.costBasis;
+
+    if (planned.lp) {
+        await db.upsertLiquidityPosition(planned.userId, marketId, 0n, 0n);
+    } else {
+        await db.upsertPosition(planned.userId, marketId, planned.outcome, 0n, 0n);
+    }
+
+    if (planned.refund > 0n) {
+        try {
+            await creditSession(planned.userId, planned.refund, 'REFUND', marketAccount(marketId), marketId);
+        } catch (balErr) {
+            console.warn(`[PoolManager-DB] Failed to credit refund for ${planned.userId}: ${balErr}`);
+        }
+    }
+
+    if (planned.lp) {
+        await recordLiquidityTrade(planned.userId, row, 'REFUND', planned.shares, planned.refund, realizedPnl);
+    } else {
+        try {
+            const userAddress = await db.getSessionUserAddress(planned.userId);
+            await db.insertTrade({
+                sessionId: planned.userId,
+                userAddress: userAddress || planned.userId,
+                marketId,
+                tradeType: 'REFUND',
+                outcome: planned.outcome,
+                shares: planned.shares,
+                price: Number(planned.refund) / Number(planned.shares),
+                costBasis: planned.refund,
+                realizedPnl,
+                marketTitle: row.title
+            });
+        } catch (tradeErr) {
+            console.warn(`[PoolManager-DB] Failed to record refund trade for ${planned.userId}: ${tradeErr}`);
+        }
+    }
+
+    console.log(`[PoolManager-DB] Refunded ${planned.userId} ${planned.outcome}: refund=${planned.refund}, PnL=${realizedPnl}`);
+    return realizedPnl;
+}
+
+/**
+ * Trade fees accrued by every market, with totals per recipient
+ * (USDC base units)
+ */
+export async function getFeeAccrualsDB(): Promise<{
+    markets: {
+        marketId: string;
+        title: string;
+        status: MarketWithMetadata['status'];
+        feeBps: number;
+        creatorId: string | null;
+        accrued: { lp: string; creator: string; protocol: string };
+    }[];
+    totals: { lp: string; creator: string; protocol: string };
+}> {
+    const rows = await db.getAllMarkets();
+    const totals = { lp: 0n, creator: 0n, protocol: 0n };
+
+    const markets = rows.map(row => {
+        const lp = BigInt(row.lp_fees_accrued ?? '0');
+        const creator = BigInt(row.creator_fees_accrued ?? '0');
+        const protocol = BigInt(row.protocol_fees_accrued ?? '0');
+        totals.lp += lp;
+        totals.creator += creator;
+        totals.protocol += protocol;
 
         return {
             marketId: row.market_id,
             title: row.title,
-            description: row.description,
-            category: row.category || 'general',
-            expiresAt: row.expires_at,
             status: row.status,
-            resolutionValue: row.resolution_value,
-            resolutionType: row.resolution_type,
-            oracleConfig: row.oracle_config as Record<string, unknown>,
-            resolverAddress: row.resolver_address,
-            yesReserves: row.yes_reserves,
-            noReserves: row.no_reserves,
-            kInvariant: row.k_invariant,
-            createdAt: row.created_at,
-            prices: {
-                yesPrice,
-                noPrice,
-                yesProbability: Math.round(yesPrice * 100),
-                noProbability: Math.round(noPrice * 100)
-            }
+            feeBps: row.fee_bps ?? 0,
+            creatorId: row.creator_id,
+            accrued: { lp: lp.toString(), creator: creator.toString(), protocol: protocol.toString() }
         };
     });
+
+    return {
+        markets,
+        totals: { lp: totals.lp.toString(), creator: totals.creator.toString(), protocol: totals.protocol.toString() }
+    };
+}
+
+/**
+ * Get markets pending resolution
+ */
+export async function getMarketsToResolveDB(): Promise<MarketWithMetadata[]> {
+    const rows = await db.getMarketsToResolve();
+    return rows.map(toMarketWithMetadata);
 }
 
 /**
  * Claim winnings from a resolved market
- * Winning shares = $1 each (1 USDC per share)
- * PnL = payout - cost basis (shares * average_entry_price)
+ * Winning shares = $1 each (1 USDC per share); scalar markets pay LONG and
+ * SHORT holders their share of the range
+ * PnL = payout - cost basis of the positions claimed
  */
 export async function claimWinningsDB(
     marketId: string,
@@ -602,60 +2373,29 @@ export async function claimWinningsDB(
     if (row.status !== 'RESOLVED') throw new Error('Market not resolved');
     if (!row.resolution_value) throw new Error('Market resolution value missing');
 
-    const winningOutcome = row.resolution_value === 'YES' ? Outcome.YES : Outcome.NO;
-    const losingOutcome = row.resolution_value === 'YES' ? Outcome.NO : Outcome.YES;
+    const winningOutcome = row.resolution_value;
+    const payouts = resolutionPayouts(row, winningOutcome);
 
-    // 2. Get user position for winning outcome
-    const winningPosition = await db.getPosition(userId, marketId, winningOutcome);
-    const losingPosition = await db.getPosition(userId, marketId, losingOutcome);
+    // 2. Get every outcome position the user holds in this market
+    const positions = (await db.getUserMarketPositions(userId, marketId))
+        .filter(pos => BigInt(pos.shares) > 0n);
 
-    const winShares = winningPosition ? BigInt(winningPosition.shares) : 0n;
-    const loseShares = losingPosition ? BigInt(losingPosition.shares) : 0n;
+    if (positions.length === 0) throw new Error('No positions to claim');
 
-    if (winShares <= 0n && loseShares <= 0n) throw new Error('No positions to claim');
+    // 3-4. Payout = shares * per-share payout of each leg; PnL against the cost basis of all legs
+    const { payout, settledShares, realizedPnl } = settlePositions(positions, payouts);
 
-    // 3. Payout = winning shares * $1 each; losing shares = $0
-    const payout = winShares; // 1 USDC per winning share
+    // 5. Credit the session (looked up from the userId, which may be the
+    // sessionId), or pay out externally when the user has none
+    const session = (await db.getSessionByUser(userId)) ?? (await db.getSession(userId));
+    const creditTo: LedgerAccount = session ? sessionAccount(session.session_id) : EXTERNAL_ACCOUNT;
 
-    // 4. Calculate realized PnL
-    // For winning side: PnL = payout - cost basis
-    const winCostBasis = winningPosition
-        ? BigInt(Math.round(Number(winShares) * winningPosition.average_entry_price))
-        : 0n;
-    // For losing side: PnL = 0 - cost basis (total loss)
-    const loseCostBasis = losingPosition
-        ? BigInt(Math.round(Number(loseShares) * losingPosition.average_entry_price))
-        : 0n;
-
-    const realizedPnl = payout - winCostBasis - loseCostBasis;
-
-    // 5. Zero out both positions
-    if (winningPosition && winShares > 0n) {
-        await db.upsertPosition(userId, marketId, winningOutcome, 0n, winningPosition.average_entry_price);
+    // 6. Zero out every position and pay the winnings
+    for (const pos of positions) {
+        await db.upsertPosition(userId, marketId, pos.outcome, 0n, 0n);
     }
-    if (losingPosition && loseShares > 0n) {
-        await db.upsertPosition(userId, marketId, losingOutcome, 0n, losingPosition.average_entry_price);
-    }
-
-    // 6. Update User Balance (Session)
     if (payout > 0n) {
-        const session = await db.getSessionByUser(userId);
-        if (!session) {
-            // Try looking up the session from the userId (which may be sessionId)
-            const sessionDirect = await db.getSession(userId);
-            if (!sessionDirect) {
-                throw new Error('No active session found to credit winnings');
-            }
-            const currentBalance = BigInt(sessionDirect.current_balance);
-            const newBalance = currentBalance + payout;
-            const newNonce = sessionDirect.nonce + 1;
-            await db.updateSessionBalance(sessionDirect.session_id, newBalance, sessionDirect.latest_signature, newNonce);
-        } else {
-            const currentBalance = BigInt(session.current_balance);
-            const newBalance = currentBalance + payout;
-            const newNonce = session.nonce + 1;
-            await db.updateSessionBalance(session.session_id, newBalance, session.latest_signature, newNonce);
-        }
+        await db.postLedgerEntry(transferEntry('CLAIM', marketAccount(marketId), creditTo, payout, { marketId }));
     }
 
     // 7. Record claim trade
@@ -667,8 +2407,8 @@ export async function claimWinningsDB(
             marketId,
             tradeType: 'CLAIM',
             outcome: winningOutcome,
-            shares: winShares + loseShares,
-            price: winShares > 0n ? 1.0 : 0,
+            shares: settledShares,
+            price: claimPrice(row, payout, settledShares),
             costBasis: payout,
             realizedPnl,
             marketTitle: row.title
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ONE_USDC } from './index';
+import {
+    createMarketDB,
+    placeBetDB,
+    resolveMarketDB,
+    disputeResolutionDB,
+    finalizeResolutionDB,
+    decideDisputeDB
+} from './db-pool-manager';
+import * as db from '../db/amm-repository';
+import { MemoryStore } from '../db/memory-store';
+import { buildStatement } from '../db/ledger';
+import { runReconciliationDB } from './reconciliation';
+
+const CREATOR = 'disputes-creator';
+const BETTORS = Array.from({ length: 7 }, (_, i) => `disputes-bettor-${i}`);
+const CREATED_AT = new Date('2026-06-01T12:00:00Z');
+const EXPIRES_AT = new Date('2026-06-01T13:00:00Z');
+const BOND = 10n * ONE_USDC;
+
+const balanceOf = async (sessionId: string) => BigInt((await db.getSession(sessionId))!.current_balance);
+const bondsHeld = async (marketId: string) => buildStatement(await db.getAccountLedger('DISPUTE_BONDS', marketId)).balance;
+
+beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(CREATED_AT);
+    db.setStore(new MemoryStore());
+    await db.createSession(CREATOR, CREATOR, 1_000n * ONE_USDC, 'disputes-test');
+    for (const bettor of BETTORS) await db.createSession(bettor, bettor, 1_000n * ONE_USDC, 'disputes-test');
+
+    for (const [marketId, disputeWindowSeconds] of [['disputed', 3600], ['undisputed', 1]] as const) {
+        await createMarketDB({
+            marketId,
+            title: 'Dispute test',
+            expiresAt: EXPIRES_AT,
+            initialLiquidity: 100n * ONE_USDC,
+            creatorId: CREATOR,
+            disputeWindowSeconds,
+            disputeBond: BOND
+        });
+        await placeBetDB(marketId, BETTORS[0], { mode: 'SPEND', usdcAmount: 5n * ONE_USDC }, 'YES');
+        await placeBetDB(marketId, BETTORS[1], { mode: 'SPEND', usdcAmount: 5n * ONE_USDC }, 'NO');
+    }
+    vi.setSystemTime(EXPIRES_AT);
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+describe('disputed resolutions', () => {
+    it('pay nothing out while proposed and take one bond from parallel disputes', async () => {
+        const proposal = await resolveMarketDB('disputed', 'YES');
+        expect(proposal.status).toBe('PROPOSED');
+        expect(proposal.disputeEndsAt).not.toBeNull();
+        const held = (await db.getMarketPositions('disputed')).filter(pos => BigInt(pos.shares) > 0n);
+        expect(held).toHaveLength(2);
+        await expect(placeBetDB('disputed', BETTORS[2], { mode: 'SPEND', usdcAmount: ONE_USDC }, 'NO')).rejects.toThrow();
+
+        // Exactly one dispute posts its bond; the rest leave their balances untouched
+        const disputers = BETTORS.slice(2);
+        const balancesBefore = await Promise.all(disputers.map(balanceOf));
+        const disputes = await Promise.allSettled(disputers.map(id => disputeResolutionDB('disputed', id, 'Wrong outcome')));
+        expect(disputes.filter(d => d.status === 'fulfilled')).toHaveLength(1);
+        const winner = disputes.findIndex(d => d.status === 'fulfilled');
+        const balancesAfter = await Promise.all(disputers.map(balanceOf));
+        expect(balancesAfter).toEqual(balancesBefore.map((balance, i) => i === winner ? balance - BOND : balance));
+        expect(await bondsHeld('disputed')).toBe(BOND);
+
+        await expect(finalizeResolutionDB('disputed')).rejects.toThrow();
+
+        // Overturned: the bond goes back and the decided outcome pays
+        const decision = await decideDisputeDB('disputed', 'NO');
+        expect(decision.bondOutcome).toBe('RETURNED');
+        expect(await balanceOf(disputers[winner])).toBe(balancesBefore[winner]);
+        expect(await bondsHeld('disputed')).toBe(0n);
+        const decided = (await db.getMarket('disputed'))!;
+        expect(decided.status).toBe('RESOLVED');
+        expect(decided.resolution_value).toBe('NO');
+        expect((await db.getMarketPositions('disputed')).every(pos => BigInt(pos.shares) === 0n)).toBe(true);
+
+        expect((await runReconciliationDB()).discrepancies).toEqual([]);
+    });
+
+    it('finalize to the proposal once the window closes undisputed', async () => {
+        await resolveMarketDB('undisputed', 'YES');
+        vi.setSystemTime(EXPIRES_AT.getTime() + 1100);
+
+        await expect(disputeResolutionDB('undisputed', BETTORS[2])).rejects.toThrow();
+        expect(await bondsHeld('undisputed')).toBe(0n);
+
+        const final = await finalizeResolutionDB('undisputed');
+        expect(final.status).toBe('RESOLVED');
+        expect(final.resolutionValue).toBe('YES');
+        expect((await db.getMarketPositions('undisputed')).every(pos => BigInt(pos.shares) === 0n)).toBe(true);
+
+        expect((await runReconciliationDB()).discrepancies).toEqual([]);
+    });
+});
@@ -0,0 +1,68 @@
+/**
+ * Disputes - Challenge windows and bonds on proposed resolutions
+ *
+ * A market created with a dispute window resolves in two steps. Its
+ * resolver proposes the outcome, which halts trading (PROPOSED). Until the
+ * window closes, any session can dispute the proposal by posting the
+ * market's bond (DISPUTED), leaving the outcome to an admin decision.
+ * Nothing is paid out before the resolution is final:
+ * - undisputed: the proposal stands once the window closes
+ * - disputed: the admin decision stands. The bond is returned if the
+ *   decision overturns the proposal, and slashed to the treasury if it
+ *   upholds it
+ *
+ * A window of 0 keeps resolutions final immediately.
+ */
+
+import { ONE_USDC } from './types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** What happens to a disputer's bond once the dispute is decided */
+export type BondOutcome = 'RETURNED' | 'SLASHED';
+
+export const DEFAULT_DISPUTE_BOND = 10n * ONE_USDC;
+
+export const MAX_DISPUTE_WINDOW_SECONDS = 30 * 24 * 60 * 60;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DISPUTES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Throw unless the window is a whole number of seconds within
+ * MAX_DISPUTE_WINDOW_SECONDS and the bond is not negative
+ */
+export function validateDisputeConfig(windowSeconds: number, bond: bigint): void {
+    if (!Number.isInteger(windowSeconds) || windowSeconds < 0 || windowSeconds > MAX_DISPUTE_WINDOW_SECONDS) {
+        throw new Error(`Dispute window must be a whole number of seconds between 0 and ${MAX_DISPUTE_WINDOW_SECONDS}`);
+    }
+    if (bond < 0n) throw new Error('Dispute bond must not be negative');
+}
+
+/**
+ * When the dispute window of a resolution proposed at `proposedAt` closes
+ */
+export function disputeDeadline(proposedAt: Date, windowSeconds: number): Date {
+    return new Date(proposedAt.getTime() + windowSeconds * 1000);
+}
+
+/**
+ * Whether a proposal can still be disputed
+ */
+export function isDisputeWindowOpen(disputeEndsAt: string | null, now: number = Date.now()): boolean {
+    return disputeEndsAt !== null && now < new Date(disputeEndsAt).getTime();
+}
+
+/**
+ * A bond is returned when the decision overturns the disputed proposal
+ * and slashed when it upholds it
+ *
+ * @param proposal Resolution value the resolver proposed
+ * @param decision Resolution value decided (both normalized the same way)
+ */
+export function bondOutcome(proposal: string, decision: string): BondOutcome {
+    return proposal === decision ? 'SLASHED' : 'RETURNED';
+}
@@ -0,0 +1,225 @@
+/**
+ * Trading Fees - Per-market fees on buys and sells
+ *
+ * Every trade pays feeBps of its USDC notional:
+ * - Buys: the fee comes out of the USDC paid in; only the rest is traded
+ * - Sells: the fee comes out of the USDC the pool pays out
+ *
+ * Each fee is split three ways:
+ * 1. LP share: minted into the pool as complete sets, so it accrues to the
+ *    liquidity providers and is paid out with the pool at resolution
+ * 2. Creator share: owed to the market creator
+ * 3. Protocol share: owed to the protocol treasury
+ *
+ * Fees are rounded up and the LP share takes the rounding remainder, so the
+ * three parts always add up to the fee charged.
+ */
+
+import {
+    CategoricalPoolState,
+    CategoricalBetResult,
+    BPS_DENOMINATOR
+} from './types';
+import { ceilDiv } from './math';
+import { PricingEngine, SellResult } from './pricing-engine';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface FeeConfig {
+    /** Fee charged on every trade, in basis points of the USDC notional */
+    feeBps: number;
+
+    /** Part of each fee kept by the pool's LPs (basis points of the fee) */
+    lpShareBps: number;
+
+    /** Part of each fee owed to the market creator (basis points of the fee) */
+    creatorShareBps: number;
+
+    /** Part of each fee owed to the protocol treasury (basis points of the fee) */
+    protocolShareBps: number;
+}
+
+/**
+ * One fee split between its recipients (USDC base units)
+ */
+export interface FeeBreakdown {
+    total: bigint;
+    lp: bigint;
+    creator: bigint;
+    protocol: bigint;
+}
+
+/** A buy with its fee; usdcIn includes the fee */
+export interface FeeBetResult extends CategoricalBetResult {
+    fee: FeeBreakdown;
+}
+
+/** A sell with its fee; usdcOut is net of the fee */
+export interface FeeSellResult extends SellResult {
+    fee: FeeBreakdown;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONSTANTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Fee on new markets unless the creator picks another (100 = 1%) */
+export const DEFAULT_TRADE_FEE_BPS = 100;
+
+/** Highest fee a market can charge (1000 = 10%) */
+export const MAX_TRADE_FEE_BPS = 1_000;
+
+/** How fees are split unless a market says otherwise */
+export const DEFAULT_FEE_SPLIT = {
+    lpShareBps: 7_000,
+    creatorShareBps: 1_000,
+    protocolShareBps: 2_000
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FEE CALCULATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Validate a market's fee configuration
+ */
+export function validateFeeConfig(config: FeeConfig): void {
+    if (!Number.isInteger(config.feeBps) || config.feeBps < 0 || config.feeBps > MAX_TRADE_FEE_BPS) {
+        throw new Error(`Trade fee must be an integer between 0 and ${MAX_TRADE_FEE_BPS} bps`);
+    }
+
+    const shares = [config.lpShareBps, config.creatorShareBps, config.protocolShareBps];
+    if (shares.some(s => !Number.isInteger(s) || s < 0)) {
+        throw new Error('Fee split shares must be non-negative integers');
+    }
+    if (shares.reduce((sum, s) => sum + s, 0) !== BPS_DENOMINATOR) {
+        throw new Error(`Fee split shares must add up to ${BPS_DENOMINATOR} bps`);
+    }
+}
+
+/**
+ * Split a fee between LPs, creator and protocol
+ * The creator and protocol shares round down; the LPs get the remainder.
+ */
+export function splitFee(total: bigint, config: FeeConfig): FeeBreakdown {
+    const denominator = BigInt(BPS_DENOMINATOR);
+    const creator = (total * BigInt(config.creatorShareBps)) / denominator;
+    const protocol = (total * BigInt(config.protocolShareBps)) / denominator;
+
+    return { total, lp: total - creator - protocol, creator, protocol };
+}
+
+/**
+ * Fee charged on a USDC notional (rounded up)
+ */
+export function calculateFee(amount: bigint, config: FeeConfig): FeeBreakdown {
+    return splitFee(ceilDiv(amount * BigInt(config.feeBps), BigInt(BPS_DENOMINATOR)), config);
+}
+
+/**
+ * Smallest gross amount that still leaves `net` after its fee
+ *
+ * Formula: gross - ceil(gross * feeBps / 10000) >= net
+ *      <=> gross >= net * 10000 / (10000 - feeBps)
+ */
+export function grossForNet(net: bigint, feeBps: number): bigint {
+    const denominator = BigInt(BPS_DENOMINATOR);
+    return ceilDiv(net * denominator, denominator - BigInt(feeBps));
+}
+
+/**
+ * Add the LP share of a fee to the pool
+ *
+ * The fee mints complete sets that stay in the reserves, so the pool is
+ * worth that much more to its LPs whichever outcome wins.
+ */
+export function collectPoolFee(pool: CategoricalPoolState, lpFee: bigint): CategoricalPoolState {
+    if (lpFee <= 0n) return pool;
+
+    const reserves = pool.reserves.map(r => r + lpFee);
+
+    return {
+        ...pool,
+        reserves,
+        // LMSR has no product invariant
+        k: pool.liquidityParameter !== undefined ? pool.k : reserves.reduce((product, r) => product * r, 1n),
+        totalCollateral: pool.totalCollateral + lpFee,
+        updatedAt: Date.now()
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TRADES WITH FEES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Charge the fee on a buy the engine has already priced
+ *
+ * @param result Engine result for the USDC actually traded
+ * @param fee Fee on top of result.usdcIn
+ */
+export function applyBuyFee(result: CategoricalBetResult, fee: FeeBreakdown): FeeBetResult {
+    const usdcIn = result.usdcIn + fee.total;
+
+    return {
+        ...result,
+        usdcIn,
+        effectivePrice: Number(usdcIn) / Number(result.totalShares),
+        newPoolState: collectPoolFee(result.newPoolState, fee.lp),
+        fee
+    };
+}
+
+/**
+ * Spend exactly usdcAmount (fee included) on one outcome
+ */
+export function placeBetWithFee(
+    engine: PricingEngine,
+    pool: CategoricalPoolState,
+    outcomeIndex: number,
+    usdcAmount: bigint,
+    config: FeeConfig
+): FeeBetResult {
+    const fee = calculateFee(usdcAmount, config);
+    if (fee.total >= usdcAmount) {
+        throw new Error('Bet amount too small to cover the trade fee');
+    }
+
+    const result = engine.placeBet(pool, outcomeIndex, usdcAmount - fee.total);
+    return applyBuyFee(result, fee);
+}
+
+/**
+ * Charge the fee on a buy sized by its outcome (exact shares or target
+ * price): the fee goes on top of the USDC the engine needed
+ */
+export function chargeBuyFee(result: CategoricalBetResult, config: FeeConfig): FeeBetResult {
+    const gross = grossForNet(result.usdcIn, config.feeBps);
+    return applyBuyFee(result, splitFee(gross - result.usdcIn, config));
+}
+
+/**
+ * Sell shares back to the pool; the fee comes out of the payout
+ */
+export function sellPositionWithFee(
+    engine: PricingEngine,
+    pool: CategoricalPoolState,
+    outcomeIndex: number,
+    sharesAmount: bigint,
+    config: FeeConfig
+): FeeSellResult {
+    const result = engine.sellPosition(pool, outcomeIndex, sharesAmount);
+    const fee = calculateFee(result.usdcOut, config);
+    if (fee.total > 0n && fee.total >= result.usdcOut) {
+        throw new Error('Sell amount too small to cover the trade fee');
+    }
+
+    return {
+        ...result,
+        usdcOut: result.usdcOut - fee.total,
+        newPoolState: collectPoolFee(result.newPoolState, fee.lp),
+        fee
+    };
+}
@@ -6,10 +6,27 @@
  * 
  * Key Components:
  * - types.ts: Type definitions and constants
+ * - math.ts: Fixed-point integer helpers (isqrt, rounding)
  * - pool.ts: Constant product (x*y=k) logic and price calculations
- * - mint-swap.ts: "Mint & Swap" betting mechanism
+ * - categorical.ts: N-outcome constant product pools
+ * - lmsr.ts: Logarithmic market scoring rule pools
+ * - scalar.ts: LONG/SHORT range markets and their payouts
+ * - pricing-engine.ts: Pluggable pricing engines (CPMM / LMSR)
+ * - mint-swap.ts: "Mint & Swap" betting mechanism, complete set split / merge
+ * - slippage.ts: Trade limits (min out, max price, deadline)
+ * - trading-hours.ts: Trading windows (scheduled opening, halt at expiry)
+ * - liquidity.ts: LP deposits, withdrawals and resolution payouts
+ * - fees.ts: Per-market trade fees and their LP / creator / protocol split
+ * - limit-orders.ts: Resting bids and asks; bids also fill against the pool
+ * - order-book.ts: Routing market orders between the order book and the pool
+ * - cost-basis.ts: Exact position cost basis, realized and unrealized PnL
  * - settlement.ts: Market resolution and payout logic
- * - pool-manager.ts: State management for multiple markets
+ * - disputes.ts: Dispute windows and bonds on proposed resolutions
+ * - oracle-aggregator.ts: Resolution prices agreed on by several sources
+ * - oracle-providers.ts: Registry of the price feeds resolution asks
+ * - oracle-fixtures.ts: Recorded price series replayed offline
+ * - oracle-scheduler.ts: Automatic resolution of expired oracle markets
+ * - persistent-pool-manager.ts: Binary markets on top of the active store
  */
 
 // Types
@@ -21,15 +38,26 @@ export {
     BetResult,
     SettlementResult,
     Outcome,
+    MarketType,
+    OutcomeRef,
+    PricingEngineType,
+    BetOrder,
+    CategoricalPoolState,
+    CategoricalBetResult,
     USDC_DECIMALS,
     ONE_USDC,
     MAX_PRICE,
     MIN_PRICE,
     PRICE_CAP,
     DEFAULT_VIRTUAL_LIQUIDITY,
-    PROTOCOL_FEE_BPS
+    PROTOCOL_FEE_BPS,
+    MIN_OUTCOMES,
+    MAX_OUTCOMES
 } from './types';
 
+// Fixed-point math
+export { PRICE_PRECISION, isqrt, ceilSqrt, ceilDiv, toFixedPrice } from './math';
+
 // Pool logic
 export {
     createPool,
@@ -38,15 +66,162 @@ export {
     calculateSwap,
     validatePriceCap,
     isSwapAllowed,
+    calculateAmountForTargetPrice,
     getPoolSummary
 } from './pool';
 
+// Categorical (multi-outcome) pools
+export {
+    createCategoricalPool,
+    validateOutcomeLabels,
+    normalizeOutcomeLabels,
+    getCategoricalPrices,
+    validateCategoricalPriceCap,
+    placeCategoricalBet,
+    quoteCategoricalBet,
+    sellCategoricalPosition,
+    findOutcomeIndex
+} from './categorical';
+
+// LMSR pools
+export {
+    lmsrLiquidityParameter,
+    createLmsrPool,
+    getLmsrPrices,
+    placeLmsrBet,
+    quoteLmsrBet,
+    sellLmsrPosition
+} from './lmsr';
+
+// Scalar (range) markets
+export {
+    ScalarOutcome,
+    ScalarRange,
+    SCALAR_OUTCOMES,
+    PAYOUT_PRECISION,
+    validateScalarRange,
+    parseScalarValue,
+    scalarLongPayout,
+    scalarOutcomePayouts,
+    calculateScalarPayout
+} from './scalar';
+
+// Pricing engines
+export {
+    PricingEngine,
+    BetQuote,
+    SellResult,
+    cpmmEngine,
+    lmsrEngine,
+    isPricingEngineType,
+    getPricingEngine
+} from './pricing-engine';
+
+// Slippage protection
+export {
+    TradeLimits,
+    SlippageErrorCode,
+    SlippageError,
+    checkDeadline,
+    checkBuyLimits,
+    checkSellLimits
+} from './slippage';
+
+// Trading hours
+export {
+    TradingPhase,
+    TradingWindow,
+    TradingHaltedErrorCode,
+    TradingHaltedError,
+    tradingPhase,
+    checkTradingOpen,
+    validateTradingWindow
+} from './trading-hours';
+
+// Liquidity provision
+export {
+    AddLiquidityResult,
+    RemoveLiquidityResult,
+    initialLpShares,
+    addLiquidity,
+    removeLiquidity,
+    liquidityPoolValue,
+    liquidityPayout
+} from './liquidity';
+
+// Trade fees
+export {
+    FeeConfig,
+    FeeBreakdown,
+    FeeBetResult,
+    FeeSellResult,
+    DEFAULT_TRADE_FEE_BPS,
+    MAX_TRADE_FEE_BPS,
+    DEFAULT_FEE_SPLIT,
+    validateFeeConfig,
+    splitFee,
+    calculateFee,
+    grossForNet,
+    collectPoolFee,
+    applyBuyFee,
+    placeBetWithFee,
+    chargeBuyFee,
+    sellPositionWithFee
+} from './fees';
+
+// Limit orders
+export {
+    OrderSide,
+    TimeInForce,
+    LimitOrderStatus,
+    LimitOrderInput,
+    validateLimitOrder,
+    fillLimitOrder
+} from './limit-orders';
+
+// Order book routing
+export {
+    BookOrder,
+    RouteVenue,
+    RouteFill,
+    RoutableBuyOrder,
+    RoutedTrade,
+    RoutedBuy,
+    RoutedSell,
+    bookFillCost,
+    sharesForUsdc,
+    routeBuy,
+    routeSell,
+    applyRoutedBuyFee,
+    routeBuyWithFee,
+    applyRoutedSellFee,
+    routeSellWithFee,
+    poolOnlyBuy,
+    poolOnlySell
+} from './order-book';
+
+// Position cost basis
+export {
+    CostedPosition,
+    MarkedPosition,
+    EMPTY_POSITION,
+    addShares,
+    releaseShares,
+    averageEntryPrice,
+    markPosition
+} from './cost-basis';
+
 // Betting
 export {
     placeBet,
     quoteBet,
+    calculateCostForShares,
+    buyShares,
+    placeBetToTargetPrice,
     placeSafeModeBet,
     sellPosition,
+    splitPosition,
+    mergePositions,
     getPositionValue,
     calculatePayout,
     runSpecExample
@@ -63,14 +238,102 @@ export {
     generateSettlementProof,
     finalizePool,
     validatePoolSolvency,
+    worstCasePayout,
     formatSettlementSummary
 } from './settlement';
 
-// Pool Manager
-export { PoolManager, poolManager } from './pool-manager';
+// Cancellation refunds
+export {
+    RefundMode,
+    REFUND_MODES,
+    DEFAULT_REFUND_MODE,
+    isRefundMode,
+    costBasisRefunds,
+    fairPricePayouts
+} from './refunds';
+
+// Resolution disputes
+export {
+    BondOutcome,
+    DEFAULT_DISPUTE_BOND,
+    MAX_DISPUTE_WINDOW_SECONDS,
+    validateDisputeConfig,
+    disputeDeadline,
+    isDisputeWindowOpen,
+    bondOutcome
+} from './disputes';
 
 // Persistent Pool Manager (Database-backed)
 export { PersistentPoolManager, persistentPoolManager, MarketConfig } from './persistent-pool-manager';
 
+// Solvency reconciliation (Database-backed)
+export {
+    ReconciliationReport,
+    Discrepancy,
+    DEFAULT_RECONCILIATION_INTERVAL_MS,
+    runReconciliationDB,
+    getLatestReconciliationDB,
+    startReconciliationJob
+} from './reconciliation';
+
+// Oracle price aggregation
+export {
+    SourceQuote,
+    PriceSource,
+    PriceWindow,
+    SourceResult,
+    QuoteStatus,
+    SourceEvidence,
+    AggregationConfig,
+    PriceEvidence,
+    DEFAULT_AGGREGATION_CONFIG,
+    OracleAggregationError,
+    median,
+    checkSourceResult,
+    aggregateQuotes,
+    windowQuote,
+    aggregatePrice
+} from './oracle-aggregator';
+
+// Oracle providers
+export {
+    OracleProvider,
+    OracleAsset,
+    getOracleProviders,
+    getOracleProvider,
+    registerOracleProvider,
+    unregisterOracleProvider,
+    setOracleProviders,
+    listOracleAssets,
+    createDefaultOracleProviders,
+    createCoinGeckoProvider,
+    createCoinbaseProvider,
+    createPythProvider,
+    createChainlinkProvider
+} from './oracle-providers';
+export {
+    FixturePoint,
+    OracleFixture,
+    FixtureReplayOptions,
+    createFixtureProviders,
+    loadOracleFixtures
+} from './oracle-fixtures';
+
+// Oracle resolution scheduler (Database-backed)
+export {
+    OracleObservation,
+    OracleObservationError,
+    OracleResolution,
+    OracleRetry,
+    OracleSchedulerStatus,
+    DEFAULT_ORACLE_RESOLUTION_INTERVAL_MS,
+    oracleRetryDelay,
+    observeOracleMarket,
+    resolveOracleMarketDB,
+    runOracleResolutionPass,
+    startOracleScheduler,
+    getOracleSchedulerStatus
+} from './oracle-scheduler';
+
 // Database Repository
 export * as ammRepository from '../db/amm-repository';
@@ -0,0 +1,158 @@
+/**
+ * Limit Orders - Resting bids and asks; bids also rest against the pool
+ *
+ * A limit order escrows USDC and buys one outcome whenever its price is
+ * below the order's limit ("buy YES up to 0.42"):
+ * 1. The matcher spends just enough to move the price up to the limit
+ * 2. The fee is charged on top, out of the same escrow
+ * 3. Whatever escrow is left keeps resting until the price drops again
+ *
+ * Limits are checked against the displayed prices, which are the pricing
+ * engine's. The limit bounds the marginal price, so every share is bought
+ * at or below it before the fee.
+ *
+ * Orders are good-till-cancelled (GTC) or good-till-time (GTT); an expired
+ * or cancelled order's unspent escrow is refunded.
+ *
+ * Sell orders (asks) escrow outcome shares instead. They only trade with
+ * incoming buyers through the order book (see order-book.ts) and never sell
+ * into the pool.
+ */
+
+import { CategoricalPoolState, MIN_PRICE, PRICE_CAP } from './types';
+import { PricingEngine } from './pricing-engine';
+import {
+    FeeConfig,
+    FeeBetResult,
+    calculateFee,
+    grossForNet,
+    placeBetWithFee,
+    chargeBuyFee
+} from './fees';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Good-till-cancelled, or good-till-time (expires at expiresAt) */
+export type TimeInForce = 'GTC' | 'GTT';
+
+/** Bids buy an outcome with escrowed USDC, asks sell escrowed shares of it */
+export type OrderSide = 'BUY' | 'SELL';
+
+export type LimitOrderStatus = 'OPEN' | 'FILLED' | 'CANCELLED' | 'EXPIRED';
+
+export interface LimitOrderInput {
+    side: OrderSide;
+
+    /** Bids: highest price (0-1) the order buys at. Asks: lowest it sells at */
+    limitPrice: number;
+
+    /** Bids: USDC to escrow, fee included. Asks: shares to escrow (base units) */
+    amount: bigint;
+
+    timeInForce: TimeInForce;
+
+    /** Expiry of a GTT order */
+    expiresAt?: Date;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// VALIDATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Validate a new limit order
+ *
+ * @param order Order to place
+ * @param now Current time in milliseconds
+ */
+export function validateLimitOrder(order: LimitOrderInput, now: number = Date.now()): void {
+    if (!(order.limitPrice > MIN_PRICE && order.limitPrice < PRICE_CAP)) {
+        throw new Error(`Limit price must be between ${MIN_PRICE} and ${PRICE_CAP}`);
+    }
+    if (order.side !== 'BUY' && order.side !== 'SELL') {
+        throw new Error('Order side must be BUY or SELL');
+    }
+    if (order.amount <= 0n) {
+        throw new Error('Order amount must be positive');
+    }
+
+    if (order.timeInForce === 'GTT') {
+        if (!order.expiresAt) throw new Error('GTT orders need an expiry');
+        if (order.expiresAt.getTime() <= now) throw new Error('Order expiry must be in the future');
+    } else if (order.expiresAt) {
+        throw new Error('Only GTT orders can have an expiry');
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MATCHING
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Fill as much of a resting order as its limit and escrow allow
+ *
+ * The LP share of the fee is minted into the reserves, which nudges a
+ * constant product price towards the middle, so the fill is sized on the
+ * price after the fee.
+ *
+ * Formula (net = USDC that reaches the pool):
+ *   net  = largest spend that leaves price_i <= limitPrice once the fee is in
+ *   cost = net + fee, capped at usdcRemaining
+ *
+ * @param engine Market's pricing engine
+ * @param pool Current pool state
+ * @param outcomeIndex Outcome the order buys
+ * @param limitPrice Highest price (0-1) the order buys at
+ * @param usdcRemaining Escrow left on the order (fee included)
+ * @param config Market's fee configuration
+ * @returns The fill, or null if the price is at or above the limit (or the
+ *          escrow left is too small to trade)
+ */
+export function fillLimitOrder(
+    engine: PricingEngine,
+    pool: CategoricalPoolState,
+    outcomeIndex: number,
+    limitPrice: number,
+    usdcRemaining: bigint,
+    config: FeeConfig
+): FeeBetResult | null {
+    const displayed = (state: CategoricalPoolState): number => engine.getPrices(state)[outcomeIndex];
+
+    if (usdcRemaining <= 0n || displayed(pool) >= limitPrice) return null;
+
+    const buy = (net: bigint): FeeBetResult => chargeBuyFee(engine.placeBet(pool, outcomeIndex, net), config);
+    const withinLimit = (net: bigint): boolean => {
+        try {
+            return displayed(buy(net).newPoolState) <= limitPrice;
+        } catch {
+            return false;
+        }
+    };
+
+    // Start from the spend that reaches the limit before the fee, then
+    // search for the largest spend that stays within it (the escrow caps it)
+    let low = 0n;
+    let high = engine.amountForTargetPrice(pool, outcomeIndex, limitPrice);
+    while (withinLimit(high)) {
+        low = high;
+        if (high >= usdcRemaining) break;
+        high *= 2n;
+    }
+    if (low < high) {
+        while (high - low > 1n) {
+            const mid = (low + high) / 2n;
+            if (withinLimit(mid)) low = mid;
+            else high = mid;
+        }
+    }
+    const net = low;
+    if (net <= 0n) return null;
+
+    if (grossForNet(net, config.feeBps) <= usdcRemaining) return buy(net);
+
+    // Not enough escrow to reach the limit: spend all of it
+    if (calculateFee(usdcRemaining, config).total >= usdcRemaining) return null;
+    return placeBetWithFee(engine, pool, outcomeIndex, usdcRemaining, config);
+}
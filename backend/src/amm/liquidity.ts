@@ -0,0 +1,232 @@
+/**
+ * Liquidity Provision - LP shares over a "Mint & Swap" pool
+ *
+ * Anyone can deposit USDC into a pool for LP shares, and burn LP shares to
+ * withdraw. LP shares are a pro-rata claim on the pool's reserves, so at
+ * resolution the LPs split whatever collateral the pool is left holding
+ * (the market maker's PnL, including any fees kept in the reserves).
+ *
+ * Deposits never move prices:
+ * 1. The deposit mints X complete sets (1 USDC = 1 share of EVERY outcome)
+ * 2. Every reserve grows by the same factor (r_max + X) / r_max
+ * 3. The shares the pool doesn't keep go back to the provider
+ *
+ * Constant product pools rescale k to the new reserves; LMSR pools rescale b
+ * by the same factor, which leaves exp(-r_i / b) (and the prices) unchanged.
+ *
+ * All amounts are bigint and every rounding step favours the pool, so
+ * providers already in the pool are never diluted by a deposit or withdrawal.
+ */
+
+import { CategoricalPoolState } from './types';
+import { ceilDiv } from './math';
+import { PAYOUT_PRECISION } from './scalar';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Result of depositing USDC into a pool
+ */
+export interface AddLiquidityResult {
+    /** USDC deposited */
+    usdcIn: bigint;
+
+    /** LP shares minted to the provider */
+    lpShares: bigint;
+
+    /** Outcome shares the pool didn't keep, index-aligned with pool.outcomes */
+    returnedShares: bigint[];
+
+    /** Total LP shares after the deposit */
+    newTotalLpShares: bigint;
+
+    /** Updated pool state */
+    newPoolState: CategoricalPoolState;
+}
+
+/**
+ * Result of burning LP shares
+ */
+export interface RemoveLiquidityResult {
+    /** LP shares burned */
+    lpShares: bigint;
+
+    /** USDC paid out for the complete sets withdrawn */
+    usdcOut: bigint;
+
+    /** Outcome shares withdrawn beyond the complete sets, index-aligned with pool.outcomes */
+    returnedShares: bigint[];
+
+    /** Total LP shares after the withdrawal */
+    newTotalLpShares: bigint;
+
+    /** Updated pool state */
+    newPoolState: CategoricalPoolState;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DEPOSITS & WITHDRAWALS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * LP shares minted for a pool's seed liquidity (one per unit of the deepest reserve)
+ */
+export function initialLpShares(pool: CategoricalPoolState): bigint {
+    return maxReserve(pool.reserves);
+}
+
+/**
+ * Deposit USDC into a pool for LP shares
+ *
+ * Formula (X = usdcAmount, S = total LP shares, r_max = deepest reserve):
+ *   reserve_i += ceil(r_i * X / r_max)
+ *   lpShares   = floor(X * S / r_max)
+ *
+ * @param pool Current pool state
+ * @param totalLpShares LP shares outstanding before the deposit
+ * @param usdcAmount USDC to deposit (base units)
+ * @returns LP shares minted, outcome shares returned and the new pool state
+ */
+export function addLiquidity(
+    pool: CategoricalPoolState,
+    totalLpShares: bigint,
+    usdcAmount: bigint
+): AddLiquidityResult {
+    if (usdcAmount <= 0n) {
+        throw new Error('Liquidity amount must be positive');
+    }
+    if (totalLpShares <= 0n) {
+        throw new Error(`Pool ${pool.marketId} has no LP shares outstanding`);
+    }
+
+    const rMax = maxReserve(pool.reserves);
+    const lpShares = (usdcAmount * totalLpShares) / rMax;
+    if (lpShares <= 0n) {
+        throw new Error('Liquidity amount too small to mint an LP share');
+    }
+
+    // Grow every reserve by the same factor; the pool keeps the rounding dust
+    const added = pool.reserves.map(r => ceilDiv(r * usdcAmount, rMax));
+    const reserves = pool.reserves.map((r, i) => r + added[i]);
+
+    return {
+        usdcIn: usdcAmount,
+        lpShares,
+        returnedShares: added.map(a => usdcAmount - a),
+        newTotalLpShares: totalLpShares + lpShares,
+        newPoolState: rescalePool(pool, reserves, rMax + usdcAmount, rMax, pool.totalCollateral + usdcAmount)
+    };
+}
+
+/**
+ * Burn LP shares for a pro-rata slice of every reserve
+ *
+ * The complete sets in the slice are redeemed for USDC; the rest of the
+ * slice is returned as outcome shares.
+ *
+ * Formula (s = lpShares, S = total LP shares):
+ *   withdrawn_i = floor(r_i * s / S)
+ *   usdcOut     = min(withdrawn_i)
+ *
+ * @param pool Current pool state
+ * @param totalLpShares LP shares outstanding before the withdrawal
+ * @param lpShares LP shares to burn (must leave some in the pool)
+ * @returns USDC paid out, outcome shares returned and the new pool state
+ */
+export function removeLiquidity(
+    pool: CategoricalPoolState,
+    totalLpShares: bigint,
+    lpShares: bigint
+): RemoveLiquidityResult {
+    if (lpShares <= 0n) {
+        throw new Error('LP shares must be positive');
+    }
+    if (lpShares >= totalLpShares) {
+        throw new Error('Cannot withdraw all liquidity from an open pool');
+    }
+
+    const withdrawn = pool.reserves.map(r => (r * lpShares) / totalLpShares);
+    const usdcOut = withdrawn.reduce((min, w) => (w < min ? w : min));
+    if (usdcOut <= 0n) {
+        throw new Error('LP share amount too small to withdraw');
+    }
+
+    const reserves = pool.reserves.map((r, i) => r - withdrawn[i]);
+    const remaining = totalLpShares - lpShares;
+
+    return {
+        lpShares,
+        usdcOut,
+        returnedShares: withdrawn.map(w => w - usdcOut),
+        newTotalLpShares: remaining,
+        newPoolState: rescalePool(pool, reserves, remaining, totalLpShares, pool.totalCollateral - usdcOut)
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RESOLUTION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * USDC the pool's reserves are worth once the market resolves
+ *
+ * @param pool Pool state at resolution
+ * @param payouts Per-share payout of each outcome label in PAYOUT_PRECISION units
+ * @returns Σ reserve_i * payout_i, rounded down
+ */
+export function liquidityPoolValue(pool: CategoricalPoolState, payouts: Record<string, bigint>): bigint {
+    const value = pool.reserves.reduce(
+        (sum, r, i) => sum + r * (payouts[pool.outcomes[i]] ?? 0n),
+        0n
+    );
+    return value / PAYOUT_PRECISION;
+}
+
+/**
+ * One provider's share of the pool's value at resolution (rounded down)
+ *
+ * @param poolValue Value of the pool's reserves (see liquidityPoolValue)
+ * @param totalLpShares LP shares outstanding
+ * @param lpShares LP shares held by the provider
+ */
+export function liquidityPayout(poolValue: bigint, totalLpShares: bigint, lpShares: bigint): bigint {
+    if (totalLpShares <= 0n) return 0n;
+    return (poolValue * lpShares) / totalLpShares;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+function maxReserve(reserves: bigint[]): bigint {
+    return reserves.reduce((max, r) => (r > max ? r : max), 0n);
+}
+
+/**
+ * Apply new reserves and rescale the pricing invariant by numerator / denominator
+ */
+function rescalePool(
+    pool: CategoricalPoolState,
+    reserves: bigint[],
+    numerator: bigint,
+    denominator: bigint,
+    totalCollateral: bigint
+): CategoricalPoolState {
+    const lmsr = pool.liquidityParameter !== undefined;
+    const liquidityParameter = lmsr ? (pool.liquidityParameter! * numerator) / denominator : undefined;
+    if (liquidityParameter !== undefined && liquidityParameter <= 0n) {
+        throw new Error('Withdrawal would leave the pool without liquidity');
+    }
+
+    return {
+        ...pool,
+        reserves,
+        // LMSR has no product invariant
+        k: lmsr ? pool.k : reserves.reduce((product, r) => product * r, 1n),
+        liquidityParameter,
+        totalCollateral,
+        updatedAt: Date.now()
+    };
+}
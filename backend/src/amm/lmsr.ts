@@ -0,0 +1,294 @@
+/**
+ * LMSR Pool - Logarithmic Market Scoring Rule
+ *
+ * Hanson's LMSR expressed on the same "Mint & Swap" reserves as the
+ * constant product pools:
+ * 1. Collateralization: 1 USDC = 1 share of EVERY outcome
+ * 2. Trading: Σ exp(-r_i / b) = constant
+ *
+ * With q_i = totalCollateral - r_i (shares held by traders) this is exactly
+ * the LMSR cost function C(q) = b * ln(Σ exp(q_i / b)).
+ *
+ * Prices: Price_i = exp(-r_i / b) / Σ exp(-r_j / b)
+ *
+ * Bounded loss: reserves can never fall below L - b * ln(N). Choosing
+ * b = L / ln(N) keeps every reserve non-negative, so the pool is always
+ * solvent and the creator's seed L is the most the market maker can lose.
+ * Unlike x*y=k, depth does not collapse as prices move, which suits thin
+ * markets far better.
+ *
+ * The exponentials are evaluated in floating point relative to the smallest
+ * reserve; results are rounded in the pool's favour before returning to
+ * bigint.
+ */
+
+import {
+    CategoricalPoolState,
+    CategoricalBetResult,
+    PRICE_CAP
+} from './types';
+import { normalizeOutcomeLabels } from './categorical';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// POOL CREATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Largest liquidity parameter b that the seed liquidity can fully fund
+ *
+ * @param initialLiquidity Seed liquidity (reserves of every outcome)
+ * @param outcomeCount Number of outcomes
+ * @returns b = L / ln(N), rounded down
+ */
+export function lmsrLiquidityParameter(initialLiquidity: bigint, outcomeCount: number): bigint {
+    return BigInt(Math.floor(Number(initialLiquidity) / Math.log(outcomeCount)));
+}
+
+/**
+ * Creates a new LMSR pool with equal reserves for every outcome
+ *
+ * @param marketId Market identifier
+ * @param labels Outcome labels (stored trimmed)
+ * @param initialLiquidity Seed liquidity; bounds the market maker's loss
+ * @returns Initial pool state
+ */
+export function createLmsrPool(
+    marketId: string,
+    labels: string[],
+    initialLiquidity: bigint
+): CategoricalPoolState {
+    const outcomes = normalizeOutcomeLabels(labels);
+
+    if (initialLiquidity <= 0n) {
+        throw new Error('Initial liquidity must be positive');
+    }
+
+    const liquidityParameter = lmsrLiquidityParameter(initialLiquidity, outcomes.length);
+    if (liquidityParameter <= 0n) {
+        throw new Error('Initial liquidity too small for an LMSR pool');
+    }
+
+    return {
+        marketId,
+        outcomes,
+        reserves: outcomes.map(() => initialLiquidity),
+        k: 0n, // LMSR has no product invariant
+        virtualLiquidity: 0n,
+        liquidityParameter,
+        totalCollateral: initialLiquidity,
+        createdAt: Date.now(),
+        updatedAt: Date.now()
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PRICE CALCULATIONS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Calculate implied prices for every outcome
+ *
+ * @param pool Current pool state
+ * @returns Prices (0-1) index-aligned with pool.outcomes; they sum to 1
+ */
+export function getLmsrPrices(pool: CategoricalPoolState): number[] {
+    const b = liquidityOf(pool);
+    const base = minReserve(pool.reserves);
+    const weights = pool.reserves.map(r => weight(r, base, b));
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    return weights.map(w => w / total);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MINT & SWAP (Buying an outcome)
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Execute a "Mint & Swap" bet on one outcome
+ *
+ * Minting adds usdcAmount to every reserve; the chosen reserve then shrinks
+ * until Σ exp(-r_j / b) is back to its value before the trade.
+ *
+ * @param pool Current pool state
+ * @param outcomeIndex Index of the outcome to buy
+ * @param usdcAmount Amount of USDC to bet (base units)
+ * @returns Bet result with shares received and updated pool state
+ */
+export function placeLmsrBet(
+    pool: CategoricalPoolState,
+    outcomeIndex: number,
+    usdcAmount: bigint
+): CategoricalBetResult {
+    assertOutcomeIndex(pool, outcomeIndex);
+    if (usdcAmount <= 0n) {
+        throw new Error('Bet amount must be positive');
+    }
+
+    const b = liquidityOf(pool);
+    const base = minReserve(pool.reserves);
+    const invariant = pool.reserves.reduce((sum, r) => sum + weight(r, base, b), 0);
+
+    const newReserves = pool.reserves.map(r => r + usdcAmount);
+    const others = newReserves.reduce(
+        (sum, r, i) => (i === outcomeIndex ? sum : sum + weight(r, base, b)),
+        0
+    );
+
+    const remaining = invariant - others;
+    if (!(remaining > 0)) {
+        throw new Error('Insufficient liquidity for this bet');
+    }
+
+    // r_i' = base - b * ln(remaining), rounded up (favours the pool)
+    const targetReserve = base + BigInt(Math.ceil(-Number(b) * Math.log(remaining)));
+    if (targetReserve < 0n) {
+        throw new Error('Bet exceeds the pool\'s bounded liquidity');
+    }
+
+    const swappedShares = pool.reserves[outcomeIndex] - targetReserve;
+    if (swappedShares <= 0n) {
+        throw new Error('Bet amount too small');
+    }
+
+    newReserves[outcomeIndex] = targetReserve;
+
+    const newPoolState: CategoricalPoolState = {
+        ...pool,
+        reserves: newReserves,
+        totalCollateral: pool.totalCollateral + usdcAmount,
+        updatedAt: Date.now()
+    };
+
+    const newPrices = getLmsrPrices(newPoolState);
+    if (newPrices.some(p => p > PRICE_CAP)) {
+        throw new Error(`Bet would push ${pool.outcomes[outcomeIndex]} price above ${PRICE_CAP * 100}% cap`);
+    }
+
+    const totalShares = usdcAmount + swappedShares;
+
+    return {
+        usdcIn: usdcAmount,
+        outcomeIndex,
+        mintedShares: usdcAmount,
+        swappedShares,
+        totalShares,
+        effectivePrice: Number(usdcAmount) / Number(totalShares),
+        newProbability: newPrices[outcomeIndex] * 100,
+        newPoolState
+    };
+}
+
+/**
+ * Calculate the expected shares for an LMSR bet without executing it
+ *
+ * @returns Expected shares and effective price (or null if bet not allowed)
+ */
+export function quoteLmsrBet(
+    pool: CategoricalPoolState,
+    outcomeIndex: number,
+    usdcAmount: bigint
+): { expectedShares: bigint; effectivePrice: number; priceImpact: number } | null {
+    try {
+        const result = placeLmsrBet(pool, outcomeIndex, usdcAmount);
+        const before = getLmsrPrices(pool)[outcomeIndex] * 100;
+
+        return {
+            expectedShares: result.totalShares,
+            effectivePrice: result.effectivePrice,
+            priceImpact: Math.abs(result.newProbability - before)
+        };
+    } catch {
+        return null;
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SELLING / EXIT LOGIC
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Sell shares of one outcome back to USDC
+ *
+ * The pool takes S shares of outcome i and burns U complete sets, where U
+ * keeps the invariant:
+ *
+ *   U = b * ln( Σ exp(-r_j / b) / (Σ_{j≠i} exp(-r_j / b) + exp(-(r_i + S) / b)) )
+ *
+ * @param pool Current pool state
+ * @param outcomeIndex Index of the outcome being sold
+ * @param sharesAmount Amount of shares to sell
+ * @returns Resulting USDC and new pool state
+ */
+export function sellLmsrPosition(
+    pool: CategoricalPoolState,
+    outcomeIndex: number,
+    sharesAmount: bigint
+): { usdcOut: bigint; newPoolState: CategoricalPoolState; priceImpact: number } {
+    assertOutcomeIndex(pool, outcomeIndex);
+    if (sharesAmount <= 0n) throw new Error('Shares amount must be positive');
+
+    const b = liquidityOf(pool);
+    const base = minReserve(pool.reserves);
+    const invariant = pool.reserves.reduce((sum, r) => sum + weight(r, base, b), 0);
+    const after = pool.reserves.reduce(
+        (sum, r, i) => sum + weight(i === outcomeIndex ? r + sharesAmount : r, base, b),
+        0
+    );
+
+    // Rounded down (favours the pool) and capped so no other leg is drained
+    let usdcOut = BigInt(Math.floor(Number(b) * Math.log(invariant / after)));
+    for (let i = 0; i < pool.reserves.length; i++) {
+        if (i !== outcomeIndex && pool.reserves[i] < usdcOut) {
+            usdcOut = pool.reserves[i];
+        }
+    }
+    if (usdcOut > sharesAmount) usdcOut = sharesAmount;
+
+    if (usdcOut <= 0n) {
+        throw new Error('Sell amount too small');
+    }
+
+    const newPoolState: CategoricalPoolState = {
+        ...pool,
+        reserves: pool.reserves.map((r, i) =>
+            i === outcomeIndex ? r + sharesAmount - usdcOut : r - usdcOut
+        ),
+        totalCollateral: pool.totalCollateral - usdcOut,
+        updatedAt: Date.now()
+    };
+
+    const before = getLmsrPrices(pool)[outcomeIndex] * 100;
+    const afterPrice = getLmsrPrices(newPoolState)[outcomeIndex] * 100;
+
+    return {
+        usdcOut,
+        newPoolState,
+        priceImpact: Math.abs(afterPrice - before)
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+function liquidityOf(pool: CategoricalPoolState): bigint {
+    if (!pool.liquidityParameter || pool.liquidityParameter <= 0n) {
+        throw new Error(`Market ${pool.marketId} has no LMSR liquidity parameter`);
+    }
+    return pool.liquidityParameter;
+}
+
+/** exp(-(r - base) / b), evaluated relative to the smallest reserve */
+function weight(reserve: bigint, base: bigint, b: bigint): number {
+    return Math.exp(-Number(reserve - base) / Number(b));
+}
+
+function minReserve(reserves: bigint[]): bigint {
+    return reserves.reduce((min, r) => (r < min ? r : min), reserves[0]);
+}
+
+function assertOutcomeIndex(pool: CategoricalPoolState, outcomeIndex: number): void {
+    if (!Number.isInteger(outcomeIndex) || outcomeIndex < 0 || outcomeIndex >= pool.outcomes.length) {
+        throw new Error(`Invalid outcome index ${outcomeIndex} for market ${pool.marketId}`);
+    }
+}
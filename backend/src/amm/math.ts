@@ -0,0 +1,49 @@
+/**
+ * Fixed-Point Integer Math
+ *
+ * Exact bigint helpers for the AMM. Reserves are USDC base units (6 decimals)
+ * and their products quickly exceed 2^53, so nothing in here ever goes
+ * through Number.
+ */
+
+/** Fixed-point denominator for prices passed into integer math (1e9 = 1.0) */
+export const PRICE_PRECISION = 1_000_000_000n;
+
+/**
+ * Integer square root: the largest x with x * x <= n
+ */
+export function isqrt(n: bigint): bigint {
+    if (n < 0n) throw new Error('Square root of a negative number');
+    if (n < 2n) return n;
+
+    // Start above the root (2^ceil(bits/2)) and run Newton's method down
+    let x = 1n << BigInt(Math.ceil(n.toString(2).length / 2));
+    let y = (x + n / x) / 2n;
+    while (y < x) {
+        x = y;
+        y = (x + n / x) / 2n;
+    }
+    return x;
+}
+
+/**
+ * Smallest x with x * x >= n
+ */
+export function ceilSqrt(n: bigint): bigint {
+    const root = isqrt(n);
+    return root * root === n ? root : root + 1n;
+}
+
+/**
+ * Division rounded up (a and b positive)
+ */
+export function ceilDiv(a: bigint, b: bigint): bigint {
+    return (a + b - 1n) / b;
+}
+
+/**
+ * Convert a price (0-1) to PRICE_PRECISION fixed point, rounded to nearest
+ */
+export function toFixedPrice(price: number): bigint {
+    return BigInt(Math.round(price * Number(PRICE_PRECISION)));
+}
@@ -25,9 +25,11 @@ import {
 } from './types';
 import {
     calculateSwap,
+    calculateAmountForTargetPrice,
     getPrices,
     validatePriceCap
 } from './pool';
+import { ceilDiv, ceilSqrt } from './math';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // MINT & SWAP (Core Betting Logic)
@@ -150,6 +152,127 @@ export function quoteBet(
     }
 }
 
+// ═══════════════════════════════════════════════════════════════════════════
+// EXACT-SHARES & TARGET-PRICE ORDERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Calculate the USDC cost of buying exactly sharesAmount shares
+ * 
+ * A bet of a USDC returns a + R_bought - ceil(k / (R_sold + a)) shares.
+ * Setting that equal to N and substituting x = R_sold + a gives
+ *   x^2 - c*x - k = 0   with c = N + R_sold - R_bought
+ * so x = (c + sqrt(c^2 + 4k)) / 2. The bigint estimate is then nudged to
+ * the exact smallest cost that returns at least N shares.
+ * 
+ * @param pool Current pool state
+ * @param sharesAmount Shares to receive (base units)
+ * @param betOn Which outcome to buy
+ * @returns USDC cost in base units
+ */
+export function calculateCostForShares(
+    pool: PoolState,
+    sharesAmount: bigint,
+    betOn: Outcome
+): bigint {
+    if (sharesAmount <= 0n) {
+        throw new Error('Shares amount must be positive');
+    }
+
+    const sold = betOn === Outcome.YES ? pool.noReserves : pool.yesReserves;
+    const bought = betOn === Outcome.YES ? pool.yesReserves : pool.noReserves;
+
+    if (bought <= 1n) {
+        throw new Error('Insufficient liquidity for this swap');
+    }
+
+    // Shares returned by a bet of `amount`, with calculateSwap's rounding
+    const sharesFor = (amount: bigint): bigint =>
+        amount + bought - ceilDiv(pool.k, sold + amount);
+
+    // calculateSwap rejects swaps that return nothing, so the bet must be
+    // large enough to swap out at least one share
+    let minAmount = ceilDiv(pool.k, bought - 1n) - sold;
+    if (minAmount < 1n) minAmount = 1n;
+
+    const c = sharesAmount + sold - bought;
+    let amount = ceilDiv(c + ceilSqrt(c * c + 4n * pool.k), 2n) - sold;
+    if (amount < minAmount) amount = minAmount;
+
+    while (amount > minAmount && sharesFor(amount - 1n) >= sharesAmount) amount -= 1n;
+    while (sharesFor(amount) < sharesAmount) amount += 1n;
+
+    return amount;
+}
+
+/**
+ * Buy exactly sharesAmount shares of one outcome
+ * 
+ * Costs calculateCostForShares(). Rounding the cost up to a whole base unit
+ * can return a few more shares than asked for; that surplus stays in the
+ * pool's reserve, so the trader receives exactly sharesAmount.
+ * 
+ * @param pool Current pool state
+ * @param sharesAmount Shares to receive (base units)
+ * @param betOn Which outcome to buy
+ * @returns Bet result with usdcIn set to the computed cost
+ */
+export function buyShares(
+    pool: PoolState,
+    sharesAmount: bigint,
+    betOn: Outcome
+): BetResult {
+    const cost = calculateCostForShares(pool, sharesAmount, betOn);
+    const result = placeBet(pool, cost, betOn);
+
+    const surplus = result.totalShares - sharesAmount;
+    if (surplus === 0n) return result;
+
+    const state = result.newPoolState;
+    const yesReserves = betOn === Outcome.YES ? state.yesReserves + surplus : state.yesReserves;
+    const noReserves = betOn === Outcome.NO ? state.noReserves + surplus : state.noReserves;
+    const newPoolState: PoolState = {
+        ...state,
+        yesReserves,
+        noReserves,
+        k: yesReserves * noReserves
+    };
+
+    const newPrices = getPrices(newPoolState);
+
+    return {
+        ...result,
+        swappedShares: result.swappedShares - surplus,
+        totalShares: sharesAmount,
+        effectivePrice: Number(cost) / Number(sharesAmount),
+        newProbability: betOn === Outcome.YES ? newPrices.yesProbability : newPrices.noProbability,
+        newPoolState
+    };
+}
+
+/**
+ * Spend whatever it takes to move one outcome's price to targetPrice
+ * 
+ * The spend comes from calculateAmountForTargetPrice(), which accounts for
+ * the pool's virtual liquidity.
+ * 
+ * @param pool Current pool state
+ * @param targetPrice Price (0-1) the outcome should reach
+ * @param betOn Which outcome to buy
+ * @returns Bet result with usdcIn set to the computed spend
+ */
+export function placeBetToTargetPrice(
+    pool: PoolState,
+    targetPrice: number,
+    betOn: Outcome
+): BetResult {
+    const usdcAmount = calculateAmountForTargetPrice(pool, targetPrice, betOn);
+    if (usdcAmount === 0n) {
+        throw new Error(`${betOn} price is already at or above ${targetPrice}`);
+    }
+    return placeBet(pool, usdcAmount, betOn);
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // YIELD-BASED BETTING (Safe Mode Integration)
 // ═══════════════════════════════════════════════════════════════════════════
@@ -299,16 +422,21 @@ export function runSpecExample(): void {
  * 
  * Logic: "Swap & Burn"
  * To get USDC, we need equal amounts of YES and NO shares to merge.
- * If user holds S shares of YES:
- * 1. Swap x amount of YES for NO.
- * 2. Receive y amount of NO.
- * 3. We find x such that: (S - x) == y
- * 4. Then merge (S-x) YES + (S-x) NO -> (S-x) USDC.
+ * If user holds S shares of YES, the pool takes all S shares, burns U
+ * complete pairs (U YES + U NO) and pays out U USDC. U is the largest
+ * amount that keeps the invariant:
+ * 
+ *   (R_held + S - U) * (R_other - U) >= k
  * 
  * Derivation:
- * y = R_no - (k / (R_yes + x))
- * We want: S - x = R_no - (k / (R_yes + x))
- * This leads to quadratic equation: x^2 + (R_no + R_yes - S)x - S*R_yes = 0
+ * Expanding gives U^2 - B*U + C >= 0 with B = R_held + S + R_other and
+ * C = (R_held + S) * R_other - k, so U is the floor of the smaller root
+ *   U = (B - sqrt(B^2 - 4C)) / 2
+ * 
+ * Everything stays in bigint: the square root is rounded up (so U is never
+ * overestimated) and U is then nudged to the exact largest integer that
+ * satisfies the invariant. The only error versus the real-valued solution
+ * is that final floor: under 1 base unit, always in the pool's favour.
  * 
  * @param pool Current pool state
  * @param sharesAmount Amount of shares to sell
@@ -326,49 +454,44 @@ export function sellPosition(
     const reservesOther = outcome === Outcome.YES ? pool.noReserves : pool.yesReserves;
     const k = pool.k;
 
-    // Quadratic Coefficients: ax^2 + bx + c = 0
-    // a = 1
-    // b = R_other + R_held - S
-    // c = -S * R_held
-    
-    // We use BigInt but need to be careful with sqrt.
-    // Converting to Number for calculation (precision loss acceptable for large numbers)
-    
-    const R_held = Number(reservesHeld);
-    const R_other = Number(reservesOther);
-    const S = Number(sharesAmount);
-    
-    const a = 1;
-    const b = R_other + R_held - S;
-    const c = -S * R_held;
-    
-    const discriminant = b * b - 4 * a * c;
-    if (discriminant < 0) throw new Error('Solution not found');
-    
-    const x = (-b + Math.sqrt(discriminant)) / (2 * a);
-    const swapAmount = BigInt(Math.floor(x));
+    // Pool after receiving the S shares being sold
+    const heldAfterDeposit = reservesHeld + sharesAmount;
+    const keepsInvariant = (burn: bigint): boolean =>
+        (heldAfterDeposit - burn) * (reservesOther - burn) >= k;
+
+    // Quadratic Coefficients: U^2 - B*U + C = 0
+    const b = heldAfterDeposit + reservesOther;
+    const c = heldAfterDeposit * reservesOther - k;
+    if (c <= 0n) throw new Error('Sell amount too small');
 
-    if (swapAmount <= 0n || swapAmount >= sharesAmount) {
-        throw new Error('Invalid swap amount calculated');
+    // Smaller root, rounded down; discriminant = (R_held + S - R_other)^2 + 4k > 0
+    let burnAmount = (b - ceilSqrt(b * b - 4n * c)) / 2n;
+
+    // Can't pay out more than the shares sold or drain the other side
+    const maxBurn = sharesAmount < reservesOther - 1n ? sharesAmount : reservesOther - 1n;
+    if (burnAmount > maxBurn) burnAmount = maxBurn;
+
+    // Land on the exact largest U that keeps the invariant
+    while (burnAmount < maxBurn && keepsInvariant(burnAmount + 1n)) burnAmount += 1n;
+    while (burnAmount > 0n && !keepsInvariant(burnAmount)) burnAmount -= 1n;
+
+    if (burnAmount <= 0n) {
+        throw new Error('Sell amount too small');
     }
 
-    // Execute the Swap
-    // We are selling 'outcome' shares (swapAmount) to get 'other' shares
-    const swapResult = calculateSwap(pool, swapAmount, outcome);
-    
-    // Check if we achieved parity (approximately)
-    const remainingShares = sharesAmount - swapAmount;
-    const receivedOther = swapResult.amountOut;
-    
-    // The amount we can burn is the minimum of the pair
-    const burnAmount = remainingShares < receivedOther ? remainingShares : receivedOther;
-    
+    const newHeld = heldAfterDeposit - burnAmount;
+    const newOther = reservesOther - burnAmount;
+
     // Update Pool State
-    // The pool already updated its reserves in calculateSwap (it received x YES, gave y NO)
-    // Now we update totalCollateral because user is BURNING shares -> removing USDC
+    // The user is BURNING pairs -> removing USDC from the pool
     const newPoolState: PoolState = {
-        ...swapResult.newPoolState,
-        totalCollateral: pool.totalCollateral - burnAmount
+        ...pool,
+        yesReserves: outcome === Outcome.YES ? newHeld : newOther,
+        noReserves: outcome === Outcome.YES ? newOther : newHeld,
+        // k only grows by the rounding dust kept by the pool
+        k: newHeld * newOther,
+        totalCollateral: pool.totalCollateral - burnAmount,
+        updatedAt: Date.now()
     };
     
     // Calculate Price Impact
@@ -381,3 +504,61 @@ export function sellPosition(
         priceImpact: Math.abs(spotPriceAfter - spotPriceBefore)
     };
 }
+
+// ═══════════════════════════════════════════════════════════════════════════
+// COMPLETE SETS (Split / Merge)
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Split USDC into complete sets: 1 USDC → 1 share of EVERY outcome
+ *
+ * This is the "Virtual Mint" step on its own. The USDC is added to the
+ * pool's collateral but nothing is swapped, so reserves and prices don't
+ * move and there is no slippage.
+ *
+ * @param pool Current pool state (binary or categorical)
+ * @param usdcAmount USDC to split (base units)
+ * @returns Shares received of each outcome and the updated pool state
+ */
+export function splitPosition<T extends { totalCollateral: bigint; updatedAt: number }>(
+    pool: T,
+    usdcAmount: bigint
+): { shares: bigint; newPoolState: T } {
+    if (usdcAmount <= 0n) throw new Error('Split amount must be positive');
+
+    return {
+        shares: usdcAmount,
+        newPoolState: {
+            ...pool,
+            totalCollateral: pool.totalCollateral + usdcAmount,
+            updatedAt: Date.now()
+        }
+    };
+}
+
+/**
+ * Merge complete sets back into USDC: 1 share of EVERY outcome → 1 USDC
+ *
+ * Whatever the resolution, exactly one set's worth of shares pays out, so
+ * a complete set always redeems at par. Reserves and prices don't move.
+ *
+ * @param pool Current pool state (binary or categorical)
+ * @param sets Complete sets to merge (shares of each outcome, base units)
+ * @returns USDC paid out and the updated pool state
+ */
+export function mergePositions<T extends { totalCollateral: bigint; updatedAt: number }>(
+    pool: T,
+    sets: bigint
+): { usdcOut: bigint; newPoolState: T } {
+    if (sets <= 0n) throw new Error('Merge amount must be positive');
+    if (sets > pool.totalCollateral) throw new Error('Merge amount exceeds pool collateral');
+
+    return {
+        usdcOut: sets,
+        newPoolState: {
+            ...pool,
+            totalCollateral: pool.totalCollateral - sets,
+            updatedAt: Date.now()
+        }
+    };
+}
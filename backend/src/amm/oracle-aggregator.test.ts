@@ -0,0 +1,212 @@
+import { describe, it, expect } from 'vitest';
+import {
+    SourceQuote,
+    SourceResult,
+    PriceSource,
+    DEFAULT_AGGREGATION_CONFIG,
+    OracleAggregationError,
+    median,
+    checkSourceResult,
+    aggregateQuotes,
+    windowQuote,
+    aggregatePrice
+} from './oracle-aggregator';
+
+const AT = 1_800_000_000_000;
+const SPOT = { at: AT, twapSeconds: 0 };
+
+/** mulberry32: small deterministic PRNG */
+function createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+function quoted(source: string, price: number, publishedAt = AT, confidence?: number): SourceResult {
+    return { source, quote: { price, publishedAt, confidence } };
+}
+
+function historySource(name: string, points: SourceQuote[]): PriceSource {
+    return {
+        name,
+        async fetchHistory(_asset, from, to) {
+            return points.filter(point => point.publishedAt >= from && point.publishedAt <= to);
+        }
+    };
+}
+
+describe('checkSourceResult', () => {
+    const config = DEFAULT_AGGREGATION_CONFIG;
+
+    it('accepts a fresh, confident price', () => {
+        expect(checkSourceResult(quoted('a', 100, AT - 1000, 0.5), config, AT).status).toBe('ACCEPTED');
+    });
+
+    it('fails a source that did not answer', () => {
+        const evidence = checkSourceResult({ source: 'a', error: 'unreachable' }, config, AT);
+        expect(evidence).toMatchObject({ status: 'FAILED', price: null, error: 'unreachable' });
+    });
+
+    it('rejects nonsense prices and prices published after the time priced', () => {
+        expect(checkSourceResult(quoted('a', -1), config, AT).status).toBe('INVALID');
+        expect(checkSourceResult(quoted('a', NaN), config, AT).status).toBe('INVALID');
+        expect(checkSourceResult(quoted('a', 100, AT + 1), config, AT).status).toBe('INVALID');
+    });
+
+    it('rejects prices older than maxAgeMs at the time priced', () => {
+        expect(checkSourceResult(quoted('a', 100, AT - config.maxAgeMs), config, AT).status).toBe('ACCEPTED');
+        expect(checkSourceResult(quoted('a', 100, AT - config.maxAgeMs - 1), config, AT).status).toBe('STALE');
+    });
+
+    it('rejects confidence intervals wider than maxConfidence of the price', () => {
+        expect(checkSourceResult(quoted('a', 100, AT, 100 * config.maxConfidence * 1.01), config, AT).status).toBe('LOW_CONFIDENCE');
+    });
+});
+
+describe('aggregateQuotes', () => {
+    it('gives the median of the accepted prices and when it was published', () => {
+        const evidence = aggregateQuotes('BTC', [
+            quoted('a', 100_040, AT - 3000),
+            quoted('b', 100_010, AT - 2000),
+            quoted('c', 99_990, AT - 1000),
+            { source: 'd', error: 'down' }
+        ], DEFAULT_AGGREGATION_CONFIG, SPOT);
+
+        expect(evidence.price).toBe(100_010);
+        expect(evidence.publishedAt).toBe(new Date(AT - 2000).toISOString());
+        expect(evidence.pricedAt).toBe(new Date(AT).toISOString());
+        expect(evidence.sources.map(source => source.status)).toEqual(['ACCEPTED', 'ACCEPTED', 'ACCEPTED', 'FAILED']);
+    });
+
+    it('refuses a price from too few sources, keeping the evidence', () => {
+        let refusal: unknown;
+        try {
+            aggregateQuotes('BTC', [quoted('a', 100), quoted('b', 100, AT - DEFAULT_AGGREGATION_CONFIG.maxAgeMs - 1)], DEFAULT_AGGREGATION_CONFIG, SPOT);
+        } catch (err) {
+            refusal = err;
+        }
+        expect(refusal).toBeInstanceOf(OracleAggregationError);
+        expect((refusal as OracleAggregationError).code).toBe('INSUFFICIENT_SOURCES');
+        expect((refusal as OracleAggregationError).evidence.price).toBeNull();
+        expect((refusal as OracleAggregationError).evidence.sources[1].status).toBe('STALE');
+    });
+
+    it('refuses a price when a source is too far from the median', () => {
+        let refusal: unknown;
+        try {
+            aggregateQuotes('ETH', [quoted('a', 3_000), quoted('b', 3_001), quoted('c', 4_500)], DEFAULT_AGGREGATION_CONFIG, SPOT);
+        } catch (err) {
+            refusal = err;
+        }
+        expect((refusal as OracleAggregationError).code).toBe('SOURCES_DISAGREE');
+        expect((refusal as OracleAggregationError).evidence.deviation).toBeGreaterThan(DEFAULT_AGGREGATION_CONFIG.maxDeviation);
+    });
+
+    it('only prices from accepted quotes, whatever the sources answer', () => {
+        const random = createRandom(0x5eed);
+        for (let seq = 0; seq < 200; seq++) {
+            const config = { ...DEFAULT_AGGREGATION_CONFIG, minSources: 1 + Math.floor(random() * 3), maxDeviation: 0.001 + random() * 0.02 };
+            const base = 1 + random() * 100_000;
+            const results: SourceResult[] = Array.from({ length: 1 + Math.floor(random() * 6) }, (_, i) => {
+                const price = base * (1 + (random() - 0.5) * random() * 0.04);
+                const roll = random();
+                if (roll < 0.1) return { source: `s${i}`, error: 'unreachable' };
+                if (roll < 0.25) return quoted(`s${i}`, price, AT - config.maxAgeMs - 1);
+                return quoted(`s${i}`, price, AT - Math.floor(random() * config.maxAgeMs));
+            });
+            const accepted = results.filter(result => result.quote && AT - result.quote.publishedAt <= config.maxAgeMs).map(result => result.quote!.price);
+
+            try {
+                const evidence = aggregateQuotes('TEST', results, config, SPOT);
+                expect(accepted.length).toBeGreaterThanOrEqual(config.minSources);
+                expect(evidence.price).toBe(median(accepted));
+                accepted.forEach(price => expect(Math.abs(price - evidence.price!)).toBeLessThanOrEqual(config.maxDeviation * evidence.price!));
+            } catch (err) {
+                if (!(err instanceof OracleAggregationError)) throw err;
+                expect(err.evidence.price).toBeNull();
+                if (err.code === 'INSUFFICIENT_SOURCES') {
+                    expect(accepted.length).toBeLessThan(Math.max(config.minSources, 1));
+                } else {
+                    const mid = median(accepted);
+                    expect(accepted.some(price => Math.abs(price - mid) > config.maxDeviation * mid)).toBe(true);
+                }
+            }
+        }
+    });
+});
+
+describe('windowQuote', () => {
+    const points: SourceQuote[] = [
+        { price: 100, publishedAt: AT - 120_000, confidence: 1 },
+        { price: 110, publishedAt: AT - 60_000, confidence: 2 },
+        { price: 130, publishedAt: AT - 30_000 },
+        { price: 999, publishedAt: AT + 1 }
+    ];
+
+    it('gives the last price published by the time priced', () => {
+        expect(windowQuote(points, SPOT)).toBe(points[2]);
+        expect(windowQuote(points, { at: AT - 60_001, twapSeconds: 0 })).toBe(points[0]);
+        expect(windowQuote(points, { at: AT - 120_001, twapSeconds: 0 })).toBeUndefined();
+    });
+
+    it('averages each price over the time it held within the window', () => {
+        // 100 for 30s, 110 for 30s, 130 for 30s
+        const twap = windowQuote(points, { at: AT, twapSeconds: 90 })!;
+        expect(twap.price).toBeCloseTo((100 * 30 + 110 * 30 + 130 * 30) / 90, 9);
+        expect(twap.publishedAt).toBe(AT - 30_000);
+        expect(twap.confidence).toBe(2);
+    });
+
+    it('needs a price holding at the start of the window', () => {
+        expect(windowQuote(points, { at: AT, twapSeconds: 121 })).toBeUndefined();
+        expect(windowQuote(points, { at: AT, twapSeconds: 120 })).toBeDefined();
+    });
+
+    it('stays within the prices it averages', () => {
+        const random = createRandom(0x7a9);
+        for (let seq = 0; seq < 200; seq++) {
+            let publishedAt = AT;
+            const series: SourceQuote[] = Array.from({ length: 1 + Math.floor(random() * 20) }, () => {
+                publishedAt += 1 + Math.floor(random() * 120_000);
+                return { price: 1 + random() * 100_000, publishedAt };
+            });
+            const at = AT + Math.floor(random() * (publishedAt - AT + 120_000));
+            const twapSeconds = 1 + Math.floor(random() * 600);
+            const twap = windowQuote(series, { at, twapSeconds });
+            const holding = series.filter(point => point.publishedAt <= at - twapSeconds * 1000).length;
+            if (holding === 0) {
+                expect(twap).toBeUndefined();
+                continue;
+            }
+            const used = series.filter(point => point.publishedAt <= at).slice(holding - 1).map(point => point.price);
+            expect(twap!.price).toBeGreaterThanOrEqual(Math.min(...used) * (1 - 1e-12));
+            expect(twap!.price).toBeLessThanOrEqual(Math.max(...used) * (1 + 1e-12));
+        }
+    });
+});
+
+describe('aggregatePrice', () => {
+    it('prices every source as of the time asked, ignoring later prices', async () => {
+        const evidence = await aggregatePrice('BTC', [
+            historySource('a', [{ price: 99_000, publishedAt: AT - 60_000 }, { price: 120_000, publishedAt: AT + 1000 }]),
+            historySource('b', [{ price: 99_010, publishedAt: AT - 10_000 }])
+        ], SPOT);
+        expect(evidence.price).toBe((99_000 + 99_010) / 2);
+        expect(evidence.publishedAt).toBe(new Date(AT - 10_000).toISOString());
+    });
+
+    it('reports a price too old to use as STALE, and a source without history as FAILED', async () => {
+        const refusal = await aggregatePrice('SOL', [
+            historySource('a', [{ price: 150, publishedAt: AT - 11 * 60_000 }]),
+            historySource('b', []),
+            { name: 'c', fetchHistory: () => Promise.reject(new Error('down')) }
+        ], SPOT).catch(err => err);
+        expect(refusal).toBeInstanceOf(OracleAggregationError);
+        expect((refusal as OracleAggregationError).evidence.sources.map(source => source.status)).toEqual(['STALE', 'FAILED', 'FAILED']);
+    });
+});
@@ -0,0 +1,297 @@
+/**
+ * Oracle Aggregator - Resolution prices agreed on by several sources
+ *
+ * No single price feed is trusted to resolve a market. Every source is
+ * asked for the asset's price at a given time (a market's expiry), from its
+ * price history: the latest price published by then or, for a TWAP, the
+ * time-weighted average over a window ending then. Each answer is checked:
+ * - FAILED: the source errored, timed out or published nothing in time
+ *   (there is no fallback data)
+ * - INVALID: not a positive, finite price, or published after the time priced
+ * - STALE: published more than `maxAgeMs` before the time priced
+ * - LOW_CONFIDENCE: its confidence interval is wider than `maxConfidence`
+ *   of the price
+ * The price is the median of the ACCEPTED answers. With fewer than
+ * `minSources` of them, or one further than `maxDeviation` from the median,
+ * no price is given: an OracleAggregationError is thrown instead.
+ *
+ * Every answer, accepted or not, is kept as the evidence recorded with the
+ * resolution.
+ */
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** A price as published by one source */
+export interface SourceQuote {
+    price: number;
+    /** When the source published the price, in milliseconds */
+    publishedAt: number;
+    /** Half-width of the source's confidence interval, in USD (when it gives one) */
+    confidence?: number;
+}
+
+export interface PriceSource {
+    /** e.g. 'coingecko' */
+    name: string;
+    /** Prices published between `from` and `to` (milliseconds), oldest first */
+    fetchHistory(asset: string, from: number, to: number): Promise<SourceQuote[]>;
+}
+
+/** The time a price is wanted for */
+export interface PriceWindow {
+    /** Time priced, in milliseconds */
+    at: number;
+    /** Average over this many seconds up to `at` (0 for the price at `at`) */
+    twapSeconds: number;
+}
+
+/** What a source answered, before it was checked */
+export interface SourceResult {
+    source: string;
+    quote?: SourceQuote;
+    error?: string;
+}
+
+export type QuoteStatus = 'ACCEPTED' | 'FAILED' | 'INVALID' | 'STALE' | 'LOW_CONFIDENCE';
+
+/** A source's answer and whether it counted */
+export interface SourceEvidence {
+    source: string;
+    status: QuoteStatus;
+    price: number | null;
+    confidence: number | null;
+    publishedAt: string | null;
+    error?: string;
+}
+
+export interface AggregationConfig {
+    /** Accepted sources needed for a price */
+    minSources: number;
+    /** Oldest a price may be at the time priced, in milliseconds */
+    maxAgeMs: number;
+    /** Widest confidence interval accepted, as a fraction of the price */
+    maxConfidence: number;
+    /** Furthest an accepted price may be from the median, as a fraction of it */
+    maxDeviation: number;
+}
+
+/** Everything a resolution price was (or failed to be) derived from */
+export interface PriceEvidence {
+    asset: string;
+    /** Median of the accepted prices, null when no price was given */
+    price: number | null;
+    /** Largest distance of an accepted price from the median, as a fraction of it */
+    deviation: number | null;
+    /** When the median price was published (the later middle one for an even count) */
+    publishedAt: string | null;
+    /** Time priced, and the TWAP window ending then (0 for a spot price) */
+    pricedAt: string;
+    twapSeconds: number;
+    sources: SourceEvidence[];
+    aggregatedAt: string;
+    config: AggregationConfig;
+}
+
+export const DEFAULT_AGGREGATION_CONFIG: AggregationConfig = {
+    minSources: 2,
+    maxAgeMs: 5 * 60 * 1000,
+    maxConfidence: 0.01,
+    maxDeviation: 0.01
+};
+
+/** How long a source gets to answer */
+export const SOURCE_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * How far before the window a source's history is searched, so a price too
+ * old to use shows as STALE rather than missing
+ */
+const HISTORY_LOOKBACK_MS = 60 * 60 * 1000;
+
+export type OracleAggregationErrorCode = 'INSUFFICIENT_SOURCES' | 'SOURCES_DISAGREE';
+
+/**
+ * Thrown when the sources don't agree on a price. Carries the evidence, so
+ * the refusal can be reported like a resolution.
+ */
+export class OracleAggregationError extends Error {
+    constructor(
+        public readonly code: OracleAggregationErrorCode,
+        message: string,
+        public readonly evidence: PriceEvidence
+    ) {
+        super(message);
+        this.name = 'OracleAggregationError';
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// AGGREGATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Median of a non-empty list of numbers
+ */
+export function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Check a source's answer for the time `at` against the config
+ */
+export function checkSourceResult(result: SourceResult, config: AggregationConfig, at: number): SourceEvidence {
+    const quote = result.quote;
+    if (!quote) {
+        return { source: result.source, status: 'FAILED', price: null, confidence: null, publishedAt: null, error: result.error ?? 'No answer' };
+    }
+
+    const evidence: SourceEvidence = {
+        source: result.source,
+        status: 'ACCEPTED',
+        price: quote.price,
+        confidence: quote.confidence ?? null,
+        publishedAt: Number.isFinite(quote.publishedAt) ? new Date(quote.publishedAt).toISOString() : null
+    };
+
+    if (!Number.isFinite(quote.price) || quote.price <= 0 || evidence.publishedAt === null || quote.publishedAt > at) {
+        evidence.status = 'INVALID';
+    } else if (at - quote.publishedAt > config.maxAgeMs) {
+        evidence.status = 'STALE';
+    } else if (quote.confidence !== undefined && !(quote.confidence <= quote.price * config.maxConfidence)) {
+        evidence.status = 'LOW_CONFIDENCE';
+    }
+    return evidence;
+}
+
+/**
+ * Aggregate the sources' answers into one price
+ *
+ * @param asset Asset priced
+ * @param results What each source answered
+ * @param config Thresholds the answers are held to
+ * @param window Time priced
+ * @throws OracleAggregationError when too few sources are accepted or they disagree
+ */
+export function aggregateQuotes(
+    asset: string,
+    results: SourceResult[],
+    config: AggregationConfig = DEFAULT_AGGREGATION_CONFIG,
+    window: PriceWindow = { at: Date.now(), twapSeconds: 0 }
+): PriceEvidence {
+    const sources = results.map(result => checkSourceResult(result, config, window.at));
+    const accepted = sources
+        .filter(source => source.status === 'ACCEPTED')
+        .sort((a, b) => a.price! - b.price!);
+
+    const evidence: PriceEvidence = {
+        asset,
+        price: null,
+        deviation: null,
+        publishedAt: null,
+        pricedAt: new Date(window.at).toISOString(),
+        twapSeconds: window.twapSeconds,
+        sources,
+        aggregatedAt: new Date().toISOString(),
+        config
+    };
+
+    if (accepted.length === 0 || accepted.length < config.minSources) {
+        throw new OracleAggregationError(
+            'INSUFFICIENT_SOURCES',
+            `${accepted.length} of ${sources.length} sources gave a usable ${asset} price, ${Math.max(config.minSources, 1)} needed`,
+            evidence
+        );
+    }
+
+    const prices = accepted.map(source => source.price!);
+    const price = median(prices);
+    evidence.deviation = Math.max(...prices.map(p => Math.abs(p - price) / price));
+
+    if (evidence.deviation > config.maxDeviation) {
+        throw new OracleAggregationError(
+            'SOURCES_DISAGREE',
+            `${asset} sources disagree by ${(evidence.deviation * 100).toFixed(2)}% of the median, at most ${(config.maxDeviation * 100).toFixed(2)}% allowed`,
+            evidence
+        );
+    }
+
+    const middle = accepted.slice((accepted.length - 1) >> 1, (accepted.length >> 1) + 1);
+    evidence.publishedAt = middle.map(source => source.publishedAt!).sort().at(-1)!;
+    evidence.price = price;
+    return evidence;
+}
+
+/**
+ * The price a source's history gives for the window: the latest point by
+ * `at`, or the time-weighted average over the window. Undefined when the
+ * history has no point by the start of the window.
+ *
+ * @param points Prices published up to `window.at`, oldest first
+ */
+export function windowQuote(points: SourceQuote[], window: PriceWindow): SourceQuote | undefined {
+    const upTo = points.filter(point => point.publishedAt <= window.at);
+    if (window.twapSeconds <= 0) return upTo.at(-1);
+
+    const from = window.at - window.twapSeconds * 1000;
+    const before = upTo.filter(point => point.publishedAt <= from).length;
+    if (before === 0) return undefined;
+
+    // Each price holds from its publication (or the window's start) until the next one
+    const used = upTo.slice(before - 1);
+    let weighted = 0;
+    used.forEach((point, i) => {
+        const start = Math.max(point.publishedAt, from);
+        const end = i + 1 < used.length ? used[i + 1].publishedAt : window.at;
+        weighted += point.price * (end - start);
+    });
+
+    const confidences = used.map(point => point.confidence).filter((c): c is number => c !== undefined);
+    return {
+        price: window.at > from ? weighted / (window.at - from) : used[0].price,
+        publishedAt: used[used.length - 1].publishedAt,
+        confidence: confidences.length > 0 ? Math.max(...confidences) : undefined
+    };
+}
+
+/**
+ * Ask every source for the asset's price over the window and aggregate the
+ * answers
+ *
+ * @throws OracleAggregationError when the sources don't agree on a price
+ */
+export async function aggregatePrice(
+    asset: string,
+    sources: PriceSource[],
+    window: PriceWindow,
+    config: AggregationConfig = DEFAULT_AGGREGATION_CONFIG
+): Promise<PriceEvidence> {
+    // Reach back far enough to find the price holding at the window's start
+    const from = window.at - window.twapSeconds * 1000 - Math.max(config.maxAgeMs, HISTORY_LOOKBACK_MS);
+
+    const results = await Promise.all(sources.map(async (source): Promise<SourceResult> => {
+        try {
+            const points = await withTimeout(source.fetchHistory(asset, from, window.at), SOURCE_TIMEOUT_MS, source.name);
+            const quote = windowQuote(points, window);
+            if (!quote) {
+                return { source: source.name, error: `No price published between ${new Date(from).toISOString()} and ${new Date(window.at).toISOString()}` };
+            }
+            return { source: source.name, quote };
+        } catch (err) {
+            return { source: source.name, error: err instanceof Error ? err.message : String(err) };
+        }
+    }));
+
+    return aggregateQuotes(asset, results, config, window);
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, name: string): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`${name} did not answer within ${ms}ms`)), ms);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
@@ -0,0 +1,105 @@
+/**
+ * Oracle Fixtures - Recorded price series replayed as oracle providers
+ *
+ * A fixture holds, per recorded source, the price series of every asset:
+ *
+ *   {
+ *     "coingecko": { "BTC": [{ "publishedAt": "2026-01-01T00:00:00Z", "price": 97000 }] },
+ *     "pyth": { "BTC": [{ "publishedAt": 1767225600000, "price": 97010, "confidence": 20 }] }
+ *   }
+ *
+ * Each source becomes a provider named `fixture:<source>` serving its
+ * series as price history, up to the replay clock. Nothing touches the
+ * network, so resolution can be exercised offline and gives the same answer
+ * on every run. Points are replayed at their recorded times, or shifted so the
+ * earliest one is published at `replayFrom`.
+ */
+
+import { readFile } from 'fs/promises';
+import { SourceQuote } from './oracle-aggregator';
+import { OracleProvider } from './oracle-providers';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface FixturePoint {
+    /** ISO timestamp or milliseconds */
+    publishedAt: string | number;
+    price: number;
+    confidence?: number;
+}
+
+/** Price series by source, then by asset */
+export type OracleFixture = Record<string, Record<string, FixturePoint[]>>;
+
+export interface FixtureReplayOptions {
+    /** Clock the series are replayed against: nothing later is published (Date.now by default) */
+    now?: () => number;
+    /** Shift every series so the fixture's earliest point is published at this time */
+    replayFrom?: number;
+}
+
+const FIXTURE_FETCH_TIMEOUT_MS = 10 * 1000;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PROVIDERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * One provider per source of the fixture
+ * @throws when a point has no valid time or price
+ */
+export function createFixtureProviders(fixture: OracleFixture, options: FixtureReplayOptions = {}): OracleProvider[] {
+    const now = options.now ?? Date.now;
+
+    const series = Object.entries(fixture).map(([source, assets]) => ({
+        source,
+        assets: new Map(Object.entries(assets).map(([asset, points]) => [asset.toUpperCase(), parseSeries(source, asset, points)]))
+    }));
+
+    const earliest = Math.min(...series.flatMap(s => [...s.assets.values()].map(points => points[0]?.publishedAt ?? Infinity)));
+    const shift = options.replayFrom !== undefined && Number.isFinite(earliest) ? options.replayFrom - earliest : 0;
+
+    return series.map(({ source, assets }) => ({
+        name: `fixture:${source}`,
+        assets: [...assets.keys()],
+        async fetchHistory(asset, from, to): Promise<SourceQuote[]> {
+            const points = assets.get(asset.toUpperCase());
+            if (!points) throw new Error(`fixture:${source} has no ${asset} price`);
+
+            const until = Math.min(to, now());
+            return points
+                .map(point => ({ ...point, publishedAt: point.publishedAt + shift }))
+                .filter(point => point.publishedAt >= from && point.publishedAt <= until);
+        }
+    }));
+}
+
+/**
+ * Read a fixture from a file or an http(s) URL and replay it
+ */
+export async function loadOracleFixtures(location: string, options: FixtureReplayOptions = {}): Promise<OracleProvider[]> {
+    let text: string;
+    if (/^https?:\/\//.test(location)) {
+        const response = await fetch(location, { signal: AbortSignal.timeout(FIXTURE_FETCH_TIMEOUT_MS) });
+        if (!response.ok) throw new Error(`Failed to fetch oracle fixture ${location}: ${response.status}`);
+        text = await response.text();
+    } else {
+        text = await readFile(location, 'utf8');
+    }
+    return createFixtureProviders(JSON.parse(text) as OracleFixture, options);
+}
+
+/** A series' points as quotes, oldest first */
+function parseSeries(source: string, asset: string, points: FixturePoint[]): SourceQuote[] {
+    return points
+        .map(point => {
+            const publishedAt = typeof point.publishedAt === 'number' ? point.publishedAt : new Date(point.publishedAt).getTime();
+            if (!Number.isFinite(publishedAt) || typeof point.price !== 'number') {
+                throw new Error(`Invalid fixture point for ${source} ${asset}: ${JSON.stringify(point)}`);
+            }
+            return { price: point.price, publishedAt, confidence: point.confidence };
+        })
+        .sort((a, b) => a.publishedAt - b.publishedAt);
+}
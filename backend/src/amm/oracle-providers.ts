@@ -0,0 +1,349 @@
+/**
+ * Oracle Providers - The price feeds resolution prices are aggregated from
+ *
+ * Every feed is an OracleProvider: a named PriceSource (see
+ * oracle-aggregator.ts) serving an asset's price history, that also lists
+ * the assets it prices. Resolution
+ * asks every registered provider, so adding a feed is a matter of
+ * registering it here; nothing in the resolver changes.
+ *
+ * Built in:
+ * - coingecko: CoinGecko market charts
+ * - coinbase: Coinbase Exchange candles
+ * - pyth: Pyth Hermes historical updates (feeds from PYTH_FEEDS, BTC / ETH /
+ *   SOL by default)
+ * - chainlink: Chainlink aggregators read on-chain, registered when
+ *   CHAINLINK_RPC_URL is set (feeds from CHAINLINK_FEEDS)
+ * - fixture:<name>: recorded price series replayed offline (oracle-fixtures.ts)
+ *
+ * The registry is created from the environment on first use; setOracleProviders
+ * swaps it, e.g. for fixtures in a test.
+ */
+
+import { createPublicClient, http, parseAbi, isAddress, type Address } from 'viem';
+import { PythPriceService } from '../markets/pyth-oracle';
+import { PriceSource, SourceQuote } from './oracle-aggregator';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface OracleProvider extends PriceSource {
+    /** Assets the provider prices, e.g. ['BTC', 'ETH'] */
+    readonly assets: string[];
+}
+
+/** An asset and the providers pricing it */
+export interface OracleAsset {
+    asset: string;
+    providers: string[];
+}
+
+const PRICE_FETCH_TIMEOUT_MS = 10 * 1000;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// REGISTRY
+// ═══════════════════════════════════════════════════════════════════════════
+
+let activeProviders: Map<string, OracleProvider> | null = null;
+
+function registry(): Map<string, OracleProvider> {
+    activeProviders ??= new Map(createDefaultOracleProviders().map(provider => [provider.name, provider]));
+    return activeProviders;
+}
+
+/**
+ * Every registered provider, in registration order
+ */
+export function getOracleProviders(): OracleProvider[] {
+    return [...registry().values()];
+}
+
+export function getOracleProvider(name: string): OracleProvider | undefined {
+    return registry().get(name);
+}
+
+/**
+ * Add a provider, replacing any registered under the same name
+ */
+export function registerOracleProvider(provider: OracleProvider): void {
+    registry().set(provider.name, provider);
+}
+
+export function unregisterOracleProvider(name: string): boolean {
+    return registry().delete(name);
+}
+
+/**
+ * Replace every registered provider, e.g. with fixtures in a test
+ */
+export function setOracleProviders(providers: OracleProvider[]): void {
+    activeProviders = new Map(providers.map(provider => [provider.name, provider]));
+}
+
+/**
+ * Every asset some provider prices, with the providers pricing it
+ */
+export function listOracleAssets(): OracleAsset[] {
+    const assets = new Map<string, string[]>();
+    for (const provider of getOracleProviders()) {
+        for (const asset of provider.assets) {
+            assets.set(asset, [...(assets.get(asset) ?? []), provider.name]);
+        }
+    }
+    return [...assets.entries()]
+        .map(([asset, providers]) => ({ asset, providers }))
+        .sort((a, b) => a.asset.localeCompare(b.asset));
+}
+
+/**
+ * The providers the environment configures: CoinGecko, Coinbase and Pyth,
+ * plus Chainlink when CHAINLINK_RPC_URL is set
+ */
+export function createDefaultOracleProviders(): OracleProvider[] {
+    const providers = [
+        createCoinGeckoProvider(),
+        createCoinbaseProvider(),
+        createPythProvider(process.env.PYTH_FEEDS ? parseFeedList(process.env.PYTH_FEEDS) : undefined)
+    ];
+
+    if (process.env.CHAINLINK_RPC_URL) {
+        const feeds = process.env.CHAINLINK_FEEDS ? parseFeedList(process.env.CHAINLINK_FEEDS) : undefined;
+        providers.push(createChainlinkProvider(process.env.CHAINLINK_RPC_URL, feeds));
+    }
+    return providers;
+}
+
+/**
+ * Parse a feed list like `BTC=0xabc,ETH=0xdef`
+ */
+export function parseFeedList(list: string): Record<string, string> {
+    const feeds: Record<string, string> = {};
+    for (const entry of list.split(',').map(e => e.trim()).filter(Boolean)) {
+        const [asset, feed] = entry.split('=').map(part => part.trim());
+        if (!asset || !feed) throw new Error(`Invalid feed entry "${entry}" (expected ASSET=feed)`);
+        feeds[asset.toUpperCase()] = feed;
+    }
+    return feeds;
+}
+
+function unsupported(provider: string, asset: string): Error {
+    return new Error(`${provider} has no ${asset} price`);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// COINGECKO
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const COINGECKO_IDS: Record<string, string> = {
+    'BTC': 'bitcoin',
+    'ETH': 'ethereum',
+    'SOL': 'solana',
+    'USDC': 'usd-coin',
+    'USDT': 'tether',
+    'BNB': 'binancecoin',
+    'XRP': 'ripple',
+    'ADA': 'cardano',
+    'DOGE': 'dogecoin',
+    'AVAX': 'avalanche-2',
+    'DOT': 'polkadot',
+    'MATIC': 'matic-network',
+    'LINK': 'chainlink',
+    'UNI': 'uniswap',
+    'ATOM': 'cosmos',
+    'ARB': 'arbitrum',
+    'OP': 'optimism',
+};
+
+/**
+ * Prices from CoinGecko's market chart (5-minutely for the last day,
+ * hourly before that)
+ *
+ * @param ids CoinGecko coin id of every asset
+ */
+export function createCoinGeckoProvider(ids: Record<string, string> = COINGECKO_IDS): OracleProvider {
+    return {
+        name: 'coingecko',
+        assets: Object.keys(ids),
+        async fetchHistory(asset, from, to): Promise<SourceQuote[]> {
+            const coingeckoId = ids[asset.toUpperCase()];
+            if (!coingeckoId) throw unsupported('coingecko', asset);
+
+            const response = await fetch(
+                `https://api.coingecko.com/api/v3/coins/${coingeckoId}/market_chart/range?vs_currency=usd&from=${Math.floor(from / 1000)}&to=${Math.ceil(to / 1000)}`,
+                { signal: AbortSignal.timeout(PRICE_FETCH_TIMEOUT_MS) }
+            );
+
+            if (!response.ok) {
+                throw new Error(`CoinGecko API error: ${response.status}`);
+            }
+
+            const data = await response.json();
+            if (!Array.isArray(data.prices)) {
+                throw new Error(`No CoinGecko price data for ${asset}`);
+            }
+
+            return (data.prices as [number, number][])
+                .map(([publishedAt, price]) => ({ price, publishedAt }))
+                .filter(point => point.publishedAt >= from && point.publishedAt <= to)
+                .sort((a, b) => a.publishedAt - b.publishedAt);
+        }
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// COINBASE
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Assets with a <ASSET>-USD product on Coinbase Exchange */
+export const COINBASE_ASSETS = ['BTC', 'ETH', 'SOL', 'USDT', 'XRP', 'ADA', 'DOGE', 'AVAX', 'DOT', 'LINK', 'UNI', 'ATOM', 'ARB', 'OP'];
+
+/** Candle sizes Coinbase Exchange serves, in seconds */
+const COINBASE_GRANULARITIES = [60, 300, 900, 3600, 21600, 86400];
+
+/** Most candles Coinbase Exchange returns per request */
+const COINBASE_MAX_CANDLES = 300;
+
+/**
+ * Candle closes from Coinbase Exchange, each published when its candle
+ * closes (the finest candles that cover the range in one request)
+ */
+export function createCoinbaseProvider(assets: string[] = COINBASE_ASSETS): OracleProvider {
+    return {
+        name: 'coinbase',
+        assets,
+        async fetchHistory(asset, from, to): Promise<SourceQuote[]> {
+            if (!assets.includes(asset.toUpperCase())) throw unsupported('coinbase', asset);
+
+            const granularity = COINBASE_GRANULARITIES.find(g => (to - from) / (g * 1000) < COINBASE_MAX_CANDLES)
+                ?? COINBASE_GRANULARITIES[COINBASE_GRANULARITIES.length - 1];
+            const start = new Date(from - granularity * 1000).toISOString();
+            const end = new Date(to).toISOString();
+
+            const response = await fetch(
+                `https://api.exchange.coinbase.com/products/${asset.toUpperCase()}-USD/candles?granularity=${granularity}&start=${start}&end=${end}`,
+                { signal: AbortSignal.timeout(PRICE_FETCH_TIMEOUT_MS) }
+            );
+
+            if (!response.ok) {
+                throw new Error(`Coinbase API error: ${response.status}`);
+            }
+
+            // [time, low, high, open, close, volume], newest first
+            const candles = await response.json() as number[][];
+            return candles
+                .map(([time, , , , close]) => ({ price: close, publishedAt: (time + granularity) * 1000 }))
+                .filter(point => point.publishedAt >= from && point.publishedAt <= to)
+                .sort((a, b) => a.publishedAt - b.publishedAt);
+        }
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PYTH
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Pyth feed ids of PythPriceService.FEEDS, by asset */
+export const PYTH_FEEDS: Record<string, string> = Object.fromEntries(
+    Object.entries(PythPriceService.FEEDS).map(([pair, feedId]) => [pair.replace(/_USD$/, ''), feedId])
+);
+
+/** Most historical prices asked of Hermes for one range */
+const PYTH_MAX_SAMPLES = 20;
+
+/**
+ * Prices from Hermes' historical updates, sampled across the range at
+ * most once a minute
+ *
+ * @param feeds Pyth feed id of every asset
+ */
+export function createPythProvider(feeds: Record<string, string> = PYTH_FEEDS): OracleProvider {
+    let service: PythPriceService | null = null;
+
+    return {
+        name: 'pyth',
+        assets: Object.keys(feeds),
+        async fetchHistory(asset, from, to): Promise<SourceQuote[]> {
+            const feedId = feeds[asset.toUpperCase()];
+            if (!feedId) throw unsupported('pyth', asset);
+
+            service ??= new PythPriceService(process.env.PYTH_ENDPOINT);
+            const step = Math.max(60 * 1000, Math.ceil((to - from) / (PYTH_MAX_SAMPLES - 1)));
+            const times: number[] = [];
+            for (let at = to; at >= from; at -= step) times.push(at);
+
+            const prices = await Promise.all(times.map(at => service!.getPriceAt(feedId, at)));
+            const byTime = new Map(prices.map(p => [p.publishTime, p]));
+            return [...byTime.values()]
+                .filter(p => p.publishTime >= from && p.publishTime <= to)
+                .map(p => ({ price: p.price, publishedAt: p.publishTime, confidence: p.confidence }))
+                .sort((a, b) => a.publishedAt - b.publishedAt);
+        }
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CHAINLINK
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Chainlink USD aggregators on Ethereum mainnet, by asset */
+export const CHAINLINK_FEEDS: Record<string, Address> = {
+    'BTC': '0xF4030086522a5bEEa4988F8cA5B36dbC97BeE88c',
+    'ETH': '0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419',
+    'LINK': '0x2c1d072e956AFFC0D435Cb7AC38EF18d24d9127c',
+};
+
+/** Most rounds read walking back through an aggregator's history */
+const CHAINLINK_MAX_ROUNDS = 50;
+
+const AGGREGATOR_V3_ABI = parseAbi([
+    'function decimals() view returns (uint8)',
+    'function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)',
+    'function getRoundData(uint80 roundId) view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)'
+]);
+
+/**
+ * Reads Chainlink aggregators (AggregatorV3Interface) over JSON-RPC,
+ * walking back from the latest round through the range
+ *
+ * @param rpcUrl RPC endpoint of the chain the aggregators live on
+ * @param feeds Aggregator address of every asset
+ */
+export function createChainlinkProvider(rpcUrl: string, feeds: Record<string, string> = CHAINLINK_FEEDS): OracleProvider {
+    for (const [asset, address] of Object.entries(feeds)) {
+        if (!isAddress(address)) throw new Error(`Invalid Chainlink feed address for ${asset}: ${address}`);
+    }
+    const client = createPublicClient({ transport: http(rpcUrl, { timeout: PRICE_FETCH_TIMEOUT_MS }) });
+
+    return {
+        name: 'chainlink',
+        assets: Object.keys(feeds),
+        async fetchHistory(asset, from, to): Promise<SourceQuote[]> {
+            const address = feeds[asset.toUpperCase()] as Address | undefined;
+            if (!address) throw unsupported('chainlink', asset);
+
+            const [decimals, latest] = await Promise.all([
+                client.readContract({ address, abi: AGGREGATOR_V3_ABI, functionName: 'decimals' }),
+                client.readContract({ address, abi: AGGREGATOR_V3_ABI, functionName: 'latestRoundData' })
+            ]);
+
+            const points: SourceQuote[] = [];
+            let [roundId, answer, , updatedAt] = latest;
+            for (let read = 1; ; read++) {
+                const publishedAt = Number(updatedAt) * 1000;
+                if (publishedAt < from) break;
+                if (publishedAt <= to) points.push({ price: Number(answer) / 10 ** decimals, publishedAt });
+
+                // Round ids count up from 1 within each phase (the top bits)
+                if (read >= CHAINLINK_MAX_ROUNDS || (roundId & 0xffffffffffffffffn) <= 1n) break;
+                [roundId, answer, , updatedAt] = await client.readContract({
+                    address,
+                    abi: AGGREGATOR_V3_ABI,
+                    functionName: 'getRoundData',
+                    args: [roundId - 1n]
+                });
+            }
+            return points.reverse();
+        }
+    };
+}
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ONE_USDC } from './index';
+import { createMarketDB, resolveMarketDB } from './db-pool-manager';
+import * as db from '../db/amm-repository';
+import { MemoryStore } from '../db/memory-store';
+import { runOracleResolutionPass, getOracleSchedulerStatus, oracleRetryDelay } from './oracle-scheduler';
+import { setOracleProviders } from './oracle-providers';
+import { OracleFixture, createFixtureProviders } from './oracle-fixtures';
+import { DEFAULT_AGGREGATION_CONFIG } from './oracle-aggregator';
+
+const CREATOR = 'oracle-creator';
+
+/**
+ * Recorded prices (replayed so the latest points were published a second
+ * ago): BTC agrees, ETH has an outlier and SOL is fresh on one source only
+ */
+const PRICE_SERIES: OracleFixture = {
+    a: {
+        BTC: [{ publishedAt: 600_000, price: 99_000 }, { publishedAt: 660_000, price: 100_040 }],
+        ETH: [{ publishedAt: 660_000, price: 3_000 }],
+        SOL: [{ publishedAt: 0, price: 150 }]
+    },
+    b: {
+        BTC: [{ publishedAt: 660_000, price: 100_010, confidence: 20 }],
+        ETH: [{ publishedAt: 660_000, price: 3_001 }],
+        SOL: [{ publishedAt: 0, price: 151 }]
+    },
+    c: {
+        BTC: [{ publishedAt: 660_000, price: 99_990 }],
+        ETH: [{ publishedAt: 660_000, price: 4_500 }],
+        SOL: [{ publishedAt: 660_000, price: 152 }]
+    }
+};
+
+let replayFrom = 0;
+
+async function oracleMarket(marketId: string, asset: string, expiresAt = new Date(Date.now() - 1000)): Promise<string> {
+    await createMarketDB({
+        marketId,
+        title: `Oracle ${asset} test`,
+        expiresAt,
+        initialLiquidity: 100n * ONE_USDC,
+        creatorId: CREATOR,
+        resolutionType: 'oracle',
+        oracleConfig: { type: 'price', asset, condition: '>', targetPrice: 100_000 }
+    });
+    return marketId;
+}
+
+const retryFor = (marketId: string) => getOracleSchedulerStatus().retries.find(r => r.marketId === marketId);
+
+beforeEach(async () => {
+    db.setStore(new MemoryStore());
+    replayFrom = Date.now() - 661_000;
+    setOracleProviders(createFixtureProviders(PRICE_SERIES, { replayFrom }));
+    await db.createSession(CREATOR, CREATOR, 10_000n * ONE_USDC, 'oracle-test');
+});
+
+describe('runOracleResolutionPass', () => {
+    it('resolves at the median of agreeing sources, recording the price as of expiry', async () => {
+        const marketId = await oracleMarket('agreed', 'BTC');
+
+        const resolution = (await runOracleResolutionPass()).find(r => r.marketId === marketId);
+        expect(resolution).toMatchObject({ resolutionValue: 'YES', price: 100_010 });
+
+        const row = (await db.getMarket(marketId))!;
+        expect(row.status).toBe('RESOLVED');
+        expect(row.oracle_price).toBe(100_010);
+        expect(row.oracle_source).toBe('fixture:a+fixture:b+fixture:c');
+        expect(row.oracle_evidence?.sources.map(s => s.status)).toEqual(['ACCEPTED', 'ACCEPTED', 'ACCEPTED']);
+
+        const median = row.oracle_evidence!.sources.find(s => s.source === 'fixture:b')!;
+        expect(new Date(row.oracle_published_at!).getTime()).toBe(new Date(median.publishedAt!).getTime());
+        expect(new Date(row.oracle_published_at!).getTime()).toBeLessThanOrEqual(new Date(row.expires_at).getTime());
+    });
+
+    it('leaves a market open when its sources disagree or are stale', async () => {
+        const divergentId = await oracleMarket('divergent', 'ETH');
+        const staleId = await oracleMarket('stale', 'SOL');
+        await runOracleResolutionPass();
+
+        expect((await db.getMarket(divergentId))!.status).toBe('ACTIVE');
+        const divergent = retryFor(divergentId)?.lastEvidence;
+        expect(divergent?.price).toBeNull();
+        expect(divergent?.deviation).toBeGreaterThan(DEFAULT_AGGREGATION_CONFIG.maxDeviation);
+
+        expect((await db.getMarket(staleId))!.status).toBe('ACTIVE');
+        expect(retryFor(staleId)?.lastEvidence?.sources.filter(s => s.status === 'STALE')).toHaveLength(2);
+    });
+
+    it('prices a market as of its expiry, not when it is resolved', async () => {
+        // Expired before b and c published: only a's first price counts
+        const expiresAt = new Date(replayFrom + 630_000);
+        const marketId = await oracleMarket('early', 'BTC', expiresAt);
+        await runOracleResolutionPass();
+
+        expect((await db.getMarket(marketId))!.status).toBe('ACTIVE');
+        const evidence = retryFor(marketId)?.lastEvidence;
+        expect(evidence?.pricedAt).toBe(expiresAt.toISOString());
+        expect(evidence?.sources.find(s => s.source === 'fixture:a')?.price).toBe(99_000);
+        expect(evidence?.sources.filter(s => s.status === 'FAILED')).toHaveLength(2);
+    });
+
+    it('leaves a market unsettled when its observation cannot be recorded', async () => {
+        const marketId = await oracleMarket('unrecorded', 'BTC');
+        vi.spyOn(MemoryStore.prototype, 'recordOracleObservation').mockRejectedValueOnce(new Error('observations unavailable'));
+
+        const start = Date.now();
+        expect(await runOracleResolutionPass(start)).toEqual([]);
+        expect((await db.getMarket(marketId))!.status).toBe('ACTIVE');
+        expect(retryFor(marketId)?.lastError).toBe('observations unavailable');
+
+        await runOracleResolutionPass(start + oracleRetryDelay(1));
+        const row = (await db.getMarket(marketId))!;
+        expect(row.status).toBe('RESOLVED');
+        expect(row.oracle_price).toBe(100_010);
+    });
+
+    it('retries a failed resolution with growing backoff until the market is resolved', async () => {
+        // No provider prices this asset, so every observation fails
+        await createMarketDB({
+            marketId: 'unlisted',
+            title: 'Oracle test',
+            expiresAt: new Date(Date.now() - 1000),
+            initialLiquidity: 100n * ONE_USDC,
+            creatorId: CREATOR,
+            resolutionType: 'oracle',
+            oracleConfig: { type: 'price', asset: 'UNLISTED', condition: '>', targetPrice: 1 }
+        });
+
+        const start = Date.now();
+        expect((await runOracleResolutionPass(start)).some(r => r.marketId === 'unlisted')).toBe(false);
+        expect((await db.getMarket('unlisted'))!.status).toBe('ACTIVE');
+        expect(retryFor('unlisted')?.attempts).toBe(1);
+        const refusal = retryFor('unlisted')?.lastEvidence;
+        expect(refusal?.price).toBeNull();
+        expect(refusal?.sources.length).toBeGreaterThan(0);
+        expect(refusal?.sources.every(source => source.status === 'FAILED')).toBe(true);
+
+        await runOracleResolutionPass(start + oracleRetryDelay(1) - 1);
+        expect(retryFor('unlisted')?.attempts).toBe(1);
+
+        await runOracleResolutionPass(start + oracleRetryDelay(1));
+        expect(retryFor('unlisted')?.attempts).toBe(2);
+        expect(oracleRetryDelay(2)).toBeGreaterThan(oracleRetryDelay(1));
+        expect(new Date(retryFor('unlisted')!.nextAttemptAt).getTime()).toBe(start + oracleRetryDelay(1) + oracleRetryDelay(2));
+
+        // Resolved by hand: the scheduler stops retrying it
+        await resolveMarketDB('unlisted', 'NO');
+        await runOracleResolutionPass(start + oracleRetryDelay(1) + oracleRetryDelay(2));
+        expect(retryFor('unlisted')).toBeUndefined();
+    });
+});
@@ -0,0 +1,279 @@
+/**
+ * Oracle Scheduler - Automatic resolution of expired oracle markets
+ *
+ * Each pass picks up the oracle markets past expiry, observes the price their
+ * oracle config resolves against as of their expiry (aggregated from several
+ * sources' price history, see oracle-aggregator.ts) and resolves them through
+ * resolveMarketDB, recording on the market the price, when it was published
+ * and the evidence it was aggregated from. Markets with a
+ * dispute window get their resolution proposed, like any other resolution.
+ *
+ * A market that can't be resolved (sources down or disagreeing, bad oracle
+ * config, resolution refused) is retried with exponential backoff, from
+ * ORACLE_RETRY_BASE_MS up to ORACLE_RETRY_MAX_MS. The scheduler's state lives
+ * in memory and is served by the status endpoint.
+ */
+
+import * as db from '../db/amm-repository';
+import { OutcomeRef } from './types';
+import { resolveMarketDB } from './db-pool-manager';
+import { parseOracleConfig, checkPriceResolution, checkScalarResolution } from './oracle-service';
+import { PriceEvidence } from './oracle-aggregator';
+
+export const DEFAULT_ORACLE_RESOLUTION_INTERVAL_MS = 60 * 1000;
+
+/** Delay before the first retry of a failed market, doubled on every failure */
+export const ORACLE_RETRY_BASE_MS = 30 * 1000;
+
+export const ORACLE_RETRY_MAX_MS = 60 * 60 * 1000;
+
+/** Resolutions kept for the status endpoint */
+const RECENT_RESOLUTIONS_KEPT = 20;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** What an oracle market resolves to, and the price observed to decide it */
+export interface OracleObservation {
+    winner: OutcomeRef;
+    price: number;
+    source: string;
+    /** When the price used was published (at or before expiry) */
+    publishedAt: Date;
+    observedAt: Date;
+    evidence: PriceEvidence;
+}
+
+/**
+ * Thrown when an oracle market's price can't be observed, with the evidence
+ * of the sources' answers when they were asked
+ */
+export class OracleObservationError extends Error {
+    constructor(message: string, public readonly evidence: PriceEvidence | null) {
+        super(message);
+        this.name = 'OracleObservationError';
+    }
+}
+
+export interface OracleResolution {
+    marketId: string;
+    status: 'PROPOSED' | 'RESOLVED';
+    resolutionValue: string;
+    price: number;
+    source: string;
+    publishedAt: string;
+    observedAt: string;
+}
+
+/** A market whose resolution failed, waiting for its retry */
+export interface OracleRetry {
+    marketId: string;
+    /** Failed attempts so far */
+    attempts: number;
+    lastError: string;
+    /** What the sources answered on the last attempt, when they were asked */
+    lastEvidence: PriceEvidence | null;
+    lastAttemptAt: string;
+    nextAttemptAt: string;
+}
+
+export interface OracleSchedulerStatus {
+    /** Whether the background job is running */
+    running: boolean;
+    intervalMs: number | null;
+    /** Whether a pass is in progress right now */
+    passInProgress: boolean;
+    lastPassAt: string | null;
+    lastPassError: string | null;
+    /** Markets resolved (or proposed) since startup */
+    totalResolved: number;
+    retries: OracleRetry[];
+    /** Latest resolutions, newest first */
+    recentResolutions: OracleResolution[];
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// STATE
+// ═══════════════════════════════════════════════════════════════════════════
+
+const retries = new Map<string, OracleRetry>();
+const recentResolutions: OracleResolution[] = [];
+let jobIntervalMs: number | null = null;
+let passInProgress = false;
+let lastPassAt: string | null = null;
+let lastPassError: string | null = null;
+let totalResolved = 0;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RESOLUTION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Delay before the next attempt after `attempts` failed ones
+ */
+export function oracleRetryDelay(attempts: number): number {
+    const exponent = Math.max(attempts - 1, 0);
+    return Math.min(ORACLE_RETRY_BASE_MS * 2 ** exponent, ORACLE_RETRY_MAX_MS);
+}
+
+/**
+ * Observe the price an oracle market resolves against
+ * @throws when the market has no usable oracle config, or an
+ *         OracleObservationError when the sources give no price
+ */
+export async function observeOracleMarket(row: db.MarketRow): Promise<OracleObservation> {
+    const oracle = parseOracleConfig(row.oracle_config);
+    if (!oracle?.config) throw new Error('Market has no price oracle config');
+
+    if (db.isScalarMarketRow(row)) {
+        // Scalar markets resolve to the price itself, whatever the config's condition
+        const { asset, toleranceSeconds, twapSeconds } = oracle.config;
+        const result = await checkScalarResolution({ type: 'scalar', asset, toleranceSeconds, twapSeconds }, new Date(row.expires_at));
+        if (!result.shouldResolve || result.value === null || !result.source || !result.evidence || result.publishedAt === null) {
+            throw new OracleObservationError(result.error ?? `No price for ${asset}`, result.evidence);
+        }
+        return {
+            winner: result.value,
+            price: result.value,
+            source: result.source,
+            publishedAt: new Date(result.publishedAt),
+            observedAt: new Date(result.timestamp),
+            evidence: result.evidence
+        };
+    }
+
+    if (oracle.config.type !== 'price') throw new Error('Binary oracle markets need a price condition');
+
+    const result = await checkPriceResolution(oracle.config, new Date(row.expires_at));
+    if (!result.shouldResolve || result.outcome === null || !result.source || !result.evidence || result.publishedAt === null) {
+        throw new OracleObservationError(result.error ?? `No price for ${oracle.config.asset}`, result.evidence);
+    }
+    return {
+        winner: result.outcome,
+        price: result.price,
+        source: result.source,
+        publishedAt: new Date(result.publishedAt),
+        observedAt: new Date(result.timestamp),
+        evidence: result.evidence
+    };
+}
+
+/**
+ * Resolve an expired oracle market from its oracle and record the price
+ * it was resolved against
+ */
+export async function resolveOracleMarketDB(row: db.MarketRow): Promise<OracleResolution> {
+    const observation = await observeOracleMarket(row);
+
+    // Record the evidence before settling: if it can't be stored, the attempt
+    // fails and is retried rather than paying out against an unrecorded price
+    await db.recordOracleObservation(row.market_id, observation);
+
+    // Resolve as the market's resolver so its authorization check passes
+    const resolution = await resolveMarketDB(row.market_id, observation.winner, row.resolver_address ?? 'oracle');
+
+    return {
+        marketId: row.market_id,
+        status: resolution.status,
+        resolutionValue: resolution.resolutionValue,
+        price: observation.price,
+        source: observation.source,
+        publishedAt: observation.publishedAt.toISOString(),
+        observedAt: observation.observedAt.toISOString()
+    };
+}
+
+/**
+ * Resolve every expired oracle market that isn't waiting for a retry
+ * @returns The markets resolved (or proposed) by this pass
+ */
+export async function runOracleResolutionPass(now: number = Date.now()): Promise<OracleResolution[]> {
+    const due = await db.getOracleMarketsToResolve();
+
+    // Markets resolved by hand (or cancelled) in the meantime no longer need retrying
+    const dueIds = new Set(due.map(row => row.market_id));
+    for (const marketId of retries.keys()) {
+        if (!dueIds.has(marketId)) retries.delete(marketId);
+    }
+
+    const resolved: OracleResolution[] = [];
+    for (const row of due) {
+        const retry = retries.get(row.market_id);
+        if (retry && new Date(retry.nextAttemptAt).getTime() > now) continue;
+
+        try {
+            const resolution = await resolveOracleMarketDB(row);
+            retries.delete(row.market_id);
+            resolved.push(resolution);
+            console.log(`[Oracle] ${resolution.status === 'PROPOSED' ? 'Proposed' : 'Resolved'} ${row.market_id}: ${resolution.resolutionValue} (${resolution.source} $${resolution.price} published ${resolution.publishedAt})`);
+        } catch (err) {
+            const attempts = (retry?.attempts ?? 0) + 1;
+            retries.set(row.market_id, {
+                marketId: row.market_id,
+                attempts,
+                lastError: err instanceof Error ? err.message : String(err),
+                lastEvidence: err instanceof OracleObservationError ? err.evidence : null,
+                lastAttemptAt: new Date(now).toISOString(),
+                nextAttemptAt: new Date(now + oracleRetryDelay(attempts)).toISOString()
+            });
+            console.error(`[Oracle] Resolving ${row.market_id} failed (attempt ${attempts}):`, err);
+        }
+    }
+
+    totalResolved += resolved.length;
+    recentResolutions.unshift(...[...resolved].reverse());
+    recentResolutions.splice(RECENT_RESOLUTIONS_KEPT);
+    return resolved;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SCHEDULER
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Run a resolution pass now and then every `intervalMs` (a pass still in
+ * progress is never overlapped)
+ * @returns Stops the scheduler
+ */
+export function startOracleScheduler(intervalMs: number = DEFAULT_ORACLE_RESOLUTION_INTERVAL_MS): () => void {
+    const tick = async () => {
+        if (passInProgress) return;
+        passInProgress = true;
+        try {
+            await runOracleResolutionPass();
+            lastPassError = null;
+        } catch (err) {
+            lastPassError = err instanceof Error ? err.message : String(err);
+            console.error('[Oracle] Resolution pass failed:', err);
+        } finally {
+            lastPassAt = new Date().toISOString();
+            passInProgress = false;
+        }
+    };
+
+    const timer = setInterval(tick, intervalMs);
+    jobIntervalMs = intervalMs;
+    void tick();
+
+    return () => {
+        clearInterval(timer);
+        jobIntervalMs = null;
+    };
+}
+
+/**
+ * The scheduler's current state
+ */
+export function getOracleSchedulerStatus(): OracleSchedulerStatus {
+    return {
+        running: jobIntervalMs !== null,
+        intervalMs: jobIntervalMs,
+        passInProgress,
+        lastPassAt,
+        lastPassError,
+        totalResolved,
+        retries: [...retries.values()].sort((a, b) => a.nextAttemptAt.localeCompare(b.nextAttemptAt)),
+        recentResolutions: [...recentResolutions]
+    };
+}
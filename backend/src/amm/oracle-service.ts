@@ -1,139 +1,93 @@
 /**
  * Oracle Service - Price Feed Integration for Market Resolution
  * 
- * Supports:
- * - Chainlink price feeds (via public APIs)
- * - CoinGecko fallback for price data
+ * Resolution prices are aggregated (see oracle-aggregator.ts) from every
+ * registered oracle provider (see oracle-providers.ts), as of the market's
+ * expiry however late it is resolved: the latest price published by then,
+ * no older than the config's tolerance, or a TWAP over a window ending then.
  */
 
+import { PriceEvidence, OracleAggregationError, DEFAULT_AGGREGATION_CONFIG, aggregatePrice } from './oracle-aggregator';
+import { getOracleProviders } from './oracle-providers';
+
 // ═══════════════════════════════════════════════════════════════════════════
 // TYPES
 // ═══════════════════════════════════════════════════════════════════════════
 
 export type PriceCondition = '>' | '<' | '>=' | '<=' | '==';
 
-export interface PriceOracleConfig {
+/** Which price at expiry a market resolves against */
+export interface OracleTiming {
+    /** Oldest a price may be at expiry, in seconds (DEFAULT_ORACLE_TOLERANCE_SECONDS when unset) */
+    toleranceSeconds?: number;
+    /** Resolve against the time-weighted average over this many seconds up to expiry */
+    twapSeconds?: number;
+}
+
+export const DEFAULT_ORACLE_TOLERANCE_SECONDS = DEFAULT_AGGREGATION_CONFIG.maxAgeMs / 1000;
+
+export const MAX_ORACLE_TOLERANCE_SECONDS = 24 * 60 * 60;
+
+export const MAX_TWAP_SECONDS = 24 * 60 * 60;
+
+export interface PriceOracleConfig extends OracleTiming {
     type: 'price';
     asset: string;           // e.g., 'BTC', 'ETH', 'SOL'
     condition: PriceCondition;
     targetPrice: number;     // Target price in USD
 }
 
-export interface OracleConfig {
-    type: 'price' | 'manual';
-    config?: PriceOracleConfig;
+/**
+ * Scalar markets resolve to the asset price itself; the range lives on
+ * the market (see scalar.ts)
+ */
+export interface ScalarOracleConfig extends OracleTiming {
+    type: 'scalar';
+    asset: string;           // e.g., 'BTC', 'ETH', 'SOL'
 }
 
-export interface PriceData {
-    asset: string;
-    price: number;
-    timestamp: number;
-    source: string;
+export interface OracleConfig {
+    type: 'price' | 'scalar' | 'manual';
+    config?: PriceOracleConfig | ScalarOracleConfig;
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
-// SUPPORTED ASSETS
-// ═══════════════════════════════════════════════════════════════════════════
-
-const COINGECKO_IDS: Record<string, string> = {
-    'BTC': 'bitcoin',
-    'ETH': 'ethereum',
-    'SOL': 'solana',
-    'USDC': 'usd-coin',
-    'USDT': 'tether',
-    'BNB': 'binancecoin',
-    'XRP': 'ripple',
-    'ADA': 'cardano',
-    'DOGE': 'dogecoin',
-    'AVAX': 'avalanche-2',
-    'DOT': 'polkadot',
-    'MATIC': 'matic-network',
-    'LINK': 'chainlink',
-    'UNI': 'uniswap',
-    'ATOM': 'cosmos',
-    'ARB': 'arbitrum',
-    'OP': 'optimism',
-};
-
-export const SUPPORTED_ASSETS = Object.keys(COINGECKO_IDS);
-
-// ═══════════════════════════════════════════════════════════════════════════
-// PRICE FETCHING
+// RESOLUTION PRICES
 // ═══════════════════════════════════════════════════════════════════════════
 
 /**
- * Fetch current price for an asset from CoinGecko
+ * The price an asset resolves at as of `at`, aggregated from every
+ * registered provider's price history
+ * @throws OracleAggregationError when the providers don't agree on a price
  */
-export async function fetchPrice(asset: string): Promise<PriceData> {
-    const coingeckoId = COINGECKO_IDS[asset.toUpperCase()];
-    if (!coingeckoId) {
-        throw new Error(`Unsupported asset: ${asset}`);
-    }
-
-    try {
-        const response = await fetch(
-            `https://api.coingecko.com/api/v3/simple/price?ids=${coingeckoId}&vs_currencies=usd`
-        );
-
-        if (!response.ok) {
-            throw new Error(`CoinGecko API error: ${response.status}`);
-        }
-
-        const data = await response.json();
-        const price = data[coingeckoId]?.usd;
-
-        if (price === undefined) {
-            throw new Error(`No price data for ${asset}`);
-        }
-
-        return {
-            asset: asset.toUpperCase(),
-            price,
-            timestamp: Date.now(),
-            source: 'coingecko'
-        };
-    } catch (error) {
-        console.error(`[Oracle] Failed to fetch price for ${asset}:`, error);
-        throw error;
-    }
+export async function fetchResolutionPrice(asset: string, at: Date, timing: OracleTiming = {}): Promise<PriceEvidence> {
+    return aggregatePrice(
+        asset.toUpperCase(),
+        getOracleProviders(),
+        { at: at.getTime(), twapSeconds: timing.twapSeconds ?? 0 },
+        { ...DEFAULT_AGGREGATION_CONFIG, maxAgeMs: (timing.toleranceSeconds ?? DEFAULT_ORACLE_TOLERANCE_SECONDS) * 1000 }
+    );
 }
 
 /**
- * Fetch prices for multiple assets
+ * Throw unless the tolerance and TWAP window, when set, are whole numbers of
+ * seconds within their limits
  */
-export async function fetchPrices(assets: string[]): Promise<PriceData[]> {
-    const validAssets = assets.filter(a => COINGECKO_IDS[a.toUpperCase()]);
-
-    if (validAssets.length === 0) {
-        return [];
+export function validateOracleTiming(timing: OracleTiming): void {
+    const { toleranceSeconds, twapSeconds } = timing;
+    if (toleranceSeconds !== undefined && (!Number.isInteger(toleranceSeconds) || toleranceSeconds <= 0 || toleranceSeconds > MAX_ORACLE_TOLERANCE_SECONDS)) {
+        throw new Error(`toleranceSeconds must be a whole number of seconds between 1 and ${MAX_ORACLE_TOLERANCE_SECONDS}`);
     }
-
-    const coingeckoIds = validAssets.map(a => COINGECKO_IDS[a.toUpperCase()]).join(',');
-
-    try {
-        const response = await fetch(
-            `https://api.coingecko.com/api/v3/simple/price?ids=${coingeckoIds}&vs_currencies=usd`
-        );
-
-        if (!response.ok) {
-            throw new Error(`CoinGecko API error: ${response.status}`);
-        }
-
-        const data = await response.json();
-        const timestamp = Date.now();
-
-        return validAssets.map(asset => ({
-            asset: asset.toUpperCase(),
-            price: data[COINGECKO_IDS[asset.toUpperCase()]]?.usd || 0,
-            timestamp,
-            source: 'coingecko'
-        }));
-    } catch (error) {
-        console.error('[Oracle] Failed to fetch prices:', error);
-        throw error;
+    if (twapSeconds !== undefined && (!Number.isInteger(twapSeconds) || twapSeconds < 0 || twapSeconds > MAX_TWAP_SECONDS)) {
+        throw new Error(`twapSeconds must be a whole number of seconds between 0 and ${MAX_TWAP_SECONDS}`);
     }
 }
 
+/** Names of the sources a price was taken from, e.g. 'coingecko+coinbase' */
+export function acceptedSources(evidence: PriceEvidence): string {
+    return evidence.sources.filter(source => source.status === 'ACCEPTED').map(source => source.source).join('+');
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // CONDITION EVALUATION
 // ═══════════════════════════════════════════════════════════════════════════
@@ -166,31 +120,78 @@ export function evaluateCondition(
 
 /**
  * Check if a price oracle market should be resolved, and determine outcome
+ * from the price as of its expiry. The evidence is returned even when the
+ * sources refused to give a price.
  */
 export async function checkPriceResolution(
-    oracleConfig: PriceOracleConfig
-): Promise<{ shouldResolve: boolean; outcome: 'YES' | 'NO' | null; price: number }> {
+    oracleConfig: PriceOracleConfig,
+    expiresAt: Date
+): Promise<{ shouldResolve: boolean; outcome: 'YES' | 'NO' | null; price: number; source: string | null; timestamp: number; publishedAt: number | null; evidence: PriceEvidence | null; error?: string }> {
     try {
-        const priceData = await fetchPrice(oracleConfig.asset);
+        const evidence = await fetchResolutionPrice(oracleConfig.asset, expiresAt, oracleConfig);
+        const price = evidence.price!;
         const conditionMet = evaluateCondition(
-            priceData.price,
+            price,
             oracleConfig.condition,
             oracleConfig.targetPrice
         );
 
-        console.log(`[Oracle] ${oracleConfig.asset}: $${priceData.price} ${oracleConfig.condition} $${oracleConfig.targetPrice} = ${conditionMet}`);
+        console.log(`[Oracle] ${oracleConfig.asset}: $${price} ${oracleConfig.condition} $${oracleConfig.targetPrice} = ${conditionMet} (${acceptedSources(evidence)})`);
 
         return {
             shouldResolve: true,
             outcome: conditionMet ? 'YES' : 'NO',
-            price: priceData.price
+            price,
+            source: acceptedSources(evidence),
+            timestamp: new Date(evidence.aggregatedAt).getTime(),
+            publishedAt: new Date(evidence.publishedAt!).getTime(),
+            evidence
         };
     } catch (error) {
         console.error('[Oracle] Price check failed:', error);
         return {
             shouldResolve: false,
             outcome: null,
-            price: 0
+            price: 0,
+            source: null,
+            timestamp: Date.now(),
+            publishedAt: null,
+            evidence: error instanceof OracleAggregationError ? error.evidence : null,
+            error: error instanceof Error ? error.message : String(error)
+        };
+    }
+}
+
+/**
+ * Fetch the value a scalar oracle market resolves to: the price as of its expiry
+ */
+export async function checkScalarResolution(
+    oracleConfig: ScalarOracleConfig,
+    expiresAt: Date
+): Promise<{ shouldResolve: boolean; value: number | null; source: string | null; timestamp: number; publishedAt: number | null; evidence: PriceEvidence | null; error?: string }> {
+    try {
+        const evidence = await fetchResolutionPrice(oracleConfig.asset, expiresAt, oracleConfig);
+
+        console.log(`[Oracle] ${oracleConfig.asset}: scalar value $${evidence.price} (${acceptedSources(evidence)})`);
+
+        return {
+            shouldResolve: true,
+            value: evidence.price,
+            source: acceptedSources(evidence),
+            timestamp: new Date(evidence.aggregatedAt).getTime(),
+            publishedAt: new Date(evidence.publishedAt!).getTime(),
+            evidence
+        };
+    } catch (error) {
+        console.error('[Oracle] Scalar value check failed:', error);
+        return {
+            shouldResolve: false,
+            value: null,
+            source: null,
+            timestamp: Date.now(),
+            publishedAt: null,
+            evidence: error instanceof OracleAggregationError ? error.evidence : null,
+            error: error instanceof Error ? error.message : String(error)
         };
     }
 }
@@ -200,21 +201,34 @@ export async function checkPriceResolution(
 // ═══════════════════════════════════════════════════════════════════════════
 
 /**
- * Parse oracle config from JSON
+ * Parse oracle config from JSON (price configs stored without a `type`
+ * are read as price configs)
  */
 export function parseOracleConfig(json: unknown): OracleConfig | null {
     if (!json || typeof json !== 'object') return null;
 
     const config = json as Record<string, unknown>;
 
-    if (config.type === 'price') {
+    if (config.type === 'price' || (config.type === undefined && config.condition !== undefined)) {
         return {
             type: 'price',
             config: {
                 type: 'price',
                 asset: String(config.asset || ''),
                 condition: (config.condition as PriceCondition) || '>',
-                targetPrice: Number(config.targetPrice || 0)
+                targetPrice: Number(config.targetPrice || 0),
+                ...parseOracleTiming(config)
+            }
+        };
+    }
+
+    if (config.type === 'scalar') {
+        return {
+            type: 'scalar',
+            config: {
+                type: 'scalar',
+                asset: String(config.asset || ''),
+                ...parseOracleTiming(config)
             }
         };
     }
@@ -226,6 +240,14 @@ export function parseOracleConfig(json: unknown): OracleConfig | null {
     return null;
 }
 
+/** The timing fields of a stored oracle config, where set */
+function parseOracleTiming(config: Record<string, unknown>): OracleTiming {
+    const timing: OracleTiming = {};
+    if (config.toleranceSeconds !== undefined && config.toleranceSeconds !== null) timing.toleranceSeconds = Number(config.toleranceSeconds);
+    if (config.twapSeconds !== undefined && config.twapSeconds !== null) timing.twapSeconds = Number(config.twapSeconds);
+    return timing;
+}
+
 /**
  * Format condition for display
  */
@@ -0,0 +1,448 @@
+/**
+ * Order Book Routing - Split market orders between the book and the pool
+ *
+ * Every market has a central limit order book next to its pool: resting
+ * bids and asks placed by other traders (limit-orders.ts). An incoming
+ * market order is routed to whichever venue is cheaper at each step:
+ * 1. While the pool's price is better than the best resting order, trade
+ *    with the pool until its price reaches that order's price
+ * 2. Then fill against the resting order at its own price
+ * 3. Repeat down the book; whatever is left trades with the pool, which
+ *    stays the liquidity of last resort
+ *
+ * The pool's displayed price (the pricing engine's) is its marginal price, so a routed buy never pays more than buying from
+ * the pool alone, and a routed sell never receives less.
+ *
+ * Routing works on amounts net of the trade fee. The taker pays the market's
+ * fee on the whole notional, whichever venue fills it; makers pay no fee on
+ * book fills. The LP share of the fee is minted into the pool as usual.
+ */
+
+import { CategoricalPoolState, BetOrder } from './types';
+import { PricingEngine } from './pricing-engine';
+import { ceilDiv, toFixedPrice, PRICE_PRECISION } from './math';
+import {
+    FeeConfig,
+    FeeBreakdown,
+    FeeBetResult,
+    FeeSellResult,
+    calculateFee,
+    splitFee,
+    grossForNet,
+    collectPoolFee
+} from './fees';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * A resting order as seen by the router
+ */
+export interface BookOrder {
+    orderId: string;
+
+    /** Price (0-1) the order trades at */
+    price: number;
+
+    /** Shares it can still trade (asks: escrowed shares, bids: what the escrow buys at price) */
+    shares: bigint;
+}
+
+/** Where one part of a routed order was filled */
+export type RouteVenue = 'BOOK' | 'AMM';
+
+export interface RouteFill {
+    venue: RouteVenue;
+
+    /** Resting order filled against (BOOK fills only) */
+    orderId: string | null;
+
+    shares: bigint;
+
+    /** USDC paid or received for the shares, fee excluded */
+    usdc: bigint;
+
+    /** Average price of the fill (0-1) */
+    price: number;
+}
+
+/** Buy orders the router can split (target-price orders only make sense against the pool) */
+export type RoutableBuyOrder = Extract<BetOrder, { mode: 'SPEND' | 'SHARES' }>;
+
+/**
+ * Result of routing an order, fee excluded
+ */
+export interface RoutedTrade {
+    /** Fills in execution order */
+    fills: RouteFill[];
+
+    /** Shares bought or sold */
+    shares: bigint;
+
+    /** USDC paid or received */
+    usdc: bigint;
+
+    /** Pool state after its fills */
+    newPoolState: CategoricalPoolState;
+}
+
+/** A routed buy with its fee; usdcIn includes the fee */
+export interface RoutedBuy {
+    fills: RouteFill[];
+    usdcIn: bigint;
+    totalShares: bigint;
+    effectivePrice: number;
+    fee: FeeBreakdown;
+    newPoolState: CategoricalPoolState;
+}
+
+/** A routed sell with its fee; usdcOut is net of the fee */
+export interface RoutedSell {
+    fills: RouteFill[];
+    usdcOut: bigint;
+    priceImpact: number;
+    fee: FeeBreakdown;
+    newPoolState: CategoricalPoolState;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// BOOK PRICES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * USDC for shares at a book price (rounded up, in the maker's favour when
+ * the maker sells and within a bid's escrow when the maker buys)
+ */
+export function bookFillCost(shares: bigint, price: number): bigint {
+    return ceilDiv(shares * toFixedPrice(price), PRICE_PRECISION);
+}
+
+/**
+ * Most shares a USDC amount pays for at a book price
+ */
+export function sharesForUsdc(usdc: bigint, price: number): bigint {
+    if (usdc <= 0n) return 0n;
+    return (usdc * PRICE_PRECISION) / toFixedPrice(price);
+}
+
+function displayedPrice(engine: PricingEngine, pool: CategoricalPoolState, outcomeIndex: number): number {
+    return engine.getPrices(pool)[outcomeIndex];
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ROUTING
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Route a buy across the asks and the pool
+ *
+ * A spend order spends exactly usdcAmount (less than one share's worth of
+ * rounding dust goes to the last ask filled), or less when the pool can't
+ * take what the book leaves; a share order receives exactly `shares`.
+ *
+ * @param asks Resting asks for the outcome, cheapest first
+ * @param useAmm False to fill from the book only (the rest is left unfilled)
+ */
+export function routeBuy(
+    engine: PricingEngine,
+    pool: CategoricalPoolState,
+    outcomeIndex: number,
+    order: RoutableBuyOrder,
+    asks: BookOrder[],
+    useAmm: boolean = true
+): RoutedTrade {
+    const fills: RouteFill[] = [];
+    let state = pool;
+    let usdcLeft = order.mode === 'SPEND' ? order.usdcAmount : 0n;
+    let sharesLeft = order.mode === 'SHARES' ? order.shares : 0n;
+    const done = (): boolean => (order.mode === 'SPEND' ? usdcLeft <= 0n : sharesLeft <= 0n);
+
+    // Buy from the pool until its price reaches upTo (or fill the rest of
+    // the order when there is no price to stop at)
+    const fromPool = (upTo?: number): void => {
+        let result;
+        if (upTo === undefined) {
+            result = order.mode === 'SPEND'
+                ? engine.placeBet(state, outcomeIndex, usdcLeft)
+                : engine.buyShares(state, outcomeIndex, sharesLeft);
+        } else {
+            try {
+                const spend = engine.amountForTargetPrice(state, outcomeIndex, upTo);
+                if (spend <= 0n) return;
+
+                if (order.mode === 'SPEND') {
+                    result = engine.placeBet(state, outcomeIndex, spend < usdcLeft ? spend : usdcLeft);
+                } else {
+                    result = engine.placeBet(state, outcomeIndex, spend);
+                    if (result.totalShares >= sharesLeft) result = engine.buyShares(state, outcomeIndex, sharesLeft);
+                }
+            } catch {
+                return; // Too small to trade, or the price is out of the pool's range
+            }
+        }
+
+        fills.push({
+            venue: 'AMM',
+            orderId: null,
+            shares: result.totalShares,
+            usdc: result.usdcIn,
+            price: Number(result.usdcIn) / Number(result.totalShares)
+        });
+        state = result.newPoolState;
+        usdcLeft -= result.usdcIn;
+        sharesLeft -= result.totalShares;
+    };
+
+    for (const ask of asks) {
+        if (done()) break;
+        if (useAmm) fromPool(ask.price);
+        if (done()) break;
+
+        const affordable = order.mode === 'SPEND' ? sharesForUsdc(usdcLeft, ask.price) : sharesLeft;
+        const shares = affordable < ask.shares ? affordable : ask.shares;
+        if (shares <= 0n) continue;
+
+        let usdc = bookFillCost(shares, ask.price);
+        // The budget ran out on this ask: its rounding dust goes to the maker
+        if (order.mode === 'SPEND' && shares < ask.shares) usdc = usdcLeft;
+
+        fills.push({ venue: 'BOOK', orderId: ask.orderId, shares, usdc, price: ask.price });
+        usdcLeft -= usdc;
+        sharesLeft -= shares;
+    }
+
+    if (useAmm && !done()) {
+        try {
+            fromPool();
+        } catch (err) {
+            // A spend order keeps its book fills when the pool can't take the rest
+            if (order.mode === 'SHARES' || fills.length === 0) throw err;
+        }
+    }
+
+    return summarize(fills, state);
+}
+
+/**
+ * Route a sell across the bids and the pool
+ *
+ * @param bids Resting bids for the outcome, highest first
+ * @param useAmm False to fill from the book only (the rest is left unfilled)
+ */
+export function routeSell(
+    engine: PricingEngine,
+    pool: CategoricalPoolState,
+    outcomeIndex: number,
+    sharesAmount: bigint,
+    bids: BookOrder[],
+    useAmm: boolean = true
+): RoutedTrade {
+    const fills: RouteFill[] = [];
+    let state = pool;
+    let sharesLeft = sharesAmount;
+
+    // Sell to the pool until its price drops to downTo (or sell everything
+    // left when there is no price to stop at)
+    const toPool = (downTo?: number): void => {
+        let amount = sharesLeft;
+
+        if (downTo !== undefined) {
+            if (displayedPrice(engine, state, outcomeIndex) <= downTo) return;
+
+            const stillAbove = (shares: bigint): boolean => {
+                try {
+                    const after = engine.sellPosition(state, outcomeIndex, shares).newPoolState;
+                    return displayedPrice(engine, after, outcomeIndex) >= downTo;
+                } catch {
+                    return false;
+                }
+            };
+
+            // Largest sale that keeps the pool's price at or above downTo
+            if (!stillAbove(amount)) {
+                let low = 0n;
+                let high = amount;
+                while (high - low > 1n) {
+                    const mid = (low + high) / 2n;
+                    if (stillAbove(mid)) low = mid;
+                    else high = mid;
+                }
+                amount = low;
+            }
+            if (amount <= 0n) return;
+        }
+
+        const result = engine.sellPosition(state, outcomeIndex, amount);
+        fills.push({
+            venue: 'AMM',
+            orderId: null,
+            shares: amount,
+            usdc: result.usdcOut,
+            price: Number(result.usdcOut) / Number(amount)
+        });
+        state = result.newPoolState;
+        sharesLeft -= amount;
+    };
+
+    for (const bid of bids) {
+        if (sharesLeft <= 0n) break;
+        if (useAmm) toPool(bid.price);
+        if (sharesLeft <= 0n) break;
+
+        const shares = sharesLeft < bid.shares ? sharesLeft : bid.shares;
+        if (shares <= 0n) continue;
+
+        fills.push({ venue: 'BOOK', orderId: bid.orderId, shares, usdc: bookFillCost(shares, bid.price), price: bid.price });
+        sharesLeft -= shares;
+    }
+
+    if (useAmm && sharesLeft > 0n) toPool();
+
+    return summarize(fills, state);
+}
+
+function summarize(fills: RouteFill[], newPoolState: CategoricalPoolState): RoutedTrade {
+    return {
+        fills,
+        shares: fills.reduce((sum, fill) => sum + fill.shares, 0n),
+        usdc: fills.reduce((sum, fill) => sum + fill.usdc, 0n),
+        newPoolState
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ROUTED TRADES WITH FEES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Charge the taker's fee on a routed buy
+ */
+export function applyRoutedBuyFee(routed: RoutedTrade, fee: FeeBreakdown): RoutedBuy {
+    if (routed.shares <= 0n) throw new Error('Order too small to fill');
+
+    const usdcIn = routed.usdc + fee.total;
+    return {
+        fills: routed.fills,
+        usdcIn,
+        totalShares: routed.shares,
+        effectivePrice: Number(usdcIn) / Number(routed.shares),
+        fee,
+        newPoolState: collectPoolFee(routed.newPoolState, fee.lp)
+    };
+}
+
+/**
+ * Route a buy, fee included
+ * A spend order's fee comes out of the amount; a share order pays it on top.
+ */
+export function routeBuyWithFee(
+    engine: PricingEngine,
+    pool: CategoricalPoolState,
+    outcomeIndex: number,
+    order: RoutableBuyOrder,
+    asks: BookOrder[],
+    config: FeeConfig
+): RoutedBuy {
+    if (order.mode === 'SPEND') {
+        const fee = calculateFee(order.usdcAmount, config);
+        if (fee.total >= order.usdcAmount) {
+            throw new Error('Bet amount too small to cover the trade fee');
+        }
+
+        const net = order.usdcAmount - fee.total;
+        const routed = routeBuy(engine, pool, outcomeIndex, { mode: 'SPEND', usdcAmount: net }, asks);
+
+        // Only what was filled pays the fee
+        return applyRoutedBuyFee(
+            routed,
+            routed.usdc < net ? splitFee(grossForNet(routed.usdc, config.feeBps) - routed.usdc, config) : fee
+        );
+    }
+
+    const routed = routeBuy(engine, pool, outcomeIndex, order, asks);
+    return applyRoutedBuyFee(routed, splitFee(grossForNet(routed.usdc, config.feeBps) - routed.usdc, config));
+}
+
+/**
+ * Charge the taker's fee on a routed sell; the fee comes out of the payout
+ */
+export function applyRoutedSellFee(
+    engine: PricingEngine,
+    pool: CategoricalPoolState,
+    outcomeIndex: number,
+    routed: RoutedTrade,
+    config: FeeConfig
+): RoutedSell {
+    const fee = calculateFee(routed.usdc, config);
+    if (routed.usdc <= 0n || (fee.total > 0n && fee.total >= routed.usdc)) {
+        throw new Error('Sell amount too small to cover the trade fee');
+    }
+
+    const before = displayedPrice(engine, pool, outcomeIndex);
+    const after = displayedPrice(engine, routed.newPoolState, outcomeIndex);
+
+    return {
+        fills: routed.fills,
+        usdcOut: routed.usdc - fee.total,
+        priceImpact: Math.abs(after - before) / before * 100,
+        fee,
+        newPoolState: collectPoolFee(routed.newPoolState, fee.lp)
+    };
+}
+
+/**
+ * Route a sell, fee included
+ */
+export function routeSellWithFee(
+    engine: PricingEngine,
+    pool: CategoricalPoolState,
+    outcomeIndex: number,
+    sharesAmount: bigint,
+    bids: BookOrder[],
+    config: FeeConfig
+): RoutedSell {
+    const routed = routeSell(engine, pool, outcomeIndex, sharesAmount, bids);
+    return applyRoutedSellFee(engine, pool, outcomeIndex, routed, config);
+}
+
+/**
+ * A buy filled by the pool alone, as a one-fill route
+ */
+export function poolOnlyBuy(result: FeeBetResult): RoutedBuy {
+    const usdc = result.usdcIn - result.fee.total;
+    return {
+        fills: [{
+            venue: 'AMM',
+            orderId: null,
+            shares: result.totalShares,
+            usdc,
+            price: Number(usdc) / Number(result.totalShares)
+        }],
+        usdcIn: result.usdcIn,
+        totalShares: result.totalShares,
+        effectivePrice: result.effectivePrice,
+        fee: result.fee,
+        newPoolState: result.newPoolState
+    };
+}
+
+/**
+ * A sell filled by the pool alone, as a one-fill route
+ */
+export function poolOnlySell(result: FeeSellResult, sharesAmount: bigint): RoutedSell {
+    const usdc = result.usdcOut + result.fee.total;
+    return {
+        fills: [{
+            venue: 'AMM',
+            orderId: null,
+            shares: sharesAmount,
+            usdc,
+            price: Number(usdc) / Number(sharesAmount)
+        }],
+        usdcOut: result.usdcOut,
+        priceImpact: result.priceImpact,
+        fee: result.fee,
+        newPoolState: result.newPoolState
+    };
+}
@@ -8,11 +8,16 @@
 import {
     PoolState,
     PoolConfig,
-    BetResult,
+    PoolPrices,
     Outcome,
+    CategoricalPoolState,
+    CategoricalBetResult
 } from './types';
-import { createPool, getPrices } from './pool';
-import { placeBet, quoteBet, sellPosition } from './mint-swap';
+import { createPool } from './pool';
+import { getPricingEngine, BetQuote, SellResult } from './pricing-engine';
+import { TradeLimits, checkDeadline, checkBuyLimits, checkSellLimits } from './slippage';
+import { checkTradingOpen, tradingPhase } from './trading-hours';
+import { placeBetWithFee, sellPositionWithFee } from './fees';
 import {
     UserPosition,
     MarketResolution,
@@ -20,6 +25,7 @@ import {
     validatePoolSolvency
 } from './settlement';
 import * as repo from '../db/amm-repository';
+import { runMarketTransaction } from '../db/market-transaction';
 
 // Extended config with metadata
 export interface MarketConfig extends PoolConfig {
@@ -51,7 +57,9 @@ export class PersistentPoolManager {
             expiresAt: config.expiresAt,
             yesReserves: pool.yesReserves,
             noReserves: pool.noReserves,
-            kInvariant: pool.k
+            kInvariant: pool.k,
+            // Seed liquidity here isn't funded by a session: its LP shares stay with the protocol
+            lpTotalShares: pool.yesReserves
         });
 
         console.log(`[PersistentPoolManager] Created market: ${config.marketId}`);
@@ -76,56 +84,49 @@ export class PersistentPoolManager {
     }
 
     /**
-     * Place a bet on a market
+     * Place a bet on a market (rejected with a SlippageError if it breaches `limits`)
      */
     async placeBet(
         marketId: string,
         userId: string,
         usdcAmount: bigint,
-        betOn: Outcome
-    ): Promise<BetResult> {
-        // Get current market state
-        const row = await repo.getMarket(marketId);
-        if (!row) throw new Error(`Market ${marketId} not found`);
-        if (row.status !== 'ACTIVE') throw new Error(`Market ${marketId} is not active`);
-
-        const pool = repo.marketRowToPoolState(row);
-
-        // Execute bet logic
-        const result = placeBet(pool, usdcAmount, betOn);
-
-        // Update market reserves in database
-        await repo.updateMarketReserves(
-            marketId,
-            result.newPoolState.yesReserves,
-            result.newPoolState.noReserves,
-            result.newPoolState.k
-        );
-
-        // Update user position
-        const existingPos = await repo.getPosition(userId, marketId, betOn);
-        const currentShares = existingPos ? BigInt(existingPos.shares) : 0n;
-        const newShares = currentShares + result.totalShares;
-
-        // Safety check: newShares must be > 0 if usdcAmount > 0
-        if (usdcAmount > 0n && result.totalShares === 0n) {
-            console.error(`[PoolManager] CRITICAL: Bet ${usdcAmount} USDC yielded 0 shares. Pool State:`, pool);
-            throw new Error('Bet yielded 0 shares (unexpected)');
-        }
-
-        console.log(`[PoolManager] Updating position for ${userId}: Shares ${currentShares} -> ${newShares}`);
+        betOn: Outcome,
+        limits: TradeLimits = {}
+    ): Promise<CategoricalBetResult> {
+        checkDeadline(limits);
+
+        return runMarketTransaction(marketId, 'BET', async tx => {
+            const row = tx.market;
+            checkTradingOpen(row);
+
+            const pool = repo.marketRowToEnginePoolState(row);
+
+            // Execute bet logic with the market's pricing engine (the fee comes out of usdcAmount)
+            const engine = getPricingEngine(row.pricing_engine);
+            const result = placeBetWithFee(engine, pool, binaryOutcomeIndex(betOn), usdcAmount, repo.marketRowToFeeConfig(row));
+            checkBuyLimits(limits, usdcAmount, result.totalShares);
+
+            // Update market reserves (Yellow sessions bet straight from their on-chain escrow)
+            tx.setPoolState(result.newPoolState);
+            tx.accrueFees(result.fee);
+            tx.transferSessionEscrow(userId, usdcAmount);
+
+            // Update user position
+            const currentShares = (await tx.getPosition(userId, betOn))?.shares ?? 0n;
+            const newShares = currentShares + result.totalShares;
+
+            // Safety check: newShares must be > 0 if usdcAmount > 0
+            if (usdcAmount > 0n && result.totalShares === 0n) {
+                console.error(`[PoolManager] CRITICAL: Bet ${usdcAmount} USDC yielded 0 shares. Pool State:`, pool);
+                throw new Error('Bet yielded 0 shares (unexpected)');
+            }
 
-        // Calculate new average entry price
-        const existingValue = existingPos
-            ? Number(existingPos.shares) * existingPos.average_entry_price
-            : 0;
-        const newValue = Number(usdcAmount) / 1e6;
-        const totalValue = existingValue + newValue;
-        const avgPrice = totalValue / (Number(newShares) / 1e6);
+            console.log(`[PoolManager] Updating position for ${userId}: Shares ${currentShares} -> ${newShares}`);
 
-        await repo.upsertPosition(userId, marketId, betOn, newShares, avgPrice);
+            await tx.addToPosition(userId, betOn, result.totalShares, usdcAmount);
 
-        return result;
+            return result;
+        });
     }
 
     /**
@@ -135,52 +136,53 @@ export class PersistentPoolManager {
         marketId: string,
         usdcAmount: bigint,
         betOn: Outcome
-    ): Promise<{ expectedShares: bigint; effectivePrice: number; priceImpact: number } | null> {
+    ): Promise<BetQuote | null> {
         const row = await repo.getMarket(marketId);
-        if (!row || row.status !== 'ACTIVE') return null;
+        if (!row || tradingPhase(row) !== 'OPEN') return null;
 
-        const pool = repo.marketRowToPoolState(row);
-        return quoteBet(pool, usdcAmount, betOn);
+        const pool = repo.marketRowToEnginePoolState(row);
+        return getPricingEngine(row.pricing_engine).quoteBet(pool, binaryOutcomeIndex(betOn), usdcAmount);
     }
 
     /**
-     * Sell a position back to the pool
+     * Sell a position back to the pool (rejected with a SlippageError if it breaches `limits`)
      */
     async sellPosition(
         marketId: string,
         userId: string,
         sharesAmount: bigint,
-        outcome: Outcome
-    ): Promise<{ usdcOut: bigint; newPoolState: PoolState; priceImpact: number }> {
-        const row = await repo.getMarket(marketId);
-        if (!row) throw new Error(`Market ${marketId} not found`);
-        if (row.status !== 'ACTIVE') throw new Error(`Market ${marketId} is not active`);
+        outcome: Outcome,
+        limits: TradeLimits = {}
+    ): Promise<SellResult> {
+        checkDeadline(limits);
 
-        // Check user has enough shares
-        const pos = await repo.getPosition(userId, marketId, outcome);
-        if (!pos) throw new Error('User has no position to sell');
+        return runMarketTransaction(marketId, 'SELL', async tx => {
+            const row = tx.market;
+            checkTradingOpen(row);
 
-        const currentShares = BigInt(pos.shares);
-        if (currentShares < sharesAmount) {
-            throw new Error(`Insufficient shares. Held: ${currentShares}, Selling: ${sharesAmount}`);
-        }
+            // Check user has enough shares
+            const pos = await tx.getPosition(userId, outcome);
+            if (!pos) throw new Error('User has no position to sell');
 
-        const pool = repo.marketRowToPoolState(row);
-        const result = sellPosition(pool, sharesAmount, outcome);
+            if (pos.shares < sharesAmount) {
+                throw new Error(`Insufficient shares. Held: ${pos.shares}, Selling: ${sharesAmount}`);
+            }
 
-        // Update market reserves
-        await repo.updateMarketReserves(
-            marketId,
-            result.newPoolState.yesReserves,
-            result.newPoolState.noReserves,
-            result.newPoolState.k
-        );
+            const pool = repo.marketRowToEnginePoolState(row);
+            const engine = getPricingEngine(row.pricing_engine);
+            const result = sellPositionWithFee(engine, pool, binaryOutcomeIndex(outcome), sharesAmount, repo.marketRowToFeeConfig(row));
+            checkSellLimits(limits, result.usdcOut);
+
+            // Update market reserves (paid back into the session's escrow, outside its balance)
+            tx.setPoolState(result.newPoolState);
+            tx.accrueFees(result.fee);
+            tx.transferSessionEscrow(userId, -result.usdcOut);
 
-        // Update user position
-        const newShares = currentShares - sharesAmount;
-        await repo.upsertPosition(userId, marketId, outcome, newShares, pos.average_entry_price);
+            // Update user position
+            await tx.takeFromPosition(userId, outcome, sharesAmount);
 
-        return result;
+            return result;
+        });
     }
 
     /**
@@ -229,6 +231,7 @@ export class PersistentPoolManager {
             } else {
                 pos.noShares = shares;
             }
+            pos.totalCostBasis += BigInt(row.cost_basis);
         }
 
         return Array.from(userMap.values());
@@ -277,14 +280,24 @@ export class PersistentPoolManager {
     /**
      * Get current prices for a market
      */
-    async getPrices(marketId: string) {
+    async getPrices(marketId: string): Promise<PoolPrices | null> {
         const row = await repo.getMarket(marketId);
         if (!row) return null;
 
-        const pool = repo.marketRowToPoolState(row);
-        return getPrices(pool);
+        const pool: CategoricalPoolState = repo.marketRowToEnginePoolState(row);
+        const [yesPrice, noPrice] = getPricingEngine(row.pricing_engine).getPrices(pool);
+        return {
+            yesPrice,
+            noPrice,
+            yesProbability: yesPrice * 100,
+            noProbability: noPrice * 100
+        };
     }
 }
 
+function binaryOutcomeIndex(outcome: Outcome): number {
+    return outcome === Outcome.YES ? 0 : 1;
+}
+
 // Singleton instance
 export const persistentPoolManager = new PersistentPoolManager();
@@ -19,6 +19,7 @@ import {
     PRICE_CAP,
     MIN_PRICE
 } from './types';
+import { ceilDiv, ceilSqrt, toFixedPrice, PRICE_PRECISION } from './math';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // POOL CREATION
@@ -112,9 +113,13 @@ export function getSpotPrice(pool: PoolState, outcome: Outcome): number {
  * 
  * When selling token A for token B:
  * - New A reserves = A + amountIn
- * - New B reserves = k / (A + amountIn)
+ * - New B reserves = k / (A + amountIn), rounded up
  * - Amount out = B - new B reserves
  * 
+ * Rounding the new reserve up favours the pool: the trader receives at most
+ * 1 base unit less than the exact amount, and the reserves product never
+ * drops below k.
+ * 
  * @param pool Current pool state
  * @param amountIn Amount of tokens to swap in
  * @param sellOutcome Which outcome tokens to sell (receive the opposite)
@@ -139,13 +144,13 @@ export function calculateSwap(
         // Selling NO tokens, receiving YES tokens
         // NO reserves increase, YES reserves decrease
         newNoReserves = pool.noReserves + amountIn;
-        newYesReserves = pool.k / newNoReserves;
+        newYesReserves = ceilDiv(pool.k, newNoReserves);
         amountOut = pool.yesReserves - newYesReserves;
     } else {
         // Selling YES tokens, receiving NO tokens
         // YES reserves increase, NO reserves decrease
         newYesReserves = pool.yesReserves + amountIn;
-        newNoReserves = pool.k / newYesReserves;
+        newNoReserves = ceilDiv(pool.k, newYesReserves);
         amountOut = pool.noReserves - newNoReserves;
     }
 
@@ -158,7 +163,8 @@ export function calculateSwap(
         ...pool,
         yesReserves: newYesReserves,
         noReserves: newNoReserves,
-        // k stays constant (that's the invariant!)
+        // k is the invariant; it only grows by the rounding dust kept by the pool
+        k: newYesReserves * newNoReserves,
         updatedAt: Date.now()
     };
 
@@ -222,10 +228,22 @@ export function isSwapAllowed(
  * 
  * Useful for arbitrage calculations
  * 
+ * Works on the same virtual-liquidity prices as getPrices. Selling d of the
+ * opposite token moves that reserve to a - v, where a solves (with p the
+ * target price, v the virtual liquidity):
+ * 
+ *   (1 - p) * a^2 - v * a + p * (v^2 - k) = 0
+ * 
+ * The root is taken in bigint with p quantised to PRICE_PRECISION (1e-9).
+ * Every rounding step goes up, and the result is then checked against the
+ * swap calculateSwap would actually execute, so the returned amount always
+ * reaches the target. It overshoots the real-valued answer by at most a few
+ * base units plus the effect of the 1e-9 price quantisation.
+ * 
  * @param pool Current pool state
  * @param targetPrice Target price for the outcome (0 to 1)
  * @param outcome Which outcome to target
- * @returns Amount of opposite tokens to sell
+ * @returns Amount of opposite tokens to sell (0 if already at or above target)
  */
 export function calculateAmountForTargetPrice(
     pool: PoolState,
@@ -236,36 +254,36 @@ export function calculateAmountForTargetPrice(
         throw new Error(`Target price must be between ${MIN_PRICE} and ${PRICE_CAP}`);
     }
 
-    // From: price_YES = y / (x + y)
-    // Solve for reserves ratio given target price
-    // This is a simplified calculation - real implementation would account for virtual liquidity
+    const p = toFixedPrice(targetPrice);
+    const q = PRICE_PRECISION;
+    const v = pool.virtualLiquidity;
+    const k = pool.k;
 
-    const currentPrices = getPrices(pool);
-    const currentPrice = outcome === Outcome.YES ? currentPrices.yesPrice : currentPrices.noPrice;
+    // To raise the YES price we sell NO into the pool (and vice versa)
+    const sold = outcome === Outcome.YES ? pool.noReserves : pool.yesReserves;
+    const bought = outcome === Outcome.YES ? pool.yesReserves : pool.noReserves;
 
-    if (Math.abs(currentPrice - targetPrice) < 0.001) {
+    // Price of the outcome with reserves (sold, bought): (sold + v) / (sold + bought + 2v)
+    const reachesTarget = (soldReserve: bigint, boughtReserve: bigint): boolean =>
+        (soldReserve + v) * q >= p * (soldReserve + boughtReserve + 2n * v);
+
+    if (reachesTarget(sold, bought)) {
         return 0n; // Already at target
     }
 
-    // Calculate the reserve ratio needed
-    // For YES: targetPrice = effectiveNo / (effectiveYes + effectiveNo)
-    // Rearranging: effectiveYes = effectiveNo * (1 - targetPrice) / targetPrice
+    // Scaled by q: (q - p) * a^2 - q * v * a + p * (v^2 - k) = 0
+    const discriminant = q * q * v * v - 4n * (q - p) * p * (v * v - k);
+    const a = ceilDiv(q * v + ceilSqrt(discriminant), 2n * (q - p));
 
-    const totalReserves = pool.yesReserves + pool.noReserves;
+    let amount = a - v - sold;
+    if (amount <= 0n) amount = 1n;
 
-    if (outcome === Outcome.YES) {
-        // To increase YES price, we need more NO reserves (sell NO, buy YES)
-        const targetNoRatio = targetPrice;
-        const targetNoReserves = BigInt(Math.floor(Number(totalReserves) * targetNoRatio));
-        const deltaNo = targetNoReserves - pool.noReserves;
-        return deltaNo > 0n ? deltaNo : 0n;
-    } else {
-        // To increase NO price, we need more YES reserves (sell YES, buy NO)
-        const targetYesRatio = targetPrice;
-        const targetYesReserves = BigInt(Math.floor(Number(totalReserves) * targetYesRatio));
-        const deltaYes = targetYesReserves - pool.yesReserves;
-        return deltaYes > 0n ? deltaYes : 0n;
+    // Confirm against the reserves calculateSwap would produce
+    while (!reachesTarget(sold + amount, ceilDiv(k, sold + amount))) {
+        amount += 1n;
     }
+
+    return amount;
 }
 
 /**
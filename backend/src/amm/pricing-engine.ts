@@ -0,0 +1,324 @@
+/**
+ * Pricing Engines - Pluggable pricing curves behind one interface
+ *
+ * Every market is priced by exactly one engine, picked at creation time and
+ * persisted on the market row. Engines all work on the N-outcome reserve
+ * representation (CategoricalPoolState); binary markets are simply pools
+ * with the outcomes [YES, NO].
+ *
+ * - CPMM: the constant product pool (pool.ts / mint-swap.ts for binary
+ *         markets, categorical.ts for N outcomes)
+ * - LMSR: logarithmic market scoring rule with bounded loss (lmsr.ts)
+ */
+
+import {
+    PoolState,
+    Outcome,
+    PricingEngineType,
+    CategoricalPoolState,
+    CategoricalBetResult,
+    PRICE_CAP,
+    MIN_PRICE
+} from './types';
+import { calculateAmountForTargetPrice } from './pool';
+import { placeBet, quoteBet, buyShares, sellPosition } from './mint-swap';
+import {
+    createCategoricalPool,
+    getCategoricalPrices,
+    placeCategoricalBet,
+    quoteCategoricalBet,
+    sellCategoricalPosition
+} from './categorical';
+import {
+    createLmsrPool,
+    getLmsrPrices,
+    placeLmsrBet,
+    quoteLmsrBet,
+    sellLmsrPosition
+} from './lmsr';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ENGINE INTERFACE
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface BetQuote {
+    expectedShares: bigint;
+    effectivePrice: number;
+    priceImpact: number;
+}
+
+export interface SellResult {
+    usdcOut: bigint;
+    newPoolState: CategoricalPoolState;
+    priceImpact: number;
+}
+
+export interface PricingEngine {
+    readonly type: PricingEngineType;
+
+    /** Create a pool with equal odds for every outcome */
+    createPool(marketId: string, outcomes: string[], initialLiquidity: bigint): CategoricalPoolState;
+
+    /** Prices (0-1) index-aligned with pool.outcomes */
+    getPrices(pool: CategoricalPoolState): number[];
+
+    /** "Mint & Swap": spend usdcAmount on one outcome */
+    placeBet(pool: CategoricalPoolState, outcomeIndex: number, usdcAmount: bigint): CategoricalBetResult;
+
+    /** Quote a bet without executing it (null if the bet is not allowed) */
+    quoteBet(pool: CategoricalPoolState, outcomeIndex: number, usdcAmount: bigint): BetQuote | null;
+
+    /** "Swap & Burn": sell shares of one outcome back to USDC */
+    sellPosition(pool: CategoricalPoolState, outcomeIndex: number, sharesAmount: bigint): SellResult;
+
+    /** Buy exactly sharesAmount shares of one outcome (usdcIn is the computed cost) */
+    buyShares(pool: CategoricalPoolState, outcomeIndex: number, sharesAmount: bigint): CategoricalBetResult;
+
+    /** USDC that moves one outcome's price to targetPrice (0n if already there) */
+    amountForTargetPrice(pool: CategoricalPoolState, outcomeIndex: number, targetPrice: number): bigint;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ORDER SOLVING
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Upper bound for the bet search (far beyond any real USDC amount) */
+const MAX_SEARCH_AMOUNT = 1n << 96n;
+
+/**
+ * Smallest bet that satisfies `reached`, for curves without a closed form
+ *
+ * Doubles the amount until the bet reaches the goal, then bisects. Bets
+ * that throw (price cap, too small) count as not reaching it; both the
+ * shares received and the new price grow with the amount, so the search
+ * is exact.
+ */
+function solveBetAmount(
+    bet: (usdcAmount: bigint) => CategoricalBetResult,
+    reached: (result: CategoricalBetResult) => boolean
+): bigint {
+    const reaches = (usdcAmount: bigint): boolean => {
+        try {
+            return reached(bet(usdcAmount));
+        } catch {
+            return false;
+        }
+    };
+
+    let low = 0n;
+    let high = 1n;
+    while (!reaches(high)) {
+        low = high;
+        high *= 2n;
+        if (high > MAX_SEARCH_AMOUNT) {
+            throw new Error('Order cannot be filled within the price cap');
+        }
+    }
+
+    while (high - low > 1n) {
+        const mid = (low + high) / 2n;
+        if (reaches(mid)) high = mid;
+        else low = mid;
+    }
+    return high;
+}
+
+/**
+ * Buy exactly sharesAmount shares through an engine's placeBet; shares
+ * beyond the requested amount stay in the pool's reserve
+ */
+function buySharesBySearch(
+    engine: Pick<PricingEngine, 'placeBet' | 'getPrices'>,
+    pool: CategoricalPoolState,
+    outcomeIndex: number,
+    sharesAmount: bigint
+): CategoricalBetResult {
+    if (sharesAmount <= 0n) throw new Error('Shares amount must be positive');
+
+    const cost = solveBetAmount(
+        usdcAmount => engine.placeBet(pool, outcomeIndex, usdcAmount),
+        result => result.totalShares >= sharesAmount
+    );
+    const result = engine.placeBet(pool, outcomeIndex, cost);
+
+    const surplus = result.totalShares - sharesAmount;
+    const newPoolState: CategoricalPoolState = {
+        ...result.newPoolState,
+        reserves: result.newPoolState.reserves.map((r, i) => (i === outcomeIndex ? r + surplus : r))
+    };
+
+    return {
+        ...result,
+        swappedShares: result.swappedShares - surplus,
+        totalShares: sharesAmount,
+        effectivePrice: Number(cost) / Number(sharesAmount),
+        newProbability: engine.getPrices(newPoolState)[outcomeIndex] * 100,
+        newPoolState
+    };
+}
+
+/**
+ * Smallest spend that moves an outcome's price to targetPrice, through an
+ * engine's placeBet
+ */
+function amountForTargetPriceBySearch(
+    engine: Pick<PricingEngine, 'placeBet' | 'getPrices'>,
+    pool: CategoricalPoolState,
+    outcomeIndex: number,
+    targetPrice: number
+): bigint {
+    if (targetPrice <= MIN_PRICE || targetPrice >= PRICE_CAP) {
+        throw new Error(`Target price must be between ${MIN_PRICE} and ${PRICE_CAP}`);
+    }
+    if (engine.getPrices(pool)[outcomeIndex] >= targetPrice) return 0n;
+
+    return solveBetAmount(
+        usdcAmount => engine.placeBet(pool, outcomeIndex, usdcAmount),
+        result => engine.getPrices(result.newPoolState)[outcomeIndex] >= targetPrice
+    );
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CPMM
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Two-outcome pools keep the original binary math from mint-swap.ts so
+ * existing YES/NO markets price exactly as before.
+ */
+function isBinaryPool(pool: CategoricalPoolState): boolean {
+    return pool.reserves.length === 2;
+}
+
+function toBinaryPool(pool: CategoricalPoolState): PoolState {
+    return {
+        marketId: pool.marketId,
+        yesReserves: pool.reserves[0],
+        noReserves: pool.reserves[1],
+        k: pool.k,
+        virtualLiquidity: pool.virtualLiquidity,
+        totalCollateral: pool.totalCollateral,
+        createdAt: pool.createdAt,
+        updatedAt: pool.updatedAt
+    };
+}
+
+function fromBinaryPool(pool: CategoricalPoolState, binary: PoolState): CategoricalPoolState {
+    return {
+        ...pool,
+        reserves: [binary.yesReserves, binary.noReserves],
+        k: binary.k,
+        totalCollateral: binary.totalCollateral,
+        updatedAt: binary.updatedAt
+    };
+}
+
+function binaryOutcome(outcomeIndex: number): Outcome {
+    if (outcomeIndex !== 0 && outcomeIndex !== 1) {
+        throw new Error(`Invalid outcome index ${outcomeIndex} for a binary pool`);
+    }
+    return outcomeIndex === 0 ? Outcome.YES : Outcome.NO;
+}
+
+export const cpmmEngine: PricingEngine = {
+    type: 'CPMM',
+
+    createPool: (marketId, outcomes, initialLiquidity) =>
+        createCategoricalPool(marketId, outcomes, initialLiquidity),
+
+    getPrices: (pool) => getCategoricalPrices(pool),
+
+    placeBet(pool, outcomeIndex, usdcAmount) {
+        if (!isBinaryPool(pool)) return placeCategoricalBet(pool, outcomeIndex, usdcAmount);
+
+        const result = placeBet(toBinaryPool(pool), usdcAmount, binaryOutcome(outcomeIndex));
+        return {
+            usdcIn: result.usdcIn,
+            outcomeIndex,
+            mintedShares: result.mintedShares,
+            swappedShares: result.swappedShares,
+            totalShares: result.totalShares,
+            effectivePrice: result.effectivePrice,
+            newProbability: result.newProbability,
+            newPoolState: fromBinaryPool(pool, result.newPoolState)
+        };
+    },
+
+    quoteBet(pool, outcomeIndex, usdcAmount) {
+        if (!isBinaryPool(pool)) return quoteCategoricalBet(pool, outcomeIndex, usdcAmount);
+        return quoteBet(toBinaryPool(pool), usdcAmount, binaryOutcome(outcomeIndex));
+    },
+
+    sellPosition(pool, outcomeIndex, sharesAmount) {
+        if (!isBinaryPool(pool)) return sellCategoricalPosition(pool, outcomeIndex, sharesAmount);
+
+        const result = sellPosition(toBinaryPool(pool), sharesAmount, binaryOutcome(outcomeIndex));
+        return {
+            usdcOut: result.usdcOut,
+            newPoolState: fromBinaryPool(pool, result.newPoolState),
+            priceImpact: result.priceImpact
+        };
+    },
+
+    buyShares(pool, outcomeIndex, sharesAmount) {
+        if (!isBinaryPool(pool)) return buySharesBySearch(cpmmEngine, pool, outcomeIndex, sharesAmount);
+
+        const result = buyShares(toBinaryPool(pool), sharesAmount, binaryOutcome(outcomeIndex));
+        return {
+            usdcIn: result.usdcIn,
+            outcomeIndex,
+            mintedShares: result.mintedShares,
+            swappedShares: result.swappedShares,
+            totalShares: result.totalShares,
+            effectivePrice: result.effectivePrice,
+            newProbability: result.newProbability,
+            newPoolState: fromBinaryPool(pool, result.newPoolState)
+        };
+    },
+
+    amountForTargetPrice(pool, outcomeIndex, targetPrice) {
+        if (!isBinaryPool(pool)) return amountForTargetPriceBySearch(cpmmEngine, pool, outcomeIndex, targetPrice);
+        return calculateAmountForTargetPrice(toBinaryPool(pool), targetPrice, binaryOutcome(outcomeIndex));
+    }
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// LMSR
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const lmsrEngine: PricingEngine = {
+    type: 'LMSR',
+    createPool: createLmsrPool,
+    getPrices: getLmsrPrices,
+    placeBet: placeLmsrBet,
+    quoteBet: quoteLmsrBet,
+    sellPosition: sellLmsrPosition,
+    buyShares: (pool, outcomeIndex, sharesAmount) =>
+        buySharesBySearch(lmsrEngine, pool, outcomeIndex, sharesAmount),
+    amountForTargetPrice: (pool, outcomeIndex, targetPrice) =>
+        amountForTargetPriceBySearch(lmsrEngine, pool, outcomeIndex, targetPrice)
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// REGISTRY
+// ═══════════════════════════════════════════════════════════════════════════
+
+const engines: Record<PricingEngineType, PricingEngine> = {
+    CPMM: cpmmEngine,
+    LMSR: lmsrEngine
+};
+
+/**
+ * Check whether a string names a supported pricing engine
+ */
+export function isPricingEngineType(value: string): value is PricingEngineType {
+    return Object.prototype.hasOwnProperty.call(engines, value);
+}
+
+/**
+ * Look up the engine for a market (markets created before engines existed
+ * have no engine recorded and are CPMM)
+ */
+export function getPricingEngine(type: PricingEngineType | null | undefined): PricingEngine {
+    return engines[type ?? 'CPMM'];
+}
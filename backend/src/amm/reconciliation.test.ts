@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ONE_USDC, Outcome, persistentPoolManager } from './index';
+import { createMarketDB, placeBetDB } from './db-pool-manager';
+import * as db from '../db/amm-repository';
+import { MemoryStore } from '../db/memory-store';
+import { buildStatement } from '../db/ledger';
+import { runReconciliationDB } from './reconciliation';
+
+const CREATOR = 'reconciliation-creator';
+const BETTOR = 'reconciliation-bettor';
+const YELLOW = 'reconciliation-yellow';
+
+beforeEach(async () => {
+    db.setStore(new MemoryStore());
+    await db.createSession(CREATOR, CREATOR, 1_000n * ONE_USDC, 'reconciliation-test');
+    await db.createSession(BETTOR, BETTOR, 100n * ONE_USDC, 'reconciliation-test');
+    await createMarketDB({
+        marketId: 'reconciled',
+        title: 'Reconciliation test',
+        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+        initialLiquidity: 1_000n * ONE_USDC,
+        creatorId: CREATOR
+    });
+    await placeBetDB('reconciled', BETTOR, { mode: 'SPEND', usdcAmount: 10n * ONE_USDC }, 'YES');
+});
+
+describe('runReconciliationDB', () => {
+    it('finds nothing wrong with books kept by trading', async () => {
+        const report = await runReconciliationDB();
+        expect(report.discrepancies).toEqual([]);
+        expect(report.run.discrepancy_count).toBe(0);
+    });
+
+    it('flags a market owing more than its collateral', async () => {
+        const collateral = buildStatement(await db.getAccountLedger('MARKET', 'reconciled')).balance;
+        await db.upsertPosition(CREATOR, 'reconciled', 'YES', collateral + 1n, 0n);
+
+        const { discrepancies } = await runReconciliationDB();
+        expect(discrepancies).toHaveLength(1);
+        expect(discrepancies[0]).toMatchObject({ kind: 'MARKET_UNDERCOLLATERALIZED', subject_id: 'reconciled', actual: collateral.toString() });
+    });
+
+    it('counts what sessions bet straight from their on-chain escrow', async () => {
+        await db.upsertSession(YELLOW, YELLOW, 50n * ONE_USDC, 520, false);
+        await persistentPoolManager.placeBet('reconciled', YELLOW, 5n * ONE_USDC, Outcome.YES);
+        expect((await runReconciliationDB()).discrepancies).toEqual([]);
+
+        const held = (await db.getPosition(YELLOW, 'reconciled', 'YES'))!;
+        await db.upsertPosition(YELLOW, 'reconciled', 'YES', BigInt(held.shares), BigInt(held.cost_basis) + ONE_USDC);
+        const { discrepancies } = await runReconciliationDB();
+        expect(discrepancies).toHaveLength(1);
+        expect(discrepancies[0]).toMatchObject({ kind: 'SESSION_FUNDS_MISMATCH', subject_id: YELLOW });
+    });
+
+    it('keeps the latest report', async () => {
+        const first = await runReconciliationDB();
+        const second = await runReconciliationDB();
+        expect((await db.getLatestReconciliation())?.run.id).toBe(second.run.id);
+        expect(second.run.id).toBeGreaterThan(first.run.id);
+    });
+});
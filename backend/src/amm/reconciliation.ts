@@ -0,0 +1,252 @@
+/**
+ * Reconciliation - Scheduled solvency checks against the database
+ *
+ * Each run checks:
+ * - every market: the USDC it holds (its MARKET ledger balance) covers the
+ *   worst-case payout over all positions and shares escrowed in asks
+ *   (validatePoolSolvency for each outcome of a binary pool)
+ * - every session: its balance matches its ledger replay, and its balance
+ *   plus the cost basis it has locked in positions, LP shares and open
+ *   orders equals what was deposited from the escrow plus the PnL it
+ *   realized and the creator fees it was paid, less the dispute bonds it
+ *   posted and was not returned. USDC only reaches a session those ways,
+ *   so any difference was created or lost by the books.
+ *
+ * Yellow sessions bet straight from their escrowed collateral (see
+ * PersistentPoolManager), outside the session balance: what they drew is
+ * read from their SESSION_ESCROW ledger account.
+ *
+ * Every run is recorded with what it found; the admin API serves the latest.
+ */
+
+import * as db from '../db/amm-repository';
+import { buildStatement } from '../db/ledger';
+import { Outcome } from './types';
+import { UserPosition, validatePoolSolvency, worstCasePayout } from './settlement';
+
+/** Session ledger entries that bring USDC in from the escrow (or an operator) */
+const DEPOSIT_ENTRY_TYPES: db.LedgerEntryType[] = ['OPENING_BALANCE', 'DEPOSIT', 'ADJUSTMENT'];
+
+/** Session ledger entries that post dispute bonds or return them */
+const BOND_ENTRY_TYPES: db.LedgerEntryType[] = ['DISPUTE_BOND', 'BOND_RETURN'];
+
+export const DEFAULT_RECONCILIATION_INTERVAL_MS = 60 * 60 * 1000;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type Discrepancy = db.ReconciliationInput['discrepancies'][number];
+
+export interface ReconciliationReport {
+    run: db.ReconciliationRunRow;
+    discrepancies: Discrepancy[];
+}
+
+interface MarketCheck {
+    collateral: bigint;
+    worstCasePayout: bigint;
+    discrepancy: Discrepancy | null;
+}
+
+interface SessionCheck {
+    balance: bigint;
+    lockedCostBasis: bigint;
+    deposits: bigint;
+    realizedPnl: bigint;
+    discrepancies: Discrepancy[];
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CHECKS
+// ═══════════════════════════════════════════════════════════════════════════
+
+async function checkMarket(row: db.MarketRow): Promise<MarketCheck> {
+    const marketId = row.market_id;
+    const collateral = buildStatement(await db.getAccountLedger('MARKET', marketId)).balance;
+
+    // Shares owed per holder and outcome: held in positions or escrowed in asks
+    const shares = new Map<string, bigint>();
+    const holders = new Map<string, UserPosition>();
+    const owe = (userId: string, outcome: string, amount: bigint) => {
+        shares.set(outcome, (shares.get(outcome) ?? 0n) + amount);
+        const holder = holders.get(userId) ?? { userId, marketId, yesShares: 0n, noShares: 0n, totalCostBasis: 0n };
+        if (outcome === Outcome.YES) holder.yesShares += amount;
+        if (outcome === Outcome.NO) holder.noShares += amount;
+        holders.set(userId, holder);
+    };
+    for (const pos of await db.getMarketPositions(marketId)) owe(pos.user_id, pos.outcome, BigInt(pos.shares));
+    for (const ask of await db.getOpenLimitOrders(marketId, 'SELL')) owe(ask.user_id, ask.outcome, BigInt(ask.shares_remaining));
+
+    const payout = worstCasePayout([...shares.values()]);
+    const mostHeld = [...shares.entries()].find(([, amount]) => amount === payout)?.[0];
+
+    // Binary pools: the payout of either resolution against what the market holds
+    const pool = { ...db.marketRowToPoolState(row), totalCollateral: collateral };
+    const solvent = row.market_type === 'BINARY'
+        ? [Outcome.YES, Outcome.NO].every(winner => validatePoolSolvency(pool, [...holders.values()], winner))
+        : collateral >= payout;
+
+    return {
+        collateral,
+        worstCasePayout: payout,
+        discrepancy: !solvent
+            ? {
+                kind: 'MARKET_UNDERCOLLATERALIZED',
+                subject_id: marketId,
+                expected: payout.toString(),
+                actual: collateral.toString(),
+                details: { status: row.status, outcome: mostHeld ?? '', shortfall: (payout - collateral).toString() }
+            }
+            : null
+    };
+}
+
+async function checkSession(session: db.SessionRow): Promise<SessionCheck> {
+    const sessionId = session.session_id;
+    const balance = BigInt(session.current_balance);
+    const discrepancies: Discrepancy[] = [];
+
+    const { balance: replayed, lines } = buildStatement(await db.getAccountLedger('SESSION', sessionId));
+    if (replayed !== balance) {
+        discrepancies.push({
+            kind: 'SESSION_LEDGER_MISMATCH',
+            subject_id: sessionId,
+            expected: replayed.toString(),
+            actual: balance.toString(),
+            details: null
+        });
+    }
+
+    const deposits = sum(lines.filter(line => DEPOSIT_ENTRY_TYPES.includes(line.type)).map(line => BigInt(line.amount)));
+    const creatorPayouts = sum(lines.filter(line => line.type === 'CREATOR_PAYOUT').map(line => BigInt(line.amount)));
+    // Negative: bonds posted net of those returned
+    const disputeBonds = sum(lines.filter(line => BOND_ENTRY_TYPES.includes(line.type)).map(line => BigInt(line.amount)));
+    const realizedPnl = sum((await db.getTradesBySession(sessionId)).map(trade => BigInt(trade.realized_pnl)));
+    // Yellow bets paid from the on-chain escrow, net of what was paid back to it
+    const escrowDrawn = -buildStatement(await db.getAccountLedger('SESSION_ESCROW', sessionId)).balance;
+
+    const positionCost = sum((await db.getUserPositions(sessionId)).map(pos => BigInt(pos.cost_basis)));
+    const liquidityCost = sum((await db.getUserLiquidityPositions(sessionId)).map(pos => BigInt(pos.cost_basis)));
+    const orderEscrow = sum((await db.getUserLimitOrders(sessionId, 'OPEN')).map(order =>
+        order.side === 'BUY' ? BigInt(order.usdc_remaining) : BigInt(order.cost_basis_remaining)
+    ));
+    const lockedCostBasis = positionCost + liquidityCost + orderEscrow;
+
+    const expected = deposits + escrowDrawn + realizedPnl + creatorPayouts + disputeBonds;
+    if (balance + lockedCostBasis !== expected) {
+        discrepancies.push({
+            kind: 'SESSION_FUNDS_MISMATCH',
+            subject_id: sessionId,
+            expected: expected.toString(),
+            actual: (balance + lockedCostBasis).toString(),
+            details: {
+                balance: balance.toString(),
+                lockedCostBasis: lockedCostBasis.toString(),
+                deposits: deposits.toString(),
+                escrowDrawn: escrowDrawn.toString(),
+                realizedPnl: realizedPnl.toString(),
+                creatorPayouts: creatorPayouts.toString(),
+                disputeBonds: disputeBonds.toString()
+            }
+        });
+    }
+
+    return { balance, lockedCostBasis, deposits, realizedPnl, discrepancies };
+}
+
+function sum(amounts: bigint[]): bigint {
+    return amounts.reduce((total, amount) => total + amount, 0n);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RUNS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Check every market and session and record the run with what it found
+ */
+export async function runReconciliationDB(): Promise<ReconciliationReport> {
+    const startedAt = new Date().toISOString();
+    const discrepancies: Discrepancy[] = [];
+    const totals = {
+        collateral: 0n,
+        worstCasePayout: 0n,
+        sessionBalances: 0n,
+        lockedCostBasis: 0n,
+        deposits: 0n,
+        realizedPnl: 0n
+    };
+
+    const markets = await db.getAllMarkets();
+    for (const row of markets) {
+        const check = await checkMarket(row);
+        totals.collateral += check.collateral;
+        totals.worstCasePayout += check.worstCasePayout;
+        if (check.discrepancy) discrepancies.push(check.discrepancy);
+    }
+
+    const sessions = await db.listSessions();
+    for (const session of sessions) {
+        const check = await checkSession(session);
+        totals.sessionBalances += check.balance;
+        totals.lockedCostBasis += check.lockedCostBasis;
+        totals.deposits += check.deposits;
+        totals.realizedPnl += check.realizedPnl;
+        discrepancies.push(...check.discrepancies);
+    }
+
+    const run = await db.recordReconciliation({
+        startedAt,
+        finishedAt: new Date().toISOString(),
+        marketsChecked: markets.length,
+        sessionsChecked: sessions.length,
+        totals: {
+            collateral: totals.collateral.toString(),
+            worstCasePayout: totals.worstCasePayout.toString(),
+            sessionBalances: totals.sessionBalances.toString(),
+            lockedCostBasis: totals.lockedCostBasis.toString(),
+            deposits: totals.deposits.toString(),
+            realizedPnl: totals.realizedPnl.toString()
+        },
+        discrepancies
+    });
+
+    const level = discrepancies.length > 0 ? 'warn' : 'log';
+    console[level](`[Reconciliation] Run ${run.id}: ${markets.length} markets, ${sessions.length} sessions, ${discrepancies.length} discrepancies`);
+
+    return { run, discrepancies };
+}
+
+/**
+ * The most recent run (null before the first)
+ */
+export function getLatestReconciliationDB(): Promise<ReconciliationReport | null> {
+    return db.getLatestReconciliation();
+}
+
+/**
+ * Run reconciliation now and then every `intervalMs` (a run still in
+ * progress is never overlapped)
+ * @returns Stops the job
+ */
+export function startReconciliationJob(intervalMs: number = DEFAULT_RECONCILIATION_INTERVAL_MS): () => void {
+    let running = false;
+
+    const tick = async () => {
+        if (running) return;
+        running = true;
+        try {
+            await runReconciliationDB();
+        } catch (err) {
+            console.error('[Reconciliation] Run failed:', err);
+        } finally {
+            running = false;
+        }
+    };
+
+    const timer = setInterval(tick, intervalMs);
+    void tick();
+
+    return () => clearInterval(timer);
+}
@@ -0,0 +1,75 @@
+/**
+ * Refunds - What every holder gets back when a market is cancelled
+ *
+ * A cancelled market (a postponed or ambiguous event) never resolves. Each
+ * market chooses how the USDC it holds goes back to its holders:
+ * - COST_BASIS: every position and LP deposit is refunded the net USDC it
+ *   cost. If the market holds less than that (traders sold at a profit
+ *   before the cancellation), every refund is cut by the same fraction; if
+ *   it holds more, the surplus belongs to the LPs who took the other side
+ * - FAIR_PRICE: every share is paid out at the last price the market
+ *   traded at, as if it had resolved to its own odds. LPs get their share
+ *   of the pool's reserves at the same prices
+ *
+ * Both hand out at most what the market holds (every amount is rounded down).
+ */
+
+import { PAYOUT_PRECISION } from './scalar';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type RefundMode = 'COST_BASIS' | 'FAIR_PRICE';
+
+export const REFUND_MODES: readonly RefundMode[] = ['COST_BASIS', 'FAIR_PRICE'];
+
+export const DEFAULT_REFUND_MODE: RefundMode = 'COST_BASIS';
+
+/**
+ * Check whether a string names a refund mode
+ */
+export function isRefundMode(value: string): value is RefundMode {
+    return (REFUND_MODES as readonly string[]).includes(value);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// REFUNDS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Refund every claim in full, or pro rata when `available` falls short
+ *
+ * @param claims USDC owed to each holder (net cost basis, base units)
+ * @param available USDC the market holds
+ * @returns Refunds index-aligned with claims, and what is left over
+ */
+export function costBasisRefunds(claims: bigint[], available: bigint): { refunds: bigint[]; surplus: bigint } {
+    if (available < 0n) throw new Error('Available USDC must not be negative');
+    if (claims.some(claim => claim < 0n)) throw new Error('Claims must not be negative');
+
+    const total = claims.reduce((sum, claim) => sum + claim, 0n);
+    const refunds = total <= available
+        ? [...claims]
+        : claims.map(claim => (claim * available) / total);
+
+    const refunded = refunds.reduce((sum, refund) => sum + refund, 0n);
+    return { refunds, surplus: available - refunded };
+}
+
+/**
+ * Payout per share of every outcome at its last price, in PAYOUT_PRECISION
+ * units (the FAIR_PRICE counterpart of a resolution's payouts)
+ *
+ * @param prices Prices (0-1) index-aligned with outcomes, summing to 1
+ */
+export function fairPricePayouts(outcomes: string[], prices: number[]): Record<string, bigint> {
+    if (prices.length !== outcomes.length) throw new Error('Every outcome needs a price');
+
+    const payouts: Record<string, bigint> = {};
+    outcomes.forEach((outcome, i) => {
+        const price = Math.min(Math.max(prices[i], 0), 1);
+        payouts[outcome] = BigInt(Math.floor(price * Number(PAYOUT_PRECISION)));
+    });
+    return payouts;
+}
@@ -3,8 +3,9 @@
  * Uses database-backed pool manager for persistent storage
  */
 
-import { Router } from 'express';
-import { Outcome } from './types';
+import { Router, Request, RequestHandler } from 'express';
+import { verifyMessage } from 'ethers';
+import { OutcomeRef, BetOrder } from './types';
 import {
     createMarketDB,
     getActiveMarketsDB,
@@ -13,45 +14,290 @@ import {
     placeBetDB,
     quoteBetDB,
     getPositionDB,
+    getPortfolioDB,
     sellPositionDB,
     resolveMarketDB,
     getMarketsToResolveDB,
-    claimWinningsDB
+    claimWinningsDB,
+    addLiquidityDB,
+    removeLiquidityDB,
+    getLiquidityPositionDB,
+    getFeeAccrualsDB,
+    placeLimitOrderDB,
+    cancelLimitOrderDB,
+    getUserLimitOrdersDB,
+    getOrderBookDB,
+    splitPositionDB,
+    mergePositionsDB,
+    cancelMarketDB,
+    disputeResolutionDB,
+    finalizeResolutionDB,
+    decideDisputeDB,
+    getProposedResolutionsDB
 } from './db-pool-manager';
+import { isPricingEngineType } from './pricing-engine';
+import { MAX_TRADE_FEE_BPS } from './fees';
+import { TradeLimits, SlippageError } from './slippage';
+import { TradingHaltedError } from './trading-hours';
+import { LimitOrderInput, LimitOrderStatus } from './limit-orders';
+import { isRefundMode } from './refunds';
+import { MAX_DISPUTE_WINDOW_SECONDS } from './disputes';
+import { runReconciliationDB, getLatestReconciliationDB } from './reconciliation';
+import { getOracleSchedulerStatus } from './oracle-scheduler';
+import { listOracleAssets } from './oracle-providers';
+import { DEFAULT_AGGREGATION_CONFIG } from './oracle-aggregator';
+import { parseOracleConfig, validateOracleTiming } from './oracle-service';
+import { idempotent } from '../idempotency';
 
 export const ammRouter = Router();
 
+/**
+ * Parse an outcome from a request: an index (0 = YES, 1 = NO for binary
+ * markets, 0..N-1 for categorical ones) or an outcome label
+ */
+function parseOutcome(value: unknown): OutcomeRef {
+    if (typeof value === 'number') return value;
+    const str = String(value).trim();
+    return /^\d+$/.test(str) ? Number(str) : str;
+}
+
+/**
+ * Parse the size of a buy order from a request
+ * - mode "spend" (default): `amount` is the USDC to spend
+ * - mode "shares": `amount` is the exact number of shares to buy
+ * - mode "target": `targetPrice` (0-1) is the price to move the outcome to
+ * Returns an error message instead when the parameters don't fit the mode
+ */
+function parseBetOrder(mode: unknown, amount: unknown, targetPrice: unknown): BetOrder | string {
+    const orderMode = mode === undefined ? 'SPEND' : String(mode).toUpperCase();
+
+    if (orderMode === 'TARGET') {
+        const price = Number(targetPrice);
+        if (targetPrice === undefined || !Number.isFinite(price) || price <= 0 || price >= 1) {
+            return 'targetPrice must be a number between 0 and 1';
+        }
+        return { mode: 'TARGET', targetPrice: price };
+    }
+
+    if (orderMode !== 'SPEND' && orderMode !== 'SHARES') {
+        return 'mode must be spend, shares or target';
+    }
+
+    if (!amount || !/^\d+$/.test(String(amount))) {
+        return 'amount must be a positive integer (base units)';
+    }
+    const value = BigInt(String(amount));
+    if (value <= 0n) {
+        return orderMode === 'SPEND' ? 'Bet amount must be positive' : 'Shares amount must be positive';
+    }
+
+    return orderMode === 'SPEND'
+        ? { mode: 'SPEND', usdcAmount: value }
+        : { mode: 'SHARES', shares: value };
+}
+
+/**
+ * Parse slippage limits from a request: minSharesOut / minUsdcOut (base
+ * units), maxAvgPrice (0-1) and deadline (unix seconds). All are optional.
+ * Returns an error message instead when one is malformed
+ */
+function parseTradeLimits(params: Record<string, unknown>): TradeLimits | string {
+    const limits: TradeLimits = {};
+
+    for (const key of ['minSharesOut', 'minUsdcOut'] as const) {
+        const value = params[key];
+        if (value === undefined || value === null || value === '') continue;
+        if (!/^\d+$/.test(String(value))) {
+            return `${key} must be a non-negative integer (base units)`;
+        }
+        limits[key] = BigInt(String(value));
+    }
+
+    if (params.maxAvgPrice !== undefined && params.maxAvgPrice !== null && params.maxAvgPrice !== '') {
+        const price = Number(params.maxAvgPrice);
+        if (!Number.isFinite(price) || price <= 0) {
+            return 'maxAvgPrice must be a positive number';
+        }
+        limits.maxAvgPrice = price;
+    }
+
+    if (params.deadline !== undefined && params.deadline !== null && params.deadline !== '') {
+        const deadline = Number(params.deadline);
+        if (!Number.isInteger(deadline) || deadline <= 0) {
+            return 'deadline must be a unix timestamp in seconds';
+        }
+        limits.deadline = deadline;
+    }
+
+    return limits;
+}
+
+/**
+ * Parse a limit order from a request: `side` (BUY default, or SELL), `amount`
+ * (USDC to escrow for a bid, shares for an ask, base units), `limitPrice` (0-1),
+ * `timeInForce` (GTC default, or GTT) and `expiresAt` (ISO date, GTT only).
+ * Returns an error message instead when one is malformed
+ */
+function parseLimitOrder(body: Record<string, unknown>): LimitOrderInput | string {
+    const { side, amount, limitPrice, timeInForce, expiresAt } = body;
+
+    const orderSide = side === undefined ? 'BUY' : String(side).toUpperCase();
+    if (orderSide !== 'BUY' && orderSide !== 'SELL') {
+        return 'side must be BUY or SELL';
+    }
+
+    if (!amount || !/^\d+$/.test(String(amount)) || BigInt(String(amount)) <= 0n) {
+        return 'amount must be a positive integer (base units)';
+    }
+
+    const price = Number(limitPrice);
+    if (limitPrice === undefined || !Number.isFinite(price) || price <= 0 || price >= 1) {
+        return 'limitPrice must be a number between 0 and 1';
+    }
+
+    const tif = timeInForce === undefined ? 'GTC' : String(timeInForce).toUpperCase();
+    if (tif !== 'GTC' && tif !== 'GTT') {
+        return 'timeInForce must be GTC or GTT';
+    }
+
+    let expiry: Date | undefined;
+    if (expiresAt !== undefined && expiresAt !== null && expiresAt !== '') {
+        expiry = new Date(String(expiresAt));
+        if (isNaN(expiry.getTime())) return 'expiresAt must be a date';
+        if (expiry.getTime() <= Date.now()) return 'expiresAt must be in the future';
+    }
+    if (tif === 'GTT' && !expiry) return 'expiresAt is required for GTT orders';
+    if (tif === 'GTC' && expiry) return 'expiresAt is only allowed on GTT orders';
+
+    return { side: orderSide, amount: BigInt(String(amount)), limitPrice: price, timeInForce: tif, expiresAt: expiry };
+}
+
+/**
+ * Whether a request carries the admin key (none does when ADMIN_API_KEY is
+ * not set)
+ */
+function isAdminRequest(req: Request): boolean {
+    const adminKey = process.env.ADMIN_API_KEY;
+    return !!adminKey && req.header('x-admin-key') === adminKey;
+}
+
+// Admin routes require the x-admin-key header, and are disabled when
+// ADMIN_API_KEY is not set
+const requireAdmin: RequestHandler = (req, res, next) => {
+    if (!process.env.ADMIN_API_KEY) {
+        return res.status(503).json({ error: 'Admin API is disabled: ADMIN_API_KEY is not set' });
+    }
+    if (!isAdminRequest(req)) {
+        return res.status(401).json({ error: 'Unauthorized' });
+    }
+    next();
+};
+
+/**
+ * Message a market's resolver signs to cancel it
+ */
+function cancelMarketMessage(marketId: string, refundMode?: string): string {
+    return `Cancel market ${marketId} (refund mode: ${refundMode ?? 'default'})`;
+}
+
 // Create a new market
-ammRouter.post('/create', async (req, res) => {
+ammRouter.post('/create', idempotent(), async (req, res) => {
     try {
         const {
             marketId,
             title,
             description,
             category,
+            opensAt,
             expiresAt,
             initialLiquidity,
+            creatorId,
+            outcomes,
+            scalarRange,
+            pricingEngine,
+            feeBps,
             resolutionType,
             oracleConfig,
-            resolverAddress
+            resolverAddress,
+            refundMode,
+            disputeWindowSeconds,
+            disputeBond
         } = req.body;
 
-        if (!marketId || !title || !expiresAt || !initialLiquidity) {
+        if (!marketId || !title || !expiresAt || !initialLiquidity || !creatorId) {
             return res.status(400).json({
-                error: 'Missing required fields: marketId, title, expiresAt, initialLiquidity'
+                error: 'Missing required fields: marketId, title, expiresAt, initialLiquidity, creatorId'
             });
         }
 
+        if (opensAt !== undefined && opensAt !== null && opensAt !== ''
+            && (isNaN(new Date(String(opensAt)).getTime()) || new Date(String(opensAt)) >= new Date(expiresAt))) {
+            return res.status(400).json({ error: 'opensAt must be a date before expiresAt' });
+        }
+
+        if (outcomes !== undefined && (!Array.isArray(outcomes) || outcomes.some(o => typeof o !== 'string'))) {
+            return res.status(400).json({ error: 'outcomes must be an array of outcome labels' });
+        }
+
+        if (scalarRange !== undefined && (typeof scalarRange !== 'object' || scalarRange === null
+            || typeof scalarRange.low !== 'number' || typeof scalarRange.high !== 'number')) {
+            return res.status(400).json({ error: 'scalarRange must be { low: number, high: number }' });
+        }
+
+        if (pricingEngine !== undefined && !isPricingEngineType(String(pricingEngine))) {
+            return res.status(400).json({ error: 'pricingEngine must be CPMM or LMSR' });
+        }
+
+        if (feeBps !== undefined && (!Number.isInteger(feeBps) || feeBps < 0 || feeBps > MAX_TRADE_FEE_BPS)) {
+            return res.status(400).json({ error: `feeBps must be an integer between 0 and ${MAX_TRADE_FEE_BPS}` });
+        }
+
+        if (refundMode !== undefined && !isRefundMode(String(refundMode))) {
+            return res.status(400).json({ error: 'refundMode must be COST_BASIS or FAIR_PRICE' });
+        }
+
+        if (disputeWindowSeconds !== undefined && (!Number.isInteger(disputeWindowSeconds)
+            || disputeWindowSeconds < 0 || disputeWindowSeconds > MAX_DISPUTE_WINDOW_SECONDS)) {
+            return res.status(400).json({ error: `disputeWindowSeconds must be an integer between 0 and ${MAX_DISPUTE_WINDOW_SECONDS}` });
+        }
+
+        if (disputeBond !== undefined && !/^\d+$/.test(String(disputeBond))) {
+            return res.status(400).json({ error: 'disputeBond must be a non-negative integer amount' });
+        }
+
+        const oracleAsset = resolutionType === 'oracle' && oracleConfig?.asset ? String(oracleConfig.asset).toUpperCase() : null;
+        if (oracleAsset && !listOracleAssets().some(a => a.asset === oracleAsset)) {
+            return res.status(400).json({ error: `No oracle provider prices ${oracleAsset}` });
+        }
+
+        const parsedOracle = resolutionType === 'oracle' ? parseOracleConfig(oracleConfig) : null;
+        if (parsedOracle?.config) {
+            try {
+                validateOracleTiming(parsedOracle.config);
+            } catch (err) {
+                return res.status(400).json({ error: err instanceof Error ? err.message : String(err) });
+            }
+        }
+
         const market = await createMarketDB({
             marketId,
             title,
             description,
             category: category || 'general',
+            opensAt: opensAt ? new Date(String(opensAt)) : undefined,
             expiresAt: new Date(expiresAt),
             initialLiquidity: BigInt(initialLiquidity),
+            creatorId: String(creatorId),
+            outcomes,
+            scalarRange,
+            pricingEngine,
+            feeBps,
             resolutionType,
             oracleConfig,
-            resolverAddress
+            resolverAddress,
+            refundMode,
+            disputeWindowSeconds,
+            disputeBond: disputeBond !== undefined ? BigInt(disputeBond) : undefined
         });
 
         res.json({ success: true, market });
@@ -101,26 +347,28 @@ ammRouter.get('/market/:marketId', async (req, res) => {
     }
 });
 
-// Quote a bet price
+// Quote a bet price (mode: spend | shares | target, see parseBetOrder)
 ammRouter.get('/quote', async (req, res) => {
     try {
-        const { marketId, amount, outcome } = req.query;
+        const { marketId, mode, amount, targetPrice, outcome } = req.query;
 
-        if (!marketId || !amount || outcome === undefined) {
-            return res.status(400).json({ error: 'Missing parameters: marketId, amount, outcome' });
+        if (!marketId || outcome === undefined) {
+            return res.status(400).json({ error: 'Missing parameters: marketId, amount (or targetPrice), outcome' });
         }
 
-        // Outcome: 0 = YES, 1 = NO
-        const outcomeEnum = Number(outcome) === 0 ? Outcome.YES : Outcome.NO;
+        const order = parseBetOrder(mode, amount, targetPrice);
+        if (typeof order === 'string') {
+            return res.status(400).json({ error: order });
+        }
 
         const quote = await quoteBetDB(
             String(marketId),
-            BigInt(String(amount)),
-            outcomeEnum
+            order,
+            parseOutcome(outcome)
         );
 
         if (!quote) {
-            return res.status(404).json({ error: 'Market not found or not active' });
+            return res.status(404).json({ error: 'Market not found or not open for trading' });
         }
 
         res.json(quote);
@@ -130,33 +378,40 @@ ammRouter.get('/quote', async (req, res) => {
     }
 });
 
-// Place a bet
-ammRouter.post('/bet', async (req, res) => {
+// Place a bet (mode: spend | shares | target, see parseBetOrder)
+// Optional limits: minSharesOut, maxAvgPrice, deadline (409 + code when breached)
+ammRouter.post('/bet', idempotent(), async (req, res) => {
     try {
-        const { marketId, userId, amount, outcome } = req.body;
+        const { marketId, userId, mode, amount, targetPrice, outcome } = req.body;
 
-        if (!marketId || !userId || !amount || outcome === undefined) {
-            return res.status(400).json({ error: 'Missing parameters: marketId, userId, amount, outcome' });
+        if (!marketId || !userId || outcome === undefined) {
+            return res.status(400).json({ error: 'Missing parameters: marketId, userId, amount (or targetPrice), outcome' });
         }
 
-        // Outcome: 0 = YES, 1 = NO
-        const outcomeEnum = Number(outcome) === 0 ? Outcome.YES : Outcome.NO;
+        // Validate bet size
+        const order = parseBetOrder(mode, amount, targetPrice);
+        if (typeof order === 'string') {
+            return res.status(400).json({ error: order });
+        }
 
-        // Validate bet amount
-        const betAmount = BigInt(amount);
-        if (betAmount <= 0n) {
-            return res.status(400).json({ error: 'Bet amount must be positive' });
+        const limits = parseTradeLimits(req.body);
+        if (typeof limits === 'string') {
+            return res.status(400).json({ error: limits });
         }
 
         const result = await placeBetDB(
             marketId,
             userId,
-            betAmount,
-            outcomeEnum
+            order,
+            parseOutcome(outcome),
+            limits
         );
 
         res.json(result);
     } catch (err) {
+        if (err instanceof SlippageError || err instanceof TradingHaltedError) {
+            return res.status(409).json({ error: err.message, code: err.code });
+        }
         console.error('[AMM Bet] Error:', err);
         const errorMessage = err instanceof Error ? err.message : String(err);
         res.status(500).json({ error: errorMessage });
@@ -164,7 +419,8 @@ ammRouter.post('/bet', async (req, res) => {
 });
 
 // Sell a position
-ammRouter.post('/sell', async (req, res) => {
+// Optional limits: minUsdcOut, deadline (409 + code when breached)
+ammRouter.post('/sell', idempotent(), async (req, res) => {
     try {
         const { marketId, userId, amount, outcome } = req.body;
 
@@ -172,44 +428,339 @@ ammRouter.post('/sell', async (req, res) => {
             return res.status(400).json({ error: 'Missing parameters: marketId, userId, amount, outcome' });
         }
 
-        // Outcome: 0 = YES, 1 = NO
-        const outcomeEnum = Number(outcome) === 0 ? Outcome.YES : Outcome.NO;
+        const limits = parseTradeLimits(req.body);
+        if (typeof limits === 'string') {
+            return res.status(400).json({ error: limits });
+        }
 
         const result = await sellPositionDB(
             marketId,
             userId,
             BigInt(amount),
-            outcomeEnum
+            parseOutcome(outcome),
+            limits
         );
 
         res.json(result);
     } catch (err) {
+        if (err instanceof SlippageError || err instanceof TradingHaltedError) {
+            return res.status(409).json({ error: err.message, code: err.code });
+        }
         console.error('[AMM Sell] Error:', err);
         res.status(500).json({ error: String(err) });
     }
 });
 
-// Resolve a market
-ammRouter.post('/resolve', async (req, res) => {
+// Split USDC into complete sets: amount USDC → amount shares of every outcome
+ammRouter.post('/split', idempotent(), async (req, res) => {
     try {
-        const { marketId, outcome, resolvedBy } = req.body;
+        const { marketId, userId, amount } = req.body;
 
-        if (!marketId || outcome === undefined) {
-            return res.status(400).json({ error: 'Missing parameters: marketId, outcome' });
+        if (!marketId || !userId || !amount) {
+            return res.status(400).json({ error: 'Missing parameters: marketId, userId, amount' });
+        }
+        if (!/^\d+$/.test(String(amount)) || BigInt(amount) <= 0n) {
+            return res.status(400).json({ error: 'amount must be a positive integer (base units)' });
+        }
+
+        const result = await splitPositionDB(marketId, userId, BigInt(amount));
+        res.json(result);
+    } catch (err) {
+        if (err instanceof TradingHaltedError) {
+            return res.status(409).json({ error: err.message, code: err.code });
+        }
+        console.error('[AMM Split] Error:', err);
+        res.status(500).json({ error: String(err) });
+    }
+});
+
+// Merge complete sets back into USDC: amount shares of every outcome → amount USDC
+ammRouter.post('/merge', idempotent(), async (req, res) => {
+    try {
+        const { marketId, userId, amount } = req.body;
+
+        if (!marketId || !userId || !amount) {
+            return res.status(400).json({ error: 'Missing parameters: marketId, userId, amount' });
+        }
+        if (!/^\d+$/.test(String(amount)) || BigInt(amount) <= 0n) {
+            return res.status(400).json({ error: 'amount must be a positive integer (base units)' });
+        }
+
+        const result = await mergePositionsDB(marketId, userId, BigInt(amount));
+        res.json(result);
+    } catch (err) {
+        if (err instanceof TradingHaltedError) {
+            return res.status(409).json({ error: err.message, code: err.code });
+        }
+        console.error('[AMM Merge] Error:', err);
+        res.status(500).json({ error: String(err) });
+    }
+});
+
+// Place a limit order: buy (side BUY, escrowing USDC) an outcome at or below
+// limitPrice, or sell (side SELL, escrowing shares) at or above it
+ammRouter.post('/orders', idempotent(), async (req, res) => {
+    try {
+        const { marketId, userId, outcome } = req.body;
+
+        if (!marketId || !userId || outcome === undefined) {
+            return res.status(400).json({ error: 'Missing parameters: marketId, userId, outcome, amount, limitPrice' });
+        }
+
+        const order = parseLimitOrder(req.body);
+        if (typeof order === 'string') {
+            return res.status(400).json({ error: order });
+        }
+
+        const result = await placeLimitOrderDB(marketId, userId, parseOutcome(outcome), order);
+        res.json({ order: result });
+    } catch (err) {
+        if (err instanceof TradingHaltedError) {
+            return res.status(409).json({ error: err.message, code: err.code });
+        }
+        console.error('[AMM Limit Order] Error:', err);
+        res.status(500).json({ error: String(err) });
+    }
+});
+
+// Cancel an open limit order and refund its unspent escrow
+ammRouter.post('/orders/:orderId/cancel', idempotent(), async (req, res) => {
+    try {
+        const { userId } = req.body;
+
+        if (!userId) {
+            return res.status(400).json({ error: 'Missing parameters: userId' });
+        }
+
+        const result = await cancelLimitOrderDB(req.params.orderId, userId);
+        res.json({ order: result });
+    } catch (err) {
+        console.error('[AMM Cancel Order] Error:', err);
+        res.status(500).json({ error: String(err) });
+    }
+});
+
+// Get a user's limit orders (optional ?status=OPEN|FILLED|CANCELLED|EXPIRED)
+ammRouter.get('/orders/:userId', async (req, res) => {
+    try {
+        const status = req.query.status ? String(req.query.status).toUpperCase() : undefined;
+        if (status && !['OPEN', 'FILLED', 'CANCELLED', 'EXPIRED'].includes(status)) {
+            return res.status(400).json({ error: 'status must be OPEN, FILLED, CANCELLED or EXPIRED' });
+        }
+
+        const orders = await getUserLimitOrdersDB(req.params.userId, status as LimitOrderStatus | undefined);
+        res.json({ orders });
+    } catch (err) {
+        console.error('[AMM Limit Orders] Error:', err);
+        res.status(500).json({ error: String(err), orders: [] });
+    }
+});
+
+// Get a market's order book: resting bids and asks per outcome, by price level
+ammRouter.get('/book/:marketId', async (req, res) => {
+    try {
+        const book = await getOrderBookDB(req.params.marketId);
+
+        if (!book) {
+            return res.status(404).json({ error: 'Market not found' });
         }
 
-        // Outcome: 0 = YES, 1 = NO
-        const outcomeEnum = Number(outcome) === 0 ? Outcome.YES : Outcome.NO;
+        res.json({ marketId: req.params.marketId, outcomes: book });
+    } catch (err) {
+        console.error('[AMM Order Book] Error:', err);
+        res.status(500).json({ error: String(err) });
+    }
+});
+
+// Deposit USDC into a market's pool for LP shares
+ammRouter.post('/liquidity/add', idempotent(), async (req, res) => {
+    try {
+        const { marketId, userId, amount } = req.body;
+
+        if (!marketId || !userId || !amount) {
+            return res.status(400).json({ error: 'Missing parameters: marketId, userId, amount' });
+        }
+        if (!/^\d+$/.test(String(amount)) || BigInt(String(amount)) <= 0n) {
+            return res.status(400).json({ error: 'amount must be a positive integer (base units)' });
+        }
+
+        const result = await addLiquidityDB(marketId, userId, BigInt(String(amount)));
+        res.json(result);
+    } catch (err) {
+        if (err instanceof TradingHaltedError) {
+            return res.status(409).json({ error: err.message, code: err.code });
+        }
+        console.error('[AMM Add Liquidity] Error:', err);
+        res.status(500).json({ error: String(err) });
+    }
+});
+
+// Burn LP shares for USDC and outcome shares
+ammRouter.post('/liquidity/remove', idempotent(), async (req, res) => {
+    try {
+        const { marketId, userId, lpShares } = req.body;
+
+        if (!marketId || !userId || !lpShares) {
+            return res.status(400).json({ error: 'Missing parameters: marketId, userId, lpShares' });
+        }
+        if (!/^\d+$/.test(String(lpShares)) || BigInt(String(lpShares)) <= 0n) {
+            return res.status(400).json({ error: 'lpShares must be a positive integer' });
+        }
+
+        const result = await removeLiquidityDB(marketId, userId, BigInt(String(lpShares)));
+        res.json(result);
+    } catch (err) {
+        if (err instanceof TradingHaltedError) {
+            return res.status(409).json({ error: err.message, code: err.code });
+        }
+        console.error('[AMM Remove Liquidity] Error:', err);
+        res.status(500).json({ error: String(err) });
+    }
+});
+
+// Get a user's LP position in a market
+ammRouter.get('/liquidity/:marketId/:userId', async (req, res) => {
+    try {
+        const { marketId, userId } = req.params;
+        const position = await getLiquidityPositionDB(marketId, userId);
+
+        res.json({ position });
+    } catch (err) {
+        console.error('[AMM Liquidity Position] Error:', err);
+        res.status(500).json({ error: String(err), position: null });
+    }
+});
+
+// Resolve a market (markets with a dispute window are only proposed to resolve)
+ammRouter.post('/resolve', idempotent({ storeServerErrors: true }), async (req, res) => {
+    try {
+        // Scalar markets resolve to the observed `value` instead of an outcome
+        const { marketId, outcome, value, resolvedBy } = req.body;
+
+        if (!marketId || (outcome === undefined && value === undefined)) {
+            return res.status(400).json({ error: 'Missing parameters: marketId, outcome (or value for scalar markets)' });
+        }
 
-        await resolveMarketDB(marketId, outcomeEnum, resolvedBy);
+        const resolution = await resolveMarketDB(marketId, value !== undefined ? value : parseOutcome(outcome), resolvedBy);
 
-        res.json({ success: true });
+        res.json({ success: true, ...resolution });
     } catch (err) {
         console.error('[AMM Resolve] Error:', err);
         res.status(500).json({ error: String(err) });
     }
 });
 
+// Dispute a proposed resolution during its window, posting the market's bond
+ammRouter.post('/dispute', idempotent(), async (req, res) => {
+    try {
+        const { marketId, userId, reason } = req.body;
+
+        if (!marketId || !userId) {
+            return res.status(400).json({ error: 'Missing parameters: marketId, userId' });
+        }
+
+        const dispute = await disputeResolutionDB(
+            String(marketId),
+            String(userId),
+            reason !== undefined ? String(reason) : undefined
+        );
+        res.json({ success: true, ...dispute });
+    } catch (err) {
+        console.error('[AMM Dispute] Error:', err);
+        res.status(500).json({ error: String(err) });
+    }
+});
+
+// Finalize an undisputed proposal once its dispute window has closed (anyone)
+ammRouter.post('/finalize', idempotent({ storeServerErrors: true }), async (req, res) => {
+    try {
+        const { marketId } = req.body;
+
+        if (!marketId) {
+            return res.status(400).json({ error: 'Missing parameters: marketId' });
+        }
+
+        const resolution = await finalizeResolutionDB(String(marketId));
+        res.json({ success: true, ...resolution });
+    } catch (err) {
+        console.error('[AMM Finalize] Error:', err);
+        res.status(500).json({ error: String(err) });
+    }
+});
+
+// Resolutions proposed or disputed but not yet final
+ammRouter.get('/proposed-resolutions', async (req, res) => {
+    try {
+        const markets = await getProposedResolutionsDB();
+        res.json({ markets });
+    } catch (err) {
+        console.error('[AMM Proposed Resolutions] Error:', err);
+        res.status(500).json({ error: String(err), markets: [] });
+    }
+});
+
+// Oracle scheduler state: markets awaiting a retry and the latest oracle resolutions
+ammRouter.get('/oracle/status', (req, res) => {
+    res.json({ status: getOracleSchedulerStatus() });
+});
+
+// Assets oracle markets can resolve against, with the providers pricing each.
+// A price needs `minSources` of them to agree
+ammRouter.get('/oracle/assets', (req, res) => {
+    try {
+        res.json({ assets: listOracleAssets(), minSources: DEFAULT_AGGREGATION_CONFIG.minSources });
+    } catch (err) {
+        res.status(500).json({ error: String(err) });
+    }
+});
+
+// Cancel a market (e.g. a postponed event): halts trading and refunds every
+// holder by the market's refund mode, or `refundMode` when given.
+// Requires the x-admin-key header, or a `signature` of cancelMarketMessage by
+// the market's resolver
+ammRouter.post('/cancel', idempotent({ storeServerErrors: true }), async (req, res) => {
+    try {
+        const { marketId, refundMode, signature } = req.body;
+        let { cancelledBy } = req.body;
+
+        if (!marketId) {
+            return res.status(400).json({ error: 'Missing parameters: marketId' });
+        }
+
+        if (refundMode !== undefined && !isRefundMode(String(refundMode))) {
+            return res.status(400).json({ error: 'refundMode must be COST_BASIS or FAIR_PRICE' });
+        }
+
+        if (!isAdminRequest(req)) {
+            const market = await getMarketDB(String(marketId));
+            if (!market) {
+                return res.status(404).json({ error: 'Market not found' });
+            }
+            let signer: string | undefined;
+            try {
+                if (signature) signer = verifyMessage(cancelMarketMessage(String(marketId), refundMode), String(signature));
+            } catch {
+                return res.status(400).json({ error: 'Invalid signature' });
+            }
+            if (!market.resolverAddress || !signer
+                || market.resolverAddress.toLowerCase() !== signer.toLowerCase()) {
+                return res.status(401).json({ error: 'Only an admin or the market resolver can cancel a market' });
+            }
+            cancelledBy = signer;
+        }
+
+        const cancellation = await cancelMarketDB(String(marketId), {
+            refundMode,
+            cancelledBy: cancelledBy !== undefined ? String(cancelledBy) : undefined
+        });
+
+        res.json({ success: true, ...cancellation });
+    } catch (err) {
+        console.error('[AMM Cancel] Error:', err);
+        res.status(500).json({ error: String(err) });
+    }
+});
+
 // Get markets pending resolution
 ammRouter.get('/pending-resolution', async (req, res) => {
     try {
@@ -240,10 +791,11 @@ ammRouter.get('/positions/:userId', async (req, res) => {
         }
 
         res.json({
-            positions: activePositions.map((p: { market_id: string; outcome: string; shares: string; average_entry_price: number }) => ({
+            positions: activePositions.map(p => ({
                 marketId: p.market_id,
                 outcome: p.outcome,
                 shares: p.shares,
+                costBasis: p.cost_basis,
                 averageEntryPrice: p.average_entry_price
             })),
             totalValue: totalValue.toString()
@@ -254,6 +806,17 @@ ammRouter.get('/positions/:userId', async (req, res) => {
     }
 });
 
+// Open positions marked to the current pool prices, with unrealized and realized PnL
+ammRouter.get('/portfolio/:userId', async (req, res) => {
+    try {
+        const { userId } = req.params;
+        const portfolio = await getPortfolioDB(userId);
+        res.json(portfolio);
+    } catch (err) {
+        console.error('[AMM Portfolio] Error:', err);
+        res.status(500).json({ error: String(err) });
+    }
+});
 
 // Get user position
 ammRouter.get('/position/:marketId/:userId', async (req, res) => {
@@ -269,7 +832,7 @@ ammRouter.get('/position/:marketId/:userId', async (req, res) => {
 });
 
 // Claim winnings
-ammRouter.post('/claim', async (req, res) => {
+ammRouter.post('/claim', idempotent({ storeServerErrors: true }), async (req, res) => {
     try {
         const { marketId, userId } = req.body;
 
@@ -285,6 +848,61 @@ ammRouter.post('/claim', async (req, res) => {
     }
 });
 
+// Trade fees accrued per market and in total (admin)
+ammRouter.get('/admin/fees', requireAdmin, async (req, res) => {
+    try {
+        const fees = await getFeeAccrualsDB();
+        res.json(fees);
+    } catch (err) {
+        console.error('[AMM Admin Fees] Error:', err);
+        res.status(500).json({ error: String(err) });
+    }
+});
+
+// Latest solvency reconciliation report (admin)
+ammRouter.get('/admin/reconciliation', requireAdmin, async (req, res) => {
+    try {
+        const report = await getLatestReconciliationDB();
+        res.json({ report });
+    } catch (err) {
+        console.error('[AMM Admin Reconciliation] Error:', err);
+        res.status(500).json({ error: String(err) });
+    }
+});
+
+// Run solvency reconciliation now (admin)
+ammRouter.post('/admin/reconciliation/run', requireAdmin, idempotent(), async (req, res) => {
+    try {
+        const report = await runReconciliationDB();
+        res.json({ report });
+    } catch (err) {
+        console.error('[AMM Admin Reconciliation] Error:', err);
+        res.status(500).json({ error: String(err) });
+    }
+});
+
+// Decide a disputed resolution (admin): returns or slashes the bond and pays the market out
+ammRouter.post('/admin/disputes/decide', requireAdmin, idempotent({ storeServerErrors: true }), async (req, res) => {
+    try {
+        // Scalar markets resolve to the observed `value` instead of an outcome
+        const { marketId, outcome, value, decidedBy } = req.body;
+
+        if (!marketId || (outcome === undefined && value === undefined)) {
+            return res.status(400).json({ error: 'Missing parameters: marketId, outcome (or value for scalar markets)' });
+        }
+
+        const decision = await decideDisputeDB(
+            String(marketId),
+            value !== undefined ? value : parseOutcome(outcome),
+            decidedBy !== undefined ? String(decidedBy) : undefined
+        );
+        res.json({ success: true, ...decision });
+    } catch (err) {
+        console.error('[AMM Admin Disputes] Error:', err);
+        res.status(500).json({ error: String(err) });
+    }
+});
+
 // Get trade history for a user
 ammRouter.get('/trades/:userAddress', async (req, res) => {
     try {
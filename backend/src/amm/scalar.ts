@@ -0,0 +1,123 @@
+/**
+ * Scalar (Range) Markets - LONG / SHORT tokens over a numeric range
+ *
+ * A scalar market ("BTC price on Dec 31 between $50k and $150k") trades two
+ * tokens through the same 2-leg "Mint & Swap" pool as a binary market:
+ * 1. Collateralization: 1 USDC = 1 LONG + 1 SHORT
+ * 2. Trading: the market's pricing engine, exactly as for YES/NO
+ *
+ * At resolution the observed value is clamped into [low, high]:
+ *   LONG pays  (value - low) / (high - low)
+ *   SHORT pays 1 - LONG
+ *
+ * Payouts are computed in fixed point (PAYOUT_PRECISION) and rounded down,
+ * so a complete LONG + SHORT set never pays out more than the 1 USDC that
+ * minted it.
+ */
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONSTANTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export enum ScalarOutcome {
+    LONG = 'LONG',
+    SHORT = 'SHORT'
+}
+
+/** Outcome labels of every scalar market, index-aligned with the pool */
+export const SCALAR_OUTCOMES: string[] = [ScalarOutcome.LONG, ScalarOutcome.SHORT];
+
+/** Fixed-point denominator for per-share payouts (1e6 = $1 per share) */
+export const PAYOUT_PRECISION = 1_000_000n;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface ScalarRange {
+    /** Value at or below which LONG pays $0 */
+    low: number;
+
+    /** Value at or above which LONG pays $1 */
+    high: number;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// VALIDATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Validate the range of a scalar market
+ */
+export function validateScalarRange(range: ScalarRange): void {
+    if (!Number.isFinite(range.low) || !Number.isFinite(range.high)) {
+        throw new Error('Scalar range bounds must be finite numbers');
+    }
+    if (range.high <= range.low) {
+        throw new Error('Scalar range high must be greater than low');
+    }
+}
+
+/**
+ * Parse an observed resolution value
+ */
+export function parseScalarValue(value: unknown): number {
+    const parsed = typeof value === 'number' ? value : Number(String(value).trim());
+    if (!Number.isFinite(parsed)) {
+        throw new Error(`Invalid scalar resolution value: ${value}`);
+    }
+    return parsed;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PAYOUTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Payout of one LONG share in PAYOUT_PRECISION units
+ *
+ * Formula: (clamp(value, low, high) - low) / (high - low)
+ */
+export function scalarLongPayout(value: number, range: ScalarRange): bigint {
+    validateScalarRange(range);
+
+    const clamped = Math.min(Math.max(value, range.low), range.high);
+    const fraction = (clamped - range.low) / (range.high - range.low);
+
+    return BigInt(Math.floor(fraction * Number(PAYOUT_PRECISION)));
+}
+
+/**
+ * Payout per share of each scalar outcome in PAYOUT_PRECISION units
+ * (LONG + SHORT always sum to PAYOUT_PRECISION)
+ */
+export function scalarOutcomePayouts(value: number, range: ScalarRange): Record<string, bigint> {
+    const longPayout = scalarLongPayout(value, range);
+
+    return {
+        [ScalarOutcome.LONG]: longPayout,
+        [ScalarOutcome.SHORT]: PAYOUT_PRECISION - longPayout
+    };
+}
+
+/**
+ * USDC paid out for a holding of one scalar outcome
+ *
+ * @param shares Shares held (base units)
+ * @param outcome LONG or SHORT
+ * @param value Observed resolution value
+ * @param range Market range
+ * @returns Payout in USDC base units (rounded down)
+ */
+export function calculateScalarPayout(
+    shares: bigint,
+    outcome: string,
+    value: number,
+    range: ScalarRange
+): bigint {
+    const perShare = scalarOutcomePayouts(value, range)[outcome];
+    if (perShare === undefined) {
+        throw new Error(`Unknown scalar outcome: ${outcome}`);
+    }
+    return (shares * perShare) / PAYOUT_PRECISION;
+}
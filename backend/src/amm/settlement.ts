@@ -274,6 +274,18 @@ export function validatePoolSolvency(
     return totalWinningShares <= pool.totalCollateral;
 }
 
+/**
+ * Most a market can owe its shareholders over every possible resolution:
+ * the shares outstanding of its most-held outcome (a share pays at most $1,
+ * and scalar LONG / SHORT payouts split $1 between them)
+ *
+ * The N-outcome counterpart of validatePoolSolvency: collateral covering
+ * this keeps the market solvent whatever the outcome.
+ */
+export function worstCasePayout(sharesOutstanding: bigint[]): bigint {
+    return sharesOutstanding.reduce((max, shares) => shares > max ? shares : max, 0n);
+}
+
 /**
  * Verify that a resolution comes from a valid oracle source
  * 
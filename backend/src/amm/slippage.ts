@@ -0,0 +1,113 @@
+/**
+ * Slippage Protection - Trade limits checked at execution time
+ *
+ * A quote is only valid for the pool state it was computed against. Trades
+ * carry the limits the trader accepted when they saw the quote; if the pool
+ * moved (or the order arrived too late) the trade is rejected with a
+ * SlippageError instead of filling at a worse price.
+ *
+ * All comparisons are exact: prices are compared in PRICE_PRECISION fixed
+ * point against the bigint amounts actually filled.
+ */
+
+import { PRICE_PRECISION, toFixedPrice } from './math';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface TradeLimits {
+    /** Buys: fewest shares the trader accepts (base units) */
+    minSharesOut?: bigint;
+
+    /** Sells: least USDC the trader accepts (base units) */
+    minUsdcOut?: bigint;
+
+    /** Buys: highest average price per share (0-1) */
+    maxAvgPrice?: number;
+
+    /** Unix time in seconds after which the trade must not execute */
+    deadline?: number;
+}
+
+export type SlippageErrorCode =
+    | 'DEADLINE_EXPIRED'
+    | 'MIN_SHARES_OUT'
+    | 'MIN_USDC_OUT'
+    | 'MAX_AVG_PRICE';
+
+/**
+ * Thrown when a trade would breach one of the trader's limits
+ */
+export class SlippageError extends Error {
+    constructor(
+        public readonly code: SlippageErrorCode,
+        message: string
+    ) {
+        super(message);
+        this.name = 'SlippageError';
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CHECKS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Reject a trade whose deadline has passed
+ *
+ * @param limits Trader's limits
+ * @param now Current time in milliseconds
+ */
+export function checkDeadline(limits: TradeLimits, now: number = Date.now()): void {
+    if (limits.deadline !== undefined && Math.floor(now / 1000) > limits.deadline) {
+        throw new SlippageError(
+            'DEADLINE_EXPIRED',
+            `Trade deadline ${new Date(limits.deadline * 1000).toISOString()} has passed`
+        );
+    }
+}
+
+/**
+ * Reject a buy that fills worse than the trader's limits
+ *
+ * @param limits Trader's limits
+ * @param usdcIn USDC the buy costs
+ * @param sharesOut Shares the buy returns
+ */
+export function checkBuyLimits(limits: TradeLimits, usdcIn: bigint, sharesOut: bigint): void {
+    checkDeadline(limits);
+
+    if (limits.minSharesOut !== undefined && sharesOut < limits.minSharesOut) {
+        throw new SlippageError(
+            'MIN_SHARES_OUT',
+            `Slippage exceeded: ${sharesOut} shares out, minimum ${limits.minSharesOut}`
+        );
+    }
+
+    // usdcIn / sharesOut > maxAvgPrice, without leaving integers
+    if (limits.maxAvgPrice !== undefined
+        && usdcIn * PRICE_PRECISION > toFixedPrice(limits.maxAvgPrice) * sharesOut) {
+        throw new SlippageError(
+            'MAX_AVG_PRICE',
+            `Slippage exceeded: average price ${(Number(usdcIn) / Number(sharesOut)).toFixed(6)}, maximum ${limits.maxAvgPrice}`
+        );
+    }
+}
+
+/**
+ * Reject a sell that pays out less than the trader's limit
+ *
+ * @param limits Trader's limits
+ * @param usdcOut USDC the sell pays out
+ */
+export function checkSellLimits(limits: TradeLimits, usdcOut: bigint): void {
+    checkDeadline(limits);
+
+    if (limits.minUsdcOut !== undefined && usdcOut < limits.minUsdcOut) {
+        throw new SlippageError(
+            'MIN_USDC_OUT',
+            `Slippage exceeded: ${usdcOut} USDC out, minimum ${limits.minUsdcOut}`
+        );
+    }
+}
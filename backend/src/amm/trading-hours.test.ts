@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ONE_USDC } from './index';
+import {
+    createMarketDB,
+    placeBetDB,
+    quoteBetDB,
+    sellPositionDB,
+    placeLimitOrderDB,
+    getMarketDB,
+    addLiquidityDB,
+    removeLiquidityDB,
+    splitPositionDB,
+    mergePositionsDB
+} from './db-pool-manager';
+import * as db from '../db/amm-repository';
+import { MemoryStore } from '../db/memory-store';
+import { TradingHaltedError, tradingPhase, validateTradingWindow } from './trading-hours';
+
+const CREATOR = 'hours-creator';
+const BETTOR = 'hours-bettor';
+const OPENS_AT = new Date('2026-06-01T12:00:00Z');
+const EXPIRES_AT = new Date('2026-06-01T13:00:00Z');
+
+/** The code of the TradingHaltedError a trade was rejected with (null if it went through) */
+async function haltCode(trade: Promise<unknown>): Promise<string | null> {
+    return trade.then(() => null, err => err instanceof TradingHaltedError ? err.code : `not halted: ${err}`);
+}
+
+describe('tradingPhase', () => {
+    const market = { market_id: 'm', status: 'ACTIVE', opens_at: OPENS_AT.toISOString(), expires_at: EXPIRES_AT.toISOString() };
+
+    it('is SCHEDULED before opening, OPEN until expiry and CLOSED from expiry on', () => {
+        expect(tradingPhase(market, OPENS_AT.getTime() - 1)).toBe('SCHEDULED');
+        expect(tradingPhase(market, OPENS_AT.getTime())).toBe('OPEN');
+        expect(tradingPhase(market, EXPIRES_AT.getTime() - 1)).toBe('OPEN');
+        expect(tradingPhase(market, EXPIRES_AT.getTime())).toBe('CLOSED');
+    });
+
+    it('is CLOSED for a market that is no longer active', () => {
+        expect(tradingPhase({ ...market, status: 'PROPOSED' }, OPENS_AT.getTime())).toBe('CLOSED');
+    });
+
+    it('requires opening before expiry', () => {
+        expect(() => validateTradingWindow(EXPIRES_AT, OPENS_AT)).toThrow('opensAt must be before expiresAt');
+        expect(() => validateTradingWindow(EXPIRES_AT, EXPIRES_AT)).toThrow();
+        expect(() => validateTradingWindow(undefined, EXPIRES_AT)).not.toThrow();
+    });
+});
+
+describe('trading window', () => {
+    beforeEach(async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(OPENS_AT.getTime() - 60_000);
+        db.setStore(new MemoryStore());
+        await db.createSession(CREATOR, CREATOR, 1_000n * ONE_USDC, 'hours-test');
+        await db.createSession(BETTOR, BETTOR, 1_000n * ONE_USDC, 'hours-test');
+        await createMarketDB({
+            marketId: 'scheduled',
+            title: 'Trading window test',
+            opensAt: OPENS_AT,
+            expiresAt: EXPIRES_AT,
+            initialLiquidity: 100n * ONE_USDC,
+            creatorId: CREATOR
+        });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    const bet = () => placeBetDB('scheduled', BETTOR, { mode: 'SPEND', usdcAmount: ONE_USDC }, 'YES');
+
+    it('refuses markets opening after their expiry', async () => {
+        const created = createMarketDB({
+            marketId: 'misordered',
+            title: 'Trading window test',
+            opensAt: EXPIRES_AT,
+            expiresAt: OPENS_AT,
+            initialLiquidity: 100n * ONE_USDC,
+            creatorId: CREATOR
+        });
+        await expect(created).rejects.toThrow();
+    });
+
+    it('refuses trades and quotes before opening', async () => {
+        expect((await getMarketDB('scheduled'))!.tradingPhase).toBe('SCHEDULED');
+        expect(await haltCode(bet())).toBe('MARKET_NOT_OPEN');
+        expect(await quoteBetDB('scheduled', { mode: 'SPEND', usdcAmount: ONE_USDC }, 'YES')).toBeNull();
+    });
+
+    it('trades while open and refuses every trade from expiry on', async () => {
+        vi.setSystemTime(OPENS_AT);
+        expect((await getMarketDB('scheduled'))!.tradingPhase).toBe('OPEN');
+        expect(await haltCode(bet())).toBeNull();
+        const held = (await db.getPosition(BETTOR, 'scheduled', 'YES'))!.shares;
+
+        vi.setSystemTime(EXPIRES_AT);
+        expect((await getMarketDB('scheduled'))!.tradingPhase).toBe('CLOSED');
+        expect(await haltCode(bet())).toBe('MARKET_CLOSED');
+        expect(await haltCode(sellPositionDB('scheduled', BETTOR, BigInt(held), 'YES'))).toBe('MARKET_CLOSED');
+        const order = placeLimitOrderDB('scheduled', BETTOR, 'NO', { side: 'BUY', amount: ONE_USDC, limitPrice: 0.5, timeInForce: 'GTC' });
+        expect(await haltCode(order)).toBe('MARKET_CLOSED');
+        expect((await db.getPosition(BETTOR, 'scheduled', 'YES'))!.shares).toBe(held);
+    });
+
+    it('refuses liquidity changes, splits and merges outside the window', async () => {
+        const trades = [
+            () => addLiquidityDB('scheduled', BETTOR, ONE_USDC),
+            () => removeLiquidityDB('scheduled', CREATOR, 1n),
+            () => splitPositionDB('scheduled', BETTOR, ONE_USDC),
+            () => mergePositionsDB('scheduled', BETTOR, ONE_USDC)
+        ];
+
+        for (const trade of trades) expect(await haltCode(trade())).toBe('MARKET_NOT_OPEN');
+
+        vi.setSystemTime(OPENS_AT);
+        for (const trade of trades) expect(await haltCode(trade())).toBeNull();
+
+        vi.setSystemTime(EXPIRES_AT);
+        for (const trade of trades) expect(await haltCode(trade())).toBe('MARKET_CLOSED');
+    });
+});
@@ -0,0 +1,94 @@
+/**
+ * Trading Hours - When a market accepts trades
+ *
+ * An ACTIVE market trades from `opensAt` (its creation when unset) until
+ * `expiresAt`. Before that it is SCHEDULED; from expiry on it is CLOSED,
+ * awaiting resolution. A price market's answer may be known the moment it
+ * expires, so nothing trades it after that, even before anyone resolves it.
+ *
+ * Trades outside the window are rejected with a TradingHaltedError. Only
+ * trades that move prices are held to the window: complete set splits and
+ * merges and LP deposits and withdrawals still work until the market stops
+ * being ACTIVE.
+ */
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * - SCHEDULED: listed, opens for trading at `opensAt`
+ * - OPEN: trading
+ * - CLOSED: expired and awaiting resolution, or no longer ACTIVE
+ */
+export type TradingPhase = 'SCHEDULED' | 'OPEN' | 'CLOSED';
+
+/** The fields of a market its trading window is read from */
+export interface TradingWindow {
+    market_id: string;
+    status: string;
+    opens_at: string | null;
+    expires_at: string;
+}
+
+export type TradingHaltedErrorCode =
+    | 'MARKET_NOT_ACTIVE'
+    | 'MARKET_NOT_OPEN'
+    | 'MARKET_CLOSED';
+
+/**
+ * Thrown when a trade reaches a market outside its trading window
+ */
+export class TradingHaltedError extends Error {
+    constructor(
+        public readonly code: TradingHaltedErrorCode,
+        message: string
+    ) {
+        super(message);
+        this.name = 'TradingHaltedError';
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CHECKS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Where a market is in its trading window
+ *
+ * @param market Market to check
+ * @param now Current time in milliseconds
+ */
+export function tradingPhase(market: TradingWindow, now: number = Date.now()): TradingPhase {
+    if (market.status !== 'ACTIVE' || now >= new Date(market.expires_at).getTime()) return 'CLOSED';
+    if (market.opens_at && now < new Date(market.opens_at).getTime()) return 'SCHEDULED';
+    return 'OPEN';
+}
+
+/**
+ * Reject a trade on a market that is not open
+ *
+ * @param market Market traded
+ * @param now Current time in milliseconds
+ */
+export function checkTradingOpen(market: TradingWindow, now: number = Date.now()): void {
+    if (market.status !== 'ACTIVE') {
+        throw new TradingHaltedError('MARKET_NOT_ACTIVE', `Market ${market.market_id} is not active`);
+    }
+
+    switch (tradingPhase(market, now)) {
+        case 'SCHEDULED':
+            throw new TradingHaltedError('MARKET_NOT_OPEN', `Market ${market.market_id} opens for trading at ${new Date(market.opens_at!).toISOString()}`);
+        case 'CLOSED':
+            throw new TradingHaltedError('MARKET_CLOSED', `Market ${market.market_id} closed at ${new Date(market.expires_at).toISOString()} and is awaiting resolution`);
+    }
+}
+
+/**
+ * Throw unless a market's opening, if set, comes before its expiry
+ */
+export function validateTradingWindow(opensAt: Date | undefined, expiresAt: Date): void {
+    if (opensAt && !(opensAt.getTime() < expiresAt.getTime())) {
+        throw new Error('opensAt must be before expiresAt');
+    }
+}
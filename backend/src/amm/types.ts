@@ -49,6 +49,74 @@ export enum Outcome {
     NO = 'NO'
 }
 
+/**
+ * Market structure
+ * - BINARY: the classic YES/NO pool (see pool.ts)
+ * - CATEGORICAL: N mutually exclusive outcomes (see categorical.ts)
+ * - SCALAR: LONG/SHORT over a numeric range (see scalar.ts)
+ */
+export type MarketType = 'BINARY' | 'CATEGORICAL' | 'SCALAR';
+
+/**
+ * Reference to an outcome as sent by API clients: either its index in the
+ * market's outcome list (0 = YES, 1 = NO for binary markets) or its label
+ */
+export type OutcomeRef = string | number;
+
+/**
+ * Pricing curve backing a market, chosen when the market is created
+ * - CPMM: constant product (x*y=k, see pool.ts / categorical.ts)
+ * - LMSR: logarithmic market scoring rule (see lmsr.ts)
+ */
+export type PricingEngineType = 'CPMM' | 'LMSR';
+
+/**
+ * How the size of a buy order is given
+ * - SPEND: spend exactly usdcAmount
+ * - SHARES: receive exactly `shares`; the USDC cost is computed
+ * - TARGET: spend whatever moves the outcome's price to targetPrice (0-1)
+ */
+export type BetOrder =
+    | { mode: 'SPEND'; usdcAmount: bigint }
+    | { mode: 'SHARES'; shares: bigint }
+    | { mode: 'TARGET'; targetPrice: number };
+
+/**
+ * Pool state for a categorical (multi-outcome) market
+ *
+ * Generalises PoolState to N outcomes:
+ * - Collateralization: 1 USDC = 1 share of every outcome
+ * - Trading: product of all reserves = k
+ */
+export interface CategoricalPoolState {
+    /** Market identifier */
+    marketId: string;
+
+    /** Outcome labels, index-aligned with reserves */
+    outcomes: string[];
+
+    /** Per-outcome token reserves in the pool */
+    reserves: bigint[];
+
+    /** Constant product invariant (k = r0 * r1 * ... * rN) */
+    k: bigint;
+
+    /** Virtual liquidity offset applied to prices */
+    virtualLiquidity: bigint;
+
+    /** LMSR liquidity parameter b (LMSR pools only) */
+    liquidityParameter?: bigint;
+
+    /** Total USDC collateral backing this pool */
+    totalCollateral: bigint;
+
+    /** Pool creation timestamp */
+    createdAt: number;
+
+    /** Last update timestamp */
+    updatedAt: number;
+}
+
 /**
  * Result of a swap operation
  */
@@ -95,6 +163,35 @@ export interface BetResult {
     newPoolState: PoolState;
 }
 
+/**
+ * Result of a "Mint & Swap" bet on a categorical market
+ */
+export interface CategoricalBetResult {
+    /** USDC amount bet */
+    usdcIn: bigint;
+
+    /** Index of the outcome bought */
+    outcomeIndex: number;
+
+    /** Shares received from the initial mint */
+    mintedShares: bigint;
+
+    /** Additional shares received from swapping the other outcomes */
+    swappedShares: bigint;
+
+    /** Total shares received */
+    totalShares: bigint;
+
+    /** Effective price per share */
+    effectivePrice: number;
+
+    /** New implied probability of the outcome after the bet (0-100%) */
+    newProbability: number;
+
+    /** Updated pool state */
+    newPoolState: CategoricalPoolState;
+}
+
 /**
  * Pool price information
  */
@@ -167,3 +264,9 @@ export const PROTOCOL_FEE_BPS = 100;
 
 /** Basis points denominator */
 export const BPS_DENOMINATOR = 10_000;
+
+/** Minimum number of outcomes in a categorical market */
+export const MIN_OUTCOMES = 2;
+
+/** Maximum number of outcomes in a categorical market */
+export const MAX_OUTCOMES = 16;
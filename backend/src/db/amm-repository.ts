@@ -1,629 +1,356 @@
 /**
  * AMM Repository - Database Access Layer for Markets, Sessions, and Positions
+ *
+ * Every read and write goes through the active Store (see store.ts):
+ * Supabase when it is configured, otherwise an in-process MemoryStore.
+ * STORAGE_BACKEND=supabase|memory picks one explicitly.
  */
 
-import { getSupabase } from './supabase';
-import { PoolState, Outcome } from '../amm/types';
+import { supabase } from './supabase';
+import { PoolState, CategoricalPoolState, Outcome } from '../amm/types';
+import { FeeConfig } from '../amm/fees';
+import { isqrt } from '../amm/math';
+import { OrderSide, LimitOrderStatus } from '../amm/limit-orders';
+import { RefundMode } from '../amm/refunds';
+import {
+    Store,
+    MarketRow,
+    SessionRow,
+    PositionRow,
+    LiquidityPositionRow,
+    LimitOrderRow,
+    TradeRow,
+    CreateMarketInput,
+    InsertTradeInput,
+    OracleObservationInput,
+    MarketCommit,
+    LedgerAccountType,
+    LedgerEntryInput,
+    LedgerEntryRow,
+    AccountLedgerRow,
+    IdempotencyKeyRow,
+    ReconciliationInput,
+    ReconciliationRunRow,
+    ReconciliationDiscrepancyRow
+} from './store';
+import { SupabaseStore } from './supabase-store';
+import { MemoryStore } from './memory-store';
+
+export * from './store';
 
 // ═══════════════════════════════════════════════════════════════════════════
-// TYPE DEFINITIONS
+// STORE SELECTION
 // ═══════════════════════════════════════════════════════════════════════════
 
-export interface MarketRow {
-    market_id: string;
-    title: string;
-    description: string | null;
-    category: string | null;
-    expires_at: string;
-    yes_reserves: string;
-    no_reserves: string;
-    k_invariant: string;
-    status: 'ACTIVE' | 'RESOLVED' | 'CANCELLED';
-    resolution_value: 'YES' | 'NO' | null;
-    resolution_type: 'manual' | 'oracle' | null;
-    oracle_config: Record<string, unknown> | null;
-    resolver_address: string | null;
-    resolved_at: string | null;
-    resolved_by: string | null;
-    created_at: string;
-}
-
-export interface SessionRow {
-    session_id: string;
-    user_address: string;
-    status: 'OPEN' | 'CLOSING' | 'CLOSED';
-    initial_collateral: string;
-    current_balance: string;
-    latest_signature: string;
-    nonce: number;
-    created_at: string;
-    updated_at: string;
-}
-
-export interface PositionRow {
-    id: string;
-    user_id: string;
-    market_id: string;
-    outcome: 'YES' | 'NO';
-    shares: string;
-    average_entry_price: number;
-    created_at: string;
-}
-
-export interface CreateMarketInput {
-    marketId: string;
-    title: string;
-    description?: string;
-    category?: string;
-    expiresAt: Date;
-    yesReserves: bigint;
-    noReserves: bigint;
-    kInvariant: bigint;
-    resolutionType?: 'manual' | 'oracle';
-    oracleConfig?: Record<string, unknown>;
-    resolverAddress?: string;
-}
-
-// ═══════════════════════════════════════════════════════════════════════════
-// MARKET OPERATIONS
-// ═══════════════════════════════════════════════════════════════════════════
+export type StorageBackend = 'supabase' | 'memory';
 
-export async function createMarket(input: CreateMarketInput): Promise<MarketRow> {
-    const supabase = getSupabase();
+let activeStore: Store | null = null;
 
-    const { data, error } = await supabase
-        .from('markets')
-        .insert({
-            market_id: input.marketId,
-            title: input.title,
-            description: input.description ?? null,
-            category: input.category ?? 'general',
-            expires_at: input.expiresAt.toISOString(),
-            yes_reserves: input.yesReserves.toString(),
-            no_reserves: input.noReserves.toString(),
-            k_invariant: input.kInvariant.toString(),
-            status: 'ACTIVE',
-            resolution_type: input.resolutionType ?? 'manual',
-            oracle_config: input.oracleConfig ?? null,
-            resolver_address: input.resolverAddress ?? null
-        })
-        .select()
-        .single();
+function createStore(): Store {
+    const backend = process.env.STORAGE_BACKEND as StorageBackend | undefined;
 
-    if (error) throw new Error(`Failed to create market: ${error.message}`);
-    return data;
+    if (backend === 'memory' || (!backend && !supabase)) {
+        console.warn('[Storage] Using the in-process memory store - data is lost on restart');
+        return new MemoryStore();
+    }
+    if (backend && backend !== 'supabase') {
+        throw new Error(`Unknown STORAGE_BACKEND "${backend}" (expected supabase or memory)`);
+    }
+    return new SupabaseStore();
 }
 
-export async function getMarket(marketId: string): Promise<MarketRow | null> {
-    const supabase = getSupabase();
-
-    const { data, error } = await supabase
-        .from('markets')
-        .select('*')
-        .eq('market_id', marketId)
-        .single();
+/**
+ * The store every repository call goes through (created on first use)
+ */
+export function getStore(): Store {
+    activeStore ??= createStore();
+    return activeStore;
+}
 
-    if (error?.code === 'PGRST116') return null; // Not found
-    if (error) throw new Error(`Failed to get market: ${error.message}`);
-    return data;
+/**
+ * Swap the active store, e.g. for a fresh MemoryStore in a test
+ */
+export function setStore(store: Store): void {
+    activeStore = store;
 }
 
-export async function getActiveMarkets(): Promise<MarketRow[]> {
-    const supabase = getSupabase();
+// ═══════════════════════════════════════════════════════════════════════════
+// MARKET OPERATIONS
+// ═══════════════════════════════════════════════════════════════════════════
 
-    const { data, error } = await supabase
-        .from('markets')
-        .select('*')
-        .eq('status', 'ACTIVE')
-        .order('created_at', { ascending: false });
+export function createMarket(input: CreateMarketInput): Promise<MarketRow> {
+    return getStore().createMarket(input);
+}
 
-    if (error) throw new Error(`Failed to get active markets: ${error.message}`);
-    return data ?? [];
+export function getMarket(marketId: string): Promise<MarketRow | null> {
+    return getStore().getMarket(marketId);
 }
 
-export async function getMarketsByResolver(resolverAddress: string): Promise<MarketRow[]> {
-    const supabase = getSupabase();
+export function getActiveMarkets(): Promise<MarketRow[]> {
+    return getStore().getActiveMarkets();
+}
 
-    const { data, error } = await supabase
-        .from('markets')
-        .select('*')
-        .ilike('resolver_address', resolverAddress)
-        .order('created_at', { ascending: false });
+export function getAllMarkets(): Promise<MarketRow[]> {
+    return getStore().getAllMarkets();
+}
 
-    if (error) throw new Error(`Failed to get markets by resolver: ${error.message}`);
-    return data ?? [];
+export function getMarketsByResolver(resolverAddress: string): Promise<MarketRow[]> {
+    return getStore().getMarketsByResolver(resolverAddress);
 }
 
-export async function updateMarketReserves(
-    marketId: string,
-    yesReserves: bigint,
-    noReserves: bigint,
-    kInvariant: bigint
-): Promise<void> {
-    const supabase = getSupabase();
+export function getMarketsToResolve(): Promise<MarketRow[]> {
+    return getStore().getMarketsToResolve();
+}
 
-    const { error } = await supabase
-        .from('markets')
-        .update({
-            yes_reserves: yesReserves.toString(),
-            no_reserves: noReserves.toString(),
-            k_invariant: kInvariant.toString()
-        })
-        .eq('market_id', marketId);
+export function getOracleMarketsToResolve(): Promise<MarketRow[]> {
+    return getStore().getOracleMarketsToResolve();
+}
 
-    if (error) throw new Error(`Failed to update market reserves: ${error.message}`);
+export function commitMarketTrade(commit: MarketCommit): Promise<boolean> {
+    return getStore().commitMarketTrade(commit);
 }
 
-export async function resolveMarket(
+export function resolveMarket(
     marketId: string,
-    winner: Outcome,
+    winner: Outcome | string,
     resolvedBy?: string
 ): Promise<void> {
-    const supabase = getSupabase();
-
-    // First, fetch the market to check expiry
-    const { data: market, error: fetchError } = await supabase
-        .from('markets')
-        .select('expires_at, status, resolver_address')
-        .eq('market_id', marketId)
-        .single();
-
-    if (fetchError || !market) {
-        throw new Error(`Market not found: ${marketId}`);
-    }
-
-    // Check if market is already resolved
-    if (market.status === 'RESOLVED') {
-        throw new Error('Market is already resolved');
-    }
-
-    // Check if market has expired (resolver can only resolve AFTER expiry)
-    const expiresAt = new Date(market.expires_at);
-    const now = new Date();
-    if (now < expiresAt) {
-        throw new Error(`Market cannot be resolved until after expiry: ${expiresAt.toISOString()}`);
-    }
-
-    // Optionally validate resolver address (if set)
-    if (market.resolver_address && resolvedBy && 
-        market.resolver_address.toLowerCase() !== resolvedBy.toLowerCase()) {
-        throw new Error(`Unauthorized resolver. Only ${market.resolver_address} can resolve this market.`);
-    }
-
-    const { error } = await supabase
-        .from('markets')
-        .update({
-            status: 'RESOLVED',
-            resolution_value: winner === Outcome.YES ? 'YES' : 'NO',
-            resolved_at: new Date().toISOString(),
-            resolved_by: resolvedBy ?? 'system'
-        })
-        .eq('market_id', marketId);
-
-    if (error) throw new Error(`Failed to resolve market: ${error.message}`);
+    return getStore().resolveMarket(marketId, winner, resolvedBy);
 }
 
-/**
- * Get markets that are expired and pending resolution
- */
-export async function getMarketsToResolve(): Promise<MarketRow[]> {
-    const supabase = getSupabase();
-
-    const { data, error } = await supabase
-        .from('markets')
-        .select('*')
-        .eq('status', 'ACTIVE')
-        .lt('expires_at', new Date().toISOString())
-        .order('expires_at', { ascending: true });
+export function proposeResolution(
+    marketId: string,
+    proposal: string,
+    proposedBy: string | undefined,
+    disputeEndsAt: Date
+): Promise<MarketRow> {
+    return getStore().proposeResolution(marketId, proposal, proposedBy, disputeEndsAt);
+}
 
-    if (error) throw new Error(`Failed to get markets to resolve: ${error.message}`);
-    return data ?? [];
+export function disputeResolution(marketId: string, disputedBy: string, reason?: string): Promise<MarketRow> {
+    return getStore().disputeResolution(marketId, disputedBy, reason);
 }
 
-/**
- * Get oracle markets that are expired
- */
-export async function getOracleMarketsToResolve(): Promise<MarketRow[]> {
-    const supabase = getSupabase();
+export function finalizeResolution(
+    marketId: string,
+    from: 'PROPOSED' | 'DISPUTED',
+    winner: string,
+    resolvedBy: string
+): Promise<MarketRow> {
+    return getStore().finalizeResolution(marketId, from, winner, resolvedBy);
+}
 
-    const { data, error } = await supabase
-        .from('markets')
-        .select('*')
-        .eq('status', 'ACTIVE')
-        .eq('resolution_type', 'oracle')
-        .lt('expires_at', new Date().toISOString())
-        .order('expires_at', { ascending: true });
+export function recordOracleObservation(marketId: string, observation: OracleObservationInput): Promise<void> {
+    return getStore().recordOracleObservation(marketId, observation);
+}
 
-    if (error) throw new Error(`Failed to get oracle markets to resolve: ${error.message}`);
-    return data ?? [];
+export function cancelMarket(marketId: string, refundMode: RefundMode, cancelledBy?: string): Promise<MarketRow> {
+    return getStore().cancelMarket(marketId, refundMode, cancelledBy);
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
 // SESSION OPERATIONS
 // ═══════════════════════════════════════════════════════════════════════════
 
-export async function createSession(
+export function createSession(
     sessionId: string,
     userAddress: string,
     initialCollateral: bigint,
     signature: string
 ): Promise<SessionRow> {
-    const supabase = getSupabase();
-
-    const { data, error } = await supabase
-        .from('sessions')
-        .insert({
-            session_id: sessionId,
-            user_address: userAddress,
-            initial_collateral: initialCollateral.toString(),
-            current_balance: initialCollateral.toString(),
-            latest_signature: signature,
-            nonce: 0
-        })
-        .select()
-        .single();
-
-    if (error) throw new Error(`Failed to create session: ${error.message}`);
-    return data;
+    return getStore().createSession(sessionId, userAddress, initialCollateral, signature);
 }
 
-export async function getSession(sessionId: string): Promise<SessionRow | null> {
-    const supabase = getSupabase();
-
-    const { data, error } = await supabase
-        .from('sessions')
-        .select('*')
-        .eq('session_id', sessionId)
-        .single();
-
-    if (error?.code === 'PGRST116') return null;
-    if (error) throw new Error(`Failed to get session: ${error.message}`);
-    return data;
+export function getSession(sessionId: string): Promise<SessionRow | null> {
+    return getStore().getSession(sessionId);
 }
 
-export async function getSessionByUser(userAddress: string): Promise<SessionRow | null> {
-    const supabase = getSupabase();
-
-    const { data, error } = await supabase
-        .from('sessions')
-        .select('*')
-        .eq('user_address', userAddress)
-        .eq('status', 'OPEN')
-        .order('created_at', { ascending: false })
-        .limit(1)
-        .single();
-
-    if (error?.code === 'PGRST116') return null;
-    if (error) throw new Error(`Failed to get user session: ${error.message}`);
-    return data;
+export function getSessionByUser(userAddress: string): Promise<SessionRow | null> {
+    return getStore().getSessionByUser(userAddress);
 }
 
-export async function updateSessionBalance(
-    sessionId: string,
-    newBalance: bigint,
-    newSignature: string,
-    newNonce: number
-): Promise<void> {
-    const supabase = getSupabase();
-
-    const { error } = await supabase
-        .from('sessions')
-        .update({
-            current_balance: newBalance.toString(),
-            latest_signature: newSignature,
-            nonce: newNonce
-        })
-        .eq('session_id', sessionId);
+export function listSessions(): Promise<SessionRow[]> {
+    return getStore().listSessions();
+}
 
-    if (error) throw new Error(`Failed to update session: ${error.message}`);
+export function getSessionUserAddress(sessionId: string): Promise<string | null> {
+    return getStore().getSessionUserAddress(sessionId);
 }
 
-export async function updateSessionKey(
-    sessionId: string,
-    sessionKeyAddress: string
-): Promise<void> {
-    const supabase = getSupabase();
+export function ensureSessionExists(sessionId: string, userAddress?: string): Promise<void> {
+    return getStore().ensureSessionExists(sessionId, userAddress);
+}
 
-    const { error } = await supabase
-        .from('sessions')
-        .update({
-            session_key: sessionKeyAddress
-        })
-        .eq('session_id', sessionId);
+export function updateSessionSignature(sessionId: string, newSignature: string, newNonce: number): Promise<void> {
+    return getStore().updateSessionSignature(sessionId, newSignature, newNonce);
+}
 
-    if (error) throw new Error(`Failed to update session key: ${error.message}`);
+export function updateSessionKey(sessionId: string, sessionKeyAddress: string): Promise<void> {
+    return getStore().updateSessionKey(sessionId, sessionKeyAddress);
 }
 
-export async function upsertSession(
+export function upsertSession(
     sessionId: string,
     userAddress: string,
     collateral: bigint,
     rateBps: number,
     safeMode: boolean
 ): Promise<void> {
-    const supabase = getSupabase();
-
-    const { error } = await supabase
-        .from('sessions')
-        .upsert({
-            session_id: sessionId,
-            user_address: userAddress,
-            initial_collateral: collateral.toString(),
-            current_balance: collateral.toString(), // Estimate
-            rwa_rate_bps: rateBps,
-            safe_mode_enabled: safeMode,
-            status: 'OPEN',
-            latest_signature: 'init',
-            nonce: 0
-        }, {
-            onConflict: 'session_id'
-        });
-
-    if (error) throw new Error(`Failed to upsert session: ${error.message}`);
+    return getStore().upsertSession(sessionId, userAddress, collateral, rateBps, safeMode);
+}
+
+export function closeSession(sessionId: string): Promise<void> {
+    return getStore().closeSession(sessionId);
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
 // POSITION OPERATIONS
 // ═══════════════════════════════════════════════════════════════════════════
 
-export async function getPosition(
+export function getPosition(
     userId: string,
     marketId: string,
-    outcome: Outcome
+    outcome: Outcome | string
 ): Promise<PositionRow | null> {
-    const supabase = getSupabase();
+    return getStore().getPosition(userId, marketId, outcome);
+}
 
-    const { data, error } = await supabase
-        .from('positions')
-        .select('*')
-        .eq('user_id', userId)
-        .eq('market_id', marketId)
-        .eq('outcome', outcome === Outcome.YES ? 'YES' : 'NO')
-        .single();
+export function getUserPositions(userId: string): Promise<PositionRow[]> {
+    return getStore().getUserPositions(userId);
+}
 
-    if (error?.code === 'PGRST116') return null;
-    if (error) throw new Error(`Failed to get position: ${error.message}`);
-    return data;
+export function getUserMarketPositions(userId: string, marketId: string): Promise<PositionRow[]> {
+    return getStore().getUserMarketPositions(userId, marketId);
 }
 
-export async function getUserPositions(userId: string): Promise<PositionRow[]> {
-    const supabase = getSupabase();
+export function getMarketPositions(marketId: string): Promise<PositionRow[]> {
+    return getStore().getMarketPositions(marketId);
+}
 
-    const { data, error } = await supabase
-        .from('positions')
-        .select('*')
-        .eq('user_id', userId);
+export function getUserActivePositions(userId: string): Promise<(PositionRow & { market_status: string })[]> {
+    return getStore().getUserActivePositions(userId);
+}
 
-    if (error) throw new Error(`Failed to get user positions: ${error.message}`);
-    return data ?? [];
+export function upsertPosition(
+    userId: string,
+    marketId: string,
+    outcome: Outcome | string,
+    shares: bigint,
+    costBasis: bigint
+): Promise<PositionRow> {
+    return getStore().upsertPosition(userId, marketId, outcome, shares, costBasis);
 }
 
-export async function getMarketPositions(marketId: string): Promise<PositionRow[]> {
-    const supabase = getSupabase();
+// ═══════════════════════════════════════════════════════════════════════════
+// LIQUIDITY POSITION OPERATIONS
+// ═══════════════════════════════════════════════════════════════════════════
 
-    const { data, error } = await supabase
-        .from('positions')
-        .select('*')
-        .eq('market_id', marketId);
+export function getLiquidityPosition(userId: string, marketId: string): Promise<LiquidityPositionRow | null> {
+    return getStore().getLiquidityPosition(userId, marketId);
+}
 
-    if (error) throw new Error(`Failed to get market positions: ${error.message}`);
-    return data ?? [];
+export function getUserLiquidityPositions(userId: string): Promise<LiquidityPositionRow[]> {
+    return getStore().getUserLiquidityPositions(userId);
 }
 
-/**
- * Get positions only from ACTIVE markets (not resolved/cancelled)
- * Used for calculating locked balance — resolved positions shouldn't count as locked
- */
-export async function getUserActivePositions(userId: string): Promise<(PositionRow & { market_status: string })[]> {
-    const supabase = getSupabase();
-
-    const { data, error } = await supabase
-        .from('positions')
-        .select('*, markets!inner(status)')
-        .eq('user_id', userId)
-        .gt('shares', '0');
-
-    if (error) throw new Error(`Failed to get active positions: ${error.message}`);
-
-    // Filter to only ACTIVE markets and flatten
-    return (data ?? [])
-        .filter((row: any) => row.markets?.status === 'ACTIVE')
-        .map((row: any) => ({
-            id: row.id,
-            user_id: row.user_id,
-            market_id: row.market_id,
-            outcome: row.outcome,
-            shares: row.shares,
-            average_entry_price: row.average_entry_price,
-            created_at: row.created_at,
-            market_status: row.markets?.status || 'ACTIVE'
-        }));
+export function getMarketLiquidityPositions(marketId: string): Promise<LiquidityPositionRow[]> {
+    return getStore().getMarketLiquidityPositions(marketId);
 }
 
-/**
- * Ensure a session exists in the database (auto-create if not)
- * This allows using on-chain sessionIds without explicit session registration
- * The positions table has FK to sessions.session_id, so we need sessions not users
- */
-export async function ensureSessionExists(sessionId: string, userAddress?: string): Promise<void> {
-    const supabase = getSupabase();
-
-    // Check if session already exists
-    const { data: existing } = await supabase
-        .from('sessions')
-        .select('session_id')
-        .eq('session_id', sessionId)
-        .single();
-
-    if (existing) return; // Session exists
-
-    // Auto-create session for betting - require userAddress to avoid storing invalid data
-    if (!userAddress) {
-        console.warn(`[AMM] Cannot auto-create session ${sessionId}: userAddress is required`);
-        return; // Skip auto-creation without proper userAddress
-    }
+export function upsertLiquidityPosition(
+    userId: string,
+    marketId: string,
+    lpShares: bigint,
+    costBasis: bigint
+): Promise<LiquidityPositionRow> {
+    return getStore().upsertLiquidityPosition(userId, marketId, lpShares, costBasis);
+}
 
-    const { error } = await supabase
-        .from('sessions')
-        .insert({
-            session_id: sessionId,
-            user_address: userAddress,
-            status: 'OPEN',
-            initial_collateral: '0',
-            current_balance: '0',
-            latest_signature: 'auto-created',
-            nonce: 0
-        });
-
-    if (error && !error.message.includes('duplicate')) {
-        console.warn(`Warning: Could not ensure session exists: ${error.message}`);
-    } else {
-        console.log(`[AMM] Auto-created session: ${sessionId}`);
-    }
+// ═══════════════════════════════════════════════════════════════════════════
+// LIMIT ORDER OPERATIONS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export function getLimitOrder(orderId: string): Promise<LimitOrderRow | null> {
+    return getStore().getLimitOrder(orderId);
 }
 
-/**
- * Get the user_address for a given session
- */
-export async function getSessionUserAddress(sessionId: string): Promise<string | null> {
-    const supabase = getSupabase();
+export function getOpenLimitOrders(marketId: string, side?: OrderSide): Promise<LimitOrderRow[]> {
+    return getStore().getOpenLimitOrders(marketId, side);
+}
 
-    const { data, error } = await supabase
-        .from('sessions')
-        .select('user_address')
-        .eq('session_id', sessionId)
-        .single();
+export function getBookOrders(marketId: string, outcome: string, side: OrderSide): Promise<LimitOrderRow[]> {
+    return getStore().getBookOrders(marketId, outcome, side);
+}
 
-    if (error?.code === 'PGRST116') return null;
-    if (error) return null;
-    return data?.user_address ?? null;
+export function getUserLimitOrders(userId: string, status?: LimitOrderStatus): Promise<LimitOrderRow[]> {
+    return getStore().getUserLimitOrders(userId, status);
 }
 
-export async function upsertPosition(
-    userId: string,
-    marketId: string,
-    outcome: Outcome,
-    shares: bigint,
-    averageEntryPrice: number
-): Promise<PositionRow> {
-    const supabase = getSupabase();
+// ═══════════════════════════════════════════════════════════════════════════
+// TRADE OPERATIONS (PnL Tracking)
+// ═══════════════════════════════════════════════════════════════════════════
 
-    // Auto-create session if not exists (userId is actually sessionId due to FK)
-    await ensureSessionExists(userId);
+export function insertTrade(input: InsertTradeInput): Promise<TradeRow> {
+    return getStore().insertTrade(input);
+}
 
-    const { data, error } = await supabase
-        .from('positions')
-        .upsert({
-            user_id: userId,
-            market_id: marketId,
-            outcome: outcome === Outcome.YES ? 'YES' : 'NO',
-            shares: shares.toString(),
-            average_entry_price: averageEntryPrice
-        }, {
-            onConflict: 'user_id,market_id,outcome'
-        })
-        .select()
-        .single();
+export function getTradesByUser(userAddress: string): Promise<TradeRow[]> {
+    return getStore().getTradesByUser(userAddress);
+}
+
+export function getTradesBySession(sessionId: string): Promise<TradeRow[]> {
+    return getStore().getTradesBySession(sessionId);
+}
 
-    if (error) throw new Error(`Failed to upsert position: ${error.message}`);
-    return data;
+export function getTradesByMarketAndUser(marketId: string, userAddress: string): Promise<TradeRow[]> {
+    return getStore().getTradesByMarketAndUser(marketId, userAddress);
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
-// TRADE OPERATIONS (PnL Tracking)
+// LEDGER OPERATIONS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export function postLedgerEntry(entry: LedgerEntryInput): Promise<LedgerEntryRow> {
+    return getStore().postLedgerEntry(entry);
+}
+
+export function getAccountLedger(accountType: LedgerAccountType, accountId: string): Promise<AccountLedgerRow[]> {
+    return getStore().getAccountLedger(accountType, accountId);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// IDEMPOTENCY KEY OPERATIONS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export function claimIdempotencyKey(
+    key: string,
+    requestHash: string,
+    pendingTimeoutMs: number
+): Promise<IdempotencyKeyRow | null> {
+    return getStore().claimIdempotencyKey(key, requestHash, pendingTimeoutMs);
+}
+
+export function completeIdempotencyKey(key: string, responseStatus: number, responseBody: unknown): Promise<void> {
+    return getStore().completeIdempotencyKey(key, responseStatus, responseBody);
+}
+
+export function releaseIdempotencyKey(key: string): Promise<void> {
+    return getStore().releaseIdempotencyKey(key);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RECONCILIATION OPERATIONS
 // ═══════════════════════════════════════════════════════════════════════════
 
-export interface TradeRow {
-    id: string;
-    session_id: string;
-    user_address: string;
-    market_id: string;
-    trade_type: 'BUY' | 'SELL' | 'CLAIM';
-    outcome: 'YES' | 'NO';
-    shares: string;
-    price: number;
-    cost_basis: string;
-    realized_pnl: string;
-    market_title: string | null;
-    created_at: string;
-}
-
-export interface InsertTradeInput {
-    sessionId: string;
-    userAddress: string;
-    marketId: string;
-    tradeType: 'BUY' | 'SELL' | 'CLAIM';
-    outcome: Outcome;
-    shares: bigint;
-    price: number;
-    costBasis: bigint;
-    realizedPnl: bigint;
-    marketTitle?: string;
-}
-
-export async function insertTrade(input: InsertTradeInput): Promise<TradeRow> {
-    const supabase = getSupabase();
-
-    const { data, error } = await supabase
-        .from('trades')
-        .insert({
-            session_id: input.sessionId,
-            user_address: input.userAddress,
-            market_id: input.marketId,
-            trade_type: input.tradeType,
-            outcome: input.outcome === Outcome.YES ? 'YES' : 'NO',
-            shares: input.shares.toString(),
-            price: input.price,
-            cost_basis: input.costBasis.toString(),
-            realized_pnl: input.realizedPnl.toString(),
-            market_title: input.marketTitle ?? null
-        })
-        .select()
-        .single();
-
-    if (error) throw new Error(`Failed to insert trade: ${error.message}`);
-    return data;
-}
-
-export async function getTradesByUser(userAddress: string): Promise<TradeRow[]> {
-    const supabase = getSupabase();
-
-    const { data, error } = await supabase
-        .from('trades')
-        .select('*')
-        .ilike('user_address', userAddress)
-        .order('created_at', { ascending: false })
-        .limit(100);
-
-    if (error) throw new Error(`Failed to get user trades: ${error.message}`);
-    return data ?? [];
-}
-
-export async function getTradesBySession(sessionId: string): Promise<TradeRow[]> {
-    const supabase = getSupabase();
-
-    const { data, error } = await supabase
-        .from('trades')
-        .select('*')
-        .eq('session_id', sessionId)
-        .order('created_at', { ascending: false });
-
-    if (error) throw new Error(`Failed to get session trades: ${error.message}`);
-    return data ?? [];
-}
-
-export async function getTradesByMarketAndUser(marketId: string, userAddress: string): Promise<TradeRow[]> {
-    const supabase = getSupabase();
-
-    const { data, error } = await supabase
-        .from('trades')
-        .select('*')
-        .eq('market_id', marketId)
-        .ilike('user_address', userAddress)
-        .order('created_at', { ascending: false });
-
-    if (error) throw new Error(`Failed to get market trades: ${error.message}`);
-    return data ?? [];
+export function recordReconciliation(input: ReconciliationInput): Promise<ReconciliationRunRow> {
+    return getStore().recordReconciliation(input);
+}
+
+export function getLatestReconciliation(): Promise<{
+    run: ReconciliationRunRow;
+    discrepancies: ReconciliationDiscrepancyRow[];
+} | null> {
+    return getStore().getLatestReconciliation();
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -644,9 +371,71 @@ export function marketRowToPoolState(row: MarketRow): PoolState {
         yesReserves,
         noReserves,
         k: BigInt(row.k_invariant),
-        virtualLiquidity: yesReserves, // Use initial reserves as virtual liquidity
+        // Reserves of a balanced pool with the same k (the initial reserves
+        // until liquidity changes): constant across trades, so a price solved
+        // before a trade is the price read back after it
+        virtualLiquidity: isqrt(BigInt(row.k_invariant)),
         totalCollateral,
         createdAt: new Date(row.created_at).getTime(),
         updatedAt: Date.now()
     };
 }
+
+export function marketRowToFeeConfig(row: MarketRow): FeeConfig {
+    return {
+        feeBps: row.fee_bps ?? 0,
+        lpShareBps: row.lp_fee_share_bps ?? 10_000,
+        creatorShareBps: row.creator_fee_share_bps ?? 0,
+        protocolShareBps: row.protocol_fee_share_bps ?? 0
+    };
+}
+
+export function isCategoricalMarketRow(row: MarketRow): boolean {
+    return row.market_type === 'CATEGORICAL';
+}
+
+export function isScalarMarketRow(row: MarketRow): boolean {
+    return row.market_type === 'SCALAR';
+}
+
+export function marketRowToCategoricalPoolState(row: MarketRow): CategoricalPoolState {
+    if (!row.outcomes || !row.outcome_reserves) {
+        throw new Error(`Market ${row.market_id} has no categorical reserves`);
+    }
+
+    return {
+        marketId: row.market_id,
+        outcomes: row.outcomes,
+        reserves: row.outcome_reserves.map(r => BigInt(r)),
+        k: BigInt(row.k_invariant),
+        virtualLiquidity: 0n, // Prices follow the real reserves
+        totalCollateral: BigInt(row.total_collateral ?? '0'),
+        createdAt: new Date(row.created_at).getTime(),
+        updatedAt: Date.now()
+    };
+}
+
+/**
+ * Convert any market row to the N-outcome pool state used by the pricing
+ * engines (binary markets become a [YES, NO] pool)
+ */
+export function marketRowToEnginePoolState(row: MarketRow): CategoricalPoolState {
+    const liquidityParameter = row.liquidity_parameter ? BigInt(row.liquidity_parameter) : undefined;
+
+    if (isCategoricalMarketRow(row)) {
+        return { ...marketRowToCategoricalPoolState(row), liquidityParameter };
+    }
+
+    const pool = marketRowToPoolState(row);
+    return {
+        marketId: pool.marketId,
+        outcomes: row.outcomes ?? [Outcome.YES, Outcome.NO], // LONG / SHORT for scalar markets
+        reserves: [pool.yesReserves, pool.noReserves],
+        k: pool.k,
+        virtualLiquidity: pool.virtualLiquidity,
+        liquidityParameter,
+        totalCollateral: pool.totalCollateral,
+        createdAt: pool.createdAt,
+        updatedAt: pool.updatedAt
+    };
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ONE_USDC } from '../amm/index';
+import { createMarketDB, placeBetDB, sellPositionDB } from '../amm/db-pool-manager';
+import * as db from './amm-repository';
+import { MemoryStore } from './memory-store';
+import { buildStatement, transferEntry, validateLedgerEntry, sessionAccount, marketAccount } from './ledger';
+
+const CREATOR = 'ledger-creator';
+const BETTORS = ['ledger-bettor-0', 'ledger-bettor-1', 'ledger-bettor-2'];
+const OUTCOMES = ['RED', 'GREEN', 'BLUE'];
+const INITIAL_LIQUIDITY = 1_000n * ONE_USDC;
+
+const ledgerBalance = async (type: db.LedgerAccountType, id: string) => buildStatement(await db.getAccountLedger(type, id)).balance;
+
+describe('ledger entries', () => {
+    it('must balance to zero', () => {
+        const entry = transferEntry('BET', sessionAccount('s'), marketAccount('m'), 5n);
+        expect(() => validateLedgerEntry(entry)).not.toThrow();
+        expect(() => validateLedgerEntry({ ...entry, lines: [entry.lines[0]] })).toThrow();
+    });
+});
+
+describe('session and market balances', () => {
+    beforeEach(async () => {
+        db.setStore(new MemoryStore());
+        await db.createSession(CREATOR, CREATOR, INITIAL_LIQUIDITY, 'ledger-test');
+        for (const bettor of BETTORS) await db.createSession(bettor, bettor, 100n * ONE_USDC, 'ledger-test');
+        await createMarketDB({
+            marketId: 'ledger',
+            title: 'Ledger test',
+            expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+            initialLiquidity: INITIAL_LIQUIDITY,
+            creatorId: CREATOR,
+            outcomes: OUTCOMES
+        });
+    });
+
+    it('replay exactly from the ledger after bets and sells', async () => {
+        for (const [i, bettor] of BETTORS.entries()) {
+            await placeBetDB('ledger', bettor, { mode: 'SPEND', usdcAmount: BigInt(5 + i) * ONE_USDC }, OUTCOMES[i]);
+            await placeBetDB('ledger', bettor, { mode: 'SPEND', usdcAmount: 3n * ONE_USDC }, OUTCOMES[(i + 1) % OUTCOMES.length]);
+        }
+        const held = (await db.getPosition(BETTORS[0], 'ledger', OUTCOMES[0]))!;
+        await sellPositionDB('ledger', BETTORS[0], BigInt(held.shares) / 2n, OUTCOMES[0]);
+
+        for (const sessionId of [CREATOR, ...BETTORS]) {
+            const session = (await db.getSession(sessionId))!;
+            const { balance, lines } = buildStatement(await db.getAccountLedger('SESSION', sessionId));
+            expect(balance.toString()).toBe(session.current_balance);
+            expect(lines.filter(line => line.type === 'BET')).toHaveLength(sessionId === CREATOR ? 0 : 2);
+        }
+
+        const market = (await db.getMarket('ledger'))!;
+        expect(await ledgerBalance('MARKET', 'ledger')).toBe(db.marketRowToEnginePoolState(market).totalCollateral);
+        expect(await ledgerBalance('CREATOR_FEES', 'ledger')).toBe(BigInt(market.creator_fees_accrued));
+    });
+
+    it('keep the market collateral on the ledger for users without a session', async () => {
+        await placeBetDB('ledger', 'ledger-sessionless', { mode: 'SPEND', usdcAmount: 10n * ONE_USDC }, OUTCOMES[0]);
+        const held = (await db.getPosition('ledger-sessionless', 'ledger', OUTCOMES[0]))!;
+        await sellPositionDB('ledger', 'ledger-sessionless', BigInt(held.shares) / 3n, OUTCOMES[0]);
+
+        const market = (await db.getMarket('ledger'))!;
+        expect(await ledgerBalance('MARKET', 'ledger')).toBe(db.marketRowToEnginePoolState(market).totalCollateral);
+        expect(await ledgerBalance('CREATOR_FEES', 'ledger')).toBe(BigInt(market.creator_fees_accrued));
+    });
+});
@@ -0,0 +1,142 @@
+/**
+ * Ledger - Double-entry journal of every USDC movement
+ *
+ * Each movement is one journal entry whose lines sum to zero: USDC leaves
+ * one account and lands in another (see LedgerAccountType). Entries are
+ * append-only, and session balances only ever change by posting one, so a
+ * session's balance is the sum of its ledger lines and can be replayed
+ * line by line.
+ */
+
+import {
+    LedgerAccountType,
+    LedgerEntryType,
+    LedgerLine,
+    LedgerEntryInput,
+    AccountLedgerRow
+} from './store';
+
+/** Accounts that exist once rather than per session / market */
+const SINGLE_ACCOUNTS: LedgerAccountType[] = ['TREASURY', 'EXTERNAL'];
+
+export type LedgerAccount = { type: LedgerAccountType; id: string };
+
+export function sessionAccount(sessionId: string): LedgerAccount {
+    return { type: 'SESSION', id: sessionId };
+}
+
+export function sessionEscrowAccount(sessionId: string): LedgerAccount {
+    return { type: 'SESSION_ESCROW', id: sessionId };
+}
+
+export function marketAccount(marketId: string): LedgerAccount {
+    return { type: 'MARKET', id: marketId };
+}
+
+export function escrowAccount(marketId: string): LedgerAccount {
+    return { type: 'ESCROW', id: marketId };
+}
+
+export function creatorFeesAccount(marketId: string): LedgerAccount {
+    return { type: 'CREATOR_FEES', id: marketId };
+}
+
+export function disputeBondsAccount(marketId: string): LedgerAccount {
+    return { type: 'DISPUTE_BONDS', id: marketId };
+}
+
+export const TREASURY_ACCOUNT: LedgerAccount = { type: 'TREASURY', id: '' };
+
+export const EXTERNAL_ACCOUNT: LedgerAccount = { type: 'EXTERNAL', id: '' };
+
+export function ledgerLine(account: LedgerAccount, amount: bigint): LedgerLine {
+    return { account_type: account.type, account_id: account.id, amount: amount.toString() };
+}
+
+/**
+ * An entry moving `amount` from one account to another
+ */
+export function transferEntry(
+    entryType: LedgerEntryType,
+    from: LedgerAccount,
+    to: LedgerAccount,
+    amount: bigint,
+    details: { marketId?: string; memo?: string } = {}
+): LedgerEntryInput {
+    return {
+        entryType,
+        marketId: details.marketId,
+        memo: details.memo,
+        lines: [ledgerLine(from, -amount), ledgerLine(to, amount)]
+    };
+}
+
+/**
+ * Throw unless the entry has lines, integer amounts that sum to zero and
+ * well-formed accounts
+ */
+export function validateLedgerEntry(entry: LedgerEntryInput): void {
+    if (entry.lines.length === 0) throw new Error(`Ledger entry ${entry.entryType} has no lines`);
+
+    let sum = 0n;
+    for (const line of entry.lines) {
+        if (!/^-?\d+$/.test(line.amount)) {
+            throw new Error(`Ledger entry ${entry.entryType} has a non-integer amount: ${line.amount}`);
+        }
+        if (SINGLE_ACCOUNTS.includes(line.account_type) !== (line.account_id === '')) {
+            throw new Error(`Ledger entry ${entry.entryType} has an invalid ${line.account_type} account "${line.account_id}"`);
+        }
+        sum += BigInt(line.amount);
+    }
+
+    if (sum !== 0n) throw new Error(`Ledger entry ${entry.entryType} does not balance (off by ${sum})`);
+}
+
+/**
+ * Net change of each session balance in an entry
+ */
+export function sessionDeltas(entry: LedgerEntryInput): Map<string, bigint> {
+    const deltas = new Map<string, bigint>();
+    for (const line of entry.lines) {
+        if (line.account_type !== 'SESSION') continue;
+        deltas.set(line.account_id, (deltas.get(line.account_id) ?? 0n) + BigInt(line.amount));
+    }
+    return deltas;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// STATEMENTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface StatementLine {
+    entryId: number;
+    type: LedgerEntryType;
+    marketId: string | null;
+    memo: string | null;
+    amount: string;
+    /** Account balance after this line */
+    balance: string;
+    createdAt: string;
+}
+
+/**
+ * Replay an account's ledger lines into a running balance
+ */
+export function buildStatement(rows: AccountLedgerRow[]): { balance: bigint; lines: StatementLine[] } {
+    let balance = 0n;
+
+    const lines = rows.map(row => {
+        balance += BigInt(row.amount);
+        return {
+            entryId: row.entry_id,
+            type: row.entry_type,
+            marketId: row.market_id,
+            memo: row.memo,
+            amount: row.amount,
+            balance: balance.toString(),
+            createdAt: row.created_at
+        };
+    });
+
+    return { balance, lines };
+}
@@ -0,0 +1,417 @@
+/**
+ * Market Transactions - Atomic, race-free trades
+ *
+ * A trade reads the market, computes against the pool, then writes
+ * reserves, fees, balances, positions, limit orders and trade records.
+ * Done as separate calls, two concurrent trades overwrite each other's
+ * reserves and a crash midway leaves balances and positions out of sync.
+ *
+ * Instead, a trade stages its writes on a MarketTransaction (reads see the
+ * staged values) and commits them in one database call that applies all of
+ * them in a single transaction, and only if the market's version is still
+ * the one the trade was computed from. A trade that loses the race writes
+ * nothing and is recomputed against the fresh market.
+ *
+ * The USDC a trade moves is committed as one ledger entry: session
+ * credits and debits, fees owed to the creator and treasury, and bid escrow
+ * taken or released, balanced against the market's collateral.
+ *
+ * Trades on the same market are also queued within this process, so
+ * retries are only needed when several backend instances share a market.
+ */
+
+import { CategoricalPoolState } from '../amm/types';
+import { FeeBreakdown } from '../amm/fees';
+import { CostedPosition, addShares, releaseShares, averageEntryPrice } from '../amm/cost-basis';
+import * as db from './amm-repository';
+import {
+    LedgerAccount,
+    ledgerLine,
+    sessionAccount,
+    sessionEscrowAccount,
+    marketAccount,
+    escrowAccount,
+    creatorFeesAccount,
+    TREASURY_ACCOUNT,
+    EXTERNAL_ACCOUNT
+} from './ledger';
+
+/** Attempts at committing a trade before giving up on a busy market */
+const MAX_COMMIT_ATTEMPTS = 8;
+
+/** Backoff before retrying a conflicted commit (doubles per attempt, jittered) */
+const RETRY_BASE_DELAY_MS = 10;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TRANSACTION
+// ═══════════════════════════════════════════════════════════════════════════
+
+type StagedLiquidityPosition = { lpShares: bigint; costBasis: bigint };
+
+/**
+ * The writes of one trade on one market, staged until commit
+ */
+export class MarketTransaction {
+    private marketColumns: db.MarketCommit['market'] = {};
+    private fees = { lp: 0n, creator: 0n, protocol: 0n };
+    private sessions = new Map<string, db.SessionRow | null>();
+    private balanceDeltas = new Map<string, bigint>();
+    private externalIn = 0n;
+    private sessionEscrowIn = new Map<string, bigint>();
+    private positions = new Map<string, CostedPosition | null>();
+    private changedPositions = new Set<string>();
+    private liquidityPositions = new Map<string, StagedLiquidityPosition | null>();
+    private changedLiquidityPositions = new Set<string>();
+    private limitOrders = new Map<string, db.LimitOrderRow>();
+    /** Bid escrow (usdc_remaining) of each staged order before this trade */
+    private escrowBefore = new Map<string, bigint>();
+    private userAddresses = new Map<string, string>();
+    private trades: db.MarketCommit['trades'] = [];
+
+    constructor(readonly market: db.MarketRow, readonly entryType: db.LedgerEntryType) {}
+
+    get marketId(): string {
+        return this.market.market_id;
+    }
+
+    // ─── Market ──────────────────────────────────────────────────────────
+
+    /**
+     * Write a pool state produced by a pricing engine to the market's binary
+     * or per-outcome reserve columns (scalar markets use the binary columns)
+     */
+    setPoolState(pool: CategoricalPoolState): void {
+        if (db.isCategoricalMarketRow(this.market)) {
+            this.marketColumns.outcome_reserves = pool.reserves.map(r => r.toString());
+            this.marketColumns.total_collateral = pool.totalCollateral.toString();
+        } else {
+            this.marketColumns.yes_reserves = pool.reserves[0].toString();
+            this.marketColumns.no_reserves = pool.reserves[1].toString();
+        }
+        this.marketColumns.k_invariant = pool.k.toString();
+    }
+
+    /**
+     * Write a pool state after a liquidity deposit or withdrawal, with the LP
+     * shares outstanding and (LMSR only) the rescaled liquidity parameter
+     */
+    setLiquidityState(pool: CategoricalPoolState, lpTotalShares: bigint): void {
+        this.setPoolState(pool);
+        this.marketColumns.lp_total_shares = lpTotalShares.toString();
+        this.marketColumns.liquidity_parameter = pool.liquidityParameter?.toString() ?? null;
+    }
+
+    /** Add a trade's fee to the market's accrued totals */
+    accrueFees(fee: FeeBreakdown): void {
+        this.fees.lp += fee.lp;
+        this.fees.creator += fee.creator;
+        this.fees.protocol += fee.protocol;
+    }
+
+    // ─── Session balances ────────────────────────────────────────────────
+
+    async getSession(userId: string): Promise<db.SessionRow | null> {
+        if (!this.sessions.has(userId)) {
+            this.sessions.set(userId, await db.getSession(userId));
+        }
+        return this.sessions.get(userId)!;
+    }
+
+    /**
+     * Session balance including the changes staged so far (null without a session)
+     */
+    async getBalance(userId: string): Promise<bigint | null> {
+        const session = await this.getSession(userId);
+        if (!session) return null;
+        return BigInt(session.current_balance) + (this.balanceDeltas.get(userId) ?? 0n);
+    }
+
+    /**
+     * Credit a session's balance (no-op for users without a session)
+     */
+    async credit(userId: string, amount: bigint): Promise<void> {
+        if (!(await this.getSession(userId))) return;
+        this.balanceDeltas.set(userId, (this.balanceDeltas.get(userId) ?? 0n) + amount);
+    }
+
+    /**
+     * Debit a session's balance, failing if it doesn't cover the amount
+     */
+    async debit(userId: string, amount: bigint): Promise<void> {
+        const balance = await this.getBalance(userId);
+        if (balance === null) throw new Error(`Session ${userId} not found`);
+        if (balance < amount) {
+            throw new Error(`Insufficient session balance. Available: ${balance}, Required: ${amount}`);
+        }
+        this.balanceDeltas.set(userId, (this.balanceDeltas.get(userId) ?? 0n) - amount);
+    }
+
+    /**
+     * USDC paid into the market from outside any session (negative: paid
+     * out), for trades by users who have no session
+     */
+    transferExternal(amount: bigint): void {
+        this.externalIn += amount;
+    }
+
+    /**
+     * USDC paid into the market straight from a Yellow session's on-chain
+     * escrow (negative: paid back to it), outside its session balance
+     */
+    transferSessionEscrow(sessionId: string, amount: bigint): void {
+        this.sessionEscrowIn.set(sessionId, (this.sessionEscrowIn.get(sessionId) ?? 0n) + amount);
+    }
+
+    // ─── Positions ───────────────────────────────────────────────────────
+
+    async getPosition(userId: string, outcome: string): Promise<CostedPosition | null> {
+        const key = `${userId}\u0000${outcome}`;
+        if (!this.positions.has(key)) {
+            const row = await db.getPosition(userId, this.marketId, outcome);
+            this.positions.set(key, row ? { shares: BigInt(row.shares), costBasis: BigInt(row.cost_basis) } : null);
+        }
+        return this.positions.get(key)!;
+    }
+
+    /**
+     * Add shares and what they cost to a position
+     */
+    async addToPosition(userId: string, outcome: string, shares: bigint, cost: bigint): Promise<void> {
+        this.setPosition(userId, outcome, addShares(await this.getPosition(userId, outcome), shares, cost));
+    }
+
+    /**
+     * Take shares out of a position, failing if it doesn't hold them
+     * @returns The cost basis released with the shares
+     */
+    async takeFromPosition(userId: string, outcome: string, shares: bigint): Promise<bigint> {
+        const { remaining, releasedCost } = releaseShares(await this.getPosition(userId, outcome), shares);
+        this.setPosition(userId, outcome, remaining);
+        return releasedCost;
+    }
+
+    private setPosition(userId: string, outcome: string, position: CostedPosition): void {
+        const key = `${userId}\u0000${outcome}`;
+        this.positions.set(key, position);
+        this.changedPositions.add(key);
+    }
+
+    async getLiquidityPosition(userId: string): Promise<StagedLiquidityPosition | null> {
+        if (!this.liquidityPositions.has(userId)) {
+            const row = await db.getLiquidityPosition(userId, this.marketId);
+            this.liquidityPositions.set(userId, row ? { lpShares: BigInt(row.lp_shares), costBasis: BigInt(row.cost_basis) } : null);
+        }
+        return this.liquidityPositions.get(userId)!;
+    }
+
+    setLiquidityPosition(userId: string, lpShares: bigint, costBasis: bigint): void {
+        this.liquidityPositions.set(userId, { lpShares, costBasis });
+        this.changedLiquidityPositions.add(userId);
+    }
+
+    // ─── Limit orders ────────────────────────────────────────────────────
+
+    /**
+     * Stage a new limit order (its id is assigned here so fills in the same
+     * trade can refer to it)
+     */
+    insertLimitOrder(input: db.InsertLimitOrderInput): db.LimitOrderRow {
+        const now = new Date().toISOString();
+        const order: db.LimitOrderRow = {
+            id: crypto.randomUUID(),
+            user_id: input.userId,
+            market_id: this.marketId,
+            outcome: input.outcome,
+            side: input.side,
+            limit_price: input.limitPrice,
+            usdc_amount: input.side === 'BUY' ? input.amount.toString() : '0',
+            usdc_remaining: input.side === 'BUY' ? input.amount.toString() : '0',
+            shares_filled: '0',
+            shares_amount: input.side === 'SELL' ? input.amount.toString() : '0',
+            shares_remaining: input.side === 'SELL' ? input.amount.toString() : '0',
+            usdc_filled: '0',
+            cost_basis_remaining: input.side === 'SELL' ? (input.costBasis ?? 0n).toString() : '0',
+            time_in_force: input.timeInForce,
+            expires_at: input.expiresAt?.toISOString() ?? null,
+            status: 'OPEN',
+            created_at: now,
+            updated_at: now
+        };
+        this.limitOrders.set(order.id, order);
+        this.escrowBefore.set(order.id, 0n);
+        return order;
+    }
+
+    /**
+     * Latest staged state of an order (the row as read when nothing is staged)
+     */
+    getLimitOrder(order: db.LimitOrderRow): db.LimitOrderRow {
+        return this.limitOrders.get(order.id) ?? order;
+    }
+
+    /**
+     * Stage changes to an order's fill progress and status
+     * @returns The order with the changes applied
+     */
+    updateLimitOrder(
+        order: db.LimitOrderRow,
+        changes: Partial<Pick<
+            db.LimitOrderRow,
+            'usdc_remaining' | 'shares_filled' | 'shares_remaining' | 'usdc_filled' | 'cost_basis_remaining' | 'status'
+        >>
+    ): db.LimitOrderRow {
+        const current = this.getLimitOrder(order);
+        if (!this.escrowBefore.has(order.id)) this.escrowBefore.set(order.id, BigInt(current.usdc_remaining));
+
+        const updated = { ...current, ...changes, updated_at: new Date().toISOString() };
+        this.limitOrders.set(order.id, updated);
+        return updated;
+    }
+
+    // ─── Trades ──────────────────────────────────────────────────────────
+
+    /**
+     * Record a trade for PnL tracking
+     */
+    async recordTrade(input: Omit<db.InsertTradeInput, 'userAddress' | 'marketId' | 'marketTitle'>): Promise<void> {
+        if (!this.userAddresses.has(input.sessionId)) {
+            const userAddress = await db.getSessionUserAddress(input.sessionId);
+            this.userAddresses.set(input.sessionId, userAddress || input.sessionId);
+        }
+
+        this.trades.push({
+            session_id: input.sessionId,
+            user_address: this.userAddresses.get(input.sessionId)!,
+            trade_type: input.tradeType,
+            outcome: input.outcome,
+            shares: input.shares.toString(),
+            price: input.price,
+            cost_basis: input.costBasis.toString(),
+            realized_pnl: input.realizedPnl.toString(),
+            fee: (input.fee ?? 0n).toString(),
+            market_title: this.market.title
+        });
+    }
+
+    // ─── Commit ──────────────────────────────────────────────────────────
+
+    /**
+     * Commit every staged write in one transaction
+     * @returns false (nothing written) if another trade committed first
+     */
+    async commit(): Promise<boolean> {
+        const positions = [...this.changedPositions].map(key => {
+            const [userId, outcome] = key.split('\u0000');
+            const position = this.positions.get(key)!;
+            return {
+                user_id: userId,
+                outcome,
+                shares: position.shares.toString(),
+                cost_basis: position.costBasis.toString(),
+                average_entry_price: averageEntryPrice(position)
+            };
+        });
+
+        const liquidityPositions = [...this.changedLiquidityPositions].map(userId => {
+            const position = this.liquidityPositions.get(userId)!;
+            return { user_id: userId, lp_shares: position.lpShares.toString(), cost_basis: position.costBasis.toString() };
+        });
+
+        return db.commitMarketTrade({
+            marketId: this.marketId,
+            expectedVersion: this.market.version,
+            market: this.marketColumns,
+            fees: {
+                lp: this.fees.lp.toString(),
+                creator: this.fees.creator.toString(),
+                protocol: this.fees.protocol.toString()
+            },
+            entry: this.ledgerEntry(),
+            positions,
+            liquidityPositions,
+            limitOrders: [...this.limitOrders.values()],
+            trades: this.trades
+        });
+    }
+
+    /**
+     * The trade's USDC movements as one balanced entry (null if it moved none)
+     */
+    private ledgerEntry(): db.LedgerEntryInput | null {
+        const lines: db.LedgerLine[] = [];
+        const add = (account: LedgerAccount, amount: bigint) => {
+            if (amount !== 0n) lines.push(ledgerLine(account, amount));
+        };
+
+        for (const [userId, delta] of this.balanceDeltas) add(sessionAccount(userId), delta);
+        add(EXTERNAL_ACCOUNT, -this.externalIn);
+        for (const [sessionId, amount] of this.sessionEscrowIn) add(sessionEscrowAccount(sessionId), -amount);
+        add(creatorFeesAccount(this.marketId), this.fees.creator);
+        add(TREASURY_ACCOUNT, this.fees.protocol);
+
+        let escrowChange = 0n;
+        for (const [orderId, before] of this.escrowBefore) {
+            escrowChange += BigInt(this.limitOrders.get(orderId)!.usdc_remaining) - before;
+        }
+        add(escrowAccount(this.marketId), escrowChange);
+
+        // Whatever didn't land anywhere else came from (or went into) the pool
+        add(marketAccount(this.marketId), -lines.reduce((sum, line) => sum + BigInt(line.amount), 0n));
+
+        return lines.length > 0 ? { entryType: this.entryType, marketId: this.marketId, lines } : null;
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RUNNING TRADES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Tail of the queue of trades running on each market in this process */
+const marketQueues = new Map<string, Promise<unknown>>();
+
+/**
+ * Run a trade against the latest state of a market and commit its writes
+ * atomically, retrying from a fresh read when another trade got in first
+ *
+ * `entryType` labels the trade's ledger entry. The trade callback must only
+ * stage writes on the transaction it is given;
+ * it may run more than once, and whatever it returns from the attempt that
+ * commits is returned here. Errors it throws abort the trade unwritten.
+ */
+export async function runMarketTransaction<T>(
+    marketId: string,
+    entryType: db.LedgerEntryType,
+    trade: (tx: MarketTransaction) => Promise<T>
+): Promise<T> {
+    const previous = marketQueues.get(marketId) ?? Promise.resolve();
+    const run = previous.catch(() => undefined).then(() => commitWithRetry(marketId, entryType, trade));
+
+    marketQueues.set(marketId, run);
+    try {
+        return await run;
+    } finally {
+        // Drop the queue once it drains so idle markets don't pile up
+        if (marketQueues.get(marketId) === run) marketQueues.delete(marketId);
+    }
+}
+
+async function commitWithRetry<T>(
+    marketId: string,
+    entryType: db.LedgerEntryType,
+    trade: (tx: MarketTransaction) => Promise<T>
+): Promise<T> {
+    for (let attempt = 1; attempt <= MAX_COMMIT_ATTEMPTS; attempt++) {
+        const row = await db.getMarket(marketId);
+        if (!row) throw new Error(`Market ${marketId} not found`);
+
+        const tx = new MarketTransaction(row, entryType);
+        const result = await trade(tx);
+        if (await tx.commit()) return result;
+
+        console.warn(`[MarketTransaction] Market ${marketId} changed during a trade, retrying (attempt ${attempt}/${MAX_COMMIT_ATTEMPTS})`);
+        const delay = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+        await new Promise(resolve => setTimeout(resolve, delay / 2 + Math.random() * delay));
+    }
+
+    throw new Error(`Market ${marketId} is busy, try again`);
+}
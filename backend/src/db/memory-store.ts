@@ -0,0 +1,733 @@
+/**
+ * Memory Store - Every store of store.ts held in process memory
+ *
+ * Mirrors the Supabase schema closely enough to run the whole backend, and
+ * its tests, without a hosted database: the same column defaults, orderings
+ * and error messages, and commitMarketTrade applies a trade all-or-nothing
+ * with the same version check. Nothing survives a restart.
+ *
+ * Rows are copied on the way in and out so callers can't change stored
+ * state behind the store's back.
+ */
+
+import { Outcome } from '../amm/types';
+import { DEFAULT_FEE_SPLIT } from '../amm/fees';
+import { averageEntryPrice } from '../amm/cost-basis';
+import { RefundMode, DEFAULT_REFUND_MODE } from '../amm/refunds';
+import { OrderSide, LimitOrderStatus } from '../amm/limit-orders';
+import {
+    Store,
+    MarketRow,
+    SessionRow,
+    PositionRow,
+    LiquidityPositionRow,
+    LimitOrderRow,
+    TradeRow,
+    CreateMarketInput,
+    InsertTradeInput,
+    OracleObservationInput,
+    MarketCommit,
+    LedgerAccountType,
+    LedgerEntryInput,
+    LedgerEntryRow,
+    AccountLedgerRow,
+    IdempotencyKeyRow,
+    ReconciliationInput,
+    ReconciliationRunRow,
+    ReconciliationDiscrepancyRow,
+    UNSETTLED_MARKET_STATUSES
+} from './store';
+import { EXTERNAL_ACCOUNT, sessionAccount, sessionDeltas, transferEntry, validateLedgerEntry } from './ledger';
+
+/** Most trades getTradesByUser returns (same limit as the Supabase store) */
+const USER_TRADES_LIMIT = 100;
+
+function copy<T>(row: T): T {
+    return structuredClone(row);
+}
+
+function now(): string {
+    return new Date().toISOString();
+}
+
+function sameAddress(a: string | null, b: string): boolean {
+    return !!a && a.toLowerCase() === b.toLowerCase();
+}
+
+function newestFirst(a: { created_at: string }, b: { created_at: string }): number {
+    return b.created_at.localeCompare(a.created_at);
+}
+
+export class MemoryStore implements Store {
+    private markets = new Map<string, MarketRow>();
+    private sessions = new Map<string, SessionRow>();
+    /** Keyed by user, market and outcome */
+    private positions = new Map<string, PositionRow>();
+    /** Keyed by user and market */
+    private liquidityPositions = new Map<string, LiquidityPositionRow>();
+    private limitOrders = new Map<string, LimitOrderRow>();
+    private trades: TradeRow[] = [];
+    private ledger: LedgerEntryRow[] = [];
+    private idempotencyKeys = new Map<string, IdempotencyKeyRow>();
+    private reconciliationRuns: ReconciliationRunRow[] = [];
+    private reconciliationDiscrepancies: ReconciliationDiscrepancyRow[] = [];
+
+    // ─── Sessions ──────────────────────────────────────────────────────────
+
+    async createSession(
+        sessionId: string,
+        userAddress: string,
+        initialCollateral: bigint,
+        signature: string
+    ): Promise<SessionRow> {
+        if (this.sessions.has(sessionId)) {
+            throw new Error(`Failed to create session: duplicate session ${sessionId}`);
+        }
+
+        const session: SessionRow = {
+            session_id: sessionId,
+            user_address: userAddress,
+            status: 'OPEN',
+            initial_collateral: initialCollateral.toString(),
+            current_balance: '0',
+            latest_signature: signature,
+            nonce: 0,
+            created_at: now(),
+            updated_at: now()
+        };
+        this.sessions.set(sessionId, session);
+
+        if (initialCollateral !== 0n) {
+            await this.postLedgerEntry(transferEntry('DEPOSIT', EXTERNAL_ACCOUNT, sessionAccount(sessionId), initialCollateral));
+        }
+        return copy(session);
+    }
+
+    async getSession(sessionId: string): Promise<SessionRow | null> {
+        const session = this.sessions.get(sessionId);
+        return session ? copy(session) : null;
+    }
+
+    async getSessionByUser(userAddress: string): Promise<SessionRow | null> {
+        const session = [...this.sessions.values()]
+            .filter(s => s.user_address === userAddress && s.status === 'OPEN')
+            .sort(newestFirst)[0];
+        return session ? copy(session) : null;
+    }
+
+    async listSessions(): Promise<SessionRow[]> {
+        return [...this.sessions.values()].sort(newestFirst).map(copy);
+    }
+
+    async getSessionUserAddress(sessionId: string): Promise<string | null> {
+        return this.sessions.get(sessionId)?.user_address ?? null;
+    }
+
+    async ensureSessionExists(sessionId: string, userAddress?: string): Promise<void> {
+        if (this.sessions.has(sessionId)) return;
+
+        if (!userAddress) {
+            console.warn(`[AMM] Cannot auto-create session ${sessionId}: userAddress is required`);
+            return;
+        }
+
+        await this.createSession(sessionId, userAddress, 0n, 'auto-created');
+        console.log(`[AMM] Auto-created session: ${sessionId}`);
+    }
+
+    async updateSessionSignature(sessionId: string, newSignature: string, newNonce: number): Promise<void> {
+        const session = this.sessions.get(sessionId);
+        if (!session) return;
+
+        session.latest_signature = newSignature;
+        session.nonce = newNonce;
+        session.updated_at = now();
+    }
+
+    async updateSessionKey(sessionId: string, sessionKeyAddress: string): Promise<void> {
+        const session = this.sessions.get(sessionId);
+        if (session) session.session_key = sessionKeyAddress;
+    }
+
+    async upsertSession(
+        sessionId: string,
+        userAddress: string,
+        collateral: bigint,
+        rateBps: number,
+        safeMode: boolean
+    ): Promise<void> {
+        const existing = this.sessions.get(sessionId);
+
+        this.sessions.set(sessionId, {
+            ...existing,
+            session_id: sessionId,
+            user_address: userAddress,
+            initial_collateral: collateral.toString(),
+            current_balance: existing?.current_balance ?? '0',
+            rwa_rate_bps: rateBps,
+            safe_mode_enabled: safeMode,
+            status: 'OPEN',
+            latest_signature: 'init',
+            nonce: 0,
+            created_at: existing?.created_at ?? now(),
+            updated_at: now()
+        });
+
+        // The balance starts over at the collateral
+        const change = collateral - BigInt(existing?.current_balance ?? '0');
+        if (change !== 0n) {
+            await this.postLedgerEntry(transferEntry(
+                change > 0n ? 'DEPOSIT' : 'ADJUSTMENT', EXTERNAL_ACCOUNT, sessionAccount(sessionId), change
+            ));
+        }
+    }
+
+    async closeSession(sessionId: string): Promise<void> {
+        const session = this.sessions.get(sessionId);
+        if (session) session.status = 'CLOSED';
+    }
+
+    // ─── Markets ───────────────────────────────────────────────────────────
+
+    async createMarket(input: CreateMarketInput): Promise<MarketRow> {
+        if (this.markets.has(input.marketId)) {
+            throw new Error(`Failed to create market: duplicate market ${input.marketId}`);
+        }
+        // Check the deposit before writing anything
+        if (input.funding) this.checkLedgerEntry(input.funding.entry);
+
+        const feeConfig = input.feeConfig ?? { feeBps: 0, ...DEFAULT_FEE_SPLIT };
+        const market: MarketRow = {
+            market_id: input.marketId,
+            title: input.title,
+            description: input.description ?? null,
+            category: input.category ?? 'general',
+            opens_at: input.opensAt?.toISOString() ?? null,
+            expires_at: input.expiresAt.toISOString(),
+            yes_reserves: input.yesReserves.toString(),
+            no_reserves: input.noReserves.toString(),
+            k_invariant: input.kInvariant.toString(),
+            market_type: input.marketType ?? 'BINARY',
+            outcomes: input.outcomes ?? [Outcome.YES, Outcome.NO],
+            outcome_reserves: input.outcomeReserves?.map(r => r.toString()) ?? null,
+            total_collateral: input.totalCollateral?.toString() ?? null,
+            scalar_low: input.scalarLow ?? null,
+            scalar_high: input.scalarHigh ?? null,
+            pricing_engine: input.pricingEngine ?? 'CPMM',
+            liquidity_parameter: input.liquidityParameter?.toString() ?? null,
+            lp_total_shares: input.lpTotalShares.toString(),
+            creator_id: input.creatorId ?? null,
+            fee_bps: feeConfig.feeBps,
+            lp_fee_share_bps: feeConfig.lpShareBps,
+            creator_fee_share_bps: feeConfig.creatorShareBps,
+            protocol_fee_share_bps: feeConfig.protocolShareBps,
+            lp_fees_accrued: '0',
+            creator_fees_accrued: '0',
+            protocol_fees_accrued: '0',
+            status: 'ACTIVE',
+            refund_mode: input.refundMode ?? DEFAULT_REFUND_MODE,
+            dispute_window_seconds: input.disputeWindowSeconds ?? 0,
+            dispute_bond: (input.disputeBond ?? 0n).toString(),
+            proposed_value: null,
+            proposed_by: null,
+            proposed_at: null,
+            dispute_ends_at: null,
+            disputed_by: null,
+            disputed_at: null,
+            dispute_reason: null,
+            resolution_value: null,
+            resolution_type: input.resolutionType ?? 'manual',
+            oracle_config: input.oracleConfig ?? null,
+            oracle_price: null,
+            oracle_source: null,
+            oracle_published_at: null,
+            oracle_observed_at: null,
+            oracle_evidence: null,
+            resolver_address: input.resolverAddress ?? null,
+            resolved_at: null,
+            resolved_by: null,
+            version: 0,
+            created_at: now()
+        };
+        this.markets.set(market.market_id, market);
+
+        if (input.funding) {
+            this.appendLedgerEntry(input.funding.entry);
+            for (const position of input.funding.liquidityPositions) {
+                this.writeLiquidityPosition(position.user_id, market.market_id, position.lp_shares, position.cost_basis);
+            }
+            for (const trade of input.funding.trades) {
+                this.trades.push({ ...copy(trade), id: crypto.randomUUID(), market_id: market.market_id, created_at: now() });
+            }
+        }
+        return copy(market);
+    }
+
+    async getMarket(marketId: string): Promise<MarketRow | null> {
+        const market = this.markets.get(marketId);
+        return market ? copy(market) : null;
+    }
+
+    async getActiveMarkets(): Promise<MarketRow[]> {
+        return this.findMarkets(m => m.status === 'ACTIVE');
+    }
+
+    async getAllMarkets(): Promise<MarketRow[]> {
+        return this.findMarkets(() => true);
+    }
+
+    async getMarketsByResolver(resolverAddress: string): Promise<MarketRow[]> {
+        return this.findMarkets(m => sameAddress(m.resolver_address, resolverAddress));
+    }
+
+    async getMarketsToResolve(): Promise<MarketRow[]> {
+        return this.findExpiredMarkets(() => true);
+    }
+
+    async getOracleMarketsToResolve(): Promise<MarketRow[]> {
+        return this.findExpiredMarkets(m => m.resolution_type === 'oracle');
+    }
+
+    async commitMarketTrade(commit: MarketCommit): Promise<boolean> {
+        const market = this.markets.get(commit.marketId);
+        if (!market || market.version !== commit.expectedVersion) return false;
+
+        // Check the entry before writing anything
+        if (commit.entry) this.checkLedgerEntry(commit.entry);
+
+        Object.assign(market, copy(commit.market));
+        market.lp_fees_accrued = (BigInt(market.lp_fees_accrued) + BigInt(commit.fees.lp)).toString();
+        market.creator_fees_accrued = (BigInt(market.creator_fees_accrued) + BigInt(commit.fees.creator)).toString();
+        market.protocol_fees_accrued = (BigInt(market.protocol_fees_accrued) + BigInt(commit.fees.protocol)).toString();
+        market.version++;
+
+        if (commit.entry) this.appendLedgerEntry(commit.entry);
+
+        for (const position of commit.positions) {
+            this.writePosition(position.user_id, commit.marketId, position.outcome, BigInt(position.shares), BigInt(position.cost_basis));
+        }
+        for (const position of commit.liquidityPositions) {
+            this.writeLiquidityPosition(position.user_id, commit.marketId, position.lp_shares, position.cost_basis);
+        }
+        for (const order of commit.limitOrders) {
+            this.limitOrders.set(order.id, { ...copy(order), market_id: commit.marketId });
+        }
+        for (const trade of commit.trades) {
+            this.trades.push({ ...copy(trade), id: crypto.randomUUID(), market_id: commit.marketId, created_at: now() });
+        }
+
+        return true;
+    }
+
+    async resolveMarket(marketId: string, winner: Outcome | string, resolvedBy?: string): Promise<void> {
+        const market = this.markets.get(marketId);
+        if (!market) throw new Error(`Market not found: ${marketId}`);
+        if (market.status === 'RESOLVED') throw new Error('Market is already resolved');
+
+        const expiresAt = new Date(market.expires_at);
+        if (new Date() < expiresAt) {
+            throw new Error(`Market cannot be resolved until after expiry: ${expiresAt.toISOString()}`);
+        }
+
+        if (market.resolver_address && resolvedBy && !sameAddress(market.resolver_address, resolvedBy)) {
+            throw new Error(`Unauthorized resolver. Only ${market.resolver_address} can resolve this market.`);
+        }
+
+        market.status = 'RESOLVED';
+        market.resolution_value = winner;
+        market.resolved_at = now();
+        market.resolved_by = resolvedBy ?? 'system';
+        market.version++;
+    }
+
+    async proposeResolution(marketId: string, proposal: string, proposedBy: string | undefined, disputeEndsAt: Date): Promise<MarketRow> {
+        const market = this.markets.get(marketId);
+        if (!market) throw new Error(`Market not found: ${marketId}`);
+        if (market.status !== 'ACTIVE') throw new Error(`Market is already ${market.status.toLowerCase()}`);
+
+        const expiresAt = new Date(market.expires_at);
+        if (new Date() < expiresAt) {
+            throw new Error(`Market cannot be resolved until after expiry: ${expiresAt.toISOString()}`);
+        }
+
+        if (market.resolver_address && proposedBy && !sameAddress(market.resolver_address, proposedBy)) {
+            throw new Error(`Unauthorized resolver. Only ${market.resolver_address} can resolve this market.`);
+        }
+
+        market.status = 'PROPOSED';
+        market.proposed_value = proposal;
+        market.proposed_by = proposedBy ?? 'system';
+        market.proposed_at = now();
+        market.dispute_ends_at = disputeEndsAt.toISOString();
+        market.version++;
+        return copy(market);
+    }
+
+    async disputeResolution(marketId: string, disputedBy: string, reason?: string): Promise<MarketRow> {
+        const market = this.markets.get(marketId);
+        if (!market) throw new Error(`Market not found: ${marketId}`);
+        if (market.status !== 'PROPOSED') throw new Error('Market has no proposed resolution to dispute');
+        if (!market.dispute_ends_at || market.dispute_ends_at <= now()) throw new Error('Dispute window has closed');
+
+        market.status = 'DISPUTED';
+        market.disputed_by = disputedBy;
+        market.disputed_at = now();
+        market.dispute_reason = reason ?? null;
+        return copy(market);
+    }
+
+    async finalizeResolution(marketId: string, from: 'PROPOSED' | 'DISPUTED', winner: string, resolvedBy: string): Promise<MarketRow> {
+        const market = this.markets.get(marketId);
+        if (!market) throw new Error(`Market not found: ${marketId}`);
+        if (market.status !== from) throw new Error(`Market is ${market.status.toLowerCase()}, not ${from.toLowerCase()}`);
+        if (from === 'PROPOSED' && (!market.dispute_ends_at || market.dispute_ends_at > now())) {
+            throw new Error(`Dispute window is open until ${market.dispute_ends_at}`);
+        }
+
+        market.status = 'RESOLVED';
+        market.resolution_value = winner;
+        market.resolved_at = now();
+        market.resolved_by = resolvedBy;
+        return copy(market);
+    }
+
+    async recordOracleObservation(marketId: string, observation: OracleObservationInput): Promise<void> {
+        const market = this.markets.get(marketId);
+        if (!market) throw new Error(`Market not found: ${marketId}`);
+
+        market.oracle_price = observation.price;
+        market.oracle_source = observation.source;
+        market.oracle_published_at = observation.publishedAt.toISOString();
+        market.oracle_observed_at = observation.observedAt.toISOString();
+        market.oracle_evidence = observation.evidence;
+    }
+
+    async cancelMarket(marketId: string, refundMode: RefundMode, cancelledBy?: string): Promise<MarketRow> {
+        const market = this.markets.get(marketId);
+        if (!market) throw new Error(`Market not found: ${marketId}`);
+        if (market.status !== 'ACTIVE') throw new Error(`Market is already ${market.status.toLowerCase()}`);
+
+        if (market.resolver_address && cancelledBy && !sameAddress(market.resolver_address, cancelledBy)) {
+            throw new Error(`Unauthorized resolver. Only ${market.resolver_address} can cancel this market.`);
+        }
+
+        market.status = 'CANCELLED';
+        market.refund_mode = refundMode;
+        market.resolved_at = now();
+        market.resolved_by = cancelledBy ?? 'system';
+        market.version++;
+        return copy(market);
+    }
+
+    private findMarkets(filter: (market: MarketRow) => boolean): MarketRow[] {
+        return [...this.markets.values()].filter(filter).sort(newestFirst).map(copy);
+    }
+
+    private findExpiredMarkets(filter: (market: MarketRow) => boolean): MarketRow[] {
+        const cutoff = now();
+        return [...this.markets.values()]
+            .filter(m => m.status === 'ACTIVE' && m.expires_at < cutoff && filter(m))
+            .sort((a, b) => a.expires_at.localeCompare(b.expires_at))
+            .map(copy);
+    }
+
+    // ─── Positions ─────────────────────────────────────────────────────────
+
+    async getPosition(userId: string, marketId: string, outcome: Outcome | string): Promise<PositionRow | null> {
+        const position = this.positions.get(`${userId}|${marketId}|${outcome}`);
+        return position ? copy(position) : null;
+    }
+
+    async getUserPositions(userId: string): Promise<PositionRow[]> {
+        return this.findPositions(p => p.user_id === userId);
+    }
+
+    async getUserMarketPositions(userId: string, marketId: string): Promise<PositionRow[]> {
+        return this.findPositions(p => p.user_id === userId && p.market_id === marketId);
+    }
+
+    async getMarketPositions(marketId: string): Promise<PositionRow[]> {
+        return this.findPositions(p => p.market_id === marketId);
+    }
+
+    async getUserActivePositions(userId: string): Promise<(PositionRow & { market_status: string })[]> {
+        return this.findPositions(p => p.user_id === userId && BigInt(p.shares) > 0n)
+            .map(p => ({ ...p, market_status: this.markets.get(p.market_id)?.status ?? '' }))
+            .filter(p => (UNSETTLED_MARKET_STATUSES as string[]).includes(p.market_status));
+    }
+
+    async upsertPosition(
+        userId: string,
+        marketId: string,
+        outcome: Outcome | string,
+        shares: bigint,
+        costBasis: bigint
+    ): Promise<PositionRow> {
+        return copy(this.writePosition(userId, marketId, outcome, shares, costBasis));
+    }
+
+    private findPositions(filter: (position: PositionRow) => boolean): PositionRow[] {
+        return [...this.positions.values()].filter(filter).map(copy);
+    }
+
+    private writePosition(userId: string, marketId: string, outcome: string, shares: bigint, costBasis: bigint): PositionRow {
+        const key = `${userId}|${marketId}|${outcome}`;
+        const existing = this.positions.get(key);
+
+        const position: PositionRow = {
+            id: existing?.id ?? crypto.randomUUID(),
+            user_id: userId,
+            market_id: marketId,
+            outcome,
+            shares: shares.toString(),
+            cost_basis: costBasis.toString(),
+            average_entry_price: averageEntryPrice({ shares, costBasis }),
+            created_at: existing?.created_at ?? now()
+        };
+        this.positions.set(key, position);
+        return position;
+    }
+
+    // ─── Liquidity positions ───────────────────────────────────────────────
+
+    async getLiquidityPosition(userId: string, marketId: string): Promise<LiquidityPositionRow | null> {
+        const position = this.liquidityPositions.get(`${userId}|${marketId}`);
+        return position ? copy(position) : null;
+    }
+
+    async getUserLiquidityPositions(userId: string): Promise<LiquidityPositionRow[]> {
+        return [...this.liquidityPositions.values()]
+            .filter(p => p.user_id === userId && BigInt(p.lp_shares) > 0n)
+            .map(copy);
+    }
+
+    async getMarketLiquidityPositions(marketId: string): Promise<LiquidityPositionRow[]> {
+        return [...this.liquidityPositions.values()].filter(p => p.market_id === marketId).map(copy);
+    }
+
+    async upsertLiquidityPosition(
+        userId: string,
+        marketId: string,
+        lpShares: bigint,
+        costBasis: bigint
+    ): Promise<LiquidityPositionRow> {
+        return copy(this.writeLiquidityPosition(userId, marketId, lpShares.toString(), costBasis.toString()));
+    }
+
+    private writeLiquidityPosition(userId: string, marketId: string, lpShares: string, costBasis: string): LiquidityPositionRow {
+        const key = `${userId}|${marketId}`;
+        const existing = this.liquidityPositions.get(key);
+
+        const position: LiquidityPositionRow = {
+            id: existing?.id ?? crypto.randomUUID(),
+            user_id: userId,
+            market_id: marketId,
+            lp_shares: lpShares,
+            cost_basis: costBasis,
+            created_at: existing?.created_at ?? now()
+        };
+        this.liquidityPositions.set(key, position);
+        return position;
+    }
+
+    // ─── Limit orders ──────────────────────────────────────────────────────
+
+    async getLimitOrder(orderId: string): Promise<LimitOrderRow | null> {
+        const order = this.limitOrders.get(orderId);
+        return order ? copy(order) : null;
+    }
+
+    async getOpenLimitOrders(marketId: string, side?: OrderSide): Promise<LimitOrderRow[]> {
+        return [...this.limitOrders.values()]
+            .filter(o => o.market_id === marketId && o.status === 'OPEN' && (!side || o.side === side))
+            .sort((a, b) => Number(b.limit_price) - Number(a.limit_price) || a.created_at.localeCompare(b.created_at))
+            .map(copy);
+    }
+
+    async getBookOrders(marketId: string, outcome: string, side: OrderSide): Promise<LimitOrderRow[]> {
+        const direction = side === 'SELL' ? 1 : -1;
+
+        return [...this.limitOrders.values()]
+            .filter(o => o.market_id === marketId && o.outcome === outcome && o.side === side && o.status === 'OPEN')
+            .sort((a, b) => direction * (Number(a.limit_price) - Number(b.limit_price)) || a.created_at.localeCompare(b.created_at))
+            .map(copy);
+    }
+
+    async getUserLimitOrders(userId: string, status?: LimitOrderStatus): Promise<LimitOrderRow[]> {
+        return [...this.limitOrders.values()]
+            .filter(o => o.user_id === userId && (!status || o.status === status))
+            .sort(newestFirst)
+            .map(copy);
+    }
+
+    // ─── Trades ────────────────────────────────────────────────────────────
+
+    async insertTrade(input: InsertTradeInput): Promise<TradeRow> {
+        const trade: TradeRow = {
+            id: crypto.randomUUID(),
+            session_id: input.sessionId,
+            user_address: input.userAddress,
+            market_id: input.marketId,
+            trade_type: input.tradeType,
+            outcome: input.outcome,
+            shares: input.shares.toString(),
+            price: input.price,
+            cost_basis: input.costBasis.toString(),
+            realized_pnl: input.realizedPnl.toString(),
+            fee: (input.fee ?? 0n).toString(),
+            market_title: input.marketTitle ?? null,
+            created_at: now()
+        };
+        this.trades.push(trade);
+        return copy(trade);
+    }
+
+    async getTradesByUser(userAddress: string): Promise<TradeRow[]> {
+        return this.findTrades(t => sameAddress(t.user_address, userAddress)).slice(0, USER_TRADES_LIMIT);
+    }
+
+    async getTradesBySession(sessionId: string): Promise<TradeRow[]> {
+        return this.findTrades(t => t.session_id === sessionId);
+    }
+
+    async getTradesByMarketAndUser(marketId: string, userAddress: string): Promise<TradeRow[]> {
+        return this.findTrades(t => t.market_id === marketId && sameAddress(t.user_address, userAddress));
+    }
+
+    /** Newest first; trades recorded in the same millisecond keep insertion order reversed */
+    private findTrades(filter: (trade: TradeRow) => boolean): TradeRow[] {
+        return this.trades.filter(filter).reverse().map(copy);
+    }
+
+    // ─── Ledger ────────────────────────────────────────────────────────────
+
+    async postLedgerEntry(entry: LedgerEntryInput): Promise<LedgerEntryRow> {
+        this.checkLedgerEntry(entry);
+        return copy(this.appendLedgerEntry(entry));
+    }
+
+    async getAccountLedger(accountType: LedgerAccountType, accountId: string): Promise<AccountLedgerRow[]> {
+        return this.ledger.flatMap(entry => entry.lines
+            .filter(line => line.account_type === accountType && line.account_id === accountId)
+            .map(line => ({
+                entry_id: entry.id,
+                entry_type: entry.entry_type,
+                market_id: entry.market_id,
+                memo: entry.memo,
+                amount: line.amount,
+                created_at: entry.created_at
+            }))
+        );
+    }
+
+    /** Throw if posting the entry would unbalance the books or a session */
+    private checkLedgerEntry(entry: LedgerEntryInput): void {
+        validateLedgerEntry(entry);
+
+        for (const [sessionId, delta] of sessionDeltas(entry)) {
+            const session = this.sessions.get(sessionId);
+            if (!session) throw new Error(`Failed to post ledger entry: Session ${sessionId} not found`);
+            if (BigInt(session.current_balance) + delta < 0n) {
+                throw new Error(`Failed to post ledger entry: Insufficient session balance for ${sessionId}`);
+            }
+        }
+    }
+
+    private appendLedgerEntry(entry: LedgerEntryInput): LedgerEntryRow {
+        const row: LedgerEntryRow = {
+            id: this.ledger.length + 1,
+            entry_type: entry.entryType,
+            market_id: entry.marketId ?? null,
+            memo: entry.memo ?? null,
+            created_at: now(),
+            lines: copy(entry.lines)
+        };
+        this.ledger.push(row);
+
+        for (const [sessionId, delta] of sessionDeltas(entry)) {
+            const session = this.sessions.get(sessionId)!;
+            session.current_balance = (BigInt(session.current_balance) + delta).toString();
+            session.nonce++;
+            session.updated_at = now();
+        }
+        return row;
+    }
+
+    // ─── Idempotency Keys ──────────────────────────────────────────────────
+
+    async claimIdempotencyKey(
+        key: string,
+        requestHash: string,
+        pendingTimeoutMs: number
+    ): Promise<IdempotencyKeyRow | null> {
+        const existing = this.idempotencyKeys.get(key);
+        const stale = existing?.status === 'PENDING'
+            && existing.request_hash === requestHash
+            && Date.now() - new Date(existing.created_at).getTime() > pendingTimeoutMs;
+        if (existing && !stale) return copy(existing);
+
+        this.idempotencyKeys.set(key, {
+            key,
+            request_hash: requestHash,
+            status: 'PENDING',
+            response_status: null,
+            response_body: null,
+            created_at: now(),
+            completed_at: null
+        });
+        return null;
+    }
+
+    async completeIdempotencyKey(key: string, responseStatus: number, responseBody: unknown): Promise<void> {
+        const record = this.idempotencyKeys.get(key);
+        if (!record) throw new Error(`Failed to complete idempotency key: ${key} not found`);
+
+        record.status = 'COMPLETED';
+        record.response_status = responseStatus;
+        record.response_body = copy(responseBody);
+        record.completed_at = now();
+    }
+
+    async releaseIdempotencyKey(key: string): Promise<void> {
+        if (this.idempotencyKeys.get(key)?.status === 'PENDING') this.idempotencyKeys.delete(key);
+    }
+
+    // ─── Reconciliation ────────────────────────────────────────────────────
+
+    async recordReconciliation(input: ReconciliationInput): Promise<ReconciliationRunRow> {
+        const run: ReconciliationRunRow = {
+            id: this.reconciliationRuns.length + 1,
+            started_at: input.startedAt,
+            finished_at: input.finishedAt,
+            markets_checked: input.marketsChecked,
+            sessions_checked: input.sessionsChecked,
+            discrepancy_count: input.discrepancies.length,
+            totals: copy(input.totals)
+        };
+        this.reconciliationRuns.push(run);
+
+        for (const discrepancy of input.discrepancies) {
+            this.reconciliationDiscrepancies.push({
+                ...copy(discrepancy),
+                id: this.reconciliationDiscrepancies.length + 1,
+                run_id: run.id
+            });
+        }
+        return copy(run);
+    }
+
+    async getLatestReconciliation(): Promise<{
+        run: ReconciliationRunRow;
+        discrepancies: ReconciliationDiscrepancyRow[];
+    } | null> {
+        const run = this.reconciliationRuns[this.reconciliationRuns.length - 1];
+        if (!run) return null;
+
+        return {
+            run: copy(run),
+            discrepancies: this.reconciliationDiscrepancies
+                .filter(discrepancy => discrepancy.run_id === run.id)
+                .map(copy)
+        };
+    }
+}
@@ -0,0 +1,56 @@
+/**
+ * Migration CLI - Apply sql/ to the database behind DATABASE_URL
+ *
+ * Run with: npm run migrate
+ *           npm run migrate -- --status
+ *           npm run migrate -- --baseline 11   (schema built by hand up to 11_atomic_trades.sql)
+ *
+ * DATABASE_URL is the Postgres connection string of the Supabase project
+ * (Project Settings > Database), or of any local Postgres.
+ */
+
+import 'dotenv/config';
+import { Client } from 'pg';
+import { AppliedMigration, diffMigrations, loadMigrations, runMigrations } from './migrations';
+
+async function printStatus(databaseUrl: string): Promise<void> {
+    const client = new Client({ connectionString: databaseUrl });
+    await client.connect();
+
+    try {
+        const { rows } = await client.query<AppliedMigration>(
+            `select version, name, checksum, applied_at from public.schema_migrations order by version`
+        ).catch(() => ({ rows: [] as AppliedMigration[] }));
+
+        const { pending, drift } = diffMigrations(loadMigrations(), rows);
+        console.log(`Applied: ${rows.length}, pending: ${pending.length}`);
+        pending.forEach(m => console.log(`  pending  ${m.file}`));
+        drift.forEach(problem => console.log(`  drift    ${problem}`));
+    } finally {
+        await client.end();
+    }
+}
+
+async function main(): Promise<void> {
+    const databaseUrl = process.env.DATABASE_URL;
+    if (!databaseUrl) throw new Error('DATABASE_URL is not set');
+
+    const args = process.argv.slice(2);
+    if (args.includes('--status')) {
+        return printStatus(databaseUrl);
+    }
+
+    const baselineIndex = args.indexOf('--baseline');
+    const baseline = baselineIndex >= 0 ? Number(args[baselineIndex + 1]) : undefined;
+    if (baseline !== undefined && !Number.isInteger(baseline)) {
+        throw new Error('--baseline needs the version of the last migration already in the database');
+    }
+
+    const applied = await runMigrations(databaseUrl, { baseline });
+    console.log(applied.length > 0 ? `✅ Applied ${applied.length} migration(s)` : '✅ Database is up to date');
+}
+
+main().catch(err => {
+    console.error(`\n❌ ${err instanceof Error ? err.message : err}\n`);
+    process.exit(1);
+});
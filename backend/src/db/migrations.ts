@@ -0,0 +1,228 @@
+/**
+ * Migrations - Versioned SQL schema for the Supabase store
+ *
+ * Every file in sql/ named `NN_name.sql` is one migration, applied in
+ * version order. Applied migrations are recorded in
+ * public.schema_migrations with a checksum of the file, so a migration that
+ * was edited after it ran shows up as drift rather than being silently
+ * skipped.
+ *
+ * - runMigrations applies pending migrations over a direct Postgres
+ *   connection (DATABASE_URL); see `npm run migrate`
+ * - verifySchema runs at startup and refuses to serve a database whose
+ *   applied migrations don't match sql/
+ */
+
+import { createHash } from 'crypto';
+import { readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import { Client } from 'pg';
+import { getSupabase } from './supabase';
+import { getStore } from './amm-repository';
+import { SupabaseStore } from './supabase-store';
+
+/** Where the migration files live (the same relative path from src/ and dist/) */
+export const MIGRATIONS_DIR = path.resolve(__dirname, '../../sql');
+
+const MIGRATION_FILE = /^(\d+)_([a-z0-9_]+)\.sql$/;
+
+/** Held while migrating so two runners never apply the same migration */
+const MIGRATION_LOCK_ID = 7_240_311;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface Migration {
+    version: number;
+    name: string;
+    file: string;
+    sql: string;
+    checksum: string;
+}
+
+export interface AppliedMigration {
+    version: number;
+    name: string;
+    checksum: string;
+    applied_at: string;
+}
+
+export interface MigrationStatus {
+    /** Migrations in sql/ that have not been applied yet */
+    pending: Migration[];
+    /** Ways the applied migrations no longer match sql/ */
+    drift: string[];
+}
+
+export class SchemaDriftError extends Error {
+    constructor(public readonly problems: string[]) {
+        super(`Database schema does not match sql/:\n  - ${problems.join('\n  - ')}`);
+        this.name = 'SchemaDriftError';
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MIGRATION FILES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Read every migration in `dir`, ordered by version
+ */
+export function loadMigrations(dir: string = MIGRATIONS_DIR): Migration[] {
+    const migrations = readdirSync(dir)
+        .filter(file => file.endsWith('.sql'))
+        .map(file => {
+            const match = MIGRATION_FILE.exec(file);
+            if (!match) throw new Error(`Invalid migration file name: ${file} (expected NN_name.sql)`);
+
+            const sql = readFileSync(path.join(dir, file), 'utf8').replace(/\r\n/g, '\n');
+            return {
+                version: Number(match[1]),
+                name: match[2],
+                file,
+                sql,
+                checksum: createHash('sha256').update(sql).digest('hex')
+            };
+        })
+        .sort((a, b) => a.version - b.version);
+
+    migrations.forEach((migration, i) => {
+        if (i > 0 && migration.version === migrations[i - 1].version) {
+            throw new Error(`Duplicate migration version ${migration.version}: ${migrations[i - 1].file}, ${migration.file}`);
+        }
+    });
+
+    return migrations;
+}
+
+/**
+ * Compare the migrations in sql/ with the ones recorded as applied
+ */
+export function diffMigrations(migrations: Migration[], applied: AppliedMigration[]): MigrationStatus {
+    const files = new Map(migrations.map(m => [m.version, m]));
+    const appliedVersions = new Set(applied.map(a => a.version));
+    const drift: string[] = [];
+
+    for (const record of applied) {
+        const migration = files.get(record.version);
+        if (!migration) {
+            drift.push(`version ${record.version} (${record.name}) is applied but has no file in sql/`);
+        } else if (migration.checksum !== record.checksum) {
+            drift.push(`${migration.file} was changed after it was applied`);
+        }
+    }
+
+    const pending = migrations.filter(m => !appliedVersions.has(m.version));
+    const latestApplied = Math.max(-1, ...appliedVersions);
+    for (const migration of pending) {
+        if (migration.version < latestApplied) {
+            drift.push(`${migration.file} is older than the latest applied migration (${latestApplied}) but was never applied`);
+        }
+    }
+
+    return { pending, drift };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RUNNER
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Apply every pending migration, each in its own transaction
+ *
+ * `baseline` records migrations up to that version as applied without
+ * running them, for databases whose schema was created by hand before the
+ * runner existed. Throws SchemaDriftError (and applies nothing) when an
+ * applied migration no longer matches its file.
+ */
+export async function runMigrations(
+    databaseUrl: string,
+    options: { baseline?: number; dir?: string } = {}
+): Promise<Migration[]> {
+    const migrations = loadMigrations(options.dir);
+    const client = new Client({ connectionString: databaseUrl });
+    await client.connect();
+
+    try {
+        await client.query('select pg_advisory_lock($1)', [MIGRATION_LOCK_ID]);
+        await client.query(`
+            create table if not exists public.schema_migrations (
+                version integer not null primary key,
+                name text not null,
+                checksum text not null,
+                applied_at timestamp with time zone not null default now()
+            )
+        `);
+
+        const { rows: applied } = await client.query<AppliedMigration>(
+            'select version, name, checksum, applied_at from public.schema_migrations order by version'
+        );
+
+        // Migrations covered by the baseline count as applied
+        const baseline = options.baseline ?? -1;
+        const baselined = diffMigrations(migrations, applied).pending.filter(m => m.version <= baseline);
+        const { pending, drift } = diffMigrations(migrations, [
+            ...applied,
+            ...baselined.map(m => ({ version: m.version, name: m.name, checksum: m.checksum, applied_at: '' }))
+        ]);
+        if (drift.length > 0) throw new SchemaDriftError(drift);
+
+        for (const migration of baselined) {
+            await recordMigration(client, migration);
+            console.log(`[Migrations] Baselined ${migration.file}`);
+        }
+
+        for (const migration of pending) {
+            try {
+                await client.query('begin');
+                await client.query(migration.sql);
+                await recordMigration(client, migration);
+                await client.query('commit');
+            } catch (err) {
+                await client.query('rollback');
+                throw new Error(`Migration ${migration.file} failed: ${err instanceof Error ? err.message : err}`);
+            }
+            console.log(`[Migrations] Applied ${migration.file}`);
+        }
+
+        return pending;
+    } finally {
+        await client.end();
+    }
+}
+
+async function recordMigration(client: Client, migration: Migration): Promise<void> {
+    await client.query(
+        'insert into public.schema_migrations (version, name, checksum) values ($1, $2, $3)',
+        [migration.version, migration.name, migration.checksum]
+    );
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// STARTUP CHECK
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Throw a SchemaDriftError unless every migration in sql/ is applied, and
+ * unchanged, in the Supabase database (the memory store has no schema)
+ */
+export async function verifySchema(): Promise<void> {
+    if (!(getStore() instanceof SupabaseStore)) return;
+
+    const { data, error } = await getSupabase()
+        .from('schema_migrations')
+        .select('version, name, checksum, applied_at')
+        .order('version', { ascending: true });
+
+    if (error) {
+        throw new SchemaDriftError([`cannot read schema_migrations (${error.message}) - run npm run migrate`]);
+    }
+
+    const { pending, drift } = diffMigrations(loadMigrations(), data ?? []);
+    const problems = [
+        ...drift,
+        ...pending.map(m => `${m.file} is not applied - run npm run migrate`)
+    ];
+    if (problems.length > 0) throw new SchemaDriftError(problems);
+}
@@ -0,0 +1,699 @@
+/**
+ * Storage Contract - Row shapes and the stores behind the AMM repository
+ *
+ * Everything the backend persists goes through a MarketStore (markets,
+ * positions, LP positions, limit orders, trades), a SessionStore, a
+ * LedgerStore (every USDC movement between accounts), an IdempotencyStore
+ * (responses of retryable requests) and a ReconciliationStore (solvency
+ * reports). Two
+ * implementations exist: SupabaseStore (the hosted database) and
+ * MemoryStore (in-process, for offline development and tests). The
+ * repository (amm-repository.ts) picks one and delegates to it.
+ *
+ * Amounts are strings of USDC / share base units, as stored.
+ */
+
+import { Outcome, MarketType, PricingEngineType } from '../amm/types';
+import { FeeConfig } from '../amm/fees';
+import { RefundMode } from '../amm/refunds';
+import { TimeInForce, OrderSide, LimitOrderStatus } from '../amm/limit-orders';
+import { PriceEvidence } from '../amm/oracle-aggregator';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ROWS
+// ═══════════════════════════════════════════════════════════════════════════
+
+
+export interface MarketRow {
+    market_id: string;
+    title: string;
+    description: string | null;
+    category: string | null;
+    /** When trading opens (null: at creation); trading closes at expires_at */
+    opens_at: string | null;
+    expires_at: string;
+    yes_reserves: string;
+    no_reserves: string;
+    k_invariant: string;
+    market_type: MarketType | null;
+    outcomes: string[] | null;
+    outcome_reserves: string[] | null;
+    total_collateral: string | null;
+    /** Range bounds (scalar markets only) */
+    scalar_low: number | null;
+    scalar_high: number | null;
+    pricing_engine: PricingEngineType | null;
+    /** LMSR liquidity parameter b (LMSR markets only) */
+    liquidity_parameter: string | null;
+    /** LP shares outstanding over the pool's reserves */
+    lp_total_shares: string;
+    /** Session that funded the seed liquidity (null for markets created before LP accounting) */
+    creator_id: string | null;
+    /** Trade fee in basis points and how it is split (basis points of the fee) */
+    fee_bps: number;
+    lp_fee_share_bps: number;
+    creator_fee_share_bps: number;
+    protocol_fee_share_bps: number;
+    /** Fees collected so far (USDC base units) */
+    lp_fees_accrued: string;
+    creator_fees_accrued: string;
+    protocol_fees_accrued: string;
+    /** PROPOSED / DISPUTED: a resolution awaits its dispute window or an admin decision (trading halted) */
+    status: 'ACTIVE' | 'PROPOSED' | 'DISPUTED' | 'RESOLVED' | 'CANCELLED';
+    /** How holders are refunded if the market is cancelled */
+    refund_mode: RefundMode;
+    /** Seconds a proposed resolution can be disputed (0: resolutions are final immediately) */
+    dispute_window_seconds: number;
+    /** USDC a disputer posts (base units) */
+    dispute_bond: string;
+    /** Resolution proposed by the resolver, final once undisputed or decided */
+    proposed_value: string | null;
+    proposed_by: string | null;
+    proposed_at: string | null;
+    dispute_ends_at: string | null;
+    /** Session that disputed the proposal and posted the bond */
+    disputed_by: string | null;
+    disputed_at: string | null;
+    dispute_reason: string | null;
+    /** Winning outcome label ('YES' / 'NO' for binary markets), or the observed value for scalar markets */
+    resolution_value: string | null;
+    resolution_type: 'manual' | 'oracle' | null;
+    oracle_config: Record<string, unknown> | null;
+    /** Price an oracle market was resolved against, its sources, when it was published and observed */
+    oracle_price: number | null;
+    oracle_source: string | null;
+    oracle_published_at: string | null;
+    oracle_observed_at: string | null;
+    /** Every source's answer the price was aggregated from */
+    oracle_evidence: PriceEvidence | null;
+    resolver_address: string | null;
+    /** When and by whom the market was resolved or cancelled */
+    resolved_at: string | null;
+    resolved_by: string | null;
+    /** Bumped by every committed trade (optimistic concurrency, see commitMarketTrade) */
+    version: number;
+    created_at: string;
+}
+
+/** Market statuses whose positions have not been paid out yet */
+export const UNSETTLED_MARKET_STATUSES: MarketRow['status'][] = ['ACTIVE', 'PROPOSED', 'DISPUTED'];
+
+export interface SessionRow {
+    session_id: string;
+    user_address: string;
+    status: 'OPEN' | 'CLOSING' | 'CLOSED';
+    initial_collateral: string;
+    current_balance: string;
+    latest_signature: string;
+    nonce: number;
+    /** Session key the user signs trades with (Yellow sessions) */
+    session_key?: string | null;
+    /** RWA yield rate and safe mode of a Yellow session */
+    rwa_rate_bps?: number | null;
+    safe_mode_enabled?: boolean | null;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface PositionRow {
+    id: string;
+    user_id: string;
+    market_id: string;
+    /** Outcome label ('YES' / 'NO' for binary markets) */
+    outcome: string;
+    shares: string;
+    /** USDC paid for the shares held (see amm/cost-basis.ts) */
+    cost_basis: string;
+    /** cost_basis / shares, for display */
+    average_entry_price: number;
+    created_at: string;
+}
+
+export interface LiquidityPositionRow {
+    id: string;
+    user_id: string;
+    market_id: string;
+    lp_shares: string;
+    /** USDC paid for the LP shares held */
+    cost_basis: string;
+    created_at: string;
+}
+
+export interface LimitOrderRow {
+    id: string;
+    user_id: string;
+    market_id: string;
+    outcome: string;
+    side: OrderSide;
+    /** Bids: highest price (0-1) the order buys at. Asks: lowest it sells at */
+    limit_price: number;
+    /** Bids: USDC escrowed when the order was placed */
+    usdc_amount: string;
+    /** Bids: escrow not yet spent */
+    usdc_remaining: string;
+    /** Bids: shares bought so far */
+    shares_filled: string;
+    /** Asks: shares escrowed when the order was placed */
+    shares_amount: string;
+    /** Asks: shares not yet sold */
+    shares_remaining: string;
+    /** Asks: USDC received so far */
+    usdc_filled: string;
+    /** Asks: cost basis of the shares not yet sold, returned to the position on cancel / expiry */
+    cost_basis_remaining: string;
+    time_in_force: TimeInForce;
+    expires_at: string | null;
+    status: LimitOrderStatus;
+    created_at: string;
+    updated_at: string;
+}
+
+/** SPLIT / MERGE: complete sets minted from or redeemed for USDC, one row per outcome */
+export type TradeType = 'BUY' | 'SELL' | 'CLAIM' | 'SPLIT' | 'MERGE' | 'REFUND';
+
+export interface TradeRow {
+    id: string;
+    session_id: string;
+    user_address: string;
+    market_id: string;
+    trade_type: TradeType;
+    outcome: string;
+    shares: string;
+    price: number;
+    cost_basis: string;
+    realized_pnl: string;
+    /** Trade fee paid (USDC base units) */
+    fee: string;
+    market_title: string | null;
+    created_at: string;
+}
+
+/**
+ * Ledger accounts (USDC base units; TREASURY and EXTERNAL are single, the
+ * rest are per session / market)
+ * - SESSION: a session's spendable balance
+ * - SESSION_ESCROW: a Yellow session's collateral in the SessionEscrow
+ *   contract, which its bets draw on directly rather than its balance
+ * - MARKET: collateral backing a market's pool and outcome shares, LP
+ *   deposits and the LP share of fees (minted into the pool) included
+ * - ESCROW: USDC locked in a market's open limit bids
+ * - CREATOR_FEES: the creator's share of a market's fees, paid at resolution
+ * - DISPUTE_BONDS: bonds posted against a market's proposed resolution,
+ *   returned or slashed by the dispute decision
+ * - TREASURY: the protocol's share of fees
+ * - EXTERNAL: USDC entering or leaving the books (escrow deposits, manual
+ *   adjustments)
+ */
+export type LedgerAccountType =
+    | 'SESSION'
+    | 'SESSION_ESCROW'
+    | 'MARKET'
+    | 'ESCROW'
+    | 'CREATOR_FEES'
+    | 'DISPUTE_BONDS'
+    | 'TREASURY'
+    | 'EXTERNAL';
+
+export type LedgerEntryType =
+    | 'OPENING_BALANCE'
+    | 'DEPOSIT'
+    | 'ADJUSTMENT'
+    | 'MARKET_CREATE'
+    | 'BET'
+    | 'SELL'
+    | 'ADD_LIQUIDITY'
+    | 'REMOVE_LIQUIDITY'
+    | 'SPLIT'
+    | 'MERGE'
+    | 'LIMIT_ORDER'
+    | 'ORDER_FILL'
+    | 'ORDER_CLOSE'
+    | 'PAYOUT'
+    | 'CLAIM'
+    | 'LP_PAYOUT'
+    | 'CREATOR_PAYOUT'
+    | 'REFUND'
+    | 'DISPUTE_BOND'
+    | 'BOND_RETURN'
+    | 'BOND_SLASH';
+
+/** One leg of a journal entry: a positive amount increases the account */
+export interface LedgerLine {
+    account_type: LedgerAccountType;
+    /** Session or market id ('' for TREASURY and EXTERNAL) */
+    account_id: string;
+    amount: string;
+}
+
+export interface LedgerEntryRow {
+    id: number;
+    entry_type: LedgerEntryType;
+    market_id: string | null;
+    memo: string | null;
+    created_at: string;
+    lines: LedgerLine[];
+}
+
+/** One line of an account's history, with the entry it belongs to */
+export interface AccountLedgerRow {
+    entry_id: number;
+    entry_type: LedgerEntryType;
+    market_id: string | null;
+    memo: string | null;
+    amount: string;
+    created_at: string;
+}
+
+/**
+ * A state-changing request made with an idempotency key (see idempotency.ts):
+ * PENDING while it runs, then COMPLETED with the response it returned
+ */
+export interface IdempotencyKeyRow {
+    /** Endpoint and client key, e.g. `POST /api/amm/bet:<key>` */
+    key: string;
+    /** SHA-256 of the request body, so a key can't be reused for a different request */
+    request_hash: string;
+    status: 'PENDING' | 'COMPLETED';
+    response_status: number | null;
+    response_body: unknown;
+    created_at: string;
+    completed_at: string | null;
+}
+
+/**
+ * What a reconciliation run found wrong (see amm/reconciliation.ts)
+ * - MARKET_UNDERCOLLATERALIZED: a market holds less USDC than it would pay
+ *   out if its most-held outcome won
+ * - SESSION_LEDGER_MISMATCH: a session's balance differs from its ledger replay
+ * - SESSION_FUNDS_MISMATCH: a session's balance plus locked cost basis differs
+ *   from what was deposited plus the PnL it realized
+ */
+export type ReconciliationDiscrepancyKind =
+    | 'MARKET_UNDERCOLLATERALIZED'
+    | 'SESSION_LEDGER_MISMATCH'
+    | 'SESSION_FUNDS_MISMATCH';
+
+/** Totals over every market and session checked (USDC / share base units) */
+export interface ReconciliationTotals {
+    collateral: string;
+    worstCasePayout: string;
+    sessionBalances: string;
+    lockedCostBasis: string;
+    deposits: string;
+    realizedPnl: string;
+}
+
+export interface ReconciliationRunRow {
+    id: number;
+    started_at: string;
+    finished_at: string;
+    markets_checked: number;
+    sessions_checked: number;
+    discrepancy_count: number;
+    totals: ReconciliationTotals;
+}
+
+export interface ReconciliationDiscrepancyRow {
+    id: number;
+    run_id: number;
+    kind: ReconciliationDiscrepancyKind;
+    /** Market or session id */
+    subject_id: string;
+    /** What the books say it should be, and what it is */
+    expected: string;
+    actual: string;
+    details: Record<string, string> | null;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// INPUTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface CreateMarketInput {
+    marketId: string;
+    title: string;
+    description?: string;
+    category?: string;
+    opensAt?: Date;
+    expiresAt: Date;
+    yesReserves: bigint;
+    noReserves: bigint;
+    kInvariant: bigint;
+    marketType?: MarketType;
+    outcomes?: string[];
+    outcomeReserves?: bigint[];
+    totalCollateral?: bigint;
+    scalarLow?: number;
+    scalarHigh?: number;
+    pricingEngine?: PricingEngineType;
+    liquidityParameter?: bigint;
+    lpTotalShares: bigint;
+    creatorId?: string;
+    feeConfig?: FeeConfig;
+    resolutionType?: 'manual' | 'oracle';
+    oracleConfig?: Record<string, unknown>;
+    resolverAddress?: string;
+    refundMode?: RefundMode;
+    disputeWindowSeconds?: number;
+    disputeBond?: bigint;
+    /** The creator's seed liquidity, written in the same transaction as the market */
+    funding?: MarketFunding;
+}
+
+/**
+ * Seed liquidity of a new market: the creator's deposit and the LP shares
+ * and trade record it buys
+ */
+export interface MarketFunding {
+    /** A session balance that would go negative fails the market's creation */
+    entry: LedgerEntryInput;
+    liquidityPositions: Pick<LiquidityPositionRow, 'user_id' | 'lp_shares' | 'cost_basis'>[];
+    trades: Omit<TradeRow, 'id' | 'market_id' | 'created_at'>[];
+}
+
+/** A price observed by the oracle an oracle market resolves against */
+export interface OracleObservationInput {
+    price: number;
+    /** Sources the price came from, e.g. 'coingecko+coinbase' */
+    source: string;
+    /** When the price was published (at or before the market's expiry) */
+    publishedAt: Date;
+    observedAt: Date;
+    evidence: PriceEvidence;
+}
+
+/** A new limit order, staged on a market transaction */
+export interface InsertLimitOrderInput {
+    userId: string;
+    outcome: string;
+    side: OrderSide;
+    limitPrice: number;
+    /** Bids: USDC to escrow. Asks: shares to escrow */
+    amount: bigint;
+    /** Asks: cost basis of the escrowed shares */
+    costBasis?: bigint;
+    timeInForce: TimeInForce;
+    expiresAt?: Date;
+}
+
+export interface InsertTradeInput {
+    sessionId: string;
+    userAddress: string;
+    marketId: string;
+    tradeType: TradeType;
+    outcome: Outcome | string;
+    shares: bigint;
+    price: number;
+    costBasis: bigint;
+    realizedPnl: bigint;
+    fee?: bigint;
+    marketTitle?: string;
+}
+
+/** A balanced journal entry to post (its lines sum to zero) */
+export interface LedgerEntryInput {
+    entryType: LedgerEntryType;
+    marketId?: string;
+    memo?: string;
+    lines: LedgerLine[];
+}
+
+/** A finished reconciliation run and what it found, recorded together */
+export interface ReconciliationInput {
+    startedAt: string;
+    finishedAt: string;
+    marketsChecked: number;
+    sessionsChecked: number;
+    totals: ReconciliationTotals;
+    discrepancies: Omit<ReconciliationDiscrepancyRow, 'id' | 'run_id'>[];
+}
+
+/**
+ * Every write of one trade on a market, committed atomically by
+ * MarketStore.commitMarketTrade
+ */
+export interface MarketCommit {
+    marketId: string;
+    /** Version the trade was computed from; the commit fails if the market moved on */
+    expectedVersion: number;
+    /** Market columns to set (reserves, k, collateral, LP shares) */
+    market: Partial<Pick<
+        MarketRow,
+        'yes_reserves' | 'no_reserves' | 'outcome_reserves' | 'k_invariant' | 'total_collateral' | 'lp_total_shares' | 'liquidity_parameter'
+    >>;
+    /** Fee accruals to add */
+    fees: { lp: string; creator: string; protocol: string };
+    /** The trade's USDC movements; a session balance that would go negative fails the commit */
+    entry: LedgerEntryInput | null;
+    positions: Pick<PositionRow, 'user_id' | 'outcome' | 'shares' | 'cost_basis' | 'average_entry_price'>[];
+    liquidityPositions: Pick<LiquidityPositionRow, 'user_id' | 'lp_shares' | 'cost_basis'>[];
+    /** Limit order rows to insert or update */
+    limitOrders: LimitOrderRow[];
+    trades: Omit<TradeRow, 'id' | 'market_id' | 'created_at'>[];
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// STORES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface SessionStore {
+    createSession(
+        sessionId: string,
+        userAddress: string,
+        initialCollateral: bigint,
+        signature: string
+    ): Promise<SessionRow>;
+
+    getSession(sessionId: string): Promise<SessionRow | null>;
+
+    getSessionByUser(userAddress: string): Promise<SessionRow | null>;
+
+    /**
+     * Every session, newest first
+     */
+    listSessions(): Promise<SessionRow[]>;
+
+    /**
+     * Get the user_address for a given session
+     */
+    getSessionUserAddress(sessionId: string): Promise<string | null>;
+
+    /**
+     * Ensure a session exists in the database (auto-create if not)
+     * This allows using on-chain sessionIds without explicit session registration
+     * The positions table has FK to sessions.session_id, so we need sessions not users
+     */
+    ensureSessionExists(sessionId: string, userAddress?: string): Promise<void>;
+
+    /**
+     * Store the latest signed state of a session (balances only change
+     * through the ledger)
+     */
+    updateSessionSignature(sessionId: string, newSignature: string, newNonce: number): Promise<void>;
+
+    updateSessionKey(sessionId: string, sessionKeyAddress: string): Promise<void>;
+
+    upsertSession(
+        sessionId: string,
+        userAddress: string,
+        collateral: bigint,
+        rateBps: number,
+        safeMode: boolean
+    ): Promise<void>;
+
+    /**
+     * Mark a session CLOSED
+     */
+    closeSession(sessionId: string): Promise<void>;
+}
+
+export interface MarketStore {
+    // ─── Markets ───────────────────────────────────────────────────────────
+
+    /** Inserts the market and writes its funding, if any, atomically */
+    createMarket(input: CreateMarketInput): Promise<MarketRow>;
+
+    /** null when the market doesn't exist */
+    getMarket(marketId: string): Promise<MarketRow | null>;
+
+    /** ACTIVE markets, newest first */
+    getActiveMarkets(): Promise<MarketRow[]>;
+
+    /** Every market, newest first */
+    getAllMarkets(): Promise<MarketRow[]>;
+
+    /** Markets a resolver address may resolve (matched case-insensitively), newest first */
+    getMarketsByResolver(resolverAddress: string): Promise<MarketRow[]>;
+
+    /**
+     * Get markets that are expired and pending resolution
+     */
+    getMarketsToResolve(): Promise<MarketRow[]>;
+
+    /**
+     * Get oracle markets that are expired
+     */
+    getOracleMarketsToResolve(): Promise<MarketRow[]>;
+
+    /**
+     * Commit a trade's writes in one transaction
+     * @returns false (and nothing written) when another trade committed on the
+     *          market since expectedVersion was read
+     */
+    commitMarketTrade(commit: MarketCommit): Promise<boolean>;
+
+    /**
+     * Mark an expired market RESOLVED with its winning outcome (or observed
+     * value), bumping its version so in-flight trades fail to commit
+     */
+    resolveMarket(marketId: string, winner: Outcome | string, resolvedBy?: string): Promise<void>;
+
+    /**
+     * Mark an expired ACTIVE market PROPOSED with the resolution its
+     * resolver proposes, open to disputes until disputeEndsAt, bumping its
+     * version so in-flight trades fail to commit
+     */
+    proposeResolution(marketId: string, proposal: string, proposedBy: string | undefined, disputeEndsAt: Date): Promise<MarketRow>;
+
+    /**
+     * Mark a PROPOSED market DISPUTED, if its dispute window is still open
+     */
+    disputeResolution(marketId: string, disputedBy: string, reason?: string): Promise<MarketRow>;
+
+    /**
+     * Mark a PROPOSED market whose dispute window has closed, or a DISPUTED
+     * one, RESOLVED with its final resolution
+     */
+    finalizeResolution(marketId: string, from: 'PROPOSED' | 'DISPUTED', winner: string, resolvedBy: string): Promise<MarketRow>;
+
+    /**
+     * Record the price an oracle market was resolved against
+     */
+    recordOracleObservation(marketId: string, observation: OracleObservationInput): Promise<void>;
+
+    /**
+     * Mark an ACTIVE market CANCELLED with the refund mode its holders are
+     * refunded by, bumping its version so in-flight trades fail to commit
+     */
+    cancelMarket(marketId: string, refundMode: RefundMode, cancelledBy?: string): Promise<MarketRow>;
+
+    // ─── Positions ─────────────────────────────────────────────────────────
+
+    getPosition(userId: string, marketId: string, outcome: Outcome | string): Promise<PositionRow | null>;
+
+    getUserPositions(userId: string): Promise<PositionRow[]>;
+
+    /**
+     * Get every outcome position a user holds in one market
+     */
+    getUserMarketPositions(userId: string, marketId: string): Promise<PositionRow[]>;
+
+    getMarketPositions(marketId: string): Promise<PositionRow[]>;
+
+    /**
+     * Get positions only from unsettled markets (ACTIVE, or awaiting a
+     * disputed / proposed resolution; not resolved/cancelled)
+     * Used for calculating locked balance — resolved positions shouldn't count as locked
+     */
+    getUserActivePositions(userId: string): Promise<(PositionRow & { market_status: string })[]>;
+
+    /** Insert or overwrite a user's position in one outcome */
+    upsertPosition(
+        userId: string,
+        marketId: string,
+        outcome: Outcome | string,
+        shares: bigint,
+        costBasis: bigint
+    ): Promise<PositionRow>;
+
+    // ─── Liquidity positions ───────────────────────────────────────────────
+
+    getLiquidityPosition(userId: string, marketId: string): Promise<LiquidityPositionRow | null>;
+
+    getUserLiquidityPositions(userId: string): Promise<LiquidityPositionRow[]>;
+
+    getMarketLiquidityPositions(marketId: string): Promise<LiquidityPositionRow[]>;
+
+    /** Insert or overwrite a user's LP position in a market */
+    upsertLiquidityPosition(
+        userId: string,
+        marketId: string,
+        lpShares: bigint,
+        costBasis: bigint
+    ): Promise<LiquidityPositionRow>;
+
+    // ─── Limit orders ──────────────────────────────────────────────────────
+
+    getLimitOrder(orderId: string): Promise<LimitOrderRow | null>;
+
+    /**
+     * Open orders on a market, best (highest) limit first, oldest first at the same limit
+     * @param side Only bids or only asks (both when omitted)
+     */
+    getOpenLimitOrders(marketId: string, side?: OrderSide): Promise<LimitOrderRow[]>;
+
+    /**
+     * One side of an outcome's order book in price-time priority: bids highest
+     * first, asks lowest first, oldest first at the same price
+     */
+    getBookOrders(marketId: string, outcome: string, side: OrderSide): Promise<LimitOrderRow[]>;
+
+    /** A user's limit orders, newest first */
+    getUserLimitOrders(userId: string, status?: LimitOrderStatus): Promise<LimitOrderRow[]>;
+
+    // ─── Trades ────────────────────────────────────────────────────────────
+
+    insertTrade(input: InsertTradeInput): Promise<TradeRow>;
+
+    /** A wallet's latest 100 trades (address matched case-insensitively), newest first */
+    getTradesByUser(userAddress: string): Promise<TradeRow[]>;
+
+    getTradesBySession(sessionId: string): Promise<TradeRow[]>;
+
+    getTradesByMarketAndUser(marketId: string, userAddress: string): Promise<TradeRow[]>;
+}
+
+export interface LedgerStore {
+    /**
+     * Append a journal entry, applying its SESSION lines to the session
+     * balances (and nonces) in the same transaction. Fails, writing nothing,
+     * if the entry doesn't balance or a session is missing or would go negative.
+     */
+    postLedgerEntry(entry: LedgerEntryInput): Promise<LedgerEntryRow>;
+
+    /**
+     * Every line posted to an account, oldest first
+     */
+    getAccountLedger(accountType: LedgerAccountType, accountId: string): Promise<AccountLedgerRow[]>;
+}
+
+export interface IdempotencyStore {
+    /**
+     * Claim a key for a request about to run. Returns null when the caller
+     * now holds the key, otherwise the existing record (still PENDING, or
+     * COMPLETED with the response to replay). A PENDING claim older than
+     * `pendingTimeoutMs` for the same request is taken over, so a request
+     * that died mid-flight can be retried.
+     */
+    claimIdempotencyKey(key: string, requestHash: string, pendingTimeoutMs: number): Promise<IdempotencyKeyRow | null>;
+
+    /** Store the response of a claimed request for replays */
+    completeIdempotencyKey(key: string, responseStatus: number, responseBody: unknown): Promise<void>;
+
+    /** Drop a PENDING claim whose request failed without changing anything */
+    releaseIdempotencyKey(key: string): Promise<void>;
+}
+
+export interface ReconciliationStore {
+    /** Record a run with its discrepancies (all or nothing) */
+    recordReconciliation(input: ReconciliationInput): Promise<ReconciliationRunRow>;
+
+    /** The most recent run and its discrepancies (null before the first run) */
+    getLatestReconciliation(): Promise<{
+        run: ReconciliationRunRow;
+        discrepancies: ReconciliationDiscrepancyRow[];
+    } | null>;
+}
+
+/** A complete storage backend */
+export type Store = MarketStore & SessionStore & LedgerStore & IdempotencyStore & ReconciliationStore;
@@ -0,0 +1,1082 @@
+/**
+ * Supabase Store - Every store of store.ts on the hosted Postgres database
+ *
+ * Needs every migration in sql/ applied with `npm run migrate`
+ * (commitMarketTrade, postLedgerEntry, claimIdempotencyKey and
+ * recordReconciliation call database functions from sql/); the server refuses to start otherwise.
+ */
+
+import { getSupabase } from './supabase';
+import { Outcome } from '../amm/types';
+import { OrderSide, LimitOrderStatus } from '../amm/limit-orders';
+import { averageEntryPrice } from '../amm/cost-basis';
+import { RefundMode, DEFAULT_REFUND_MODE } from '../amm/refunds';
+import {
+    Store,
+    MarketRow,
+    SessionRow,
+    PositionRow,
+    LiquidityPositionRow,
+    LimitOrderRow,
+    TradeRow,
+    CreateMarketInput,
+    InsertTradeInput,
+    OracleObservationInput,
+    MarketCommit,
+    LedgerAccountType,
+    LedgerEntryInput,
+    LedgerEntryRow,
+    AccountLedgerRow,
+    IdempotencyKeyRow,
+    ReconciliationInput,
+    ReconciliationRunRow,
+    ReconciliationDiscrepancyRow,
+    UNSETTLED_MARKET_STATUSES
+} from './store';
+import { EXTERNAL_ACCOUNT, sessionAccount, transferEntry, validateLedgerEntry } from './ledger';
+
+/** Rows per request when paging through an account's ledger */
+const LEDGER_PAGE_SIZE = 1000;
+
+/** A position joined with its market's status (`markets!inner(status)`) */
+type PositionWithMarketRow = PositionRow & { markets: { status: string } | null };
+
+export class SupabaseStore implements Store {
+
+    // ─── Sessions ──────────────────────────────────────────────────────────
+
+    async createSession(
+        sessionId: string,
+        userAddress: string,
+        initialCollateral: bigint,
+        signature: string
+    ): Promise<SessionRow> {
+        const supabase = getSupabase();
+
+        const { data, error } = await supabase
+            .from('sessions')
+            .insert({
+                session_id: sessionId,
+                user_address: userAddress,
+                initial_collateral: initialCollateral.toString(),
+                current_balance: '0',
+                latest_signature: signature,
+                nonce: 0
+            })
+            .select()
+            .single();
+
+        if (error) throw new Error(`Failed to create session: ${error.message}`);
+        if (initialCollateral === 0n) return data;
+
+        await this.postLedgerEntry(transferEntry('DEPOSIT', EXTERNAL_ACCOUNT, sessionAccount(sessionId), initialCollateral));
+        return (await this.getSession(sessionId))!;
+    }
+
+    async getSession(sessionId: string): Promise<SessionRow | null> {
+        const supabase = getSupabase();
+
+        const { data, error } = await supabase
+            .from('sessions')
+            .select('*')
+            .eq('session_id', sessionId)
+            .single();
+
+        if (error?.code === 'PGRST116') return null;
+        if (error) throw new Error(`Failed to get session: ${error.message}`);
+        return data;
+    }
+
+    async getSessionByUser(userAddress: string): Promise<SessionRow | null> {
+        const supabase = getSupabase();
+
+        const { data, error } = await supabase
+            .from('sessions')
+            .select('*')
+            .eq('user_address', userAddress)
+            .eq('status', 'OPEN')
+            .order('created_at', { ascending: false })
+            .limit(1)
+            .single();
+
+        if (error?.code === 'PGRST116') return null;
+        if (error) throw new Error(`Failed to get user session: ${error.message}`);
+        return data;
+    }
+
+    async listSessions(): Promise<SessionRow[]> {
+        const supabase = getSupabase();
+
+        const { data, error } = await supabase
+            .from('sessions')
+            .select('*')
+            .order('created_at', { ascending: false });
+
+        if (error) throw new Error(`Failed to get sessions: ${error.message}`);
+        return data ?? [];
+    }
+
+    async getSessionUserAddress(sessionId: string): Promise<string | null> {
+        const supabase = getSupabase();
+
+        const { data, error } = await supabase
+            .from('sessions')
+            .select('user_address')
+            .eq('session_id', sessionId)
+            .single();
+
+        if (error?.code === 'PGRST116') return null;
+        if (error) return null;
+        return data?.user_address ?? null;
+    }
+
+    async ensureSessionExists(sessionId: string, userAddress?: string): Promise<void> {
+        const supabase = getSupabase();
+
+        // Check if session already exists
+        const { data: existing } = await supabase
+            .from('sessions')
+            .select('session_id')
+            .eq('session_id', sessionId)
+            .single();
+
+        if (existing) return; // Session exists
+
+        // Auto-create session for betting - require userAddress to avoid storing invalid data
+        if (!userAddress) {
+            console.warn(`[AMM] Cannot auto-create session ${sessionId}: userAddress is required`);
+            return; // Skip auto-creation without proper userAddress
+        }
+
+        const { error } = await supabase
+            .from('sessions')
+            .insert({
+                session_id: sessionId,
+                user_address: userAddress,
+                status: 'OPEN',
+                initial_collateral: '0',
+                current_balance: '0',
+                latest_signature: 'auto-created',
+                nonce: 0
+            });
+
+        if (error && !error.message.includes('duplicate')) {
+            console.warn(`Warning: Could not ensure session exists: ${error.message}`);
+        } else {
+            console.log(`[AMM] Auto-created session: ${sessionId}`);
+        }
+    }
+
+    async updateSessionSignature(
+        sessionId: string,
+        newSignature: string,
+        newNonce: number
+    ): Promise<void> {
+        const supabase = getSupabase();
+
+        const { error } = await supabase
+            .from('sessions')
+            .update({
+                latest_signature: newSignature,
+                nonce: newNonce
+            })
+            .eq('session_id', sessionId);
+
+        if (error) throw new Error(`Failed to update session: ${error.message}`);
+    }
+
+    async updateSessionKey(
+        sessionId: string,
+        sessionKeyAddress: string
+    ): Promise<void> {
+        const supabase = getSupabase();
+
+        const { error } = await supabase
+            .from('sessions')
+            .update({
+                session_key: sessionKeyAddress
+            })
+            .eq('session_id', sessionId);
+
+        if (error) throw new Error(`Failed to update session key: ${error.message}`);
+    }
+
+    async upsertSession(
+        sessionId: string,
+        userAddress: string,
+        collateral: bigint,
+        rateBps: number,
+        safeMode: boolean
+    ): Promise<void> {
+        const supabase = getSupabase();
+
+        const { error } = await supabase
+            .from('sessions')
+            .upsert({
+                session_id: sessionId,
+                user_address: userAddress,
+                initial_collateral: collateral.toString(),
+                rwa_rate_bps: rateBps,
+                safe_mode_enabled: safeMode,
+                status: 'OPEN',
+                latest_signature: 'init',
+                nonce: 0
+            }, {
+                onConflict: 'session_id'
+            });
+
+        if (error) throw new Error(`Failed to upsert session: ${error.message}`);
+
+        // The balance starts over at the collateral
+        const session = await this.getSession(sessionId);
+        const change = collateral - BigInt(session?.current_balance ?? '0');
+        if (change !== 0n) {
+            await this.postLedgerEntry(transferEntry(
+                change > 0n ? 'DEPOSIT' : 'ADJUSTMENT', EXTERNAL_ACCOUNT, sessionAccount(sessionId), change
+            ));
+        }
+    }
+
+    async closeSession(sessionId: string): Promise<void> {
+        const supabase = getSupabase();
+
+        const { error } = await supabase
+            .from('sessions')
+            .update({ status: 'CLOSED' })
+            .eq('session_id', sessionId);
+
+        if (error) throw new Error(`Failed to close session: ${error.message}`);
+    }
+
+    // ─── Markets ───────────────────────────────────────────────────────────
+
+    async createMarket(input: CreateMarketInput): Promise<MarketRow> {
+        const supabase = getSupabase();
+
+        const market = {
+            market_id: input.marketId,
+            title: input.title,
+            description: input.description ?? null,
+            category: input.category ?? 'general',
+            opens_at: input.opensAt?.toISOString() ?? null,
+            expires_at: input.expiresAt.toISOString(),
+            yes_reserves: input.yesReserves.toString(),
+            no_reserves: input.noReserves.toString(),
+            k_invariant: input.kInvariant.toString(),
+            market_type: input.marketType ?? 'BINARY',
+            outcomes: input.outcomes ?? ['YES', 'NO'],
+            outcome_reserves: input.outcomeReserves?.map(r => r.toString()) ?? null,
+            total_collateral: input.totalCollateral?.toString() ?? null,
+            scalar_low: input.scalarLow ?? null,
+            scalar_high: input.scalarHigh ?? null,
+            pricing_engine: input.pricingEngine ?? 'CPMM',
+            liquidity_parameter: input.liquidityParameter?.toString() ?? null,
+            lp_total_shares: input.lpTotalShares.toString(),
+            creator_id: input.creatorId ?? null,
+            ...(input.feeConfig && {
+                fee_bps: input.feeConfig.feeBps,
+                lp_fee_share_bps: input.feeConfig.lpShareBps,
+                creator_fee_share_bps: input.feeConfig.creatorShareBps,
+                protocol_fee_share_bps: input.feeConfig.protocolShareBps
+            }),
+            status: 'ACTIVE',
+            resolution_type: input.resolutionType ?? 'manual',
+            oracle_config: input.oracleConfig ?? null,
+            resolver_address: input.resolverAddress ?? null,
+            refund_mode: input.refundMode ?? DEFAULT_REFUND_MODE,
+            dispute_window_seconds: input.disputeWindowSeconds ?? 0,
+            dispute_bond: (input.disputeBond ?? 0n).toString()
+        };
+
+        // A funded market is inserted with its deposit, LP position and trade in one transaction
+        const { data, error } = input.funding
+            ? await supabase.rpc('create_market', {
+                p_market: market,
+                p_entry: toLedgerEntryJson(input.funding.entry),
+                p_liquidity_positions: input.funding.liquidityPositions,
+                p_trades: input.funding.trades
+            }).single()
+            : await supabase.from('markets').insert(market).select().single();
+
+        if (error) throw new Error(`Failed to create market: ${error.message}`);
+        return data as MarketRow;
+    }
+
+    async getMarket(marketId: string): Promise<MarketRow | null> {
+        const supabase = getSupabase();
+
+        const { data, error } = await supabase
+            .from('markets')
+            .select('*')
+            .eq('market_id', marketId)
+            .single();
+
+        if (error?.code === 'PGRST116') return null; // Not found
+        if (error) throw new Error(`Failed to get market: ${error.message}`);
+        return data;
+    }
+
+    async getActiveMarkets(): Promise<MarketRow[]> {
+        const supabase = getSupabase();
+
+        const { data, error } = await supabase
+            .from('markets')
+            .select('*')
+            .eq('status', 'ACTIVE')
+            .order('created_at', { ascending: false });
+
+        if (error) throw new Error(`Failed to get active markets: ${error.message}`);
+        return data ?? [];
+    }
+
+    async getAllMarkets(): Promise<MarketRow[]> {
+        const supabase = getSupabase();
+
+        const { data, error } = await supabase
+            .from('markets')
+            .select('*')
+            .order('created_at', { ascending: false });
+
+        if (error) throw new Error(`Failed to get markets: ${error.message}`);
+        return data ?? [];
+    }
+
+    async getMarketsByResolver(resolverAddress: string): Promise<MarketRow[]> {
+        const supabase = getSupabase();
+
+        const { data, error } = await supabase
+            .from('markets')
+            .select('*')
+            .ilike('resolver_address', resolverAddress)
+            .order('created_at', { ascending: false });
+
+        if (error) throw new Error(`Failed to get markets by resolver: ${error.message}`);
+        return data ?? [];
+    }
+
+    async getMarketsToResolve(): Promise<MarketRow[]> {
+        const supabase = getSupabase();
+
+        const { data, error } = await supabase
+            .from('markets')
+            .select('*')
+            .eq('status', 'ACTIVE')
+            .lt('expires_at', new Date().toISOString())
+            .order('expires_at', { ascending: true });
+
+        if (error) throw new Error(`Failed to get markets to resolve: ${error.message}`);
+        return data ?? [];
+    }
+
+    async getOracleMarketsToResolve(): Promise<MarketRow[]> {
+        const supabase = getSupabase();
+
+        const { data, error } = await supabase
+            .from('markets')
+            .select('*')
+            .eq('status', 'ACTIVE')
+            .eq('resolution_type', 'oracle')
+            .lt('expires_at', new Date().toISOString())
+            .order('expires_at', { ascending: true });
+
+        if (error) throw new Error(`Failed to get oracle markets to resolve: ${error.message}`);
+        return data ?? [];
+    }
+
+    async commitMarketTrade(commit: MarketCommit): Promise<boolean> {
+        const supabase = getSupabase();
+
+        const { data, error } = await supabase.rpc('commit_market_trade', {
+            p_market_id: commit.marketId,
+            p_expected_version: commit.expectedVersion,
+            p_market: commit.market,
+            p_fees: commit.fees,
+            p_entry: commit.entry ? toLedgerEntryJson(commit.entry) : null,
+            p_positions: commit.positions,
+            p_liquidity_positions: commit.liquidityPositions,
+            p_limit_orders: commit.limitOrders,
+            p_trades: commit.trades
+        });
+
+        if (error) throw new Error(`Failed to commit trade: ${error.message}`);
+        return data === true;
+    }
+
+    async resolveMarket(
+        marketId: string,
+        winner: Outcome | string,
+        resolvedBy?: string
+    ): Promise<void> {
+        const supabase = getSupabase();
+
+        // First, fetch the market to check expiry
+        const { data: market, error: fetchError } = await supabase
+            .from('markets')
+            .select('expires_at, status, resolver_address, version')
+            .eq('market_id', marketId)
+            .single();
+
+        if (fetchError || !market) {
+            throw new Error(`Market not found: ${marketId}`);
+        }
+
+        // Check if market is already resolved
+        if (market.status === 'RESOLVED') {
+            throw new Error('Market is already resolved');
+        }
+
+        // Check if market has expired (resolver can only resolve AFTER expiry)
+        const expiresAt = new Date(market.expires_at);
+        const now = new Date();
+        if (now < expiresAt) {
+            throw new Error(`Market cannot be resolved until after expiry: ${expiresAt.toISOString()}`);
+        }
+
+        // Optionally validate resolver address (if set)
+        if (market.resolver_address && resolvedBy && 
+            market.resolver_address.toLowerCase() !== resolvedBy.toLowerCase()) {
+            throw new Error(`Unauthorized resolver. Only ${market.resolver_address} can resolve this market.`);
+        }
+
+        // Bump the version so trades computed against the open market fail to commit
+        const { data: updated, error } = await supabase
+            .from('markets')
+            .update({
+                status: 'RESOLVED',
+                resolution_value: winner,
+                resolved_at: new Date().toISOString(),
+                resolved_by: resolvedBy ?? 'system',
+                version: market.version + 1
+            })
+            .eq('market_id', marketId)
+            .eq('version', market.version)
+            .select('market_id');
+
+        if (error) throw new Error(`Failed to resolve market: ${error.message}`);
+        if (!updated || updated.length === 0) {
+            throw new Error(`Market ${marketId} changed during resolution, try again`);
+        }
+    }
+
+    async proposeResolution(marketId: string, proposal: string, proposedBy: string | undefined, disputeEndsAt: Date): Promise<MarketRow> {
+        const supabase = getSupabase();
+
+        const { data: market, error: fetchError } = await supabase
+            .from('markets')
+            .select('expires_at, status, resolver_address, version')
+            .eq('market_id', marketId)
+            .single();
+
+        if (fetchError || !market) {
+            throw new Error(`Market not found: ${marketId}`);
+        }
+        if (market.status !== 'ACTIVE') {
+            throw new Error(`Market is already ${String(market.status).toLowerCase()}`);
+        }
+
+        const expiresAt = new Date(market.expires_at);
+        if (new Date() < expiresAt) {
+            throw new Error(`Market cannot be resolved until after expiry: ${expiresAt.toISOString()}`);
+        }
+
+        if (market.resolver_address && proposedBy &&
+            market.resolver_address.toLowerCase() !== proposedBy.toLowerCase()) {
+            throw new Error(`Unauthorized resolver. Only ${market.resolver_address} can resolve this market.`);
+        }
+
+        // Bump the version so trades computed against the open market fail to commit
+        const { data: updated, error } = await supabase
+            .from('markets')
+            .update({
+                status: 'PROPOSED',
+                proposed_value: proposal,
+                proposed_by: proposedBy ?? 'system',
+                proposed_at: new Date().toISOString(),
+                dispute_ends_at: disputeEndsAt.toISOString(),
+                version: market.version + 1
+            })
+            .eq('market_id', marketId)
+            .eq('version', market.version)
+            .select();
+
+        if (error) throw new Error(`Failed to propose resolution: ${error.message}`);
+        if (!updated || updated.length === 0) {
+            throw new Error(`Market ${marketId} changed during resolution, try again`);
+        }
+        return updated[0];
+    }
+
+    async disputeResolution(marketId: string, disputedBy: string, reason?: string): Promise<MarketRow> {
+        const supabase = getSupabase();
+        const now = new Date().toISOString();
+
+        // Conditional on the window so a dispute and a finalization can't both win
+        const { data: updated, error } = await supabase
+            .from('markets')
+            .update({
+                status: 'DISPUTED',
+                disputed_by: disputedBy,
+                disputed_at: now,
+                dispute_reason: reason ?? null
+            })
+            .eq('market_id', marketId)
+            .eq('status', 'PROPOSED')
+            .gt('dispute_ends_at', now)
+            .select();
+
+        if (error) throw new Error(`Failed to dispute resolution: ${error.message}`);
+        if (!updated || updated.length === 0) {
+            const market = await this.getMarket(marketId);
+            if (!market) throw new Error(`Market not found: ${marketId}`);
+            if (market.status !== 'PROPOSED') throw new Error('Market has no proposed resolution to dispute');
+            throw new Error('Dispute window has closed');
+        }
+        return updated[0];
+    }
+
+    async finalizeResolution(marketId: string, from: 'PROPOSED' | 'DISPUTED', winner: string, resolvedBy: string): Promise<MarketRow> {
+        const supabase = getSupabase();
+        const now = new Date().toISOString();
+
+        let query = supabase
+            .from('markets')
+            .update({
+                status: 'RESOLVED',
+                resolution_value: winner,
+                resolved_at: now,
+                resolved_by: resolvedBy
+            })
+            .eq('market_id', marketId)
+            .eq('status', from);
+        if (from === 'PROPOSED') query = query.lte('dispute_ends_at', now);
+
+        const { data: updated, error } = await query.select();
+
+        if (error) throw new Error(`Failed to finalize resolution: ${error.message}`);
+        if (!updated || updated.length === 0) {
+            const market = await this.getMarket(marketId);
+            if (!market) throw new Error(`Market not found: ${marketId}`);
+            if (market.status !== from) throw new Error(`Market is ${market.status.toLowerCase()}, not ${from.toLowerCase()}`);
+            throw new Error(`Dispute window is open until ${market.dispute_ends_at}`);
+        }
+        return updated[0];
+    }
+
+    async recordOracleObservation(marketId: string, observation: OracleObservationInput): Promise<void> {
+        const supabase = getSupabase();
+
+        const { error } = await supabase
+            .from('markets')
+            .update({
+                oracle_price: observation.price,
+                oracle_source: observation.source,
+                oracle_published_at: observation.publishedAt.toISOString(),
+                oracle_observed_at: observation.observedAt.toISOString(),
+                oracle_evidence: observation.evidence
+            })
+            .eq('market_id', marketId);
+
+        if (error) throw new Error(`Failed to record oracle observation: ${error.message}`);
+    }
+
+    async cancelMarket(marketId: string, refundMode: RefundMode, cancelledBy?: string): Promise<MarketRow> {
+        const supabase = getSupabase();
+
+        const { data: market, error: fetchError } = await supabase
+            .from('markets')
+            .select('status, resolver_address, version')
+            .eq('market_id', marketId)
+            .single();
+
+        if (fetchError || !market) {
+            throw new Error(`Market not found: ${marketId}`);
+        }
+        if (market.status !== 'ACTIVE') {
+            throw new Error(`Market is already ${String(market.status).toLowerCase()}`);
+        }
+
+        if (market.resolver_address && cancelledBy &&
+            market.resolver_address.toLowerCase() !== cancelledBy.toLowerCase()) {
+            throw new Error(`Unauthorized resolver. Only ${market.resolver_address} can cancel this market.`);
+        }
+
+        // Bump the version so trades computed against the open market fail to commit
+        const { data: updated, error } = await supabase
+            .from('markets')
+            .update({
+                status: 'CANCELLED',
+                refund_mode: refundMode,
+                resolved_at: new Date().toISOString(),
+                resolved_by: cancelledBy ?? 'system',
+                version: market.version + 1
+            })
+            .eq('market_id', marketId)
+            .eq('version', market.version)
+            .select();
+
+        if (error) throw new Error(`Failed to cancel market: ${error.message}`);
+        if (!updated || updated.length === 0) {
+            throw new Error(`Market ${marketId} changed during cancellation, try again`);
+        }
+        return updated[0];
+    }
+
+    // ─── Positions ─────────────────────────────────────────────────────────
+
+    async getPosition(
+        userId: string,
+        marketId: string,
+        outcome: Outcome | string
+    ): Promise<PositionRow | null> {
+        const supabase = getSupabase();
+
+        const { data, error } = await supabase
+            .from('positions')
+            .select('*')
+            .eq('user_id', userId)
+            .eq('market_id', marketId)
+            .eq('outcome', outcome)
+            .single();
+
+        if (error?.code === 'PGRST116') return null;
+        if (error) throw new Error(`Failed to get position: ${error.message}`);
+        return data;
+    }
+
+    async getUserPositions(userId: string): Promise<PositionRow[]> {
+        const supabase = getSupabase();
+
+        const { data, error } = await supabase
+            .from('positions')
+            .select('*')
+            .eq('user_id', userId);
+
+        if (error) throw new Error(`Failed to get user positions: ${error.message}`);
+        return data ?? [];
+    }
+
+    async getUserMarketPositions(userId: string, marketId: string): Promise<PositionRow[]> {
+        const supabase = getSupabase();
+
+        const { data, error } = await supabase
+            .from('positions')
+            .select('*')
+            .eq('user_id', userId)
+            .eq('market_id', marketId);
+
+        if (error) throw new Error(`Failed to get user market positions: ${error.message}`);
+        return data ?? [];
+    }
+
+    async getMarketPositions(marketId: string): Promise<PositionRow[]> {
+        const supabase = getSupabase();
+
+        const { data, error } = await supabase
+            .from('positions')
+            .select('*')
+            .eq('market_id', marketId);
+
+        if (error) throw new Error(`Failed to get market positions: ${error.message}`);
+        return data ?? [];
+    }
+
+    async getUserActivePositions(userId: string): Promise<(PositionRow & { market_status: string })[]> {
+        const supabase = getSupabase();
+
+        const { data, error } = await supabase
+            .from('positions')
+            .select('*, markets!inner(status)')
+            .eq('user_id', userId)
+            .gt('shares', '0');
+
+        if (error) throw new Error(`Failed to get active positions: ${error.message}`);
+
+        // Filter to only unsettled markets and flatten
+        return ((data ?? []) as PositionWithMarketRow[])
+            .filter(row => !!row.markets && (UNSETTLED_MARKET_STATUSES as string[]).includes(row.markets.status))
+            .map(row => ({
+                id: row.id,
+                user_id: row.user_id,
+                market_id: row.market_id,
+                outcome: row.outcome,
+                shares: row.shares,
+                cost_basis: row.cost_basis,
+                average_entry_price: row.average_entry_price,
+                created_at: row.created_at,
+                market_status: row.markets?.status || 'ACTIVE'
+            }));
+    }
+
+    async upsertPosition(
+        userId: string,
+        marketId: string,
+        outcome: Outcome | string,
+        shares: bigint,
+        costBasis: bigint
+    ): Promise<PositionRow> {
+        const supabase = getSupabase();
+
+        // Auto-create session if not exists (userId is actually sessionId due to FK)
+        await this.ensureSessionExists(userId);
+
+        const { data, error } = await supabase
+            .from('positions')
+            .upsert({
+                user_id: userId,
+                market_id: marketId,
+                outcome,
+                shares: shares.toString(),
+                cost_basis: costBasis.toString(),
+                average_entry_price: averageEntryPrice({ shares, costBasis })
+            }, {
+                onConflict: 'user_id,market_id,outcome'
+            })
+            .select()
+            .single();
+
+        if (error) throw new Error(`Failed to upsert position: ${error.message}`);
+        return data;
+    }
+
+    // ─── Liquidity positions ───────────────────────────────────────────────
+
+    async getLiquidityPosition(userId: string, marketId: string): Promise<LiquidityPositionRow | null> {
+        const supabase = getSupabase();
+
+        const { data, error } = await supabase
+            .from('liquidity_positions')
+            .select('*')
+            .eq('user_id', userId)
+            .eq('market_id', marketId)
+            .single();
+
+        if (error?.code === 'PGRST116') return null;
+        if (error) throw new Error(`Failed to get liquidity position: ${error.message}`);
+        return data;
+    }
+
+    async getUserLiquidityPositions(userId: string): Promise<LiquidityPositionRow[]> {
+        const supabase = getSupabase();
+
+        const { data, error } = await supabase
+            .from('liquidity_positions')
+            .select('*')
+            .eq('user_id', userId)
+            .gt('lp_shares', '0');
+
+        if (error) throw new Error(`Failed to get user liquidity positions: ${error.message}`);
+        return data ?? [];
+    }
+
+    async getMarketLiquidityPositions(marketId: string): Promise<LiquidityPositionRow[]> {
+        const supabase = getSupabase();
+
+        const { data, error } = await supabase
+            .from('liquidity_positions')
+            .select('*')
+            .eq('market_id', marketId);
+
+        if (error) throw new Error(`Failed to get market liquidity positions: ${error.message}`);
+        return data ?? [];
+    }
+
+    async upsertLiquidityPosition(
+        userId: string,
+        marketId: string,
+        lpShares: bigint,
+        costBasis: bigint
+    ): Promise<LiquidityPositionRow> {
+        const supabase = getSupabase();
+
+        await this.ensureSessionExists(userId);
+
+        const { data, error } = await supabase
+            .from('liquidity_positions')
+            .upsert({
+                user_id: userId,
+                market_id: marketId,
+                lp_shares: lpShares.toString(),
+                cost_basis: costBasis.toString()
+            }, {
+                onConflict: 'user_id,market_id'
+            })
+            .select()
+            .single();
+
+        if (error) throw new Error(`Failed to upsert liquidity position: ${error.message}`);
+        return data;
+    }
+
+    // ─── Limit orders ──────────────────────────────────────────────────────
+
+    async getLimitOrder(orderId: string): Promise<LimitOrderRow | null> {
+        const supabase = getSupabase();
+
+        const { data, error } = await supabase
+            .from('limit_orders')
+            .select('*')
+            .eq('id', orderId)
+            .single();
+
+        if (error?.code === 'PGRST116') return null;
+        if (error) throw new Error(`Failed to get limit order: ${error.message}`);
+        return data;
+    }
+
+    async getOpenLimitOrders(marketId: string, side?: OrderSide): Promise<LimitOrderRow[]> {
+        const supabase = getSupabase();
+
+        let query = supabase
+            .from('limit_orders')
+            .select('*')
+            .eq('market_id', marketId)
+            .eq('status', 'OPEN');
+        if (side) query = query.eq('side', side);
+
+        const { data, error } = await query
+            .order('limit_price', { ascending: false })
+            .order('created_at', { ascending: true });
+
+        if (error) throw new Error(`Failed to get open limit orders: ${error.message}`);
+        return data ?? [];
+    }
+
+    async getBookOrders(marketId: string, outcome: string, side: OrderSide): Promise<LimitOrderRow[]> {
+        const supabase = getSupabase();
+
+        const { data, error } = await supabase
+            .from('limit_orders')
+            .select('*')
+            .eq('market_id', marketId)
+            .eq('outcome', outcome)
+            .eq('side', side)
+            .eq('status', 'OPEN')
+            .order('limit_price', { ascending: side === 'SELL' })
+            .order('created_at', { ascending: true });
+
+        if (error) throw new Error(`Failed to get order book: ${error.message}`);
+        return data ?? [];
+    }
+
+    async getUserLimitOrders(userId: string, status?: LimitOrderStatus): Promise<LimitOrderRow[]> {
+        const supabase = getSupabase();
+
+        let query = supabase
+            .from('limit_orders')
+            .select('*')
+            .eq('user_id', userId);
+        if (status) query = query.eq('status', status);
+
+        const { data, error } = await query.order('created_at', { ascending: false });
+
+        if (error) throw new Error(`Failed to get user limit orders: ${error.message}`);
+        return data ?? [];
+    }
+
+    // ─── Trades ────────────────────────────────────────────────────────────
+
+    async insertTrade(input: InsertTradeInput): Promise<TradeRow> {
+        const supabase = getSupabase();
+
+        const { data, error } = await supabase
+            .from('trades')
+            .insert({
+                session_id: input.sessionId,
+                user_address: input.userAddress,
+                market_id: input.marketId,
+                trade_type: input.tradeType,
+                outcome: input.outcome,
+                shares: input.shares.toString(),
+                price: input.price,
+                cost_basis: input.costBasis.toString(),
+                realized_pnl: input.realizedPnl.toString(),
+                fee: (input.fee ?? 0n).toString(),
+                market_title: input.marketTitle ?? null
+            })
+            .select()
+            .single();
+
+        if (error) throw new Error(`Failed to insert trade: ${error.message}`);
+        return data;
+    }
+
+    async getTradesByUser(userAddress: string): Promise<TradeRow[]> {
+        const supabase = getSupabase();
+
+        const { data, error } = await supabase
+            .from('trades')
+            .select('*')
+            .ilike('user_address', userAddress)
+            .order('created_at', { ascending: false })
+            .limit(100);
+
+        if (error) throw new Error(`Failed to get user trades: ${error.message}`);
+        return data ?? [];
+    }
+
+    async getTradesBySession(sessionId: string): Promise<TradeRow[]> {
+        const supabase = getSupabase();
+
+        const { data, error } = await supabase
+            .from('trades')
+            .select('*')
+            .eq('session_id', sessionId)
+            .order('created_at', { ascending: false });
+
+        if (error) throw new Error(`Failed to get session trades: ${error.message}`);
+        return data ?? [];
+    }
+
+    async getTradesByMarketAndUser(marketId: string, userAddress: string): Promise<TradeRow[]> {
+        const supabase = getSupabase();
+
+        const { data, error } = await supabase
+            .from('trades')
+            .select('*')
+            .eq('market_id', marketId)
+            .ilike('user_address', userAddress)
+            .order('created_at', { ascending: false });
+
+        if (error) throw new Error(`Failed to get market trades: ${error.message}`);
+        return data ?? [];
+    }
+
+    // ─── Ledger ────────────────────────────────────────────────────────────
+
+    async postLedgerEntry(entry: LedgerEntryInput): Promise<LedgerEntryRow> {
+        validateLedgerEntry(entry);
+        const supabase = getSupabase();
+
+        const { data, error } = await supabase.rpc('post_ledger_entry', { p_entry: toLedgerEntryJson(entry) });
+
+        if (error) throw new Error(`Failed to post ledger entry: ${error.message}`);
+        return { ...data, lines: entry.lines };
+    }
+
+    async getAccountLedger(accountType: LedgerAccountType, accountId: string): Promise<AccountLedgerRow[]> {
+        const supabase = getSupabase();
+        const rows: AccountLedgerRow[] = [];
+
+        // PostgREST caps each response, so page through long histories
+        for (let from = 0; ; from += LEDGER_PAGE_SIZE) {
+            const { data, error } = await supabase
+                .from('ledger_lines')
+                .select('entry_id, amount, ledger_entries(entry_type, market_id, memo, created_at)')
+                .eq('account_type', accountType)
+                .eq('account_id', accountId)
+                .order('id', { ascending: true })
+                .range(from, from + LEDGER_PAGE_SIZE - 1);
+
+            if (error) throw new Error(`Failed to get ledger: ${error.message}`);
+
+            for (const line of data ?? []) {
+                const entry = line.ledger_entries as unknown as Omit<AccountLedgerRow, 'entry_id' | 'amount'>;
+                rows.push({ entry_id: line.entry_id, amount: line.amount, ...entry });
+            }
+            if (!data || data.length < LEDGER_PAGE_SIZE) return rows;
+        }
+    }
+
+    // ─── Idempotency Keys ──────────────────────────────────────────────────
+
+    async claimIdempotencyKey(
+        key: string,
+        requestHash: string,
+        pendingTimeoutMs: number
+    ): Promise<IdempotencyKeyRow | null> {
+        const supabase = getSupabase();
+
+        const { data, error } = await supabase.rpc('claim_idempotency_key', {
+            p_key: key,
+            p_request_hash: requestHash,
+            p_pending_timeout_ms: pendingTimeoutMs
+        });
+
+        if (error) throw new Error(`Failed to claim idempotency key: ${error.message}`);
+        // The function returns no row when the key was claimed
+        return (data as IdempotencyKeyRow[] | null)?.[0] ?? null;
+    }
+
+    async completeIdempotencyKey(key: string, responseStatus: number, responseBody: unknown): Promise<void> {
+        const supabase = getSupabase();
+
+        const { error } = await supabase
+            .from('idempotency_keys')
+            .update({
+                status: 'COMPLETED',
+                response_status: responseStatus,
+                response_body: responseBody,
+                completed_at: new Date().toISOString()
+            })
+            .eq('key', key);
+
+        if (error) throw new Error(`Failed to complete idempotency key: ${error.message}`);
+    }
+
+    async releaseIdempotencyKey(key: string): Promise<void> {
+        const supabase = getSupabase();
+
+        const { error } = await supabase
+            .from('idempotency_keys')
+            .delete()
+            .eq('key', key)
+            .eq('status', 'PENDING');
+
+        if (error) throw new Error(`Failed to release idempotency key: ${error.message}`);
+    }
+
+    // ─── Reconciliation ────────────────────────────────────────────────────
+
+    async recordReconciliation(input: ReconciliationInput): Promise<ReconciliationRunRow> {
+        const supabase = getSupabase();
+
+        const { data, error } = await supabase.rpc('record_reconciliation', {
+            p_run: {
+                started_at: input.startedAt,
+                finished_at: input.finishedAt,
+                markets_checked: input.marketsChecked,
+                sessions_checked: input.sessionsChecked,
+                totals: input.totals
+            },
+            p_discrepancies: input.discrepancies
+        });
+
+        if (error) throw new Error(`Failed to record reconciliation: ${error.message}`);
+        return data;
+    }
+
+    async getLatestReconciliation(): Promise<{
+        run: ReconciliationRunRow;
+        discrepancies: ReconciliationDiscrepancyRow[];
+    } | null> {
+        const supabase = getSupabase();
+
+        const { data: run, error } = await supabase
+            .from('reconciliation_runs')
+            .select('*')
+            .order('id', { ascending: false })
+            .limit(1)
+            .single();
+
+        if (error?.code === 'PGRST116') return null; // No run yet
+        if (error) throw new Error(`Failed to get reconciliation run: ${error.message}`);
+
+        const { data: discrepancies, error: discrepancyError } = await supabase
+            .from('reconciliation_discrepancies')
+            .select('*')
+            .eq('run_id', run.id)
+            .order('id', { ascending: true });
+
+        if (discrepancyError) throw new Error(`Failed to get reconciliation discrepancies: ${discrepancyError.message}`);
+        return { run, discrepancies: discrepancies ?? [] };
+    }
+}
+
+function toLedgerEntryJson(entry: LedgerEntryInput) {
+    return {
+        entry_type: entry.entryType,
+        market_id: entry.marketId ?? null,
+        memo: entry.memo ?? null,
+        lines: entry.lines
+    };
+}
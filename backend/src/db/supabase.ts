@@ -8,7 +8,7 @@ const SUPABASE_URL = process.env.SUPABASE_URL;
 const SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_KEY;
 
 if (!SUPABASE_URL || !SUPABASE_SERVICE_KEY) {
-    console.warn('[Supabase] Missing SUPABASE_URL or SUPABASE_SERVICE_KEY - database features disabled');
+    console.warn('[Supabase] Missing SUPABASE_URL or SUPABASE_SERVICE_KEY - Supabase store disabled');
 }
 
 export const supabase: SupabaseClient | null =
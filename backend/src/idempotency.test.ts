@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { ONE_USDC } from './amm/index';
+import { createMarketDB } from './amm/db-pool-manager';
+import { ammRouter } from './amm/router';
+import * as db from './db/amm-repository';
+import { MemoryStore } from './db/memory-store';
+import { IDEMPOTENCY_HEADER, IDEMPOTENT_REPLAY_HEADER } from './idempotency';
+
+const CREATOR = 'idempotency-creator';
+const BETTOR = 'idempotency-bettor';
+
+let server: Server;
+let url: string;
+
+const body = JSON.stringify({ marketId: 'idempotency', userId: BETTOR, amount: ONE_USDC.toString(), outcome: 'YES' });
+
+function post(key: string, payload = body): Promise<Response> {
+    return fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', [IDEMPOTENCY_HEADER]: key },
+        body: payload
+    });
+}
+
+const balance = async () => BigInt((await db.getSession(BETTOR))!.current_balance);
+const trades = async () => (await db.getTradesBySession(BETTOR)).length;
+
+beforeAll(async () => {
+    db.setStore(new MemoryStore());
+    await db.createSession(CREATOR, CREATOR, 1_000n * ONE_USDC, 'idempotency-test');
+    await db.createSession(BETTOR, BETTOR, 100n * ONE_USDC, 'idempotency-test');
+    await createMarketDB({
+        marketId: 'idempotency',
+        title: 'Idempotency test',
+        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+        initialLiquidity: 1_000n * ONE_USDC,
+        creatorId: CREATOR
+    });
+
+    const app = express();
+    app.use(express.json());
+    app.use('/api/amm', ammRouter);
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    url = `http://localhost:${(server.address() as AddressInfo).port}/api/amm/bet`;
+});
+
+afterAll(() => {
+    server.close();
+});
+
+describe('Idempotency-Key', () => {
+    it('executes simultaneous attempts with the same key once', async () => {
+        const before = await balance();
+        const tradesBefore = await trades();
+
+        const attempts = await Promise.all(Array.from({ length: 5 }, () => post('simultaneous')));
+        // One attempt runs; the rest wait it out (409) or replay its response
+        const executed = attempts.filter(response => response.status === 200 && !response.headers.has(IDEMPOTENT_REPLAY_HEADER));
+        expect(executed).toHaveLength(1);
+        expect(attempts.every(response => response.status === 200 || response.status === 409)).toBe(true);
+
+        expect(before - await balance()).toBe(ONE_USDC);
+        expect(await trades()).toBe(tradesBefore + 1);
+    });
+
+    it('replays the original response to a retry', async () => {
+        const original = await (await post('retried')).json();
+        const before = await balance();
+
+        const retry = await post('retried');
+        expect(retry.status).toBe(200);
+        expect(retry.headers.get(IDEMPOTENT_REPLAY_HEADER)).toBe('true');
+        expect(await retry.json()).toEqual(original);
+        expect(await balance()).toBe(before);
+    });
+
+    it('refuses a key reused for a different request', async () => {
+        await post('reused');
+        const reused = await post('reused', JSON.stringify({ ...JSON.parse(body), amount: (2n * ONE_USDC).toString() }));
+        expect(reused.status).toBe(422);
+    });
+
+    it('executes a request with a new key', async () => {
+        const fresh = await post('fresh');
+        expect(fresh.status).toBe(200);
+        expect(fresh.headers.get(IDEMPOTENT_REPLAY_HEADER)).toBeNull();
+    });
+
+    it('releases the key of a failed request, so a retry runs it again', async () => {
+        const tooLarge = JSON.stringify({ ...JSON.parse(body), amount: (1_000n * ONE_USDC).toString() });
+        const failed = await post('failed', tooLarge);
+        expect(failed.status).toBeGreaterThanOrEqual(400);
+
+        const retry = await post('failed', tooLarge);
+        expect(retry.status).toBe(failed.status);
+        expect(retry.headers.get(IDEMPOTENT_REPLAY_HEADER)).toBeNull();
+    });
+
+    it('replays server errors of routes that may fail after writing', async () => {
+        const claim = () => fetch(url.replace(/\/bet$/, '/claim'), {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', [IDEMPOTENCY_HEADER]: 'claim' },
+            body: JSON.stringify({ marketId: 'idempotency', userId: BETTOR })
+        });
+
+        const failed = await claim();
+        expect(failed.status).toBe(500);
+
+        const retry = await claim();
+        expect(retry.status).toBe(500);
+        expect(retry.headers.get(IDEMPOTENT_REPLAY_HEADER)).toBe('true');
+        expect(await retry.json()).toEqual(await failed.json());
+    });
+});
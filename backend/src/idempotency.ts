@@ -0,0 +1,98 @@
+/**
+ * Idempotency - Replay-safe state-changing endpoints
+ *
+ * A client that times out and retries a trade must not trade twice. Requests
+ * carrying an `Idempotency-Key` header (or a key derived from a signed
+ * intent, see `idempotent`) are claimed in the store before they run and
+ * their response is stored with the key:
+ * - a retry of a completed request gets the stored response back, marked
+ *   with an `Idempotent-Replayed: true` header, without running again
+ * - a retry while the first attempt is still running gets a 409
+ * - reusing a key for a different request body gets a 422
+ *
+ * Only successful (2xx) responses are stored. A request that failed changed
+ * nothing, so its claim is released and a retry runs it again. Routes whose
+ * handlers write in several steps (claims, resolutions, cancellations) can
+ * fail after writing, so they also store 5xx responses: a retry gets the
+ * error back instead of running the writes again.
+ * Requests without a key behave as before.
+ */
+
+import { createHash } from 'crypto';
+import type { Request, Response, RequestHandler } from 'express';
+import { claimIdempotencyKey, completeIdempotencyKey, releaseIdempotencyKey } from './db/amm-repository';
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+export const IDEMPOTENT_REPLAY_HEADER = 'Idempotent-Replayed';
+
+const MAX_KEY_LENGTH = 255;
+
+/** How long a claim may stay PENDING before a retry may assume it died */
+export const IDEMPOTENCY_PENDING_TIMEOUT_MS = 5 * 60 * 1000;
+
+export interface IdempotencyOptions {
+    /** Derives a key when the header is missing, e.g. from a signed nonce */
+    keyFromRequest?: (req: Request, res: Response) => string | undefined;
+    /** Store 5xx responses as final, for handlers that may fail after writing */
+    storeServerErrors?: boolean;
+}
+
+/**
+ * Middleware making a route idempotent for requests that carry a key
+ */
+export function idempotent({ keyFromRequest, storeServerErrors = false }: IdempotencyOptions = {}): RequestHandler {
+    return async (req, res, next) => {
+        const clientKey = req.get(IDEMPOTENCY_HEADER) ?? keyFromRequest?.(req, res);
+        if (clientKey === undefined) return next();
+
+        if (clientKey.length === 0 || clientKey.length > MAX_KEY_LENGTH) {
+            return res.status(400).json({ error: `${IDEMPOTENCY_HEADER} must be 1-${MAX_KEY_LENGTH} characters` });
+        }
+
+        // Keys are per endpoint: the same client key on another route is another request
+        const key = `${req.method} ${req.baseUrl}${req.path}:${clientKey}`;
+        const requestHash = createHash('sha256').update(JSON.stringify(req.body ?? null)).digest('hex');
+
+        try {
+            const existing = await claimIdempotencyKey(key, requestHash, IDEMPOTENCY_PENDING_TIMEOUT_MS);
+
+            if (existing) {
+                if (existing.request_hash !== requestHash) {
+                    return res.status(422).json({
+                        error: `${IDEMPOTENCY_HEADER} was already used for a different request`,
+                        code: 'IDEMPOTENCY_KEY_REUSED'
+                    });
+                }
+                if (existing.status === 'PENDING') {
+                    return res.status(409).json({
+                        error: `A request with this ${IDEMPOTENCY_HEADER} is still in progress`,
+                        code: 'IDEMPOTENCY_KEY_IN_PROGRESS'
+                    });
+                }
+
+                res.set(IDEMPOTENT_REPLAY_HEADER, 'true');
+                return res.status(existing.response_status ?? 200).json(existing.response_body);
+            }
+        } catch (err) {
+            console.error('[Idempotency] Error:', err);
+            return res.status(500).json({ error: String(err) });
+        }
+
+        // Record the outcome before the client sees it, so a retry that
+        // follows the response always finds it
+        const send = res.json.bind(res);
+        res.json = body => {
+            const final = (res.statusCode >= 200 && res.statusCode < 300) || (storeServerErrors && res.statusCode >= 500);
+            const settle = final
+                ? completeIdempotencyKey(key, res.statusCode, body)
+                : releaseIdempotencyKey(key);
+
+            settle
+                .catch(err => console.error(`[Idempotency] Failed to record ${key}:`, err))
+                .finally(() => send(body));
+            return res;
+        };
+
+        next();
+    };
+}
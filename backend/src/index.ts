@@ -13,9 +13,19 @@ import { YellowSessionService } from './yellow/session-service';
 import { MarketResolver } from './markets/resolver';
 import { ammRouter } from './amm/router';
 import { sessionsRouter } from './sessions/router';
+import { verifySchema } from './db/migrations';
+import { startReconciliationJob, DEFAULT_RECONCILIATION_INTERVAL_MS } from './amm/reconciliation';
+import { startFinalizationJob, DEFAULT_FINALIZATION_INTERVAL_MS } from './amm/db-pool-manager';
+import { startOracleScheduler, DEFAULT_ORACLE_RESOLUTION_INTERVAL_MS } from './amm/oracle-scheduler';
+import { setOracleProviders } from './amm/oracle-providers';
+import { loadOracleFixtures } from './amm/oracle-fixtures';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
+const RECONCILIATION_INTERVAL_MS = Number(process.env.RECONCILIATION_INTERVAL_MS || DEFAULT_RECONCILIATION_INTERVAL_MS);
+const FINALIZATION_INTERVAL_MS = Number(process.env.FINALIZATION_INTERVAL_MS || DEFAULT_FINALIZATION_INTERVAL_MS);
+const ORACLE_RESOLUTION_INTERVAL_MS = Number(process.env.ORACLE_RESOLUTION_INTERVAL_MS || DEFAULT_ORACLE_RESOLUTION_INTERVAL_MS);
+const ORACLE_FIXTURES = process.env.ORACLE_FIXTURES || '';
 
 // Initialize services
 const yellowSession = new YellowSessionService();
@@ -43,13 +53,45 @@ console.log('🟢 AMM Market routes enabled');
 // Market Resolver routes (Oracles)
 app.use('/api/markets', marketResolver.router);
 
-app.listen(PORT, () => {
-  console.log(`🚀 Basis-Zero Backend running on port ${PORT}`);
-  console.log(`   📍 Health: http://localhost:${PORT}/health`);
-  console.log(`   📍 Sessions: http://localhost:${PORT}/api/session`);
-  console.log(`   📍 Sessions Management: http://localhost:${PORT}/api/sessions`);
-  console.log(`   📍 AMM: http://localhost:${PORT}/api/amm`);
-  console.log(`   📍 Markets: http://localhost:${PORT}/api/markets`);
-});
+// Recorded price series replace the live oracle providers (offline development)
+async function loadFixtures() {
+  if (!ORACLE_FIXTURES) return;
+  const providers = await loadOracleFixtures(ORACLE_FIXTURES, { replayFrom: Date.now() });
+  setOracleProviders(providers);
+  console.log(`🟢 Oracle prices replayed from ${ORACLE_FIXTURES} (${providers.map(p => p.name).join(', ')})`);
+}
+
+// Refuse to serve a database that doesn't match sql/
+verifySchema()
+  .then(loadFixtures)
+  .then(() => {
+    app.listen(PORT, () => {
+      console.log(`🚀 Basis-Zero Backend running on port ${PORT}`);
+      console.log(`   📍 Health: http://localhost:${PORT}/health`);
+      console.log(`   📍 Sessions: http://localhost:${PORT}/api/session`);
+      console.log(`   📍 Sessions Management: http://localhost:${PORT}/api/sessions`);
+      console.log(`   📍 AMM: http://localhost:${PORT}/api/amm`);
+      console.log(`   📍 Markets: http://localhost:${PORT}/api/markets`);
+    });
+
+    if (RECONCILIATION_INTERVAL_MS > 0) {
+      startReconciliationJob(RECONCILIATION_INTERVAL_MS);
+      console.log(`🟢 Solvency reconciliation every ${RECONCILIATION_INTERVAL_MS / 1000}s`);
+    }
+
+    if (FINALIZATION_INTERVAL_MS > 0) {
+      startFinalizationJob(FINALIZATION_INTERVAL_MS);
+      console.log(`🟢 Undisputed resolutions finalized every ${FINALIZATION_INTERVAL_MS / 1000}s`);
+    }
+
+    if (ORACLE_RESOLUTION_INTERVAL_MS > 0) {
+      startOracleScheduler(ORACLE_RESOLUTION_INTERVAL_MS);
+      console.log(`🟢 Expired oracle markets resolved every ${ORACLE_RESOLUTION_INTERVAL_MS / 1000}s`);
+    }
+  })
+  .catch(err => {
+    console.error(`❌ ${err instanceof Error ? err.message : err}`);
+    process.exit(1);
+  });
 
 export { app };
@@ -27,13 +27,14 @@ export class PythPriceService {
     SOL_USD: '0xef0d8b6fda2ceba41da15d4095d1da392a0d2f8ed0c6c7bc0f4cfac8c280b56d'
   };
 
-  constructor() {
-    // Use Pyth's public Hermes endpoint
-    this.client = new HermesClient('https://hermes.pyth.network');
+  constructor(endpoint: string = 'https://hermes.pyth.network') {
+    // Pyth's public Hermes endpoint unless another is given
+    this.client = new HermesClient(endpoint);
   }
 
   /**
    * Get latest price for a feed
+   * @throws when Hermes is unreachable or has no price for the feed
    */
   async getLatestPrice(feedId: string): Promise<PriceData> {
     // Check cache first
@@ -42,31 +43,46 @@ export class PythPriceService {
       return cached;
     }
 
-    try {
-      const priceUpdates = await this.client.getLatestPriceUpdates([feedId]);
-      
-      if (!priceUpdates.parsed || priceUpdates.parsed.length === 0) {
-        throw new Error(`No price data for feed ${feedId}`);
-      }
+    const priceUpdates = await this.client.getLatestPriceUpdates([feedId]);
 
-      const parsed = priceUpdates.parsed[0];
-      const priceInfo = parsed.price;
-
-      const priceData: PriceData = {
-        feedId,
-        price: Number(priceInfo.price) * Math.pow(10, priceInfo.expo),
-        confidence: Number(priceInfo.conf) * Math.pow(10, priceInfo.expo),
-        publishTime: parsed.price.publish_time * 1000,
-        expo: priceInfo.expo
-      };
-
-      this.priceCache.set(feedId, priceData);
-      return priceData;
-    } catch (error) {
-      // Return mock data for demo if Pyth is unavailable
-      console.warn(`Pyth fetch failed, using mock data: ${error}`);
-      return this.getMockPrice(feedId);
+    if (!priceUpdates.parsed || priceUpdates.parsed.length === 0) {
+      throw new Error(`No price data for feed ${feedId}`);
     }
+
+    const parsed = priceUpdates.parsed[0];
+    const priceInfo = parsed.price;
+
+    const priceData: PriceData = {
+      feedId,
+      price: Number(priceInfo.price) * Math.pow(10, priceInfo.expo),
+      confidence: Number(priceInfo.conf) * Math.pow(10, priceInfo.expo),
+      publishTime: parsed.price.publish_time * 1000,
+      expo: priceInfo.expo
+    };
+
+    this.priceCache.set(feedId, priceData);
+    return priceData;
+  }
+
+  /**
+   * Get the price a feed published at a past time (Unix milliseconds, to the second)
+   * @throws when Hermes is unreachable or has no price for the feed at that time
+   */
+  async getPriceAt(feedId: string, timestampMs: number): Promise<PriceData> {
+    const priceUpdates = await this.client.getPriceUpdatesAtTimestamp(Math.floor(timestampMs / 1000), [feedId], { parsed: true });
+
+    if (!priceUpdates.parsed || priceUpdates.parsed.length === 0) {
+      throw new Error(`No price data for feed ${feedId} at ${new Date(timestampMs).toISOString()}`);
+    }
+
+    const priceInfo = priceUpdates.parsed[0].price;
+    return {
+      feedId,
+      price: Number(priceInfo.price) * Math.pow(10, priceInfo.expo),
+      confidence: Number(priceInfo.conf) * Math.pow(10, priceInfo.expo),
+      publishTime: priceInfo.publish_time * 1000,
+      expo: priceInfo.expo
+    };
   }
 
   /**
@@ -99,23 +115,4 @@ export class PythPriceService {
     // Return stop function
     return () => { running = false; };
   }
-
-  /**
-   * Mock price data for demo/testing
-   */
-  private getMockPrice(feedId: string): PriceData {
-    const mockPrices: Record<string, number> = {
-      [PythPriceService.FEEDS.BTC_USD]: 97500,
-      [PythPriceService.FEEDS.ETH_USD]: 4850,
-      [PythPriceService.FEEDS.SOL_USD]: 185
-    };
-
-    return {
-      feedId,
-      price: mockPrices[feedId] || 100,
-      confidence: 0.01,
-      publishTime: Date.now(),
-      expo: -8
-    };
-  }
 }
@@ -4,11 +4,13 @@
  * Handles prediction market definitions and resolution:
  * - Market creation and management
  * - Pyth oracle integration for price feeds
- * - Outcome resolution and bet settling
+ * - Outcome resolution from prices aggregated across sources, and bet settling
  */
 
 import { Router } from 'express';
 import { PythPriceService } from './pyth-oracle';
+import { fetchResolutionPrice } from '../amm/oracle-service';
+import { PriceEvidence } from '../amm/oracle-aggregator';
 
 export interface Market {
   id: string;
@@ -16,13 +18,19 @@ export interface Market {
   description: string;
   category: 'crypto' | 'sports' | 'politics' | 'custom';
   condition: {
-    type: 'price_above' | 'price_below' | 'binary';
+    type: 'price_above' | 'price_below' | 'scalar' | 'binary';
     asset?: string;
     threshold?: number;
+    /** Range bounds for scalar markets (LONG pays (price - low) / (high - low)) */
+    low?: number;
+    high?: number;
     pythFeedId?: string;
   };
   status: 'open' | 'closed' | 'resolved';
-  resolution?: 'YES' | 'NO';
+  /** Winning side, or the observed price for scalar markets */
+  resolution?: 'YES' | 'NO' | number;
+  /** Every source's answer the resolution price was aggregated from */
+  evidence?: PriceEvidence;
   closeTime: number;
   createdAt: number;
 }
@@ -84,7 +92,7 @@ export class MarketResolver {
   /**
    * Resolve a market based on oracle data
    */
-  async resolveMarket(marketId: string): Promise<{ market: Market; outcome: 'YES' | 'NO' }> {
+  async resolveMarket(marketId: string): Promise<{ market: Market; outcome: 'YES' | 'NO' | number }> {
     const market = this.markets.get(marketId);
     if (!market) {
       throw new Error('Market not found');
@@ -94,20 +102,28 @@ export class MarketResolver {
       throw new Error('Market already resolved');
     }
 
-    let outcome: 'YES' | 'NO';
+    const { type, asset } = market.condition;
+    if (type === 'binary' || !asset) {
+      throw new Error('Manual resolution required for binary markets');
+    }
 
-    if (market.condition.type === 'price_above' && market.condition.pythFeedId) {
-      const price = await this.pythService.getLatestPrice(market.condition.pythFeedId);
-      outcome = price.price >= market.condition.threshold! ? 'YES' : 'NO';
-    } else if (market.condition.type === 'price_below' && market.condition.pythFeedId) {
-      const price = await this.pythService.getLatestPrice(market.condition.pythFeedId);
-      outcome = price.price < market.condition.threshold! ? 'YES' : 'NO';
+    // Price as of close; throws (leaving the market open) when the sources don't agree on one
+    const evidence = await fetchResolutionPrice(asset, new Date(market.closeTime));
+    const price = evidence.price!;
+
+    let outcome: 'YES' | 'NO' | number;
+    if (type === 'price_above') {
+      outcome = price >= market.condition.threshold! ? 'YES' : 'NO';
+    } else if (type === 'price_below') {
+      outcome = price < market.condition.threshold! ? 'YES' : 'NO';
     } else {
-      throw new Error('Manual resolution required for binary markets');
+      // Scalar markets resolve to the price itself; payouts follow the range
+      outcome = price;
     }
 
     market.status = 'resolved';
     market.resolution = outcome;
+    market.evidence = evidence;
     this.markets.set(marketId, market);
 
     return { market, outcome };
@@ -147,6 +163,22 @@ export class MarketResolver {
         status: 'open',
         closeTime: new Date('2026-02-28').getTime(),
         createdAt: Date.now()
+      },
+      {
+        id: 'btc-range-dec',
+        title: 'BTC price on Dec 31 ($50k - $150k)',
+        description: 'LONG pays (price - $50k) / $100k, SHORT pays the rest',
+        category: 'crypto',
+        condition: {
+          type: 'scalar',
+          asset: 'BTC',
+          low: 50000,
+          high: 150000,
+          pythFeedId: '0xe62df6c8b4a85fe1a67db44dc12de5db330f7ac66b72dc658afedf0f4a415b43' // BTC/USD
+        },
+        status: 'open',
+        closeTime: new Date('2026-12-31').getTime(),
+        createdAt: Date.now()
       }
     ];
 
@@ -5,23 +5,16 @@
 
 import { Router } from 'express';
 import * as db from '../db/amm-repository';
+import { EXTERNAL_ACCOUNT, sessionAccount, transferEntry, buildStatement } from '../db/ledger';
+import { idempotent } from '../idempotency';
 
 export const sessionsRouter = Router();
 
 // Get all sessions
 sessionsRouter.get('/', async (req, res) => {
     try {
-        const { getSupabase } = await import('../db/supabase.js');
-        const supabase = getSupabase();
-
-        const { data, error } = await supabase
-            .from('sessions')
-            .select('*')
-            .order('created_at', { ascending: false });
-
-        if (error) throw new Error(`Failed to get sessions: ${error.message}`);
-
-        res.json({ sessions: data || [] });
+        const sessions = await db.listSessions();
+        res.json({ sessions });
     } catch (err) {
         console.error('[Sessions] Error:', err);
         res.status(500).json({ error: String(err), sessions: [] });
@@ -46,7 +39,7 @@ sessionsRouter.get('/:sessionId', async (req, res) => {
 });
 
 // Create a session (for testing)
-sessionsRouter.post('/create', async (req, res) => {
+sessionsRouter.post('/create', idempotent(), async (req, res) => {
     try {
         const { sessionId, userAddress, initialCollateral, signature } = req.body;
 
@@ -71,7 +64,7 @@ sessionsRouter.post('/create', async (req, res) => {
 });
 
 // Update session balance (for testing)
-sessionsRouter.post('/:sessionId/update-balance', async (req, res) => {
+sessionsRouter.post('/:sessionId/update-balance', idempotent(), async (req, res) => {
     try {
         const { sessionId } = req.params;
         const { newBalance, signature, nonce } = req.body;
@@ -82,12 +75,19 @@ sessionsRouter.post('/:sessionId/update-balance', async (req, res) => {
             });
         }
 
-        await db.updateSessionBalance(
-            sessionId,
-            BigInt(newBalance),
-            signature,
-            nonce
-        );
+        const session = await db.getSession(sessionId);
+        if (!session) {
+            return res.status(404).json({ error: 'Session not found' });
+        }
+
+        // Balances only move through the ledger: book the difference as an adjustment
+        const change = BigInt(newBalance) - BigInt(session.current_balance);
+        if (change !== 0n) {
+            await db.postLedgerEntry(transferEntry('ADJUSTMENT', EXTERNAL_ACCOUNT, sessionAccount(sessionId), change, {
+                memo: 'Set via /api/sessions/:sessionId/update-balance'
+            }));
+        }
+        await db.updateSessionSignature(sessionId, signature, nonce);
 
         res.json({ success: true });
     } catch (err) {
@@ -96,6 +96,31 @@ sessionsRouter.post('/:sessionId/update-balance', async (req, res) => {
     }
 });
 
+// Replay a session's balance from the ledger, line by line
+sessionsRouter.get('/:sessionId/ledger', async (req, res) => {
+    try {
+        const { sessionId } = req.params;
+        const session = await db.getSession(sessionId);
+
+        if (!session) {
+            return res.status(404).json({ error: 'Session not found' });
+        }
+
+        const { balance, lines } = buildStatement(await db.getAccountLedger('SESSION', sessionId));
+
+        res.json({
+            sessionId,
+            balance: balance.toString(),
+            // Stored balance, kept in step with the ledger by every posting
+            currentBalance: session.current_balance,
+            lines
+        });
+    } catch (err) {
+        console.error('[Session Ledger] Error:', err);
+        res.status(500).json({ error: String(err) });
+    }
+});
+
 // Get session by user address
 sessionsRouter.get('/user/:address', async (req, res) => {
     try {
@@ -114,19 +139,10 @@ sessionsRouter.get('/user/:address', async (req, res) => {
 });
 
 // Close a session (for testing)
-sessionsRouter.post('/:sessionId/close', async (req, res) => {
+sessionsRouter.post('/:sessionId/close', idempotent(), async (req, res) => {
     try {
         const { sessionId } = req.params;
-        const { getSupabase } = await import('../db/supabase.js');
-        const supabase = getSupabase();
-
-        const { error } = await supabase
-            .from('sessions')
-            .update({ status: 'CLOSED' })
-            .eq('session_id', sessionId);
-
-        if (error) throw new Error(`Failed to close session: ${error.message}`);
-
+        await db.closeSession(sessionId);
         res.json({ success: true });
     } catch (err) {
         console.error('[Session Close] Error:', err);
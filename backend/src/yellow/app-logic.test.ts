@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { type Hex, encodePacked, keccak256 } from 'viem';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+import { BasisZeroAppLogic, ChannelState } from './app-logic';
+
+const appLogic = new BasisZeroAppLogic();
+const sessionKey = privateKeyToAccount(generatePrivateKey());
+
+const bet = { marketId: 'app-logic', userId: '0xuser', amount: 5_000_000n, outcome: 0 };
+const noLimits = { minSharesOut: 0n, maxAvgPrice: 0n, deadline: 0n, nonce: 0n };
+
+const sign = (packed: Hex) => sessionKey.sign({ hash: keccak256(packed) });
+
+describe('recoverSigner', () => {
+    it('recovers legacy intents signed without limits or a nonce', async () => {
+        const signature = await sign(encodePacked(
+            ['string', 'string', 'uint256', 'uint8'],
+            [bet.marketId, bet.userId, bet.amount, bet.outcome]
+        ));
+        const state: ChannelState = { ...bet, ...noLimits };
+        expect(await appLogic.recoverSigner(state, signature)).toBe(sessionKey.address);
+    });
+
+    it('recovers intents signed with limits', async () => {
+        const state: ChannelState = { ...bet, ...noLimits, minSharesOut: 9_000_000n, deadline: 1_800_000_000n };
+        const signature = await sign(encodePacked(
+            ['string', 'string', 'uint256', 'uint8', 'uint256', 'uint256', 'uint64'],
+            [bet.marketId, bet.userId, bet.amount, bet.outcome, state.minSharesOut, state.maxAvgPrice, state.deadline]
+        ));
+        expect(await appLogic.recoverSigner(state, signature)).toBe(sessionKey.address);
+        // The limits are part of what was signed
+        expect(await appLogic.recoverSigner({ ...state, minSharesOut: 0n }, signature)).not.toBe(sessionKey.address);
+    });
+
+    it('recovers intents signed with a nonce', async () => {
+        const state: ChannelState = { ...bet, ...noLimits, nonce: 42n };
+        const signature = await sign(encodePacked(
+            ['string', 'string', 'uint256', 'uint8', 'uint256', 'uint256', 'uint64', 'uint64'],
+            [bet.marketId, bet.userId, bet.amount, bet.outcome, 0n, 0n, 0n, state.nonce]
+        ));
+        expect(await appLogic.recoverSigner(state, signature)).toBe(sessionKey.address);
+    });
+});
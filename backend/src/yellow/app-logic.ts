@@ -1,12 +1,29 @@
 import { type Hex, decodeAbiParameters, encodeAbiParameters, keccak256, encodePacked, recoverAddress } from 'viem';
+import { PRICE_PRECISION } from '../amm/math';
+import type { TradeLimits } from '../amm/slippage';
 
 export interface ChannelState {
   marketId: string;
   userId: string;
   amount: bigint;
   outcome: number; // 0 = YES, 1 = NO
+  minSharesOut: bigint; // 0 = no limit
+  maxAvgPrice: bigint; // PRICE_PRECISION fixed point (1e9 = $1), 0 = no limit
+  deadline: bigint; // Unix seconds, 0 = no deadline
+  nonce: bigint; // Client-chosen, unique per intent; a retry resends the same one. 0 = none (legacy intents)
 }
 
+const STATE_ABI = [
+  { name: 'marketId', type: 'string' },
+  { name: 'userId', type: 'string' },
+  { name: 'amount', type: 'uint256' },
+  { name: 'outcome', type: 'uint8' },
+  { name: 'minSharesOut', type: 'uint256' },
+  { name: 'maxAvgPrice', type: 'uint256' },
+  { name: 'deadline', type: 'uint64' },
+  { name: 'nonce', type: 'uint64' }
+] as const;
+
 export class BasisZeroAppLogic {
   
   /**
@@ -14,13 +31,17 @@ export class BasisZeroAppLogic {
    */
   encode(state: ChannelState): Hex {
     return encodeAbiParameters(
+      STATE_ABI,
       [
-        { name: 'marketId', type: 'string' },
-        { name: 'userId', type: 'string' },
-        { name: 'amount', type: 'uint256' },
-        { name: 'outcome', type: 'uint8' }
-      ],
-      [state.marketId, state.userId, state.amount, state.outcome]
+        state.marketId,
+        state.userId,
+        state.amount,
+        state.outcome,
+        state.minSharesOut,
+        state.maxAvgPrice,
+        state.deadline,
+        state.nonce
+      ]
     );
   }
 
@@ -28,21 +49,18 @@ export class BasisZeroAppLogic {
    * Decode bytes into state data
    */
   decode(data: Hex): ChannelState {
-    const [marketId, userId, amount, outcome] = decodeAbiParameters(
-      [
-        { name: 'marketId', type: 'string' },
-        { name: 'userId', type: 'string' },
-        { name: 'amount', type: 'uint256' },
-        { name: 'outcome', type: 'uint8' }
-      ],
-      data
-    );
+    const [marketId, userId, amount, outcome, minSharesOut, maxAvgPrice, deadline, nonce] =
+      decodeAbiParameters(STATE_ABI, data);
 
     return {
       marketId,
       userId,
       amount,
-      outcome
+      outcome,
+      minSharesOut,
+      maxAvgPrice,
+      deadline,
+      nonce
     };
   }
 
@@ -50,18 +68,23 @@ export class BasisZeroAppLogic {
    * Recover the signer of a state update
    */
   async recoverSigner(state: ChannelState, signature: Hex): Promise<string> {
-    // Reconstruct the message hash exactly as the client did
-    const intentHash = keccak256(
-        encodePacked(
-            ['string', 'string', 'uint256', 'uint8'],
-            [
-                state.marketId,
-                state.userId,
-                state.amount,
-                state.outcome
-            ]
-        )
-    );
+    // Reconstruct the message hash exactly as the client did: the nonce is
+    // only part of intents that carry one, and legacy intents without limits
+    // or a nonce sign just the bet
+    const bet = [state.marketId, state.userId, state.amount, state.outcome] as const;
+    const limits = [state.minSharesOut, state.maxAvgPrice, state.deadline] as const;
+    let packed: Hex;
+    if (state.nonce > 0n) {
+        packed = encodePacked(
+            ['string', 'string', 'uint256', 'uint8', 'uint256', 'uint256', 'uint64', 'uint64'],
+            [...bet, ...limits, state.nonce]
+        );
+    } else if (limits.some(limit => limit > 0n)) {
+        packed = encodePacked(['string', 'string', 'uint256', 'uint8', 'uint256', 'uint256', 'uint64'], [...bet, ...limits]);
+    } else {
+        packed = encodePacked(['string', 'string', 'uint256', 'uint8'], bet);
+    }
+    const intentHash = keccak256(packed);
     
     return await recoverAddress({ hash: intentHash, signature });
   }
@@ -75,8 +98,20 @@ export class BasisZeroAppLogic {
     if (state.amount <= 0n) return false;
     if (state.outcome !== 0 && state.outcome !== 1) return false;
     if (!state.marketId || !state.userId) return false;
+    if (state.minSharesOut < 0n || state.maxAvgPrice < 0n || state.deadline < 0n || state.nonce < 0n) return false;
     return true;
   }
+
+  /**
+   * Slippage limits the user signed (zero fields mean "no limit")
+   */
+  toTradeLimits(state: ChannelState): TradeLimits {
+    return {
+      minSharesOut: state.minSharesOut > 0n ? state.minSharesOut : undefined,
+      maxAvgPrice: state.maxAvgPrice > 0n ? Number(state.maxAvgPrice) / Number(PRICE_PRECISION) : undefined,
+      deadline: state.deadline > 0n ? Number(state.deadline) : undefined
+    };
+  }
 }
 
 export const appLogic = new BasisZeroAppLogic();
@@ -13,7 +13,7 @@
  * @see https://erc7824.org/quick_start
  */
 
-import { Router } from 'express';
+import { Router, type Request, type Response, type NextFunction } from 'express';
 import {
   createECDSAMessageSigner,
   type MessageSigner,
@@ -22,10 +22,11 @@ import { verifyMessage, recoverAddress } from 'ethers';
 import { privateKeyToAccount } from 'viem/accounts';
 import { createWalletClient, createPublicClient, http, type Address, type Hex, keccak256, encodePacked, toHex } from 'viem';
 import { polygonAmoy } from 'viem/chains';
-import { persistentPoolManager, Outcome } from '../amm';
+import { persistentPoolManager, Outcome, SlippageError, TradingHaltedError, TradeLimits } from '../amm';
 import * as ammRepository from '../db/amm-repository';
 import { SESSION_ESCROW_ADDRESS, SESSION_ESCROW_ABI } from './contracts';
 import { appLogic, ChannelState } from './app-logic';
+import { idempotent } from '../idempotency';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // TYPES
@@ -55,6 +56,24 @@ export interface Bet {
   won?: boolean;
 }
 
+/** A channel intent whose signature was checked against its session's key */
+interface VerifiedIntent {
+  state: ChannelState;
+  sessionId: Hex;
+  signer: string;
+}
+
+/**
+ * Idempotency key of a signed channel intent: its recovered signer and nonce
+ * (none for legacy intents without a nonce). Derived only once the signature
+ * is verified, so a forged intent can't claim another user's nonce.
+ */
+function intentIdempotencyKey(_req: Request, res: Response): string | undefined {
+  const intent: VerifiedIntent | undefined = res.locals.intent;
+  if (!intent || intent.state.nonce === 0n) return undefined;
+  return `intent:${intent.signer.toLowerCase()}:${intent.state.nonce}`;
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // YELLOW SESSION SERVICE
 // ═══════════════════════════════════════════════════════════════════════════
@@ -93,7 +112,7 @@ export class YellowSessionService {
     });
 
     // Open a new betting session (called after contract openSession)
-    this.router.post('/open', async (req, res) => {
+    this.router.post('/open', idempotent(), async (req, res) => {
       try {
         const { userAddress, sessionId, collateral, safeModeEnabled, rwaRateBps } = req.body;
 
@@ -138,7 +157,7 @@ export class YellowSessionService {
     });
 
     // Place a bet in active session
-    this.router.post('/bet', async (req, res) => {
+    this.router.post('/bet', idempotent(), async (req, res) => {
       try {
         const { sessionId, marketId, side, amount } = req.body;
         const result = await this.placeBet(
@@ -153,12 +172,15 @@ export class YellowSessionService {
           availableBalance: result.availableBalance.toString(),
         });
       } catch (error) {
+        if (error instanceof TradingHaltedError) {
+          return res.status(409).json({ error: error.message, code: error.code });
+        }
         res.status(500).json({ error: String(error) });
       }
     });
 
     // Close session and get settlement signature
-    this.router.post('/close', async (req, res) => {
+    this.router.post('/close', idempotent(), async (req, res) => {
       try {
         const { sessionId } = req.body;
 
@@ -180,7 +202,7 @@ export class YellowSessionService {
 
     // Recover/re-register an existing on-chain session with backend
     // Use this after backend restart when session is still active on-chain
-    this.router.post('/recover', async (req, res) => {
+    this.router.post('/recover', idempotent(), async (req, res) => {
       try {
         const { userAddress, sessionId, collateral, safeModeEnabled } = req.body;
 
@@ -238,7 +260,7 @@ export class YellowSessionService {
 
     // Register a session key (frontend sends sessionKeyAddress + user's wallet signature)
     // Body: { sessionId, sessionKeyAddress, authorizationSignature }
-    this.router.post('/channel/register', async (req, res) => {
+    this.router.post('/channel/register', idempotent(), async (req, res) => {
       try {
         const { sessionId, sessionKeyAddress, authorizationSignature } = req.body;
 
@@ -275,7 +297,7 @@ export class YellowSessionService {
         try {
           await ammRepository.updateSessionKey(sessionId, sessionKeyAddress.toLowerCase());
         } catch (err) {
-          console.warn('[channel/register] Failed to persist session key to DB (maybe column missing)', err);
+          console.warn('[channel/register] Failed to persist session key to DB', err);
         }
 
         return res.json({ success: true, sessionKey: sessionKeyAddress });
@@ -286,48 +308,21 @@ export class YellowSessionService {
     });
 
     // Receive signed state update from client (channel-based flow)
-    // Body: { marketId, userId, amount, outcome, signature }
-    this.router.post('/channel/update', async (req, res) => {
+    // Body: { marketId, userId, amount, outcome, minSharesOut?, maxAvgPrice?, deadline?, nonce?, signature }
+    // (limits exactly as signed: maxAvgPrice in 1e9 fixed point, deadline in unix seconds)
+    // A signed nonce doubles as the idempotency key when no Idempotency-Key header is sent
+    this.router.post('/channel/update', this.verifyChannelIntent.bind(this), idempotent({ keyFromRequest: intentIdempotencyKey }), async (req, res) => {
       try {
-        const { marketId, userId, amount, outcome, signature } = req.body;
-        const state: ChannelState = {
-            marketId,
-            userId,
-            amount: BigInt(amount),
-            outcome: outcome === 'YES' ? 0 : 1
-        };
-
-        // 1. Recover Signer using AppLogic (reconstructs exact intent hash)
-        let signer: string;
-        try {
-            signer = await appLogic.recoverSigner(state, signature as Hex);
-        } catch (e) {
-            return res.status(400).json({ error: 'Invalid signature recovery' });
-        }
-
-        // 2. Locate Session
-        const sessionId = this.userSessions.get(userId.toLowerCase() as Address);
-        if (!sessionId) return res.status(404).json({ error: 'No active session for user' });
-
-        const session = this.sessions.get(sessionId);
-        if (!session) return res.status(404).json({ error: 'Session not found' });
-
-        // 3. Verify Session Key Authorization
-        if (!session.sessionKey || session.sessionKey.toLowerCase() !== signer.toLowerCase()) {
-             return res.status(401).json({ error: 'Unauthorized session key signature' });
-        }
-
-        // 4. Validate Logic
-        if (!appLogic.validate(state)) {
-            return res.status(400).json({ error: 'Invalid bet state params' });
-        }
+        const { marketId, outcome } = req.body;
+        const { state, sessionId }: VerifiedIntent = res.locals.intent;
 
         // 5. Execute Bet
         const result = await this.placeBet(
             sessionId,
             marketId,
             outcome as 'YES' | 'NO',
-            BigInt(amount)
+            state.amount,
+            appLogic.toTradeLimits(state)
         );
 
         // 6. Return Result (Server "Signs" by processing and returning 200)
@@ -337,6 +332,9 @@ export class YellowSessionService {
           availableBalance: result.availableBalance.toString(),
         });
       } catch (error) {
+        if (error instanceof SlippageError || error instanceof TradingHaltedError) {
+          return res.status(409).json({ error: error.message, code: error.code });
+        }
         console.error('[channel/update] Error:', error);
         return res.status(500).json({ error: String(error) });
       }
@@ -367,6 +365,58 @@ export class YellowSessionService {
     });
   }
 
+  /**
+   * Check a channel intent's signature against its session's key before
+   * anything is claimed or executed, leaving it in res.locals.intent
+   */
+  private async verifyChannelIntent(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { marketId, userId, amount, outcome, minSharesOut, maxAvgPrice, deadline, nonce, signature } = req.body;
+      const state: ChannelState = {
+          marketId,
+          userId,
+          amount: BigInt(amount),
+          outcome: outcome === 'YES' ? 0 : 1,
+          minSharesOut: BigInt(minSharesOut ?? 0),
+          maxAvgPrice: BigInt(maxAvgPrice ?? 0),
+          deadline: BigInt(deadline ?? 0),
+          nonce: BigInt(nonce ?? 0)
+      };
+
+      // 1. Recover Signer using AppLogic (reconstructs exact intent hash)
+      let signer: string;
+      try {
+          signer = await appLogic.recoverSigner(state, signature as Hex);
+      } catch (e) {
+          return res.status(400).json({ error: 'Invalid signature recovery' });
+      }
+
+      // 2. Locate Session
+      const sessionId = this.userSessions.get(userId.toLowerCase() as Address);
+      if (!sessionId) return res.status(404).json({ error: 'No active session for user' });
+
+      const session = this.sessions.get(sessionId);
+      if (!session) return res.status(404).json({ error: 'Session not found' });
+
+      // 3. Verify Session Key Authorization
+      if (!session.sessionKey || session.sessionKey.toLowerCase() !== signer.toLowerCase()) {
+           return res.status(401).json({ error: 'Unauthorized session key signature' });
+      }
+
+      // 4. Validate Logic
+      if (!appLogic.validate(state)) {
+          return res.status(400).json({ error: 'Invalid bet state params' });
+      }
+
+      const intent: VerifiedIntent = { state, sessionId, signer };
+      res.locals.intent = intent;
+      next();
+    } catch (error) {
+      console.error('[channel/update] Error:', error);
+      return res.status(500).json({ error: String(error) });
+    }
+  }
+
   // Serialize session for JSON response
   private serializeSession(session: SessionConfig) {
     return {
@@ -522,7 +572,8 @@ export class YellowSessionService {
     sessionId: Hex,
     marketId: string,
     side: 'YES' | 'NO',
-    amount: bigint
+    amount: bigint,
+    limits: TradeLimits = {}
   ): Promise<{ success: boolean; bet: Bet; availableBalance: bigint }> {
     const session = this.sessions.get(sessionId);
     if (!session) {
@@ -549,7 +600,8 @@ export class YellowSessionService {
       marketId,
       sessionId, // Use sessionId as userId for DB positions
       amount,
-      outcome
+      outcome,
+      limits
     );
 
     // Create bet record (In-memory for session history, though DB has it too)
@@ -620,8 +672,7 @@ export class YellowSessionService {
           const shares = BigInt(pos.shares);
           if (shares > 0n) {
             try {
-              const outcome = pos.outcome === 'YES' ? Outcome.YES : Outcome.NO;
-              await sellPositionDB(pos.market_id, sessionId, shares, outcome);
+              await sellPositionDB(pos.market_id, sessionId, shares, pos.outcome);
               console.log(`🟡 Auto-sold ${shares} ${pos.outcome} shares in ${pos.market_id}`);
             } catch (sellErr) {
               console.warn(`🟡 Failed to auto-sell position ${pos.market_id}/${pos.outcome}: ${sellErr}`);
@@ -666,12 +717,7 @@ export class YellowSessionService {
     try {
       const dbSession = await ammRepository.getSession(sessionId);
       if (dbSession) {
-        await ammRepository.updateSessionBalance(
-          sessionId,
-          BigInt(dbSession.current_balance),
-          signature,
-          dbSession.nonce + 1
-        );
+        await ammRepository.updateSessionSignature(sessionId, signature, dbSession.nonce + 1);
       }
     } catch (err) {
       console.warn(`🟡 Failed to persist settlement signature to DB:`, err);
@@ -712,9 +758,9 @@ export class YellowSessionService {
             sessionId: row.session_id as Hex,
             user: row.user_address as Address,
             collateral: BigInt(row.initial_collateral),
-            rwaRateBps: (row as any).rwa_rate_bps || 520,
+            rwaRateBps: row.rwa_rate_bps || 520,
             initialYield: BigInt(0),
-            safeModeEnabled: (row as any).safe_mode_enabled ?? true,
+            safeModeEnabled: row.safe_mode_enabled ?? true,
             createdAt: new Date(row.created_at).getTime(),
             status: row.status === 'OPEN' ? 'active' : 'closed' as any
           };
@@ -747,21 +793,15 @@ export class YellowSessionService {
 
     // 2. Calculate Locked Amount (Used for bets)
     // Only count positions from ACTIVE markets (not resolved/cancelled)
-    // Locked = Sum(Shares * AvgEntryPrice) for positions in ACTIVE markets only
+    // Locked = Sum(cost basis) of positions in ACTIVE markets only
     let openBetsLocked = BigInt(0);
 
     try {
       const positions = await ammRepository.getUserActivePositions(sessionId);
 
       for (const pos of positions) {
-        // shares is string in DB, average_entry_price is number
-        const sharesProps = BigInt(pos.shares);
-        if (sharesProps > 0n) {
-          // Cost Basis = Shares * AvgPrice
-          // Note: Shares are in 6 decimals (USDC). Price is ratio 0-1.
-          // So Cost = Shares * Price
-          const cost = Number(sharesProps) * pos.average_entry_price;
-          openBetsLocked += BigInt(Math.floor(cost));
+        if (BigInt(pos.shares) > 0n) {
+          openBetsLocked += BigInt(pos.cost_basis);
         }
       }
     } catch (err) {
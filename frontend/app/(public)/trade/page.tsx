@@ -5,6 +5,8 @@ import dynamic from 'next/dynamic'
 import { StreamingBalance } from "@/components/trade/streaming-balance"
 import { MarketGrid } from "@/components/trade/market-grid"
 import { OrderBook } from "@/components/trade/order-book"
+import { OpenOrders } from "@/components/trade/open-orders"
+import { ProposedResolutions } from "@/components/trade/proposed-resolutions"
 import { CreateMarketDialog, CreateMarketButton } from "@/components/trade/create-market-dialog"
 import { useMarkets } from "@/hooks/use-amm"
 import { useSessionEscrow, SessionState } from "@/hooks/use-session-escrow"
@@ -133,6 +135,16 @@ export default function TradePage() {
                             isSafeMode={isSafeMode}
                             onToggleSafeMode={setIsSafeMode}
                         />
+
+                        {/* Resting Limit Orders */}
+                        <OpenOrders
+                            selectedMarket={selectedMarket}
+                            userId={activeSessionId || address || "guest"}
+                            maxAmount={maxBettingAmount}
+                        />
+
+                        {/* Resolutions open to disputes */}
+                        <ProposedResolutions sessionId={hasActiveSession ? activeSessionId ?? null : null} />
                     </div>
 
 
@@ -167,6 +179,7 @@ export default function TradePage() {
             <CreateMarketDialog
                 isOpen={showCreateDialog}
                 onClose={() => setShowCreateDialog(false)}
+                sessionId={hasActiveSession ? activeSessionId ?? null : null}
             />
         </div>
     )
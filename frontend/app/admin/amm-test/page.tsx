@@ -65,7 +65,8 @@ export default function AMMTestPage() {
         description: "",
         category: "crypto",
         expiresAt: "",
-        initialLiquidity: "1000000000" // 1000 USDC (6 decimals)
+        initialLiquidity: "1000000000", // 1000 USDC (6 decimals)
+        creatorId: "" // Session that funds the liquidity
     })
 
     const [newSession, setNewSession] = useState({
@@ -175,7 +176,8 @@ export default function AMMTestPage() {
                     description: newMarket.description,
                     category: newMarket.category,
                     expiresAt: newMarket.expiresAt || new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
-                    initialLiquidity: newMarket.initialLiquidity
+                    initialLiquidity: newMarket.initialLiquidity,
+                    creatorId: newMarket.creatorId
                 })
             })
 
@@ -192,7 +194,8 @@ export default function AMMTestPage() {
                 description: "",
                 category: "crypto",
                 expiresAt: "",
-                initialLiquidity: "1000000000"
+                initialLiquidity: "1000000000",
+                creatorId: ""
             })
             fetchData()
         } catch (err) {
@@ -904,6 +907,25 @@ export default function AMMTestPage() {
                                             </p>
                                         </div>
 
+                                        <div>
+                                            <Label>Funding Session</Label>
+                                            <Select value={newMarket.creatorId} onValueChange={(v) => setNewMarket({ ...newMarket, creatorId: v })}>
+                                                <SelectTrigger>
+                                                    <SelectValue placeholder="Select session" />
+                                                </SelectTrigger>
+                                                <SelectContent>
+                                                    {sessions.map(s => (
+                                                        <SelectItem key={s.session_id} value={s.session_id}>
+                                                            {s.session_id} (${formatUSDC(s.current_balance)})
+                                                        </SelectItem>
+                                                    ))}
+                                                </SelectContent>
+                                            </Select>
+                                            <p className="text-xs text-muted-foreground mt-1">
+                                                Liquidity is debited from this session, which receives the LP shares
+                                            </p>
+                                        </div>
+
                                         <Button type="submit" disabled={loading} className="w-full">
                                             {loading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
                                             Create Market
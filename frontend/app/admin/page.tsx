@@ -4,8 +4,16 @@ import { useState, useEffect } from "react"
 import { useAccount, useReadContract, useWriteContract, useWaitForTransactionReceipt } from "wagmi"
 import { SESSION_ESCROW_ADDRESS, SESSION_ESCROW_ABI } from "@/lib/contracts"
 import { parseUnits, type Address } from "viem"
-import { Loader2, ShieldAlert, Settings, Save } from "lucide-react"
+import { Loader2, ShieldAlert, Settings, Save, Scale, RefreshCw, Gavel, Radio } from "lucide-react"
 import { polygonAmoy } from "viem/chains"
+import { useReconciliationReport, useRunReconciliation, useProposedResolutions, useDecideDispute, useOracleStatus } from "@/hooks/use-amm"
+import { formatUSDC, isScalarMarket, type Market } from "@/lib/amm-types"
+
+/** formatUSDC for amounts that may be negative (e.g. realized PnL) */
+function formatSignedUSDC(amount: string): string {
+    const value = BigInt(amount)
+    return value < BigInt(0) ? `-${formatUSDC(-value)}` : formatUSDC(value)
+}
 
 export default function AdminPage() {
     const { address, isConnected } = useAccount()
@@ -16,6 +24,23 @@ export default function AdminPage() {
     const [treasuryInput, setTreasuryInput] = useState("")
     const [signaturesInput, setSignaturesInput] = useState("")
 
+    // Backend solvency reconciliation
+    const { data: reconciliation, isLoading: isLoadingReconciliation, error: reconciliationError } = useReconciliationReport()
+    const runReconciliation = useRunReconciliation()
+    const report = reconciliation?.report
+
+    // Disputed resolutions awaiting a decision
+    const { data: proposed } = useProposedResolutions()
+    const decideDispute = useDecideDispute()
+    const [decisionValues, setDecisionValues] = useState<Record<string, string>>({})
+    const disputedMarkets = (proposed?.markets ?? []).filter(m => m.status === 'DISPUTED')
+    // Oracle resolution scheduler
+    const { data: oracle, error: oracleError } = useOracleStatus()
+    const oracleStatus = oracle?.status
+
+    const decisionOptions = (market: Market) =>
+        market.outcomes && market.outcomes.length > 0 ? market.outcomes : ['YES', 'NO']
+
     // Read current settings
     const { data: currentRate } = useReadContract({
         address: SESSION_ESCROW_ADDRESS,
@@ -369,6 +394,219 @@ export default function AdminPage() {
                     </div>
                 </div>
             </div>
+
+            {/* Solvency Reconciliation */}
+            <div className="rounded-xl border border-border bg-card/60 glass p-6">
+                <div className="flex items-center justify-between gap-2 mb-6">
+                    <div className="flex items-center gap-2">
+                        <Scale className="h-5 w-5 text-primary" />
+                        <h2 className="text-xl font-bold">Solvency Reconciliation</h2>
+                    </div>
+                    <button
+                        onClick={() => runReconciliation.mutate()}
+                        disabled={runReconciliation.isPending}
+                        className="bg-secondary text-secondary-foreground hover:bg-secondary/80 px-4 py-2 rounded-lg font-medium flex items-center justify-center gap-2"
+                    >
+                        {runReconciliation.isPending ? <Loader2 className="animate-spin h-4 w-4" /> : <RefreshCw className="h-4 w-4" />}
+                        Run Now
+                    </button>
+                </div>
+
+                {runReconciliation.error && (
+                    <p className="text-red-500 text-sm mb-4">{runReconciliation.error.message}</p>
+                )}
+
+                {isLoadingReconciliation ? (
+                    <p className="text-muted-foreground text-sm">Loading...</p>
+                ) : reconciliationError ? (
+                    <p className="text-red-500 text-sm">{reconciliationError.message}</p>
+                ) : !report ? (
+                    <p className="text-muted-foreground text-sm">No reconciliation has run yet.</p>
+                ) : (
+                    <div className="space-y-6">
+                        <p className="text-xs text-muted-foreground">
+                            Run #{report.run.id} finished {new Date(report.run.finished_at).toLocaleString()} ·{" "}
+                            {report.run.markets_checked} markets, {report.run.sessions_checked} sessions checked
+                        </p>
+
+                        <div className="grid gap-4 md:grid-cols-3">
+                            {[
+                                ["Market Collateral", report.run.totals.collateral],
+                                ["Worst-Case Payout", report.run.totals.worstCasePayout],
+                                ["Session Balances", report.run.totals.sessionBalances],
+                                ["Locked Cost Basis", report.run.totals.lockedCostBasis],
+                                ["Deposits", report.run.totals.deposits],
+                                ["Realized PnL", report.run.totals.realizedPnl],
+                            ].map(([label, amount]) => (
+                                <div key={label}>
+                                    <label className="block text-sm font-medium text-muted-foreground mb-1">{label}</label>
+                                    <div className="text-lg font-mono font-bold">${formatSignedUSDC(amount)}</div>
+                                </div>
+                            ))}
+                        </div>
+
+                        {report.discrepancies.length === 0 ? (
+                            <p className="text-green-500 text-sm">No discrepancies found.</p>
+                        ) : (
+                            <div className="space-y-2">
+                                <p className="text-red-500 text-sm font-medium">
+                                    {report.discrepancies.length} discrepancies found
+                                </p>
+                                {report.discrepancies.map((d, i) => (
+                                    <div key={i} className="bg-red-500/10 border border-red-500/30 p-3 rounded-lg text-sm">
+                                        <div className="flex justify-between gap-2">
+                                            <span className="font-medium">{d.kind}</span>
+                                            <span className="font-mono text-xs break-all">{d.subject_id}</span>
+                                        </div>
+                                        <p className="text-xs text-muted-foreground mt-1 font-mono">
+                                            expected ${formatSignedUSDC(d.expected)} · actual ${formatSignedUSDC(d.actual)}
+                                        </p>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                )}
+            </div>
+
+            {/* Oracle Scheduler */}
+            <div className="rounded-xl border border-border bg-card/60 glass p-6">
+                <div className="flex items-center gap-2 mb-6">
+                    <Radio className="h-5 w-5 text-primary" />
+                    <h2 className="text-xl font-bold">Oracle Scheduler</h2>
+                </div>
+
+                {oracleError ? (
+                    <p className="text-red-500 text-sm">{oracleError.message}</p>
+                ) : !oracleStatus ? (
+                    <p className="text-muted-foreground text-sm">Loading...</p>
+                ) : (
+                    <div className="space-y-6">
+                        <p className="text-xs text-muted-foreground">
+                            {oracleStatus.running ? `Running every ${(oracleStatus.intervalMs ?? 0) / 1000}s` : "Not running"} ·{" "}
+                            {oracleStatus.lastPassAt ? `last pass ${new Date(oracleStatus.lastPassAt).toLocaleString()}` : "no pass yet"} ·{" "}
+                            {oracleStatus.totalResolved} resolved since startup
+                        </p>
+                        {oracleStatus.lastPassError && (
+                            <p className="text-red-500 text-sm">{oracleStatus.lastPassError}</p>
+                        )}
+
+                        {oracleStatus.retries.length > 0 && (
+                            <div className="space-y-2">
+                                <p className="text-yellow-500 text-sm font-medium">
+                                    {oracleStatus.retries.length} markets awaiting a retry
+                                </p>
+                                {oracleStatus.retries.map((retry) => (
+                                    <div key={retry.marketId} className="bg-yellow-500/10 border border-yellow-500/30 p-3 rounded-lg text-sm">
+                                        <div className="flex justify-between gap-2">
+                                            <span className="font-mono text-xs break-all">{retry.marketId}</span>
+                                            <span className="text-xs">attempt {retry.attempts}</span>
+                                        </div>
+                                        <p className="text-xs text-muted-foreground mt-1">
+                                            {retry.lastError} · next try {new Date(retry.nextAttemptAt).toLocaleString()}
+                                        </p>
+                                        {retry.lastEvidence && retry.lastEvidence.sources.length > 0 && (
+                                            <p className="text-xs text-muted-foreground mt-1 font-mono">
+                                                {retry.lastEvidence.sources
+                                                    .map((s) => `${s.source}: ${s.price !== null ? `$${s.price}` : "-"} ${s.status}`)
+                                                    .join(" · ")}
+                                            </p>
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+
+                        {oracleStatus.recentResolutions.length === 0 ? (
+                            <p className="text-muted-foreground text-sm">No oracle resolutions yet.</p>
+                        ) : (
+                            <div className="space-y-2">
+                                {oracleStatus.recentResolutions.map((resolution) => (
+                                    <div key={resolution.marketId} className="border border-border p-3 rounded-lg text-sm">
+                                        <div className="flex justify-between gap-2">
+                                            <span className="font-mono text-xs break-all">{resolution.marketId}</span>
+                                            <span className="font-medium">{resolution.status} {resolution.resolutionValue}</span>
+                                        </div>
+                                        <p className="text-xs text-muted-foreground mt-1 font-mono">
+                                            ${resolution.price} from {resolution.source}, published {new Date(resolution.publishedAt).toLocaleString()}
+                                        </p>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                )}
+            </div>
+
+            {/* Resolution Disputes */}
+            <div className="rounded-xl border border-border bg-card/60 glass p-6">
+                <div className="flex items-center gap-2 mb-6">
+                    <Gavel className="h-5 w-5 text-primary" />
+                    <h2 className="text-xl font-bold">Resolution Disputes</h2>
+                </div>
+
+                {decideDispute.error && (
+                    <p className="text-red-500 text-sm mb-4">{decideDispute.error.message}</p>
+                )}
+                {decideDispute.data && (
+                    <p className="text-green-500 text-sm mb-4">
+                        Resolved to {decideDispute.data.resolutionValue}, bond of ${formatUSDC(decideDispute.data.bond)}{" "}
+                        {decideDispute.data.bondOutcome === 'SLASHED' ? 'slashed to the treasury' : 'returned to the disputer'}.
+                    </p>
+                )}
+
+                {disputedMarkets.length === 0 ? (
+                    <p className="text-muted-foreground text-sm">No disputed resolutions.</p>
+                ) : (
+                    <div className="space-y-4">
+                        {disputedMarkets.map((market) => (
+                            <div key={market.marketId} className="border border-border p-4 rounded-lg space-y-3">
+                                <div>
+                                    <p className="font-medium">{market.title}</p>
+                                    <p className="text-xs text-muted-foreground font-mono mt-1 break-all">
+                                        Proposed {market.proposedValue} by {market.proposedBy ?? 'unknown'} · disputed by {market.disputedBy} · bond ${formatUSDC(market.disputeBond)}
+                                    </p>
+                                    {market.disputeReason && (
+                                        <p className="text-sm text-muted-foreground mt-1">&ldquo;{market.disputeReason}&rdquo;</p>
+                                    )}
+                                </div>
+
+                                {isScalarMarket(market) ? (
+                                    <div className="flex gap-2">
+                                        <input
+                                            type="number"
+                                            value={decisionValues[market.marketId] ?? ""}
+                                            onChange={(e) => setDecisionValues({ ...decisionValues, [market.marketId]: e.target.value })}
+                                            placeholder="Observed value"
+                                            className="flex-1 bg-secondary/50 border border-border rounded-lg px-4 py-2"
+                                        />
+                                        <button
+                                            onClick={() => decideDispute.mutate({ marketId: market.marketId, value: Number(decisionValues[market.marketId]) })}
+                                            disabled={decideDispute.isPending || !decisionValues[market.marketId]}
+                                            className="bg-primary text-primary-foreground hover:bg-primary/90 px-4 py-2 rounded-lg font-medium"
+                                        >
+                                            Decide
+                                        </button>
+                                    </div>
+                                ) : (
+                                    <div className="flex flex-wrap gap-2">
+                                        {decisionOptions(market).map((option) => (
+                                            <button
+                                                key={option}
+                                                onClick={() => decideDispute.mutate({ marketId: market.marketId, outcome: option })}
+                                                disabled={decideDispute.isPending}
+                                                className="bg-secondary text-secondary-foreground hover:bg-secondary/80 px-4 py-2 rounded-lg font-medium"
+                                            >
+                                                {option === market.proposedValue ? `Uphold ${option}` : `Resolve ${option}`}
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
         </div>
     )
 }
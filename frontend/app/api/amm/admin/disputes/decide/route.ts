@@ -0,0 +1,34 @@
+/**
+ * AMM Dispute Decision API Route - Proxies to Backend
+ * Decides a disputed resolution (admin)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { forwardIdempotencyKey, replayHeaders } from '@/lib/idempotency';
+
+const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:3001';
+
+// Server-side only: the backend's admin key never reaches the browser
+const ADMIN_API_KEY = process.env.ADMIN_API_KEY || '';
+
+export async function POST(request: NextRequest) {
+    try {
+        const { marketId, outcome, value, decidedBy } = await request.json();
+
+        const response = await fetch(`${BACKEND_URL}/api/amm/admin/disputes/decide`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'x-admin-key': ADMIN_API_KEY,
+                ...forwardIdempotencyKey(request)
+            },
+            body: JSON.stringify({ marketId, outcome, value, decidedBy }),
+        });
+
+        const data = await response.json();
+        return NextResponse.json(data, { status: response.status, headers: replayHeaders(response) });
+    } catch (error) {
+        console.error('[AMM Dispute Decision] Backend error:', error);
+        return NextResponse.json({ error: 'Backend unavailable' }, { status: 503 });
+    }
+}
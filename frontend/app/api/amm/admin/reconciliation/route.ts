@@ -0,0 +1,26 @@
+/**
+ * AMM Reconciliation Report API Route - Proxies to Backend
+ * Fetches the latest solvency reconciliation report (admin)
+ */
+
+import { NextResponse } from 'next/server';
+
+const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:3001';
+
+// Server-side only: the backend's admin key never reaches the browser
+const ADMIN_API_KEY = process.env.ADMIN_API_KEY || '';
+
+export async function GET() {
+    try {
+        const response = await fetch(`${BACKEND_URL}/api/amm/admin/reconciliation`, {
+            headers: { 'x-admin-key': ADMIN_API_KEY },
+            cache: 'no-store',
+        });
+
+        const data = await response.json();
+        return NextResponse.json(data, { status: response.status });
+    } catch (error) {
+        console.error('[AMM Reconciliation] Backend error:', error);
+        return NextResponse.json({ error: 'Backend unavailable' }, { status: 503 });
+    }
+}
@@ -0,0 +1,32 @@
+/**
+ * AMM Reconciliation Run API Route - Proxies to Backend
+ * Runs solvency reconciliation now (admin)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { forwardIdempotencyKey, replayHeaders } from '@/lib/idempotency';
+
+const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:3001';
+
+// Server-side only: the backend's admin key never reaches the browser
+const ADMIN_API_KEY = process.env.ADMIN_API_KEY || '';
+
+export async function POST(request: NextRequest) {
+    try {
+        const response = await fetch(`${BACKEND_URL}/api/amm/admin/reconciliation/run`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'x-admin-key': ADMIN_API_KEY,
+                ...forwardIdempotencyKey(request)
+            },
+            body: JSON.stringify({}),
+        });
+
+        const data = await response.json();
+        return NextResponse.json(data, { status: response.status, headers: replayHeaders(response) });
+    } catch (error) {
+        console.error('[AMM Reconciliation] Backend error:', error);
+        return NextResponse.json({ error: 'Backend unavailable' }, { status: 503 });
+    }
+}
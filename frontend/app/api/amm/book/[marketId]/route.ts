@@ -0,0 +1,25 @@
+/**
+ * AMM Order Book API Route - Proxies to Backend
+ * Fetches a market's resting bids and asks, aggregated by price
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:3001';
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ marketId: string }> }
+) {
+    try {
+        const { marketId } = await params;
+
+        const response = await fetch(`${BACKEND_URL}/api/amm/book/${marketId}`);
+
+        const data = await response.json();
+        return NextResponse.json(data, { status: response.status });
+    } catch (error) {
+        console.error('[AMM Order Book] Backend error:', error);
+        return NextResponse.json({ error: 'Backend unavailable' }, { status: 503 });
+    }
+}
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { forwardIdempotencyKey, replayHeaders } from '@/lib/idempotency';
 
 const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:3001';
 
@@ -15,7 +16,7 @@ export async function POST(request: NextRequest) {
 
         const response = await fetch(`${BACKEND_URL}/api/amm/claim`, {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
+            headers: { 'Content-Type': 'application/json', ...forwardIdempotencyKey(request) },
             body: JSON.stringify(body),
         });
 
@@ -25,7 +26,7 @@ export async function POST(request: NextRequest) {
         }
 
         const data = await response.json();
-        return NextResponse.json(data);
+        return NextResponse.json(data, { headers: replayHeaders(response) });
     } catch (error) {
         console.error('[AMM Claim] Proxy error:', error);
         return NextResponse.json(
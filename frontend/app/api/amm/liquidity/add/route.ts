@@ -0,0 +1,26 @@
+/**
+ * AMM Add Liquidity API Route - Proxies to Backend
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { forwardIdempotencyKey, replayHeaders } from '@/lib/idempotency';
+
+const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:3001';
+
+export async function POST(request: NextRequest) {
+    try {
+        const { marketId, userId, amount } = await request.json();
+
+        const response = await fetch(`${BACKEND_URL}/api/amm/liquidity/add`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...forwardIdempotencyKey(request) },
+            body: JSON.stringify({ marketId, userId, amount }),
+        });
+
+        const data = await response.json();
+        return NextResponse.json(data, { status: response.status, headers: replayHeaders(response) });
+    } catch (error) {
+        console.error('[AMM Add Liquidity] Backend error:', error);
+        return NextResponse.json({ error: 'Backend unavailable' }, { status: 503 });
+    }
+}
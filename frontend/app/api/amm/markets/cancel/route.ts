@@ -0,0 +1,27 @@
+/**
+ * AMM Cancel Market API Route - Proxies to Backend
+ * Cancels a market and refunds every holder (market resolver only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { forwardIdempotencyKey, replayHeaders } from '@/lib/idempotency';
+
+const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:3001';
+
+export async function POST(request: NextRequest) {
+    try {
+        const { marketId, refundMode, signature } = await request.json();
+
+        const response = await fetch(`${BACKEND_URL}/api/amm/cancel`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...forwardIdempotencyKey(request) },
+            body: JSON.stringify({ marketId, refundMode, signature }),
+        });
+
+        const data = await response.json();
+        return NextResponse.json(data, { status: response.status, headers: replayHeaders(response) });
+    } catch (error) {
+        console.error('[AMM Cancel Market] Backend error:', error);
+        return NextResponse.json({ error: 'Backend unavailable' }, { status: 503 });
+    }
+}
@@ -0,0 +1,27 @@
+/**
+ * AMM Dispute Resolution API Route - Proxies to Backend
+ * Disputes a proposed resolution, posting the market's bond from the session
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { forwardIdempotencyKey, replayHeaders } from '@/lib/idempotency';
+
+const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:3001';
+
+export async function POST(request: NextRequest) {
+    try {
+        const { marketId, userId, reason } = await request.json();
+
+        const response = await fetch(`${BACKEND_URL}/api/amm/dispute`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...forwardIdempotencyKey(request) },
+            body: JSON.stringify({ marketId, userId, reason }),
+        });
+
+        const data = await response.json();
+        return NextResponse.json(data, { status: response.status, headers: replayHeaders(response) });
+    } catch (error) {
+        console.error('[AMM Dispute] Backend error:', error);
+        return NextResponse.json({ error: 'Backend unavailable' }, { status: 503 });
+    }
+}
@@ -0,0 +1,22 @@
+/**
+ * AMM Proposed Resolutions API Route - Proxies to Backend
+ * Fetches resolutions proposed or disputed but not yet final
+ */
+
+import { NextResponse } from 'next/server';
+
+const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:3001';
+
+export async function GET() {
+    try {
+        const response = await fetch(`${BACKEND_URL}/api/amm/proposed-resolutions`, {
+            cache: 'no-store',
+        });
+
+        const data = await response.json();
+        return NextResponse.json(data, { status: response.status });
+    } catch (error) {
+        console.error('[AMM Proposed Resolutions] Backend error:', error);
+        return NextResponse.json({ error: 'Backend unavailable', markets: [] }, { status: 503 });
+    }
+}
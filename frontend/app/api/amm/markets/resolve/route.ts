@@ -3,6 +3,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { forwardIdempotencyKey, replayHeaders } from '@/lib/idempotency';
 
 const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:3001';
 
@@ -20,7 +21,7 @@ export async function POST(request: NextRequest) {
 
         const response = await fetch(`${BACKEND_URL}/api/amm/resolve`, {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
+            headers: { 'Content-Type': 'application/json', ...forwardIdempotencyKey(request) },
             body: JSON.stringify(body),
         });
 
@@ -30,7 +31,7 @@ export async function POST(request: NextRequest) {
         }
 
         const data = await response.json();
-        return NextResponse.json(data);
+        return NextResponse.json(data, { headers: replayHeaders(response) });
     } catch (error) {
         console.error('[AMM Resolve] Backend error:', error);
         return NextResponse.json(
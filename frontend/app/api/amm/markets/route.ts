@@ -3,6 +3,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { forwardIdempotencyKey, replayHeaders } from '@/lib/idempotency';
 
 const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:3001';
 
@@ -24,12 +25,12 @@ export async function POST(request: NextRequest) {
         // Backend expects 'create' endpoint for POST
         const response = await fetch(`${BACKEND_URL}/api/amm/create`, {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
+            headers: { 'Content-Type': 'application/json', ...forwardIdempotencyKey(request) },
             body: JSON.stringify(body),
         });
 
         const data = await response.json();
-        return NextResponse.json(data, { status: response.status });
+        return NextResponse.json(data, { status: response.status, headers: replayHeaders(response) });
     } catch (error) {
         console.error('[AMM Create Market] Backend error:', error);
         return NextResponse.json({ error: 'Backend unavailable' }, { status: 503 });
@@ -0,0 +1,22 @@
+/**
+ * AMM Oracle Assets API Route - Proxies to Backend
+ * Fetches the assets oracle markets can resolve against, with their providers
+ */
+
+import { NextResponse } from 'next/server';
+
+const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:3001';
+
+export async function GET() {
+    try {
+        const response = await fetch(`${BACKEND_URL}/api/amm/oracle/assets`, {
+            cache: 'no-store',
+        });
+
+        const data = await response.json();
+        return NextResponse.json(data, { status: response.status });
+    } catch (error) {
+        console.error('[AMM Oracle Assets] Backend error:', error);
+        return NextResponse.json({ error: 'Backend unavailable' }, { status: 503 });
+    }
+}
@@ -0,0 +1,22 @@
+/**
+ * AMM Oracle Status API Route - Proxies to Backend
+ * Fetches the oracle scheduler's state: retries pending and latest resolutions
+ */
+
+import { NextResponse } from 'next/server';
+
+const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:3001';
+
+export async function GET() {
+    try {
+        const response = await fetch(`${BACKEND_URL}/api/amm/oracle/status`, {
+            cache: 'no-store',
+        });
+
+        const data = await response.json();
+        return NextResponse.json(data, { status: response.status });
+    } catch (error) {
+        console.error('[AMM Oracle Status] Backend error:', error);
+        return NextResponse.json({ error: 'Backend unavailable' }, { status: 503 });
+    }
+}
@@ -0,0 +1,29 @@
+/**
+ * AMM User Limit Orders API Route - Proxies to Backend
+ * Fetches a user's limit orders, optionally filtered by ?status=
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:3001';
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ userId: string }> }
+) {
+    try {
+        const { userId } = await params;
+        const status = request.nextUrl.searchParams.get('status');
+        const query = status ? `?status=${encodeURIComponent(status)}` : '';
+
+        const response = await fetch(
+            `${BACKEND_URL}/api/amm/orders/${userId}${query}`
+        );
+
+        const data = await response.json();
+        return NextResponse.json(data);
+    } catch (error) {
+        console.error('[AMM Limit Orders] Backend error:', error);
+        return NextResponse.json({ orders: [] }, { status: 200 });
+    }
+}
@@ -0,0 +1,40 @@
+/**
+ * AMM Limit Order API Route - Proxies to Backend
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { forwardIdempotencyKey, replayHeaders } from '@/lib/idempotency';
+
+const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:3001';
+
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json();
+        const { marketId, userId, outcome, side, amount, limitPrice, timeInForce, expiresAt } = body;
+
+        // Backend expects binary outcomes as a number (0 for YES, 1 for NO);
+        // categorical outcomes are passed through by label
+        const outcomeNum = outcome === 'YES' ? 0 : outcome === 'NO' ? 1 : outcome;
+
+        const response = await fetch(`${BACKEND_URL}/api/amm/orders`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...forwardIdempotencyKey(request) },
+            body: JSON.stringify({
+                marketId,
+                userId,
+                outcome: outcomeNum,
+                side,
+                amount,
+                limitPrice,
+                timeInForce,
+                expiresAt
+            }),
+        });
+
+        const data = await response.json();
+        return NextResponse.json(data, { status: response.status, headers: replayHeaders(response) });
+    } catch (error) {
+        console.error('[AMM Limit Order] Backend error:', error);
+        return NextResponse.json({ error: 'Backend unavailable' }, { status: 503 });
+    }
+}
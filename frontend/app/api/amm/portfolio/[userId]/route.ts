@@ -0,0 +1,27 @@
+/**
+ * AMM Portfolio API Route - Proxies to Backend
+ * Fetches a user's open positions marked to current pool prices
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:3001';
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ userId: string }> }
+) {
+    try {
+        const { userId } = await params;
+
+        const response = await fetch(
+            `${BACKEND_URL}/api/amm/portfolio/${userId}`
+        );
+
+        const data = await response.json();
+        return NextResponse.json(data, { status: response.status });
+    } catch (error) {
+        console.error('[AMM Portfolio] Backend error:', error);
+        return NextResponse.json({ error: 'Failed to connect to backend' }, { status: 500 });
+    }
+}
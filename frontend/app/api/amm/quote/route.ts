@@ -10,30 +10,40 @@ export async function GET(request: NextRequest) {
     try {
         const { searchParams } = new URL(request.url);
         const marketId = searchParams.get('marketId');
+        const mode = searchParams.get('mode') || 'spend';
         const amount = searchParams.get('amount');
+        const targetPrice = searchParams.get('targetPrice');
         const outcome = searchParams.get('outcome');
 
-        if (!marketId || !amount || !outcome) {
+        if (!marketId || !outcome || !(mode === 'target' ? targetPrice : amount)) {
             return NextResponse.json(
                 { error: 'Missing parameters' },
                 { status: 400 }
             );
         }
 
-        // Backend expects outcome as a number (0 for YES, 1 for NO)
-        const outcomeNum = outcome === 'YES' ? 0 : 1;
+        // Backend expects binary outcomes as a number (0 for YES, 1 for NO);
+        // categorical outcomes are passed through by label
+        const outcomeNum = outcome === 'YES' ? '0' : outcome === 'NO' ? '1' : outcome;
 
+        const size = mode === 'target' ? `targetPrice=${targetPrice}` : `amount=${amount}`;
         const response = await fetch(
-            `${BACKEND_URL}/api/amm/quote?marketId=${marketId}&amount=${amount}&outcome=${outcomeNum}`
+            `${BACKEND_URL}/api/amm/quote?marketId=${marketId}&mode=${mode}&${size}&outcome=${encodeURIComponent(outcomeNum)}`
         );
 
         const data = await response.json();
+        if (!response.ok) {
+            return NextResponse.json({ error: data.error }, { status: response.status });
+        }
 
         // Map backend response back to frontend format if needed
         return NextResponse.json({
             expectedShares: data.shares,
+            cost: data.cost,
+            fee: data.fee,
             effectivePrice: data.effectivePrice,
-            priceImpact: data.priceImpact
+            priceImpact: data.priceImpact,
+            route: data.route
         });
     } catch (error) {
         console.error('[AMM Quote] Backend error:', error);
@@ -4,6 +4,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { forwardIdempotencyKey, replayHeaders } from '@/lib/idempotency';
 
 const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:3001';
 
@@ -22,7 +23,7 @@ export async function POST(request: NextRequest) {
         // Call backend to close session and get settlement signature
         const response = await fetch(`${BACKEND_URL}/api/session/close`, {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
+            headers: { 'Content-Type': 'application/json', ...forwardIdempotencyKey(request) },
             body: JSON.stringify({ sessionId }),
         });
 
@@ -33,7 +34,7 @@ export async function POST(request: NextRequest) {
         }
 
         // Returns: { success, pnl, signature, sessionId }
-        return NextResponse.json(data);
+        return NextResponse.json(data, { headers: replayHeaders(response) });
     } catch (error) {
         console.error('[Session Close] Backend error:', error);
         return NextResponse.json(
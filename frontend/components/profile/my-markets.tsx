@@ -1,11 +1,12 @@
 "use client"
 
 import { useState, useEffect } from "react"
-import { Gavel, Clock, CheckCircle, XCircle, Loader2, AlertCircle, Check, X, TrendingUp } from "lucide-react"
+import { Gavel, Clock, CheckCircle, XCircle, Loader2, AlertCircle, Check, X, TrendingUp, Ban } from "lucide-react"
 import { cn } from "@/lib/utils"
 import { useAccount } from "wagmi"
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query"
-import type { Market } from "@/lib/amm-types"
+import { formatDuration, type Market } from "@/lib/amm-types"
+import { useCancelMarket } from "@/hooks/use-amm"
 
 const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
 
@@ -37,7 +38,9 @@ export function MyMarkets() {
 
     const myMarkets = marketsData?.markets || []
     const activeMarkets = myMarkets.filter(m => m.status === 'ACTIVE')
+    const pendingMarkets = myMarkets.filter(m => m.status === 'PROPOSED' || m.status === 'DISPUTED')
     const resolvedMarkets = myMarkets.filter(m => m.status === 'RESOLVED')
+    const cancelledMarkets = myMarkets.filter(m => m.status === 'CANCELLED')
 
     if (!mounted || !address) {
         return (
@@ -100,6 +103,14 @@ export function MyMarkets() {
                             />
                         ))}
 
+                        {/* Proposed resolutions, not yet final */}
+                        {pendingMarkets.map((market) => (
+                            <MarketCard
+                                key={market.marketId}
+                                market={market}
+                            />
+                        ))}
+
                         {/* Resolved markets */}
                         {resolvedMarkets.map((market) => (
                             <MarketCard
@@ -108,6 +119,15 @@ export function MyMarkets() {
                                 resolved
                             />
                         ))}
+
+                        {/* Cancelled markets (holders refunded) */}
+                        {cancelledMarkets.map((market) => (
+                            <MarketCard
+                                key={market.marketId}
+                                market={market}
+                                resolved
+                            />
+                        ))}
                     </>
                 )}
             </div>
@@ -168,7 +188,17 @@ function MarketCard({
                 </div>
 
                 <div className="flex flex-col items-end gap-2 shrink-0">
-                    {resolved ? (
+                    {market.status === 'PROPOSED' || market.status === 'DISPUTED' ? (
+                        <span className="inline-flex items-center gap-1 rounded-full px-2.5 py-1 text-[10px] font-mono font-medium border border-yellow-500/20 bg-yellow-500/10 text-yellow-500">
+                            <Gavel className="h-3 w-3" />
+                            {market.status} {market.proposedValue}
+                        </span>
+                    ) : market.status === 'CANCELLED' ? (
+                        <span className="inline-flex items-center gap-1 rounded-full px-2.5 py-1 text-[10px] font-mono font-medium border border-border bg-secondary text-muted-foreground">
+                            <Ban className="h-3 w-3" />
+                            CANCELLED
+                        </span>
+                    ) : resolved ? (
                         <span className={cn(
                             "inline-flex items-center gap-1 rounded-full px-2.5 py-1 text-[10px] font-mono font-medium border",
                             market.resolutionValue === 'YES'
@@ -220,6 +250,7 @@ function ResolveDialog({
     const [outcome, setOutcome] = useState<'YES' | 'NO' | null>(null)
     const [confirming, setConfirming] = useState(false)
     const queryClient = useQueryClient()
+    const cancelMutation = useCancelMarket()
 
     const resolveMutation = useMutation({
         mutationFn: async (vars: { marketId: string; outcome: number; resolvedBy: string }) => {
@@ -262,6 +293,19 @@ function ResolveDialog({
         }
     }
 
+    // Postponed or ambiguous event: refund every holder instead of resolving
+    const handleCancel = async () => {
+        setConfirming(true)
+
+        try {
+            await cancelMutation.mutateAsync({ marketId: market.marketId })
+            onClose()
+        } catch (err) {
+            console.error(err)
+            setConfirming(false)
+        }
+    }
+
     return (
         <div className="fixed inset-0 z-50 flex items-center justify-center">
             {/* Backdrop */}
@@ -320,7 +364,9 @@ function ResolveDialog({
                             <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-3 flex items-start gap-3 mt-4">
                                 <AlertCircle className="h-4 w-4 text-yellow-500 shrink-0 mt-0.5" />
                                 <p className="text-xs text-yellow-500/90 text-left">
-                                    This action is irreversible. Funds will be distributed immediately to {outcome} holders.
+                                    {market.disputeWindowSeconds
+                                        ? `This proposes ${outcome}. It can be disputed for ${formatDuration(market.disputeWindowSeconds)}, and funds are distributed once it is final.`
+                                        : `This action is irreversible. Funds will be distributed immediately to ${outcome} holders.`}
                                 </p>
                             </div>
                         )}
@@ -345,6 +391,17 @@ function ResolveDialog({
                                 Confirm Resolve
                             </button>
                         </div>
+
+                        <button
+                            onClick={handleCancel}
+                            className="w-full inline-flex items-center justify-center gap-1.5 py-2 text-xs text-muted-foreground hover:text-foreground transition-colors"
+                        >
+                            <Ban className="h-3 w-3" />
+                            Event postponed? Cancel market and refund holders ({market.refundMode === 'FAIR_PRICE' ? 'at last prices' : 'at cost'})
+                        </button>
+                        {cancelMutation.isError && (
+                            <p className="text-xs text-red-500 text-center">{cancelMutation.error.message}</p>
+                        )}
                     </div>
                 ) : (
                     <div className="py-8 flex flex-col items-center">
@@ -365,9 +422,11 @@ function ResolveDialog({
                         ) : (
                             <>
                                 <Loader2 className="h-10 w-10 text-primary animate-spin mb-4" />
-                                <p className="text-lg font-medium">Resolving Market...</p>
+                                <p className="text-lg font-medium">
+                                    {cancelMutation.isPending ? 'Cancelling Market...' : 'Resolving Market...'}
+                                </p>
                                 <p className="text-sm text-muted-foreground mt-2">
-                                    Distributing payouts to winners
+                                    {cancelMutation.isPending ? 'Refunding every holder' : 'Distributing payouts to winners'}
                                 </p>
                             </>
                         )}
@@ -6,17 +6,9 @@ import { cn } from "@/lib/utils"
 import { useSessionEscrow, SessionState } from "@/hooks/use-session-escrow"
 import { useWriteContract, useWaitForTransactionReceipt, useAccount } from "wagmi"
 import { SESSION_ESCROW_ADDRESS, SESSION_ESCROW_ABI } from "@/lib/contracts"
-import { useQuery } from "@tanstack/react-query"
+import { usePortfolio } from "@/hooks/use-amm"
 import Link from "next/link"
 
-// Fetch user positions
-async function fetchUserPositions(userId: string) {
-    if (!userId) return { positions: [], totalValue: '0' };
-    const response = await fetch(`/api/amm/positions/${userId}`);
-    if (!response.ok) return { positions: [], totalValue: '0' };
-    return response.json();
-}
-
 export function SessionManager() {
     const {
         sessionState,
@@ -33,14 +25,11 @@ export function SessionManager() {
     const [showCloseModal, setShowCloseModal] = useState(false)
 
     // Fetch positions to check if user can close directly
-    const { data: positionsData, refetch: refetchPositions } = useQuery({
-        queryKey: ['user-positions', sessionId],
-        queryFn: () => fetchUserPositions(sessionId || ''),
-        enabled: !!sessionId,
-    })
+    const { data: portfolio, refetch: refetchPositions } = usePortfolio(sessionId || null)
 
-    const totalPositionsValue = parseFloat(positionsData?.totalValue || '0') / 1_000_000
-    const hasPositions = totalPositionsValue > 0
+    const totalPositionsValue = Number(portfolio?.totals.marketValue || '0') / 1_000_000
+    const unrealizedPnl = portfolio?.totals.unrealizedPnl || '0'
+    const hasPositions = (portfolio?.positions.length ?? 0) > 0
 
     const lockedAmountNum = parseFloat(locked) || 0
 
@@ -244,6 +233,19 @@ export function SessionManager() {
                                     <span className="text-muted-foreground">Locked Amount</span>
                                     <span className="font-mono">${lockedAmountNum.toFixed(2)}</span>
                                 </div>
+                                <div className="flex items-center justify-between text-sm">
+                                    <span className="text-muted-foreground">Open Positions</span>
+                                    <span className="font-mono">${totalPositionsValue.toFixed(2)}</span>
+                                </div>
+                                <div className="flex items-center justify-between text-sm">
+                                    <span className="text-muted-foreground">Unrealized PnL</span>
+                                    <span className={cn(
+                                        "font-mono",
+                                        Number(unrealizedPnl) >= 0 ? "text-green-500" : "text-red-500"
+                                    )}>
+                                        {formatPnL(unrealizedPnl)}
+                                    </span>
+                                </div>
                             </div>
                         </div>
                     )}
@@ -346,7 +348,8 @@ export function SessionManager() {
                                 <>
                                     <p className="text-muted-foreground">
                                         Your session is <span className="text-green-500 font-medium">Active</span> with
-                                        <span className="text-orange-500 font-medium"> ${totalPositionsValue.toFixed(2)}</span> in open positions.
+                                        <span className="text-orange-500 font-medium"> ${totalPositionsValue.toFixed(2)}</span> in open positions
+                                        (<span className={Number(unrealizedPnl) >= 0 ? "text-green-500" : "text-red-500"}>{formatPnL(unrealizedPnl)}</span> unrealized).
                                     </p>
 
                                     <div className="p-4 rounded-lg bg-yellow-500/10 border border-yellow-500/20">
@@ -1,7 +1,7 @@
 "use client"
 
 import { useState, useEffect } from "react"
-import { ArrowUpRight, ArrowDownLeft, Clock, Search, Filter, TrendingUp, TrendingDown, Award } from "lucide-react"
+import { ArrowUpRight, ArrowDownLeft, Clock, Search, Filter, TrendingUp, TrendingDown, Award, Layers, Undo2 } from "lucide-react"
 import { cn } from "@/lib/utils"
 import { useAccount } from "wagmi"
 import { useQuery } from "@tanstack/react-query"
@@ -22,7 +22,7 @@ interface Trade {
     sessionId: string
     userAddress: string
     marketId: string
-    tradeType: 'BUY' | 'SELL' | 'CLAIM'
+    tradeType: 'BUY' | 'SELL' | 'CLAIM' | 'SPLIT' | 'MERGE' | 'REFUND'
     outcome: 'YES' | 'NO'
     shares: string
     price: number
@@ -139,11 +139,17 @@ export function TradingHistory() {
                                                     ? "border-blue-500/20 bg-blue-500/10 text-blue-500"
                                                     : trade.tradeType === 'SELL'
                                                         ? "border-orange-500/20 bg-orange-500/10 text-orange-500"
-                                                        : "border-purple-500/20 bg-purple-500/10 text-purple-500"
+                                                        : trade.tradeType === 'SPLIT' || trade.tradeType === 'MERGE'
+                                                            ? "border-cyan-500/20 bg-cyan-500/10 text-cyan-500"
+                                                            : trade.tradeType === 'REFUND'
+                                                                ? "border-border bg-secondary text-muted-foreground"
+                                                                : "border-purple-500/20 bg-purple-500/10 text-purple-500"
                                             )}>
                                                 {trade.tradeType === 'BUY' ? <ArrowDownLeft className="h-3 w-3" /> :
                                                     trade.tradeType === 'SELL' ? <ArrowUpRight className="h-3 w-3" /> :
-                                                        <Award className="h-3 w-3" />}
+                                                        trade.tradeType === 'SPLIT' || trade.tradeType === 'MERGE' ? <Layers className="h-3 w-3" /> :
+                                                            trade.tradeType === 'REFUND' ? <Undo2 className="h-3 w-3" /> :
+                                                                <Award className="h-3 w-3" />}
                                                 {trade.tradeType}
                                             </span>
                                         </td>
@@ -3,13 +3,16 @@
 import { useState } from "react"
 import { Plus, X, Loader2, CheckCircle, Calendar } from "lucide-react"
 import { cn } from "@/lib/utils"
-import { useCreateMarket } from "@/hooks/use-amm"
+import { useCreateMarket, useOracleAssets } from "@/hooks/use-amm"
 import { parseUSDCInput } from "@/lib/amm-types"
+import type { PricingEngineType } from "@/lib/amm-types"
 import { useAccount } from "wagmi"
 
 interface CreateMarketDialogProps {
     isOpen: boolean
     onClose: () => void
+    /** Active session; it funds the initial liquidity and receives the LP shares */
+    sessionId: string | null
 }
 
 // Category options
@@ -22,28 +25,43 @@ const categories = [
     { id: "other", label: "Other" },
 ]
 
-// Oracle Assets
-const oracleAssets = [
-    { id: "BTC", label: "Bitcoin (BTC)" },
-    { id: "ETH", label: "Ethereum (ETH)" },
-    { id: "SOL", label: "Solana (SOL)" },
-    { id: "USDC", label: "USDC" },
-]
+// Trade fee options in basis points (100 = 1%)
+const feeOptions = [0, 50, 100, 200]
 
-export function CreateMarketDialog({ isOpen, onClose }: CreateMarketDialogProps) {
+export function CreateMarketDialog({ isOpen, onClose, sessionId }: CreateMarketDialogProps) {
     const [title, setTitle] = useState("")
     const [description, setDescription] = useState("")
     const [category, setCategory] = useState("crypto")
     const [expiresAt, setExpiresAt] = useState("")
+    const [opensAt, setOpensAt] = useState("")
     const [liquidity, setLiquidity] = useState("10")
+    const [pricingEngine, setPricingEngine] = useState<PricingEngineType>("CPMM")
+    const [feeBps, setFeeBps] = useState(100)
+
+    // Scalar (range) markets: LONG/SHORT between low and high
+    const [marketKind, setMarketKind] = useState<"binary" | "scalar">("binary")
+    const [rangeLow, setRangeLow] = useState("")
+    const [rangeHigh, setRangeHigh] = useState("")
+    const scalar = marketKind === "scalar"
+    const rangeValid = !scalar || (rangeLow !== "" && rangeHigh !== "" && parseFloat(rangeHigh) > parseFloat(rangeLow))
+    const windowValid = !opensAt || !expiresAt || new Date(opensAt) < new Date(expiresAt)
 
     // Resolution state
     const [resolutionType, setResolutionType] = useState<"manual" | "oracle">("manual")
-    const [oracleAsset, setOracleAsset] = useState("BTC")
+    const [selectedAsset, setSelectedAsset] = useState("BTC")
     const [oracleCondition, setOracleCondition] = useState(">")
     const [oracleTarget, setOracleTarget] = useState("")
+    // 0: the last price published by expiry; otherwise the TWAP over this many seconds up to it
+    const [twapSeconds, setTwapSeconds] = useState(0)
     const [resolverAddress, setResolverAddress] = useState("")
 
+    // Oracle assets come from the backend's providers; only those with enough
+    // providers to agree on a price can resolve a market
+    const { data: oracleData, isLoading: oracleAssetsLoading } = useOracleAssets()
+    const oracleAssets = (oracleData?.assets ?? []).filter(a => a.providers.length >= (oracleData?.minSources ?? 1))
+    const oracleAsset = oracleAssets.some(a => a.asset === selectedAsset) ? selectedAsset : oracleAssets[0]?.asset ?? ""
+    const oracleValid = resolutionType !== 'oracle' || oracleAsset !== ""
+
     const [success, setSuccess] = useState(false)
 
     const createMarket = useCreateMarket()
@@ -59,7 +77,7 @@ export function CreateMarketDialog({ isOpen, onClose }: CreateMarketDialogProps)
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault()
 
-        if (!title.trim() || !expiresAt) return
+        if (!title.trim() || !expiresAt || !rangeValid || !windowValid || !oracleValid || !sessionId) return
 
         // Generate marketId from title
         const marketId = title
@@ -74,14 +92,25 @@ export function CreateMarketDialog({ isOpen, onClose }: CreateMarketDialogProps)
                 title,
                 description: description || undefined,
                 category,
+                opensAt: opensAt ? new Date(opensAt).toISOString() : undefined,
                 expiresAt: new Date(expiresAt).toISOString(),
                 initialLiquidity: parseUSDCInput(liquidity),
+                creatorId: sessionId,
+                scalarRange: scalar ? { low: parseFloat(rangeLow), high: parseFloat(rangeHigh) } : undefined,
+                pricingEngine,
+                feeBps,
                 resolutionType,
-                oracleConfig: resolutionType === 'oracle' ? {
+                oracleConfig: resolutionType === 'oracle' ? (scalar ? {
+                    type: 'scalar',
+                    asset: oracleAsset,
+                    twapSeconds
+                } : {
+                    type: 'price',
                     asset: oracleAsset,
                     condition: oracleCondition,
-                    targetPrice: parseFloat(oracleTarget)
-                } : undefined,
+                    targetPrice: parseFloat(oracleTarget),
+                    twapSeconds
+                }) : undefined,
                 // Use explicit resolver address if provided, otherwise default to connected wallet
                 resolverAddress: resolutionType === 'manual' ? (resolverAddress || address || undefined) : undefined
             })
@@ -94,9 +123,16 @@ export function CreateMarketDialog({ isOpen, onClose }: CreateMarketDialogProps)
                 setDescription("")
                 setCategory("crypto")
                 setExpiresAt("")
+                setOpensAt("")
                 setLiquidity("10")
+                setPricingEngine("CPMM")
+                setFeeBps(100)
+                setMarketKind("binary")
+                setRangeLow("")
+                setRangeHigh("")
                 setResolutionType("manual")
                 setOracleTarget("")
+                setTwapSeconds(0)
                 setResolverAddress("")
             }, 1500)
         } catch (error) {
@@ -151,10 +187,71 @@ export function CreateMarketDialog({ isOpen, onClose }: CreateMarketDialogProps)
                                 required
                             />
                             <p className="text-xs text-muted-foreground mt-1">
-                                Frame as a yes/no question
+                                {scalar ? "Name the value and date, e.g. BTC price on Dec 31" : "Frame as a yes/no question"}
                             </p>
                         </div>
 
+                        {/* Market Type */}
+                        <div>
+                            <label className="block text-sm font-medium mb-2">
+                                Market Type
+                            </label>
+                            <div className="flex bg-background rounded-lg border border-border p-1">
+                                <button
+                                    type="button"
+                                    onClick={() => setMarketKind('binary')}
+                                    className={cn(
+                                        "flex-1 py-1.5 text-sm font-medium rounded-md transition-all",
+                                        marketKind === 'binary' ? "bg-primary text-primary-foreground shadow-sm" : "hover:text-primary"
+                                    )}
+                                >
+                                    Yes / No
+                                </button>
+                                <button
+                                    type="button"
+                                    onClick={() => setMarketKind('scalar')}
+                                    className={cn(
+                                        "flex-1 py-1.5 text-sm font-medium rounded-md transition-all",
+                                        marketKind === 'scalar' ? "bg-primary text-primary-foreground shadow-sm" : "hover:text-primary"
+                                    )}
+                                >
+                                    Range (Long / Short)
+                                </button>
+                            </div>
+
+                            {scalar && (
+                                <div className="grid grid-cols-2 gap-3 mt-3 animate-in slide-in-from-top-2 fade-in duration-200">
+                                    <div>
+                                        <label className="text-xs font-medium mb-1 block text-muted-foreground">Low</label>
+                                        <input
+                                            type="number"
+                                            value={rangeLow}
+                                            onChange={(e) => setRangeLow(e.target.value)}
+                                            placeholder="50000"
+                                            className="w-full px-3 py-1.5 rounded-md border border-border bg-background text-sm outline-none focus:border-primary"
+                                            required={scalar}
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="text-xs font-medium mb-1 block text-muted-foreground">High</label>
+                                        <input
+                                            type="number"
+                                            value={rangeHigh}
+                                            onChange={(e) => setRangeHigh(e.target.value)}
+                                            placeholder="150000"
+                                            className="w-full px-3 py-1.5 rounded-md border border-border bg-background text-sm outline-none focus:border-primary"
+                                            required={scalar}
+                                        />
+                                    </div>
+                                    <p className="col-span-2 text-xs text-muted-foreground">
+                                        {rangeValid
+                                            ? "LONG pays (value - low) / (high - low) at resolution, SHORT pays the rest."
+                                            : "High must be greater than low."}
+                                    </p>
+                                </div>
+                            )}
+                        </div>
+
                         {/* Category */}
                         <div>
                             <label className="block text-sm font-medium mb-2">
@@ -190,6 +287,27 @@ export function CreateMarketDialog({ isOpen, onClose }: CreateMarketDialogProps)
                                     required
                                 />
                             </div>
+                            <p className="text-[10px] text-muted-foreground mt-1">
+                                Trading closes on this date until the market is resolved.
+                            </p>
+                        </div>
+
+                        {/* Scheduled Opening */}
+                        <div>
+                            <label className="block text-sm font-medium mb-2">
+                                Opens for Trading (optional)
+                            </label>
+                            <input
+                                type="datetime-local"
+                                value={opensAt}
+                                onChange={(e) => setOpensAt(e.target.value)}
+                                className="w-full px-3 py-2 rounded-lg border border-border bg-background focus:border-primary focus:ring-1 focus:ring-primary outline-none transition-colors"
+                            />
+                            <p className={cn("text-[10px] mt-1", windowValid ? "text-muted-foreground" : "text-red-500")}>
+                                {windowValid
+                                    ? "Leave empty to open trading as soon as the market is created."
+                                    : "Trading must open before the resolution date."}
+                            </p>
                         </div>
 
                         {/* Description */}
@@ -235,17 +353,26 @@ export function CreateMarketDialog({ isOpen, onClose }: CreateMarketDialogProps)
 
                             {resolutionType === 'oracle' ? (
                                 <div className="space-y-3 pt-2 animate-in slide-in-from-top-2 fade-in duration-200">
-                                    <div className="grid grid-cols-2 gap-3">
+                                    <div className={cn("grid gap-3", scalar ? "grid-cols-1" : "grid-cols-2")}>
                                         <div>
                                             <label className="text-xs font-medium mb-1 block text-muted-foreground">Asset</label>
                                             <select
                                                 value={oracleAsset}
-                                                onChange={(e) => setOracleAsset(e.target.value)}
+                                                onChange={(e) => setSelectedAsset(e.target.value)}
+                                                disabled={oracleAssets.length === 0}
                                                 className="w-full px-2 py-1.5 rounded-md border border-border bg-background text-sm"
                                             >
-                                                {oracleAssets.map(a => <option key={a.id} value={a.id}>{a.label}</option>)}
+                                                {oracleAssets.length === 0 && (
+                                                    <option value="">{oracleAssetsLoading ? "Loading..." : "No assets available"}</option>
+                                                )}
+                                                {oracleAssets.map(a => (
+                                                    <option key={a.asset} value={a.asset} title={a.providers.join(", ")}>
+                                                        {a.asset} ({a.providers.length} sources)
+                                                    </option>
+                                                ))}
                                             </select>
                                         </div>
+                                        {!scalar && (
                                         <div>
                                             <label className="text-xs font-medium mb-1 block text-muted-foreground">Title</label>
                                             <select
@@ -260,7 +387,9 @@ export function CreateMarketDialog({ isOpen, onClose }: CreateMarketDialogProps)
                                                 <option value="==">Equal (=)</option>
                                             </select>
                                         </div>
+                                        )}
                                     </div>
+                                    {!scalar && (
                                     <div>
                                         <label className="text-xs font-medium mb-1 block text-muted-foreground">Target Price (USD)</label>
                                         <div className="relative">
@@ -271,12 +400,28 @@ export function CreateMarketDialog({ isOpen, onClose }: CreateMarketDialogProps)
                                                 onChange={(e) => setOracleTarget(e.target.value)}
                                                 placeholder="100000"
                                                 className="w-full pl-6 pr-3 py-1.5 rounded-md border border-border bg-background text-sm outline-none focus:border-primary"
-                                                required={resolutionType === 'oracle'}
+                                                required={resolutionType === 'oracle' && !scalar}
                                             />
                                         </div>
                                     </div>
+                                    )}
+                                    <div>
+                                        <label className="text-xs font-medium mb-1 block text-muted-foreground">Price at Expiry</label>
+                                        <select
+                                            value={twapSeconds}
+                                            onChange={(e) => setTwapSeconds(Number(e.target.value))}
+                                            className="w-full px-2 py-1.5 rounded-md border border-border bg-background text-sm"
+                                        >
+                                            <option value={0}>Spot (last price published)</option>
+                                            <option value={300}>5-minute TWAP</option>
+                                            <option value={900}>15-minute TWAP</option>
+                                            <option value={3600}>1-hour TWAP</option>
+                                        </select>
+                                    </div>
                                     <p className="text-xs text-muted-foreground">
-                                        Market resolves YES if {oracleAsset} is {oracleCondition} ${oracleTarget} on expiry.
+                                        {scalar
+                                            ? `Market resolves to the ${oracleAsset} price on expiry.`
+                                            : `Market resolves YES if ${oracleAsset} is ${oracleCondition} $${oracleTarget} on expiry.`}
                                     </p>
                                 </div>
                             ) : (
@@ -316,7 +461,64 @@ export function CreateMarketDialog({ isOpen, onClose }: CreateMarketDialogProps)
                                 />
                             </div>
                             <p className="text-xs text-muted-foreground mt-1">
-                                Higher liquidity = lower slippage for traders
+                                Paid from your session balance. You receive the pool&apos;s LP shares and its leftover collateral at resolution
+                            </p>
+                            {!sessionId && (
+                                <p className="text-xs text-red-500 mt-1">
+                                    Start a session to fund the initial liquidity
+                                </p>
+                            )}
+                        </div>
+
+                        {/* Pricing Curve */}
+                        <div>
+                            <label className="block text-sm font-medium mb-2">
+                                Pricing Curve
+                            </label>
+                            <div className="flex bg-background rounded-lg border border-border p-1">
+                                {(["CPMM", "LMSR"] as const).map((engine) => (
+                                    <button
+                                        key={engine}
+                                        type="button"
+                                        onClick={() => setPricingEngine(engine)}
+                                        className={cn(
+                                            "flex-1 py-1.5 text-sm font-medium rounded-md transition-all",
+                                            pricingEngine === engine ? "bg-primary text-primary-foreground shadow-sm" : "hover:text-primary"
+                                        )}
+                                    >
+                                        {engine === "CPMM" ? "Constant Product" : "LMSR"}
+                                    </button>
+                                ))}
+                            </div>
+                            <p className="text-xs text-muted-foreground mt-1">
+                                {pricingEngine === "LMSR"
+                                    ? "Deeper prices on thin markets; your liquidity is the most the pool can lose"
+                                    : "Classic x*y=k pool"}
+                            </p>
+                        </div>
+
+                        {/* Trade Fee */}
+                        <div>
+                            <label className="block text-sm font-medium mb-2">
+                                Trade Fee
+                            </label>
+                            <div className="flex bg-background rounded-lg border border-border p-1">
+                                {feeOptions.map((bps) => (
+                                    <button
+                                        key={bps}
+                                        type="button"
+                                        onClick={() => setFeeBps(bps)}
+                                        className={cn(
+                                            "flex-1 py-1.5 text-sm font-medium rounded-md transition-all",
+                                            feeBps === bps ? "bg-primary text-primary-foreground shadow-sm" : "hover:text-primary"
+                                        )}
+                                    >
+                                        {bps / 100}%
+                                    </button>
+                                ))}
+                            </div>
+                            <p className="text-xs text-muted-foreground mt-1">
+                                Charged on every buy and sell; shared between liquidity providers, you and the protocol
                             </p>
                         </div>
 
@@ -330,7 +532,7 @@ export function CreateMarketDialog({ isOpen, onClose }: CreateMarketDialogProps)
                         {/* Submit Button */}
                         <button
                             type="submit"
-                            disabled={createMarket.isPending || !title.trim() || !expiresAt}
+                            disabled={createMarket.isPending || !title.trim() || !expiresAt || !rangeValid || !windowValid || !oracleValid || !sessionId}
                             className={cn(
                                 "w-full py-3 rounded-lg font-medium transition-all",
                                 "bg-primary text-primary-foreground hover:bg-primary/90",
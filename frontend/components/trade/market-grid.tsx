@@ -1,10 +1,10 @@
 "use client"
 
 import { useState, useEffect } from "react"
-import { TrendingUp, Cloud, Bitcoin, Landmark, Users, Clock, Loader2, AlertCircle } from "lucide-react"
+import { TrendingUp, Cloud, Bitcoin, Landmark, Users, Clock, Loader2, AlertCircle, CalendarClock, Lock } from "lucide-react"
 import { cn } from "@/lib/utils"
 import { useMarkets } from "@/hooks/use-amm"
-import { formatUSDC } from "@/lib/amm-types"
+import { formatUSDC, hasOutcomeList, isScalarMarket, getMarketOutcomes, formatScalarRange, getTradingPhase } from "@/lib/amm-types"
 import type { Market } from "@/lib/amm-types"
 import { useAccount } from "wagmi"
 import { ResolveMarketDialog } from "@/components/trade/resolve-market-dialog"
@@ -198,6 +198,18 @@ export function MarketGrid({
                                     </span>
                                 </>
                             )}
+                            {getTradingPhase(market) === 'SCHEDULED' && (
+                                <span className="flex items-center gap-1 rounded-full px-2 py-0.5 border border-blue-500/30 bg-blue-500/10 font-mono text-[10px] text-blue-500 uppercase">
+                                    <CalendarClock className="h-3 w-3" />
+                                    Opens {market.opensAt ? formatDate(market.opensAt) : 'soon'}
+                                </span>
+                            )}
+                            {getTradingPhase(market) === 'CLOSED' && market.status === 'ACTIVE' && (
+                                <span className="flex items-center gap-1 rounded-full px-2 py-0.5 border border-yellow-500/30 bg-yellow-500/10 font-mono text-[10px] text-yellow-500 uppercase">
+                                    <Lock className="h-3 w-3" />
+                                    Awaiting resolution
+                                </span>
+                            )}
                         </div>
 
                         {/* Title */}
@@ -210,7 +222,32 @@ export function MarketGrid({
                             {market.description}
                         </p>
 
+                        {/* Scalar Range */}
+                        {isScalarMarket(market) && market.scalarRange && (
+                            <p className="font-mono text-[10px] text-muted-foreground uppercase tracking-wider mb-2">
+                                Range {formatScalarRange(market.scalarRange)}
+                            </p>
+                        )}
+
                         {/* Prices */}
+                        {hasOutcomeList(market) ? (
+                            <div className="space-y-1 mb-3">
+                                {getMarketOutcomes(market)
+                                    .sort((a, b) => b.price - a.price)
+                                    .slice(0, 3)
+                                    .map((o) => (
+                                        <div key={o.label} className="flex items-center justify-between rounded-md bg-secondary/40 border border-border/50 px-3 py-1.5">
+                                            <span className="text-xs truncate">{o.label}</span>
+                                            <span className="font-mono text-sm font-bold text-primary">{o.price.toFixed(2)}</span>
+                                        </div>
+                                    ))}
+                                {(market.outcomes?.length ?? 0) > 3 && (
+                                    <p className="font-mono text-[10px] text-muted-foreground text-center">
+                                        +{(market.outcomes?.length ?? 0) - 3} more outcomes
+                                    </p>
+                                )}
+                            </div>
+                        ) : (
                         <div className="flex gap-2 mb-3">
                             <div className="flex-1 rounded-lg bg-green-500/10 border border-green-500/30 py-2 px-3 text-center">
                                 <p className="font-mono text-lg font-bold text-green-500">
@@ -225,6 +262,7 @@ export function MarketGrid({
                                 <p className="font-mono text-[10px] text-muted-foreground">NO</p>
                             </div>
                         </div>
+                        )}
 
                         {/* Footer */}
                         {/* Footer */}
@@ -0,0 +1,341 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { cn } from "@/lib/utils"
+import { Loader2, Check, AlertCircle, X } from "lucide-react"
+import { useLimitOrders, usePlaceLimitOrder, useCancelLimitOrder, useOrderBook } from "@/hooks/use-amm"
+import { formatUSDC, parseUSDCInput, getMarketOutcomes } from "@/lib/amm-types"
+import type { Market, TimeInForce, OrderSide } from "@/lib/amm-types"
+
+const EXPIRY_OPTIONS: { label: string; hours: number }[] = [
+    { label: "1h", hours: 1 },
+    { label: "24h", hours: 24 },
+    { label: "7d", hours: 24 * 7 },
+]
+
+interface OpenOrdersProps {
+    selectedMarket?: Market | null
+    userId?: string
+    maxAmount?: string // Max bid escrow amount (locked session amount)
+}
+
+export function OpenOrders({ selectedMarket, userId = "demo-user", maxAmount }: OpenOrdersProps) {
+    const [side, setSide] = useState<OrderSide>("BUY")
+    const [outcome, setOutcome] = useState<string | null>(null)
+    const [limitPercent, setLimitPercent] = useState("")
+    const [amount, setAmount] = useState("")
+    const [timeInForce, setTimeInForce] = useState<TimeInForce>("GTC")
+    const [expiryHours, setExpiryHours] = useState(EXPIRY_OPTIONS[1].hours)
+    const [cancellingId, setCancellingId] = useState<string | null>(null)
+
+    const outcomes = selectedMarket ? getMarketOutcomes(selectedMarket) : []
+
+    const { data: ordersData, isLoading } = useLimitOrders(userId, "OPEN")
+    const { data: bookData } = useOrderBook(selectedMarket?.marketId ?? null)
+    const placeOrderMutation = usePlaceLimitOrder()
+    const cancelMutation = useCancelLimitOrder()
+
+    // Reset form when market changes
+    useEffect(() => {
+        setOutcome(null)
+        setLimitPercent("")
+        setAmount("")
+    }, [selectedMarket?.marketId])
+
+    const limitPrice = (parseFloat(limitPercent) || 0) / 100
+    const exceedsMax = side === "BUY" && !!maxAmount && (parseFloat(amount) || 0) > parseFloat(maxAmount)
+    const canPlace = !!selectedMarket && !!outcome && limitPrice > 0 && limitPrice < 1
+        && parseFloat(amount) > 0 && !exceedsMax && !placeOrderMutation.isPending
+
+    const handlePlace = async () => {
+        if (!selectedMarket || !outcome || !canPlace) return
+
+        try {
+            await placeOrderMutation.mutateAsync({
+                marketId: selectedMarket.marketId,
+                userId,
+                outcome,
+                side,
+                amount: parseUSDCInput(amount),
+                limitPrice,
+                timeInForce,
+                expiresAt: timeInForce === "GTT"
+                    ? new Date(Date.now() + expiryHours * 60 * 60 * 1000).toISOString()
+                    : undefined,
+            })
+            setLimitPercent("")
+            setAmount("")
+        } catch (error) {
+            console.error("Failed to place limit order:", error)
+        }
+    }
+
+    const handleCancel = async (orderId: string) => {
+        setCancellingId(orderId)
+
+        try {
+            await cancelMutation.mutateAsync({ orderId, userId })
+        } catch (error) {
+            console.error("Failed to cancel limit order:", error)
+        } finally {
+            setCancellingId(null)
+        }
+    }
+
+    // Best bid and ask resting on the selected outcome
+    const depth = bookData?.outcomes.find((o) => o.outcome === outcome)
+    const bestBid = depth?.bids[0]
+    const bestAsk = depth?.asks[0]
+
+    // Orders on the selected market first
+    const orders = [...(ordersData?.orders ?? [])].sort((a, b) =>
+        Number(b.marketId === selectedMarket?.marketId) - Number(a.marketId === selectedMarket?.marketId)
+    )
+
+    return (
+        <div className="rounded-xl border border-border bg-card/60 glass overflow-hidden min-w-0">
+            {/* Header */}
+            <div className="border-b border-border/50 bg-secondary/40 px-4 py-3">
+                <div className="flex items-center justify-between">
+                    <h3 className="font-mono text-xs uppercase tracking-wider text-primary">
+                        Limit Orders
+                    </h3>
+                    <span className="font-mono text-[10px] text-muted-foreground">
+                        {ordersData?.orders?.length || 0} open
+                    </span>
+                </div>
+            </div>
+
+            {/* New Order */}
+            {selectedMarket && (
+                <div className="p-4 space-y-3 border-b border-border/50">
+                    <div className="grid grid-cols-2 gap-1">
+                        {(["BUY", "SELL"] as OrderSide[]).map((orderSide) => (
+                            <button
+                                key={orderSide}
+                                type="button"
+                                onClick={() => setSide(orderSide)}
+                                className={cn(
+                                    "py-1 rounded border font-mono text-xs transition-colors",
+                                    side === orderSide
+                                        ? orderSide === "BUY"
+                                            ? "border-green-500 bg-green-500/10 text-green-500"
+                                            : "border-red-500 bg-red-500/10 text-red-500"
+                                        : "border-border text-muted-foreground hover:border-primary/50"
+                                )}
+                            >
+                                {orderSide === "BUY" ? "Bid" : "Ask"}
+                            </button>
+                        ))}
+                    </div>
+
+                    <div className="flex flex-wrap gap-1">
+                        {outcomes.map((o) => (
+                            <button
+                                key={o.label}
+                                type="button"
+                                onClick={() => setOutcome(o.label)}
+                                className={cn(
+                                    "px-2 py-1 rounded border font-mono text-xs transition-colors truncate max-w-full",
+                                    outcome === o.label
+                                        ? "border-primary bg-primary/10 text-primary"
+                                        : "border-border text-muted-foreground hover:border-primary/50"
+                                )}
+                            >
+                                {o.label} <span className="text-[10px]">{(o.price * 100).toFixed(0)}%</span>
+                            </button>
+                        ))}
+                    </div>
+
+                    {outcome && (
+                        <div className="flex justify-between font-mono text-[10px] text-muted-foreground">
+                            <span>
+                                Best bid{" "}
+                                <span className="text-green-500">
+                                    {bestBid ? `${(bestBid.price * 100).toFixed(1)}% × ${formatUSDC(bestBid.shares)}` : "—"}
+                                </span>
+                            </span>
+                            <span>
+                                Best ask{" "}
+                                <span className="text-red-500">
+                                    {bestAsk ? `${(bestAsk.price * 100).toFixed(1)}% × ${formatUSDC(bestAsk.shares)}` : "—"}
+                                </span>
+                            </span>
+                        </div>
+                    )}
+
+                    <div className="grid grid-cols-2 gap-2">
+                        <div className="space-y-1">
+                            <label className="font-mono text-[10px] text-muted-foreground uppercase tracking-wider">
+                                {side === "BUY" ? "Buy up to (%)" : "Sell from (%)"}
+                            </label>
+                            <input
+                                type="number"
+                                value={limitPercent}
+                                onChange={(e) => setLimitPercent(e.target.value)}
+                                placeholder="42"
+                                min={1}
+                                max={99}
+                                className="w-full rounded-lg border border-border bg-background/50 py-2 px-3 font-mono text-sm focus:outline-none focus:ring-1 focus:border-primary focus:ring-primary"
+                            />
+                        </div>
+                        <div className="space-y-1">
+                            <label className="font-mono text-[10px] text-muted-foreground uppercase tracking-wider">
+                                {side === "BUY" ? "Amount (USDC)" : "Shares"}
+                            </label>
+                            <input
+                                type="number"
+                                value={amount}
+                                onChange={(e) => setAmount(e.target.value)}
+                                placeholder="0.00"
+                                className={cn(
+                                    "w-full rounded-lg border bg-background/50 py-2 px-3 font-mono text-sm focus:outline-none focus:ring-1",
+                                    exceedsMax
+                                        ? "border-red-500 focus:border-red-500 focus:ring-red-500"
+                                        : "border-border focus:border-primary focus:ring-primary"
+                                )}
+                            />
+                        </div>
+                    </div>
+
+                    {/* Time in Force */}
+                    <div className="flex items-center justify-between gap-2">
+                        <div className="flex gap-1">
+                            {(["GTC", "GTT"] as TimeInForce[]).map((tif) => (
+                                <button
+                                    key={tif}
+                                    type="button"
+                                    onClick={() => setTimeInForce(tif)}
+                                    className={cn(
+                                        "px-2 py-0.5 rounded border font-mono text-[10px] transition-colors",
+                                        timeInForce === tif
+                                            ? "border-primary bg-primary/10 text-primary"
+                                            : "border-border text-muted-foreground hover:border-primary/50"
+                                    )}
+                                >
+                                    {tif}
+                                </button>
+                            ))}
+                        </div>
+                        {timeInForce === "GTT" && (
+                            <div className="flex gap-1">
+                                {EXPIRY_OPTIONS.map(({ label, hours }) => (
+                                    <button
+                                        key={label}
+                                        type="button"
+                                        onClick={() => setExpiryHours(hours)}
+                                        className={cn(
+                                            "px-2 py-0.5 rounded border font-mono text-[10px] transition-colors",
+                                            expiryHours === hours
+                                                ? "border-primary bg-primary/10 text-primary"
+                                                : "border-border text-muted-foreground hover:border-primary/50"
+                                        )}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+
+                    <button
+                        onClick={handlePlace}
+                        disabled={!canPlace}
+                        className={cn(
+                            "w-full py-2 rounded-lg font-mono text-xs font-medium transition-all",
+                            "bg-primary hover:bg-primary/90 text-primary-foreground",
+                            "disabled:opacity-50 disabled:cursor-not-allowed",
+                            "flex items-center justify-center gap-2"
+                        )}
+                    >
+                        {placeOrderMutation.isPending ? (
+                            <Loader2 className="h-3 w-3 animate-spin" />
+                        ) : null}
+                        <span className="truncate">
+                            {outcome && limitPrice > 0
+                                ? side === "BUY"
+                                    ? `Buy ${outcome} up to ${limitPrice.toFixed(2)}`
+                                    : `Sell ${outcome} from ${limitPrice.toFixed(2)}`
+                                : "Place limit order"}
+                        </span>
+                    </button>
+
+                    {placeOrderMutation.isSuccess && (
+                        <div className="flex items-center gap-2 text-green-500 text-xs justify-center">
+                            <Check className="h-3 w-3" />
+                            <span>Order placed</span>
+                        </div>
+                    )}
+                    {placeOrderMutation.isError && (
+                        <div className="flex items-center gap-2 text-red-500 text-xs justify-center">
+                            <AlertCircle className="h-3 w-3" />
+                            <span>{placeOrderMutation.error?.message || 'Failed to place order'}</span>
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {/* Open Orders */}
+            <div className="p-4 space-y-2">
+                {isLoading ? (
+                    <div className="flex items-center justify-center py-2 text-muted-foreground">
+                        <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                        <span className="text-xs">Loading orders...</span>
+                    </div>
+                ) : orders.length === 0 ? (
+                    <p className="text-xs text-muted-foreground text-center">
+                        No open orders
+                    </p>
+                ) : (
+                    orders.map((order) => {
+                        const isBid = order.side !== "SELL"
+                        return (
+                            <div
+                                key={order.orderId}
+                                className={cn(
+                                    "flex items-center justify-between gap-2 p-2 rounded border",
+                                    order.marketId === selectedMarket?.marketId
+                                        ? "border-primary/30 bg-primary/5"
+                                        : "border-border/50 bg-secondary/30"
+                                )}
+                            >
+                                <div className="min-w-0">
+                                    <p className="font-mono text-xs font-bold truncate">
+                                        {isBid ? "Bid" : "Ask"} {order.outcome} {isBid ? "≤" : "≥"} {order.limitPrice.toFixed(2)}
+                                        <span className="ml-2 text-[10px] font-normal text-muted-foreground">
+                                            {order.timeInForce}
+                                        </span>
+                                    </p>
+                                    <p className="font-mono text-[10px] text-muted-foreground truncate">
+                                        {isBid
+                                            ? `$${formatUSDC(BigInt(order.usdcAmount) - BigInt(order.usdcRemaining))} / $${formatUSDC(order.usdcAmount)} filled`
+                                            : `${formatUSDC(BigInt(order.sharesAmount) - BigInt(order.sharesRemaining))} / ${formatUSDC(order.sharesAmount)} shares sold`}
+                                        {order.expiresAt && ` · until ${new Date(order.expiresAt).toLocaleString()}`}
+                                    </p>
+                                </div>
+                                <button
+                                    onClick={() => handleCancel(order.orderId)}
+                                    disabled={cancellingId === order.orderId}
+                                    aria-label="Cancel order"
+                                    className="p-1.5 rounded text-muted-foreground hover:text-red-500 hover:bg-red-500/10 transition-colors disabled:opacity-50"
+                                >
+                                    {cancellingId === order.orderId ? (
+                                        <Loader2 className="h-3 w-3 animate-spin" />
+                                    ) : (
+                                        <X className="h-3 w-3" />
+                                    )}
+                                </button>
+                            </div>
+                        )
+                    })
+                )}
+                {cancelMutation.isError && (
+                    <div className="flex items-center gap-2 text-red-500 text-xs justify-center">
+                        <AlertCircle className="h-3 w-3" />
+                        <span>{cancelMutation.error?.message || 'Failed to cancel order'}</span>
+                    </div>
+                )}
+            </div>
+        </div>
+    )
+}
@@ -2,10 +2,18 @@
 
 import { useState, useEffect } from "react"
 import { cn } from "@/lib/utils"
-import { Loader2, Check, AlertCircle, TrendingDown } from "lucide-react"
-import { useQuote, usePlaceBet, usePosition, useSellPosition } from "@/hooks/use-amm"
-import { Outcome, formatUSDC, parseUSDCInput } from "@/lib/amm-types"
-import type { Market, Position } from "@/lib/amm-types"
+import { Loader2, Check, AlertCircle, TrendingDown, Layers } from "lucide-react"
+import { useQuote, usePlaceBet, usePosition, useSellPosition, useMergePositions, useSlippageTolerance } from "@/hooks/use-amm"
+import { Outcome, formatUSDC, parseUSDCInput, hasOutcomeList, isScalarMarket, getMarketOutcomes, formatScalarRange } from "@/lib/amm-types"
+import type { Market, Position, BetMode } from "@/lib/amm-types"
+
+const BET_MODES: { mode: BetMode; label: string; input: string }[] = [
+    { mode: "spend", label: "USDC", input: "Amount (USDC)" },
+    { mode: "shares", label: "Shares", input: "Shares" },
+    { mode: "target", label: "Target %", input: "Target Probability (%)" },
+]
+
+const SLIPPAGE_OPTIONS = [0.5, 1, 2, 5]
 
 interface OrderBookProps {
     selectedMarket?: Market | null
@@ -25,16 +33,26 @@ export function OrderBook({
     onToggleSafeMode 
 }: OrderBookProps) {
     const [amount, setAmount] = useState("")
-    const [selectedOutcome, setSelectedOutcome] = useState<Outcome | null>(null)
-    const [sellingOutcome, setSellingOutcome] = useState<Outcome | null>(null)
+    const [betMode, setBetMode] = useState<BetMode>("spend")
+    const [slippageTolerance, setSlippageTolerance] = useSlippageTolerance()
+    const [selectedOutcome, setSelectedOutcome] = useState<string | null>(null)
+    const [sellingOutcome, setSellingOutcome] = useState<string | null>(null)
+
+    const categorical = !!selectedMarket && hasOutcomeList(selectedMarket)
+    const outcomes = selectedMarket ? getMarketOutcomes(selectedMarket) : []
 
     // Get quote for the selected amount and outcome
-    const usdcAmount = parseUSDCInput(amount)
-    const { data: quoteData, isLoading: quoteLoading } = useQuote(
+    // Shares use the same 6 decimals as USDC; target % is sent as a 0-1 price
+    const orderSize = betMode === "target"
+        ? String((parseFloat(amount) || 0) / 100)
+        : parseUSDCInput(amount)
+    const { data: quoteData, isLoading: quoteLoading, error: quoteError } = useQuote(
         selectedMarket?.marketId || null,
-        usdcAmount,
+        orderSize,
         selectedOutcome,
-        !!selectedMarket && !!amount && parseFloat(amount) > 0
+        !!selectedMarket && !!amount && parseFloat(amount) > 0,
+        betMode,
+        slippageTolerance
     )
 
     // Get user's current position
@@ -49,18 +67,23 @@ export function OrderBook({
     // Sell position mutation
     const sellMutation = useSellPosition()
 
+    // Merge complete sets mutation
+    const mergeMutation = useMergePositions()
+
     // Reset form when market changes
     useEffect(() => {
         setAmount("")
         setSelectedOutcome(null)
     }, [selectedMarket?.marketId])
 
-    // Check if amount exceeds max
+    // Check if amount exceeds max (share and target orders cost what the quote says)
     const maxAmountNum = maxAmount ? parseFloat(maxAmount) : Infinity
-    const currentAmountNum = parseFloat(amount) || 0
+    const currentAmountNum = betMode === "spend"
+        ? parseFloat(amount) || 0
+        : Number(quoteData?.cost ?? 0) / 1_000_000
     const exceedsMax = currentAmountNum > maxAmountNum
 
-    const handleBuy = async (outcome: Outcome) => {
+    const handleBuy = async (outcome: string) => {
         if (!selectedMarket || !amount || parseFloat(amount) <= 0) return
         if (exceedsMax) return // Don't allow if exceeds max
 
@@ -71,7 +94,10 @@ export function OrderBook({
                 marketId: selectedMarket.marketId,
                 userId,
                 sessionId: sessionId || "",
-                amount: usdcAmount,
+                amount: betMode === "target" ? quoteData?.cost ?? "0" : orderSize,
+                mode: betMode,
+                targetPrice: betMode === "target" ? parseFloat(amount) / 100 : undefined,
+                limits: quoteData?.limits,
                 outcome,
             })
             setAmount("")
@@ -81,7 +107,7 @@ export function OrderBook({
         }
     }
 
-    const handleSell = async (outcome: Outcome, sharesAmount: string) => {
+    const handleSell = async (outcome: string, sharesAmount: string) => {
         if (!selectedMarket || !sharesAmount) return
         
         setSellingOutcome(outcome)
@@ -103,6 +129,31 @@ export function OrderBook({
     const position = positionData?.position
     const hasYesShares = position && Number(position.yesShares) > 0
     const hasNoShares = position && Number(position.noShares) > 0
+    const heldOutcomes = categorical && position?.shares
+        ? outcomes.filter(o => Number(position.shares?.[o.label] ?? 0) > 0)
+        : []
+
+    // Complete sets (one share of every outcome) redeem for 1 USDC each
+    const heldByOutcome = categorical
+        ? outcomes.map(o => BigInt(position?.shares?.[o.label] ?? "0"))
+        : [BigInt(position?.yesShares ?? "0"), BigInt(position?.noShares ?? "0")]
+    const mergeableSets = heldByOutcome.length > 0
+        ? heldByOutcome.reduce((min, shares) => (shares < min ? shares : min))
+        : BigInt(0)
+
+    const handleMerge = async () => {
+        if (!selectedMarket || mergeableSets <= BigInt(0)) return
+
+        try {
+            await mergeMutation.mutateAsync({
+                marketId: selectedMarket.marketId,
+                userId,
+                amount: mergeableSets.toString(),
+            })
+        } catch (error) {
+            console.error("Failed to merge complete sets:", error)
+        }
+    }
 
     return (
         <div className="rounded-xl border border-border bg-card/60 glass overflow-hidden min-w-0">
@@ -134,12 +185,38 @@ export function OrderBook({
                         {selectedMarket.title}
                     </p>
                 )}
+                {selectedMarket && isScalarMarket(selectedMarket) && selectedMarket.scalarRange && (
+                    <p className="mt-0.5 font-mono text-[10px] text-muted-foreground">
+                        Range {formatScalarRange(selectedMarket.scalarRange)} · LONG pays more the higher it resolves
+                    </p>
+                )}
             </div>
 
             {/* Price Display */}
             {selectedMarket ? (
                 <div className="p-4 space-y-4">
                     {/* Current Prices */}
+                    {categorical ? (
+                        <div className="space-y-1.5">
+                            {outcomes.map((o) => (
+                                <button
+                                    key={o.label}
+                                    onClick={() => setSelectedOutcome(o.label)}
+                                    className={cn(
+                                        "w-full flex items-center justify-between rounded-lg border px-3 py-2 transition-colors",
+                                        selectedOutcome === o.label
+                                            ? "border-primary bg-primary/10"
+                                            : "border-border bg-secondary/30 hover:border-primary/50"
+                                    )}
+                                >
+                                    <span className="text-sm truncate">{o.label}</span>
+                                    <span className="font-mono text-sm font-bold text-primary">
+                                        {o.price.toFixed(2)} <span className="text-xs text-muted-foreground">({(o.price * 100).toFixed(0)}%)</span>
+                                    </span>
+                                </button>
+                            ))}
+                        </div>
+                    ) : (
                     <div className="grid grid-cols-2 gap-3">
                         <div className="rounded-lg bg-green-500/10 border border-green-500/30 p-3 text-center">
                             <p className="font-mono text-2xl font-bold text-green-500">
@@ -158,12 +235,31 @@ export function OrderBook({
                             </p>
                         </div>
                     </div>
+                    )}
 
                     {/* Amount Input */}
                     <div className="space-y-2">
+                        <div className="flex bg-background rounded-lg border border-border p-1">
+                            {BET_MODES.map(({ mode, label }) => (
+                                <button
+                                    key={mode}
+                                    type="button"
+                                    onClick={() => {
+                                        setBetMode(mode)
+                                        setAmount("")
+                                    }}
+                                    className={cn(
+                                        "flex-1 py-1 font-mono text-xs rounded-md transition-all",
+                                        betMode === mode ? "bg-primary text-primary-foreground shadow-sm" : "hover:text-primary"
+                                    )}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
                         <div className="flex justify-between items-center">
                             <label className="font-mono text-xs text-muted-foreground uppercase tracking-wider">
-                                Amount (USDC)
+                                {BET_MODES.find(m => m.mode === betMode)?.input}
                             </label>
                             {maxAmount && (
                                 <span className="font-mono text-xs text-muted-foreground">
@@ -172,13 +268,15 @@ export function OrderBook({
                             )}
                         </div>
                         <div className="relative">
-                            <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">$</span>
+                            <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">
+                                {betMode === "spend" ? "$" : betMode === "target" ? "%" : "#"}
+                            </span>
                             <input
                                 type="number"
                                 value={amount}
                                 onChange={(e) => setAmount(e.target.value)}
-                                placeholder="0.00"
-                                max={maxAmountNum}
+                                placeholder={betMode === "target" ? "50" : "0.00"}
+                                max={betMode === "spend" ? maxAmountNum : betMode === "target" ? 99 : undefined}
                                 className={cn(
                                     "w-full rounded-lg border bg-background/50 py-3 pl-7 pr-4 font-mono text-lg focus:outline-none focus:ring-1",
                                     exceedsMax 
@@ -195,6 +293,7 @@ export function OrderBook({
                             </p>
                         )}
                         {/* Quick Amount Buttons */}
+                        {betMode === "spend" && (
                         <div className="flex gap-2">
                             {maxAmount && (
                                 <button
@@ -214,6 +313,7 @@ export function OrderBook({
                                 </button>
                             ))}
                         </div>
+                        )}
                     </div>
 
                     {/* Quote Display */}
@@ -223,8 +323,32 @@ export function OrderBook({
                             <span className="text-xs">Getting quote...</span>
                         </div>
                     )}
+                    {quoteError && !quoteLoading && betMode !== "spend" && (
+                        <p className="text-xs text-red-500 flex items-center gap-1">
+                            <AlertCircle className="h-3 w-3" />
+                            {quoteError.message}
+                        </p>
+                    )}
                     {quoteData && !quoteLoading && (
                         <div className="rounded-lg bg-secondary/30 border border-border/50 p-3 space-y-1">
+                            {betMode !== "spend" && (
+                                <div className="flex justify-between text-xs">
+                                    <span className="text-muted-foreground">Cost:</span>
+                                    <span className="font-mono font-medium">
+                                        ${formatUSDC(quoteData.cost)}
+                                    </span>
+                                </div>
+                            )}
+                            {quoteData.fee && BigInt(quoteData.fee.total) > BigInt(0) && (
+                                <div className="flex justify-between text-xs">
+                                    <span className="text-muted-foreground">
+                                        Fee{selectedMarket?.feeBps !== undefined && ` (${(selectedMarket.feeBps / 100).toFixed(2)}%)`}:
+                                    </span>
+                                    <span className="font-mono font-medium">
+                                        ${formatUSDC(quoteData.fee.total)}
+                                    </span>
+                                </div>
+                            )}
                             <div className="flex justify-between text-xs">
                                 <span className="text-muted-foreground">Est. Shares:</span>
                                 <span className="font-mono font-medium">
@@ -237,6 +361,22 @@ export function OrderBook({
                                     ${quoteData.effectivePrice.toFixed(4)}
                                 </span>
                             </div>
+                            {quoteData.route?.some((fill) => fill.venue === "BOOK") && (
+                                <div className="flex justify-between text-xs">
+                                    <span className="text-muted-foreground">Route:</span>
+                                    <span className="font-mono font-medium">
+                                        {(["BOOK", "AMM"] as const)
+                                            .map((venue) => {
+                                                const shares = quoteData.route!
+                                                    .filter((fill) => fill.venue === venue)
+                                                    .reduce((sum, fill) => sum + Number(fill.shares), 0)
+                                                return shares > 0 ? `${venue === "BOOK" ? "Book" : "AMM"} ${(shares / 1_000_000).toFixed(2)}` : null
+                                            })
+                                            .filter(Boolean)
+                                            .join(" · ")}
+                                    </span>
+                                </div>
+                            )}
                             <div className="flex justify-between text-xs">
                                 <span className="text-muted-foreground">Price Impact:</span>
                                 <span className={cn(
@@ -249,8 +389,74 @@ export function OrderBook({
                         </div>
                     )}
 
+                    {/* Slippage Tolerance */}
+                    <div className="flex items-center justify-between gap-2">
+                        <span className="font-mono text-[10px] text-muted-foreground uppercase tracking-wider">
+                            Max Slippage
+                        </span>
+                        <div className="flex gap-1">
+                            {SLIPPAGE_OPTIONS.map((tolerance) => (
+                                <button
+                                    key={tolerance}
+                                    type="button"
+                                    onClick={() => setSlippageTolerance(tolerance)}
+                                    className={cn(
+                                        "px-2 py-0.5 rounded border font-mono text-[10px] transition-colors",
+                                        slippageTolerance === tolerance
+                                            ? "border-primary bg-primary/10 text-primary"
+                                            : "border-border text-muted-foreground hover:border-primary/50"
+                                    )}
+                                >
+                                    {tolerance}%
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    {/* User Position (categorical) */}
+                    {categorical && heldOutcomes.length > 0 && (
+                        <div className="rounded-lg bg-primary/5 border border-primary/20 p-3 space-y-3">
+                            <p className="font-mono text-xs text-primary uppercase tracking-wider">
+                                Your Position
+                            </p>
+                            <div className="space-y-2">
+                                {heldOutcomes.map((o) => {
+                                    const shares = position?.shares?.[o.label] ?? "0"
+                                    return (
+                                        <div key={o.label} className="flex items-center justify-between p-2 rounded bg-primary/10 border border-primary/20">
+                                            <div className="min-w-0">
+                                                <p className="font-mono text-sm font-bold text-primary">
+                                                    {formatUSDC(shares)}
+                                                </p>
+                                                <p className="font-mono text-[10px] text-muted-foreground truncate">{o.label} shares</p>
+                                            </div>
+                                            <button
+                                                onClick={() => handleSell(o.label, shares)}
+                                                disabled={sellMutation.isPending && sellingOutcome === o.label}
+                                                className="px-3 py-1.5 rounded text-xs font-mono bg-primary/20 text-primary hover:bg-primary/30 transition-colors flex items-center gap-1 disabled:opacity-50"
+                                            >
+                                                {sellMutation.isPending && sellingOutcome === o.label ? (
+                                                    <Loader2 className="h-3 w-3 animate-spin" />
+                                                ) : (
+                                                    <TrendingDown className="h-3 w-3" />
+                                                )}
+                                                Sell All
+                                            </button>
+                                        </div>
+                                    )
+                                })}
+                            </div>
+                            {sellMutation.isError && (
+                                <div className="flex items-center gap-2 text-red-500 text-xs justify-center">
+                                    <AlertCircle className="h-3 w-3" />
+                                    <span>{sellMutation.error?.message || 'Failed to sell'}</span>
+                                </div>
+                            )}
+                        </div>
+                    )}
+
                     {/* User Position */}
-                    {position && (hasYesShares || hasNoShares) && (
+                    {!categorical && position && (hasYesShares || hasNoShares) && (
                         <div className="rounded-lg bg-primary/5 border border-primary/20 p-3 space-y-3">
                             <p className="font-mono text-xs text-primary uppercase tracking-wider">
                                 Your Position
@@ -317,6 +523,38 @@ export function OrderBook({
                             )}
                         </div>
                     )}
+
+                    {/* Complete Sets */}
+                    {mergeableSets > BigInt(0) && (
+                        <div className="flex items-center justify-between gap-2 p-2 rounded border border-border/50 bg-secondary/30">
+                            <div className="min-w-0">
+                                <p className="font-mono text-xs font-bold">
+                                    {formatUSDC(mergeableSets)} complete sets
+                                </p>
+                                <p className="font-mono text-[10px] text-muted-foreground truncate">
+                                    Redeem for ${formatUSDC(mergeableSets)} at par, no fee
+                                </p>
+                            </div>
+                            <button
+                                onClick={handleMerge}
+                                disabled={mergeMutation.isPending}
+                                className="px-3 py-1.5 rounded text-xs font-mono bg-primary/20 text-primary hover:bg-primary/30 transition-colors flex items-center gap-1 disabled:opacity-50"
+                            >
+                                {mergeMutation.isPending ? (
+                                    <Loader2 className="h-3 w-3 animate-spin" />
+                                ) : (
+                                    <Layers className="h-3 w-3" />
+                                )}
+                                Merge
+                            </button>
+                        </div>
+                    )}
+                    {mergeMutation.isError && (
+                        <div className="flex items-center gap-2 text-red-500 text-xs justify-center">
+                            <AlertCircle className="h-3 w-3" />
+                            <span>{mergeMutation.error?.message || 'Failed to merge'}</span>
+                        </div>
+                    )}
                 </div>
             ) : (
                 <div className="p-8 text-center">
@@ -329,6 +567,23 @@ export function OrderBook({
             {/* Trade Buttons */}
             {selectedMarket && (
                 <div className="border-t border-border/50 bg-secondary/30 p-4 space-y-3">
+                    {categorical ? (
+                        <button
+                            onClick={() => selectedOutcome && handleBuy(selectedOutcome)}
+                            disabled={!selectedOutcome || !amount || parseFloat(amount) <= 0 || placeBetMutation.isPending}
+                            className={cn(
+                                "w-full py-3 rounded-lg font-mono text-sm font-medium transition-all",
+                                "bg-primary hover:bg-primary/90 text-primary-foreground",
+                                "disabled:opacity-50 disabled:cursor-not-allowed",
+                                "flex items-center justify-center gap-2"
+                            )}
+                        >
+                            {placeBetMutation.isPending ? (
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : null}
+                            <span className="truncate">{selectedOutcome ? `Buy ${selectedOutcome}` : "Select an outcome"}</span>
+                        </button>
+                    ) : (
                     <div className="grid grid-cols-2 gap-2">
                         <button
                             onClick={() => handleBuy(Outcome.YES)}
@@ -361,6 +616,7 @@ export function OrderBook({
                             Buy NO
                         </button>
                     </div>
+                    )}
 
                     {/* Success/Error Messages */}
                     {placeBetMutation.isSuccess && (
@@ -0,0 +1,128 @@
+"use client"
+
+import { useState } from "react"
+import { cn } from "@/lib/utils"
+import { Loader2, Gavel, ShieldAlert, CheckCircle } from "lucide-react"
+import { useProposedResolutions, useDisputeResolution, useFinalizeResolution } from "@/hooks/use-amm"
+import { formatUSDC } from "@/lib/amm-types"
+import type { Market } from "@/lib/amm-types"
+
+interface ProposedResolutionsProps {
+    /** Session disputes post their bond from (disputing is disabled without one) */
+    sessionId?: string | null
+}
+
+/**
+ * Resolutions awaiting their dispute window or an admin decision. Nothing is
+ * paid out until they are final.
+ */
+export function ProposedResolutions({ sessionId }: ProposedResolutionsProps) {
+    const [actingOn, setActingOn] = useState<string | null>(null)
+    const { data } = useProposedResolutions()
+    const disputeMutation = useDisputeResolution()
+    const finalizeMutation = useFinalizeResolution()
+
+    const markets = data?.markets ?? []
+    if (markets.length === 0) return null
+
+    const error = disputeMutation.error ?? finalizeMutation.error
+
+    const handleDispute = async (market: Market) => {
+        if (!sessionId) return
+        setActingOn(market.marketId)
+        try {
+            await disputeMutation.mutateAsync({ marketId: market.marketId, userId: sessionId })
+        } catch (err) {
+            console.error(err)
+        } finally {
+            setActingOn(null)
+        }
+    }
+
+    const handleFinalize = async (market: Market) => {
+        setActingOn(market.marketId)
+        try {
+            await finalizeMutation.mutateAsync({ marketId: market.marketId })
+        } catch (err) {
+            console.error(err)
+        } finally {
+            setActingOn(null)
+        }
+    }
+
+    return (
+        <div className="rounded-xl border border-border bg-card/60 glass overflow-hidden min-w-0">
+            {/* Header */}
+            <div className="border-b border-border/50 bg-secondary/40 px-4 py-3">
+                <div className="flex items-center justify-between">
+                    <h3 className="font-mono text-xs uppercase tracking-wider text-primary">
+                        Pending Resolutions
+                    </h3>
+                    <span className="font-mono text-[10px] text-muted-foreground">
+                        {markets.length} pending
+                    </span>
+                </div>
+            </div>
+
+            <div className="p-4 space-y-2">
+                {markets.map((market) => {
+                    const disputed = market.status === 'DISPUTED'
+                    const windowOpen = !disputed && !!market.disputeEndsAt && new Date(market.disputeEndsAt) > new Date()
+                    const busy = actingOn === market.marketId
+
+                    return (
+                        <div
+                            key={market.marketId}
+                            className={cn(
+                                "flex items-center justify-between gap-2 p-2 rounded border",
+                                disputed ? "border-yellow-500/30 bg-yellow-500/5" : "border-border/50 bg-secondary/30"
+                            )}
+                        >
+                            <div className="min-w-0">
+                                <p className="text-xs font-medium truncate">{market.title}</p>
+                                <p className="font-mono text-[10px] text-muted-foreground truncate">
+                                    Proposed {market.proposedValue}
+                                    {disputed
+                                        ? " · disputed, awaiting decision"
+                                        : windowOpen
+                                            ? ` · disputable until ${new Date(market.disputeEndsAt!).toLocaleString()}`
+                                            : " · final once finalized"}
+                                </p>
+                            </div>
+
+                            {disputed ? (
+                                <span className="inline-flex items-center gap-1 text-[10px] font-mono text-yellow-500 shrink-0">
+                                    <Gavel className="h-3 w-3" />
+                                    DISPUTED
+                                </span>
+                            ) : windowOpen ? (
+                                <button
+                                    onClick={() => handleDispute(market)}
+                                    disabled={!sessionId || busy}
+                                    title={sessionId ? undefined : "Start a session to dispute"}
+                                    className="inline-flex items-center gap-1 px-2 py-1 rounded border border-yellow-500/30 bg-yellow-500/10 text-yellow-500 font-mono text-[10px] hover:bg-yellow-500/20 disabled:opacity-50 shrink-0"
+                                >
+                                    {busy ? <Loader2 className="h-3 w-3 animate-spin" /> : <ShieldAlert className="h-3 w-3" />}
+                                    Dispute (${formatUSDC(market.disputeBond)} bond)
+                                </button>
+                            ) : (
+                                <button
+                                    onClick={() => handleFinalize(market)}
+                                    disabled={busy}
+                                    className="inline-flex items-center gap-1 px-2 py-1 rounded border border-primary/30 bg-primary/10 text-primary font-mono text-[10px] hover:bg-primary/20 disabled:opacity-50 shrink-0"
+                                >
+                                    {busy ? <Loader2 className="h-3 w-3 animate-spin" /> : <CheckCircle className="h-3 w-3" />}
+                                    Finalize
+                                </button>
+                            )}
+                        </div>
+                    )
+                })}
+
+                {error && (
+                    <p className="text-xs text-red-500">{error.message}</p>
+                )}
+            </div>
+        </div>
+    )
+}
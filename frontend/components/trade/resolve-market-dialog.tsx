@@ -4,7 +4,7 @@ import { useState } from "react"
 import { Check, X, Gavel, Loader2, AlertCircle } from "lucide-react"
 import { cn } from "@/lib/utils"
 import { useMutation, useQueryClient } from "@tanstack/react-query"
-import { Market } from "@/lib/amm-types"
+import { Market, isCategoricalMarket, isScalarMarket, formatScalarRange, formatDuration } from "@/lib/amm-types"
 import { useAccount } from "wagmi"
 
 interface ResolveMarketDialogProps {
@@ -14,14 +14,17 @@ interface ResolveMarketDialogProps {
 }
 
 export function ResolveMarketDialog({ isOpen, onClose, market }: ResolveMarketDialogProps) {
-    const [outcome, setOutcome] = useState<'YES' | 'NO' | null>(null)
+    const [outcome, setOutcome] = useState<string | null>(null)
+    const categoricalOutcomes = isCategoricalMarket(market) ? (market.outcomes ?? []) : null
+    const scalarRange = isScalarMarket(market) ? (market.scalarRange ?? null) : null
+    const [scalarValue, setScalarValue] = useState("")
     const [confirming, setConfirming] = useState(false)
     const queryClient = useQueryClient()
     const { address } = useAccount()
 
     // Resolve Mutation
     const resolveMutation = useMutation({
-        mutationFn: async (vars: { marketId: string, outcome: number, resolvedBy: string }) => {
+        mutationFn: async (vars: { marketId: string, outcome?: number, value?: number, resolvedBy: string }) => {
             // Retrieve resolver address (assuming user is connected and we can get it from context/props if needed, 
             // but for simplicity we'll just pass a placeholder or let the backend validate if we send the wallet address)
             // Implementation note: Ideally we should sign this message or pass the connected wallet address.
@@ -47,8 +50,15 @@ export function ResolveMarketDialog({ isOpen, onClose, market }: ResolveMarketDi
         }
     })
 
+    // Scalar markets resolve to an observed value instead of an outcome
+    const parsedValue = scalarValue.trim() === "" ? NaN : Number(scalarValue)
+    const longPayout = scalarRange && Number.isFinite(parsedValue)
+        ? Math.min(Math.max((parsedValue - scalarRange.low) / (scalarRange.high - scalarRange.low), 0), 1)
+        : null
+    const canResolve = scalarRange ? longPayout !== null : !!outcome
+
     const handleResolve = async () => {
-        if (!outcome) return
+        if (!canResolve) return
         setConfirming(true)
 
         try {
@@ -59,9 +69,15 @@ export function ResolveMarketDialog({ isOpen, onClose, market }: ResolveMarketDi
             // Let's defer address fetching and just send the request.
             // Note: In a real app we'd need to verify the sender.
 
-            await resolveMutation.mutateAsync({
+            await resolveMutation.mutateAsync(scalarRange ? {
+                marketId: market.marketId,
+                value: parsedValue,
+                resolvedBy: address || "unknown"
+            } : {
                 marketId: market.marketId,
-                outcome: outcome === 'YES' ? 0 : 1,
+                outcome: categoricalOutcomes
+                    ? categoricalOutcomes.indexOf(outcome!)
+                    : outcome === 'YES' ? 0 : 1,
                 resolvedBy: address || "unknown"
             })
         } catch (err) {
@@ -95,9 +111,44 @@ export function ResolveMarketDialog({ isOpen, onClose, market }: ResolveMarketDi
                 {!confirming ? (
                     <div className="space-y-4">
                         <p className="text-sm font-medium text-center text-muted-foreground/80">
-                            Select the winning outcome:
+                            {scalarRange ? "Enter the observed value:" : "Select the winning outcome:"}
                         </p>
 
+                        {scalarRange ? (
+                            <div className="space-y-2">
+                                <input
+                                    type="number"
+                                    value={scalarValue}
+                                    onChange={(e) => setScalarValue(e.target.value)}
+                                    placeholder={String(scalarRange.low)}
+                                    className="w-full px-3 py-2 rounded-lg border border-border bg-background font-mono outline-none focus:border-primary"
+                                />
+                                <p className="text-xs text-muted-foreground text-center">
+                                    Range {formatScalarRange(scalarRange)}
+                                    {longPayout !== null && (
+                                        <> · LONG pays ${longPayout.toFixed(2)}, SHORT pays ${(1 - longPayout).toFixed(2)}</>
+                                    )}
+                                </p>
+                            </div>
+                        ) : categoricalOutcomes ? (
+                            <div className="space-y-2 max-h-64 overflow-y-auto">
+                                {categoricalOutcomes.map((label) => (
+                                    <button
+                                        key={label}
+                                        onClick={() => setOutcome(label)}
+                                        className={cn(
+                                            "w-full flex items-center gap-2 p-3 rounded-xl border-2 transition-all text-left",
+                                            outcome === label
+                                                ? "border-primary bg-primary/10 text-primary"
+                                                : "border-border hover:border-primary/50 hover:bg-accent"
+                                        )}
+                                    >
+                                        <Check className={cn("h-4 w-4 shrink-0", outcome === label ? "opacity-100" : "opacity-0")} />
+                                        <span className="font-bold truncate">{label}</span>
+                                    </button>
+                                ))}
+                            </div>
+                        ) : (
                         <div className="grid grid-cols-2 gap-3">
                             <button
                                 onClick={() => setOutcome('YES')}
@@ -125,12 +176,17 @@ export function ResolveMarketDialog({ isOpen, onClose, market }: ResolveMarketDi
                                 <span className="font-bold">NO</span>
                             </button>
                         </div>
+                        )}
 
-                        {outcome && (
+                        {canResolve && (
                             <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-3 flex items-start gap-3 mt-4">
                                 <AlertCircle className="h-4 w-4 text-yellow-500 shrink-0 mt-0.5" />
                                 <p className="text-xs text-yellow-500/90 text-left">
-                                    This action is irreversible. Funds will be distributed immediately to {outcome} holders.
+                                    {market.disputeWindowSeconds
+                                        ? `This proposes the resolution. It can be disputed for ${formatDuration(market.disputeWindowSeconds)}, and funds are distributed once it is final.`
+                                        : scalarRange
+                                            ? "This action is irreversible. Funds will be distributed immediately to LONG and SHORT holders."
+                                            : `This action is irreversible. Funds will be distributed immediately to ${outcome} holders.`}
                                 </p>
                             </div>
                         )}
@@ -144,12 +200,13 @@ export function ResolveMarketDialog({ isOpen, onClose, market }: ResolveMarketDi
                             </button>
                             <button
                                 onClick={handleResolve}
-                                disabled={!outcome}
+                                disabled={!canResolve}
                                 className={cn(
                                     "flex-1 py-2.5 rounded-lg font-medium transition-all shadow-lg",
                                     outcome === 'YES' ? "bg-green-500 text-white shadow-green-500/20" :
                                         outcome === 'NO' ? "bg-red-500 text-white shadow-red-500/20" :
-                                            "bg-muted text-muted-foreground cursor-not-allowed"
+                                            canResolve ? "bg-primary text-primary-foreground shadow-primary/20" :
+                                                "bg-muted text-muted-foreground cursor-not-allowed"
                                 )}
                             >
                                 Confirm Resolve
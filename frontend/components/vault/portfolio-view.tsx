@@ -1,8 +1,16 @@
 "use client"
 
 import { useState, useEffect } from "react"
-import { TrendingUp, Shield, DollarSign, Lock, Loader2 } from "lucide-react"
+import { TrendingUp, Shield, DollarSign, Lock, Loader2, BarChart3 } from "lucide-react"
+import { cn } from "@/lib/utils"
 import { useSessionEscrow, SessionState } from "@/hooks/use-session-escrow"
+import { usePortfolio } from "@/hooks/use-amm"
+
+// Signed USDC amount from base units, e.g. "+$1.25"
+function formatPnl(amount: string) {
+    const value = Number(amount) / 1_000_000
+    return `${value >= 0 ? '+' : '-'}$${Math.abs(value).toFixed(2)}`
+}
 
 export function PortfolioView() {
     const { 
@@ -13,9 +21,12 @@ export function PortfolioView() {
         available,
         locked,
         sessionState,
-        yieldRateBps 
+        yieldRateBps,
+        activeSessionId
     } = useSessionEscrow()
 
+    const { data: portfolio, isLoading: isPortfolioLoading } = usePortfolio(activeSessionId || null)
+
     // Simplified checks
     const isConnected = !!deposited 
     
@@ -125,6 +136,67 @@ export function PortfolioView() {
                     </div>
                 </div>
 
+                {/* Open Positions, marked to current prices */}
+                {activeSessionId && (
+                    <div className="space-y-3">
+                        <div className="flex items-center justify-between">
+                            <div className="flex items-center gap-2">
+                                <BarChart3 className="h-4 w-4 text-primary" />
+                                <span className="font-mono text-xs text-muted-foreground uppercase tracking-wider">
+                                    Open Positions
+                                </span>
+                            </div>
+                            {portfolio && (
+                                <span className="font-mono text-[10px] text-muted-foreground">
+                                    Realized {formatPnl(portfolio.totals.realizedPnl)}
+                                </span>
+                            )}
+                        </div>
+
+                        {isPortfolioLoading ? (
+                            <div className="flex justify-center py-4">
+                                <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                            </div>
+                        ) : !portfolio || portfolio.positions.length === 0 ? (
+                            <p className="text-xs text-muted-foreground text-center py-2">No open positions</p>
+                        ) : (
+                            <div className="rounded-lg border border-border/50 divide-y divide-border/50">
+                                {portfolio.positions.map(position => (
+                                    <div key={`${position.marketId}-${position.outcome}`} className="flex items-center justify-between p-3 text-sm">
+                                        <div className="min-w-0">
+                                            <p className="truncate">{position.marketTitle}</p>
+                                            <p className="font-mono text-[10px] text-muted-foreground">
+                                                {(Number(position.shares) / 1_000_000).toFixed(2)} {position.outcome}
+                                                {' @ '}{position.averageEntryPrice.toFixed(3)} → {position.markPrice.toFixed(3)}
+                                            </p>
+                                        </div>
+                                        <div className="text-right shrink-0 ml-4">
+                                            <p className="font-mono">${(Number(position.marketValue) / 1_000_000).toFixed(2)}</p>
+                                            <p className={cn(
+                                                "font-mono text-[10px]",
+                                                Number(position.unrealizedPnl) >= 0 ? "text-green-500" : "text-red-500"
+                                            )}>
+                                                {formatPnl(position.unrealizedPnl)}
+                                            </p>
+                                        </div>
+                                    </div>
+                                ))}
+                                <div className="flex items-center justify-between p-3 text-sm bg-secondary/30">
+                                    <span className="font-mono text-[10px] text-muted-foreground uppercase tracking-wider">
+                                        Unrealized PnL
+                                    </span>
+                                    <span className={cn(
+                                        "font-mono font-bold",
+                                        Number(portfolio.totals.unrealizedPnl) >= 0 ? "text-green-500" : "text-red-500"
+                                    )}>
+                                        {formatPnl(portfolio.totals.unrealizedPnl)}
+                                    </span>
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                )}
+
                 {/* Session State (if active) */}
                 {sessionLabel && (
                     <div className="rounded-lg border border-green-500/30 bg-green-500/10 p-4">
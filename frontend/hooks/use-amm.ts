@@ -4,18 +4,46 @@
  * AMM Hooks - React Query hooks for AMM operations
  */
 
+import { useState, useEffect, useCallback } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { Outcome } from '@/lib/amm-types';
+import { useSignMessage } from 'wagmi';
+import {
+    Outcome,
+    DEFAULT_SLIPPAGE_TOLERANCE,
+    buyLimitsFromQuote,
+    tradeDeadline
+} from '@/lib/amm-types';
+import { postIdempotent } from '@/lib/idempotency';
 import type {
     Market,
     BetQuote,
     BetResult,
     SellResult,
-    Position
+    SplitResult,
+    MergeResult,
+    Position,
+    Portfolio,
+    PricingEngineType,
+    ScalarRange,
+    BetMode,
+    TradeLimits,
+    LiquidityPosition,
+    AddLiquidityResult,
+    RemoveLiquidityResult,
+    LimitOrder,
+    LimitOrderStatus,
+    OrderSide,
+    MarketOrderBook,
+    TimeInForce,
+    ReconciliationReport,
+    RefundMode,
+    MarketCancellation,
+    ResolutionResult,
+    ResolutionDispute,
+    DisputeDecision,
+    OracleSchedulerStatus,
+    OracleAsset
 } from '@/lib/amm-types';
-import { yellowClientManager } from '@/lib/yellow-client';
-import { type Hex, keccak256, encodePacked } from 'viem';
-import { yellowEvents } from '@/lib/events';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // QUERY KEYS
@@ -25,10 +53,22 @@ export const ammKeys = {
     all: ['amm'] as const,
     markets: () => [...ammKeys.all, 'markets'] as const,
     market: (id: string) => [...ammKeys.markets(), id] as const,
-    quote: (marketId: string, amount: string, outcome: Outcome) =>
-        [...ammKeys.all, 'quote', marketId, amount, outcome] as const,
+    quote: (marketId: string, amount: string, outcome: Outcome | string, mode: BetMode = 'spend') =>
+        [...ammKeys.all, 'quote', marketId, mode, amount, outcome] as const,
     position: (marketId: string, userId: string) =>
         [...ammKeys.all, 'position', marketId, userId] as const,
+    portfolio: (userId: string) => [...ammKeys.all, 'portfolio', userId] as const,
+    liquidity: (marketId: string, userId: string) =>
+        [...ammKeys.all, 'liquidity', marketId, userId] as const,
+    orders: () => [...ammKeys.all, 'orders'] as const,
+    userOrders: (userId: string, status?: LimitOrderStatus) =>
+        [...ammKeys.orders(), userId, status ?? 'ALL'] as const,
+    // Under orders() so every order change refreshes the book
+    book: (marketId: string) => [...ammKeys.orders(), 'book', marketId] as const,
+    reconciliation: () => [...ammKeys.all, 'reconciliation'] as const,
+    proposedResolutions: () => [...ammKeys.all, 'proposed-resolutions'] as const,
+    oracleStatus: () => [...ammKeys.all, 'oracle-status'] as const,
+    oracleAssets: () => [...ammKeys.all, 'oracle-assets'] as const,
 };
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -43,16 +83,22 @@ async function fetchMarkets(): Promise<{ markets: Market[] }> {
     return response.json();
 }
 
+/**
+ * @param amount USDC (spend), shares (shares) or target price 0-1 (target)
+ */
 async function fetchQuote(
     marketId: string,
     amount: string,
-    outcome: Outcome
+    outcome: Outcome | string,
+    mode: BetMode = 'spend'
 ): Promise<BetQuote> {
+    const size = mode === 'target' ? `targetPrice=${amount}` : `amount=${amount}`;
     const response = await fetch(
-        `/api/amm/quote?marketId=${marketId}&amount=${amount}&outcome=${outcome}`
+        `/api/amm/quote?marketId=${marketId}&mode=${mode}&${size}&outcome=${encodeURIComponent(outcome)}`
     );
     if (!response.ok) {
-        throw new Error('Failed to get quote');
+        const error = await response.json().catch(() => ({ error: 'Failed to get quote' }));
+        throw new Error(error.error || 'Failed to get quote');
     }
     return response.json();
 }
@@ -61,11 +107,7 @@ async function claimWinnings(params: {
     marketId: string;
     userId: string;
 }): Promise<{ success: boolean; payout: string }> {
-    const response = await fetch('/api/amm/claim', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(params),
-    });
+    const response = await postIdempotent('/api/amm/claim', params);
     if (!response.ok) {
         const error = await response.json().catch(() => ({ error: 'Failed to claim' }));
         throw new Error(error.error || 'Failed to claim winnings');
@@ -84,67 +126,36 @@ async function fetchPosition(
     return response.json();
 }
 
+async function fetchPortfolio(userId: string): Promise<Portfolio> {
+    const response = await fetch(`/api/amm/portfolio/${userId}`);
+    if (!response.ok) {
+        throw new Error('Failed to get portfolio');
+    }
+    return response.json();
+}
+
 async function placeBet(params: {
     marketId: string;
     userId: string;
     sessionId: string;
+    /** USDC to spend, or shares to buy in "shares" mode (base units) */
     amount: string;
-    outcome: Outcome;
+    /** How the order is sized; defaults to "spend" */
+    mode?: BetMode;
+    /** Price (0-1) to move the outcome to in "target" mode */
+    targetPrice?: number;
+    /** Outcome label (YES/NO, or a categorical outcome) */
+    outcome: Outcome | string;
+    /** Slippage limits (see useQuote); the deadline defaults to now + TRADE_DEADLINE_SECONDS */
+    limits?: TradeLimits;
 }): Promise<BetResult> {
-    
-    // 1. Try to sign with Session Key
-    let signature: Hex | undefined;
-    let signedState: Hex | undefined;
-    
-    const client = yellowClientManager.getClient();
-    const signerAddress = yellowClientManager.getSignerAddress();
-
-    if (client && signerAddress) {
-        // Create a representation of the state transition
-        // In full implementation, this would be the actual Nitrolite 'State' object
-        // encoded with ABI. For now, we sign the intent.
-        const intentHash = keccak256(
-            encodePacked(
-                ['string', 'string', 'uint256', 'uint8'],
-                [
-                    params.marketId,
-                    params.userId,
-                    BigInt(params.amount),
-                    params.outcome === Outcome.YES ? 0 : 1
-                ]
-            )
-        );
-        
-        // Sign the intent
-        try {
-            signature = await yellowClientManager.signMessage(intentHash);
-            
-            // LOGGING FOR DEMO
-            yellowEvents.emit({
-                type: 'SIGNATURE',
-                message: `Bet Signed with Session Key: ${signerAddress}`,
-                hash: signature,
-                data: {
-                    marketId: params.marketId,
-                    amount: params.amount,
-                    outcome: params.outcome,
-                    intentHash
-                }
-            });
-
-        } catch (e) {
-            console.warn("Failed to sign bet with session key:", e);
-        }
-    }
-
-    const response = await fetch('/api/amm/bet', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-            ...params,
-            signature,
-            signerAddress // Send who signed it
-        }),
+    const { limits, ...order } = params;
+    const deadline = limits?.deadline ?? tradeDeadline();
+    const response = await postIdempotent('/api/amm/bet', {
+        ...order,
+        minSharesOut: limits?.minSharesOut,
+        maxAvgPrice: limits?.maxAvgPrice,
+        deadline
     });
 
     if (!response.ok) {
@@ -158,12 +169,15 @@ async function sellPosition(params: {
     marketId: string;
     userId: string;
     amount: string;
-    outcome: Outcome;
+    outcome: Outcome | string;
+    /** Minimum payout; the deadline defaults to now + TRADE_DEADLINE_SECONDS */
+    limits?: TradeLimits;
 }): Promise<SellResult> {
-    const response = await fetch('/api/amm/sell', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(params),
+    const { limits, ...order } = params;
+    const response = await postIdempotent('/api/amm/sell', {
+        ...order,
+        minUsdcOut: limits?.minUsdcOut,
+        deadline: limits?.deadline ?? tradeDeadline()
     });
     if (!response.ok) {
         const error = await response.json();
@@ -172,6 +186,125 @@ async function sellPosition(params: {
     return response.json();
 }
 
+async function splitPosition(params: {
+    marketId: string;
+    userId: string;
+    /** USDC to split (base units) */
+    amount: string;
+}): Promise<SplitResult> {
+    const response = await postIdempotent('/api/amm/split', params);
+    if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: 'Failed to split' }));
+        throw new Error(error.error || 'Failed to split');
+    }
+    return response.json();
+}
+
+async function mergePositions(params: {
+    marketId: string;
+    userId: string;
+    /** Complete sets to merge (base units) */
+    amount: string;
+}): Promise<MergeResult> {
+    const response = await postIdempotent('/api/amm/merge', params);
+    if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: 'Failed to merge' }));
+        throw new Error(error.error || 'Failed to merge');
+    }
+    return response.json();
+}
+
+async function fetchLiquidityPosition(
+    marketId: string,
+    userId: string
+): Promise<{ position: LiquidityPosition | null }> {
+    const response = await fetch(`/api/amm/liquidity/${marketId}/${userId}`);
+    if (!response.ok) {
+        throw new Error('Failed to get liquidity position');
+    }
+    return response.json();
+}
+
+async function addLiquidity(params: {
+    marketId: string;
+    userId: string;
+    /** USDC to deposit (base units) */
+    amount: string;
+}): Promise<AddLiquidityResult> {
+    const response = await postIdempotent('/api/amm/liquidity/add', params);
+    if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: 'Failed to add liquidity' }));
+        throw new Error(error.error || 'Failed to add liquidity');
+    }
+    return response.json();
+}
+
+async function removeLiquidity(params: {
+    marketId: string;
+    userId: string;
+    lpShares: string;
+}): Promise<RemoveLiquidityResult> {
+    const response = await postIdempotent('/api/amm/liquidity/remove', params);
+    if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: 'Failed to remove liquidity' }));
+        throw new Error(error.error || 'Failed to remove liquidity');
+    }
+    return response.json();
+}
+
+async function fetchLimitOrders(
+    userId: string,
+    status?: LimitOrderStatus
+): Promise<{ orders: LimitOrder[] }> {
+    const query = status ? `?status=${status}` : '';
+    const response = await fetch(`/api/amm/orders/${userId}${query}`);
+    if (!response.ok) {
+        throw new Error('Failed to get limit orders');
+    }
+    return response.json();
+}
+
+async function fetchOrderBook(marketId: string): Promise<MarketOrderBook> {
+    const response = await fetch(`/api/amm/book/${marketId}`);
+    if (!response.ok) {
+        throw new Error('Failed to get order book');
+    }
+    return response.json();
+}
+
+async function placeLimitOrder(params: {
+    marketId: string;
+    userId: string;
+    outcome: Outcome | string;
+    side: OrderSide;
+    /** Bids: USDC to escrow, fee included; asks: shares to sell (base units) */
+    amount: string;
+    /** Highest price (0-1) to buy at, or lowest to sell at */
+    limitPrice: number;
+    timeInForce: TimeInForce;
+    /** ISO date string (GTT only) */
+    expiresAt?: string;
+}): Promise<{ order: LimitOrder }> {
+    const response = await postIdempotent('/api/amm/orders', params);
+    if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: 'Failed to place limit order' }));
+        throw new Error(error.error || 'Failed to place limit order');
+    }
+    return response.json();
+}
+
+async function cancelLimitOrder(params: {
+    orderId: string;
+    userId: string;
+}): Promise<{ order: LimitOrder }> {
+    const response = await postIdempotent('/api/amm/orders/cancel', params);
+    if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: 'Failed to cancel limit order' }));
+        throw new Error(error.error || 'Failed to cancel limit order');
+    }
+    return response.json();
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // HOOKS
 // ═══════════════════════════════════════════════════════════════════════════
@@ -190,21 +323,48 @@ export function useMarkets() {
 
 /**
  * Hook to get a bet quote
+ * `data.limits` holds the slippage limits to pass to usePlaceBet at the
+ * given tolerance (percent)
  */
 export function useQuote(
     marketId: string | null,
     amount: string,
-    outcome: Outcome | null,
-    enabled = true
+    outcome: Outcome | string | null,
+    enabled = true,
+    mode: BetMode = 'spend',
+    slippageTolerance: number = DEFAULT_SLIPPAGE_TOLERANCE
 ) {
     return useQuery({
-        queryKey: ammKeys.quote(marketId || '', amount, outcome || Outcome.YES),
-        queryFn: () => fetchQuote(marketId!, amount, outcome!),
+        queryKey: ammKeys.quote(marketId || '', amount, outcome || Outcome.YES, mode),
+        queryFn: () => fetchQuote(marketId!, amount, outcome!, mode),
+        select: (quote) => ({ ...quote, limits: buyLimitsFromQuote(quote, slippageTolerance) }),
         enabled: enabled && !!marketId && !!amount && amount !== '0' && !!outcome,
         staleTime: 5 * 1000, // 5 seconds
     });
 }
 
+const SLIPPAGE_STORAGE_KEY = 'basis-zero-slippage-tolerance';
+
+/**
+ * User's slippage tolerance in percent, persisted in local storage
+ */
+export function useSlippageTolerance(): [number, (tolerance: number) => void] {
+    const [tolerance, setToleranceState] = useState(DEFAULT_SLIPPAGE_TOLERANCE);
+
+    // Read after mount to avoid a hydration mismatch
+    useEffect(() => {
+        const stored = parseFloat(localStorage.getItem(SLIPPAGE_STORAGE_KEY) ?? '');
+        if (stored > 0 && stored < 100) setToleranceState(stored);
+    }, []);
+
+    const setTolerance = useCallback((value: number) => {
+        setToleranceState(value);
+        localStorage.setItem(SLIPPAGE_STORAGE_KEY, String(value));
+    }, []);
+
+    return [tolerance, setTolerance];
+}
+
 /**
  * Hook to get user's position in a market
  */
@@ -217,6 +377,20 @@ export function usePosition(marketId: string | null, userId: string | null) {
     });
 }
 
+/**
+ * Hook to get a user's open positions marked to current prices, with
+ * unrealized and realized PnL (refreshed as other trades move prices)
+ */
+export function usePortfolio(userId: string | null) {
+    return useQuery({
+        queryKey: ammKeys.portfolio(userId || ''),
+        queryFn: () => fetchPortfolio(userId!),
+        enabled: !!userId,
+        staleTime: 10 * 1000,
+        refetchInterval: 15 * 1000,
+    });
+}
+
 /**
  * Hook to place a bet
  */
@@ -234,6 +408,8 @@ export function usePlaceBet() {
             });
             // Invalidate streaming balance so Max amount updates after trade
             queryClient.invalidateQueries({ queryKey: ['streaming-balance-for-trade'] });
+            // The trade may have filled resting limit orders
+            queryClient.invalidateQueries({ queryKey: ammKeys.orders() });
             // Invalidate trade history so profile updates
             queryClient.invalidateQueries({ queryKey: ['user-trades'] });
         },
@@ -257,12 +433,53 @@ export function useSellPosition() {
             });
             // Invalidate streaming balance so Max amount updates after sell
             queryClient.invalidateQueries({ queryKey: ['streaming-balance-for-trade'] });
+            // The trade may have filled resting limit orders
+            queryClient.invalidateQueries({ queryKey: ammKeys.orders() });
             // Invalidate trade history so profile updates
             queryClient.invalidateQueries({ queryKey: ['user-trades'] });
         },
     });
 }
 
+/**
+ * Invalidate everything a split or merge touches
+ */
+function useInvalidateCompleteSets() {
+    const queryClient = useQueryClient();
+
+    return (variables: { marketId: string; userId: string }) => {
+        queryClient.invalidateQueries({
+            queryKey: ammKeys.position(variables.marketId, variables.userId)
+        });
+        queryClient.invalidateQueries({ queryKey: ['streaming-balance-for-trade'] });
+        queryClient.invalidateQueries({ queryKey: ['user-trades'] });
+    };
+}
+
+/**
+ * Hook to split USDC into complete sets (one share of every outcome per USDC)
+ */
+export function useSplitPosition() {
+    const invalidate = useInvalidateCompleteSets();
+
+    return useMutation({
+        mutationFn: splitPosition,
+        onSuccess: (_, variables) => invalidate(variables),
+    });
+}
+
+/**
+ * Hook to merge complete sets back into USDC at par
+ */
+export function useMergePositions() {
+    const invalidate = useInvalidateCompleteSets();
+
+    return useMutation({
+        mutationFn: mergePositions,
+        onSuccess: (_, variables) => invalidate(variables),
+    });
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // CREATE MARKET
 // ═══════════════════════════════════════════════════════════════════════════
@@ -272,19 +489,24 @@ interface CreateMarketParams {
     title: string;
     description?: string;
     category?: string;
+    opensAt?: string; // ISO date string, trading opens at creation when omitted
     expiresAt: string; // ISO date string
     initialLiquidity: string; // USDC amount in base units
+    creatorId: string; // Session that funds the liquidity and receives the LP shares
+    outcomes?: string[]; // Categorical outcome labels (omit for YES/NO)
+    scalarRange?: ScalarRange; // LONG/SHORT range market (omit for YES/NO)
+    pricingEngine?: PricingEngineType; // Defaults to CPMM
+    feeBps?: number; // Trade fee in basis points (defaults to 1%)
+    refundMode?: RefundMode; // How holders are refunded if the market is cancelled (defaults to COST_BASIS)
+    disputeWindowSeconds?: number; // Seconds a proposed resolution can be disputed (defaults to 0: final immediately)
+    disputeBond?: string; // USDC a disputer posts, in base units (defaults to 10 USDC)
     resolutionType?: 'manual' | 'oracle';
     oracleConfig?: Record<string, unknown>;
     resolverAddress?: string;
 }
 
 async function createMarket(params: CreateMarketParams): Promise<{ success: boolean; market: any }> {
-    const response = await fetch('/api/amm/markets', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(params),
-    });
+    const response = await postIdempotent('/api/amm/markets', params);
 
     if (!response.ok) {
         const error = await response.json();
@@ -309,6 +531,386 @@ export function useCreateMarket() {
     });
 }
 
+// ═══════════════════════════════════════════════════════════════════════════
+// CANCEL MARKET
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Message the market's resolver signs to cancel it (must match the backend's)
+ */
+function cancelMarketMessage(marketId: string, refundMode?: RefundMode): string {
+    return `Cancel market ${marketId} (refund mode: ${refundMode ?? 'default'})`;
+}
+
+async function cancelMarket(params: {
+    marketId: string;
+    /** Overrides the market's refund mode */
+    refundMode?: RefundMode;
+    /** The resolver's wallet signature of cancelMarketMessage */
+    signature: string;
+}): Promise<MarketCancellation> {
+    const response = await postIdempotent('/api/amm/markets/cancel', params);
+    if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: 'Failed to cancel market' }));
+        throw new Error(error.error || 'Failed to cancel market');
+    }
+    return response.json();
+}
+
+/**
+ * Hook to cancel a market and refund every holder. Asks the connected
+ * wallet (the market's resolver) to sign the cancellation
+ */
+export function useCancelMarket() {
+    const queryClient = useQueryClient();
+    const { signMessageAsync } = useSignMessage();
+
+    return useMutation({
+        mutationFn: async (params: { marketId: string; refundMode?: RefundMode }) => {
+            const signature = await signMessageAsync({ message: cancelMarketMessage(params.marketId, params.refundMode) });
+            return cancelMarket({ ...params, signature });
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ammKeys.all });
+            queryClient.invalidateQueries({ queryKey: ['my-markets'] });
+            // Refunds land in session balances and trade history
+            queryClient.invalidateQueries({ queryKey: ['streaming-balance-for-trade'] });
+            queryClient.invalidateQueries({ queryKey: ['user-trades'] });
+        },
+    });
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DISPUTES
+// ═══════════════════════════════════════════════════════════════════════════
+
+async function fetchProposedResolutions(): Promise<{ markets: Market[] }> {
+    const response = await fetch('/api/amm/markets/proposed');
+    if (!response.ok) {
+        throw new Error('Failed to get proposed resolutions');
+    }
+    return response.json();
+}
+
+async function disputeResolution(params: {
+    marketId: string;
+    /** Session the bond is posted from */
+    userId: string;
+    reason?: string;
+}): Promise<ResolutionDispute> {
+    const response = await postIdempotent('/api/amm/markets/dispute', params);
+    if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: 'Failed to dispute resolution' }));
+        throw new Error(error.error || 'Failed to dispute resolution');
+    }
+    return response.json();
+}
+
+async function finalizeResolution(params: { marketId: string }): Promise<ResolutionResult> {
+    const response = await postIdempotent('/api/amm/markets/finalize', params);
+    if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: 'Failed to finalize resolution' }));
+        throw new Error(error.error || 'Failed to finalize resolution');
+    }
+    return response.json();
+}
+
+async function decideDispute(params: {
+    marketId: string;
+    /** Winning outcome (index or label); scalar markets pass `value` instead */
+    outcome?: number | string;
+    value?: number;
+}): Promise<DisputeDecision> {
+    const response = await postIdempotent('/api/amm/admin/disputes/decide', params);
+    if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: 'Failed to decide dispute' }));
+        throw new Error(error.error || 'Failed to decide dispute');
+    }
+    return response.json();
+}
+
+/**
+ * Refresh everything a resolution becoming final (or a bond moving) touches
+ */
+function invalidateResolution(queryClient: ReturnType<typeof useQueryClient>) {
+    queryClient.invalidateQueries({ queryKey: ammKeys.all });
+    queryClient.invalidateQueries({ queryKey: ['my-markets'] });
+    queryClient.invalidateQueries({ queryKey: ['streaming-balance-for-trade'] });
+    queryClient.invalidateQueries({ queryKey: ['user-trades'] });
+}
+
+/**
+ * Hook to fetch resolutions proposed or disputed but not yet final
+ */
+export function useProposedResolutions() {
+    return useQuery({
+        queryKey: ammKeys.proposedResolutions(),
+        queryFn: fetchProposedResolutions,
+        staleTime: 10 * 1000,
+        refetchInterval: 30 * 1000,
+    });
+}
+
+/**
+ * Hook to dispute a proposed resolution, posting the market's bond
+ */
+export function useDisputeResolution() {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: disputeResolution,
+        onSuccess: () => invalidateResolution(queryClient),
+    });
+}
+
+/**
+ * Hook to finalize an undisputed proposal once its dispute window has closed
+ */
+export function useFinalizeResolution() {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: finalizeResolution,
+        onSuccess: () => invalidateResolution(queryClient),
+    });
+}
+
+/**
+ * Hook to decide a disputed resolution (admin)
+ */
+export function useDecideDispute() {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: decideDispute,
+        onSuccess: () => invalidateResolution(queryClient),
+    });
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ORACLE
+// ═══════════════════════════════════════════════════════════════════════════
+
+async function fetchOracleStatus(): Promise<{ status: OracleSchedulerStatus }> {
+    const response = await fetch('/api/amm/oracle/status');
+    if (!response.ok) {
+        throw new Error('Failed to get oracle scheduler status');
+    }
+    return response.json();
+}
+
+/**
+ * Hook to get the oracle scheduler's state: markets awaiting a retry and the
+ * latest oracle resolutions
+ */
+export function useOracleStatus() {
+    return useQuery({
+        queryKey: ammKeys.oracleStatus(),
+        queryFn: fetchOracleStatus,
+        staleTime: 10 * 1000,
+        refetchInterval: 30 * 1000,
+    });
+}
+
+async function fetchOracleAssets(): Promise<{ assets: OracleAsset[]; minSources: number }> {
+    const response = await fetch('/api/amm/oracle/assets');
+    if (!response.ok) {
+        throw new Error('Failed to get oracle assets');
+    }
+    return response.json();
+}
+
+/**
+ * Hook to get the assets oracle markets can resolve against. A price needs
+ * `minSources` of an asset's providers to agree.
+ */
+export function useOracleAssets() {
+    return useQuery({
+        queryKey: ammKeys.oracleAssets(),
+        queryFn: fetchOracleAssets,
+        staleTime: 5 * 60 * 1000,
+    });
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// LIQUIDITY
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Hook to get user's LP position in a market
+ */
+export function useLiquidityPosition(marketId: string | null, userId: string | null) {
+    return useQuery({
+        queryKey: ammKeys.liquidity(marketId || '', userId || ''),
+        queryFn: () => fetchLiquidityPosition(marketId!, userId!),
+        enabled: !!marketId && !!userId,
+        staleTime: 10 * 1000,
+    });
+}
+
+/**
+ * Invalidate everything a liquidity change touches
+ */
+function useInvalidateLiquidity() {
+    const queryClient = useQueryClient();
+
+    return (variables: { marketId: string; userId: string }) => {
+        queryClient.invalidateQueries({ queryKey: ammKeys.markets() });
+        queryClient.invalidateQueries({
+            queryKey: ammKeys.liquidity(variables.marketId, variables.userId)
+        });
+        // Returned outcome shares land in the user's position
+        queryClient.invalidateQueries({
+            queryKey: ammKeys.position(variables.marketId, variables.userId)
+        });
+        queryClient.invalidateQueries({ queryKey: ['streaming-balance-for-trade'] });
+        queryClient.invalidateQueries({ queryKey: ['user-trades'] });
+    };
+}
+
+/**
+ * Hook to deposit USDC into a market's pool for LP shares
+ */
+export function useAddLiquidity() {
+    const invalidate = useInvalidateLiquidity();
+
+    return useMutation({
+        mutationFn: addLiquidity,
+        onSuccess: (_data, variables) => invalidate(variables),
+    });
+}
+
+/**
+ * Hook to burn LP shares for USDC and outcome shares
+ */
+export function useRemoveLiquidity() {
+    const invalidate = useInvalidateLiquidity();
+
+    return useMutation({
+        mutationFn: removeLiquidity,
+        onSuccess: (_data, variables) => invalidate(variables),
+    });
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// LIMIT ORDERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Hook to get a user's limit orders (all of them unless a status is given)
+ */
+export function useLimitOrders(userId: string | null, status?: LimitOrderStatus) {
+    return useQuery({
+        queryKey: ammKeys.userOrders(userId || '', status),
+        queryFn: () => fetchLimitOrders(userId!, status),
+        enabled: !!userId,
+        staleTime: 5 * 1000,
+        refetchInterval: 15 * 1000,
+    });
+}
+
+/**
+ * Hook to get a market's order book
+ */
+export function useOrderBook(marketId: string | null) {
+    return useQuery({
+        queryKey: ammKeys.book(marketId || ''),
+        queryFn: () => fetchOrderBook(marketId!),
+        enabled: !!marketId,
+        staleTime: 5 * 1000,
+        refetchInterval: 15 * 1000,
+    });
+}
+
+/**
+ * Invalidate everything a limit order placement or cancellation touches
+ */
+function useInvalidateLimitOrders() {
+    const queryClient = useQueryClient();
+
+    return () => {
+        queryClient.invalidateQueries({ queryKey: ammKeys.orders() });
+        // Placing an order can fill straight away
+        queryClient.invalidateQueries({ queryKey: ammKeys.markets() });
+        queryClient.invalidateQueries({ queryKey: [...ammKeys.all, 'position'] });
+        // Escrow moves in and out of the session balance
+        queryClient.invalidateQueries({ queryKey: ['streaming-balance-for-trade'] });
+        queryClient.invalidateQueries({ queryKey: ['user-trades'] });
+    };
+}
+
+/**
+ * Hook to place a limit order
+ */
+export function usePlaceLimitOrder() {
+    const invalidate = useInvalidateLimitOrders();
+
+    return useMutation({
+        mutationFn: placeLimitOrder,
+        onSuccess: () => invalidate(),
+    });
+}
+
+/**
+ * Hook to cancel an open limit order
+ */
+export function useCancelLimitOrder() {
+    const invalidate = useInvalidateLimitOrders();
+
+    return useMutation({
+        mutationFn: cancelLimitOrder,
+        onSuccess: () => invalidate(),
+    });
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SOLVENCY RECONCILIATION (ADMIN)
+// ═══════════════════════════════════════════════════════════════════════════
+
+async function fetchReconciliationReport(): Promise<{ report: ReconciliationReport | null }> {
+    const response = await fetch('/api/amm/admin/reconciliation');
+    if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: 'Failed to fetch reconciliation report' }));
+        throw new Error(error.error || 'Failed to fetch reconciliation report');
+    }
+    return response.json();
+}
+
+async function runReconciliation(): Promise<{ report: ReconciliationReport }> {
+    const response = await postIdempotent('/api/amm/admin/reconciliation/run', {});
+    if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: 'Failed to run reconciliation' }));
+        throw new Error(error.error || 'Failed to run reconciliation');
+    }
+    return response.json();
+}
+
+/**
+ * Hook to get the latest solvency reconciliation report (null before the first run)
+ */
+export function useReconciliationReport() {
+    return useQuery({
+        queryKey: ammKeys.reconciliation(),
+        queryFn: fetchReconciliationReport,
+        staleTime: 30 * 1000,
+        refetchInterval: 60 * 1000,
+    });
+}
+
+/**
+ * Hook to run solvency reconciliation now
+ */
+export function useRunReconciliation() {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: runReconciliation,
+        onSuccess: (data) => {
+            queryClient.setQueryData(ammKeys.reconciliation(), data);
+        },
+    });
+}
+
 /**
  * Hook to claim winnings
  */
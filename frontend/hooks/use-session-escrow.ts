@@ -2,6 +2,7 @@
 
 import { useAccount, useReadContract, useWriteContract, useWaitForTransactionReceipt, useChainId, useSwitchChain } from "wagmi"
 import { SESSION_ESCROW_ADDRESS, SESSION_ESCROW_ABI, POLYGON_USDC_ADDRESS, ERC20_ABI } from "@/lib/contracts"
+import { postIdempotent } from "@/lib/idempotency"
 import { formatUnits, parseUnits, type Address, type Hex } from "viem"
 import { useMemo, useState, useCallback } from "react"
 import { polygonAmoy } from "viem/chains"
@@ -200,16 +201,12 @@ export function useSessionEscrow() {
         try {
             const collateralBig = parseUnits(collateral, 6).toString()
 
-            const response = await fetch(`${BACKEND_URL}/api/session/open`, {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({
-                    userAddress: address,
-                    sessionId: sessionId,
-                    collateral: collateralBig,
-                    safeModeEnabled: safeMode,
-                    rwaRateBps: yieldRateBps || 5200 // Use fetched rate or default
-                })
+            const response = await postIdempotent(`${BACKEND_URL}/api/session/open`, {
+                userAddress: address,
+                sessionId: sessionId,
+                collateral: collateralBig,
+                safeModeEnabled: safeMode,
+                rwaRateBps: yieldRateBps || 5200 // Use fetched rate or default
             })
 
             if (!response.ok) {
@@ -237,11 +234,7 @@ export function useSessionEscrow() {
         }
 
         try {
-            const response = await fetch(`${BACKEND_URL}/api/session/close`, {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ sessionId })
-            })
+            const response = await postIdempotent(`${BACKEND_URL}/api/session/close`, { sessionId })
 
             if (!response.ok) {
                 const error = await response.json()
@@ -267,15 +260,11 @@ export function useSessionEscrow() {
         try {
             const collateralBig = parseUnits(locked, 6).toString()
 
-            const response = await fetch(`${BACKEND_URL}/api/session/recover`, {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({
-                    userAddress: address,
-                    sessionId: sessionId,
-                    collateral: collateralBig,
-                    safeModeEnabled: true // Default to safe mode for recovery
-                })
+            const response = await postIdempotent(`${BACKEND_URL}/api/session/recover`, {
+                userAddress: address,
+                sessionId: sessionId,
+                collateral: collateralBig,
+                safeModeEnabled: true // Default to safe mode for recovery
             })
 
 
@@ -4,6 +4,7 @@ import { useState, useEffect, useCallback } from "react"
 import { useAccount, useWalletClient } from "wagmi"
 import { type Address } from "viem"
 import { yellowClientManager } from "@/lib/yellow-client"
+import { postIdempotent } from "@/lib/idempotency"
 
 // Types matching backend
 export interface SessionConfig {
@@ -98,20 +99,16 @@ export function useYellowSession() {
         if (!address) return
         setIsLoading(true)
         try {
-            const res = await fetch(`${BACKEND_URL}/open`, {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({
-                    userAddress: address,
-                    collateral: collateral, // Already parsed units string? Backend expects string
-                    safeModeEnabled: safeMode,
-                    rwaRateBps: 520, // 5.2%
-                    // Init Session Key (if wallet available)
-                    ...(walletClient && await (async () => {
-                        const { address: sessionKey, signature } = await yellowClientManager.createSession(walletClient);
-                        return { sessionKey, authorization: signature };
-                    })())
-                })
+            const res = await postIdempotent(`${BACKEND_URL}/open`, {
+                userAddress: address,
+                collateral: collateral, // Already parsed units string? Backend expects string
+                safeModeEnabled: safeMode,
+                rwaRateBps: 520, // 5.2%
+                // Init Session Key (if wallet available)
+                ...(walletClient && await (async () => {
+                    const { address: sessionKey, signature } = await yellowClientManager.createSession(walletClient);
+                    return { sessionKey, authorization: signature };
+                })())
             })
             const data = await res.json()
             if (data.success && data.session) {
@@ -132,11 +129,7 @@ export function useYellowSession() {
         if (!sessionId) return
         setIsLoading(true)
         try {
-            const res = await fetch(`${BACKEND_URL}/close`, {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ sessionId })
-            })
+            const res = await postIdempotent(`${BACKEND_URL}/close`, { sessionId })
             const data = await res.json()
             if (data.success) {
                 // Clear local state
@@ -49,6 +49,43 @@ export enum Outcome {
     NO = 'NO'
 }
 
+/**
+ * Market structure
+ * - BINARY: the classic YES/NO pool
+ * - CATEGORICAL: N mutually exclusive outcomes priced by one pool
+ * - SCALAR: LONG/SHORT over a numeric range
+ */
+export type MarketType = 'BINARY' | 'CATEGORICAL' | 'SCALAR';
+
+/**
+ * Range of a scalar market: LONG pays (value - low) / (high - low)
+ */
+export interface ScalarRange {
+    low: number;
+    high: number;
+}
+
+/**
+ * Pricing curve backing a market
+ * - CPMM: constant product (x*y=k)
+ * - LMSR: logarithmic market scoring rule (bounded loss, deeper thin markets)
+ */
+export type PricingEngineType = 'CPMM' | 'LMSR';
+
+/**
+ * How a buy order is sized
+ * - spend: `amount` is the USDC to spend
+ * - shares: `amount` is the exact number of shares to buy
+ * - target: spend whatever moves the price to `targetPrice` (0-1)
+ */
+export type BetMode = 'spend' | 'shares' | 'target';
+
+/**
+ * How holders are refunded if a market is cancelled: the net USDC their
+ * holdings cost, or their value at the last prices
+ */
+export type RefundMode = 'COST_BASIS' | 'FAIR_PRICE';
+
 /**
  * Result of a swap operation
  */
@@ -110,6 +147,9 @@ export interface PoolPrices {
 
     /** Implied probability of NO outcome (0-100%) */
     noProbability: number;
+
+    /** Price of every outcome, index-aligned with Market.outcomes (sums to 1) */
+    outcomePrices?: number[];
 }
 
 /**
@@ -168,10 +208,25 @@ export const PROTOCOL_FEE_BPS = 100;
 /** Basis points denominator */
 export const BPS_DENOMINATOR = 10_000;
 
+/** Default slippage tolerance in percent */
+export const DEFAULT_SLIPPAGE_TOLERANCE = 1;
+
+/** How long a signed trade stays valid (seconds) */
+export const TRADE_DEADLINE_SECONDS = 60;
+
+/** Fixed-point denominator for signed prices (1e9 = $1.00) */
+export const PRICE_PRECISION = BigInt(1_000_000_000);
+
 // ═══════════════════════════════════════════════════════════════════════════
 // FRONTEND API TYPES
 // ═══════════════════════════════════════════════════════════════════════════
 
+/**
+ * Where a market is in its trading window: trades are refused before it
+ * opens and from its expiry on
+ */
+export type TradingPhase = 'SCHEDULED' | 'OPEN' | 'CLOSED';
+
 /**
  * Market with frontend-friendly format (serialized BigInts)
  */
@@ -179,13 +234,42 @@ export interface Market {
     marketId: string;
     title: string;
     description: string | null;
+    /** When trading opens (null: it opened at creation) */
+    opensAt?: string | null;
     expiresAt: string;
-    status: 'ACTIVE' | 'RESOLVED' | 'CANCELLED';
-    resolutionValue: 'YES' | 'NO' | null;
+    /** SCHEDULED before opensAt, CLOSED from expiry on (awaiting resolution) */
+    tradingPhase?: TradingPhase;
+    /** PROPOSED / DISPUTED: a resolution awaits its dispute window or an admin decision */
+    status: 'ACTIVE' | 'PROPOSED' | 'DISPUTED' | 'RESOLVED' | 'CANCELLED';
+    /** Winning outcome label, or the observed value for scalar markets */
+    resolutionValue: string | null;
+    /** How holders are refunded if the market is cancelled */
+    refundMode?: RefundMode;
+    /** Seconds a proposed resolution can be disputed (0: resolutions are final immediately) */
+    disputeWindowSeconds?: number;
+    /** USDC a disputer posts (base units) */
+    disputeBond?: string;
+    /** Resolution the resolver proposed, and until when it can be disputed */
+    proposedValue?: string | null;
+    proposedBy?: string | null;
+    disputeEndsAt?: string | null;
+    /** Session that disputed the proposal, and why */
+    disputedBy?: string | null;
+    disputeReason?: string | null;
+    marketType?: MarketType;
+    pricingEngine?: PricingEngineType;
+    /** Outcome labels (YES/NO for binary markets, LONG/SHORT for scalar) */
+    outcomes?: string[];
+    scalarRange?: ScalarRange | null;
     yesReserves: string;
     noReserves: string;
+    outcomeReserves?: string[] | null;
     totalCollateral: string;
     kInvariant: string;
+    /** LP shares outstanding over the pool's reserves */
+    lpTotalShares?: string;
+    /** Trade fee in basis points, charged on buys and sells */
+    feeBps?: number;
     prices: PoolPrices;
     // Optional UI fields for display
     category?: string;
@@ -196,16 +280,69 @@ export interface Market {
     // Resolution fields
     resolutionType?: 'manual' | 'oracle' | null;
     oracleConfig?: Record<string, unknown> | null;
+    /** Price an oracle market was resolved against, its sources, when it was published and observed */
+    oraclePrice?: number | null;
+    oracleSource?: string | null;
+    oraclePublishedAt?: string | null;
+    oracleObservedAt?: string | null;
+    /** Every source's answer the price was aggregated from */
+    oracleEvidence?: PriceEvidence | null;
     resolverAddress?: string | null;
 }
 
+/**
+ * A trade fee split between its recipients (USDC base units)
+ */
+export interface FeeBreakdown {
+    total: string;
+    /** Kept in the pool for its liquidity providers */
+    lp: string;
+    /** Owed to the market creator */
+    creator: string;
+    /** Owed to the protocol treasury */
+    protocol: string;
+}
+
 /**
  * Bet quote response
  */
 export interface BetQuote {
     expectedShares: string;
+    /** USDC the order costs, fee included (base units) */
+    cost: string;
+    /** Trade fee included in cost */
+    fee: FeeBreakdown;
     effectivePrice: number;
     priceImpact: number;
+    /** Where the order fills: asks on the order book and/or the pool */
+    route?: RouteFill[];
+}
+
+/**
+ * One part of a routed order (amounts in base units, fee excluded)
+ */
+export interface RouteFill {
+    venue: 'BOOK' | 'AMM';
+    /** Resting order filled against (book fills only) */
+    orderId: string | null;
+    shares: string;
+    usdc: string;
+    /** Average price of the fill (0-1) */
+    price: number;
+}
+
+/**
+ * Worst fill a trader accepts; the backend rejects trades beyond it
+ */
+export interface TradeLimits {
+    /** Buys: fewest shares accepted (base units) */
+    minSharesOut?: string;
+    /** Sells: least USDC accepted (base units) */
+    minUsdcOut?: string;
+    /** Buys: highest average price per share (0-1) */
+    maxAvgPrice?: number;
+    /** Unix time in seconds after which the trade must not execute */
+    deadline?: number;
 }
 
 /**
@@ -214,21 +351,440 @@ export interface BetQuote {
 export interface Position {
     yesShares: string;
     noShares: string;
+    /** Shares held per outcome label */
+    shares?: Record<string, string>;
+    /** USDC paid for the shares held, per outcome label (base units) */
+    costBases?: Record<string, string>;
+    /** USDC paid for every outcome's shares (base units) */
     costBasis: string;
 }
 
+/**
+ * An open position marked to its pool's current price (base units)
+ */
+export interface PortfolioPosition {
+    marketId: string;
+    marketTitle: string;
+    outcome: string;
+    shares: string;
+    /** Part of `shares` escrowed in open asks */
+    sharesInOrders: string;
+    costBasis: string;
+    averageEntryPrice: number;
+    markPrice: number;
+    marketValue: string;
+    unrealizedPnl: string;
+}
+
+/**
+ * A user's open positions with portfolio totals (base units)
+ */
+export interface Portfolio {
+    positions: PortfolioPosition[];
+    totals: {
+        costBasis: string;
+        marketValue: string;
+        unrealizedPnl: string;
+        /** PnL booked on every trade so far */
+        realizedPnl: string;
+    };
+}
+
+/**
+ * User's LP position in a market
+ */
+export interface LiquidityPosition {
+    lpShares: string;
+    /** USDC paid for the LP shares held (base units) */
+    costBasis: string;
+    totalLpShares: string;
+    /** Fraction of the pool the LP shares claim (0-1) */
+    poolShare: number;
+}
+
+/**
+ * Result of depositing liquidity
+ */
+export interface AddLiquidityResult {
+    lpShares: string;
+    totalLpShares: string;
+    /** Outcome shares the pool didn't keep, by outcome label */
+    returnedShares: Record<string, string>;
+}
+
+/**
+ * Result of withdrawing liquidity
+ */
+export interface RemoveLiquidityResult {
+    usdcOut: string;
+    totalLpShares: string;
+    /** Outcome shares withdrawn beyond complete sets, by outcome label */
+    returnedShares: Record<string, string>;
+    realizedPnl: string;
+}
+
+/** Good-till-cancelled, or good-till-time (expires at expiresAt) */
+export type TimeInForce = 'GTC' | 'GTT';
+
+/** Bids buy an outcome, asks sell it */
+export type OrderSide = 'BUY' | 'SELL';
+
+export type LimitOrderStatus = 'OPEN' | 'FILLED' | 'CANCELLED' | 'EXPIRED';
+
+/**
+ * Limit order resting on a market's order book (bids also rest against the pool)
+ */
+export interface LimitOrder {
+    orderId: string;
+    marketId: string;
+    userId: string;
+    outcome: string;
+    side: OrderSide;
+    /** Highest price (0-1) a bid buys at, lowest an ask sells at */
+    limitPrice: number;
+    /** Bids: USDC escrowed when the order was placed (base units) */
+    usdcAmount: string;
+    /** Bids: escrow not yet spent (base units) */
+    usdcRemaining: string;
+    sharesFilled: string;
+    /** Asks: shares escrowed when the order was placed (base units) */
+    sharesAmount: string;
+    /** Asks: shares not yet sold (base units) */
+    sharesRemaining: string;
+    /** Asks: USDC received so far (base units) */
+    usdcFilled: string;
+    timeInForce: TimeInForce;
+    expiresAt: string | null;
+    status: LimitOrderStatus;
+    createdAt: string;
+}
+
+/** Resting orders at one price (shares in base units) */
+export interface BookLevel {
+    price: number;
+    shares: string;
+    orders: number;
+}
+
+/**
+ * A market's order book: bids (best first) and asks (best first) per outcome
+ */
+export interface MarketOrderBook {
+    marketId: string;
+    outcomes: { outcome: string; bids: BookLevel[]; asks: BookLevel[] }[];
+}
+
+/**
+ * Result of splitting USDC into complete sets
+ */
+export interface SplitResult {
+    /** Shares received of every outcome (base units) */
+    shares: string;
+    outcomes: string[];
+    cost: string;
+}
+
+/**
+ * Result of merging complete sets back into USDC
+ */
+export interface MergeResult {
+    usdcOut: string;
+    outcomes: string[];
+    realizedPnl: string;
+}
+
 /**
  * Result of selling a position
  */
 export interface SellResult {
+    /** USDC paid out, net of the fee */
     usdcOut: string;
+    fee?: FeeBreakdown;
     priceImpact: number;
+    route?: RouteFill[];
+}
+
+/**
+ * One holding refunded by a market cancellation (base units)
+ */
+export interface CancellationRefund {
+    userId: string;
+    /** Outcome of the position refunded, or 'LP' for LP shares */
+    outcome: string;
+    shares: string;
+    refund: string;
+    realizedPnl: string;
+}
+
+/**
+ * Result of cancelling a market
+ */
+export interface MarketCancellation {
+    success: boolean;
+    marketId: string;
+    refundMode: RefundMode;
+    /** USDC refunded to holders (base units) */
+    totalRefunded: string;
+    refunds: CancellationRefund[];
+}
+
+/**
+ * Where a resolution stands after resolving or finalizing a market
+ */
+export interface ResolutionResult {
+    success: boolean;
+    marketId: string;
+    status: 'PROPOSED' | 'RESOLVED';
+    resolutionValue: string;
+    /** When the proposal can no longer be disputed (PROPOSED only) */
+    disputeEndsAt: string | null;
+}
+
+/**
+ * A dispute posted against a proposed resolution (bond in base units)
+ */
+export interface ResolutionDispute {
+    success: boolean;
+    marketId: string;
+    proposedValue: string;
+    disputedBy: string;
+    bond: string;
+}
+
+/**
+ * A disputed resolution decided by an admin: the bond is returned if the
+ * decision overturns the proposal, slashed if it upholds it
+ */
+export interface DisputeDecision extends ResolutionResult {
+    proposedValue: string;
+    disputedBy: string;
+    bond: string;
+    bondOutcome: 'RETURNED' | 'SLASHED';
+}
+
+/**
+ * An asset oracle markets can resolve against, and the providers pricing it
+ */
+export interface OracleAsset {
+    asset: string;
+    providers: string[];
+}
+
+export type QuoteStatus = 'ACCEPTED' | 'FAILED' | 'INVALID' | 'STALE' | 'LOW_CONFIDENCE';
+
+/**
+ * One price source's answer, and whether it counted towards the price
+ */
+export interface SourceEvidence {
+    source: string;
+    status: QuoteStatus;
+    price: number | null;
+    confidence: number | null;
+    publishedAt: string | null;
+    error?: string;
+}
+
+/**
+ * What an oracle price was aggregated from: the median of the accepted
+ * sources, or null when they were too few or disagreed
+ */
+export interface PriceEvidence {
+    asset: string;
+    price: number | null;
+    /** Largest distance of an accepted price from the median, as a fraction of it */
+    deviation: number | null;
+    /** When the median price was published */
+    publishedAt: string | null;
+    /** Time priced (the market's expiry), and the TWAP window ending then (0 for a spot price) */
+    pricedAt: string;
+    twapSeconds: number;
+    sources: SourceEvidence[];
+    aggregatedAt: string;
+    config: {
+        minSources: number;
+        maxAgeMs: number;
+        maxConfidence: number;
+        maxDeviation: number;
+    };
+}
+
+/**
+ * An oracle market resolved (or proposed) by the oracle scheduler
+ */
+export interface OracleResolution {
+    marketId: string;
+    status: 'PROPOSED' | 'RESOLVED';
+    resolutionValue: string;
+    price: number;
+    source: string;
+    /** When the price used was published (at or before expiry) */
+    publishedAt: string;
+    observedAt: string;
+}
+
+/**
+ * An oracle market whose resolution failed, waiting for its retry
+ */
+export interface OracleRetry {
+    marketId: string;
+    attempts: number;
+    lastError: string;
+    /** What the sources answered on the last attempt */
+    lastEvidence: PriceEvidence | null;
+    lastAttemptAt: string;
+    nextAttemptAt: string;
+}
+
+export interface OracleSchedulerStatus {
+    running: boolean;
+    intervalMs: number | null;
+    passInProgress: boolean;
+    lastPassAt: string | null;
+    lastPassError: string | null;
+    /** Markets resolved (or proposed) since the backend started */
+    totalResolved: number;
+    retries: OracleRetry[];
+    /** Latest resolutions, newest first */
+    recentResolutions: OracleResolution[];
+}
+
+export type ReconciliationDiscrepancyKind =
+    | 'MARKET_UNDERCOLLATERALIZED'
+    | 'SESSION_LEDGER_MISMATCH'
+    | 'SESSION_FUNDS_MISMATCH';
+
+/**
+ * A solvency check that failed (amounts in base units)
+ */
+export interface ReconciliationDiscrepancy {
+    kind: ReconciliationDiscrepancyKind;
+    /** Market or session the check ran against */
+    subject_id: string;
+    expected: string;
+    actual: string;
+    details: Record<string, string> | null;
+}
+
+/**
+ * Totals over every market and session checked (base units)
+ */
+export interface ReconciliationTotals {
+    collateral: string;
+    worstCasePayout: string;
+    sessionBalances: string;
+    lockedCostBasis: string;
+    deposits: string;
+    realizedPnl: string;
+}
+
+/**
+ * One solvency reconciliation run and what it found
+ */
+export interface ReconciliationReport {
+    run: {
+        id: number;
+        started_at: string;
+        finished_at: string;
+        markets_checked: number;
+        sessions_checked: number;
+        discrepancy_count: number;
+        totals: ReconciliationTotals;
+    };
+    discrepancies: ReconciliationDiscrepancy[];
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
 // HELPER FUNCTIONS
 // ═══════════════════════════════════════════════════════════════════════════
 
+/**
+ * Whether a market has more than the two YES/NO outcomes
+ */
+export function isCategoricalMarket(market: Market): boolean {
+    return market.marketType === 'CATEGORICAL';
+}
+
+/**
+ * Whether a market is a LONG/SHORT range market
+ */
+export function isScalarMarket(market: Market): boolean {
+    return market.marketType === 'SCALAR';
+}
+
+/**
+ * Whether a market trades outcomes other than YES/NO
+ */
+export function hasOutcomeList(market: Market): boolean {
+    return isCategoricalMarket(market) || isScalarMarket(market);
+}
+
+/**
+ * Outcome labels of a market with their current prices
+ */
+export function getMarketOutcomes(market: Market): { label: string; price: number }[] {
+    if (hasOutcomeList(market) && market.outcomes) {
+        return market.outcomes.map((label, i) => ({
+            label,
+            price: market.prices.outcomePrices?.[i] ?? 0
+        }));
+    }
+    return [
+        { label: Outcome.YES, price: market.prices.yesPrice },
+        { label: Outcome.NO, price: market.prices.noPrice }
+    ];
+}
+
+/**
+ * Buy limits for a quote at a slippage tolerance
+ * @param quote Quote the trader saw
+ * @param tolerance Slippage tolerance in percent (1 = 1%)
+ */
+export function buyLimitsFromQuote(quote: BetQuote, tolerance: number): TradeLimits {
+    const toleranceBps = BigInt(Math.round(tolerance * 100));
+    const bps = BigInt(BPS_DENOMINATOR);
+    return {
+        minSharesOut: (BigInt(quote.expectedShares) * (bps - toleranceBps) / bps).toString(),
+        maxAvgPrice: quote.effectivePrice * (1 + tolerance / 100)
+    };
+}
+
+/**
+ * Deadline for a trade submitted now
+ */
+export function tradeDeadline(): number {
+    return Math.floor(Date.now() / 1000) + TRADE_DEADLINE_SECONDS;
+}
+
+/**
+ * Where a market is in its trading window (derived from its dates when the
+ * backend didn't send it)
+ */
+export function getTradingPhase(market: Market, now: number = Date.now()): TradingPhase {
+    if (market.tradingPhase) return market.tradingPhase;
+    if (market.status !== 'ACTIVE' || now >= new Date(market.expiresAt).getTime()) return 'CLOSED';
+    if (market.opensAt && now < new Date(market.opensAt).getTime()) return 'SCHEDULED';
+    return 'OPEN';
+}
+
+/**
+ * Format a scalar market's range for display
+ * @returns Formatted string like "50,000 - 150,000"
+ */
+export function formatScalarRange(range: ScalarRange): string {
+    return `${range.low.toLocaleString('en-US')} - ${range.high.toLocaleString('en-US')}`;
+}
+
+/**
+ * Format a duration in seconds for display
+ * @returns Formatted string like "2d", "6h" or "15m"
+ */
+export function formatDuration(seconds: number): string {
+    if (seconds >= 86400 && seconds % 86400 === 0) return `${seconds / 86400}d`;
+    if (seconds >= 3600 && seconds % 3600 === 0) return `${seconds / 3600}h`;
+    if (seconds >= 60 && seconds % 60 === 0) return `${seconds / 60}m`;
+    return `${seconds}s`;
+}
+
 /**
  * Format USDC amount from base units to display string
  * @param amount Amount in base units (6 decimals)
@@ -0,0 +1,80 @@
+/**
+ * Idempotent requests - Retry state-changing calls without repeating them
+ *
+ * Every POST made with postIdempotent carries an `Idempotency-Key` that
+ * stays the same across its retries, so the backend runs it once and
+ * replays the stored response to any retry. The Next.js proxy routes pass
+ * the key through to the backend (forwardIdempotencyKey) and the replay
+ * marker back (replayHeaders).
+ */
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+export const IDEMPOTENT_REPLAY_HEADER = 'Idempotent-Replayed';
+
+/** Backend code for a retry that arrived while the first attempt is still running */
+const IN_PROGRESS_CODE = 'IDEMPOTENCY_KEY_IN_PROGRESS';
+
+const REQUEST_TIMEOUT_MS = 15_000;
+const MAX_RETRIES = 3;
+const RETRY_DELAY_MS = 1_000;
+
+/** Gateway errors where the request may or may not have reached the backend */
+const RETRYABLE_STATUSES = [502, 503, 504];
+
+function delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function isInProgress(response: Response): Promise<boolean> {
+    if (response.status !== 409) return false;
+    const body = await response.clone().json().catch(() => null);
+    return body?.code === IN_PROGRESS_CODE;
+}
+
+/**
+ * POST `body` as JSON, retrying timeouts, network errors, gateway errors
+ * and in-progress conflicts with the same idempotency key
+ */
+export async function postIdempotent(url: string, body: unknown): Promise<Response> {
+    const init: RequestInit = {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            [IDEMPOTENCY_HEADER]: crypto.randomUUID()
+        },
+        body: JSON.stringify(body)
+    };
+
+    for (let attempt = 0; ; attempt++) {
+        const lastAttempt = attempt === MAX_RETRIES;
+        try {
+            const response = await fetch(url, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+            if (lastAttempt || !(RETRYABLE_STATUSES.includes(response.status) || await isInProgress(response))) {
+                return response;
+            }
+        } catch (error) {
+            if (lastAttempt) throw error;
+        }
+        await delay(RETRY_DELAY_MS * (attempt + 1));
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PROXY ROUTES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Headers passing a request's idempotency key on to the backend
+ */
+export function forwardIdempotencyKey(request: Request): Record<string, string> {
+    const key = request.headers.get(IDEMPOTENCY_HEADER);
+    return key ? { [IDEMPOTENCY_HEADER]: key } : {};
+}
+
+/**
+ * Headers telling the client the backend replayed a stored response
+ */
+export function replayHeaders(response: Response): Record<string, string> {
+    const replayed = response.headers.get(IDEMPOTENT_REPLAY_HEADER);
+    return replayed ? { [IDEMPOTENT_REPLAY_HEADER]: replayed } : {};
+}